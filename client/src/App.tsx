@@ -13,12 +13,16 @@ import { GlobalErrorBoundary } from './components/ErrorBoundaries';
 import { AppAuthErrorBoundary } from './components/AuthErrorBoundary';
 import WorkflowGate from './components/WorkflowGate';
 import { ETFOLevel } from './hooks/useWorkflowState';
-import { OfflineNotification } from './components/OfflineNotification';
+import { OfflineNotification, RejectedChangesNotice } from './components/OfflineNotification';
 // import { OnboardingFlow, WelcomeModal } from './components/onboarding'; // Removed - using TeacherOnboardingFlow in MainLayout
 import { GlobalKeyboardShortcuts } from './components/GlobalKeyboardShortcuts';
 
 // Lazy load pages - ETFO-aligned pages only
 const LoginPage = lazy(() => import('./pages/LoginPage'));
+const ForgotPasswordPage = lazy(() => import('./pages/ForgotPasswordPage'));
+const ResetPasswordPage = lazy(() => import('./pages/ResetPasswordPage'));
+const PortalSignInPage = lazy(() => import('./pages/PortalSignInPage'));
+const GuardianPortalPage = lazy(() => import('./pages/GuardianPortalPage'));
 const LongRangePlanPage = lazy(() => import('./pages/LongRangePlanPage'));
 const UnitPlansPage = lazy(() => import('./pages/UnitPlansPage'));
 const ETFOLessonPlanPage = lazy(() => import('./pages/ETFOLessonPlanPage'));
@@ -32,6 +36,13 @@ const HelpPage = lazy(() => import('./pages/HelpPage'));
 const TemplatesPage = lazy(() => import('./pages/TemplatesPage'));
 const CalendarPlanningPage = lazy(() => import('./pages/planning/CalendarPlanningPage'));
 const TeamsPage = lazy(() => import('./pages/TeamsPage'));
+const ResourceLibraryPage = lazy(() => import('./pages/ResourceLibraryPage'));
+const ParentContactsPage = lazy(() => import('./pages/ParentContactsPage'));
+const StudentsPage = lazy(() => import('./pages/StudentsPage'));
+const AnalyticsPage = lazy(() => import('./pages/AnalyticsPage'));
+const TimetablePage = lazy(() => import('./pages/TimetablePage'));
+const SettingsPage = lazy(() => import('./pages/SettingsPage'));
+const SchoolPage = lazy(() => import('./pages/SchoolPage'));
 
 // Common suspense fallback
 const SuspenseFallback = () => (
@@ -51,6 +62,10 @@ function AppRoutes() {
     <Routes>
       {/* Public routes */}
       <Route path="/login" element={<LoginPage />} />
+      <Route path="/forgot-password" element={<ForgotPasswordPage />} />
+      <Route path="/reset-password" element={<ResetPasswordPage />} />
+      <Route path="/portal/sign-in" element={<PortalSignInPage />} />
+      <Route path="/portal" element={<GuardianPortalPage />} />
 
       {/* Protected routes with MainLayout */}
       <Route
@@ -209,9 +224,18 @@ function AppRoutes() {
         {/* Legacy resources - redirect to ETFO planning */}
         <Route path="/notes" element={<Navigate to="/planner/dashboard" replace />} />
         <Route path="/reflections" element={<Navigate to="/students" replace />} />
-        <Route path="/timetable" element={<Navigate to="/planner/dashboard" replace />} />
         <Route path="/activity-library" element={<Navigate to="/planner/dashboard" replace />} />
 
+        {/* Class Timetable */}
+        <Route
+          path="/timetable"
+          element={
+            <Suspense fallback={<SuspenseFallback />}>
+              <TimetablePage />
+            </Suspense>
+          }
+        />
+
         {/* Parent Newsletters */}
         <Route
           path="/newsletters"
@@ -229,6 +253,15 @@ function AppRoutes() {
             </Suspense>
           }
         />
+        {/* Parent and guardian contacts */}
+        <Route
+          path="/parent-contacts"
+          element={
+            <Suspense fallback={<SuspenseFallback />}>
+              <ParentContactsPage />
+            </Suspense>
+          }
+        />
         {/* Legacy newsletter routes - redirect to new newsletters */}
         <Route path="/newsletters/new" element={<Navigate to="/newsletters" replace />} />
         <Route path="/newsletters/draft" element={<Navigate to="/newsletters" replace />} />
@@ -269,6 +302,16 @@ function AppRoutes() {
           }
         />
 
+        {/* School-wide Resource Library */}
+        <Route
+          path="/resource-library"
+          element={
+            <Suspense fallback={<SuspenseFallback />}>
+              <ResourceLibraryPage />
+            </Suspense>
+          }
+        />
+
         {/* Help & Documentation */}
         <Route
           path="/help"
@@ -289,10 +332,16 @@ function AppRoutes() {
 
         {/* Legacy parent communications - redirect to students */}
         <Route path="/parent-messages" element={<Navigate to="/students" replace />} />
-        <Route path="/parent-contacts" element={<Navigate to="/students" replace />} />
 
-        {/* Students - legacy functionality removed */}
-        <Route path="/students" element={<Navigate to="/planner/dashboard" replace />} />
+        {/* Class list, goals and reflections */}
+        <Route
+          path="/students"
+          element={
+            <Suspense fallback={<SuspenseFallback />}>
+              <StudentsPage />
+            </Suspense>
+          }
+        />
         {/* Legacy parent summaries - redirect to students */}
         <Route path="/parent-summaries" element={<Navigate to="/students" replace />} />
         <Route
@@ -300,14 +349,38 @@ function AppRoutes() {
           element={<Navigate to="/curriculum/expectations" replace />}
         />
 
-        {/* Legacy analytics - redirect to dashboard */}
-        <Route path="/analytics" element={<Navigate to="/" replace />} />
+        {/* Analytics */}
+        <Route
+          path="/analytics"
+          element={
+            <Suspense fallback={<SuspenseFallback />}>
+              <AnalyticsPage />
+            </Suspense>
+          }
+        />
 
         {/* Legacy notifications - redirect to dashboard */}
         <Route path="/notifications" element={<Navigate to="/" replace />} />
 
-        {/* Settings - legacy functionality removed */}
-        <Route path="/settings" element={<Navigate to="/planner/dashboard" replace />} />
+        {/* School calendar, staff and coverage */}
+        <Route
+          path="/school"
+          element={
+            <Suspense fallback={<SuspenseFallback />}>
+              <SchoolPage />
+            </Suspense>
+          }
+        />
+
+        {/* Account settings */}
+        <Route
+          path="/settings"
+          element={
+            <Suspense fallback={<SuspenseFallback />}>
+              <SettingsPage />
+            </Suspense>
+          }
+        />
       </Route>
 
       {/* Redirect any unknown routes to home */}
@@ -329,6 +402,7 @@ export default function App() {
                     <AppRoutes />
                     <GlobalKeyboardShortcuts />
                     <OfflineNotification />
+                    <RejectedChangesNotice />
                   </KeyboardShortcutsProvider>
                 </OnboardingProvider>
               </HelpProvider>
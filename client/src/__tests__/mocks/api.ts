@@ -9,7 +9,7 @@ export const api = {
 };
 
 export const useNotifications = vi.fn(() => ({
-  data: [],
+  data: { notifications: [], total: 0, unreadCount: 0, limit: 20, offset: 0, hasMore: false },
   isLoading: false,
   error: null,
 }));
@@ -19,6 +19,11 @@ export const useMarkNotificationRead = vi.fn(() => ({
   isPending: false,
 }));
 
+export const useMarkAllNotificationsRead = vi.fn(() => ({
+  mutate: vi.fn(),
+  isPending: false,
+}));
+
 export const useCurriculumExpectations = vi.fn(() => ({
   data: [],
   isLoading: false,
@@ -6,9 +6,13 @@ import type {
   Newsletter,
   Subject,
   TeacherPreferencesInput,
-  TimetableSlot,
+  TimetableSlotInput,
+  ClassTimetable,
+  TimetableBlock,
   YearPlanEntry,
-  Notification,
+  NotificationPage,
+  NotificationPreferences,
+  EmailDelivery,
   CalendarEvent,
   OralRoutineTemplate,
   DailyOralRoutine,
@@ -131,8 +135,14 @@ export type {
   Subject,
   TeacherPreferencesInput,
   TimetableSlot,
+  TimetableSlotInput,
+  ClassTimetable,
+  TimetableBlock,
   YearPlanEntry,
   Notification,
+  NotificationPage,
+  NotificationPreferences,
+  EmailDelivery,
   CalendarEvent,
 } from './types';
 
@@ -168,7 +178,7 @@ export const useFilteredNotes = (filters: {
 export const useMaterialList = (weekStart: string) =>
   useQuery<MaterialList>({
     queryKey: ['material-list', weekStart],
-    queryFn: async () => (await api.get(`/materials?weekStart=${weekStart}`)).data,
+    queryFn: async () => (await api.get(`/api/materials?weekStart=${weekStart}`)).data,
   });
 
 export const useDailyPlan = (date: string) =>
@@ -225,27 +235,89 @@ export const useAddCalendarEvent = () => {
 // Notification hooks
 export const useNotifications = (options?: {
   enabled?: boolean;
+  page?: number;
+  limit?: number;
+  unreadOnly?: boolean;
   retry?: (failureCount: number, error: unknown) => boolean;
   retryDelay?: (attemptIndex: number) => number;
-}) =>
-  useQuery<Notification[]>({
-    queryKey: ['notifications'],
-    queryFn: async () => (await api.get('/api/notifications')).data,
+}) => {
+  const page = options?.page ?? 1;
+  const limit = options?.limit ?? 20;
+  const unreadOnly = options?.unreadOnly ?? false;
+  return useQuery<NotificationPage>({
+    queryKey: ['notifications', page, limit, unreadOnly],
+    queryFn: async () =>
+      (
+        await api.get('/api/notifications', {
+          params: { page, limit, unread: unreadOnly || undefined },
+        })
+      ).data,
     enabled: options?.enabled ?? true,
     retry: options?.retry ?? 3,
     retryDelay: options?.retryDelay,
   });
+};
 
 export const useMarkNotificationRead = () => {
   const qc = useQueryClient();
   return useMutation({
-    mutationFn: (id: number) => api.post(`/notifications/${id}/read`),
+    mutationFn: (id: string) => api.post('/api/notifications/mark-read', { notificationId: id }),
     onSuccess: () => {
       qc.invalidateQueries({ queryKey: ['notifications'] });
     },
   });
 };
 
+export const useMarkAllNotificationsRead = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: () => api.post('/api/notifications/mark-all-read'),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ['notifications'] });
+    },
+  });
+};
+
+export const useNotificationPreferences = () =>
+  useQuery<NotificationPreferences>({
+    queryKey: ['notification-preferences'],
+    queryFn: async () => (await api.get('/api/notifications/preferences')).data,
+  });
+
+export const useUpdateNotificationPreferences = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (data: Partial<NotificationPreferences>) =>
+      api.put('/api/notifications/preferences', data),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ['notification-preferences'] });
+      toast.success('Notification preferences saved');
+    },
+  });
+};
+
+export const useEmailDeliveries = (filter: { relatedType?: string; relatedId?: string } = {}) =>
+  useQuery<EmailDelivery[]>({
+    queryKey: ['email-deliveries', filter.relatedType, filter.relatedId],
+    queryFn: async () => (await api.get('/api/email-deliveries', { params: filter })).data,
+    // Keep polling while anything is still on its way
+    refetchInterval: (query) =>
+      query.state.data?.some((d) => d.status === 'queued' || d.status === 'sending')
+        ? 15000
+        : false,
+  });
+
+export const useRetryEmailDelivery = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => api.post(`/api/email-deliveries/${id}/retry`),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ['email-deliveries'] });
+      toast.success('Email queued for another attempt');
+    },
+  });
+};
+
 // Year plan hooks
 export const useYearPlan = (teacherId: number, year: number) =>
   useQuery<YearPlanEntry[]>({
@@ -273,9 +345,9 @@ export const useNotes = () =>
 
 // Material hooks
 export const useMaterialDetails = (weekStart: string) =>
-  useQuery<MaterialList>({
+  useQuery<Array<{ date: string; materials: ExtractedMaterials }>>({
     queryKey: ['material-details', weekStart],
-    queryFn: async () => (await api.get(`/materials/details?weekStart=${weekStart}`)).data,
+    queryFn: async () => (await api.get(`/api/materials/details?weekStart=${weekStart}`)).data,
   });
 
 export const useDeleteResource = () => {
@@ -548,12 +620,16 @@ export interface MaterialItem {
   id: string;
   name: string;
   category: 'physical' | 'digital' | 'printable' | 'supplies' | 'equipment';
-  quantity?: number;
+  quantity?: string;
   location?: string;
   preparation?: string;
+  /** Minutes, counted once per day however many lessons use it */
+  prepTime?: number;
   alternatives?: string[];
   priority: 'essential' | 'recommended' | 'optional';
   source: 'activity' | 'resource' | 'inferred';
+  /** Titles of the lessons that need it */
+  lessons?: string[];
 }
 
 export interface ExtractedMaterials {
@@ -584,26 +660,15 @@ export interface ExtractedMaterials {
   };
 }
 
-export const extractDayMaterials = async (
-  date: string,
-  userId?: number,
-): Promise<ExtractedMaterials> => {
-  const params = new URLSearchParams({ date });
-  if (userId) params.append('userId', userId.toString());
-
-  const response = await api.get(`/subplan/extract/materials/day?${params}`);
+export const extractDayMaterials = async (date: string): Promise<ExtractedMaterials> => {
+  const response = await api.get('/api/materials/day', { params: { date } });
   return response.data;
 };
 
 export const extractWeeklyMaterials = async (
-  startDate: string,
-  days: number = 5,
-  userId?: number,
+  weekStart: string,
 ): Promise<Array<{ date: string; materials: ExtractedMaterials }>> => {
-  const params = new URLSearchParams({ startDate, days: days.toString() });
-  if (userId) params.append('userId', userId.toString());
-
-  const response = await api.get(`/subplan/extract/materials/weekly?${params}`);
+  const response = await api.get('/api/materials/details', { params: { weekStart } });
   return response.data;
 };
 
@@ -690,17 +755,26 @@ export const useLessonPlan = (weekStart: string) => {
 };
 
 export const useTimetable = () =>
-  useQuery<TimetableSlot[]>({
+  useQuery<ClassTimetable>({
     queryKey: ['timetable'],
     queryFn: async () => (await api.get('/api/timetable')).data,
   });
 
+export const useTimetableWeek = (weekStart: string) =>
+  useQuery<TimetableBlock[]>({
+    queryKey: ['timetable', 'week', weekStart],
+    queryFn: async () => (await api.get(`/api/timetable/week/${weekStart}`)).data,
+    enabled: !!weekStart,
+  });
+
 export const useSaveTimetable = () => {
   const qc = useQueryClient();
   return useMutation({
-    mutationFn: (
-      slots: Array<{ day: number; startMin: number; endMin: number; subjectId?: number | null }>,
-    ) => api.put('/api/timetable', { slots }),
+    mutationFn: (data: {
+      rotationLength?: number | null;
+      rotationStart?: string | null;
+      slots?: TimetableSlotInput[];
+    }) => api.put('/api/timetable', data),
     onSuccess: () => {
       qc.invalidateQueries({ queryKey: ['timetable'] });
       toast.success('Timetable saved');
@@ -708,6 +782,40 @@ export const useSaveTimetable = () => {
   });
 };
 
+export const useCreateTimetableSlot = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (data: TimetableSlotInput) => api.post('/api/timetable/slots', data),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ['timetable'] });
+      toast.success('Slot added');
+    },
+  });
+};
+
+export const useUpdateTimetableSlot = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, ...data }: TimetableSlotInput & { id: number }) =>
+      api.put(`/api/timetable/slots/${id}`, data),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ['timetable'] });
+      toast.success('Slot updated');
+    },
+  });
+};
+
+export const useDeleteTimetableSlot = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (id: number) => api.delete(`/api/timetable/slots/${id}`),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ['timetable'] });
+      toast.success('Slot removed');
+    },
+  });
+};
+
 export const useCalendarEvents = (start: string, end: string) =>
   useQuery<CalendarEvent[]>({
     queryKey: ['calendar-events', start, end],
@@ -874,7 +982,7 @@ export const useUpdateTeacherPreferences = () => {
 
 // Resource management
 export const downloadPrintables = async (weekStart: string) => {
-  return api.get(`/printables?weekStart=${weekStart}`, {
+  return api.get(`/api/materials/printables?weekStart=${weekStart}`, {
     responseType: 'blob',
   });
 };
@@ -910,30 +1018,63 @@ export const useUpdateDailyPlan = () => {
   });
 };
 
+export interface ScheduledSlot {
+  kind: 'existing' | 'proposed' | 'buffer';
+  date: string;
+  day: number;
+  slotId: number | null;
+  startMin: number;
+  endMin: number;
+  unitPlanId: string | null;
+  lessonPlanId: string | null;
+  title: string;
+  subject: string | null;
+  expectationIds: string[];
+}
+
+export interface WeeklySchedulePreview {
+  weekStart: string;
+  pacingStrategy: 'strict' | 'relaxed';
+  preserveBuffer: boolean;
+  slots: ScheduledSlot[];
+  units: Array<{
+    unitPlanId: string;
+    title: string;
+    targetMinutes: number;
+    scheduledMinutes: number;
+    remainingMinutes: number;
+    uncoveredExpectations: number;
+    behindPace: boolean;
+  }>;
+}
+
 export const useGeneratePlan = () => {
-  const qc = useQueryClient();
   return useMutation({
     mutationFn: async (data: {
       weekStart: string;
       preserveBuffer: boolean;
       pacingStrategy: 'strict' | 'relaxed';
-    }) =>
-      (
-        await api.post<{
-          id: string;
-          weekStart: string;
-          activities: Array<{
-            id: number;
-            title: string;
-            description: string;
-            duration: number;
-            subjectId: number;
-          }>;
-        }>('/api/lesson-plans/generate', data)
-      ).data,
-    onSuccess: (_, { weekStart }) => {
-      qc.invalidateQueries({ queryKey: ['weekly-plan', weekStart] });
-      qc.invalidateQueries({ queryKey: ['subjects'] });
+      // Defaults to the saved class timetable when omitted
+      slots?: Array<{
+        id: number;
+        day: number;
+        startMin: number;
+        endMin: number;
+        subjectId: number | null;
+      }>;
+      unitPriorities?: Record<string, number>;
+    }) => (await api.post<WeeklySchedulePreview>('/api/planner/schedule/preview', data)).data,
+  });
+};
+
+export const useAcceptWeeklySchedule = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async (slots: ScheduledSlot[]) =>
+      (await api.post<{ created: number }>('/api/planner/schedule/accept', { slots })).data,
+    onSuccess: ({ created }) => {
+      qc.invalidateQueries({ queryKey: ['etfo-lesson-plans'] });
+      toast.success(`${created} lesson plans added to your week`);
     },
   });
 };
@@ -1821,7 +1962,7 @@ export const useUpdateStudentGoal = () => {
     { studentId: number; goalId: number; data: Partial<StudentGoalInput> }
   >({
     mutationFn: async ({ studentId, goalId, data }) =>
-      (await api.put(`/api/students/${studentId}/goals/${goalId}`, data)).data,
+      (await api.patch(`/api/students/${studentId}/goals/${goalId}`, data)).data,
     onSuccess: (_, { studentId }) => {
       queryClient.invalidateQueries({ queryKey: ['students', studentId, 'goals'] });
       queryClient.invalidateQueries({ queryKey: ['students', studentId] });
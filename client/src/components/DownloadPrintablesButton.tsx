@@ -1,23 +1,37 @@
+import { useState } from 'react';
+import { Download } from 'lucide-react';
 import { downloadPrintables } from '../api';
+import { Button } from './ui/Button';
+import { handleApiError } from '../utils/errorHandler';
 
 interface Props {
   weekStart: string;
 }
 
 export default function DownloadPrintablesButton({ weekStart }: Props) {
+  const [isDownloading, setIsDownloading] = useState(false);
+
   const handleClick = async () => {
-    const res = await downloadPrintables(weekStart);
-    const url = window.URL.createObjectURL(res.data);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'printables.zip';
-    a.click();
-    window.URL.revokeObjectURL(url);
+    setIsDownloading(true);
+    try {
+      const res = await downloadPrintables(weekStart);
+      const url = window.URL.createObjectURL(res.data);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `printables-${weekStart}.zip`;
+      a.click();
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      handleApiError(error, 'Failed to download printables');
+    } finally {
+      setIsDownloading(false);
+    }
   };
 
   return (
-    <button className="border px-2 py-1" onClick={handleClick}>
+    <Button variant="outline" size="sm" onClick={handleClick} disabled={isDownloading}>
+      <Download className="h-4 w-4 mr-1" />
       Download Printables
-    </button>
+    </Button>
   );
 }
@@ -0,0 +1,71 @@
+import { Mail, RotateCw } from 'lucide-react';
+import { useEmailDeliveries, useRetryEmailDelivery } from '../api';
+import type { EmailDeliveryStatus as Status } from '../types';
+import { cn } from '../lib/utils';
+
+const statusStyles: Record<Status, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'bg-gray-100 text-gray-700' },
+  sending: { label: 'Sending', className: 'bg-blue-100 text-blue-800' },
+  sent: { label: 'Sent', className: 'bg-green-100 text-green-800' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-800' },
+};
+
+interface EmailDeliveryStatusProps {
+  relatedType: string;
+  relatedId: string;
+}
+
+/**
+ * Delivery status of the emails sent for one record, e.g. a newsletter.
+ */
+export default function EmailDeliveryStatus({ relatedType, relatedId }: EmailDeliveryStatusProps) {
+  const { data: deliveries = [] } = useEmailDeliveries({ relatedType, relatedId });
+  const retry = useRetryEmailDelivery();
+
+  if (deliveries.length === 0) return null;
+
+  return (
+    <div className="mt-6 bg-white border border-gray-200 rounded-lg p-4">
+      <h3 className="flex items-center gap-2 text-sm font-semibold text-gray-900 mb-3">
+        <Mail className="w-4 h-4" />
+        Email delivery
+      </h3>
+      <ul className="divide-y divide-gray-100">
+        {deliveries.map((delivery) => {
+          const style = statusStyles[delivery.status];
+          return (
+            <li key={delivery.id} className="flex items-center justify-between py-2 text-sm">
+              <div>
+                <div className="text-gray-900">{delivery.to}</div>
+                {delivery.status === 'failed' && delivery.lastError && (
+                  <div className="text-xs text-red-600">{delivery.lastError}</div>
+                )}
+                {delivery.status === 'queued' && delivery.attempts > 0 && (
+                  <div className="text-xs text-gray-500">
+                    Retrying after {delivery.attempts} failed attempt
+                    {delivery.attempts === 1 ? '' : 's'}
+                  </div>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <span className={cn('px-2 py-1 rounded-full text-xs font-medium', style.className)}>
+                  {style.label}
+                </span>
+                {delivery.status === 'failed' && (
+                  <button
+                    onClick={() => retry.mutate(delivery.id)}
+                    disabled={retry.isPending}
+                    className="p-1 text-gray-600 hover:text-blue-600 disabled:opacity-50"
+                    title="Retry"
+                  >
+                    <RotateCw className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { useQueryClient } from '@tanstack/react-query';
+import { Mail, RotateCw } from 'lucide-react';
+import { useRetryEmailDelivery } from '../api';
+import {
+  SKIP_REASON_LABELS,
+  useNewsletterRecipients,
+  type NewsletterRecipient,
+} from '../hooks/useGuardians';
+import { cn } from '../lib/utils';
+
+const statusStyles: Record<NewsletterRecipient['status'], { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'bg-gray-100 text-gray-700' },
+  sending: { label: 'Sending', className: 'bg-blue-100 text-blue-800' },
+  sent: { label: 'Sent', className: 'bg-green-100 text-green-800' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-800' },
+  skipped: { label: 'Not emailed', className: 'bg-yellow-100 text-yellow-800' },
+};
+
+/**
+ * Who a sent newsletter went to: each guardian or typed-in address, the
+ * language they received, and how delivery went.
+ */
+export default function NewsletterRecipients({ newsletterId }: { newsletterId: string }) {
+  const queryClient = useQueryClient();
+  const { data: recipients = [] } = useNewsletterRecipients(newsletterId);
+  const retry = useRetryEmailDelivery();
+
+  if (recipients.length === 0) return null;
+
+  const handleRetry = (deliveryId: string) =>
+    retry.mutate(deliveryId, {
+      onSuccess: () =>
+        queryClient.invalidateQueries({ queryKey: ['newsletter-recipients', newsletterId] }),
+    });
+
+  return (
+    <div className="mt-6 bg-white border border-gray-200 rounded-lg p-4">
+      <h3 className="flex items-center gap-2 text-sm font-semibold text-gray-900 mb-3">
+        <Mail className="w-4 h-4" />
+        Recipients
+      </h3>
+      <ul className="divide-y divide-gray-100">
+        {recipients.map((recipient) => {
+          const style = statusStyles[recipient.status];
+          return (
+            <li key={recipient.id} className="flex items-center justify-between py-2 text-sm">
+              <div>
+                <div className="text-gray-900">
+                  {recipient.name ?? recipient.email}
+                  {recipient.name && recipient.email && (
+                    <span className="text-gray-500"> · {recipient.email}</span>
+                  )}
+                </div>
+                {recipient.skipReason && (
+                  <div className="text-xs text-gray-500">
+                    {SKIP_REASON_LABELS[recipient.skipReason]}
+                  </div>
+                )}
+                {recipient.status === 'failed' && recipient.lastError && (
+                  <div className="text-xs text-red-600">{recipient.lastError}</div>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-gray-500 uppercase">{recipient.language}</span>
+                <span className={cn('px-2 py-1 rounded-full text-xs font-medium', style.className)}>
+                  {style.label}
+                </span>
+                {recipient.status === 'failed' && recipient.emailDeliveryId && (
+                  <button
+                    onClick={() => handleRetry(recipient.emailDeliveryId!)}
+                    disabled={retry.isPending}
+                    className="p-1 text-gray-600 hover:text-blue-600 disabled:opacity-50"
+                    title="Retry"
+                  >
+                    <RotateCw className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -1,20 +1,44 @@
 import { useNotificationContext } from '../contexts/NotificationContext';
 
 export default function NotificationCenter() {
-  const { notifications, markRead } = useNotificationContext();
-  if (notifications.length === 0) return <div>No notifications</div>;
+  const { notifications, unreadCount, hasMore, page, setPage, markRead, markAllRead } =
+    useNotificationContext();
+  if (notifications.length === 0 && page === 1) return <div>No notifications</div>;
   return (
-    <ul className="space-y-2">
-      {notifications.map((n) => (
-        <li key={n.id} className="border p-2 flex justify-between">
-          <span className={n.read ? 'opacity-50' : ''}>{n.message}</span>
-          {!n.read && (
-            <button className="text-sm underline" onClick={() => markRead(n.id)}>
-              Mark read
-            </button>
-          )}
-        </li>
-      ))}
-    </ul>
+    <div className="space-y-2">
+      {unreadCount > 0 && (
+        <div className="flex justify-between items-center text-sm">
+          <span>{unreadCount} unread</span>
+          <button className="underline" onClick={markAllRead}>
+            Mark all read
+          </button>
+        </div>
+      )}
+      <ul className="space-y-2">
+        {notifications.map((n) => (
+          <li key={n.id} className="border p-2 flex justify-between">
+            <div className={n.read ? 'opacity-50' : ''}>
+              <p className="font-medium">{n.title}</p>
+              <p className="text-sm">{n.message}</p>
+            </div>
+            {!n.read && (
+              <button className="text-sm underline" onClick={() => markRead(n.id)}>
+                Mark read
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+      {(page > 1 || hasMore) && (
+        <div className="flex justify-between text-sm">
+          <button className="underline" disabled={page === 1} onClick={() => setPage(page - 1)}>
+            Newer
+          </button>
+          <button className="underline" disabled={!hasMore} onClick={() => setPage(page + 1)}>
+            Older
+          </button>
+        </div>
+      )}
+    </div>
   );
 }
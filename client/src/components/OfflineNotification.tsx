@@ -5,6 +5,14 @@ import React, { useState, useEffect } from 'react';
 import { WifiOff, X, AlertCircle, RefreshCw } from 'lucide-react';
 import { Button } from './ui/Button';
 import { isOnline } from '../utils/serviceWorkerRegistration';
+import { offlineStorage, OfflineChange } from '../services/offlineStorage';
+
+const ENTITY_LABELS: Record<OfflineChange['entity'], string> = {
+  'unit-plan': 'Unit plan',
+  'lesson-plan': 'Lesson plan',
+  daybook: 'Daybook entry',
+  'planner-state': 'Weekly planner',
+};
 
 export function OfflineNotification() {
   const [isOnlineState, setIsOnlineState] = useState(isOnline());
@@ -109,6 +117,73 @@ export function OfflineNotification() {
   );
 }
 
+// Offline changes the server refused. They stay queued, with later edits to
+// the same record held behind them, until the user discards them.
+export function RejectedChangesNotice() {
+  const [changes, setChanges] = useState<OfflineChange[]>([]);
+
+  useEffect(() => {
+    const load = async () => {
+      const unsynced = await offlineStorage.getUnsyncedChanges();
+      setChanges(unsynced.filter((change) => change.rejectedReason));
+    };
+    load();
+
+    window.addEventListener('offline-changes-updated', load);
+    return () => window.removeEventListener('offline-changes-updated', load);
+  }, []);
+
+  const discard = async (changeId: string) => {
+    await offlineStorage.discardChange(changeId);
+    setChanges((current) => current.filter((change) => change.id !== changeId));
+  };
+
+  if (changes.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="fixed bottom-4 left-4 right-4 md:left-auto md:right-4 md:max-w-md z-50 animate-slide-up">
+      <div className="bg-red-50 border border-red-200 rounded-lg shadow-lg p-4">
+        <div className="flex items-start">
+          <div className="flex-shrink-0">
+            <AlertCircle className="h-5 w-5 text-red-600" />
+          </div>
+          <div className="ml-3 flex-1">
+            <h3 className="text-sm font-medium text-red-800">
+              Some offline changes could not be saved
+            </h3>
+            <p className="mt-1 text-sm text-red-700">
+              Later edits to the same plans wait until you discard these.
+            </p>
+            <ul className="mt-2 space-y-2 text-sm text-red-700">
+              {changes.map((change) => (
+                <li key={change.id} className="flex items-start justify-between gap-2">
+                  <span>
+                    <span className="font-medium">{ENTITY_LABELS[change.entity]}</span>
+                    {' · '}
+                    {new Date(change.timestamp).toLocaleString()}
+                    <br />
+                    {change.rejectedReason}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => discard(change.id)}
+                    className="text-red-700 border-red-300 hover:bg-red-100"
+                  >
+                    Discard
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 // Conflict Resolution Modal Component
 interface ConflictResolutionModalProps {
   conflict: {
@@ -2,7 +2,7 @@ import { Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 
 export default function ProtectedRoute({ children }: { children: JSX.Element }) {
-  const { isAuthenticated, isLoading } = useAuth();
+  const { isAuthenticated, isLoading, user } = useAuth();
   const location = useLocation();
 
   if (isLoading) {
@@ -22,5 +22,10 @@ export default function ProtectedRoute({ children }: { children: JSX.Element })
     return <Navigate to="/login" state={{ from: location }} replace />;
   }
 
+  // Accounts set up by an admin have to replace their temporary password first
+  if (user?.mustChangePassword && location.pathname !== '/settings') {
+    return <Navigate to="/settings" replace />;
+  }
+
   return children;
 }
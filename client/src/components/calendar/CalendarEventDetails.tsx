@@ -118,6 +118,7 @@ export default function CalendarEventDetails({
       'pd-day': 'PD Day',
       assessment: 'Assessment',
       'school-event': 'School Event',
+      'team-event': 'Team Event',
     };
     return typeLabels[event.type] || 'Event';
   };
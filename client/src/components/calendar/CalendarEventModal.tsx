@@ -26,7 +26,13 @@ interface CalendarEventModalProps {
   onEventCreated?: () => void;
 }
 
-type EventType = 'lesson' | 'assessment' | 'pd-day' | 'school-event' | 'holiday';
+type EventType =
+  | 'lesson'
+  | 'assessment'
+  | 'pd-day'
+  | 'school-event'
+  | 'holiday'
+  | 'report-deadline';
 
 const EVENT_TYPE_OPTIONS: { value: EventType; label: string }[] = [
   { value: 'lesson', label: 'Lesson' },
@@ -34,6 +40,7 @@ const EVENT_TYPE_OPTIONS: { value: EventType; label: string }[] = [
   { value: 'pd-day', label: 'PD Day' },
   { value: 'school-event', label: 'School Event' },
   { value: 'holiday', label: 'Holiday' },
+  { value: 'report-deadline', label: 'Report Card Deadline' },
 ];
 
 export default function CalendarEventModal({
@@ -73,6 +80,7 @@ export default function CalendarEventModal({
           'pd-day': 'PD_DAY',
           'school-event': 'CUSTOM',
           'holiday': 'HOLIDAY',
+          'report-deadline': 'REPORT_DEADLINE',
           'lesson': 'CUSTOM',
         };
 
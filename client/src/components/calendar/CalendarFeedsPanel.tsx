@@ -0,0 +1,230 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Copy, RefreshCw, Trash2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { api } from '../../api';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Label } from '../ui/Label';
+import SchoolYearHolidays from './SchoolYearHolidays';
+import {
+  calendarExportUrl,
+  useAddCalendarFeed,
+  useCalendarFeeds,
+  useCreateExportToken,
+  useDeleteCalendarFeed,
+  useRefreshCalendarFeed,
+  useRevokeExportToken,
+} from '../../hooks/useCalendarFeeds';
+
+function CopyableUrl({ label, url }: { label: string; url: string }) {
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(url);
+    toast.success('Link copied');
+  };
+
+  return (
+    <div>
+      <div className="text-xs text-gray-600 mb-1">{label}</div>
+      <div className="flex gap-2">
+        <Input value={url} readOnly onFocus={(e) => e.target.select()} className="text-xs" />
+        <Button variant="outline" size="sm" onClick={handleCopy} title="Copy link">
+          <Copy className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Board and school calendars imported from iCalendar links or files, and the
+ * private link that shows this calendar in Google, Outlook or Apple Calendar.
+ */
+export default function CalendarFeedsPanel() {
+  const { data } = useCalendarFeeds();
+  const { data: teams = [] } = useQuery<{ id: string; name: string }[]>({
+    queryKey: ['teams'],
+    queryFn: () => api.get('/api/teams').then((res) => res.data),
+  });
+  const addFeed = useAddCalendarFeed();
+  const refreshFeed = useRefreshCalendarFeed();
+  const deleteFeed = useDeleteCalendarFeed();
+  const createToken = useCreateExportToken();
+  const revokeToken = useRevokeExportToken();
+  const [name, setName] = useState('');
+  const [url, setUrl] = useState('');
+  const [exportToken, setExportToken] = useState<{ token: string; path: string } | null>(null);
+
+  const handleSubscribe = (e: React.FormEvent) => {
+    e.preventDefault();
+    addFeed.mutate(
+      { name: name.trim() || 'School calendar', url: url.trim() },
+      {
+        onSuccess: () => {
+          setName('');
+          setUrl('');
+        },
+      },
+    );
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const content = await file.text();
+    addFeed.mutate({ name: name.trim() || file.name.replace(/\.ics$/i, ''), content });
+  };
+
+  const handleCreateToken = () => {
+    if (
+      data?.exportEnabled &&
+      !confirm('Create a new link? Calendars subscribed to your current link will stop updating.')
+    ) {
+      return;
+    }
+    createToken.mutate(undefined, { onSuccess: setExportToken });
+  };
+
+  const handleRevoke = () => {
+    if (confirm('Turn off your calendar link? Subscribed calendars will stop updating.')) {
+      revokeToken.mutate(undefined, { onSuccess: () => setExportToken(null) });
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 mb-4 grid gap-6 md:grid-cols-2">
+      <section className="space-y-3">
+        <h3 className="font-semibold">School and board calendars</h3>
+        {data?.feeds.length ? (
+          <ul className="divide-y text-sm">
+            {data.feeds.map((feed) => (
+              <li key={feed.id} className="py-2 flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="font-medium">{feed.name}</div>
+                  <div className="text-xs text-gray-500 truncate">
+                    {feed.url ?? 'Uploaded file'} · {feed._count.events} event(s)
+                    {feed.lastSyncedAt &&
+                      ` · updated ${new Date(feed.lastSyncedAt).toLocaleString()}`}
+                  </div>
+                  {feed.lastError && (
+                    <div className="text-xs text-red-600">
+                      Last refresh failed: {feed.lastError}
+                    </div>
+                  )}
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  {feed.url && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => refreshFeed.mutate(feed.id)}
+                      disabled={refreshFeed.isPending}
+                      title="Refresh now"
+                    >
+                      <RefreshCw className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      if (confirm(`Remove ${feed.name} and its events from your calendar?`)) {
+                        deleteFeed.mutate(feed.id);
+                      }
+                    }}
+                    title="Remove"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500">
+            Add your board&apos;s calendar to see PD days, holidays and other school dates here.
+          </p>
+        )}
+
+        <form onSubmit={handleSubscribe} className="space-y-2">
+          <div>
+            <Label htmlFor="feed-name">Name</Label>
+            <Input
+              id="feed-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Board calendar"
+            />
+          </div>
+          <div>
+            <Label htmlFor="feed-url">Calendar link (.ics or webcal://)</Label>
+            <Input
+              id="feed-url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://example.org/calendar.ics"
+            />
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Button type="submit" size="sm" disabled={!url.trim() || addFeed.isPending}>
+              Subscribe
+            </Button>
+            <label className="inline-flex items-center gap-1 text-sm text-indigo-600 cursor-pointer">
+              <Upload className="h-4 w-4" />
+              Upload an .ics file
+              <input
+                type="file"
+                accept=".ics,text/calendar"
+                className="hidden"
+                onChange={handleFile}
+              />
+            </label>
+          </div>
+          <p className="text-xs text-gray-500">
+            Subscribed calendars update every few hours. Uploaded files are imported once.
+          </p>
+        </form>
+      </section>
+
+      <section className="space-y-3">
+        <h3 className="font-semibold">Show this calendar elsewhere</h3>
+        <p className="text-sm text-gray-600">
+          Subscribe to this link in Google Calendar, Outlook or Apple Calendar to see your lessons,
+          units and events there. Anyone with the link can see them, so keep it private.
+        </p>
+        {exportToken ? (
+          <div className="space-y-3">
+            <CopyableUrl label="Your calendar" url={calendarExportUrl(exportToken.path)} />
+            {teams.map((team) => (
+              <CopyableUrl
+                key={team.id}
+                label={`${team.name} team calendar`}
+                url={calendarExportUrl(`/api/ical/${exportToken.token}/teams/${team.id}.ics`)}
+              />
+            ))}
+            <p className="text-xs text-gray-500">Copy the links now; they are not shown again.</p>
+          </div>
+        ) : (
+          data?.exportEnabled && (
+            <p className="text-sm text-gray-600">
+              Your link is on. Create a new link if you need to see it again.
+            </p>
+          )
+        )}
+        <div className="flex gap-2">
+          <Button size="sm" onClick={handleCreateToken} disabled={createToken.isPending}>
+            {data?.exportEnabled ? 'Create new link' : 'Create link'}
+          </Button>
+          {data?.exportEnabled && (
+            <Button variant="outline" size="sm" onClick={handleRevoke}>
+              Turn off link
+            </Button>
+          )}
+        </div>
+      </section>
+
+      <SchoolYearHolidays />
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { useEffect, useState } from 'react';
+import { Button } from '../ui/Button';
+import {
+  PROVINCES,
+  Province,
+  formatSchoolDate,
+  useImportHolidays,
+  useSchoolYear,
+} from '../../hooks/useSchoolCalendar';
+
+const selectClass =
+  'rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm';
+
+/**
+ * Statutory holidays, breaks, PD days and terms computed for the teacher's
+ * province, with a button to add the closures to the calendar.
+ */
+export default function SchoolYearHolidays() {
+  const today = new Date();
+  const currentStart = today.getMonth() >= 6 ? today.getFullYear() : today.getFullYear() - 1;
+  const [year, setYear] = useState(currentStart);
+  const [province, setProvince] = useState<Province | undefined>();
+  const { data: schoolYear } = useSchoolYear(year, province);
+  const importHolidays = useImportHolidays();
+
+  // Start from the province the server resolved for this teacher
+  useEffect(() => {
+    if (!province && schoolYear) setProvince(schoolYear.province);
+  }, [province, schoolYear]);
+
+  const closures = schoolYear
+    ? [
+        ...schoolYear.holidays.map((h) => ({ name: h.name, start: h.date, end: h.date })),
+        ...schoolYear.breaks,
+        ...schoolYear.pdDays.map((d) => ({ name: d.name, start: d.date, end: d.date })),
+      ].sort((a, b) => a.start.localeCompare(b.start))
+    : [];
+
+  return (
+    <section className="space-y-3 md:col-span-2">
+      <h3 className="font-semibold">Holidays and school year</h3>
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          aria-label="Province"
+          value={province ?? ''}
+          onChange={(e) => setProvince(e.target.value as Province)}
+          className={selectClass}
+        >
+          {PROVINCES.map((p) => (
+            <option key={p.code} value={p.code}>
+              {p.name}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label="School year"
+          value={year}
+          onChange={(e) => setYear(Number(e.target.value))}
+          className={selectClass}
+        >
+          {[currentStart - 1, currentStart, currentStart + 1].map((y) => (
+            <option key={y} value={y}>
+              {y}-{y + 1}
+            </option>
+          ))}
+        </select>
+        <Button
+          size="sm"
+          onClick={() => province && importHolidays.mutate({ year, province })}
+          disabled={!province || importHolidays.isPending}
+        >
+          Add to calendar
+        </Button>
+      </div>
+
+      {schoolYear && (
+        <div className="grid gap-4 text-sm md:grid-cols-2">
+          <div>
+            <p className="text-gray-600">
+              {formatSchoolDate(schoolYear.start)} to {formatSchoolDate(schoolYear.end)} ·{' '}
+              {schoolYear.instructionalDays} school days
+            </p>
+            <ul className="mt-2 space-y-1">
+              {schoolYear.terms.map((term) => (
+                <li key={term.name}>
+                  <span className="font-medium">{term.name}</span>: {formatSchoolDate(term.start)} –{' '}
+                  {formatSchoolDate(term.end)}
+                </li>
+              ))}
+            </ul>
+          </div>
+          <ul className="space-y-1 text-gray-700">
+            {closures.map((c) => (
+              <li key={`${c.name}-${c.start}`}>
+                {formatSchoolDate(c.start)}
+                {c.end !== c.start && ` – ${formatSchoolDate(c.end)}`}: {c.name}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <p className="text-xs text-gray-500">
+        Breaks, PD days and terms follow the usual provincial pattern. Subscribe to your
+        board&apos;s calendar above for its exact dates.
+      </p>
+    </section>
+  );
+}
@@ -0,0 +1,336 @@
+/**
+ * DiscussionThread Component
+ * Shows a team discussion with its replies, and moderation for owners and admins
+ */
+
+import React, { useState } from 'react';
+import { ArrowLeft, CheckCircle, FileText, Lock, Pin, Send, Trash2, Unlock } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/Button';
+import { Textarea } from '@/components/ui/Textarea';
+import { Badge } from '@/components/ui/Badge';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/lib/api';
+import { useNavigate } from 'react-router-dom';
+import { useToast } from '@/components/ui/use-toast';
+import { formatDistanceToNow } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import type { TeamSharedPlan } from './TeamDiscussions';
+
+interface Author {
+  id: number;
+  name: string;
+  email: string;
+}
+
+interface Reply {
+  id: string;
+  content: string;
+  isAnswer: boolean;
+  createdAt: string;
+  authorId: number;
+  author: Author | null;
+}
+
+interface DiscussionDetail {
+  id: string;
+  title: string;
+  content: string;
+  category?: string;
+  isPinned: boolean;
+  isLocked: boolean;
+  viewCount: number;
+  replyCount: number;
+  createdAt: string;
+  authorId: number;
+  author: Author | null;
+  sharedPlan: { shareCode: string; planType: string; planId: string } | null;
+  replies: Reply[];
+}
+
+interface DiscussionThreadProps {
+  teamId: string;
+  discussionId: string;
+  canModerate: boolean;
+  canContribute: boolean;
+  sharedPlans: TeamSharedPlan[];
+  onBack: () => void;
+}
+
+const planRoutes: Record<string, string> = {
+  lesson: '/lessons',
+  unit: '/units',
+  daybook: '/daybook',
+  'long-range': '/long-range',
+};
+
+export function DiscussionThread({
+  teamId,
+  discussionId,
+  canModerate,
+  canContribute,
+  sharedPlans,
+  onBack,
+}: DiscussionThreadProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [replyContent, setReplyContent] = useState('');
+
+  const basePath = `/api/teams/${teamId}/discussions/${discussionId}`;
+
+  // Fetch the thread (each fetch counts as a view)
+  const { data: discussion, isLoading } = useQuery<DiscussionDetail>({
+    queryKey: ['team-discussion', teamId, discussionId],
+    queryFn: () => api.get(basePath).then((res) => res.data),
+    refetchOnWindowFocus: false,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['team-discussion', teamId, discussionId] });
+    queryClient.invalidateQueries({ queryKey: ['team-discussions', teamId] });
+  };
+
+  const onError = (error: unknown) => {
+    const message = error instanceof Error ? error.message : 'Please try again';
+    toast({
+      title: 'Something went wrong',
+      description: message,
+      variant: 'destructive',
+    });
+  };
+
+  const replyMutation = useMutation({
+    mutationFn: async (content: string) => {
+      const response = await api.post(`${basePath}/replies`, { content });
+      return response.data;
+    },
+    onSuccess: () => {
+      setReplyContent('');
+      invalidate();
+    },
+    onError,
+  });
+
+  const moderateMutation = useMutation({
+    mutationFn: async (updates: { isPinned?: boolean; isLocked?: boolean }) => {
+      const response = await api.patch(basePath, updates);
+      return response.data;
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const answerMutation = useMutation({
+    mutationFn: async ({ replyId, isAnswer }: { replyId: string; isAnswer: boolean }) => {
+      const response = await api.post(`${basePath}/replies/${replyId}/answer`, { isAnswer });
+      return response.data;
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const deleteReplyMutation = useMutation({
+    mutationFn: async (replyId: string) => {
+      await api.delete(`${basePath}/replies/${replyId}`);
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const deleteDiscussionMutation = useMutation({
+    mutationFn: async () => {
+      await api.delete(basePath);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['team-discussions', teamId] });
+      toast({
+        title: 'Discussion deleted',
+        description: 'The discussion has been removed.',
+      });
+      onBack();
+    },
+    onError,
+  });
+
+  if (isLoading || !discussion) {
+    return (
+      <Card className="p-6 animate-pulse">
+        <div className="h-6 bg-gray-200 rounded w-1/3 mb-4"></div>
+        <div className="h-24 bg-gray-200 rounded"></div>
+      </Card>
+    );
+  }
+
+  const isAuthor = discussion.authorId === Number(user?.id);
+  const linkedPlan = discussion.sharedPlan
+    ? sharedPlans.find((plan) => plan.shareCode === discussion.sharedPlan!.shareCode)
+    : undefined;
+
+  return (
+    <div className="space-y-4">
+      <Button variant="ghost" size="sm" onClick={onBack}>
+        <ArrowLeft className="w-4 h-4 mr-1" />
+        All discussions
+      </Button>
+
+      <Card className="p-6">
+        <div className="flex items-start justify-between gap-4 mb-2">
+          <div>
+            <h2 className="text-xl font-semibold flex items-center gap-2">
+              {discussion.isPinned && <Pin className="w-4 h-4 text-blue-600" />}
+              {discussion.isLocked && <Lock className="w-4 h-4 text-gray-500" />}
+              {discussion.title}
+            </h2>
+            <div className="text-sm text-gray-500 mt-1">
+              {discussion.author?.name || 'Unknown'} ·{' '}
+              {formatDistanceToNow(new Date(discussion.createdAt))} ago · {discussion.viewCount}{' '}
+              views
+              {discussion.category && (
+                <Badge variant="outline" className="ml-2 capitalize">
+                  {discussion.category}
+                </Badge>
+              )}
+            </div>
+          </div>
+          <div className="flex items-center gap-1 shrink-0">
+            {canModerate && (
+              <>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => moderateMutation.mutate({ isPinned: !discussion.isPinned })}
+                  title={discussion.isPinned ? 'Unpin' : 'Pin'}
+                >
+                  <Pin className={`w-4 h-4 ${discussion.isPinned ? 'fill-current' : ''}`} />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => moderateMutation.mutate({ isLocked: !discussion.isLocked })}
+                  title={discussion.isLocked ? 'Unlock' : 'Lock'}
+                >
+                  {discussion.isLocked ? (
+                    <Unlock className="w-4 h-4" />
+                  ) : (
+                    <Lock className="w-4 h-4" />
+                  )}
+                </Button>
+              </>
+            )}
+            {(isAuthor || canModerate) && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  if (window.confirm('Delete this discussion and all of its replies?')) {
+                    deleteDiscussionMutation.mutate();
+                  }
+                }}
+              >
+                <Trash2 className="w-4 h-4 text-red-500" />
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <p className="text-gray-700 whitespace-pre-wrap">{discussion.content}</p>
+
+        {discussion.sharedPlan && (
+          <div className="mt-4 flex items-center justify-between rounded border bg-gray-50 p-3">
+            <div className="flex items-center gap-2 text-sm">
+              <FileText className="w-4 h-4 text-gray-500" />
+              <span>
+                {linkedPlan?.planDetails?.title || `Linked ${discussion.sharedPlan.planType} plan`}
+              </span>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                navigate(
+                  `${planRoutes[discussion.sharedPlan!.planType]}/${discussion.sharedPlan!.planId}`,
+                )
+              }
+            >
+              View Plan
+            </Button>
+          </div>
+        )}
+      </Card>
+
+      {discussion.replies.map((reply) => (
+        <Card
+          key={reply.id}
+          className={`p-4 ml-6 ${reply.isAnswer ? 'bg-green-50 border-green-200' : ''}`}
+        >
+          <div className="flex items-start justify-between mb-2">
+            <div className="flex items-center gap-2">
+              <div className="font-medium">{reply.author?.name || 'Unknown'}</div>
+              <span className="text-sm text-gray-500">
+                {formatDistanceToNow(new Date(reply.createdAt))} ago
+              </span>
+              {reply.isAnswer && (
+                <Badge variant="secondary" className="text-xs bg-green-100 text-green-700">
+                  <CheckCircle className="w-3 h-3 mr-1" />
+                  Answer
+                </Badge>
+              )}
+            </div>
+            <div className="flex items-center gap-1">
+              {canModerate && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    answerMutation.mutate({ replyId: reply.id, isAnswer: !reply.isAnswer })
+                  }
+                  title={reply.isAnswer ? 'Unmark answer' : 'Mark as answer'}
+                >
+                  <CheckCircle className={`w-4 h-4 ${reply.isAnswer ? 'text-green-600' : ''}`} />
+                </Button>
+              )}
+              {(reply.authorId === Number(user?.id) || canModerate) && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteReplyMutation.mutate(reply.id)}
+                >
+                  <Trash2 className="w-4 h-4 text-red-500" />
+                </Button>
+              )}
+            </div>
+          </div>
+          <p className="text-gray-700 whitespace-pre-wrap">{reply.content}</p>
+        </Card>
+      ))}
+
+      {discussion.isLocked ? (
+        <Card className="p-4 text-center text-sm text-gray-500">
+          <Lock className="w-4 h-4 inline mr-1" />
+          This discussion is locked. No new replies can be added.
+        </Card>
+      ) : (
+        canContribute && (
+          <Card className="p-4">
+            <Textarea
+              value={replyContent}
+              onChange={(e) => setReplyContent(e.target.value)}
+              placeholder="Write a reply..."
+              rows={3}
+              className="mb-3"
+            />
+            <Button
+              onClick={() => replyMutation.mutate(replyContent.trim())}
+              disabled={!replyContent.trim() || replyMutation.isPending}
+            >
+              <Send className="w-4 h-4 mr-2" />
+              Post Reply
+            </Button>
+          </Card>
+        )
+      )}
+    </div>
+  );
+}
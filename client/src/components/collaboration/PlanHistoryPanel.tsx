@@ -0,0 +1,227 @@
+/**
+ * PlanHistoryPanel Component
+ * Lists a plan's saved versions, shows what changed, and restores old versions
+ */
+
+import React, { useState } from 'react';
+import { History, RotateCcw, GitCompare } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/lib/api';
+import { useToast } from '@/components/ui/use-toast';
+import { formatDistanceToNow } from 'date-fns';
+
+interface PlanVersionSummary {
+  id: string;
+  versionNumber: number;
+  changeType: 'create' | 'update' | 'revert';
+  changeNotes: string | null;
+  createdAt: string;
+  changedBy: number;
+  changedByUser: { id: number; name: string | null; email: string } | null;
+}
+
+interface PlanFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+interface PlanVersionDiff {
+  from: { versionNumber: number; createdAt: string };
+  to: { versionNumber: number; createdAt: string };
+  changes: PlanFieldChange[];
+}
+
+interface PlanHistoryPanelProps {
+  planType: 'long-range' | 'unit' | 'lesson' | 'daybook';
+  planId: string;
+  /** Called after a restore so the page can reload the plan */
+  onRestored?: () => void;
+}
+
+const changeTypeLabels: Record<PlanVersionSummary['changeType'], string> = {
+  create: 'Created',
+  update: 'Edited',
+  revert: 'Restored',
+};
+
+function fieldLabel(field: string) {
+  if (field === 'expectations') return 'Curriculum expectations';
+  const words = field.replace(/Fr$/, ' (French)').replace(/([a-z])([A-Z])/g, '$1 $2');
+  return words.charAt(0).toUpperCase() + words.slice(1).toLowerCase();
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '—';
+    return value
+      .map((item) =>
+        item && typeof item === 'object' && 'expectationId' in item
+          ? String((item as { expectationId: string }).expectationId)
+          : formatValue(item),
+      )
+      .join(', ');
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  // Rich text fields are stored as HTML
+  return String(value)
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function PlanHistoryPanel({ planType, planId, onRestored }: PlanHistoryPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [compare, setCompare] = useState<{ from: number; to: number } | null>(null);
+
+  const { data: versions = [], isLoading } = useQuery<PlanVersionSummary[]>({
+    queryKey: ['plan-versions', planType, planId],
+    queryFn: () => api.get(`/api/plan-versions/${planType}/${planId}`).then((res) => res.data),
+    enabled: !!planId,
+  });
+
+  const { data: diff, isLoading: isDiffLoading } = useQuery<PlanVersionDiff>({
+    queryKey: ['plan-versions', planType, planId, 'diff', compare?.from, compare?.to],
+    queryFn: () =>
+      api
+        .get(`/api/plan-versions/${planType}/${planId}/diff`, { params: compare })
+        .then((res) => res.data),
+    enabled: !!compare,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (versionNumber: number) => {
+      const response = await api.post(`/api/plan-versions/${planType}/${planId}/revert`, {
+        versionNumber,
+      });
+      return response.data;
+    },
+    onSuccess: (_, versionNumber) => {
+      toast({
+        title: 'Version restored',
+        description: `The plan now matches version ${versionNumber}.`,
+      });
+      setCompare(null);
+      queryClient.invalidateQueries({ queryKey: ['plan-versions', planType, planId] });
+      onRestored?.();
+    },
+    onError: (error: unknown) => {
+      const message = error instanceof Error ? error.message : 'Failed to restore the version';
+      toast({
+        title: 'Restore failed',
+        description: message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const latest = versions[0]?.versionNumber;
+
+  const handleRestore = (versionNumber: number) => {
+    if (
+      window.confirm(
+        `Restore version ${versionNumber}? The current plan is kept in the history and can be restored later.`,
+      )
+    ) {
+      restoreMutation.mutate(versionNumber);
+    }
+  };
+
+  return (
+    <Card className="p-4">
+      <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900 mb-3">
+        <History className="w-5 h-5" />
+        Version History
+      </h3>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading history…</p>
+      ) : versions.length === 0 ? (
+        <p className="text-sm text-gray-500">No saved versions yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {versions.map((version) => (
+            <li key={version.id} className="flex items-start justify-between gap-4 py-2">
+              <div className="text-sm">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-gray-900">v{version.versionNumber}</span>
+                  <Badge variant="outline">{changeTypeLabels[version.changeType]}</Badge>
+                  {version.versionNumber === latest && <Badge variant="secondary">Current</Badge>}
+                </div>
+                <div className="text-xs text-gray-500 mt-1">
+                  {version.changedByUser?.name || version.changedByUser?.email || 'Unknown user'} ·{' '}
+                  {formatDistanceToNow(new Date(version.createdAt), { addSuffix: true })}
+                </div>
+                {version.changeNotes && (
+                  <div className="text-xs text-gray-600 mt-1">{version.changeNotes}</div>
+                )}
+              </div>
+              <div className="flex gap-1 shrink-0">
+                {version.versionNumber > 1 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      setCompare({ from: version.versionNumber - 1, to: version.versionNumber })
+                    }
+                    title="Show changes from the previous version"
+                  >
+                    <GitCompare className="w-4 h-4" />
+                  </Button>
+                )}
+                {version.versionNumber !== latest && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRestore(version.versionNumber)}
+                    disabled={restoreMutation.isPending}
+                    title="Restore this version"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {compare && (
+        <div className="mt-4 border-t pt-4">
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="text-sm font-semibold text-gray-900">
+              Changes from v{compare.from} to v{compare.to}
+            </h4>
+            <Button variant="ghost" size="sm" onClick={() => setCompare(null)}>
+              Close
+            </Button>
+          </div>
+          {isDiffLoading ? (
+            <p className="text-sm text-gray-500">Loading changes…</p>
+          ) : !diff || diff.changes.length === 0 ? (
+            <p className="text-sm text-gray-500">No differences.</p>
+          ) : (
+            <div className="space-y-3">
+              {diff.changes.map((change) => (
+                <div key={change.field} className="text-sm">
+                  <div className="font-medium text-gray-700">{fieldLabel(change.field)}</div>
+                  <div className="mt-1 rounded bg-red-50 px-2 py-1 text-red-800 line-through">
+                    {formatValue(change.before)}
+                  </div>
+                  <div className="mt-1 rounded bg-green-50 px-2 py-1 text-green-800">
+                    {formatValue(change.after)}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,300 @@
+/**
+ * TeamDiscussions Component
+ * Lists a team's discussion threads and starts new ones
+ */
+
+import React, { useState } from 'react';
+import { MessageSquare, Pin, Lock, Plus } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Textarea } from '@/components/ui/Textarea';
+import { Badge } from '@/components/ui/Badge';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/lib/api';
+import { useToast } from '@/components/ui/use-toast';
+import { formatDistanceToNow } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { DiscussionThread } from './DiscussionThread';
+
+interface Team {
+  id: string;
+  name: string;
+  ownerId: number;
+  members: { userId: number; role: 'OWNER' | 'ADMIN' | 'MEMBER' | 'VIEWER' }[];
+}
+
+interface DiscussionSummary {
+  id: string;
+  title: string;
+  category?: string;
+  isPinned: boolean;
+  isLocked: boolean;
+  viewCount: number;
+  replyCount: number;
+  lastReplyAt?: string;
+  createdAt: string;
+  author: { id: number; name: string } | null;
+}
+
+export interface TeamSharedPlan {
+  shareCode: string;
+  planType: string;
+  planId: string;
+  planDetails?: { title?: string } | null;
+}
+
+const CATEGORIES = ['general', 'planning', 'resources', 'help'] as const;
+
+interface TeamDiscussionsProps {
+  onJoinTeam: () => void;
+}
+
+export function TeamDiscussions({ onJoinTeam }: TeamDiscussionsProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedTeamId, setSelectedTeamId] = useState('');
+  const [category, setCategory] = useState('');
+  const [openDiscussionId, setOpenDiscussionId] = useState<string | null>(null);
+  const [isComposing, setIsComposing] = useState(false);
+  const [draft, setDraft] = useState({
+    title: '',
+    content: '',
+    category: 'general',
+    sharedPlanCode: '',
+  });
+
+  const { data: teams = [] } = useQuery<{ id: string; name: string }[]>({
+    queryKey: ['teams'],
+    queryFn: () => api.get('/api/teams').then((res) => res.data),
+  });
+
+  const teamId = selectedTeamId || teams[0]?.id || '';
+
+  const { data: team } = useQuery<Team>({
+    queryKey: ['team', teamId],
+    queryFn: () => api.get(`/api/teams/${teamId}`).then((res) => res.data),
+    enabled: !!teamId,
+  });
+
+  const { data: discussions = [], isLoading } = useQuery<DiscussionSummary[]>({
+    queryKey: ['team-discussions', teamId, category],
+    queryFn: () =>
+      api
+        .get(`/api/teams/${teamId}/discussions`, {
+          params: category ? { category } : {},
+        })
+        .then((res) => res.data),
+    enabled: !!teamId,
+  });
+
+  // Plans shared with the team, which threads can link to
+  const { data: sharedPlans = [] } = useQuery<TeamSharedPlan[]>({
+    queryKey: ['shared-plans', 'team', teamId],
+    queryFn: () => api.get('/api/sharing/plans', { params: { teamId } }).then((res) => res.data),
+    enabled: !!teamId,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await api.post(`/api/teams/${teamId}/discussions`, {
+        title: draft.title.trim(),
+        content: draft.content.trim(),
+        category: draft.category,
+        sharedPlanCode: draft.sharedPlanCode || undefined,
+      });
+      return response.data;
+    },
+    onSuccess: (discussion: DiscussionSummary) => {
+      queryClient.invalidateQueries({ queryKey: ['team-discussions', teamId] });
+      setDraft({ title: '', content: '', category: 'general', sharedPlanCode: '' });
+      setIsComposing(false);
+      setOpenDiscussionId(discussion.id);
+    },
+    onError: (error: unknown) => {
+      const message = error instanceof Error ? error.message : 'Please try again';
+      toast({
+        title: 'Failed to start discussion',
+        description: message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (teams.length === 0) {
+    return (
+      <Card className="p-8 text-center">
+        <MessageSquare className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+        <h3 className="text-lg font-semibold mb-2">No team discussions yet</h3>
+        <p className="text-gray-600 mb-4 max-w-md mx-auto">
+          Start conversations, ask questions, and share ideas with your teaching team.
+        </p>
+        <Button variant="outline" onClick={onJoinTeam}>
+          Join a Team First
+        </Button>
+      </Card>
+    );
+  }
+
+  const role =
+    team?.ownerId === Number(user?.id)
+      ? 'OWNER'
+      : team?.members.find((member) => member.userId === Number(user?.id))?.role;
+  const canModerate = role === 'OWNER' || role === 'ADMIN';
+  const canContribute = !!role && role !== 'VIEWER';
+
+  if (openDiscussionId) {
+    return (
+      <DiscussionThread
+        teamId={teamId}
+        discussionId={openDiscussionId}
+        canModerate={canModerate}
+        canContribute={canContribute}
+        sharedPlans={sharedPlans}
+        onBack={() => setOpenDiscussionId(null)}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={teamId}
+          onChange={(e) => setSelectedTeamId(e.target.value)}
+          className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+        >
+          {teams.map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.name}
+            </option>
+          ))}
+        </select>
+        <select
+          value={category}
+          onChange={(e) => setCategory(e.target.value)}
+          className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+        >
+          <option value="">All categories</option>
+          {CATEGORIES.map((c) => (
+            <option key={c} value={c}>
+              {c.charAt(0).toUpperCase() + c.slice(1)}
+            </option>
+          ))}
+        </select>
+        {canContribute && (
+          <Button className="ml-auto" onClick={() => setIsComposing(!isComposing)}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Discussion
+          </Button>
+        )}
+      </div>
+
+      {isComposing && (
+        <Card className="p-4 space-y-3">
+          <Input
+            value={draft.title}
+            onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+            placeholder="Title"
+          />
+          <Textarea
+            value={draft.content}
+            onChange={(e) => setDraft({ ...draft, content: e.target.value })}
+            placeholder="What would you like to discuss?"
+            rows={4}
+          />
+          <div className="flex flex-wrap gap-3">
+            <select
+              value={draft.category}
+              onChange={(e) => setDraft({ ...draft, category: e.target.value })}
+              className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            >
+              {CATEGORIES.map((c) => (
+                <option key={c} value={c}>
+                  {c.charAt(0).toUpperCase() + c.slice(1)}
+                </option>
+              ))}
+            </select>
+            <select
+              value={draft.sharedPlanCode}
+              onChange={(e) => setDraft({ ...draft, sharedPlanCode: e.target.value })}
+              className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            >
+              <option value="">No linked plan</option>
+              {sharedPlans.map((plan) => (
+                <option key={plan.shareCode} value={plan.shareCode}>
+                  {plan.planDetails?.title || `Untitled ${plan.planType} plan`}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!draft.title.trim() || !draft.content.trim() || createMutation.isPending}
+            >
+              Post
+            </Button>
+            <Button variant="outline" onClick={() => setIsComposing(false)}>
+              Cancel
+            </Button>
+          </div>
+        </Card>
+      )}
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {[1, 2, 3].map((i) => (
+            <Card key={i} className="p-4 animate-pulse">
+              <div className="h-5 bg-gray-200 rounded w-1/3 mb-2"></div>
+              <div className="h-4 bg-gray-200 rounded w-1/4"></div>
+            </Card>
+          ))}
+        </div>
+      ) : discussions.length === 0 ? (
+        <Card className="p-8 text-center text-gray-500">
+          <MessageSquare className="w-12 h-12 mx-auto mb-3 text-gray-400" />
+          <p>No discussions yet. Start the first one!</p>
+        </Card>
+      ) : (
+        <div className="space-y-2">
+          {discussions.map((discussion) => (
+            <Card
+              key={discussion.id}
+              className="p-4 cursor-pointer hover:bg-gray-50"
+              onClick={() => setOpenDiscussionId(discussion.id)}
+            >
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <div className="font-medium flex items-center gap-2">
+                    {discussion.isPinned && <Pin className="w-4 h-4 text-blue-600" />}
+                    {discussion.isLocked && <Lock className="w-4 h-4 text-gray-500" />}
+                    {discussion.title}
+                  </div>
+                  <div className="text-sm text-gray-500 mt-1">
+                    {discussion.author?.name || 'Unknown'} · last activity{' '}
+                    {formatDistanceToNow(new Date(discussion.lastReplyAt || discussion.createdAt))}{' '}
+                    ago
+                  </div>
+                </div>
+                <div className="flex items-center gap-3 text-sm text-gray-500 shrink-0">
+                  {discussion.category && (
+                    <Badge variant="outline" className="capitalize">
+                      {discussion.category}
+                    </Badge>
+                  )}
+                  <span className="flex items-center gap-1">
+                    <MessageSquare className="w-4 h-4" />
+                    {discussion.replyCount}
+                  </span>
+                  <span>{discussion.viewCount} views</span>
+                </div>
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,455 @@
+/**
+ * TeamResources Component
+ * Files, links and documents shared within a team, with one-click import into
+ * the teacher's own unit and lesson plans
+ */
+
+import React, { useState } from 'react';
+import { Download, ExternalLink, FileText, FolderOpen, Import, Plus, Trash2 } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Textarea } from '@/components/ui/Textarea';
+import { Badge } from '@/components/ui/Badge';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/lib/api';
+import { useToast } from '@/components/ui/use-toast';
+import { formatDistanceToNow } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { useETFOLessonPlans, useUnitPlans } from '../../hooks/useETFOPlanning';
+
+interface Team {
+  id: string;
+  name: string;
+  ownerId: number;
+  members: { userId: number; role: 'OWNER' | 'ADMIN' | 'MEMBER' | 'VIEWER' }[];
+}
+
+interface TeamResource {
+  id: string;
+  title: string;
+  description?: string | null;
+  resourceType: 'document' | 'template' | 'link' | 'file';
+  url?: string | null;
+  content?: string | null;
+  category?: string | null;
+  tags: string[];
+  contributedById: number;
+  contributor: { id: number; name: string } | null;
+  downloadCount: number;
+  viewCount: number;
+  createdAt: string;
+}
+
+type ShareMode = 'file' | 'link' | 'document';
+
+const selectClassName =
+  'rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500';
+
+const emptyDraft = {
+  title: '',
+  description: '',
+  category: '',
+  tags: '',
+  url: '',
+  content: '',
+};
+
+interface TeamResourcesProps {
+  onJoinTeam: () => void;
+}
+
+export function TeamResources({ onJoinTeam }: TeamResourcesProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedTeamId, setSelectedTeamId] = useState('');
+  const [category, setCategory] = useState('');
+  const [isSharing, setIsSharing] = useState(false);
+  const [shareMode, setShareMode] = useState<ShareMode>('file');
+  const [file, setFile] = useState<File | null>(null);
+  const [draft, setDraft] = useState(emptyDraft);
+  const [importTargets, setImportTargets] = useState<Record<string, string>>({});
+
+  const { data: teams = [] } = useQuery<{ id: string; name: string }[]>({
+    queryKey: ['teams'],
+    queryFn: () => api.get('/api/teams').then((res) => res.data),
+  });
+
+  const teamId = selectedTeamId || teams[0]?.id || '';
+  const basePath = `/api/teams/${teamId}/resources`;
+
+  const { data: team } = useQuery<Team>({
+    queryKey: ['team', teamId],
+    queryFn: () => api.get(`/api/teams/${teamId}`).then((res) => res.data),
+    enabled: !!teamId,
+  });
+
+  const { data: resources = [], isLoading } = useQuery<TeamResource[]>({
+    queryKey: ['team-resources', teamId, category],
+    queryFn: () =>
+      api.get(basePath, { params: category ? { category } : {} }).then((res) => res.data),
+    enabled: !!teamId,
+  });
+
+  const { data: categories = [] } = useQuery<{ category: string | null; count: number }[]>({
+    queryKey: ['team-resources', teamId, 'categories'],
+    queryFn: () => api.get(`${basePath}/categories`).then((res) => res.data),
+    enabled: !!teamId,
+  });
+
+  // The user's own plans, as import targets
+  const { data: unitPlans = [] } = useUnitPlans();
+  const { data: lessonPlans = [] } = useETFOLessonPlans();
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['team-resources', teamId] });
+  };
+
+  const onError = (error: unknown) => {
+    const message = error instanceof Error ? error.message : 'Please try again';
+    toast({
+      title: 'Something went wrong',
+      description: message,
+      variant: 'destructive',
+    });
+  };
+
+  const shareMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append('title', draft.title.trim());
+      if (draft.description.trim()) formData.append('description', draft.description.trim());
+      if (draft.category.trim()) formData.append('category', draft.category.trim());
+      formData.append('tags', draft.tags);
+      if (shareMode === 'file' && file) {
+        formData.append('file', file);
+      } else if (shareMode === 'link') {
+        formData.append('resourceType', 'link');
+        formData.append('url', draft.url.trim());
+      } else {
+        formData.append('resourceType', 'document');
+        formData.append('content', draft.content);
+      }
+
+      const response = await api.post(basePath, formData, {
+        headers: { 'Content-Type': 'multipart/form-data' },
+      });
+      return response.data;
+    },
+    onSuccess: () => {
+      invalidate();
+      setDraft(emptyDraft);
+      setFile(null);
+      setIsSharing(false);
+      toast({ title: 'Resource shared', description: 'Your team can now use it.' });
+    },
+    onError,
+  });
+
+  const downloadMutation = useMutation({
+    mutationFn: async (resourceId: string) => {
+      const response = await api.post(`${basePath}/${resourceId}/download`);
+      return response.data as { url: string };
+    },
+    onSuccess: ({ url }) => {
+      window.open(url, '_blank', 'noopener');
+      invalidate();
+    },
+    onError,
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async ({ resourceId, target }: { resourceId: string; target: string }) => {
+      const [kind, planId] = target.split(':');
+      const response = await api.post(
+        `${basePath}/${resourceId}/import`,
+        kind === 'unit' ? { unitPlanId: planId } : { lessonPlanId: planId },
+      );
+      return response.data;
+    },
+    onSuccess: (_, { resourceId }) => {
+      setImportTargets({ ...importTargets, [resourceId]: '' });
+      invalidate();
+      toast({ title: 'Resource imported', description: 'It has been added to your plan.' });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (resourceId: string) => {
+      await api.delete(`${basePath}/${resourceId}`);
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  if (teams.length === 0) {
+    return (
+      <Card className="p-8 text-center">
+        <FolderOpen className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+        <h3 className="text-lg font-semibold mb-2">No team resources yet</h3>
+        <p className="text-gray-600 mb-4 max-w-md mx-auto">
+          Share teaching materials, templates, and resources with your team members.
+        </p>
+        <Button variant="outline" onClick={onJoinTeam}>
+          Join a Team First
+        </Button>
+      </Card>
+    );
+  }
+
+  const role =
+    team?.ownerId === Number(user?.id)
+      ? 'OWNER'
+      : team?.members.find((member) => member.userId === Number(user?.id))?.role;
+  const canModerate = role === 'OWNER' || role === 'ADMIN';
+  const canContribute = !!role && role !== 'VIEWER';
+
+  const canShare =
+    draft.title.trim() &&
+    (shareMode === 'file'
+      ? !!file
+      : shareMode === 'link'
+        ? draft.url.trim()
+        : draft.content.trim());
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={teamId}
+          onChange={(e) => {
+            setSelectedTeamId(e.target.value);
+            setCategory('');
+          }}
+          className={selectClassName}
+        >
+          {teams.map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.name}
+            </option>
+          ))}
+        </select>
+        <select
+          value={category}
+          onChange={(e) => setCategory(e.target.value)}
+          className={selectClassName}
+        >
+          <option value="">All categories</option>
+          {categories
+            .filter((c) => c.category)
+            .map((c) => (
+              <option key={c.category} value={c.category!}>
+                {c.category} ({c.count})
+              </option>
+            ))}
+        </select>
+        {canContribute && (
+          <Button className="ml-auto" onClick={() => setIsSharing(!isSharing)}>
+            <Plus className="w-4 h-4 mr-2" />
+            Share Resource
+          </Button>
+        )}
+      </div>
+
+      {isSharing && (
+        <Card className="p-4 space-y-3">
+          <div className="flex gap-2">
+            {(['file', 'link', 'document'] as ShareMode[]).map((mode) => (
+              <Button
+                key={mode}
+                size="sm"
+                variant={shareMode === mode ? 'primary' : 'outline'}
+                onClick={() => setShareMode(mode)}
+              >
+                {mode === 'file' ? 'Upload File' : mode === 'link' ? 'Link' : 'Write Document'}
+              </Button>
+            ))}
+          </div>
+          <Input
+            value={draft.title}
+            onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+            placeholder="Title"
+          />
+          <Input
+            value={draft.description}
+            onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+            placeholder="Short description (optional)"
+          />
+          {shareMode === 'file' && (
+            <input
+              type="file"
+              accept=".pdf,.docx,.pptx,.xlsx,.txt,.png,.jpg,.jpeg,.gif,.mp3,.mp4"
+              onChange={(e) => setFile(e.target.files ? e.target.files[0] : null)}
+            />
+          )}
+          {shareMode === 'link' && (
+            <Input
+              value={draft.url}
+              onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+              placeholder="https://"
+            />
+          )}
+          {shareMode === 'document' && (
+            <Textarea
+              value={draft.content}
+              onChange={(e) => setDraft({ ...draft, content: e.target.value })}
+              placeholder="Write or paste the resource"
+              rows={6}
+            />
+          )}
+          <div className="flex flex-wrap gap-3">
+            <Input
+              value={draft.category}
+              onChange={(e) => setDraft({ ...draft, category: e.target.value })}
+              placeholder="Category (e.g. Math, Assessments)"
+              className="w-64"
+            />
+            <Input
+              value={draft.tags}
+              onChange={(e) => setDraft({ ...draft, tags: e.target.value })}
+              placeholder="Tags, comma separated"
+              className="w-64"
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button
+              onClick={() => shareMutation.mutate()}
+              disabled={!canShare || shareMutation.isPending}
+            >
+              Share
+            </Button>
+            <Button variant="outline" onClick={() => setIsSharing(false)}>
+              Cancel
+            </Button>
+          </div>
+        </Card>
+      )}
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {[1, 2, 3].map((i) => (
+            <Card key={i} className="p-4 animate-pulse">
+              <div className="h-5 bg-gray-200 rounded w-1/3 mb-2"></div>
+              <div className="h-4 bg-gray-200 rounded w-1/4"></div>
+            </Card>
+          ))}
+        </div>
+      ) : resources.length === 0 ? (
+        <Card className="p-8 text-center text-gray-500">
+          <FolderOpen className="w-12 h-12 mx-auto mb-3 text-gray-400" />
+          <p>No resources shared yet.</p>
+        </Card>
+      ) : (
+        <div className="space-y-2">
+          {resources.map((resource) => (
+            <Card key={resource.id} className="p-4">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="font-medium flex items-center gap-2">
+                    <FileText className="w-4 h-4 text-gray-500 shrink-0" />
+                    {resource.title}
+                  </div>
+                  {resource.description && (
+                    <p className="text-sm text-gray-600 mt-1">{resource.description}</p>
+                  )}
+                  <div className="text-sm text-gray-500 mt-1">
+                    {resource.contributor?.name || 'Unknown'} ·{' '}
+                    {formatDistanceToNow(new Date(resource.createdAt))} ago ·{' '}
+                    {resource.downloadCount} uses
+                  </div>
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    <Badge variant="outline" className="capitalize">
+                      {resource.resourceType}
+                    </Badge>
+                    {resource.category && <Badge variant="secondary">{resource.category}</Badge>}
+                    {resource.tags.map((tag) => (
+                      <Badge key={tag} variant="outline" className="text-xs">
+                        {tag}
+                      </Badge>
+                    ))}
+                  </div>
+                  {resource.content && (
+                    <p className="text-sm text-gray-700 mt-2 whitespace-pre-wrap line-clamp-3">
+                      {resource.content}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  {resource.url && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => downloadMutation.mutate(resource.id)}
+                      title={resource.resourceType === 'link' ? 'Open link' : 'Download'}
+                    >
+                      {resource.resourceType === 'link' ? (
+                        <ExternalLink className="w-4 h-4" />
+                      ) : (
+                        <Download className="w-4 h-4" />
+                      )}
+                    </Button>
+                  )}
+                  {(resource.contributedById === Number(user?.id) || canModerate) && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        if (window.confirm('Remove this resource from the team?')) {
+                          deleteMutation.mutate(resource.id);
+                        }
+                      }}
+                    >
+                      <Trash2 className="w-4 h-4 text-red-500" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2 mt-3">
+                <select
+                  value={importTargets[resource.id] ?? ''}
+                  onChange={(e) =>
+                    setImportTargets({ ...importTargets, [resource.id]: e.target.value })
+                  }
+                  className={`${selectClassName} text-sm`}
+                >
+                  <option value="">Import into one of my plans...</option>
+                  <optgroup label="Unit plans">
+                    {unitPlans.map((unit) => (
+                      <option key={unit.id} value={`unit:${unit.id}`}>
+                        {unit.title}
+                      </option>
+                    ))}
+                  </optgroup>
+                  <optgroup label="Lesson plans">
+                    {lessonPlans.map((lesson) => (
+                      <option key={lesson.id} value={`lesson:${lesson.id}`}>
+                        {lesson.title}
+                      </option>
+                    ))}
+                  </optgroup>
+                </select>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={!importTargets[resource.id] || importMutation.isPending}
+                  onClick={() =>
+                    importMutation.mutate({
+                      resourceId: resource.id,
+                      target: importTargets[resource.id],
+                    })
+                  }
+                >
+                  <Import className="w-4 h-4 mr-1" />
+                  Import
+                </Button>
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -7,4 +7,7 @@ export { SharePlanModal } from './SharePlanModal';
 export { TeamList } from './TeamList';
 export { CreateTeamModal } from './CreateTeamModal';
 export { SharedPlansView } from './SharedPlansView';
-export { CommentThread } from './CommentThread';
\ No newline at end of file
+export { CommentThread } from './CommentThread';
+export { PlanHistoryPanel } from './PlanHistoryPanel';
+export { TeamDiscussions } from './TeamDiscussions';
+export { TeamResources } from './TeamResources';
@@ -0,0 +1,165 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '../ui/Button';
+import {
+  ACHIEVEMENT_LEVELS,
+  EVIDENCE_TYPES,
+  EVIDENCE_TYPE_LABELS,
+  useRecordingSheet,
+  useSaveRecordingSheet,
+  type AchievementLevel,
+  type EvidenceType,
+} from '../../hooks/useAssessments';
+
+interface RecordingSheetProps {
+  lessonPlanId: string;
+}
+
+const selectClassName =
+  'rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500';
+
+const cellKey = (studentId: number, expectationId: string) => `${studentId}|${expectationId}`;
+
+/**
+ * Class grid for recording achievement levels against a lesson's
+ * expectations. Only edited cells are sent when saving.
+ */
+export const RecordingSheet: React.FC<RecordingSheetProps> = ({ lessonPlanId }) => {
+  const { data: sheet, isLoading } = useRecordingSheet(lessonPlanId);
+  const saveMutation = useSaveRecordingSheet();
+  const [edits, setEdits] = useState<Record<string, AchievementLevel | null>>({});
+  const [evidenceType, setEvidenceType] = useState<EvidenceType>('observation');
+  const [lessonGradeOnly, setLessonGradeOnly] = useState(true);
+
+  const recorded = useMemo(() => {
+    const levels: Record<string, AchievementLevel> = {};
+    for (const record of sheet?.records ?? []) {
+      levels[cellKey(record.studentId, record.expectationId)] = record.level;
+    }
+    return levels;
+  }, [sheet]);
+
+  if (isLoading || !sheet) {
+    return <p className="text-sm text-gray-500">Loading recording sheet...</p>;
+  }
+  if (sheet.expectations.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        Link curriculum expectations to this lesson to record students against them.
+      </p>
+    );
+  }
+
+  const hasSplitGrades = new Set(sheet.students.map((s) => s.grade)).size > 1;
+  const students =
+    lessonGradeOnly && sheet.lesson.grade && hasSplitGrades
+      ? sheet.students.filter((s) => s.grade === sheet.lesson.grade)
+      : sheet.students;
+  const editCount = Object.keys(edits).length;
+
+  const handleSave = () => {
+    const entries = Object.entries(edits).map(([key, level]) => {
+      const [studentId, expectationId] = key.split('|');
+      return { studentId: Number(studentId), expectationId, level, evidenceType };
+    });
+    saveMutation.mutate({ lessonPlanId, entries }, { onSuccess: () => setEdits({}) });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <label className="flex items-center gap-2">
+          Evidence
+          <select
+            value={evidenceType}
+            onChange={(e) => setEvidenceType(e.target.value as EvidenceType)}
+            className={`text-sm ${selectClassName}`}
+          >
+            {EVIDENCE_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {EVIDENCE_TYPE_LABELS[type]}
+              </option>
+            ))}
+          </select>
+        </label>
+        {sheet.lesson.grade && hasSplitGrades && (
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={lessonGradeOnly}
+              onChange={(e) => setLessonGradeOnly(e.target.checked)}
+            />
+            Grade {sheet.lesson.grade} students only
+          </label>
+        )}
+        <span className="text-gray-500">R = below level 1</span>
+      </div>
+
+      {students.length === 0 ? (
+        <p className="text-sm text-gray-500">Add students to your class list to record them.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left py-2 pr-4 font-medium">Student</th>
+                {sheet.expectations.map((expectation) => (
+                  <th
+                    key={expectation.id}
+                    className="text-left py-2 px-2 font-medium"
+                    title={expectation.description}
+                  >
+                    {expectation.code}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {students.map((student) => (
+                <tr key={student.id} className="border-b last:border-0">
+                  <td className="py-1 pr-4 whitespace-nowrap">
+                    {student.lastName}, {student.firstName}
+                    {hasSplitGrades && (
+                      <span className="text-xs text-gray-500 ml-1">({student.grade})</span>
+                    )}
+                  </td>
+                  {sheet.expectations.map((expectation) => {
+                    const key = cellKey(student.id, expectation.id);
+                    const value = key in edits ? edits[key] : recorded[key];
+                    return (
+                      <td key={expectation.id} className="py-1 px-2">
+                        <select
+                          value={value ?? ''}
+                          onChange={(e) =>
+                            setEdits((current) => ({
+                              ...current,
+                              [key]: (e.target.value || null) as AchievementLevel | null,
+                            }))
+                          }
+                          className={`text-sm ${selectClassName} ${key in edits ? 'bg-yellow-50' : ''}`}
+                          aria-label={`${student.firstName} ${student.lastName}, ${expectation.code}`}
+                        >
+                          <option value="">–</option>
+                          {ACHIEVEMENT_LEVELS.map((level) => (
+                            <option key={level} value={level}>
+                              {level}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <Button onClick={handleSave} disabled={editCount === 0 || saveMutation.isPending}>
+        {editCount > 0 ? `Save ${editCount} change(s)` : 'Saved'}
+      </Button>
+    </div>
+  );
+};
+
+export default RecordingSheet;
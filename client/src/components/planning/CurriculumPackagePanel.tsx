@@ -0,0 +1,203 @@
+import { useState } from 'react';
+import { Download, PackageCheck } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/Button';
+import { Badge } from '../ui/Badge';
+import { Input } from '../ui/Input';
+import { Label } from '../ui/Label';
+import { handleApiError } from '../../utils/errorHandler';
+import { frameworkLabel, useCurriculumFrameworks } from '../../hooks/useCurriculumFrameworks';
+import {
+  downloadCurriculumPackage,
+  useInstallCurriculumPackage,
+  usePreviewCurriculumPackage,
+} from '../../hooks/useCurriculumPackages';
+
+const selectClass =
+  'w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500';
+
+/**
+ * Install a curriculum package someone else published, after reviewing how
+ * it differs from what is installed, or export a framework as a package.
+ */
+export default function CurriculumPackagePanel() {
+  const [file, setFile] = useState<File | null>(null);
+  const previewPackage = usePreviewCurriculumPackage();
+  const installPackage = useInstallCurriculumPackage();
+  const preview = previewPackage.data;
+
+  const { data: frameworks = [] } = useCurriculumFrameworks();
+  const [frameworkId, setFrameworkId] = useState('');
+  const [format, setFormat] = useState<'json' | 'zip'>('zip');
+  const [embeddings, setEmbeddings] = useState(false);
+  const [publishedBy, setPublishedBy] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleFile = (selected: File | null) => {
+    setFile(selected);
+    installPackage.reset();
+    if (selected) previewPackage.mutate(selected);
+    else previewPackage.reset();
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await downloadCurriculumPackage(frameworkId, { format, embeddings, publishedBy });
+    } catch (error) {
+      handleApiError(error, 'Failed to export curriculum package');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const overwrites = preview ? preview.diff.changed.length > 0 : false;
+
+  return (
+    <div className="grid gap-6 md:grid-cols-2">
+      <Card>
+        <CardHeader>
+          <CardTitle>Install Curriculum Package</CardTitle>
+          <CardDescription>
+            Load a curriculum published by another teacher or your board (.json or .zip)
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4 text-sm">
+          <Input
+            type="file"
+            accept=".json,.zip"
+            aria-label="Curriculum package"
+            onChange={(e) => handleFile(e.target.files?.[0] ?? null)}
+          />
+
+          {preview && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-medium">{frameworkLabel(preview.framework)}</span>
+                <Badge variant="secondary">
+                  {preview.integrityChecked ? 'Integrity checked' : 'No checksum'}
+                </Badge>
+              </div>
+              <p className="text-gray-600">
+                {preview.framework.title}
+                {preview.publishedBy && ` · published by ${preview.publishedBy}`}
+              </p>
+              <p>
+                {preview.counts.expectations} expectations in {preview.counts.strands} strands ·{' '}
+                {preview.counts.clusters} clusters · {preview.counts.embeddings} embeddings
+              </p>
+
+              {preview.existingFrameworkId ? (
+                <div className="rounded-md border border-gray-200 p-3">
+                  <p className="font-medium">Compared with the installed version</p>
+                  <p>
+                    {preview.diff.added.length} new · {preview.diff.changed.length} changed ·{' '}
+                    {preview.diff.unchanged} unchanged · {preview.diff.removed.length} not in the
+                    package (kept)
+                  </p>
+                  <p className="text-gray-600">
+                    Installed curricula are shared, so only administrators can update them.
+                  </p>
+                  {overwrites && (
+                    <ul className="mt-2 max-h-40 space-y-2 overflow-y-auto">
+                      {preview.diff.changed.map((c) => (
+                        <li key={c.code}>
+                          <span className="font-mono">{c.code}</span>
+                          {c.from.description === c.to.description ? (
+                            <p className="text-gray-600">
+                              French text, strand, grade or subject changed
+                            </p>
+                          ) : (
+                            <>
+                              <p className="text-red-700 line-through">{c.from.description}</p>
+                              <p className="text-green-700">{c.to.description}</p>
+                            </>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ) : (
+                <p className="text-gray-600">This curriculum is not installed yet.</p>
+              )}
+
+              <Button
+                onClick={() => file && installPackage.mutate({ file, overwrite: overwrites })}
+                disabled={!file || installPackage.isPending || installPackage.isSuccess}
+                className="gap-2"
+              >
+                <PackageCheck className="h-4 w-4" />
+                {overwrites ? 'Overwrite and Install' : 'Install Package'}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Export Curriculum Package</CardTitle>
+          <CardDescription>
+            Share a curriculum you have checked so others can load it
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4 text-sm">
+          <div className="space-y-1">
+            <Label htmlFor="package-framework">Framework</Label>
+            <select
+              id="package-framework"
+              value={frameworkId}
+              onChange={(e) => setFrameworkId(e.target.value)}
+              className={selectClass}
+            >
+              <option value="">Select a framework</option>
+              {frameworks.map((f) => (
+                <option key={f.id} value={f.id}>
+                  {frameworkLabel(f)} ({f._count?.expectations ?? 0} expectations)
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="package-publisher">Published by</Label>
+            <Input
+              id="package-publisher"
+              value={publishedBy}
+              onChange={(e) => setPublishedBy(e.target.value)}
+              placeholder="e.g., Board curriculum team"
+            />
+          </div>
+          <div className="flex items-center gap-4">
+            <select
+              aria-label="Package format"
+              value={format}
+              onChange={(e) => setFormat(e.target.value as 'json' | 'zip')}
+              className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            >
+              <option value="zip">ZIP</option>
+              <option value="json">JSON</option>
+            </select>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={embeddings}
+                onChange={(e) => setEmbeddings(e.target.checked)}
+              />
+              Include embeddings
+            </label>
+          </div>
+          <Button
+            variant="outline"
+            onClick={handleExport}
+            disabled={!frameworkId || isExporting}
+            className="gap-2"
+          >
+            <Download className="h-4 w-4" />
+            Download Package
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
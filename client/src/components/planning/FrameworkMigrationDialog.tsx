@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import Dialog from '../Dialog';
+import { Button } from '../ui/Button';
+import {
+  CrosswalkExpectation,
+  frameworkLabel,
+  useCurriculumFrameworks,
+  useFrameworkMigration,
+} from '../../hooks/useCurriculumFrameworks';
+
+interface FrameworkMigrationDialogProps {
+  open: boolean;
+  onClose: () => void;
+  plan: { id: string; grade: number; frameworkId?: string | null };
+}
+
+function ExpectationList({ title, items }: { title: string; items: CrosswalkExpectation[] }) {
+  if (items.length === 0) return null;
+  return (
+    <div>
+      <h4 className="font-medium">
+        {title} ({items.length})
+      </h4>
+      <ul className="mt-1 max-h-32 space-y-1 overflow-y-auto text-gray-700">
+        {items.map((e) => (
+          <li key={e.id}>
+            <span className="font-mono">{e.code}</span> {e.description}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * Move a long-range plan to another curriculum version: preview the
+ * crosswalk between the versions and how many links move, then apply.
+ */
+export default function FrameworkMigrationDialog({
+  open,
+  onClose,
+  plan,
+}: FrameworkMigrationDialogProps) {
+  const { data: frameworks = [] } = useCurriculumFrameworks({ grade: plan.grade });
+  const migration = useFrameworkMigration();
+  const [frameworkId, setFrameworkId] = useState('');
+  const preview = migration.data;
+
+  const candidates = frameworks.filter((f) => f.id !== plan.frameworkId);
+
+  const run = (apply: boolean) =>
+    migration.mutate(
+      { planId: plan.id, frameworkId, apply },
+      {
+        onSuccess: (data) => {
+          if (data.applied) onClose();
+        },
+      },
+    );
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => !next && onClose()}
+      title="Change curriculum framework"
+    >
+      <div className="space-y-4 p-6 text-sm">
+        <p className="text-gray-600">
+          Expectations linked to this plan, its units, lessons, daybook entries and assessments are
+          matched by code to the new version.
+        </p>
+        <select
+          aria-label="New framework"
+          value={frameworkId}
+          onChange={(e) => {
+            // A new target invalidates the previous preview
+            setFrameworkId(e.target.value);
+            migration.reset();
+          }}
+          className="w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+        >
+          <option value="">Select a framework</option>
+          {candidates.map((f) => (
+            <option key={f.id} value={f.id}>
+              {frameworkLabel(f)} – {f.title}
+            </option>
+          ))}
+        </select>
+
+        {preview && !preview.applied && (
+          <div className="space-y-3 rounded-md border border-gray-200 p-4">
+            <p>
+              {preview.crosswalk.unchanged} unchanged · {preview.crosswalk.changed.length} reworded
+              · {preview.crosswalk.removed.length} removed · {preview.crosswalk.added.length} new
+            </p>
+            <p>
+              {preview.links.moved} links will move, {preview.links.merged} duplicates will be
+              merged and {preview.links.kept} will stay on the old expectations.
+            </p>
+            <ExpectationList title="Reworded" items={preview.crosswalk.changed.map((c) => c.to)} />
+            <ExpectationList title="Not in the new version" items={preview.unmatched} />
+            <ExpectationList title="New in this version" items={preview.crosswalk.added} />
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            variant="secondary"
+            onClick={() => run(false)}
+            disabled={!frameworkId || migration.isPending}
+          >
+            Preview
+          </Button>
+          <Button
+            onClick={() => run(true)}
+            disabled={!preview || preview.applied || migration.isPending}
+          >
+            Apply
+          </Button>
+        </div>
+      </div>
+    </Dialog>
+  );
+}
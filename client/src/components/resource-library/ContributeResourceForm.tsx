@@ -0,0 +1,203 @@
+/**
+ * ContributeResourceForm Component
+ * Uploads a resource, or a new version of one, to the school resource library
+ */
+
+import React, { useState } from 'react';
+import { Upload } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Textarea } from '@/components/ui/Textarea';
+import {
+  FRENCH_LEVELS,
+  RESOURCE_TYPES,
+  useContributeResource,
+  type LibraryResource,
+} from '../../hooks/useResourceLibrary';
+
+const GRADES = Array.from({ length: 9 }, (_, grade) => grade);
+
+const selectClassName =
+  'rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500';
+
+interface ContributeResourceFormProps {
+  /** When set, the upload is published as the next version of this resource */
+  previousVersion?: LibraryResource;
+  onDone: () => void;
+}
+
+export function ContributeResourceForm({ previousVersion, onDone }: ContributeResourceFormProps) {
+  const contributeMutation = useContributeResource();
+  const [file, setFile] = useState<File | null>(null);
+  const [draft, setDraft] = useState({
+    title: previousVersion?.title ?? '',
+    description: previousVersion?.description ?? '',
+    resourceType: previousVersion?.resourceType ?? 'worksheet',
+    subject: previousVersion?.subject ?? '',
+    gradeMin: previousVersion?.gradeMin ?? 1,
+    gradeMax: previousVersion?.gradeMax ?? 1,
+    language: previousVersion?.language ?? 'en',
+    frenchLevel: previousVersion?.frenchLevel ?? '',
+    curriculumCodes: previousVersion?.curriculumCodes.join(', ') ?? '',
+    tags: previousVersion?.tags.join(', ') ?? '',
+    content: previousVersion?.content ?? '',
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const formData = new FormData();
+    formData.append('title', draft.title.trim());
+    formData.append('resourceType', draft.resourceType);
+    formData.append('subject', draft.subject.trim());
+    formData.append('gradeMin', String(draft.gradeMin));
+    formData.append('gradeMax', String(draft.gradeMax));
+    formData.append('language', draft.language);
+    formData.append('curriculumCodes', draft.curriculumCodes);
+    formData.append('tags', draft.tags);
+    if (draft.description.trim()) formData.append('description', draft.description.trim());
+    if (draft.content.trim()) formData.append('content', draft.content.trim());
+    if (draft.frenchLevel) {
+      formData.append('isFrenchImmersion', 'true');
+      formData.append('frenchLevel', draft.frenchLevel);
+    }
+    if (previousVersion) formData.append('previousVersionId', previousVersion.id);
+    if (file) formData.append('file', file);
+
+    contributeMutation.mutate(formData, { onSuccess: onDone });
+  };
+
+  const canSubmit =
+    draft.title.trim() &&
+    draft.subject.trim() &&
+    draft.gradeMin <= draft.gradeMax &&
+    (file || draft.content.trim());
+
+  return (
+    <Card className="p-6">
+      <h2 className="text-lg font-semibold mb-1">
+        {previousVersion ? `New version of "${previousVersion.title}"` : 'Contribute a Resource'}
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Contributions are reviewed by a school moderator before they appear in the library.
+      </p>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <Input
+          value={draft.title}
+          onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+          placeholder="Title"
+        />
+        <Textarea
+          value={draft.description}
+          onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+          placeholder="What is it, and how did you use it?"
+          rows={3}
+        />
+
+        <div className="flex flex-wrap gap-3">
+          <select
+            value={draft.resourceType}
+            onChange={(e) => setDraft({ ...draft, resourceType: e.target.value })}
+            className={selectClassName}
+          >
+            {RESOURCE_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {type.charAt(0).toUpperCase() + type.slice(1)}
+              </option>
+            ))}
+          </select>
+          <Input
+            value={draft.subject}
+            onChange={(e) => setDraft({ ...draft, subject: e.target.value })}
+            placeholder="Subject"
+            className="w-48"
+          />
+          <label className="flex items-center gap-2 text-sm">
+            Grades
+            <select
+              value={draft.gradeMin}
+              onChange={(e) => setDraft({ ...draft, gradeMin: Number(e.target.value) })}
+              className={selectClassName}
+            >
+              {GRADES.map((grade) => (
+                <option key={grade} value={grade}>
+                  {grade === 0 ? 'K' : grade}
+                </option>
+              ))}
+            </select>
+            to
+            <select
+              value={draft.gradeMax}
+              onChange={(e) => setDraft({ ...draft, gradeMax: Number(e.target.value) })}
+              className={selectClassName}
+            >
+              {GRADES.map((grade) => (
+                <option key={grade} value={grade}>
+                  {grade === 0 ? 'K' : grade}
+                </option>
+              ))}
+            </select>
+          </label>
+          <select
+            value={draft.language}
+            onChange={(e) => setDraft({ ...draft, language: e.target.value })}
+            className={selectClassName}
+          >
+            <option value="en">English</option>
+            <option value="fr">French</option>
+          </select>
+          <select
+            value={draft.frenchLevel}
+            onChange={(e) => setDraft({ ...draft, frenchLevel: e.target.value })}
+            className={selectClassName}
+          >
+            <option value="">Not French Immersion</option>
+            {FRENCH_LEVELS.map((level) => (
+              <option key={level} value={level}>
+                FI: {level}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <Input
+          value={draft.curriculumCodes}
+          onChange={(e) => setDraft({ ...draft, curriculumCodes: e.target.value })}
+          placeholder="Curriculum codes, comma separated (e.g. B2.1, B2.2)"
+        />
+        <Input
+          value={draft.tags}
+          onChange={(e) => setDraft({ ...draft, tags: e.target.value })}
+          placeholder="Tags, comma separated"
+        />
+
+        <div>
+          <label className="block text-sm font-medium mb-1">File</label>
+          <input
+            type="file"
+            accept=".pdf,.docx,.pptx,.xlsx,.txt,.png,.jpg,.jpeg,.gif,.mp3,.mp4"
+            onChange={(e) => setFile(e.target.files ? e.target.files[0] : null)}
+          />
+        </div>
+        <Textarea
+          value={draft.content}
+          onChange={(e) => setDraft({ ...draft, content: e.target.value })}
+          placeholder="...or paste the resource content here"
+          rows={4}
+        />
+
+        <div className="flex gap-2">
+          <Button type="submit" disabled={!canSubmit || contributeMutation.isPending}>
+            <Upload className="w-4 h-4 mr-2" />
+            {contributeMutation.isPending ? 'Uploading...' : 'Submit for Review'}
+          </Button>
+          <Button type="button" variant="outline" onClick={onDone}>
+            Cancel
+          </Button>
+        </div>
+      </form>
+    </Card>
+  );
+}
@@ -0,0 +1,279 @@
+/**
+ * ResourceDetail Component
+ * A library resource with its reviews, plus rating, bookmarking, downloading
+ * and attaching it to one of the teacher's lesson plans
+ */
+
+import React, { useState } from 'react';
+import { ArrowLeft, Bookmark, Download, Paperclip, Star, Trash2, Upload } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Textarea } from '@/components/ui/Textarea';
+import { Badge } from '@/components/ui/Badge';
+import { formatDistanceToNow } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { useETFOLessonPlans } from '../../hooks/useETFOPlanning';
+import {
+  useAttachResourceToLesson,
+  useBookmarkResource,
+  useDeleteLibraryResource,
+  useDownloadResource,
+  useLibraryResource,
+  useRateResource,
+  useRemoveBookmark,
+  type LibraryResource,
+} from '../../hooks/useResourceLibrary';
+
+interface ResourceDetailProps {
+  resourceId: string;
+  onBack: () => void;
+  onNewVersion: (resource: LibraryResource) => void;
+}
+
+export function formatGrades(resource: Pick<LibraryResource, 'gradeMin' | 'gradeMax'>) {
+  const label = (grade: number) => (grade === 0 ? 'K' : String(grade));
+  return resource.gradeMin === resource.gradeMax
+    ? `Grade ${label(resource.gradeMin)}`
+    : `Grades ${label(resource.gradeMin)}-${label(resource.gradeMax)}`;
+}
+
+export function ResourceDetail({ resourceId, onBack, onNewVersion }: ResourceDetailProps) {
+  const { user } = useAuth();
+  const { data: resource, isLoading } = useLibraryResource(resourceId);
+  const { data: lessonPlans = [] } = useETFOLessonPlans();
+  const rateMutation = useRateResource();
+  const bookmarkMutation = useBookmarkResource();
+  const removeBookmarkMutation = useRemoveBookmark();
+  const downloadMutation = useDownloadResource();
+  const attachMutation = useAttachResourceToLesson();
+  const deleteMutation = useDeleteLibraryResource();
+
+  const [rating, setRating] = useState(0);
+  const [review, setReview] = useState('');
+  const [bookmarkTags, setBookmarkTags] = useState<string | null>(null);
+  const [lessonPlanId, setLessonPlanId] = useState('');
+
+  if (isLoading || !resource) {
+    return (
+      <Card className="p-6 animate-pulse">
+        <div className="h-6 bg-gray-200 rounded w-1/3 mb-4"></div>
+        <div className="h-24 bg-gray-200 rounded"></div>
+      </Card>
+    );
+  }
+
+  const isContributor = resource.contributorId === Number(user?.id);
+  const currentRating = rating || resource.myRating?.rating || 0;
+  const tagsValue = bookmarkTags ?? resource.bookmark?.tags?.join(', ') ?? '';
+
+  const saveBookmark = () => {
+    bookmarkMutation.mutate({
+      id: resource.id,
+      tags: tagsValue
+        .split(',')
+        .map((tag) => tag.trim())
+        .filter(Boolean),
+    });
+    setBookmarkTags(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <Button variant="ghost" size="sm" onClick={onBack}>
+        <ArrowLeft className="w-4 h-4 mr-1" />
+        Back to library
+      </Button>
+
+      <Card className="p-6">
+        <div className="flex items-start justify-between gap-4 mb-2">
+          <div>
+            <h2 className="text-xl font-semibold">{resource.title}</h2>
+            <div className="text-sm text-gray-500 mt-1">
+              {resource.contributor?.name || 'Unknown'} · {resource.subject} ·{' '}
+              {formatGrades(resource)} · version {resource.version}
+            </div>
+            <div className="flex flex-wrap gap-2 mt-2">
+              <Badge variant="outline" className="capitalize">
+                {resource.resourceType}
+              </Badge>
+              {resource.isFrenchImmersion && (
+                <Badge variant="secondary">FI {resource.frenchLevel || ''}</Badge>
+              )}
+              {!resource.isApproved && (
+                <Badge variant={resource.rejectionReason ? 'destructive' : 'secondary'}>
+                  {resource.rejectionReason ? 'Changes requested' : 'Awaiting review'}
+                </Badge>
+              )}
+              {resource.curriculumCodes.map((code) => (
+                <Badge key={code} variant="outline">
+                  {code}
+                </Badge>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-center gap-1 shrink-0">
+            {(isContributor || resource.canModerate) && (
+              <>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onNewVersion(resource)}
+                  title="Upload a new version"
+                >
+                  <Upload className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    if (window.confirm('Delete this resource from the library?')) {
+                      deleteMutation.mutate(resource.id, { onSuccess: onBack });
+                    }
+                  }}
+                >
+                  <Trash2 className="w-4 h-4 text-red-500" />
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+
+        {resource.rejectionReason && (
+          <div className="mb-3 rounded border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+            {resource.rejectionReason}
+          </div>
+        )}
+        {resource.description && (
+          <p className="text-gray-700 whitespace-pre-wrap">{resource.description}</p>
+        )}
+        {resource.content && (
+          <pre className="mt-4 rounded bg-gray-50 p-3 text-sm whitespace-pre-wrap font-sans">
+            {resource.content}
+          </pre>
+        )}
+
+        <div className="mt-4 flex flex-wrap items-center gap-2">
+          {resource.fileUrl && (
+            <Button variant="outline" onClick={() => downloadMutation.mutate(resource.id)}>
+              <Download className="w-4 h-4 mr-2" />
+              Download
+            </Button>
+          )}
+          <select
+            value={lessonPlanId}
+            onChange={(e) => setLessonPlanId(e.target.value)}
+            className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+          >
+            <option value="">Choose a lesson...</option>
+            {lessonPlans.map((lesson) => (
+              <option key={lesson.id} value={lesson.id}>
+                {lesson.title}
+              </option>
+            ))}
+          </select>
+          <Button
+            variant="outline"
+            disabled={!lessonPlanId || attachMutation.isPending}
+            onClick={() =>
+              attachMutation.mutate(
+                { id: resource.id, lessonPlanId },
+                { onSuccess: () => setLessonPlanId('') },
+              )
+            }
+          >
+            <Paperclip className="w-4 h-4 mr-2" />
+            Attach to Lesson
+          </Button>
+        </div>
+      </Card>
+
+      <Card className="p-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Bookmark
+            className={`w-4 h-4 ${resource.bookmark ? 'fill-current text-indigo-600' : ''}`}
+          />
+          <Input
+            value={tagsValue}
+            onChange={(e) => setBookmarkTags(e.target.value)}
+            placeholder="Your tags, comma separated"
+            className="w-64"
+          />
+          <Button size="sm" onClick={saveBookmark} disabled={bookmarkMutation.isPending}>
+            {resource.bookmark ? 'Update Bookmark' : 'Bookmark'}
+          </Button>
+          {resource.bookmark && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => removeBookmarkMutation.mutate(resource.id)}
+            >
+              Remove
+            </Button>
+          )}
+        </div>
+      </Card>
+
+      <Card className="p-4">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="font-semibold">Reviews</h3>
+          <span className="text-sm text-gray-500">
+            {(resource.averageRating ?? 0).toFixed(1)} average · {resource.ratings.length} ratings
+          </span>
+        </div>
+
+        {resource.isApproved && !isContributor && (
+          <div className="mb-4 space-y-2">
+            <div className="flex gap-1">
+              {[1, 2, 3, 4, 5].map((value) => (
+                <button key={value} type="button" onClick={() => setRating(value)}>
+                  <Star
+                    className={`w-5 h-5 ${
+                      value <= currentRating ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300'
+                    }`}
+                  />
+                </button>
+              ))}
+            </div>
+            <Textarea
+              value={review}
+              onChange={(e) => setReview(e.target.value)}
+              placeholder={resource.myRating?.review || 'How did it work with your class?'}
+              rows={2}
+            />
+            <Button
+              size="sm"
+              disabled={!currentRating || rateMutation.isPending}
+              onClick={() =>
+                rateMutation.mutate(
+                  { id: resource.id, rating: currentRating, review: review.trim() || undefined },
+                  { onSuccess: () => setReview('') },
+                )
+              }
+            >
+              {resource.myRating ? 'Update Rating' : 'Rate'}
+            </Button>
+          </div>
+        )}
+
+        {resource.ratings.length === 0 ? (
+          <p className="text-sm text-gray-500">No reviews yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {resource.ratings.map((r) => (
+              <div key={r.id} className="border-t pt-2 text-sm">
+                <div className="flex items-center gap-2">
+                  <span className="text-yellow-500">{'★'.repeat(r.rating)}</span>
+                  <span className="text-gray-500">
+                    {formatDistanceToNow(new Date(r.createdAt))} ago
+                  </span>
+                </div>
+                {r.review && <p className="text-gray-700 mt-1">{r.review}</p>}
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
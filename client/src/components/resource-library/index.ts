@@ -0,0 +1,2 @@
+export { ContributeResourceForm } from './ContributeResourceForm';
+export { ResourceDetail, formatGrades } from './ResourceDetail';
@@ -1,17 +1,105 @@
-import { useMaterialList } from '../../api';
+import { useState } from 'react';
+import { Clock } from 'lucide-react';
+import { useMaterialDetails, MaterialItem } from '../../api';
 
 interface Props {
   weekStart: string;
 }
 
+const CATEGORY_LABELS: Record<MaterialItem['category'], string> = {
+  printable: 'Print',
+  supplies: 'Supplies',
+  equipment: 'Equipment',
+  physical: 'Books & physical',
+  digital: 'Digital',
+};
+
+/**
+ * Per-day prep checklist built from the week's lesson plans. Checked items
+ * are kept for this visit only.
+ */
 export default function WeekMaterials({ weekStart }: Props) {
-  const { data } = useMaterialList(weekStart);
-  if (!data) return null;
+  const { data, isLoading } = useMaterialDetails(weekStart);
+  const [checked, setChecked] = useState<Set<string>>(new Set());
+
+  if (isLoading) return <p className="text-sm text-gray-500">Loading materials…</p>;
+  if (!data || data.every((day) => day.materials.summary.totalItems === 0)) {
+    return (
+      <p className="text-sm text-gray-500">
+        No materials this week. Add materials or resources to your lesson plans to build a prep
+        checklist.
+      </p>
+    );
+  }
+
+  const toggle = (key: string) =>
+    setChecked((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+
   return (
-    <ul className="list-disc pl-5 space-y-1">
-      {data.items.map((m) => (
-        <li key={m}>{m}</li>
-      ))}
-    </ul>
+    <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+      {data
+        .filter((day) => day.materials.summary.totalItems > 0)
+        .map(({ date, materials }) => (
+          <div key={date} className="border rounded-md p-3">
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="font-medium">
+                {new Date(`${date}T00:00:00`).toLocaleDateString(undefined, {
+                  weekday: 'long',
+                  month: 'short',
+                  day: 'numeric',
+                })}
+              </h4>
+              <span className="flex items-center gap-1 text-xs text-gray-500">
+                <Clock className="h-3 w-3" />
+                {materials.summary.prepTime} min prep
+              </span>
+            </div>
+            {(Object.keys(CATEGORY_LABELS) as MaterialItem['category'][])
+              .filter((category) => materials.byCategory[category].length > 0)
+              .map((category) => (
+                <div key={category} className="mb-2">
+                  <div className="text-xs font-semibold uppercase text-gray-500">
+                    {CATEGORY_LABELS[category]}
+                  </div>
+                  <ul className="space-y-1">
+                    {materials.byCategory[category].map((item) => {
+                      const key = `${date}:${item.id}`;
+                      return (
+                        <li key={item.id} className="flex items-start gap-2 text-sm">
+                          <input
+                            type="checkbox"
+                            className="mt-1 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                            checked={checked.has(key)}
+                            onChange={() => toggle(key)}
+                          />
+                          <div className={checked.has(key) ? 'line-through text-gray-400' : ''}>
+                            <span>{item.name}</span>
+                            {item.quantity && (
+                              <span className="text-gray-500"> × {item.quantity}</span>
+                            )}
+                            {item.preparation && (
+                              <span className="text-gray-500"> · {item.preparation}</span>
+                            )}
+                            {item.lessons && item.lessons.length > 0 && (
+                              <div className="text-xs text-gray-400">{item.lessons.join(', ')}</div>
+                            )}
+                          </div>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              ))}
+            {materials.summary.missingItems.length > 0 && (
+              <p className="text-xs text-amber-600">{materials.summary.missingItems.join('. ')}</p>
+            )}
+          </div>
+        ))}
+    </div>
   );
 }
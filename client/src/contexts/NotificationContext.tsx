@@ -1,31 +1,44 @@
-import { createContext, useContext } from 'react';
-import { useNotifications, useMarkNotificationRead, Notification } from '../api';
+import { createContext, useContext, useState } from 'react';
+import {
+  useNotifications,
+  useMarkNotificationRead,
+  useMarkAllNotificationsRead,
+  Notification,
+} from '../api';
 import { useAuth } from './AuthContext';
 
 interface NotificationContextValue {
   notifications: Notification[];
-  markRead: (id: number) => void;
+  unreadCount: number;
+  hasMore: boolean;
+  page: number;
+  setPage: (page: number) => void;
+  markRead: (id: string) => void;
+  markAllRead: () => void;
   isLoading: boolean;
   error: Error | null;
 }
 
 const NotificationContext = createContext<NotificationContextValue>({
   notifications: [],
+  unreadCount: 0,
+  hasMore: false,
+  page: 1,
+  setPage: () => {},
   markRead: () => {},
+  markAllRead: () => {},
   isLoading: false,
   error: null,
 });
 
 export function NotificationProvider({ children }: { children: React.ReactNode }) {
   const { isAuthenticated } = useAuth();
+  const [page, setPage] = useState(1);
 
   // Only fetch notifications if user is authenticated
-  const {
-    data = [],
-    isLoading,
-    error,
-  } = useNotifications({
+  const { data, isLoading, error } = useNotifications({
     enabled: isAuthenticated,
+    page,
     retry: (failureCount, error) => {
       // Don't retry on 401 errors (authentication issues)
       const err = error as { response?: { status?: number } };
@@ -39,18 +52,30 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
   });
 
   const markMutation = useMarkNotificationRead();
+  const markAllMutation = useMarkAllNotificationsRead();
 
-  const markRead = (id: number) => {
+  const markRead = (id: string) => {
     if (isAuthenticated) {
       markMutation.mutate(id);
     }
   };
 
+  const markAllRead = () => {
+    if (isAuthenticated) {
+      markAllMutation.mutate();
+    }
+  };
+
   return (
     <NotificationContext.Provider
       value={{
-        notifications: data,
+        notifications: data?.notifications ?? [],
+        unreadCount: data?.unreadCount ?? 0,
+        hasMore: data?.hasMore ?? false,
+        page,
+        setPage,
         markRead,
+        markAllRead,
         isLoading,
         error: error as Error | null,
       }}
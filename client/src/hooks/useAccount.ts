@@ -0,0 +1,103 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '../api';
+import { handleApiError } from '../utils/errorHandler';
+import { authService } from '../services/authService';
+import { toast } from 'sonner';
+
+export interface ActiveSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+export function useSessions() {
+  return useQuery({
+    queryKey: ['auth-sessions'],
+    queryFn: async () => {
+      const response = await api.get('/api/auth/sessions');
+      return response.data as ActiveSession[];
+    },
+  });
+}
+
+export function useRevokeSession() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (sessionId: string) => {
+      await api.delete(`/api/auth/sessions/${sessionId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['auth-sessions'] });
+      toast.success('Device signed out');
+    },
+    onError: (error) => {
+      handleApiError(error, 'Failed to sign out device');
+    },
+  });
+}
+
+export function useSignOutEverywhere() {
+  return useMutation({
+    mutationFn: async () => {
+      await api.post('/api/auth/logout-all');
+    },
+    onSuccess: () => {
+      // This device is signed out too
+      authService.clearTokens();
+      window.location.href = '/login';
+    },
+    onError: (error) => {
+      handleApiError(error, 'Failed to sign out of all devices');
+    },
+  });
+}
+
+export function useChangePassword() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: { currentPassword: string; newPassword: string }) => {
+      const response = await api.put('/api/user/password', data);
+      return response.data as { message: string };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['auth-sessions'] });
+      toast.success('Password changed. Other devices have been signed out.');
+    },
+    onError: (error) => {
+      handleApiError(error, 'Failed to change password');
+    },
+  });
+}
+
+export function useForgotPassword() {
+  return useMutation({
+    mutationFn: async (email: string) => {
+      const response = await api.post('/api/auth/forgot-password', { email });
+      return response.data as { message: string };
+    },
+    onError: (error) => {
+      handleApiError(error, 'Failed to request a reset link');
+    },
+  });
+}
+
+export function useResetPassword() {
+  return useMutation({
+    mutationFn: async (data: { token: string; newPassword: string }) => {
+      const response = await api.post('/api/auth/reset-password', data);
+      return response.data as { message: string };
+    },
+    onSuccess: () => {
+      authService.clearTokens();
+    },
+    onError: (error) => {
+      handleApiError(error, 'Failed to reset password');
+    },
+  });
+}
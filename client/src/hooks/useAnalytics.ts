@@ -0,0 +1,143 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '../api';
+import { handleApiError } from '../utils/errorHandler';
+import { toast } from 'sonner';
+import { exportService, type ExportOptions } from '../services/analytics/exportService';
+
+export type CoverageViewMode = 'planned' | 'taught';
+export type BalanceInterval = 'week' | 'month';
+export type EngagementLevel = 'high' | 'typical' | 'low' | 'none';
+
+export interface AnalyticsFilters {
+  from?: string;
+  to?: string;
+  subject?: string;
+  grade?: number;
+  viewMode?: CoverageViewMode;
+  interval?: BalanceInterval;
+}
+
+export interface CurriculumHeatmap {
+  outcomes: {
+    id: string;
+    code: string;
+    description: string;
+    strand: string;
+    substrand: string | null;
+    subject: string;
+    grade: number;
+  }[];
+  weeks: string[];
+  grid: Record<string, Record<string, number>>;
+  coverage: Record<string, string>;
+  metadata: {
+    viewMode: CoverageViewMode;
+    from: string;
+    to: string;
+    totalOutcomes: number;
+    coveredOutcomes: number;
+    totalWeeks: number;
+    coveragePercentage: number;
+  };
+}
+
+export interface StrandBalance {
+  interval: BalanceInterval;
+  strands: string[];
+  periods: { period: string; minutes: Record<string, number> }[];
+  totals: { strand: string; lessons: number; minutes: number; percentage: number }[];
+  unlinkedMinutes: number;
+}
+
+export interface StudentEngagement {
+  weeks: string[];
+  classAveragePerWeek: number;
+  students: {
+    studentId: number;
+    name: string;
+    grade: number;
+    reflections: number;
+    artifacts: number;
+    activityPerWeek: number;
+    weekly: Record<string, number>;
+    moods: Record<string, number>;
+    lastActivity: string | null;
+    level: EngagementLevel;
+    needsAttention: boolean;
+  }[];
+}
+
+// Drop unset filters so they fall back to the server defaults
+function toParams(filters: AnalyticsFilters) {
+  return Object.fromEntries(
+    Object.entries(filters).filter(([, value]) => value !== undefined && value !== ''),
+  );
+}
+
+export function useCurriculumHeatmap(filters: AnalyticsFilters) {
+  return useQuery({
+    queryKey: ['analytics', 'curriculum-heatmap', filters],
+    queryFn: async () => {
+      const response = await api.get('/api/analytics/curriculum-heatmap', {
+        params: toParams(filters),
+      });
+      return response.data as CurriculumHeatmap;
+    },
+  });
+}
+
+export function useStrandBalance(filters: AnalyticsFilters) {
+  return useQuery({
+    queryKey: ['analytics', 'strand-balance', filters],
+    queryFn: async () => {
+      const response = await api.get('/api/analytics/strand-balance', {
+        params: toParams(filters),
+      });
+      return response.data as StrandBalance;
+    },
+  });
+}
+
+export function useStudentEngagement(filters: AnalyticsFilters) {
+  return useQuery({
+    queryKey: ['analytics', 'student-engagement', filters],
+    queryFn: async () => {
+      const response = await api.get('/api/analytics/student-engagement', {
+        params: toParams(filters),
+      });
+      return response.data as StudentEngagement;
+    },
+  });
+}
+
+export function useExportAnalytics() {
+  return useMutation({
+    mutationFn: async ({
+      type,
+      format,
+      filters,
+    }: Omit<ExportOptions, 'filters'> & { filters: AnalyticsFilters }) => {
+      await exportService.exportData({ type, format, filters: toParams(filters) });
+    },
+    onError: (error) => {
+      handleApiError(error, 'Failed to export report');
+    },
+  });
+}
+
+export function useRefreshAnalytics() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      await api.post('/api/analytics/invalidate-cache');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['analytics'] });
+      toast.success('Reports refreshed');
+    },
+    onError: (error) => {
+      handleApiError(error, 'Failed to refresh reports');
+    },
+  });
+}
@@ -0,0 +1,158 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '../api';
+import { handleApiError } from '../utils/errorHandler';
+import { toast } from 'sonner';
+
+export const ACHIEVEMENT_LEVELS = ['R', '1', '2', '3', '4'] as const;
+export const EVIDENCE_TYPES = ['observation', 'conversation', 'product'] as const;
+
+export type AchievementLevel = (typeof ACHIEVEMENT_LEVELS)[number];
+export type EvidenceType = (typeof EVIDENCE_TYPES)[number];
+
+export const EVIDENCE_TYPE_LABELS: Record<EvidenceType, string> = {
+  observation: 'Observation',
+  conversation: 'Conversation',
+  product: 'Product',
+};
+
+export interface Assessment {
+  id: string;
+  studentId: number;
+  expectationId: string;
+  lessonPlanId?: string | null;
+  date: string;
+  level: AchievementLevel;
+  evidenceType: EvidenceType;
+  purpose?: 'diagnostic' | 'formative' | 'summative' | null;
+  notes?: string | null;
+  expectation?: { id: string; code: string; description: string; strand: string; subject: string };
+  lessonPlan?: { id: string; title: string } | null;
+}
+
+export interface StrandProgress {
+  subject: string;
+  strand: string;
+  count: number;
+  average: number;
+  latestLevel: AchievementLevel;
+  trend: 'improving' | 'steady' | 'declining' | null;
+  points: { month: string; average: number; count: number }[];
+}
+
+export interface StudentProgress {
+  totalAssessments: number;
+  averageScore: number | null;
+  assessmentsByType: Partial<Record<EvidenceType, number>>;
+  strands: StrandProgress[];
+  artifactCount: number;
+  reflectionCount: number;
+}
+
+export interface RecordingSheet {
+  lesson: {
+    id: string;
+    title: string;
+    date: string;
+    grade?: number | null;
+    subject?: string | null;
+    assessmentType?: string | null;
+  };
+  expectations: { id: string; code: string; description: string; strand: string }[];
+  students: { id: number; firstName: string; lastName: string; grade: number }[];
+  records: Assessment[];
+}
+
+export interface RecordingSheetEntry {
+  studentId: number;
+  expectationId: string;
+  level: AchievementLevel | null;
+  evidenceType: EvidenceType;
+}
+
+export function useStudentAssessments(studentId: number | undefined) {
+  return useQuery({
+    queryKey: ['students', studentId, 'assessments'],
+    queryFn: async () => {
+      const response = await api.get(`/api/students/${studentId}/assessments`);
+      return response.data as Assessment[];
+    },
+    enabled: !!studentId,
+  });
+}
+
+export function useStudentProgress(studentId: number | undefined) {
+  return useQuery({
+    queryKey: ['students', studentId, 'progress'],
+    queryFn: async () => {
+      const response = await api.get(`/api/students/${studentId}/progress`);
+      return response.data.progress as StudentProgress;
+    },
+    enabled: !!studentId,
+  });
+}
+
+export function useDeleteAssessment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      studentId,
+      assessmentId,
+    }: {
+      studentId: number;
+      assessmentId: string;
+    }) => {
+      await api.delete(`/api/students/${studentId}/assessments/${assessmentId}`);
+    },
+    onSuccess: (_, { studentId }) => {
+      queryClient.invalidateQueries({ queryKey: ['students', studentId, 'assessments'] });
+      queryClient.invalidateQueries({ queryKey: ['students', studentId, 'progress'] });
+      queryClient.invalidateQueries({ queryKey: ['recording-sheet'] });
+      toast.success('Assessment removed');
+    },
+    onError: (error) => {
+      handleApiError(error, 'Failed to remove assessment');
+    },
+  });
+}
+
+export function useRecordingSheet(lessonPlanId: string | undefined) {
+  return useQuery({
+    queryKey: ['recording-sheet', lessonPlanId],
+    queryFn: async () => {
+      const response = await api.get(`/api/etfo-lesson-plans/${lessonPlanId}/recording-sheet`);
+      return response.data as RecordingSheet;
+    },
+    enabled: !!lessonPlanId,
+  });
+}
+
+export function useSaveRecordingSheet() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      lessonPlanId,
+      entries,
+    }: {
+      lessonPlanId: string;
+      entries: RecordingSheetEntry[];
+    }) => {
+      const response = await api.put(`/api/etfo-lesson-plans/${lessonPlanId}/recording-sheet`, {
+        entries,
+      });
+      return response.data as Assessment[];
+    },
+    onSuccess: (_, { lessonPlanId, entries }) => {
+      queryClient.invalidateQueries({ queryKey: ['recording-sheet', lessonPlanId] });
+      for (const studentId of new Set(entries.map((e) => e.studentId))) {
+        queryClient.invalidateQueries({ queryKey: ['students', studentId, 'assessments'] });
+        queryClient.invalidateQueries({ queryKey: ['students', studentId, 'progress'] });
+      }
+      toast.success('Recording sheet saved');
+    },
+    onError: (error) => {
+      handleApiError(error, 'Failed to save recording sheet');
+    },
+  });
+}
@@ -0,0 +1,133 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '../api';
+import { handleApiError } from '../utils/errorHandler';
+import { toast } from 'sonner';
+
+export interface CalendarFeed {
+  id: number;
+  name: string;
+  /** Null for an uploaded file */
+  url: string | null;
+  lastSyncedAt: string | null;
+  lastError: string | null;
+  createdAt: string;
+  _count: { events: number };
+}
+
+export interface CalendarFeedInput {
+  name: string;
+  url?: string;
+  content?: string;
+}
+
+export interface CalendarFeedsResponse {
+  feeds: CalendarFeed[];
+  /** Whether the teacher has an export URL; the URL itself is only shown once */
+  exportEnabled: boolean;
+}
+
+/** Absolute URL for a server path, for pasting into another calendar app */
+export function calendarExportUrl(path: string) {
+  return new URL(path, api.defaults.baseURL || window.location.origin).toString();
+}
+
+export function useCalendarFeeds() {
+  return useQuery({
+    queryKey: ['calendar-feeds'],
+    queryFn: async () => {
+      const response = await api.get('/api/calendar-feeds');
+      return response.data as CalendarFeedsResponse;
+    },
+  });
+}
+
+export function useAddCalendarFeed() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: CalendarFeedInput) => {
+      const response = await api.post('/api/calendar-feeds', input);
+      return response.data as { feed: CalendarFeed; imported: number };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['calendar-feeds'] });
+      queryClient.invalidateQueries({ queryKey: ['calendar-events'] });
+      toast.success(`Imported ${data.imported} event(s) from ${data.feed.name}`);
+    },
+    onError: (error) => {
+      handleApiError(error, 'Failed to import calendar');
+    },
+  });
+}
+
+export function useRefreshCalendarFeed() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (feedId: number) => {
+      const response = await api.post(`/api/calendar-feeds/${feedId}/refresh`);
+      return response.data as { imported: number };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['calendar-feeds'] });
+      queryClient.invalidateQueries({ queryKey: ['calendar-events'] });
+      toast.success(`Calendar refreshed: ${data.imported} event(s)`);
+    },
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: ['calendar-feeds'] });
+      handleApiError(error, 'Failed to refresh calendar');
+    },
+  });
+}
+
+export function useDeleteCalendarFeed() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (feedId: number) => {
+      await api.delete(`/api/calendar-feeds/${feedId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['calendar-feeds'] });
+      queryClient.invalidateQueries({ queryKey: ['calendar-events'] });
+      toast.success('Calendar removed');
+    },
+    onError: (error) => {
+      handleApiError(error, 'Failed to remove calendar');
+    },
+  });
+}
+
+export function useCreateExportToken() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const response = await api.post('/api/calendar-feeds/export-token');
+      return response.data as { token: string; path: string };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['calendar-feeds'] });
+    },
+    onError: (error) => {
+      handleApiError(error, 'Failed to create calendar link');
+    },
+  });
+}
+
+export function useRevokeExportToken() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      await api.delete('/api/calendar-feeds/export-token');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['calendar-feeds'] });
+      toast.success('Calendar link turned off');
+    },
+    onError: (error) => {
+      handleApiError(error, 'Failed to turn off calendar link');
+    },
+  });
+}
@@ -0,0 +1,105 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '../api';
+import { handleApiError } from '../utils/errorHandler';
+import { toast } from 'sonner';
+
+/** A published curriculum document that expectation codes belong to */
+export interface CurriculumFramework {
+  id: string;
+  jurisdiction: string;
+  subject: string;
+  gradeMin: number;
+  gradeMax: number;
+  version: string;
+  language: 'en' | 'fr';
+  title: string;
+  effectiveFrom?: string | null;
+  effectiveTo?: string | null;
+  supersedesId?: string | null;
+  _count?: { expectations: number };
+}
+
+export interface CrosswalkExpectation {
+  id: string;
+  code: string;
+  description: string;
+  strand: string;
+  // Only set in curriculum package previews
+  descriptionFr?: string | null;
+  strandFr?: string | null;
+  substrand?: string | null;
+  substrandFr?: string | null;
+  grade?: number;
+  subject?: string;
+}
+
+export interface Crosswalk {
+  unchanged: number;
+  changed: { code: string; from: CrosswalkExpectation; to: CrosswalkExpectation }[];
+  removed: CrosswalkExpectation[];
+  added: CrosswalkExpectation[];
+}
+
+export interface FrameworkMigration {
+  applied: boolean;
+  planId: string;
+  from: CurriculumFramework | null;
+  to: CurriculumFramework;
+  crosswalk: Crosswalk;
+  links: { moved: number; merged: number; kept: number };
+  unmatched: CrosswalkExpectation[];
+}
+
+/** e.g. "ON Mathematics 2020" */
+export function frameworkLabel(
+  framework: Pick<CurriculumFramework, 'jurisdiction' | 'subject' | 'version' | 'language'>,
+) {
+  const language = framework.language === 'fr' ? ' (FR)' : '';
+  return `${framework.jurisdiction} ${framework.subject} ${framework.version}${language}`;
+}
+
+export function useCurriculumFrameworks(filters?: {
+  jurisdiction?: string;
+  subject?: string;
+  grade?: number;
+}) {
+  return useQuery({
+    queryKey: ['curriculum-frameworks', filters ?? null],
+    queryFn: async () => {
+      const response = await api.get('/api/curriculum-frameworks', { params: filters });
+      return response.data as CurriculumFramework[];
+    },
+  });
+}
+
+/**
+ * Preview (apply: false) or run the move of a long-range plan to another
+ * framework
+ */
+export function useFrameworkMigration() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      planId,
+      ...input
+    }: {
+      planId: string;
+      frameworkId: string;
+      apply: boolean;
+    }) => {
+      const response = await api.post(`/api/long-range-plans/${planId}/migrate-framework`, input);
+      return response.data as FrameworkMigration;
+    },
+    onSuccess: (data) => {
+      if (!data.applied) return;
+      queryClient.invalidateQueries({ queryKey: ['long-range-plans'] });
+      queryClient.invalidateQueries({ queryKey: ['unit-plans'] });
+      queryClient.invalidateQueries({ queryKey: ['curriculum-expectations'] });
+      toast.success(`Plan moved to ${frameworkLabel(data.to)}`);
+    },
+    onError: (error) => {
+      handleApiError(error, 'Failed to move plan to the new framework');
+    },
+  });
+}
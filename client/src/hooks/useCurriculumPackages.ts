@@ -0,0 +1,100 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '../api';
+import { handleApiError } from '../utils/errorHandler';
+import { toast } from 'sonner';
+import type { Crosswalk, CurriculumFramework } from './useCurriculumFrameworks';
+
+/** What installing a curriculum package would change */
+export interface PackagePreview {
+  framework: Omit<CurriculumFramework, 'id' | 'supersedesId' | '_count'>;
+  publishedBy: string | null;
+  /** The package carries a matching checksum; it says nothing about who published it */
+  integrityChecked: boolean;
+  existingFrameworkId: string | null;
+  diff: Crosswalk;
+  counts: { strands: number; expectations: number; clusters: number; embeddings: number };
+}
+
+export interface PackageImportResult {
+  frameworkId: string;
+  importId: string;
+  created: number;
+  updated: number;
+  retained: number;
+  clusters: number;
+  embeddings: number;
+}
+
+function packageForm(file: File, overwrite?: boolean) {
+  const formData = new FormData();
+  formData.append('file', file);
+  if (overwrite) formData.append('overwrite', 'true');
+  return formData;
+}
+
+export function usePreviewCurriculumPackage() {
+  return useMutation({
+    mutationFn: async (file: File) => {
+      const response = await api.post(
+        '/api/curriculum-import/packages/preview',
+        packageForm(file),
+        {
+          headers: { 'Content-Type': 'multipart/form-data' },
+        },
+      );
+      return response.data as PackagePreview;
+    },
+    onError: (error) => {
+      handleApiError(error, 'Failed to read curriculum package');
+    },
+  });
+}
+
+export function useInstallCurriculumPackage() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ file, overwrite }: { file: File; overwrite: boolean }) => {
+      const response = await api.post(
+        '/api/curriculum-import/packages',
+        packageForm(file, overwrite),
+        { headers: { 'Content-Type': 'multipart/form-data' } },
+      );
+      return response.data as PackageImportResult;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['curriculum-frameworks'] });
+      queryClient.invalidateQueries({ queryKey: ['curriculum-expectations'] });
+      toast.success(
+        `Curriculum installed: ${data.created} new and ${data.updated} updated expectations`,
+      );
+    },
+    onError: (error) => {
+      handleApiError(error, 'Failed to install curriculum package');
+    },
+  });
+}
+
+/** Download a framework as a package file */
+export async function downloadCurriculumPackage(
+  frameworkId: string,
+  options: { format: 'json' | 'zip'; embeddings: boolean; publishedBy?: string },
+) {
+  const response = await api.get(`/api/curriculum-import/packages/${frameworkId}`, {
+    params: {
+      format: options.format,
+      embeddings: options.embeddings,
+      publishedBy: options.publishedBy || undefined,
+    },
+    responseType: 'blob',
+  });
+  const disposition = String(response.headers['content-disposition'] ?? '');
+  const fileName = disposition.match(/filename="(.+)"/)?.[1] ?? `curriculum.${options.format}`;
+
+  const url = window.URL.createObjectURL(response.data);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  window.URL.revokeObjectURL(url);
+}
@@ -2,6 +2,7 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { api } from '../api';
 import { handleApiError } from '../utils/errorHandler';
 import { toast } from 'sonner';
+import type { CurriculumFramework } from './useCurriculumFrameworks';
 
 // Types
 export interface CurriculumExpectation {
@@ -31,6 +32,8 @@ export interface LongRangePlan {
   term?: string;
   grade: number;
   subject: string;
+  frameworkId?: string | null;
+  framework?: CurriculumFramework | null;
   description?: string;
   descriptionFr?: string;
   goals?: string;
@@ -0,0 +1,81 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { portalApi, setPortalSession } from '../services/guardianPortalApi';
+import type { GuardianLanguage } from './useGuardians';
+
+export interface PortalChild {
+  studentId: number;
+  firstName: string;
+  grade: number;
+  language: GuardianLanguage;
+}
+
+export type PortalEntry =
+  | {
+      type: 'parent-summary';
+      id: string;
+      publishedAt: string;
+      dateFrom: string;
+      dateTo: string;
+      content: string;
+    }
+  | {
+      type: 'newsletter';
+      id: string;
+      publishedAt: string;
+      title: string;
+      dateFrom: string;
+      dateTo: string;
+      sections: { title: string; content: string }[];
+    }
+  | {
+      type: 'artifact';
+      id: string;
+      publishedAt: string;
+      title: string;
+      description: string | null;
+      fileUrl: string | null;
+      createdAt: string;
+    };
+
+export function usePortalProfile(enabled: boolean) {
+  return useQuery({
+    queryKey: ['portal', 'me'],
+    queryFn: async () => {
+      const response = await portalApi.get('/api/portal/me');
+      return response.data as { name: string; language: GuardianLanguage; children: PortalChild[] };
+    },
+    enabled,
+    retry: false,
+  });
+}
+
+export function usePortalStudent(studentId: number | undefined) {
+  return useQuery({
+    queryKey: ['portal', 'students', studentId],
+    queryFn: async () => {
+      const response = await portalApi.get(`/api/portal/students/${studentId}`);
+      return response.data as { child: PortalChild; entries: PortalEntry[] };
+    },
+    enabled: !!studentId,
+    retry: false,
+  });
+}
+
+export function useRequestPortalLink() {
+  return useMutation({
+    mutationFn: async (email: string) => {
+      await portalApi.post('/api/portal/magic-link', { email });
+    },
+  });
+}
+
+export function usePortalSignIn() {
+  return useMutation({
+    mutationFn: async (token: string) => {
+      const response = await portalApi.post('/api/portal/sign-in', { token });
+      const session = response.data as { token: string; expiresAt: string };
+      setPortalSession(session);
+      return session;
+    },
+  });
+}
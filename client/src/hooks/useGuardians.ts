@@ -0,0 +1,229 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '../api';
+import { handleApiError } from '../utils/errorHandler';
+import { toast } from 'sonner';
+
+export const GUARDIAN_LANGUAGES = ['en', 'fr'] as const;
+export const GUARDIAN_CONTACT_METHODS = ['email', 'phone', 'paper'] as const;
+
+export type GuardianLanguage = (typeof GUARDIAN_LANGUAGES)[number];
+export type GuardianContactMethod = (typeof GUARDIAN_CONTACT_METHODS)[number];
+
+export interface Guardian {
+  id: string;
+  studentId: number;
+  name: string;
+  relationship?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  preferredLanguage: GuardianLanguage;
+  contactMethod: GuardianContactMethod;
+  isPrimary: boolean;
+  receivesCommunications: boolean;
+  restrictionNotes?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type GuardianInput = Omit<Guardian, 'id' | 'studentId' | 'createdAt' | 'updatedAt'>;
+
+export type RecipientSkipReason =
+  | 'restricted'
+  | 'contact_by_phone'
+  | 'contact_by_paper'
+  | 'no_email';
+
+export interface NewsletterRecipient {
+  id: string;
+  newsletterId: string;
+  guardianId?: string | null;
+  studentId?: number | null;
+  name?: string | null;
+  email?: string | null;
+  language: GuardianLanguage;
+  status: 'queued' | 'sending' | 'sent' | 'failed' | 'skipped';
+  skipReason?: RecipientSkipReason | null;
+  emailDeliveryId?: string | null;
+  lastError?: string | null;
+  sentAt?: string | null;
+  createdAt: string;
+}
+
+export const SKIP_REASON_LABELS: Record<RecipientSkipReason, string> = {
+  restricted: 'Communication restricted',
+  contact_by_phone: 'Prefers phone',
+  contact_by_paper: 'Prefers paper',
+  no_email: 'No email address',
+};
+
+export function useStudentGuardians(studentId: number | undefined) {
+  return useQuery({
+    queryKey: ['guardians', studentId],
+    queryFn: async () => {
+      const response = await api.get(`/api/students/${studentId}/guardians`);
+      return response.data as Guardian[];
+    },
+    enabled: !!studentId,
+  });
+}
+
+export function useSaveGuardian() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      studentId,
+      guardianId,
+      data,
+    }: {
+      studentId: number;
+      guardianId?: string;
+      data: Partial<GuardianInput>;
+    }) => {
+      const response = guardianId
+        ? await api.patch(`/api/students/${studentId}/guardians/${guardianId}`, data)
+        : await api.post(`/api/students/${studentId}/guardians`, data);
+      return response.data as Guardian;
+    },
+    onSuccess: (guardian, { guardianId }) => {
+      queryClient.invalidateQueries({ queryKey: ['guardians', guardian.studentId] });
+      toast.success(guardianId ? 'Contact updated' : 'Contact added');
+    },
+    onError: (error) => {
+      handleApiError(error, 'Failed to save contact');
+    },
+  });
+}
+
+export function useDeleteGuardian() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ studentId, guardianId }: { studentId: number; guardianId: string }) => {
+      await api.delete(`/api/students/${studentId}/guardians/${guardianId}`);
+    },
+    onSuccess: (_, { studentId }) => {
+      queryClient.invalidateQueries({ queryKey: ['guardians', studentId] });
+      toast.success('Contact removed');
+    },
+    onError: (error) => {
+      handleApiError(error, 'Failed to remove contact');
+    },
+  });
+}
+
+export function useNewsletterRecipients(newsletterId: string | undefined) {
+  return useQuery({
+    queryKey: ['newsletter-recipients', newsletterId],
+    queryFn: async () => {
+      const response = await api.get(`/api/newsletters/${newsletterId}/recipients`);
+      return response.data as NewsletterRecipient[];
+    },
+    enabled: !!newsletterId,
+    // Keep polling while anything is still on its way
+    refetchInterval: (query) =>
+      query.state.data?.some((r) => r.status === 'queued' || r.status === 'sending')
+        ? 15000
+        : false,
+  });
+}
+
+export function useSendParentSummary() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ summaryId }: { summaryId: number; studentId: number }) => {
+      const response = await api.post(`/api/parent-summary/${summaryId}/send`);
+      return response.data as { sent: number; skipped: { name: string }[] };
+    },
+    onSuccess: (result, { studentId }) => {
+      queryClient.invalidateQueries({ queryKey: ['students', studentId] });
+      queryClient.invalidateQueries({ queryKey: ['email-deliveries'] });
+      toast.success(
+        result.skipped.length > 0
+          ? `Summary sent to ${result.sent} contact(s); ${result.skipped.length} not reachable by email`
+          : `Summary sent to ${result.sent} contact(s)`,
+      );
+    },
+    onError: (error) => {
+      handleApiError(error, 'Failed to send summary');
+    },
+  });
+}
+
+export type PortalItemType = 'parent-summary' | 'newsletter' | 'artifact';
+
+export interface PortalCandidate {
+  type: PortalItemType;
+  id: string;
+  title: string;
+  publishedAt: string | null;
+}
+
+export interface PortalGuardianAccess {
+  id: string;
+  name: string;
+  email?: string | null;
+  canUsePortal: boolean;
+  lastPortalVisitAt?: string | null;
+}
+
+export function useStudentPortal(studentId: number | undefined) {
+  return useQuery({
+    queryKey: ['student-portal', studentId],
+    queryFn: async () => {
+      const response = await api.get(`/api/students/${studentId}/portal`);
+      return response.data as { items: PortalCandidate[]; guardians: PortalGuardianAccess[] };
+    },
+    enabled: !!studentId,
+  });
+}
+
+export function useSetPortalItemPublished() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      studentId,
+      item,
+      published,
+    }: {
+      studentId: number;
+      item: Pick<PortalCandidate, 'type' | 'id'>;
+      published: boolean;
+    }) => {
+      if (published) {
+        await api.post(`/api/students/${studentId}/portal/items`, {
+          itemType: item.type,
+          itemId: item.id,
+        });
+      } else {
+        await api.delete(`/api/students/${studentId}/portal/items/${item.type}/${item.id}`);
+      }
+    },
+    onSuccess: (_, { studentId, published }) => {
+      queryClient.invalidateQueries({ queryKey: ['student-portal', studentId] });
+      toast.success(published ? 'Shared on the family portal' : 'Removed from the family portal');
+    },
+    onError: (error) => {
+      handleApiError(error, 'Failed to update the family portal');
+    },
+  });
+}
+
+export function useSendPortalLink() {
+  return useMutation({
+    mutationFn: async ({ studentId, guardianId }: { studentId: number; guardianId: string }) => {
+      const response = await api.post(
+        `/api/students/${studentId}/guardians/${guardianId}/portal-link`,
+      );
+      return response.data as { email: string; expiresAt: string };
+    },
+    onSuccess: (result) => {
+      toast.success(`Portal sign-in link sent to ${result.email}`);
+    },
+    onError: (error) => {
+      handleApiError(error, 'Failed to send portal link');
+    },
+  });
+}
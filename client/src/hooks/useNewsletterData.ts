@@ -129,16 +129,28 @@ export function useNewsletter(id: string | undefined) {
 export function useSendNewsletter() {
   const queryClient = useQueryClient();
 
-  return useMutation<void, Error, { newsletterId: string; recipientEmails?: string[] }>({
-    mutationFn: async ({ newsletterId, recipientEmails }) => {
-      await api.post(`/newsletters/${newsletterId}/send`, {
+  return useMutation<
+    { sent: number; skipped: number },
+    Error,
+    { newsletterId: string; recipientEmails?: string[]; includeGuardians?: boolean }
+  >({
+    mutationFn: async ({ newsletterId, recipientEmails, includeGuardians }) => {
+      const response = await api.post(`/newsletters/${newsletterId}/send`, {
         recipientEmails,
+        includeGuardians,
       });
+      return response.data;
     },
-    onSuccess: (_, { newsletterId }) => {
-      toast.success('Newsletter sent successfully!');
+    onSuccess: (result, { newsletterId }) => {
+      toast.success(
+        result.skipped > 0
+          ? `Newsletter sent to ${result.sent} recipient(s); ${result.skipped} contact(s) not reachable by email`
+          : 'Newsletter sent successfully!',
+      );
       queryClient.invalidateQueries({ queryKey: ['newsletter', newsletterId] });
       queryClient.invalidateQueries({ queryKey: ['newsletter-drafts'] });
+      queryClient.invalidateQueries({ queryKey: ['newsletter-recipients', newsletterId] });
+      queryClient.invalidateQueries({ queryKey: ['email-deliveries'] });
     },
     onError: (error) => {
       toast.error(`Failed to send newsletter: ${error.message}`);
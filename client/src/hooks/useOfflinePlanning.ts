@@ -6,7 +6,7 @@ import { useUnitPlanStore } from '../stores/unitPlanStore';
 import { useLessonPlanStore } from '../stores/lessonPlanStore';
 import { useDaybookStore } from '../stores/daybookStore';
 import { useWeeklyPlannerStore } from '../stores/weeklyPlannerStore';
-import { offlineStorage, StoredData } from '../services/offlineStorage';
+import { offlineStorage, OfflineChange, StoredData } from '../services/offlineStorage';
 import { lazyLoader } from '../services/lazyLoader';
 import { batchedApi } from '../services/requestBatcher';
 
@@ -60,6 +60,20 @@ export function useOfflinePlanning() {
     mergedData?: unknown
   ) => {
     await offlineStorage.resolveConflict(conflictId, resolution, mergedData as StoredData | undefined);
+
+    // Keeping local edits queues them again, based on the server copy just reviewed
+    const conflict = conflicts.find(c => c.id === conflictId);
+    const remoteData = conflict?.remoteData as StoredData | undefined;
+    if (conflict && resolution !== 'remote' && remoteData?.id) {
+      await offlineStorage.saveOfflineChange({
+        type: 'UPDATE',
+        entity: conflict.entity as OfflineChange['entity'],
+        entityId: conflict.entityId as string,
+        data: (resolution === 'merge' ? mergedData : conflict.localData) as StoredData,
+        baseUpdatedAt: remoteData.updatedAt as string | undefined,
+        base: remoteData
+      });
+    }
     setConflicts(conflicts.filter(c => c.id !== conflictId));
   };
 
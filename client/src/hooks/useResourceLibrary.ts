@@ -0,0 +1,291 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '../api';
+import { handleApiError } from '../utils/errorHandler';
+import { toast } from 'sonner';
+
+export const RESOURCE_TYPES = ['lesson', 'worksheet', 'assessment', 'template', 'media'] as const;
+export const FRENCH_LEVELS = ['core', 'extended', 'immersion'] as const;
+
+export interface LibraryResource {
+  id: string;
+  title: string;
+  titleFr?: string | null;
+  description?: string | null;
+  descriptionFr?: string | null;
+  resourceType: string;
+  fileUrl?: string | null;
+  thumbnailUrl?: string | null;
+  content?: string | null;
+  subject: string;
+  gradeMin: number;
+  gradeMax: number;
+  language: string;
+  isFrenchImmersion: boolean;
+  frenchLevel?: string | null;
+  categories: string[];
+  tags: string[];
+  curriculumCodes: string[];
+  contributorId: number;
+  contributor?: { id: number; name: string; email?: string };
+  schoolName?: string | null;
+  schoolBoard?: string | null;
+  averageRating?: number | null;
+  viewCount: number;
+  downloadCount: number;
+  bookmarkCount: number;
+  isApproved: boolean;
+  approvedAt?: string | null;
+  rejectionReason?: string | null;
+  version: number;
+  previousVersionId?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ResourceRating {
+  id: string;
+  userId: number;
+  rating: number;
+  review?: string | null;
+  gradeUsed?: number | null;
+  effectiveness?: string | null;
+  createdAt: string;
+}
+
+export interface ResourceBookmark {
+  id: string;
+  resourceId: string;
+  notes?: string | null;
+  tags?: string[] | null;
+  createdAt: string;
+}
+
+export interface LibraryResourceDetail extends LibraryResource {
+  ratings: ResourceRating[];
+  myRating: ResourceRating | null;
+  bookmark: ResourceBookmark | null;
+  canModerate: boolean;
+}
+
+export interface LibrarySearchFilters {
+  search?: string;
+  subject?: string;
+  grade?: number;
+  curriculumCode?: string;
+  resourceType?: string;
+  isFrenchImmersion?: boolean;
+  frenchLevel?: string;
+  sort?: 'recent' | 'rating' | 'popular';
+  page?: number;
+}
+
+export interface LibrarySearchResult {
+  resources: LibraryResource[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+export function useLibraryResources(filters: LibrarySearchFilters) {
+  return useQuery({
+    queryKey: ['resource-library', filters],
+    queryFn: async () => {
+      const params = Object.fromEntries(
+        Object.entries(filters).filter(([, value]) => value !== undefined && value !== ''),
+      );
+      const response = await api.get('/api/resource-library', { params });
+      return response.data as LibrarySearchResult;
+    },
+  });
+}
+
+export function useLibraryResource(id: string | null) {
+  return useQuery({
+    queryKey: ['resource-library', 'detail', id],
+    queryFn: async () => {
+      const response = await api.get(`/api/resource-library/${id}`);
+      return response.data as LibraryResourceDetail;
+    },
+    enabled: !!id,
+    refetchOnWindowFocus: false,
+  });
+}
+
+export function useLibraryBookmarks(tag?: string) {
+  return useQuery({
+    queryKey: ['resource-library', 'bookmarks', tag],
+    queryFn: async () => {
+      const response = await api.get('/api/resource-library/bookmarks', {
+        params: tag ? { tag } : {},
+      });
+      return response.data as (ResourceBookmark & { resource: LibraryResource })[];
+    },
+  });
+}
+
+// Only moderators get a 200 here; everyone else sees no queue
+export function useLibraryModerationQueue() {
+  return useQuery({
+    queryKey: ['resource-library', 'queue'],
+    queryFn: async () => {
+      const response = await api.get('/api/resource-library/moderation/queue');
+      return response.data as LibraryResource[];
+    },
+    retry: false,
+  });
+}
+
+export function useContributeResource() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (formData: FormData) => {
+      const response = await api.post('/api/resource-library', formData, {
+        headers: {
+          'Content-Type': 'multipart/form-data',
+        },
+      });
+      return response.data as LibraryResource;
+    },
+    onSuccess: (resource) => {
+      queryClient.invalidateQueries({ queryKey: ['resource-library'] });
+      toast.success(
+        resource.isApproved
+          ? 'Resource added to the library'
+          : 'Resource submitted for review. It will appear once approved.',
+      );
+    },
+    onError: (error) => {
+      handleApiError(error, 'Failed to contribute resource');
+    },
+  });
+}
+
+export function useReviewResource() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...review }: { id: string; approved: boolean; reason?: string }) => {
+      const response = await api.post(`/api/resource-library/${id}/review`, review);
+      return response.data as LibraryResource;
+    },
+    onSuccess: (resource) => {
+      queryClient.invalidateQueries({ queryKey: ['resource-library'] });
+      toast.success(resource.isApproved ? 'Resource approved' : 'Resource sent back');
+    },
+    onError: (error) => {
+      handleApiError(error, 'Failed to review resource');
+    },
+  });
+}
+
+export function useDeleteLibraryResource() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      await api.delete(`/api/resource-library/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['resource-library'] });
+      toast.success('Resource deleted');
+    },
+    onError: (error) => {
+      handleApiError(error, 'Failed to delete resource');
+    },
+  });
+}
+
+export function useRateResource() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      id,
+      ...rating
+    }: {
+      id: string;
+      rating: number;
+      review?: string;
+      gradeUsed?: number;
+    }) => {
+      const response = await api.put(`/api/resource-library/${id}/rating`, rating);
+      return response.data as { rating: ResourceRating; averageRating: number };
+    },
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ['resource-library', 'detail', id] });
+      toast.success('Thanks for rating this resource');
+    },
+    onError: (error) => {
+      handleApiError(error, 'Failed to save rating');
+    },
+  });
+}
+
+export function useBookmarkResource() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...bookmark }: { id: string; notes?: string; tags?: string[] }) => {
+      const response = await api.put(`/api/resource-library/${id}/bookmark`, bookmark);
+      return response.data as ResourceBookmark;
+    },
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ['resource-library', 'detail', id] });
+      queryClient.invalidateQueries({ queryKey: ['resource-library', 'bookmarks'] });
+    },
+    onError: (error) => {
+      handleApiError(error, 'Failed to save bookmark');
+    },
+  });
+}
+
+export function useRemoveBookmark() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      await api.delete(`/api/resource-library/${id}/bookmark`);
+    },
+    onSuccess: (_, id) => {
+      queryClient.invalidateQueries({ queryKey: ['resource-library', 'detail', id] });
+      queryClient.invalidateQueries({ queryKey: ['resource-library', 'bookmarks'] });
+    },
+    onError: (error) => {
+      handleApiError(error, 'Failed to remove bookmark');
+    },
+  });
+}
+
+export function useDownloadResource() {
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await api.post(`/api/resource-library/${id}/download`);
+      return response.data as { fileUrl: string };
+    },
+    onSuccess: ({ fileUrl }) => {
+      window.open(fileUrl, '_blank', 'noopener');
+    },
+    onError: (error) => {
+      handleApiError(error, 'Failed to download resource');
+    },
+  });
+}
+
+export function useAttachResourceToLesson() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, lessonPlanId }: { id: string; lessonPlanId: string }) => {
+      const response = await api.post(`/api/resource-library/${id}/attach`, { lessonPlanId });
+      return response.data;
+    },
+    onSuccess: (_, { lessonPlanId }) => {
+      queryClient.invalidateQueries({ queryKey: ['etfo-lesson-plans', lessonPlanId] });
+      toast.success('Resource attached to lesson');
+    },
+    onError: (error) => {
+      handleApiError(error, 'Failed to attach resource');
+    },
+  });
+}
@@ -0,0 +1,101 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '../api';
+import { handleApiError } from '../utils/errorHandler';
+import { toast } from 'sonner';
+
+export const PROVINCES = [
+  { code: 'PE', name: 'Prince Edward Island' },
+  { code: 'ON', name: 'Ontario' },
+  { code: 'BC', name: 'British Columbia' },
+] as const;
+
+export type Province = (typeof PROVINCES)[number]['code'];
+
+export interface SchoolTerm {
+  name: string;
+  nameFr: string;
+  start: string;
+  end: string;
+}
+
+export interface SchoolDay {
+  key: string;
+  name: string;
+  nameFr: string;
+  date: string;
+}
+
+export interface SchoolBreak {
+  key: string;
+  name: string;
+  nameFr: string;
+  start: string;
+  end: string;
+}
+
+/** Computed school year; dates are YYYY-MM-DD */
+export interface SchoolYear {
+  province: Province;
+  academicYear: string;
+  start: string;
+  end: string;
+  holidays: SchoolDay[];
+  breaks: SchoolBreak[];
+  pdDays: SchoolDay[];
+  terms: SchoolTerm[];
+  instructionalDays: number;
+}
+
+/** First calendar year of an academic year label such as "2025-2026" */
+export function academicYearStart(academicYear: string) {
+  return Number(academicYear.slice(0, 4));
+}
+
+/** Whole weeks covered by a term, for planning tools that work in weeks */
+export function termWeeks(term: { start: string; end: string }) {
+  const days = (Date.parse(term.end) - Date.parse(term.start)) / 86400000 + 1;
+  return Math.ceil(days / 7);
+}
+
+export function formatSchoolDate(date: string) {
+  return new Date(`${date}T00:00:00`).toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+/**
+ * Holidays, breaks, PD days and terms for a school year. Without a province
+ * the teacher's saved province (or their board's) is used.
+ */
+export function useSchoolYear(year?: number, province?: Province) {
+  return useQuery({
+    queryKey: ['school-year', year ?? null, province ?? null],
+    queryFn: async () => {
+      const response = await api.get('/api/calendar-events/school-year', {
+        params: { year, province },
+      });
+      return response.data as SchoolYear;
+    },
+    staleTime: Infinity,
+  });
+}
+
+export function useImportHolidays() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: { year: number; province: Province }) => {
+      const response = await api.post('/api/calendar-events/import-holidays', input);
+      return response.data as { message: string; events: unknown[] };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['calendar-events'] });
+      queryClient.invalidateQueries({ queryKey: ['school-year'] });
+      toast.success(data.message);
+    },
+    onError: (error) => {
+      handleApiError(error, 'Failed to add holidays');
+    },
+  });
+}
@@ -0,0 +1,291 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '../api';
+import { handleApiError } from '../utils/errorHandler';
+import { toast } from 'sonner';
+import type { CoverageViewMode } from './useAnalytics';
+
+export type SchoolRole = 'TEACHER' | 'SCHOOL_ADMIN';
+export type SchoolEventType =
+  | 'PD_DAY'
+  | 'ASSEMBLY'
+  | 'TRIP'
+  | 'HOLIDAY'
+  | 'REPORT_DEADLINE'
+  | 'CUSTOM';
+
+export interface School {
+  id: number;
+  name: string;
+  address: string | null;
+  board: { id: number; name: string } | null;
+  role: SchoolRole | null;
+  canManage: boolean;
+  _count: { memberships: number };
+}
+
+export interface StaffMember {
+  id: string;
+  role: SchoolRole;
+  createdAt: string;
+  user: { id: number; email: string; name: string; mustChangePassword: boolean };
+}
+
+/** Staff join a school by accepting an invitation */
+export interface SchoolInvitation {
+  id: string;
+  schoolId: number;
+  email: string;
+  role: SchoolRole;
+  expiresAt: string;
+  createdAt: string;
+  school?: { id: number; name: string };
+  invitedBy: { id: number; name: string; email: string };
+  /** Only present right after a new account was created */
+  temporaryPassword?: string;
+}
+
+export interface SchoolEvent {
+  id: number;
+  title: string;
+  description: string | null;
+  start: string;
+  end: string;
+  allDay: boolean;
+  eventType: SchoolEventType;
+}
+
+export interface SchoolEventInput {
+  title: string;
+  description?: string;
+  start: string;
+  end: string;
+  allDay: boolean;
+  eventType: SchoolEventType;
+}
+
+export interface SchoolCoverage {
+  outcomes: {
+    id: string;
+    code: string;
+    description: string;
+    strand: string;
+    substrand: string | null;
+    subject: string;
+    grade: number;
+    teacherCount: number;
+  }[];
+  metadata: {
+    viewMode: CoverageViewMode;
+    from: string;
+    to: string;
+    teacherCount: number;
+    activeTeacherCount: number;
+    totalOutcomes: number;
+    coveredOutcomes: number;
+    coveragePercentage: number;
+  };
+}
+
+export interface SchoolCoverageFilters {
+  subject?: string;
+  grade?: number;
+  viewMode?: CoverageViewMode;
+}
+
+export function useSchools() {
+  return useQuery({
+    queryKey: ['schools'],
+    queryFn: async () => {
+      const response = await api.get('/api/schools');
+      return response.data as School[];
+    },
+  });
+}
+
+export function useSchoolStaff(schoolId: number | undefined) {
+  return useQuery({
+    queryKey: ['school-staff', schoolId],
+    queryFn: async () => {
+      const response = await api.get(`/api/schools/${schoolId}/staff`);
+      return response.data as StaffMember[];
+    },
+    enabled: !!schoolId,
+  });
+}
+
+export function useSchoolInvitations(schoolId: number | undefined) {
+  return useQuery({
+    queryKey: ['school-invitations', schoolId],
+    queryFn: async () => {
+      const response = await api.get(`/api/schools/${schoolId}/invitations`);
+      return response.data as SchoolInvitation[];
+    },
+    enabled: !!schoolId,
+  });
+}
+
+export function useInviteStaffMember(schoolId: number) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: { email: string; name: string; role: SchoolRole }) => {
+      const response = await api.post(`/api/schools/${schoolId}/staff`, data);
+      return response.data as SchoolInvitation;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['school-invitations', schoolId] });
+      toast.success('Invitation sent');
+    },
+    onError: (error) => {
+      handleApiError(error, 'Failed to invite staff member');
+    },
+  });
+}
+
+export function useCancelSchoolInvitation(schoolId: number) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (invitationId: string) => {
+      await api.delete(`/api/schools/${schoolId}/invitations/${invitationId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['school-invitations', schoolId] });
+    },
+    onError: (error) => {
+      handleApiError(error, 'Failed to withdraw invitation');
+    },
+  });
+}
+
+export function useMySchoolInvitations() {
+  return useQuery({
+    queryKey: ['school-invitations', 'my'],
+    queryFn: async () => {
+      const response = await api.get('/api/schools/invitations/my');
+      return response.data as SchoolInvitation[];
+    },
+  });
+}
+
+export function useRespondToSchoolInvitation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      invitationId,
+      response,
+    }: {
+      invitationId: string;
+      response: 'accept' | 'decline';
+    }) => {
+      await api.post(`/api/schools/invitations/${invitationId}/respond`, { response });
+    },
+    onSuccess: (_data, { response }) => {
+      queryClient.invalidateQueries({ queryKey: ['school-invitations', 'my'] });
+      queryClient.invalidateQueries({ queryKey: ['schools'] });
+      if (response === 'accept') {
+        queryClient.invalidateQueries({ queryKey: ['calendar-events'] });
+        toast.success('You joined the school');
+      }
+    },
+    onError: (error) => {
+      handleApiError(error, 'Failed to respond to invitation');
+    },
+  });
+}
+
+export function useUpdateStaffRole(schoolId: number) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ userId, role }: { userId: number; role: SchoolRole }) => {
+      const response = await api.patch(`/api/schools/${schoolId}/staff/${userId}`, { role });
+      return response.data as StaffMember;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['school-staff', schoolId] });
+    },
+    onError: (error) => {
+      handleApiError(error, 'Failed to change role');
+    },
+  });
+}
+
+export function useRemoveStaffMember(schoolId: number) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (userId: number) => {
+      await api.delete(`/api/schools/${schoolId}/staff/${userId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['school-staff', schoolId] });
+      queryClient.invalidateQueries({ queryKey: ['schools'] });
+      toast.success('Staff member removed');
+    },
+    onError: (error) => {
+      handleApiError(error, 'Failed to remove staff member');
+    },
+  });
+}
+
+export function useSchoolCalendar(schoolId: number | undefined) {
+  return useQuery({
+    queryKey: ['school-calendar', schoolId],
+    queryFn: async () => {
+      const response = await api.get(`/api/schools/${schoolId}/calendar`);
+      return response.data as SchoolEvent[];
+    },
+    enabled: !!schoolId,
+  });
+}
+
+export function usePublishSchoolEvents(schoolId: number) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (events: SchoolEventInput[]) => {
+      const response = await api.post(`/api/schools/${schoolId}/calendar`, { events });
+      return response.data as SchoolEvent[];
+    },
+    onSuccess: (events) => {
+      queryClient.invalidateQueries({ queryKey: ['school-calendar', schoolId] });
+      queryClient.invalidateQueries({ queryKey: ['calendar-events'] });
+      toast.success(events.length === 1 ? 'Event published' : `${events.length} events published`);
+    },
+    onError: (error) => {
+      handleApiError(error, 'Failed to publish to the school calendar');
+    },
+  });
+}
+
+export function useDeleteSchoolEvent(schoolId: number) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (eventId: number) => {
+      await api.delete(`/api/schools/${schoolId}/calendar/${eventId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['school-calendar', schoolId] });
+      queryClient.invalidateQueries({ queryKey: ['calendar-events'] });
+    },
+    onError: (error) => {
+      handleApiError(error, 'Failed to remove event');
+    },
+  });
+}
+
+export function useSchoolCoverage(schoolId: number | undefined, filters: SchoolCoverageFilters) {
+  return useQuery({
+    queryKey: ['school-coverage', schoolId, filters],
+    queryFn: async () => {
+      const response = await api.get(`/api/analytics/schools/${schoolId}/curriculum-coverage`, {
+        params: filters,
+      });
+      return response.data as SchoolCoverage;
+    },
+    enabled: !!schoolId,
+  });
+}
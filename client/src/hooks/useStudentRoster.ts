@@ -0,0 +1,110 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '../api';
+import { handleApiError } from '../utils/errorHandler';
+import { toast } from 'sonner';
+import type { Student } from '../types';
+
+export type DuplicateAction = 'skip' | 'update';
+
+export interface RosterRow {
+  line: number;
+  firstName: string;
+  lastName: string;
+  grade: number;
+}
+
+export interface RosterImportResult {
+  created: number;
+  updated: number;
+  skipped: number;
+  duplicates: (RosterRow & { studentId: number | null; archived: boolean })[];
+  errors: { line: number; error: string }[];
+}
+
+export function useArchivedStudents(enabled: boolean) {
+  return useQuery({
+    queryKey: ['students', 'archived'],
+    queryFn: async () => {
+      const response = await api.get('/api/students', { params: { archived: 'true' } });
+      return response.data as Student[];
+    },
+    enabled,
+  });
+}
+
+export function useImportRoster() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: { csv: string; onDuplicate: DuplicateAction; dryRun: boolean }) => {
+      const response = await api.post('/api/students/import', data);
+      return response.data as RosterImportResult;
+    },
+    onSuccess: (result, { dryRun }) => {
+      if (dryRun) return;
+      queryClient.invalidateQueries({ queryKey: ['students'] });
+      toast.success(
+        `Imported ${result.created} new student(s)` +
+          (result.updated > 0 ? `, updated ${result.updated}` : ''),
+      );
+    },
+    onError: (error) => {
+      handleApiError(error, 'Failed to import class list');
+    },
+  });
+}
+
+export function useExportRoster() {
+  return useMutation({
+    mutationFn: async ({ includeArchived }: { includeArchived: boolean }) => {
+      const response = await api.get('/api/students/export', {
+        params: { includeArchived: String(includeArchived) },
+        responseType: 'blob',
+      });
+      const url = window.URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `class-list-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      window.URL.revokeObjectURL(url);
+    },
+    onError: (error) => {
+      handleApiError(error, 'Failed to export class list');
+    },
+  });
+}
+
+export function useArchiveStudents() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: { studentIds?: number[]; grade?: number }) => {
+      const response = await api.post('/api/students/archive', data);
+      return response.data as { archived: number };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['students'] });
+      toast.success(`Archived ${result.archived} student(s)`);
+    },
+    onError: (error) => {
+      handleApiError(error, 'Failed to archive students');
+    },
+  });
+}
+
+export function useRestoreStudent() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (studentId: number) => {
+      await api.post(`/api/students/${studentId}/restore`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['students'] });
+      toast.success('Student restored to the class list');
+    },
+    onError: (error) => {
+      handleApiError(error, 'Failed to restore student');
+    },
+  });
+}
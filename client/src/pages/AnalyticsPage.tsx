@@ -0,0 +1,483 @@
+/**
+ * AnalyticsPage Component
+ * Curriculum coverage heatmap, strand balance and student engagement for the
+ * teacher's class, with CSV/Excel/PDF export
+ */
+
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, Download, RefreshCw } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Label } from '@/components/ui/Label';
+import { Badge } from '@/components/ui/Badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useCurriculumExpectations } from '../hooks/useETFOPlanning';
+import {
+  useCurriculumHeatmap,
+  useExportAnalytics,
+  useRefreshAnalytics,
+  useStrandBalance,
+  useStudentEngagement,
+  type AnalyticsFilters,
+  type BalanceInterval,
+  type CoverageViewMode,
+  type EngagementLevel,
+} from '../hooks/useAnalytics';
+import type { ExportOptions } from '../services/analytics/exportService';
+
+const selectClassName =
+  'rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500';
+
+const EXPORT_FORMATS: { format: ExportOptions['format']; label: string }[] = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'xlsx', label: 'Excel' },
+  { format: 'pdf', label: 'PDF' },
+];
+
+const LEVEL_BADGES: Record<
+  EngagementLevel,
+  { label: string; variant: 'default' | 'outline' | 'secondary' | 'destructive' }
+> = {
+  high: { label: 'High', variant: 'default' },
+  typical: { label: 'Typical', variant: 'secondary' },
+  low: { label: 'Low', variant: 'outline' },
+  none: { label: 'No activity', variant: 'destructive' },
+};
+
+const COVERAGE_LABELS: Record<string, string> = {
+  introduced: 'Introduced',
+  developing: 'Developing',
+  consolidated: 'Consolidated',
+};
+
+function heatColor(count: number) {
+  if (count === 0) return 'bg-gray-100';
+  if (count === 1) return 'bg-green-200';
+  if (count === 2) return 'bg-green-400';
+  return 'bg-green-600';
+}
+
+function shortWeek(week: string) {
+  return new Date(`${week}T00:00:00`).toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+function ExportButtons({
+  type,
+  filters,
+}: {
+  type: ExportOptions['type'];
+  filters: AnalyticsFilters;
+}) {
+  const exportMutation = useExportAnalytics();
+
+  return (
+    <div className="flex gap-2">
+      {EXPORT_FORMATS.map(({ format, label }) => (
+        <Button
+          key={format}
+          size="sm"
+          variant="outline"
+          onClick={() => exportMutation.mutate({ type, format, filters })}
+          disabled={exportMutation.isPending}
+        >
+          <Download className="w-4 h-4 mr-1" />
+          {label}
+        </Button>
+      ))}
+    </div>
+  );
+}
+
+function CoverageHeatmap({ filters }: { filters: AnalyticsFilters }) {
+  const { data: heatmap, isLoading } = useCurriculumHeatmap(filters);
+
+  if (isLoading) return <p className="text-gray-500">Loading coverage...</p>;
+  if (!heatmap || heatmap.outcomes.length === 0) {
+    return (
+      <p className="text-gray-500">
+        No expectations to show. Link expectations to lesson plans or daybook entries, or choose a
+        subject and grade.
+      </p>
+    );
+  }
+
+  const { metadata } = heatmap;
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-6 text-sm">
+        <div>
+          <span className="text-2xl font-semibold">{metadata.coveragePercentage}%</span>
+          <span className="text-gray-500 ml-2">
+            of expectations {metadata.viewMode === 'taught' ? 'taught' : 'planned'}
+          </span>
+        </div>
+        <div className="text-gray-500 self-end">
+          {metadata.coveredOutcomes} of {metadata.totalOutcomes} expectations over{' '}
+          {metadata.totalWeeks} weeks
+        </div>
+      </div>
+
+      <div className="overflow-x-auto border rounded-md">
+        <table className="text-xs border-collapse">
+          <thead>
+            <tr>
+              <th className="sticky left-0 bg-white text-left px-2 py-1 min-w-[14rem]">
+                Expectation
+              </th>
+              {heatmap.weeks.map((week) => (
+                <th key={week} className="px-0.5 py-1 font-normal text-gray-500">
+                  <div className="w-5 -rotate-90 whitespace-nowrap origin-center">
+                    {shortWeek(week)}
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {heatmap.outcomes.map((outcome) => {
+              const row = heatmap.grid[outcome.id] ?? {};
+              const coverage = heatmap.coverage[outcome.id];
+              return (
+                <tr key={outcome.id}>
+                  <td
+                    className="sticky left-0 bg-white px-2 py-0.5 whitespace-nowrap"
+                    title={outcome.description}
+                  >
+                    <span className="font-medium">{outcome.code}</span>
+                    <span className="text-gray-500 ml-2">{outcome.strand}</span>
+                    {coverage && (
+                      <span className="text-indigo-600 ml-2">
+                        {COVERAGE_LABELS[coverage] ?? coverage}
+                      </span>
+                    )}
+                  </td>
+                  {heatmap.weeks.map((week) => (
+                    <td key={week} className="p-0.5">
+                      <div
+                        className={`w-5 h-5 rounded-sm ${heatColor(row[week] ?? 0)}`}
+                        title={`${outcome.code}, week of ${week}: ${row[week] ?? 0}`}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function StrandBalanceView({ filters }: { filters: AnalyticsFilters }) {
+  const { data: balance, isLoading } = useStrandBalance(filters);
+
+  if (isLoading) return <p className="text-gray-500">Loading strand balance...</p>;
+  if (!balance || balance.totals.length === 0) {
+    return (
+      <p className="text-gray-500">
+        No lesson time linked to curriculum expectations in this range.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        {balance.totals.map((total) => (
+          <div key={total.strand}>
+            <div className="flex justify-between text-sm">
+              <span>{total.strand}</span>
+              <span className="text-gray-500">
+                {total.minutes} min · {total.lessons} lessons · {total.percentage}%
+              </span>
+            </div>
+            <div className="h-2 bg-gray-100 rounded">
+              <div
+                className="h-2 bg-indigo-500 rounded"
+                style={{ width: `${total.percentage}%` }}
+              />
+            </div>
+          </div>
+        ))}
+        {balance.unlinkedMinutes > 0 && (
+          <p className="text-sm text-gray-500">
+            {balance.unlinkedMinutes} lesson minutes are not linked to any expectation.
+          </p>
+        )}
+      </div>
+
+      <div className="overflow-x-auto border rounded-md">
+        <table className="text-sm w-full">
+          <thead>
+            <tr className="bg-gray-50">
+              <th className="text-left px-3 py-2">
+                {balance.interval === 'week' ? 'Week of' : 'Month'}
+              </th>
+              {balance.strands.map((strand) => (
+                <th key={strand} className="text-right px-3 py-2 font-medium">
+                  {strand}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {balance.periods.map((period) => (
+              <tr key={period.period} className="border-t">
+                <td className="px-3 py-1.5">{period.period}</td>
+                {balance.strands.map((strand) => (
+                  <td key={strand} className="text-right px-3 py-1.5 text-gray-700">
+                    {period.minutes[strand] ?? '–'}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function EngagementView({ filters }: { filters: AnalyticsFilters }) {
+  const { data: engagement, isLoading } = useStudentEngagement(filters);
+
+  if (isLoading) return <p className="text-gray-500">Loading engagement...</p>;
+  if (!engagement || engagement.students.length === 0) {
+    return <p className="text-gray-500">No students yet.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-500">
+        Class average: {engagement.classAveragePerWeek} reflections and artifacts per week
+      </p>
+      <div className="overflow-x-auto border rounded-md">
+        <table className="text-sm w-full">
+          <thead>
+            <tr className="bg-gray-50 text-left">
+              <th className="px-3 py-2">Student</th>
+              <th className="px-3 py-2 text-right">Reflections</th>
+              <th className="px-3 py-2 text-right">Artifacts</th>
+              <th className="px-3 py-2 text-right">Per week</th>
+              <th className="px-3 py-2">Level</th>
+              <th className="px-3 py-2">Moods</th>
+              <th className="px-3 py-2">Last activity</th>
+            </tr>
+          </thead>
+          <tbody>
+            {engagement.students.map((student) => (
+              <tr key={student.studentId} className="border-t">
+                <td className="px-3 py-1.5">
+                  <div className="flex items-center gap-2">
+                    {student.name}
+                    {student.needsAttention && (
+                      <span title="No reflection or artifact in the last two weeks">
+                        <AlertTriangle className="w-4 h-4 text-amber-500" />
+                      </span>
+                    )}
+                  </div>
+                </td>
+                <td className="px-3 py-1.5 text-right">{student.reflections}</td>
+                <td className="px-3 py-1.5 text-right">{student.artifacts}</td>
+                <td className="px-3 py-1.5 text-right">{student.activityPerWeek}</td>
+                <td className="px-3 py-1.5">
+                  <Badge variant={LEVEL_BADGES[student.level].variant}>
+                    {LEVEL_BADGES[student.level].label}
+                  </Badge>
+                </td>
+                <td className="px-3 py-1.5">
+                  {Object.entries(student.moods)
+                    .map(([emoji, count]) => (count > 1 ? `${emoji}×${count}` : emoji))
+                    .join(' ')}
+                </td>
+                <td className="px-3 py-1.5 text-gray-500">
+                  {student.lastActivity
+                    ? new Date(student.lastActivity).toLocaleDateString()
+                    : 'Never'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export function AnalyticsPage() {
+  const [subject, setSubject] = useState('');
+  const [grade, setGrade] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [viewMode, setViewMode] = useState<CoverageViewMode>('planned');
+  const [interval, setBalanceInterval] = useState<BalanceInterval>('week');
+  const refreshMutation = useRefreshAnalytics();
+
+  const { data: expectations = [] } = useCurriculumExpectations();
+  const { subjects, grades } = useMemo(
+    () => ({
+      subjects: [...new Set(expectations.map((e) => e.subject))].sort(),
+      grades: [...new Set(expectations.map((e) => e.grade))].sort((a, b) => a - b),
+    }),
+    [expectations],
+  );
+
+  // Empty dates fall back to the current school year on the server
+  const range: AnalyticsFilters = { from: from || undefined, to: to || undefined };
+  const scope: AnalyticsFilters = {
+    ...range,
+    subject: subject || undefined,
+    grade: grade ? Number(grade) : undefined,
+  };
+  const heatmapFilters = { ...scope, viewMode };
+  const balanceFilters = { ...scope, interval };
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-7xl">
+      <div className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Analytics</h1>
+          <p className="text-gray-600">
+            Curriculum coverage, strand balance and student engagement for the school year.
+          </p>
+        </div>
+        <Button
+          variant="secondary"
+          onClick={() => refreshMutation.mutate()}
+          loading={refreshMutation.isPending}
+        >
+          <RefreshCw className="w-4 h-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      <Card className="p-4 mb-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div>
+            <Label htmlFor="analytics-subject">Subject</Label>
+            <select
+              id="analytics-subject"
+              value={subject}
+              onChange={(e) => setSubject(e.target.value)}
+              className={`${selectClassName} block w-full`}
+            >
+              <option value="">All subjects</option>
+              {subjects.map((s) => (
+                <option key={s} value={s}>
+                  {s}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <Label htmlFor="analytics-grade">Grade</Label>
+            <select
+              id="analytics-grade"
+              value={grade}
+              onChange={(e) => setGrade(e.target.value)}
+              className={`${selectClassName} block w-full`}
+            >
+              <option value="">All grades</option>
+              {grades.map((g) => (
+                <option key={g} value={g}>
+                  Grade {g}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <Label htmlFor="analytics-from">From</Label>
+            <Input
+              id="analytics-from"
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="analytics-to">To</Label>
+            <Input
+              id="analytics-to"
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+            />
+          </div>
+        </div>
+      </Card>
+
+      <Tabs defaultValue="coverage">
+        <TabsList>
+          <TabsTrigger value="coverage">Curriculum coverage</TabsTrigger>
+          <TabsTrigger value="balance">Strand balance</TabsTrigger>
+          <TabsTrigger value="engagement">Student engagement</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="coverage">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between gap-4">
+              <CardTitle>Coverage by week</CardTitle>
+              <div className="flex items-center gap-3">
+                <select
+                  aria-label="Coverage source"
+                  value={viewMode}
+                  onChange={(e) => setViewMode(e.target.value as CoverageViewMode)}
+                  className={selectClassName}
+                >
+                  <option value="planned">Planned (lesson plans)</option>
+                  <option value="taught">Taught (daybook)</option>
+                </select>
+                <ExportButtons type="curriculum-heatmap" filters={heatmapFilters} />
+              </div>
+            </CardHeader>
+            <CardContent>
+              <CoverageHeatmap filters={heatmapFilters} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="balance">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between gap-4">
+              <CardTitle>Time per strand</CardTitle>
+              <div className="flex items-center gap-3">
+                <select
+                  aria-label="Group by"
+                  value={interval}
+                  onChange={(e) => setBalanceInterval(e.target.value as BalanceInterval)}
+                  className={selectClassName}
+                >
+                  <option value="week">By week</option>
+                  <option value="month">By month</option>
+                </select>
+                <ExportButtons type="strand-balance" filters={balanceFilters} />
+              </div>
+            </CardHeader>
+            <CardContent>
+              <StrandBalanceView filters={balanceFilters} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="engagement">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between gap-4">
+              <CardTitle>Reflections and artifacts</CardTitle>
+              <ExportButtons type="student-engagement" filters={range} />
+            </CardHeader>
+            <CardContent>
+              <EngagementView filters={range} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
+
+export default AnalyticsPage;
@@ -1,5 +1,6 @@
 import React, { useState, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
 import { useDropzone } from 'react-dropzone';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/Button';
@@ -20,6 +21,8 @@ import { Textarea } from '@/components/ui/Textarea';
 import { Upload, CheckCircle, AlertCircle, Sparkles, Edit2, Trash2 } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
 import { api } from '../api';
+import { frameworkLabel, useCurriculumFrameworks } from '../hooks/useCurriculumFrameworks';
+import CurriculumPackagePanel from '@/components/planning/CurriculumPackagePanel';
 
 interface ParsedExpectation {
   code: string;
@@ -43,6 +46,12 @@ interface ImportSession {
   originalFilename: string;
   parsedSubjects: ParsedSubject[];
   errors: string[];
+  isPreset?: boolean;
+}
+
+interface CurriculumPreset {
+  id: string;
+  name: string;
 }
 
 export default function CurriculumImportPage() {
@@ -53,6 +62,15 @@ export default function CurriculumImportPage() {
   const [selectedPreset, setSelectedPreset] = useState<string>('');
   const [editingExpectation, setEditingExpectation] = useState<ParsedExpectation | null>(null);
   const [parseProgress, setParseProgress] = useState(0);
+  const [frameworkId, setFrameworkId] = useState('');
+  const { data: frameworks = [] } = useCurriculumFrameworks();
+  const { data: presets = [] } = useQuery({
+    queryKey: ['curriculum-presets'],
+    queryFn: async () => {
+      const response = await api.get('/api/curriculum-import/presets');
+      return response.data as CurriculumPreset[];
+    },
+  });
 
   const onDrop = useCallback(
     async (acceptedFiles: File[]) => {
@@ -66,7 +84,7 @@ export default function CurriculumImportPage() {
         formData.append('file', file);
 
         // Upload file
-        const uploadResponse = await api.post('/api/curriculum/import/upload', formData, {
+        const uploadResponse = await api.post('/api/curriculum-import/upload', formData, {
           headers: {
             'Content-Type': 'multipart/form-data',
           },
@@ -94,7 +112,7 @@ export default function CurriculumImportPage() {
           });
         }, 500);
 
-        const parseResponse = await api.post('/api/curriculum/import/parse', {
+        const parseResponse = await api.post('/api/curriculum-import/parse', {
           sessionId,
           useAiExtraction: true,
         });
@@ -147,16 +165,17 @@ export default function CurriculumImportPage() {
 
     setIsUploading(true);
     try {
-      const response = await api.post('/api/curriculum/import/import-preset', {
+      const response = await api.post('/api/curriculum-import/import-preset', {
         presetId,
       });
 
       setImportSession({
         id: response.data.sessionId,
         status: 'parsed',
-        originalFilename: `${presetId} (Preset)`,
+        originalFilename: `${presets.find((p) => p.id === presetId)?.name ?? presetId} (Preset)`,
         parsedSubjects: response.data.subjects || [],
         errors: [],
+        isPreset: true,
       });
 
       toast({
@@ -233,7 +252,9 @@ export default function CurriculumImportPage() {
     if (!importSession) return;
 
     try {
-      await api.post(`/api/curriculum/import/${importSession.id}`);
+      await api.post(`/api/curriculum-import/${importSession.id}`, {
+        frameworkId: frameworkId || undefined,
+      });
 
       toast({
         title: 'Success',
@@ -282,9 +303,10 @@ export default function CurriculumImportPage() {
 
       {!importSession && (
         <Tabs defaultValue="upload" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="upload">Upload Document</TabsTrigger>
             <TabsTrigger value="preset">Use Preset</TabsTrigger>
+            <TabsTrigger value="package">Curriculum Package</TabsTrigger>
           </TabsList>
 
           <TabsContent value="upload">
@@ -348,13 +370,11 @@ export default function CurriculumImportPage() {
                       <SelectValue placeholder="Select a curriculum" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="pei-grade1-french">
-                        PEI Grade 1 French Immersion (English School Board)
-                      </SelectItem>
-                      <SelectItem value="ontario-grade1-english">
-                        Ontario Grade 1 English
-                      </SelectItem>
-                      <SelectItem value="bc-grade1-core">BC Grade 1 Core Curriculum</SelectItem>
+                      {presets.map((preset) => (
+                        <SelectItem key={preset.id} value={preset.id}>
+                          {preset.name}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -369,6 +389,10 @@ export default function CurriculumImportPage() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="package">
+            <CurriculumPackagePanel />
+          </TabsContent>
         </Tabs>
       )}
 
@@ -487,6 +511,24 @@ export default function CurriculumImportPage() {
                     This will create {totalExpectations} curriculum expectations across{' '}
                     {importSession.parsedSubjects.length} subjects
                   </p>
+                  {/* Presets know their framework; uploaded documents can be assigned one */}
+                  {!importSession.isPreset && (
+                    <div className="mt-3 space-y-1">
+                      <Label>Curriculum framework</Label>
+                      <Select value={frameworkId} onValueChange={setFrameworkId}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Not linked to a framework" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {frameworks.map((framework) => (
+                            <SelectItem key={framework.id} value={framework.id}>
+                              {frameworkLabel(framework)} – {framework.title}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
                 </div>
                 <div className="flex gap-2">
                   <Button variant="outline" onClick={() => setImportSession(null)}>
@@ -38,6 +38,8 @@ import {
 import { useToast } from '@/components/ui/use-toast';
 import { useReactToPrint } from 'react-to-print';
 import { BlankTemplateQuickActions } from '../components/printing/BlankTemplatePrinter';
+import WeekMaterials from '../components/weeks/WeekMaterials';
+import DownloadPrintablesButton from '../components/DownloadPrintablesButton';
 
 interface DayEntryProps {
   date: Date;
@@ -550,6 +552,22 @@ export default function DaybookPage() {
         </Card>
       </div>
 
+      {/* Materials */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Materials & Printables</CardTitle>
+              <CardDescription>Prep checklist from this week&apos;s lesson plans</CardDescription>
+            </div>
+            <DownloadPrintablesButton weekStart={format(weekStart, 'yyyy-MM-dd')} />
+          </div>
+        </CardHeader>
+        <CardContent>
+          <WeekMaterials weekStart={format(weekStart, 'yyyy-MM-dd')} />
+        </CardContent>
+      </Card>
+
       {/* Daily Entries */}
       <div className="space-y-4" ref={printRef}>
         {weekDays.map((day) => (
@@ -32,6 +32,7 @@ import {
   RefreshCw,
   BookTemplate,
   Share2,
+  ClipboardList,
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { Checkbox } from '../components/ui/checkbox';
@@ -62,7 +63,8 @@ import { MobileOptimizedForm, CollapsibleSection } from '../components/ui/Mobile
 import { generateLessonPlanHTML, printHTML, downloadHTML } from '../utils/printUtils';
 import { BlankTemplateQuickActions } from '../components/printing/BlankTemplatePrinter';
 import { SafeHtmlRenderer } from '../utils/sanitization';
-import { SharePlanModal } from '../components/collaboration';
+import { SharePlanModal, PlanHistoryPanel } from '../components/collaboration';
+import RecordingSheet from '../components/lessonPlans/RecordingSheet';
 
 export default function ETFOLessonPlanPage() {
   const { unitId, lessonId } = useParams();
@@ -73,13 +75,16 @@ export default function ETFOLessonPlanPage() {
   const [isTemplateModalOpen, setIsTemplateModalOpen] = useState(false);
   const [selectedTemplate, setSelectedTemplate] = useState<PlanTemplate | null>(null);
   const [isShareModalOpen, setIsShareModalOpen] = useState(false);
+  const [isRecordingSheetOpen, setIsRecordingSheetOpen] = useState(false);
 
   // Fetch data
   const { data: unitPlan } = useUnitPlan(unitId || '');
   const { data: lessonPlans = [], isLoading: isLoadingLessons } = useETFOLessonPlans(
     unitId ? { unitPlanId: unitId } : {},
   );
-  const { data: selectedLesson } = useETFOLessonPlan(lessonId || '');
+  const { data: selectedLesson, refetch: refetchSelectedLesson } = useETFOLessonPlan(
+    lessonId || '',
+  );
 
   // Mutations
   const createLesson = useCreateETFOLessonPlan();
@@ -643,6 +648,20 @@ export default function ETFOLessonPlanPage() {
                 {selectedLesson.assessmentNotes && (
                   <p className="text-gray-700 mt-2">{selectedLesson.assessmentNotes}</p>
                 )}
+                {selectedLesson.assessmentType && (
+                  <div className="mt-3">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setIsRecordingSheetOpen(!isRecordingSheetOpen)}
+                      className="flex items-center gap-2 mb-3"
+                    >
+                      <ClipboardList className="h-4 w-4" />
+                      {isRecordingSheetOpen ? 'Hide recording sheet' : 'Recording sheet'}
+                    </Button>
+                    {isRecordingSheetOpen && <RecordingSheet lessonPlanId={selectedLesson.id} />}
+                  </div>
+                )}
               </div>
             )}
 
@@ -723,6 +742,13 @@ export default function ETFOLessonPlanPage() {
                 </div>
               </div>
             )}
+
+            {/* Version History */}
+            <PlanHistoryPanel
+              planType="lesson"
+              planId={selectedLesson.id}
+              onRestored={() => refetchSelectedLesson()}
+            />
           </div>
         </div>
       </div>
@@ -0,0 +1,61 @@
+/**
+ * ForgotPasswordPage Component
+ * Requests an emailed password reset link
+ */
+
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Label } from '@/components/ui/Label';
+import { useForgotPassword } from '../hooks/useAccount';
+
+export default function ForgotPasswordPage() {
+  const [email, setEmail] = useState('');
+  const forgotPassword = useForgotPassword();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    forgotPassword.mutate(email);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4">
+      <Card className="max-w-md w-full p-8">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Reset your password</h1>
+        {forgotPassword.isSuccess ? (
+          <p className="text-gray-600">
+            If an account exists for {email}, we have emailed it a link to choose a new password.
+            The link works for one hour.
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Enter the email address you sign in with and we will send you a reset link.
+            </p>
+            <div>
+              <Label htmlFor="reset-email">Email address</Label>
+              <Input
+                id="reset-email"
+                type="email"
+                autoComplete="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+              />
+            </div>
+            <Button type="submit" className="w-full" loading={forgotPassword.isPending}>
+              Send reset link
+            </Button>
+          </form>
+        )}
+        <p className="text-sm text-center mt-6">
+          <Link to="/login" className="text-indigo-600 hover:text-indigo-500">
+            Back to sign in
+          </Link>
+        </p>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+/**
+ * GuardianPortalPage Component
+ * What a child's teacher has shared with the family: parent summaries,
+ * newsletters and work samples, shown in the guardian's preferred language
+ */
+
+import React, { useState } from 'react';
+import { Navigate, useNavigate } from 'react-router-dom';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { SafeHtmlRenderer } from '../utils/sanitization';
+import { clearPortalSession, getPortalSession } from '../services/guardianPortalApi';
+import { usePortalProfile, usePortalStudent, type PortalEntry } from '../hooks/useGuardianPortal';
+import type { GuardianLanguage } from '../hooks/useGuardians';
+
+const STRINGS = {
+  en: {
+    title: 'Family portal',
+    welcome: 'Welcome',
+    grade: 'Grade',
+    signOut: 'Sign out',
+    loading: 'Loading...',
+    nothingShared: 'Nothing has been shared yet.',
+    noChildren: 'There is nothing to show for this address.',
+    summary: 'Summary',
+    newsletter: 'Newsletter',
+    artifact: 'Work sample',
+    openFile: 'Open file',
+  },
+  fr: {
+    title: 'Portail des familles',
+    welcome: 'Bienvenue',
+    grade: 'Année',
+    signOut: 'Se déconnecter',
+    loading: 'Chargement...',
+    nothingShared: 'Rien n’a encore été partagé.',
+    noChildren: 'Il n’y a rien à afficher pour cette adresse.',
+    summary: 'Résumé',
+    newsletter: 'Bulletin',
+    artifact: 'Travail d’élève',
+    openFile: 'Ouvrir le fichier',
+  },
+} as const;
+
+type PortalStrings = (typeof STRINGS)[GuardianLanguage];
+
+function formatRange(from: string, to: string, language: GuardianLanguage) {
+  const locale = language === 'fr' ? 'fr-CA' : 'en-CA';
+  return `${new Date(from).toLocaleDateString(locale)} – ${new Date(to).toLocaleDateString(locale)}`;
+}
+
+function EntryCard({
+  entry,
+  language,
+  strings,
+}: {
+  entry: PortalEntry;
+  language: GuardianLanguage;
+  strings: PortalStrings;
+}) {
+  if (entry.type === 'parent-summary') {
+    return (
+      <Card className="p-4">
+        <div className="flex items-center gap-2 mb-2">
+          <Badge variant="outline">{strings.summary}</Badge>
+          <span className="font-medium">{formatRange(entry.dateFrom, entry.dateTo, language)}</span>
+        </div>
+        <p className="text-gray-700 whitespace-pre-line">{entry.content}</p>
+      </Card>
+    );
+  }
+
+  if (entry.type === 'newsletter') {
+    return (
+      <Card className="p-4">
+        <div className="flex items-center gap-2 mb-1">
+          <Badge variant="outline">{strings.newsletter}</Badge>
+          <span className="font-medium">{entry.title}</span>
+        </div>
+        <div className="text-sm text-gray-500 mb-3">
+          {formatRange(entry.dateFrom, entry.dateTo, language)}
+        </div>
+        <div className="space-y-3">
+          {entry.sections.map((section, index) => (
+            <div key={index}>
+              <h4 className="font-semibold">{section.title}</h4>
+              <SafeHtmlRenderer html={section.content} className="text-gray-700" />
+            </div>
+          ))}
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-center gap-2 mb-1">
+        <Badge variant="outline">{strings.artifact}</Badge>
+        <span className="font-medium">{entry.title}</span>
+      </div>
+      {entry.description && <p className="text-gray-700">{entry.description}</p>}
+      {entry.fileUrl && (
+        <a
+          href={entry.fileUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-sm text-indigo-600 hover:text-indigo-500"
+        >
+          {strings.openFile}
+        </a>
+      )}
+    </Card>
+  );
+}
+
+function ChildEntries({ studentId, strings }: { studentId: number; strings: PortalStrings }) {
+  const { data, isLoading } = usePortalStudent(studentId);
+
+  if (isLoading) {
+    return <p className="text-gray-500">{strings.loading}</p>;
+  }
+  if (!data || data.entries.length === 0) {
+    return <p className="text-gray-500">{strings.nothingShared}</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {data.entries.map((entry) => (
+        <EntryCard
+          key={`${entry.type}-${entry.id}`}
+          entry={entry}
+          language={data.child.language}
+          strings={STRINGS[data.child.language]}
+        />
+      ))}
+    </div>
+  );
+}
+
+export function GuardianPortalPage() {
+  const navigate = useNavigate();
+  const hasSession = !!getPortalSession();
+  const { data: profile, isLoading, isError } = usePortalProfile(hasSession);
+  const [selectedStudentId, setSelectedStudentId] = useState<number | null>(null);
+
+  if (!hasSession || isError) {
+    return <Navigate to="/portal/sign-in" replace />;
+  }
+
+  const strings = STRINGS[profile?.language ?? 'en'];
+  const children = profile?.children ?? [];
+  const studentId = selectedStudentId ?? children[0]?.studentId;
+
+  const handleSignOut = () => {
+    clearPortalSession();
+    navigate('/portal/sign-in', { replace: true });
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-3xl">
+      <div className="flex items-start justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">{strings.title}</h1>
+          {profile && (
+            <p className="text-gray-600">
+              {strings.welcome}, {profile.name}
+            </p>
+          )}
+        </div>
+        <Button variant="outline" size="sm" onClick={handleSignOut}>
+          {strings.signOut}
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-gray-500">{strings.loading}</p>
+      ) : children.length === 0 ? (
+        <p className="text-gray-500">{strings.noChildren}</p>
+      ) : (
+        <>
+          {children.length > 1 && (
+            <div className="flex gap-2 mb-6">
+              {children.map((child) => (
+                <Button
+                  key={child.studentId}
+                  size="sm"
+                  variant={child.studentId === studentId ? 'primary' : 'outline'}
+                  onClick={() => setSelectedStudentId(child.studentId)}
+                >
+                  {child.firstName} · {strings.grade} {child.grade}
+                </Button>
+              ))}
+            </div>
+          )}
+          {studentId && <ChildEntries key={studentId} studentId={studentId} strings={strings} />}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default GuardianPortalPage;
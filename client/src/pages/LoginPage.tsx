@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 
 export default function LoginPage() {
@@ -159,6 +159,12 @@ export default function LoginPage() {
             </div>
           </div>
 
+          <div className="flex justify-end text-sm">
+            <Link to="/forgot-password" className="text-indigo-600 hover:text-indigo-500">
+              Forgot your password?
+            </Link>
+          </div>
+
           <div>
             <div>
               <button
@@ -7,6 +7,17 @@ import { Button } from '../components/ui/Button';
 import { useAIPlanningAssistant, AISuggestion } from '../hooks/useAIPlanningAssistant';
 import AISuggestionPanel from '../components/planning/AISuggestionPanel';
 import { BlankTemplateQuickActions } from '../components/printing/BlankTemplatePrinter';
+import {
+  academicYearStart,
+  formatSchoolDate,
+  termWeeks,
+  useSchoolYear,
+} from '../hooks/useSchoolCalendar';
+import {
+  CurriculumFramework,
+  frameworkLabel,
+  useCurriculumFrameworks,
+} from '../hooks/useCurriculumFrameworks';
 
 interface LongRangePlan {
   id: string;
@@ -16,6 +27,8 @@ interface LongRangePlan {
   term?: string;
   grade: number;
   subject: string;
+  frameworkId?: string | null;
+  framework?: CurriculumFramework | null;
   description?: string;
   goals?: string;
   themes?: string[];
@@ -45,6 +58,7 @@ export default function LongRangePlanPage() {
   const [aiGoalSuggestions, setAiGoalSuggestions] = useState<AISuggestion | null>(null);
 
   const { generateLongRangeGoals, isGenerating } = useAIPlanningAssistant();
+  const { data: schoolYear } = useSchoolYear(academicYearStart(selectedYear));
 
   // Fetch long-range plans
   const { data: plans = [], isLoading } = useQuery({
@@ -72,6 +86,7 @@ export default function LongRangePlanPage() {
     title: '',
     subject: '',
     grade: 1,
+    frameworkId: '',
     term: 'Full Year',
     description: '',
     goals: '',
@@ -83,10 +98,16 @@ export default function LongRangePlanPage() {
     professionalGoals: '',
   });
 
+  const { data: frameworks = [] } = useCurriculumFrameworks({ grade: formData.grade });
+
+  // The selected term's dates, or the whole school year for "Full Year"
+  const planSpan = schoolYear?.terms.find((t) => t.name === formData.term) ?? schoolYear;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     createPlan.mutate({
       ...formData,
+      frameworkId: formData.frameworkId || null,
       academicYear: selectedYear,
     });
   };
@@ -194,6 +215,9 @@ export default function LongRangePlanPage() {
                     <p className="text-sm text-gray-600 mt-1">
                       {plan.subject} - Grade {plan.grade}
                     </p>
+                    {plan.framework && (
+                      <p className="text-xs text-gray-500">{frameworkLabel(plan.framework)}</p>
+                    )}
                   </div>
                   <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">
                     {plan.term || 'Full Year'}
@@ -292,6 +316,31 @@ export default function LongRangePlanPage() {
               </div>
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Curriculum Framework
+              </label>
+              <select
+                value={formData.frameworkId}
+                onChange={(e) => {
+                  const framework = frameworks.find((f) => f.id === e.target.value);
+                  setFormData({
+                    ...formData,
+                    frameworkId: e.target.value,
+                    subject: formData.subject || framework?.subject || '',
+                  });
+                }}
+                className="w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+              >
+                <option value="">Not linked to a framework</option>
+                {frameworks.map((framework) => (
+                  <option key={framework.id} value={framework.id}>
+                    {frameworkLabel(framework)} – {framework.title}
+                  </option>
+                ))}
+              </select>
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Term</label>
               <select
@@ -300,10 +349,11 @@ export default function LongRangePlanPage() {
                 className="w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
               >
                 <option value="Full Year">Full Year</option>
-                <option value="Term 1">Term 1 (Sep-Jan)</option>
-                <option value="Term 2">Term 2 (Feb-Jun)</option>
-                <option value="Semester 1">Semester 1</option>
-                <option value="Semester 2">Semester 2</option>
+                {schoolYear?.terms.map((term) => (
+                  <option key={term.name} value={term.name}>
+                    {term.name} ({formatSchoolDate(term.start)} – {formatSchoolDate(term.end)})
+                  </option>
+                ))}
               </select>
             </div>
 
@@ -348,7 +398,7 @@ export default function LongRangePlanPage() {
                   const result = await generateLongRangeGoals.mutateAsync({
                     subject: formData.subject,
                     grade: formData.grade,
-                    termLength: formData.term === 'Full Year' ? 40 : 20,
+                    termLength: planSpan ? termWeeks(planSpan) : 40,
                   });
                   setAiGoalSuggestions(result);
                 }}
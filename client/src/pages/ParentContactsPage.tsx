@@ -0,0 +1,486 @@
+/**
+ * ParentContactsPage Component
+ * Parents and guardians of each student, with their language and contact
+ * preferences, sending of saved parent summaries to them, and what is shared
+ * on the family portal
+ */
+
+import React, { useState } from 'react';
+import { Globe, Mail, Pencil, Plus, ShieldAlert, Trash2, Users } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Label } from '@/components/ui/Label';
+import { Textarea } from '@/components/ui/Textarea';
+import { Badge } from '@/components/ui/Badge';
+import EmailDeliveryStatus from '../components/EmailDeliveryStatus';
+import { useStudent, useStudents } from '../api';
+import {
+  GUARDIAN_CONTACT_METHODS,
+  useDeleteGuardian,
+  useSaveGuardian,
+  useSendParentSummary,
+  useSendPortalLink,
+  useSetPortalItemPublished,
+  useStudentGuardians,
+  useStudentPortal,
+  type Guardian,
+  type GuardianInput,
+  type PortalItemType,
+} from '../hooks/useGuardians';
+
+const selectClassName =
+  'rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500';
+
+const emptyGuardian: GuardianInput = {
+  name: '',
+  relationship: '',
+  email: '',
+  phone: '',
+  preferredLanguage: 'en',
+  contactMethod: 'email',
+  isPrimary: false,
+  receivesCommunications: true,
+  restrictionNotes: '',
+};
+
+const PORTAL_ITEM_LABELS: Record<PortalItemType, string> = {
+  'parent-summary': 'Summary',
+  newsletter: 'Newsletter',
+  artifact: 'Work sample',
+};
+
+function GuardianForm({
+  studentId,
+  guardian,
+  onDone,
+}: {
+  studentId: number;
+  guardian?: Guardian;
+  onDone: () => void;
+}) {
+  const [form, setForm] = useState<GuardianInput>(guardian ?? emptyGuardian);
+  const saveMutation = useSaveGuardian();
+
+  const update = (updates: Partial<GuardianInput>) => setForm({ ...form, ...updates });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    // Blank optional fields are cleared rather than saved as empty strings
+    const blankToNull = (value?: string | null) => (value?.trim() ? value.trim() : null);
+    const data = {
+      ...form,
+      relationship: blankToNull(form.relationship),
+      email: blankToNull(form.email),
+      phone: blankToNull(form.phone),
+      restrictionNotes: blankToNull(form.restrictionNotes),
+    };
+    await saveMutation.mutateAsync({
+      studentId,
+      guardianId: guardian?.id,
+      // New contacts omit blank fields entirely
+      data: guardian
+        ? data
+        : Object.fromEntries(Object.entries(data).filter(([, value]) => value !== null)),
+    });
+    onDone();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 border rounded-lg p-4 bg-gray-50">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="guardian-name">Name</Label>
+          <Input
+            id="guardian-name"
+            value={form.name}
+            onChange={(e) => update({ name: e.target.value })}
+            required
+          />
+        </div>
+        <div>
+          <Label htmlFor="guardian-relationship">Relationship</Label>
+          <Input
+            id="guardian-relationship"
+            value={form.relationship ?? ''}
+            onChange={(e) => update({ relationship: e.target.value })}
+            placeholder="Mother, father, guardian..."
+          />
+        </div>
+        <div>
+          <Label htmlFor="guardian-email">Email</Label>
+          <Input
+            id="guardian-email"
+            type="email"
+            value={form.email ?? ''}
+            onChange={(e) => update({ email: e.target.value })}
+          />
+        </div>
+        <div>
+          <Label htmlFor="guardian-phone">Phone</Label>
+          <Input
+            id="guardian-phone"
+            value={form.phone ?? ''}
+            onChange={(e) => update({ phone: e.target.value })}
+          />
+        </div>
+        <div>
+          <Label htmlFor="guardian-language">Preferred language</Label>
+          <select
+            id="guardian-language"
+            value={form.preferredLanguage}
+            onChange={(e) =>
+              update({ preferredLanguage: e.target.value as GuardianInput['preferredLanguage'] })
+            }
+            className={`${selectClassName} block w-full`}
+          >
+            <option value="en">English</option>
+            <option value="fr">Français</option>
+          </select>
+        </div>
+        <div>
+          <Label htmlFor="guardian-contact-method">Contact by</Label>
+          <select
+            id="guardian-contact-method"
+            value={form.contactMethod}
+            onChange={(e) =>
+              update({ contactMethod: e.target.value as GuardianInput['contactMethod'] })
+            }
+            className={`${selectClassName} block w-full`}
+          >
+            {GUARDIAN_CONTACT_METHODS.map((method) => (
+              <option key={method} value={method}>
+                {method.charAt(0).toUpperCase() + method.slice(1)}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-6 text-sm">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={form.isPrimary}
+            onChange={(e) => update({ isPrimary: e.target.checked })}
+            className="rounded"
+          />
+          Primary contact
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={!form.receivesCommunications}
+            onChange={(e) => update({ receivesCommunications: !e.target.checked })}
+            className="rounded"
+          />
+          Do not send communications (custody or court restriction)
+        </label>
+      </div>
+
+      <div>
+        <Label htmlFor="guardian-restrictions">Custody or communication notes</Label>
+        <Textarea
+          id="guardian-restrictions"
+          value={form.restrictionNotes ?? ''}
+          onChange={(e) => update({ restrictionNotes: e.target.value })}
+          rows={2}
+          placeholder="Only visible to you"
+        />
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="secondary" onClick={onDone}>
+          Cancel
+        </Button>
+        <Button type="submit" loading={saveMutation.isPending}>
+          {guardian ? 'Save contact' : 'Add contact'}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+function GuardianCard({
+  guardian,
+  onEdit,
+  onDelete,
+}: {
+  guardian: Guardian;
+  onEdit: () => void;
+  onDelete: () => void;
+}) {
+  return (
+    <Card className="p-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="font-medium flex items-center gap-2">
+            {guardian.name}
+            {guardian.isPrimary && <Badge variant="secondary">Primary</Badge>}
+            <Badge variant="outline">{guardian.preferredLanguage.toUpperCase()}</Badge>
+          </div>
+          <div className="text-sm text-gray-500 mt-1">
+            {[guardian.relationship, guardian.email, guardian.phone].filter(Boolean).join(' · ')}
+          </div>
+          <div className="text-sm text-gray-500">
+            Contact by {guardian.contactMethod}
+            {guardian.contactMethod === 'email' && !guardian.email && ' (no address on file)'}
+          </div>
+          {!guardian.receivesCommunications && (
+            <div className="text-sm text-red-600 flex items-center gap-1 mt-1">
+              <ShieldAlert className="w-4 h-4" />
+              Does not receive communications
+            </div>
+          )}
+          {guardian.restrictionNotes && (
+            <div className="text-sm text-gray-600 mt-1 italic">{guardian.restrictionNotes}</div>
+          )}
+        </div>
+        <div className="flex gap-1 shrink-0">
+          <Button variant="ghost" size="sm" onClick={onEdit} title="Edit">
+            <Pencil className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={onDelete} title="Remove">
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+}
+
+function FamilyPortal({ studentId }: { studentId: number }) {
+  const { data, isLoading } = useStudentPortal(studentId);
+  const publishMutation = useSetPortalItemPublished();
+  const sendLinkMutation = useSendPortalLink();
+
+  if (isLoading || !data) {
+    return null;
+  }
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold mb-1 flex items-center gap-2">
+        <Globe className="w-5 h-5" />
+        Family portal
+      </h3>
+      <p className="text-sm text-gray-600 mb-3">
+        Guardians sign in with an emailed link and see only what you share here, in their preferred
+        language.
+      </p>
+
+      <Card className="p-4 mb-3">
+        {data.guardians.length === 0 ? (
+          <p className="text-sm text-gray-500">Add a contact to give them portal access.</p>
+        ) : (
+          <ul className="divide-y">
+            {data.guardians.map((guardian) => (
+              <li key={guardian.id} className="flex items-center justify-between gap-4 py-2">
+                <div className="text-sm">
+                  <div className="font-medium">{guardian.name}</div>
+                  <div className="text-gray-500">
+                    {!guardian.canUsePortal
+                      ? 'No portal access (needs an email address and communications allowed)'
+                      : guardian.lastPortalVisitAt
+                        ? `Last visit ${new Date(guardian.lastPortalVisitAt).toLocaleDateString()}`
+                        : 'Has not visited yet'}
+                  </div>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => sendLinkMutation.mutate({ studentId, guardianId: guardian.id })}
+                  disabled={!guardian.canUsePortal || sendLinkMutation.isPending}
+                >
+                  <Mail className="w-4 h-4 mr-2" />
+                  Send sign-in link
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </Card>
+
+      {data.items.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Sent summaries, newsletters that include this student and work samples can be shared once
+          they exist.
+        </p>
+      ) : (
+        <Card className="p-4">
+          <ul className="divide-y">
+            {data.items.map((item) => (
+              <li
+                key={`${item.type}-${item.id}`}
+                className="flex items-center justify-between gap-4 py-2"
+              >
+                <div className="text-sm flex items-center gap-2">
+                  <Badge variant="outline">{PORTAL_ITEM_LABELS[item.type]}</Badge>
+                  {item.title}
+                </div>
+                <label className="flex items-center gap-2 text-sm shrink-0">
+                  <input
+                    type="checkbox"
+                    checked={!!item.publishedAt}
+                    onChange={(e) =>
+                      publishMutation.mutate({ studentId, item, published: e.target.checked })
+                    }
+                    disabled={publishMutation.isPending}
+                  />
+                  Shared
+                </label>
+              </li>
+            ))}
+          </ul>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+function StudentContacts({ studentId }: { studentId: number }) {
+  const [editing, setEditing] = useState<Guardian | 'new' | null>(null);
+  const { data: student } = useStudent(studentId);
+  const { data: guardians = [], isLoading } = useStudentGuardians(studentId);
+  const deleteMutation = useDeleteGuardian();
+  const sendSummaryMutation = useSendParentSummary();
+
+  const handleDelete = (guardian: Guardian) => {
+    if (confirm(`Remove ${guardian.name} from this student's contacts?`)) {
+      deleteMutation.mutate({ studentId, guardianId: guardian.id });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold">
+          {student ? `${student.firstName} ${student.lastName}` : 'Contacts'}
+        </h2>
+        {!editing && (
+          <Button size="sm" onClick={() => setEditing('new')}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add contact
+          </Button>
+        )}
+      </div>
+
+      {editing && (
+        <GuardianForm
+          key={editing === 'new' ? 'new' : editing.id}
+          studentId={studentId}
+          guardian={editing === 'new' ? undefined : editing}
+          onDone={() => setEditing(null)}
+        />
+      )}
+
+      {isLoading ? (
+        <p className="text-gray-500">Loading contacts...</p>
+      ) : guardians.length === 0 ? (
+        <p className="text-gray-500">
+          No parents or guardians yet. Newsletters and summaries are emailed to the contacts listed
+          here.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {guardians.map((guardian) => (
+            <GuardianCard
+              key={guardian.id}
+              guardian={guardian}
+              onEdit={() => setEditing(guardian)}
+              onDelete={() => handleDelete(guardian)}
+            />
+          ))}
+        </div>
+      )}
+
+      {student?.parentSummaries && student.parentSummaries.length > 0 && (
+        <div>
+          <h3 className="text-lg font-semibold mb-3">Recent parent summaries</h3>
+          <div className="space-y-3">
+            {student.parentSummaries.map((summary) => (
+              <Card key={summary.id} className="p-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="text-sm">
+                    <div className="font-medium">
+                      {new Date(summary.dateFrom).toLocaleDateString()} –{' '}
+                      {new Date(summary.dateTo).toLocaleDateString()}
+                    </div>
+                    <p className="text-gray-600 mt-1 line-clamp-2">{summary.contentEn}</p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => sendSummaryMutation.mutate({ summaryId: summary.id, studentId })}
+                    disabled={sendSummaryMutation.isPending || guardians.length === 0}
+                  >
+                    <Mail className="w-4 h-4 mr-2" />
+                    {summary.isDraft ? 'Send' : 'Send again'}
+                  </Button>
+                </div>
+                <EmailDeliveryStatus relatedType="parent_summary" relatedId={String(summary.id)} />
+              </Card>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <FamilyPortal studentId={studentId} />
+    </div>
+  );
+}
+
+export function ParentContactsPage() {
+  const [selectedStudentId, setSelectedStudentId] = useState<number | null>(null);
+  const { data: students = [], isLoading } = useStudents();
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-7xl">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold mb-2">Parent Contacts</h1>
+        <p className="text-gray-600">
+          Parents and guardians receive newsletters and summaries in their preferred language.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card className="p-2 md:col-span-1 h-fit">
+          {isLoading ? (
+            <p className="p-2 text-gray-500">Loading students...</p>
+          ) : students.length === 0 ? (
+            <p className="p-2 text-gray-500">No students yet.</p>
+          ) : (
+            <ul>
+              {students.map((student) => (
+                <li key={student.id}>
+                  <button
+                    onClick={() => setSelectedStudentId(student.id)}
+                    className={`w-full text-left px-3 py-2 rounded-md hover:bg-gray-100 ${
+                      selectedStudentId === student.id ? 'bg-indigo-50 text-indigo-700' : ''
+                    }`}
+                  >
+                    {student.firstName} {student.lastName}
+                    <span className="text-xs text-gray-500 ml-2">Grade {student.grade}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Card>
+
+        <div className="md:col-span-2">
+          {selectedStudentId ? (
+            <StudentContacts key={selectedStudentId} studentId={selectedStudentId} />
+          ) : (
+            <div className="flex flex-col items-center justify-center text-gray-500 py-16">
+              <Users className="w-10 h-10 mb-2" />
+              Choose a student to manage their family contacts.
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ParentContactsPage;
@@ -7,6 +7,7 @@ import { Calendar, Plus, FileText, Edit, Trash2, Users } from 'lucide-react';
 import NewsletterRecipientSelector from '../components/StudentSelector';
 import DateRangeSelector from '../components/DateRangeSelector';
 import NewsletterEditor from '../components/NewsletterEditor';
+import NewsletterRecipients from '../components/NewsletterRecipients';
 import {
   useStudents,
   useGenerateNewsletter,
@@ -41,6 +42,8 @@ export default function ParentNewsletterPage() {
 
   // Current newsletter state
   const [currentDraft, setCurrentDraft] = useState<NewsletterDraft | null>(null);
+  const [recipientEmails, setRecipientEmails] = useState('');
+  const [includeGuardians, setIncludeGuardians] = useState(true);
 
   // Hooks
   const { data: students = [], isLoading: studentsLoading } = useStudents();
@@ -138,7 +141,14 @@ export default function ParentNewsletterPage() {
     }
 
     try {
-      await sendNewsletter.mutateAsync({ newsletterId: draft.id });
+      await sendNewsletter.mutateAsync({
+        newsletterId: draft.id,
+        recipientEmails: recipientEmails
+          .split(/[\s,;]+/)
+          .map((email) => email.trim())
+          .filter(Boolean),
+        includeGuardians,
+      });
     } catch (error) {
       // Error is handled by the mutation
     }
@@ -385,6 +395,38 @@ export default function ParentNewsletterPage() {
           onSend={handleSendNewsletter}
           onRegenerate={handleRegenerateNewsletter}
         />
+        {currentDraft.isDraft && (
+          <div className="mt-6">
+            <label className="flex items-center gap-2 text-sm text-gray-700 mb-3">
+              <input
+                type="checkbox"
+                checked={includeGuardians}
+                onChange={(e) => setIncludeGuardians(e.target.checked)}
+                className="rounded"
+              />
+              Email the parent contacts of these students, each in their preferred language
+            </label>
+            <label
+              htmlFor="newsletter-recipients"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              Other email addresses
+            </label>
+            <textarea
+              id="newsletter-recipients"
+              value={recipientEmails}
+              onChange={(e) => setRecipientEmails(e.target.value)}
+              rows={2}
+              placeholder="parent@example.com, guardian@example.com"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              Addresses typed here receive the newsletter in English and French. Everyone gets a PDF
+              copy attached.
+            </p>
+          </div>
+        )}
+        {currentDraft.id && <NewsletterRecipients newsletterId={currentDraft.id} />}
       </div>
     );
   }
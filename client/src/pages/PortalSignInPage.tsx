@@ -0,0 +1,87 @@
+/**
+ * PortalSignInPage Component
+ * Signs a guardian in with the link from their email, or lets them ask for a
+ * new one. Guardians may read either language, so the page shows both.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { AxiosError } from 'axios';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Label } from '@/components/ui/Label';
+import { usePortalSignIn, useRequestPortalLink } from '../hooks/useGuardianPortal';
+
+export function PortalSignInPage() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') ?? '';
+  const navigate = useNavigate();
+  const [email, setEmail] = useState('');
+  const signIn = usePortalSignIn();
+  const requestLink = useRequestPortalLink();
+  const attempted = useRef(false);
+
+  useEffect(() => {
+    // Links are single-use, so never submit the same one twice
+    if (!token || attempted.current) return;
+    attempted.current = true;
+    signIn.mutate(token, { onSuccess: () => navigate('/portal', { replace: true }) });
+  }, [token, signIn, navigate]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    requestLink.mutate(email);
+  };
+
+  const signInError = (signIn.error as AxiosError<{ error?: string }> | null)?.response?.data
+    ?.error;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4">
+      <Card className="max-w-md w-full p-8">
+        <h1 className="text-2xl font-bold text-gray-900">Family portal</h1>
+        <p className="text-gray-500 mb-6">Portail des familles</p>
+
+        {token && !signIn.isError ? (
+          <p className="text-gray-600">Signing you in… / Connexion en cours…</p>
+        ) : requestLink.isSuccess ? (
+          <p className="text-gray-600">
+            If that address is on file, a sign-in link is on its way. / Si cette adresse est
+            enregistrée, un lien de connexion vous a été envoyé.
+          </p>
+        ) : (
+          <>
+            {signIn.isError && (
+              <p className="text-sm text-red-600 mb-4">
+                {signInError ?? 'This sign-in link is invalid or has expired'}
+              </p>
+            )}
+            <p className="text-sm text-gray-600 mb-4">
+              Enter the email address your child&apos;s teacher has on file and we&apos;ll send you
+              a sign-in link. / Entrez l&apos;adresse courriel connue de l&apos;enseignant ou de
+              l&apos;enseignante pour recevoir un lien de connexion.
+            </p>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <Label htmlFor="portal-email">Email / Courriel</Label>
+                <Input
+                  id="portal-email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={requestLink.isPending}>
+                {requestLink.isPending ? 'Sending… / Envoi…' : 'Send link / Envoyer le lien'}
+              </Button>
+            </form>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
+
+export default PortalSignInPage;
@@ -0,0 +1,99 @@
+/**
+ * ResetPasswordPage Component
+ * Chooses a new password with the token from a reset email
+ */
+
+import React, { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { AxiosError } from 'axios';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Label } from '@/components/ui/Label';
+import { useResetPassword } from '../hooks/useAccount';
+
+export default function ResetPasswordPage() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') ?? '';
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [mismatch, setMismatch] = useState(false);
+  const resetPassword = useResetPassword();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newPassword !== confirmPassword) {
+      setMismatch(true);
+      return;
+    }
+    setMismatch(false);
+    resetPassword.mutate({ token, newPassword });
+  };
+
+  const serverError = (resetPassword.error as AxiosError<{ error?: string }> | null)?.response?.data
+    ?.error;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4">
+      <Card className="max-w-md w-full p-8">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Choose a new password</h1>
+        {!token ? (
+          <p className="text-gray-600">
+            This link is incomplete. Open the link from your email again, or{' '}
+            <Link to="/forgot-password" className="text-indigo-600 hover:text-indigo-500">
+              request a new one
+            </Link>
+            .
+          </p>
+        ) : resetPassword.isSuccess ? (
+          <p className="text-gray-600">
+            Your password has been changed and all your devices have been signed out.{' '}
+            <Link to="/login" className="text-indigo-600 hover:text-indigo-500">
+              Sign in
+            </Link>{' '}
+            with your new password.
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="reset-new-password">New password</Label>
+              <Input
+                id="reset-new-password"
+                type="password"
+                autoComplete="new-password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                minLength={8}
+                required
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                At least 8 characters, with upper and lower case letters, a number and a symbol.
+              </p>
+            </div>
+            <div>
+              <Label htmlFor="reset-confirm-password">Confirm new password</Label>
+              <Input
+                id="reset-confirm-password"
+                type="password"
+                autoComplete="new-password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                required
+              />
+            </div>
+            {(mismatch || resetPassword.isError) && (
+              <p className="text-sm text-red-600">
+                {mismatch
+                  ? 'The passwords do not match.'
+                  : (serverError ?? 'Could not reset your password.')}
+              </p>
+            )}
+            <Button type="submit" className="w-full" loading={resetPassword.isPending}>
+              Set new password
+            </Button>
+          </form>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,364 @@
+/**
+ * ResourceLibraryPage Component
+ * School-wide library of teacher-contributed resources, with bookmarks and a
+ * review queue for moderators
+ */
+
+import React, { useState } from 'react';
+import { BookOpen, Bookmark, CheckCircle, Plus, Search, Star, XCircle } from 'lucide-react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Badge } from '@/components/ui/Badge';
+import {
+  ContributeResourceForm,
+  ResourceDetail,
+  formatGrades,
+} from '@/components/resource-library';
+import {
+  FRENCH_LEVELS,
+  RESOURCE_TYPES,
+  useLibraryBookmarks,
+  useLibraryModerationQueue,
+  useLibraryResources,
+  useReviewResource,
+  type LibraryResource,
+  type LibrarySearchFilters,
+} from '../hooks/useResourceLibrary';
+
+const selectClassName =
+  'rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500';
+
+function ResourceCard({ resource, onOpen }: { resource: LibraryResource; onOpen: () => void }) {
+  return (
+    <Card className="p-4 cursor-pointer hover:bg-gray-50" onClick={onOpen}>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="font-medium">{resource.title}</div>
+          <div className="text-sm text-gray-500 mt-1">
+            {resource.subject} · {formatGrades(resource)}
+            {resource.contributor?.name && ` · ${resource.contributor.name}`}
+          </div>
+        </div>
+        <div className="flex items-center gap-3 text-sm text-gray-500 shrink-0">
+          <Badge variant="outline" className="capitalize">
+            {resource.resourceType}
+          </Badge>
+          {resource.isFrenchImmersion && <Badge variant="secondary">FI</Badge>}
+          {!resource.isApproved && <Badge variant="secondary">Pending</Badge>}
+          <span className="flex items-center gap-1">
+            <Star className="w-4 h-4" />
+            {(resource.averageRating ?? 0).toFixed(1)}
+          </span>
+        </div>
+      </div>
+    </Card>
+  );
+}
+
+export function ResourceLibraryPage() {
+  const [activeTab, setActiveTab] = useState('browse');
+  const [openResourceId, setOpenResourceId] = useState<string | null>(null);
+  const [previousVersion, setPreviousVersion] = useState<LibraryResource | undefined>();
+  const [filters, setFilters] = useState<LibrarySearchFilters>({ sort: 'recent', page: 1 });
+  const [bookmarkTag, setBookmarkTag] = useState('');
+  const [rejectReasons, setRejectReasons] = useState<Record<string, string>>({});
+
+  const { data: results, isLoading } = useLibraryResources(filters);
+  const { data: bookmarks = [] } = useLibraryBookmarks(bookmarkTag || undefined);
+  const { data: queue, isError: isNotModerator } = useLibraryModerationQueue();
+  const reviewMutation = useReviewResource();
+
+  const updateFilter = (updates: Partial<LibrarySearchFilters>) =>
+    setFilters({ ...filters, ...updates, page: 1 });
+
+  const openContribute = (resource?: LibraryResource) => {
+    setPreviousVersion(resource);
+    setOpenResourceId(null);
+    setActiveTab('contribute');
+  };
+
+  const totalPages = results ? Math.max(1, Math.ceil(results.total / results.limit)) : 1;
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-7xl">
+      <div className="mb-8 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Resource Library</h1>
+          <p className="text-gray-600">
+            Find, share and rate classroom resources from teachers across the school.
+          </p>
+        </div>
+        <Button onClick={() => openContribute()}>
+          <Plus className="w-4 h-4 mr-2" />
+          Contribute
+        </Button>
+      </div>
+
+      {openResourceId ? (
+        <ResourceDetail
+          resourceId={openResourceId}
+          onBack={() => setOpenResourceId(null)}
+          onNewVersion={openContribute}
+        />
+      ) : (
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
+          <TabsList>
+            <TabsTrigger value="browse" className="flex items-center gap-2">
+              <BookOpen className="w-4 h-4" />
+              Browse
+            </TabsTrigger>
+            <TabsTrigger value="bookmarks" className="flex items-center gap-2">
+              <Bookmark className="w-4 h-4" />
+              My Bookmarks
+            </TabsTrigger>
+            <TabsTrigger value="contribute" className="flex items-center gap-2">
+              <Plus className="w-4 h-4" />
+              Contribute
+            </TabsTrigger>
+            {!isNotModerator && queue && (
+              <TabsTrigger value="review" className="flex items-center gap-2">
+                <CheckCircle className="w-4 h-4" />
+                Review Queue ({queue.length})
+              </TabsTrigger>
+            )}
+          </TabsList>
+
+          <TabsContent value="browse" className="space-y-4">
+            <div className="flex flex-wrap items-center gap-3">
+              <div className="relative">
+                <Search className="w-4 h-4 absolute left-3 top-3 text-gray-400" />
+                <Input
+                  value={filters.search ?? ''}
+                  onChange={(e) => updateFilter({ search: e.target.value })}
+                  placeholder="Search resources"
+                  className="pl-9 w-64"
+                />
+              </div>
+              <Input
+                value={filters.subject ?? ''}
+                onChange={(e) => updateFilter({ subject: e.target.value })}
+                placeholder="Subject"
+                className="w-40"
+              />
+              <Input
+                value={filters.curriculumCode ?? ''}
+                onChange={(e) => updateFilter({ curriculumCode: e.target.value })}
+                placeholder="Curriculum code"
+                className="w-40"
+              />
+              <select
+                value={filters.grade ?? ''}
+                onChange={(e) =>
+                  updateFilter({
+                    grade: e.target.value === '' ? undefined : Number(e.target.value),
+                  })
+                }
+                className={selectClassName}
+              >
+                <option value="">All grades</option>
+                {Array.from({ length: 9 }, (_, grade) => (
+                  <option key={grade} value={grade}>
+                    {grade === 0 ? 'Kindergarten' : `Grade ${grade}`}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={filters.resourceType ?? ''}
+                onChange={(e) => updateFilter({ resourceType: e.target.value || undefined })}
+                className={selectClassName}
+              >
+                <option value="">All types</option>
+                {RESOURCE_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {type.charAt(0).toUpperCase() + type.slice(1)}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={filters.frenchLevel ?? ''}
+                onChange={(e) => updateFilter({ frenchLevel: e.target.value || undefined })}
+                className={selectClassName}
+              >
+                <option value="">Any FI level</option>
+                {FRENCH_LEVELS.map((level) => (
+                  <option key={level} value={level}>
+                    FI: {level}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={filters.sort}
+                onChange={(e) =>
+                  updateFilter({ sort: e.target.value as LibrarySearchFilters['sort'] })
+                }
+                className={selectClassName}
+              >
+                <option value="recent">Newest</option>
+                <option value="rating">Top rated</option>
+                <option value="popular">Most used</option>
+              </select>
+            </div>
+
+            {isLoading ? (
+              <div className="space-y-3">
+                {[1, 2, 3].map((i) => (
+                  <Card key={i} className="p-4 animate-pulse">
+                    <div className="h-5 bg-gray-200 rounded w-1/3 mb-2"></div>
+                    <div className="h-4 bg-gray-200 rounded w-1/4"></div>
+                  </Card>
+                ))}
+              </div>
+            ) : !results || results.resources.length === 0 ? (
+              <Card className="p-8 text-center text-gray-500">
+                <BookOpen className="w-12 h-12 mx-auto mb-3 text-gray-400" />
+                <p>No resources match your search.</p>
+              </Card>
+            ) : (
+              <div className="space-y-2">
+                {results.resources.map((resource) => (
+                  <ResourceCard
+                    key={resource.id}
+                    resource={resource}
+                    onOpen={() => setOpenResourceId(resource.id)}
+                  />
+                ))}
+                {totalPages > 1 && (
+                  <div className="flex items-center justify-center gap-3 pt-2 text-sm">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={results.page <= 1}
+                      onClick={() => setFilters({ ...filters, page: results.page - 1 })}
+                    >
+                      Previous
+                    </Button>
+                    Page {results.page} of {totalPages}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={results.page >= totalPages}
+                      onClick={() => setFilters({ ...filters, page: results.page + 1 })}
+                    >
+                      Next
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="bookmarks" className="space-y-4">
+            <Input
+              value={bookmarkTag}
+              onChange={(e) => setBookmarkTag(e.target.value.trim())}
+              placeholder="Filter by one of your tags"
+              className="w-64"
+            />
+            {bookmarks.length === 0 ? (
+              <Card className="p-8 text-center text-gray-500">
+                <Bookmark className="w-12 h-12 mx-auto mb-3 text-gray-400" />
+                <p>No bookmarks yet. Bookmark resources to find them again quickly.</p>
+              </Card>
+            ) : (
+              <div className="space-y-2">
+                {bookmarks.map((bookmark) => (
+                  <div key={bookmark.id}>
+                    <ResourceCard
+                      resource={bookmark.resource}
+                      onOpen={() => setOpenResourceId(bookmark.resourceId)}
+                    />
+                    {bookmark.tags && bookmark.tags.length > 0 && (
+                      <div className="flex gap-1 mt-1 ml-4">
+                        {bookmark.tags.map((tag) => (
+                          <Badge key={tag} variant="outline" className="text-xs">
+                            {tag}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="contribute">
+            <ContributeResourceForm
+              key={previousVersion?.id ?? 'new'}
+              previousVersion={previousVersion}
+              onDone={() => {
+                setPreviousVersion(undefined);
+                setActiveTab('browse');
+              }}
+            />
+          </TabsContent>
+
+          {!isNotModerator && queue && (
+            <TabsContent value="review" className="space-y-2">
+              {queue.length === 0 ? (
+                <Card className="p-8 text-center text-gray-500">
+                  <CheckCircle className="w-12 h-12 mx-auto mb-3 text-gray-400" />
+                  <p>Nothing waiting for review.</p>
+                </Card>
+              ) : (
+                queue.map((resource) => (
+                  <Card key={resource.id} className="p-4 space-y-3">
+                    <div className="cursor-pointer" onClick={() => setOpenResourceId(resource.id)}>
+                      <div className="font-medium">
+                        {resource.title}
+                        {resource.version > 1 && (
+                          <span className="text-gray-500"> (version {resource.version})</span>
+                        )}
+                      </div>
+                      <div className="text-sm text-gray-500 mt-1">
+                        {resource.contributor?.name || 'Unknown'} · {resource.subject} ·{' '}
+                        {formatGrades(resource)}
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Button
+                        size="sm"
+                        onClick={() => reviewMutation.mutate({ id: resource.id, approved: true })}
+                        disabled={reviewMutation.isPending}
+                      >
+                        <CheckCircle className="w-4 h-4 mr-1" />
+                        Approve
+                      </Button>
+                      <Input
+                        value={rejectReasons[resource.id] ?? ''}
+                        onChange={(e) =>
+                          setRejectReasons({ ...rejectReasons, [resource.id]: e.target.value })
+                        }
+                        placeholder="Reason for sending back"
+                        className="w-72"
+                      />
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={!rejectReasons[resource.id]?.trim() || reviewMutation.isPending}
+                        onClick={() =>
+                          reviewMutation.mutate({
+                            id: resource.id,
+                            approved: false,
+                            reason: rejectReasons[resource.id].trim(),
+                          })
+                        }
+                      >
+                        <XCircle className="w-4 h-4 mr-1" />
+                        Send Back
+                      </Button>
+                    </div>
+                  </Card>
+                ))
+              )}
+            </TabsContent>
+          )}
+        </Tabs>
+      )}
+    </div>
+  );
+}
+
+export default ResourceLibraryPage;
@@ -0,0 +1,626 @@
+/**
+ * SchoolPage Component
+ * The school calendar for staff; staff management, calendar publishing and
+ * school-wide curriculum coverage for school and board admins
+ */
+
+import React, { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Building2, CalendarDays, Mail, Trash2, UserPlus } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Label } from '@/components/ui/Label';
+import { Badge } from '@/components/ui/Badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useAuth } from '../contexts/AuthContext';
+import type { CoverageViewMode } from '../hooks/useAnalytics';
+import {
+  School,
+  SchoolEventType,
+  SchoolRole,
+  useCancelSchoolInvitation,
+  useDeleteSchoolEvent,
+  useInviteStaffMember,
+  useMySchoolInvitations,
+  usePublishSchoolEvents,
+  useRemoveStaffMember,
+  useRespondToSchoolInvitation,
+  useSchoolCalendar,
+  useSchoolCoverage,
+  useSchoolInvitations,
+  useSchoolStaff,
+  useSchools,
+  useUpdateStaffRole,
+} from '../hooks/useSchools';
+
+const SELECT_CLASS =
+  'rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500';
+
+const EVENT_TYPE_LABELS: Record<SchoolEventType, string> = {
+  PD_DAY: 'PD day',
+  ASSEMBLY: 'Assembly',
+  TRIP: 'Trip',
+  HOLIDAY: 'Holiday',
+  REPORT_DEADLINE: 'Report deadline',
+  CUSTOM: 'Other',
+};
+
+const ROLE_LABELS: Record<SchoolRole, string> = {
+  TEACHER: 'Teacher',
+  SCHOOL_ADMIN: 'School admin',
+};
+
+function SchoolCalendarTab({ school }: { school: School }) {
+  const { data: events = [], isLoading } = useSchoolCalendar(school.id);
+  const publishEvents = usePublishSchoolEvents(school.id);
+  const deleteEvent = useDeleteSchoolEvent(school.id);
+  const [title, setTitle] = useState('');
+  const [eventType, setEventType] = useState<SchoolEventType>('PD_DAY');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [description, setDescription] = useState('');
+
+  const handlePublish = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await publishEvents.mutateAsync([
+      {
+        title,
+        eventType,
+        description: description || undefined,
+        start: new Date(`${startDate}T00:00:00`).toISOString(),
+        end: new Date(`${endDate || startDate}T23:59:59`).toISOString(),
+        allDay: true,
+      },
+    ]);
+    setTitle('');
+    setStartDate('');
+    setEndDate('');
+    setDescription('');
+  };
+
+  return (
+    <div className="space-y-6">
+      {school.canManage && (
+        <Card className="p-6">
+          <h3 className="text-lg font-semibold mb-1">Publish to the school calendar</h3>
+          <p className="text-sm text-gray-500 mb-4">
+            Published events appear in every staff member&apos;s calendar and block time in their
+            planners.
+          </p>
+          <form onSubmit={handlePublish} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="event-title">Title</Label>
+              <Input
+                id="event-title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="event-type">Type</Label>
+              <select
+                id="event-type"
+                className={`${SELECT_CLASS} w-full`}
+                value={eventType}
+                onChange={(e) => setEventType(e.target.value as SchoolEventType)}
+              >
+                {Object.entries(EVENT_TYPE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="event-start">First day</Label>
+              <Input
+                id="event-start"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="event-end">Last day (optional)</Label>
+              <Input
+                id="event-end"
+                type="date"
+                value={endDate}
+                min={startDate}
+                onChange={(e) => setEndDate(e.target.value)}
+              />
+            </div>
+            <div className="md:col-span-2">
+              <Label htmlFor="event-description">Details (optional)</Label>
+              <Input
+                id="event-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+            </div>
+            <div>
+              <Button type="submit" loading={publishEvents.isPending}>
+                <CalendarDays className="w-4 h-4 mr-2" />
+                Publish
+              </Button>
+            </div>
+          </form>
+        </Card>
+      )}
+
+      <Card className="p-6">
+        <h3 className="text-lg font-semibold mb-4">School calendar</h3>
+        {isLoading ? (
+          <p className="text-gray-500">Loading calendar...</p>
+        ) : events.length === 0 ? (
+          <p className="text-gray-500">Nothing has been published to the school calendar yet.</p>
+        ) : (
+          <ul className="divide-y">
+            {events.map((event) => (
+              <li key={event.id} className="py-3 flex items-center justify-between gap-4">
+                <div>
+                  <div className="font-medium flex items-center gap-2">
+                    {event.title}
+                    <Badge variant="outline">{EVENT_TYPE_LABELS[event.eventType]}</Badge>
+                  </div>
+                  <div className="text-sm text-gray-500">
+                    {format(parseISO(event.start), 'EEE, MMM d, yyyy')}
+                    {format(parseISO(event.start), 'yyyy-MM-dd') !==
+                      format(parseISO(event.end), 'yyyy-MM-dd') &&
+                      ` to ${format(parseISO(event.end), 'EEE, MMM d, yyyy')}`}
+                    {event.description && ` · ${event.description}`}
+                  </div>
+                </div>
+                {school.canManage && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteEvent.mutate(event.id)}
+                    disabled={deleteEvent.isPending}
+                    aria-label={`Remove ${event.title}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </Card>
+    </div>
+  );
+}
+
+function StaffTab({ school }: { school: School }) {
+  const { user } = useAuth();
+  const { data: staff = [], isLoading } = useSchoolStaff(school.id);
+  const { data: invitations = [] } = useSchoolInvitations(school.id);
+  const inviteStaff = useInviteStaffMember(school.id);
+  const cancelInvitation = useCancelSchoolInvitation(school.id);
+  const updateRole = useUpdateStaffRole(school.id);
+  const removeStaff = useRemoveStaffMember(school.id);
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<SchoolRole>('TEACHER');
+  const [newAccount, setNewAccount] = useState<{ email: string; password: string } | null>(null);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const invitation = await inviteStaff.mutateAsync({ name, email, role });
+    setNewAccount(
+      invitation.temporaryPassword
+        ? { email: invitation.email, password: invitation.temporaryPassword }
+        : null,
+    );
+    setName('');
+    setEmail('');
+    setRole('TEACHER');
+  };
+
+  const handleRemove = (userId: number, memberName: string) => {
+    if (confirm(`Remove ${memberName} from ${school.name}? Their account and plans are kept.`)) {
+      removeStaff.mutate(userId);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="p-6">
+        <h3 className="text-lg font-semibold mb-1">Invite staff</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          They join the staff once they accept the invitation.
+        </p>
+        <form onSubmit={handleInvite} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div>
+            <Label htmlFor="staff-name">Name</Label>
+            <Input
+              id="staff-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+            />
+          </div>
+          <div>
+            <Label htmlFor="staff-email">Email</Label>
+            <Input
+              id="staff-email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+            />
+          </div>
+          <div>
+            <Label htmlFor="staff-role">Role</Label>
+            <select
+              id="staff-role"
+              className={`${SELECT_CLASS} w-full`}
+              value={role}
+              onChange={(e) => setRole(e.target.value as SchoolRole)}
+            >
+              {Object.entries(ROLE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <Button type="submit" loading={inviteStaff.isPending}>
+              <UserPlus className="w-4 h-4 mr-2" />
+              Invite
+            </Button>
+          </div>
+        </form>
+
+        {newAccount && (
+          <div className="mt-4 text-sm bg-amber-50 border border-amber-200 text-amber-900 rounded-md p-3">
+            An account was created for <strong>{newAccount.email}</strong> with the temporary
+            password <code className="font-mono bg-white px-1 rounded">{newAccount.password}</code>.
+            Pass it on securely; it is not shown again and must be changed at first sign-in.
+          </div>
+        )}
+      </Card>
+
+      {invitations.length > 0 && (
+        <Card className="p-6">
+          <h3 className="text-lg font-semibold mb-4">Pending invitations</h3>
+          <ul className="divide-y text-sm">
+            {invitations.map((invitation) => (
+              <li key={invitation.id} className="py-2 flex items-center justify-between gap-4">
+                <span>
+                  {invitation.email}
+                  <Badge variant="secondary" className="ml-2">
+                    {ROLE_LABELS[invitation.role]}
+                  </Badge>
+                </span>
+                <span className="flex items-center gap-2 text-gray-500">
+                  Expires {format(parseISO(invitation.expiresAt), 'MMM d')}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => cancelInvitation.mutate(invitation.id)}
+                    disabled={cancelInvitation.isPending}
+                    aria-label={`Withdraw invitation for ${invitation.email}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </Card>
+      )}
+
+      <Card className="p-6">
+        <h3 className="text-lg font-semibold mb-4">Staff</h3>
+        {isLoading ? (
+          <p className="text-gray-500">Loading staff...</p>
+        ) : staff.length === 0 ? (
+          <p className="text-gray-500">No staff yet.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2">Name</th>
+                <th className="py-2">Email</th>
+                <th className="py-2">Role</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {staff.map((member) => {
+                const isSelf = String(member.user.id) === String(user?.id);
+                return (
+                  <tr key={member.id} className="border-b last:border-0">
+                    <td className="py-2">
+                      {member.user.name}
+                      {member.user.mustChangePassword && (
+                        <Badge variant="secondary" className="ml-2">
+                          Not signed in yet
+                        </Badge>
+                      )}
+                    </td>
+                    <td className="py-2 text-gray-600">{member.user.email}</td>
+                    <td className="py-2">
+                      <select
+                        className={SELECT_CLASS}
+                        value={member.role}
+                        disabled={isSelf || updateRole.isPending}
+                        onChange={(e) =>
+                          updateRole.mutate({
+                            userId: member.user.id,
+                            role: e.target.value as SchoolRole,
+                          })
+                        }
+                        aria-label={`Role for ${member.user.name}`}
+                      >
+                        {Object.entries(ROLE_LABELS).map(([value, label]) => (
+                          <option key={value} value={value}>
+                            {label}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="py-2 text-right">
+                      {!isSelf && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRemove(member.user.id, member.user.name)}
+                          aria-label={`Remove ${member.user.name}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </Card>
+    </div>
+  );
+}
+
+/** Invitations to join a school's staff, waiting for the user's answer */
+function MyInvitations() {
+  const { data: invitations = [] } = useMySchoolInvitations();
+  const respond = useRespondToSchoolInvitation();
+
+  if (invitations.length === 0) return null;
+
+  return (
+    <Card className="p-6 mb-6">
+      <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <Mail className="w-5 h-5" />
+        Invitations
+      </h2>
+      <ul className="divide-y text-sm">
+        {invitations.map((invitation) => (
+          <li key={invitation.id} className="py-2 flex items-center justify-between gap-4">
+            <span>
+              {invitation.invitedBy.name || invitation.invitedBy.email} invited you to join{' '}
+              <strong>{invitation.school?.name}</strong> as{' '}
+              {ROLE_LABELS[invitation.role].toLowerCase()}
+            </span>
+            <span className="flex gap-2">
+              <Button
+                size="sm"
+                onClick={() => respond.mutate({ invitationId: invitation.id, response: 'accept' })}
+                disabled={respond.isPending}
+              >
+                Accept
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => respond.mutate({ invitationId: invitation.id, response: 'decline' })}
+                disabled={respond.isPending}
+              >
+                Decline
+              </Button>
+            </span>
+          </li>
+        ))}
+      </ul>
+    </Card>
+  );
+}
+
+function CoverageTab({ school }: { school: School }) {
+  const [subject, setSubject] = useState('');
+  const [grade, setGrade] = useState('');
+  const [viewMode, setViewMode] = useState<CoverageViewMode>('taught');
+  const { data: coverage, isLoading } = useSchoolCoverage(school.id, {
+    subject: subject || undefined,
+    grade: grade ? Number(grade) : undefined,
+    viewMode,
+  });
+
+  return (
+    <Card className="p-6">
+      <div className="flex flex-wrap items-end gap-4 mb-6">
+        <div>
+          <Label htmlFor="coverage-subject">Subject</Label>
+          <Input
+            id="coverage-subject"
+            value={subject}
+            placeholder="All subjects"
+            onChange={(e) => setSubject(e.target.value)}
+          />
+        </div>
+        <div>
+          <Label htmlFor="coverage-grade">Grade</Label>
+          <select
+            id="coverage-grade"
+            className={SELECT_CLASS}
+            value={grade}
+            onChange={(e) => setGrade(e.target.value)}
+          >
+            <option value="">All grades</option>
+            {Array.from({ length: 13 }, (_, g) => (
+              <option key={g} value={g}>
+                {g === 0 ? 'Kindergarten' : `Grade ${g}`}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <Label htmlFor="coverage-mode">Based on</Label>
+          <select
+            id="coverage-mode"
+            className={SELECT_CLASS}
+            value={viewMode}
+            onChange={(e) => setViewMode(e.target.value as CoverageViewMode)}
+          >
+            <option value="taught">Daybook (taught)</option>
+            <option value="planned">Lesson plans (planned)</option>
+          </select>
+        </div>
+      </div>
+
+      {isLoading || !coverage ? (
+        <p className="text-gray-500">Loading coverage...</p>
+      ) : (
+        <>
+          <p className="text-sm text-gray-600 mb-4">
+            {coverage.metadata.coveredOutcomes} of {coverage.metadata.totalOutcomes} expectations
+            covered ({coverage.metadata.coveragePercentage}%) by{' '}
+            {coverage.metadata.activeTeacherCount} of {coverage.metadata.teacherCount} teachers.
+            Only counts are shown; no teacher or student is identified.
+          </p>
+          {coverage.outcomes.length === 0 ? (
+            <p className="text-gray-500">No expectations match these filters.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2">Expectation</th>
+                  <th className="py-2">Strand</th>
+                  <th className="py-2 w-1/3">Teachers</th>
+                </tr>
+              </thead>
+              <tbody>
+                {coverage.outcomes.map((outcome) => {
+                  const share = coverage.metadata.teacherCount
+                    ? outcome.teacherCount / coverage.metadata.teacherCount
+                    : 0;
+                  return (
+                    <tr key={outcome.id} className="border-b last:border-0">
+                      <td className="py-2" title={outcome.description}>
+                        <span className="font-mono">{outcome.code}</span>{' '}
+                        <span className="text-gray-500">
+                          {outcome.subject}, grade {outcome.grade}
+                        </span>
+                      </td>
+                      <td className="py-2 text-gray-600">{outcome.strand}</td>
+                      <td className="py-2">
+                        <div className="flex items-center gap-2">
+                          <div className="h-2 flex-1 bg-gray-100 rounded">
+                            <div
+                              className={`h-2 rounded ${share > 0 ? 'bg-indigo-500' : ''}`}
+                              style={{ width: `${Math.round(share * 100)}%` }}
+                            />
+                          </div>
+                          <span className="w-8 text-right">{outcome.teacherCount}</span>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </>
+      )}
+    </Card>
+  );
+}
+
+export function SchoolPage() {
+  const { data: schools = [], isLoading } = useSchools();
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const school = schools.find((s) => s.id === selectedId) ?? schools[0];
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-7xl">
+        <p className="text-gray-500">Loading schools...</p>
+      </div>
+    );
+  }
+
+  if (!school) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-7xl">
+        <MyInvitations />
+        <Card className="p-8 text-center">
+          <Building2 className="w-10 h-10 mx-auto text-gray-400 mb-3" />
+          <h1 className="text-xl font-semibold mb-2">No school yet</h1>
+          <p className="text-gray-600">
+            You are not on the staff of a school. Ask your school admin to invite you.
+          </p>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-7xl">
+      <MyInvitations />
+      <div className="mb-8 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">{school.name}</h1>
+          <p className="text-gray-600">
+            {[school.board?.name, school.address].filter(Boolean).join(' · ')}
+            {school.role && ` · ${ROLE_LABELS[school.role]}`}
+          </p>
+        </div>
+        {schools.length > 1 && (
+          <select
+            className={SELECT_CLASS}
+            value={school.id}
+            onChange={(e) => setSelectedId(Number(e.target.value))}
+            aria-label="School"
+          >
+            {schools.map((s) => (
+              <option key={s.id} value={s.id}>
+                {s.name}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <Tabs defaultValue="calendar" key={school.id}>
+        <TabsList>
+          <TabsTrigger value="calendar">Calendar</TabsTrigger>
+          {school.canManage && <TabsTrigger value="staff">Staff</TabsTrigger>}
+          {school.canManage && <TabsTrigger value="coverage">Curriculum coverage</TabsTrigger>}
+        </TabsList>
+
+        <TabsContent value="calendar">
+          <SchoolCalendarTab school={school} />
+        </TabsContent>
+        {school.canManage && (
+          <TabsContent value="staff">
+            <StaffTab school={school} />
+          </TabsContent>
+        )}
+        {school.canManage && (
+          <TabsContent value="coverage">
+            <CoverageTab school={school} />
+          </TabsContent>
+        )}
+      </Tabs>
+    </div>
+  );
+}
+
+export default SchoolPage;
@@ -0,0 +1,380 @@
+/**
+ * SettingsPage Component
+ * Account settings: changing the password, managing signed-in devices and
+ * choosing which notifications arrive by email
+ */
+
+import React, { useState } from 'react';
+import { AxiosError } from 'axios';
+import { Bell, KeyRound, LogOut, Monitor, ShieldAlert } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Label } from '@/components/ui/Label';
+import { Badge } from '@/components/ui/Badge';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  useChangePassword,
+  useRevokeSession,
+  useSessions,
+  useSignOutEverywhere,
+} from '../hooks/useAccount';
+import { useNotificationPreferences, useUpdateNotificationPreferences } from '../api';
+import type { NotificationChannel, NotificationPreferences } from '../types';
+
+const CATEGORY_LABELS: Record<string, string> = {
+  milestone: 'Milestones and deadlines',
+  activity: 'Planning activity',
+  system: 'Account and system messages',
+  reminder: 'Reminders',
+  team: 'Team discussions and shared resources',
+};
+
+/** "Chrome on Windows" from a user agent string, as far as it can tell */
+export function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return 'Unknown device';
+  const browser =
+    [
+      ['Edg/', 'Edge'],
+      ['Firefox/', 'Firefox'],
+      ['Chrome/', 'Chrome'],
+      ['Safari/', 'Safari'],
+    ].find(([marker]) => userAgent.includes(marker))?.[1] ?? 'Browser';
+  const os =
+    [
+      ['iPhone', 'iPhone'],
+      ['iPad', 'iPad'],
+      ['Android', 'Android'],
+      ['Windows', 'Windows'],
+      ['Mac OS', 'macOS'],
+      ['CrOS', 'ChromeOS'],
+      ['Linux', 'Linux'],
+    ].find(([marker]) => userAgent.includes(marker))?.[1] ?? 'unknown system';
+  return `${browser} on ${os}`;
+}
+
+function serverError(error: unknown): string | undefined {
+  return (error as AxiosError<{ error?: string }>)?.response?.data?.error;
+}
+
+function PasswordForm({ required }: { required: boolean }) {
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [mismatch, setMismatch] = useState(false);
+  const changePassword = useChangePassword();
+  const { checkAuth } = useAuth();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newPassword !== confirmPassword) {
+      setMismatch(true);
+      return;
+    }
+    setMismatch(false);
+    await changePassword.mutateAsync({ currentPassword, newPassword });
+    setCurrentPassword('');
+    setNewPassword('');
+    setConfirmPassword('');
+    // Lifts the forced password change
+    await checkAuth();
+  };
+
+  return (
+    <Card className="p-6">
+      <h2 className="text-xl font-semibold mb-1 flex items-center gap-2">
+        <KeyRound className="w-5 h-5" />
+        Password
+      </h2>
+      {required ? (
+        <div className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md p-3 my-4 flex gap-2">
+          <ShieldAlert className="w-4 h-4 mt-0.5 shrink-0" />
+          Your account was set up with a temporary password. Choose your own password to continue.
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 mb-4">
+          Changing your password signs out your other devices.
+        </p>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-4 max-w-md">
+        <div>
+          <Label htmlFor="current-password">
+            {required ? 'Temporary password' : 'Current password'}
+          </Label>
+          <Input
+            id="current-password"
+            type="password"
+            autoComplete="current-password"
+            value={currentPassword}
+            onChange={(e) => setCurrentPassword(e.target.value)}
+            required
+          />
+        </div>
+        <div>
+          <Label htmlFor="new-password">New password</Label>
+          <Input
+            id="new-password"
+            type="password"
+            autoComplete="new-password"
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+            minLength={8}
+            required
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            At least 8 characters, with upper and lower case letters, a number and a symbol.
+          </p>
+        </div>
+        <div>
+          <Label htmlFor="confirm-password">Confirm new password</Label>
+          <Input
+            id="confirm-password"
+            type="password"
+            autoComplete="new-password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            required
+          />
+        </div>
+        {(mismatch || changePassword.isError) && (
+          <p className="text-sm text-red-600">
+            {mismatch
+              ? 'The new passwords do not match.'
+              : (serverError(changePassword.error) ?? 'Could not change your password.')}
+          </p>
+        )}
+        <Button type="submit" loading={changePassword.isPending}>
+          Change password
+        </Button>
+      </form>
+    </Card>
+  );
+}
+
+function SessionsCard() {
+  const { data: sessions = [], isLoading } = useSessions();
+  const revokeSession = useRevokeSession();
+  const signOutEverywhere = useSignOutEverywhere();
+
+  const handleSignOutEverywhere = () => {
+    if (confirm('Sign out of every device, including this one?')) {
+      signOutEverywhere.mutate();
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-xl font-semibold mb-1 flex items-center gap-2">
+            <Monitor className="w-5 h-5" />
+            Signed-in devices
+          </h2>
+          <p className="text-sm text-gray-500">
+            Sign out any device you do not recognise or no longer use.
+          </p>
+        </div>
+        <Button
+          variant="danger"
+          size="sm"
+          onClick={handleSignOutEverywhere}
+          loading={signOutEverywhere.isPending}
+        >
+          <LogOut className="w-4 h-4 mr-2" />
+          Sign out of all devices
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-gray-500">Loading devices...</p>
+      ) : sessions.length === 0 ? (
+        <p className="text-gray-500">No active sessions.</p>
+      ) : (
+        <ul className="divide-y">
+          {sessions.map((session) => (
+            <li key={session.id} className="py-3 flex items-center justify-between gap-4">
+              <div>
+                <div className="font-medium flex items-center gap-2">
+                  {describeDevice(session.userAgent)}
+                  {session.current && <Badge variant="secondary">This device</Badge>}
+                </div>
+                <div className="text-sm text-gray-500">
+                  {session.ipAddress && `${session.ipAddress} · `}
+                  Signed in {new Date(session.createdAt).toLocaleDateString()} · Last active{' '}
+                  {new Date(session.lastUsedAt).toLocaleString()}
+                </div>
+              </div>
+              {!session.current && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => revokeSession.mutate(session.id)}
+                  disabled={revokeSession.isPending}
+                >
+                  Sign out
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+}
+
+function NotificationPreferencesForm({ preferences }: { preferences: NotificationPreferences }) {
+  const [draft, setDraft] = useState(preferences);
+  // Quiet hours are entered in, and saved with, this device's time zone
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const updatePreferences = useUpdateNotificationPreferences();
+
+  const setCategory = (category: string, enabled: boolean, email: boolean) => {
+    setDraft((current) => {
+      const others = (current.categories[category]?.channels ?? ['in_app']).filter(
+        (channel) => channel !== 'email',
+      );
+      const channels: NotificationChannel[] = email ? [...others, 'email'] : others;
+      return {
+        ...current,
+        categories: { ...current.categories, [category]: { enabled, channels } },
+      };
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    updatePreferences.mutate({ ...draft, quietHours: { ...draft.quietHours, timeZone } });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={draft.emailEnabled}
+          onChange={(e) => setDraft({ ...draft, emailEnabled: e.target.checked })}
+        />
+        Send notifications by email
+      </label>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="py-2 font-medium">Category</th>
+            <th className="py-2 font-medium w-24 text-center">Notify me</th>
+            <th className="py-2 font-medium w-24 text-center">Email</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          {Object.entries(draft.categories).map(([category, setting]) => (
+            <tr key={category}>
+              <td className="py-2">{CATEGORY_LABELS[category] ?? category}</td>
+              <td className="py-2 text-center">
+                <input
+                  type="checkbox"
+                  aria-label={`Notify me about ${CATEGORY_LABELS[category] ?? category}`}
+                  checked={setting.enabled}
+                  onChange={(e) =>
+                    setCategory(category, e.target.checked, setting.channels.includes('email'))
+                  }
+                />
+              </td>
+              <td className="py-2 text-center">
+                <input
+                  type="checkbox"
+                  aria-label={`Email me about ${CATEGORY_LABELS[category] ?? category}`}
+                  checked={setting.channels.includes('email')}
+                  disabled={!draft.emailEnabled || !setting.enabled}
+                  onChange={(e) => setCategory(category, setting.enabled, e.target.checked)}
+                />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div>
+          <Label htmlFor="quiet-start">Quiet hours from</Label>
+          <Input
+            id="quiet-start"
+            type="time"
+            value={draft.quietHours.start}
+            onChange={(e) =>
+              setDraft({ ...draft, quietHours: { ...draft.quietHours, start: e.target.value } })
+            }
+            required
+          />
+        </div>
+        <div>
+          <Label htmlFor="quiet-end">to</Label>
+          <Input
+            id="quiet-end"
+            type="time"
+            value={draft.quietHours.end}
+            onChange={(e) =>
+              setDraft({ ...draft, quietHours: { ...draft.quietHours, end: e.target.value } })
+            }
+            required
+          />
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">
+        Times are in your time zone ({timeZone}). Emails during quiet hours wait until they end,
+        unless they are urgent.
+      </p>
+
+      {updatePreferences.isError && (
+        <p className="text-sm text-red-600">
+          {serverError(updatePreferences.error) ?? 'Could not save your notification settings.'}
+        </p>
+      )}
+      <Button type="submit" loading={updatePreferences.isPending}>
+        Save notification settings
+      </Button>
+    </form>
+  );
+}
+
+function NotificationPreferencesCard() {
+  const { data: preferences, isLoading } = useNotificationPreferences();
+
+  return (
+    <Card className="p-6">
+      <h2 className="text-xl font-semibold mb-1 flex items-center gap-2">
+        <Bell className="w-5 h-5" />
+        Notifications
+      </h2>
+      <p className="text-sm text-gray-500 mb-4">
+        Choose what you are notified about and what also arrives by email.
+      </p>
+      {isLoading || !preferences ? (
+        <p className="text-gray-500">Loading notification settings...</p>
+      ) : (
+        <NotificationPreferencesForm preferences={preferences} />
+      )}
+    </Card>
+  );
+}
+
+export function SettingsPage() {
+  const { user } = useAuth();
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold mb-2">Settings</h1>
+        <p className="text-gray-600">{user?.email}</p>
+      </div>
+
+      <div className="space-y-6">
+        <PasswordForm required={!!user?.mustChangePassword} />
+        {!user?.mustChangePassword && <SessionsCard />}
+        {!user?.mustChangePassword && <NotificationPreferencesCard />}
+      </div>
+    </div>
+  );
+}
+
+export default SettingsPage;
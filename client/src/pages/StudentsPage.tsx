@@ -0,0 +1,698 @@
+/**
+ * StudentsPage Component
+ * The teacher's class list, grouped by grade for split classes, with CSV
+ * roster import and export, each student's goals, reflections and assessed
+ * progress, and year-end archiving
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Archive, Download, Pencil, Plus, RotateCcw, Trash2, Upload, Users } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Label } from '@/components/ui/Label';
+import { Textarea } from '@/components/ui/Textarea';
+import { Badge } from '@/components/ui/Badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  useCreateStudent,
+  useCreateStudentGoal,
+  useCreateStudentReflection,
+  useDeleteStudentGoal,
+  useDeleteStudentReflection,
+  useStudentGoals,
+  useStudentReflections,
+  useStudents,
+  useUpdateStudent,
+  useUpdateStudentGoal,
+} from '../api';
+import {
+  useArchiveStudents,
+  useArchivedStudents,
+  useExportRoster,
+  useImportRoster,
+  useRestoreStudent,
+  type DuplicateAction,
+  type RosterImportResult,
+} from '../hooks/useStudentRoster';
+import {
+  EVIDENCE_TYPE_LABELS,
+  useDeleteAssessment,
+  useStudentAssessments,
+  useStudentProgress,
+  type StrandProgress,
+} from '../hooks/useAssessments';
+import type { Student, StudentGoal } from '../types';
+
+const selectClassName =
+  'rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500';
+
+const GRADES = Array.from({ length: 12 }, (_, i) => i + 1);
+
+function StudentForm({ student, onDone }: { student?: Student; onDone: () => void }) {
+  const [firstName, setFirstName] = useState(student?.firstName ?? '');
+  const [lastName, setLastName] = useState(student?.lastName ?? '');
+  const [grade, setGrade] = useState(student?.grade ?? 1);
+  const createMutation = useCreateStudent();
+  const updateMutation = useUpdateStudent();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = { firstName: firstName.trim(), lastName: lastName.trim(), grade };
+    if (student) {
+      updateMutation.mutate({ id: student.id, data }, { onSuccess: onDone });
+    } else {
+      createMutation.mutate(data, { onSuccess: onDone });
+    }
+  };
+
+  return (
+    <Card className="p-4">
+      <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+        <div>
+          <Label htmlFor="student-first-name">First name</Label>
+          <Input
+            id="student-first-name"
+            value={firstName}
+            onChange={(e) => setFirstName(e.target.value)}
+            required
+          />
+        </div>
+        <div>
+          <Label htmlFor="student-last-name">Last name</Label>
+          <Input
+            id="student-last-name"
+            value={lastName}
+            onChange={(e) => setLastName(e.target.value)}
+            required
+          />
+        </div>
+        <div>
+          <Label htmlFor="student-grade">Grade</Label>
+          <select
+            id="student-grade"
+            value={grade}
+            onChange={(e) => setGrade(Number(e.target.value))}
+            className={`block w-full ${selectClassName}`}
+          >
+            {GRADES.map((g) => (
+              <option key={g} value={g}>
+                Grade {g}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex gap-2">
+          <Button type="submit" disabled={createMutation.isPending || updateMutation.isPending}>
+            {student ? 'Save' : 'Add student'}
+          </Button>
+          <Button type="button" variant="outline" onClick={onDone}>
+            Cancel
+          </Button>
+        </div>
+      </form>
+    </Card>
+  );
+}
+
+function RosterImport({ onDone }: { onDone: () => void }) {
+  const [csv, setCsv] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [onDuplicate, setOnDuplicate] = useState<DuplicateAction>('skip');
+  const [preview, setPreview] = useState<RosterImportResult | null>(null);
+  const importMutation = useImportRoster();
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const text = await file.text();
+    setCsv(text);
+    setFileName(file.name);
+    importMutation.mutate(
+      { csv: text, onDuplicate, dryRun: true },
+      { onSuccess: (result) => setPreview(result) },
+    );
+  };
+
+  const handleImport = () => {
+    importMutation.mutate({ csv, onDuplicate, dryRun: false }, { onSuccess: onDone });
+  };
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div>
+        <h3 className="font-semibold">Import class list</h3>
+        <p className="text-sm text-gray-600">
+          A CSV file with &quot;First name&quot;, &quot;Last name&quot; and &quot;Grade&quot;
+          columns (or &quot;Prénom&quot;, &quot;Nom&quot; and &quot;Année&quot;), such as an export
+          from the school office.
+        </p>
+      </div>
+      <input type="file" accept=".csv,text/csv" onChange={handleFile} />
+
+      {preview && (
+        <div className="space-y-3 text-sm">
+          <p>
+            <span className="font-medium">{fileName}</span>: {preview.created} new student(s),{' '}
+            {preview.duplicates.length} already in your class, {preview.errors.length} row(s) with
+            problems.
+          </p>
+
+          {preview.duplicates.length > 0 && (
+            <div>
+              <div className="font-medium mb-1">Already in your class</div>
+              <ul className="list-disc ml-5 text-gray-700">
+                {preview.duplicates.map((row) => (
+                  <li key={row.line}>
+                    Line {row.line}: {row.firstName} {row.lastName}, grade {row.grade}
+                    {row.studentId === null && ' (repeated in the file)'}
+                    {row.archived && ' (archived)'}
+                  </li>
+                ))}
+              </ul>
+              <Label htmlFor="roster-duplicates" className="mt-2">
+                For students already in your class
+              </Label>
+              <select
+                id="roster-duplicates"
+                value={onDuplicate}
+                onChange={(e) => setOnDuplicate(e.target.value as DuplicateAction)}
+                className={`block ${selectClassName}`}
+              >
+                <option value="skip">Leave them as they are</option>
+                <option value="update">Update their grade and restore archived students</option>
+              </select>
+            </div>
+          )}
+
+          {preview.errors.length > 0 && (
+            <div>
+              <div className="font-medium mb-1 text-red-600">Rows that will be skipped</div>
+              <ul className="list-disc ml-5 text-red-600">
+                {preview.errors.map((row) => (
+                  <li key={row.line}>
+                    Line {row.line}: {row.error}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Button
+          onClick={handleImport}
+          disabled={!preview || importMutation.isPending}
+          title={!preview ? 'Choose a file first' : undefined}
+        >
+          <Upload className="w-4 h-4 mr-2" />
+          Import
+        </Button>
+        <Button variant="outline" onClick={onDone}>
+          Cancel
+        </Button>
+      </div>
+    </Card>
+  );
+}
+
+function GoalsTab({ studentId }: { studentId: number }) {
+  const [text, setText] = useState('');
+  const { data: goals = [], isLoading } = useStudentGoals(studentId);
+  const createMutation = useCreateStudentGoal();
+  const updateMutation = useUpdateStudentGoal();
+  const deleteMutation = useDeleteStudentGoal();
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate(
+      { studentId, data: { text: text.trim() } },
+      { onSuccess: () => setText('') },
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <form onSubmit={handleAdd} className="flex gap-2">
+        <Input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="New goal"
+          maxLength={500}
+          required
+        />
+        <Button type="submit" disabled={createMutation.isPending}>
+          Add
+        </Button>
+      </form>
+      {isLoading ? (
+        <p className="text-gray-500">Loading goals...</p>
+      ) : goals.length === 0 ? (
+        <p className="text-gray-500">No goals yet.</p>
+      ) : (
+        <ul className="divide-y">
+          {goals.map((goal) => (
+            <li key={goal.id} className="flex items-center justify-between gap-4 py-2">
+              <span className={goal.status === 'completed' ? 'line-through text-gray-500' : ''}>
+                {goal.text}
+              </span>
+              <div className="flex items-center gap-1 shrink-0">
+                <select
+                  value={goal.status}
+                  onChange={(e) =>
+                    updateMutation.mutate({
+                      studentId,
+                      goalId: goal.id,
+                      data: { status: e.target.value as StudentGoal['status'] },
+                    })
+                  }
+                  className={`text-sm ${selectClassName}`}
+                >
+                  <option value="active">Active</option>
+                  <option value="completed">Completed</option>
+                  <option value="abandoned">Set aside</option>
+                </select>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Remove"
+                  onClick={() => deleteMutation.mutate({ studentId, goalId: goal.id })}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function ReflectionsTab({ studentId }: { studentId: number }) {
+  const [content, setContent] = useState('');
+  const [emoji, setEmoji] = useState('');
+  const { data: reflections = [], isLoading } = useStudentReflections(studentId);
+  const createMutation = useCreateStudentReflection();
+  const deleteMutation = useDeleteStudentReflection();
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate(
+      { studentId, data: { content: content.trim(), emoji: emoji || undefined } },
+      {
+        onSuccess: () => {
+          setContent('');
+          setEmoji('');
+        },
+      },
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <form onSubmit={handleAdd} className="space-y-2">
+        <Textarea
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          placeholder="What did the student say or notice?"
+          maxLength={1000}
+          rows={3}
+          required
+        />
+        <div className="flex gap-2">
+          <Input
+            value={emoji}
+            onChange={(e) => setEmoji(e.target.value)}
+            placeholder="Emoji (optional)"
+            maxLength={10}
+            className="w-40"
+          />
+          <Button type="submit" disabled={createMutation.isPending}>
+            Add reflection
+          </Button>
+        </div>
+      </form>
+      {isLoading ? (
+        <p className="text-gray-500">Loading reflections...</p>
+      ) : reflections.length === 0 ? (
+        <p className="text-gray-500">No reflections yet.</p>
+      ) : (
+        <ul className="divide-y">
+          {reflections.map((reflection) => (
+            <li key={reflection.id} className="flex items-start justify-between gap-4 py-2">
+              <div className="text-sm">
+                <div className="text-gray-500">
+                  {new Date(reflection.date ?? reflection.createdAt).toLocaleDateString()}
+                  {reflection.emoji && <span className="ml-2">{reflection.emoji}</span>}
+                </div>
+                <p className="text-gray-800">{reflection.content || reflection.text}</p>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                title="Remove"
+                onClick={() => deleteMutation.mutate({ studentId, reflectionId: reflection.id })}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+const TREND_LABELS: Record<NonNullable<StrandProgress['trend']>, string> = {
+  improving: 'Improving',
+  steady: 'Steady',
+  declining: 'Declining',
+};
+
+function ProgressTab({ studentId }: { studentId: number }) {
+  const { data: progress, isLoading } = useStudentProgress(studentId);
+  const { data: assessments = [] } = useStudentAssessments(studentId);
+  const deleteMutation = useDeleteAssessment();
+
+  if (isLoading || !progress) {
+    return <p className="text-gray-500">Loading progress...</p>;
+  }
+  if (progress.totalAssessments === 0) {
+    return (
+      <p className="text-gray-500">
+        No assessments yet. Record levels from the recording sheet of a lesson with an assessment
+        type.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        {progress.totalAssessments} assessment(s), average level {progress.averageScore} (R counts
+        as 0).
+      </p>
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="border-b text-left">
+            <th className="py-2 pr-4 font-medium">Strand</th>
+            <th className="py-2 pr-4 font-medium">Records</th>
+            <th className="py-2 pr-4 font-medium">Average</th>
+            <th className="py-2 pr-4 font-medium">Latest</th>
+            <th className="py-2 pr-4 font-medium">By month</th>
+            <th className="py-2 font-medium">Trend</th>
+          </tr>
+        </thead>
+        <tbody>
+          {progress.strands.map((strand) => (
+            <tr key={`${strand.subject}-${strand.strand}`} className="border-b last:border-0">
+              <td className="py-2 pr-4">
+                <div>{strand.strand}</div>
+                <div className="text-xs text-gray-500">{strand.subject}</div>
+              </td>
+              <td className="py-2 pr-4">{strand.count}</td>
+              <td className="py-2 pr-4">{strand.average}</td>
+              <td className="py-2 pr-4">{strand.latestLevel}</td>
+              <td className="py-2 pr-4 text-gray-600">
+                {strand.points.map((point) => `${point.month}: ${point.average}`).join(' · ')}
+              </td>
+              <td className="py-2">{strand.trend ? TREND_LABELS[strand.trend] : '–'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div>
+        <h4 className="font-medium mb-2">Records</h4>
+        <ul className="divide-y">
+          {assessments.map((assessment) => (
+            <li key={assessment.id} className="flex items-start justify-between gap-4 py-2">
+              <div className="text-sm">
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline">Level {assessment.level}</Badge>
+                  <span className="font-medium">{assessment.expectation?.code}</span>
+                  <span className="text-gray-500">
+                    {new Date(assessment.date).toLocaleDateString()} ·{' '}
+                    {EVIDENCE_TYPE_LABELS[assessment.evidenceType]}
+                    {assessment.lessonPlan && ` · ${assessment.lessonPlan.title}`}
+                  </span>
+                </div>
+                {assessment.notes && <p className="text-gray-700 mt-1">{assessment.notes}</p>}
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                title="Remove"
+                onClick={() => deleteMutation.mutate({ studentId, assessmentId: assessment.id })}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
+
+function StudentDetail({ student }: { student: Student }) {
+  const [editing, setEditing] = useState(false);
+  const archiveMutation = useArchiveStudents();
+  const restoreMutation = useRestoreStudent();
+
+  const handleArchive = () => {
+    if (
+      confirm(
+        `Archive ${student.firstName} ${student.lastName}? Their goals and reflections are kept.`,
+      )
+    ) {
+      archiveMutation.mutate({ studentIds: [student.id] });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold flex items-center gap-2">
+          {student.firstName} {student.lastName}
+          <Badge variant="outline">Grade {student.grade}</Badge>
+          {student.archivedAt && <Badge variant="secondary">Archived</Badge>}
+        </h2>
+        <div className="flex gap-1">
+          {student.archivedAt ? (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => restoreMutation.mutate(student.id)}
+              disabled={restoreMutation.isPending}
+            >
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Restore
+            </Button>
+          ) : (
+            <>
+              <Button variant="ghost" size="sm" title="Edit" onClick={() => setEditing(true)}>
+                <Pencil className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                title="Archive"
+                onClick={handleArchive}
+                disabled={archiveMutation.isPending}
+              >
+                <Archive className="w-4 h-4" />
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {editing && <StudentForm student={student} onDone={() => setEditing(false)} />}
+
+      <Tabs defaultValue="goals">
+        <TabsList>
+          <TabsTrigger value="goals">Goals</TabsTrigger>
+          <TabsTrigger value="reflections">Reflections</TabsTrigger>
+          <TabsTrigger value="progress">Progress</TabsTrigger>
+        </TabsList>
+        <TabsContent value="goals">
+          <GoalsTab studentId={student.id} />
+        </TabsContent>
+        <TabsContent value="reflections">
+          <ReflectionsTab studentId={student.id} />
+        </TabsContent>
+        <TabsContent value="progress">
+          <ProgressTab studentId={student.id} />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
+
+export function StudentsPage() {
+  const [showArchived, setShowArchived] = useState(false);
+  const [gradeFilter, setGradeFilter] = useState<number | 'all'>('all');
+  const [selectedStudentId, setSelectedStudentId] = useState<number | null>(null);
+  const [panel, setPanel] = useState<'add' | 'import' | null>(null);
+  const { data: activeStudents = [], isLoading: activeLoading } = useStudents();
+  const { data: archivedStudents = [], isLoading: archivedLoading } =
+    useArchivedStudents(showArchived);
+  const exportMutation = useExportRoster();
+  const archiveMutation = useArchiveStudents();
+
+  const students = showArchived ? archivedStudents : activeStudents;
+  const isLoading = showArchived ? archivedLoading : activeLoading;
+  const grades = useMemo(
+    () => Array.from(new Set(students.map((s) => s.grade))).sort((a, b) => a - b),
+    [students],
+  );
+  const byGrade = grades
+    .filter((grade) => gradeFilter === 'all' || grade === gradeFilter)
+    .map((grade) => ({ grade, students: students.filter((s) => s.grade === grade) }));
+  const selected = students.find((s) => s.id === selectedStudentId);
+
+  const handleYearEnd = () => {
+    const scope = gradeFilter === 'all' ? 'your whole class' : `every grade ${gradeFilter} student`;
+    if (confirm(`Archive ${scope}? Their goals, reflections and summaries are kept.`)) {
+      archiveMutation.mutate(gradeFilter === 'all' ? {} : { grade: gradeFilter });
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-7xl">
+      <div className="mb-8 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Students</h1>
+          <p className="text-gray-600">
+            Your class list, with each student&apos;s goals, reflections and progress.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button size="sm" onClick={() => setPanel('add')}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add student
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => setPanel('import')}>
+            <Upload className="w-4 h-4 mr-2" />
+            Import CSV
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => exportMutation.mutate({ includeArchived: showArchived })}
+            disabled={exportMutation.isPending}
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Export CSV
+          </Button>
+          {!showArchived && activeStudents.length > 0 && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleYearEnd}
+              disabled={archiveMutation.isPending}
+            >
+              <Archive className="w-4 h-4 mr-2" />
+              Archive for year end
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {panel && (
+        <div className="mb-6">
+          {panel === 'add' ? (
+            <StudentForm onDone={() => setPanel(null)} />
+          ) : (
+            <RosterImport onDone={() => setPanel(null)} />
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card className="p-2 md:col-span-1 h-fit">
+          <div className="flex gap-2 p-2">
+            <select
+              value={gradeFilter}
+              onChange={(e) =>
+                setGradeFilter(e.target.value === 'all' ? 'all' : Number(e.target.value))
+              }
+              className={`text-sm ${selectClassName}`}
+              aria-label="Grade"
+            >
+              <option value="all">All grades</option>
+              {grades.map((grade) => (
+                <option key={grade} value={grade}>
+                  Grade {grade}
+                </option>
+              ))}
+            </select>
+            <select
+              value={showArchived ? 'archived' : 'active'}
+              onChange={(e) => {
+                setShowArchived(e.target.value === 'archived');
+                setGradeFilter('all');
+                setSelectedStudentId(null);
+              }}
+              className={`text-sm ${selectClassName}`}
+              aria-label="Show"
+            >
+              <option value="active">Current class</option>
+              <option value="archived">Archived</option>
+            </select>
+          </div>
+
+          {isLoading ? (
+            <p className="p-2 text-gray-500">Loading students...</p>
+          ) : students.length === 0 ? (
+            <p className="p-2 text-gray-500">
+              {showArchived
+                ? 'No archived students.'
+                : 'No students yet. Add them one at a time or import a class list.'}
+            </p>
+          ) : (
+            byGrade.map((group) => (
+              <div key={group.grade} className="mb-2">
+                {grades.length > 1 && (
+                  <div className="px-3 pt-2 text-xs font-semibold uppercase text-gray-500">
+                    Grade {group.grade} ({group.students.length})
+                  </div>
+                )}
+                <ul>
+                  {group.students.map((student) => (
+                    <li key={student.id}>
+                      <button
+                        onClick={() => setSelectedStudentId(student.id)}
+                        className={`w-full text-left px-3 py-2 rounded-md hover:bg-gray-100 ${
+                          selectedStudentId === student.id ? 'bg-indigo-50 text-indigo-700' : ''
+                        }`}
+                      >
+                        {student.lastName}, {student.firstName}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))
+          )}
+        </Card>
+
+        <div className="md:col-span-2">
+          {selected ? (
+            <StudentDetail key={selected.id} student={selected} />
+          ) : (
+            <div className="flex flex-col items-center justify-center text-gray-500 py-16">
+              <Users className="w-10 h-10 mb-2" />
+              Choose a student to see their goals, reflections and progress.
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default StudentsPage;
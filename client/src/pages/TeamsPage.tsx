@@ -6,13 +6,15 @@
 import React, { useState } from 'react';
 import { Users, Share2, MessageSquare, Calendar } from 'lucide-react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Card } from '@/components/ui/card';
-import { Button } from '@/components/ui/Button';
-import { TeamList, CreateTeamModal, SharedPlansView } from '@/components/collaboration';
-import { useNavigate } from 'react-router-dom';
+import {
+  TeamList,
+  CreateTeamModal,
+  SharedPlansView,
+  TeamDiscussions,
+  TeamResources,
+} from '@/components/collaboration';
 
 export function TeamsPage() {
-  const navigate = useNavigate();
   const [isCreateTeamOpen, setIsCreateTeamOpen] = useState(false);
   const [activeTab, setActiveTab] = useState('teams');
 
@@ -55,29 +57,11 @@ export function TeamsPage() {
         </TabsContent>
 
         <TabsContent value="resources">
-          <Card className="p-8 text-center">
-            <Calendar className="w-12 h-12 text-gray-400 mx-auto mb-4" />
-            <h3 className="text-lg font-semibold mb-2">Team Resources Coming Soon</h3>
-            <p className="text-gray-600 mb-4 max-w-md mx-auto">
-              Share teaching materials, templates, and resources with your team members.
-            </p>
-            <Button variant="outline" onClick={() => navigate('/resources')}>
-              Browse My Resources
-            </Button>
-          </Card>
+          <TeamResources onJoinTeam={() => setActiveTab('teams')} />
         </TabsContent>
 
         <TabsContent value="discussions">
-          <Card className="p-8 text-center">
-            <MessageSquare className="w-12 h-12 text-gray-400 mx-auto mb-4" />
-            <h3 className="text-lg font-semibold mb-2">Team Discussions Coming Soon</h3>
-            <p className="text-gray-600 mb-4 max-w-md mx-auto">
-              Start conversations, ask questions, and share ideas with your teaching team.
-            </p>
-            <Button variant="outline" onClick={() => setActiveTab('teams')}>
-              Join a Team First
-            </Button>
-          </Card>
+          <TeamDiscussions onJoinTeam={() => setActiveTab('teams')} />
         </TabsContent>
       </Tabs>
 
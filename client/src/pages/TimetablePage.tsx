@@ -0,0 +1,357 @@
+import React, { useEffect, useState } from 'react';
+import { Clock, Pencil, Plus, RotateCw, Trash2 } from 'lucide-react';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import { Label } from '../components/ui/Label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
+import {
+  useTimetable,
+  useSaveTimetable,
+  useCreateTimetableSlot,
+  useUpdateTimetableSlot,
+  useDeleteTimetableSlot,
+} from '../api';
+import type { TimetableSlot } from '../types';
+
+const WEEKDAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'];
+
+const selectClassName =
+  'flex h-10 w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+interface SlotFormState {
+  day: string;
+  rotationDay: string;
+  start: string;
+  end: string;
+  subjectName: string;
+  room: string;
+  label: string;
+}
+
+const emptyForm: SlotFormState = {
+  day: '0',
+  rotationDay: '',
+  start: '09:00',
+  end: '10:00',
+  subjectName: '',
+  room: '',
+  label: '',
+};
+
+const toTime = (min: number) =>
+  `${String(Math.floor(min / 60)).padStart(2, '0')}:${String(min % 60).padStart(2, '0')}`;
+
+const toMinutes = (time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+};
+
+export default function TimetablePage() {
+  const { data: timetable, isLoading } = useTimetable();
+  const saveTimetable = useSaveTimetable();
+  const createSlot = useCreateTimetableSlot();
+  const updateSlot = useUpdateTimetableSlot();
+  const deleteSlot = useDeleteTimetableSlot();
+
+  const [rotationLength, setRotationLength] = useState('');
+  const [rotationStart, setRotationStart] = useState('');
+  const [form, setForm] = useState<SlotFormState>(emptyForm);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!timetable) return;
+    setRotationLength(timetable.rotationLength ? String(timetable.rotationLength) : '');
+    setRotationStart(timetable.rotationStart ? timetable.rotationStart.slice(0, 10) : '');
+  }, [timetable]);
+
+  const slots = timetable?.slots ?? [];
+  const rotationDays = Number(rotationLength) || 0;
+
+  const handleSaveRotation = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveTimetable.mutate({
+      rotationLength: rotationDays || null,
+      rotationStart: rotationDays && rotationStart ? rotationStart : null,
+    });
+  };
+
+  const handleEdit = (slot: TimetableSlot) => {
+    setEditingId(slot.id);
+    setFormError(null);
+    setForm({
+      day: slot.day != null ? String(slot.day) : '',
+      rotationDay: slot.rotationDay ? String(slot.rotationDay) : '',
+      start: toTime(slot.startMin),
+      end: toTime(slot.endMin),
+      subjectName: slot.subject?.name ?? '',
+      room: slot.room ?? '',
+      label: slot.label ?? '',
+    });
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setFormError(null);
+    setForm(emptyForm);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const startMin = toMinutes(form.start);
+    const endMin = toMinutes(form.end);
+    if (form.day === '' && form.rotationDay === '') {
+      setFormError('Choose a weekday, a rotation day, or both.');
+      return;
+    }
+    if (endMin <= startMin) {
+      setFormError('End time must be after start time.');
+      return;
+    }
+
+    const data = {
+      day: form.day === '' ? null : Number(form.day),
+      rotationDay: form.rotationDay === '' ? null : Number(form.rotationDay),
+      startMin,
+      endMin,
+      subjectName: form.subjectName.trim() || undefined,
+      room: form.room.trim() || null,
+      label: form.label.trim() || null,
+    };
+
+    if (editingId) {
+      await updateSlot.mutateAsync({ id: editingId, ...data });
+    } else {
+      await createSlot.mutateAsync(data);
+    }
+    resetForm();
+  };
+
+  const describeSlot = (slot: TimetableSlot) =>
+    [slot.subject?.name ?? slot.label ?? 'Untitled', slot.room && `Room ${slot.room}`]
+      .filter(Boolean)
+      .join(' · ');
+
+  const columns = [
+    ...WEEKDAYS.map((name, day) => ({
+      key: `day-${day}`,
+      title: name,
+      slots: slots.filter((s) => s.day === day),
+    })),
+    {
+      key: 'rotation',
+      title: 'Any weekday',
+      slots: slots.filter((s) => s.day == null),
+    },
+  ].filter((column) => column.key !== 'rotation' || column.slots.length > 0);
+
+  if (isLoading) {
+    return <div className="p-8 text-gray-500">Loading timetable...</div>;
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+      <div className="flex items-center gap-3">
+        <div className="p-2 bg-blue-100 rounded-lg">
+          <Clock className="h-6 w-6 text-blue-600" />
+        </div>
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Class Timetable</h1>
+          <p className="text-gray-600">
+            Recurring teaching blocks used by the weekly planner and substitute plans
+          </p>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <RotateCw className="h-5 w-5" />
+            Rotation
+          </CardTitle>
+          <CardDescription>
+            Leave blank for a regular weekly timetable, or set a cycle length (e.g. 6 for Day 1–6)
+            and the date that was Day 1.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSaveRotation} className="flex flex-wrap items-end gap-4">
+            <div>
+              <Label htmlFor="rotation-length">Days in cycle</Label>
+              <Input
+                id="rotation-length"
+                type="number"
+                min={2}
+                max={10}
+                value={rotationLength}
+                onChange={(e) => setRotationLength(e.target.value)}
+                className="w-32"
+              />
+            </div>
+            <div>
+              <Label htmlFor="rotation-start">Day 1 falls on</Label>
+              <Input
+                id="rotation-start"
+                type="date"
+                value={rotationStart}
+                disabled={!rotationDays}
+                onChange={(e) => setRotationStart(e.target.value)}
+              />
+            </div>
+            <Button type="submit" loading={saveTimetable.isPending}>
+              Save rotation
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{editingId ? 'Edit slot' : 'Add slot'}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <Label htmlFor="slot-day">Weekday</Label>
+              <select
+                id="slot-day"
+                className={selectClassName}
+                value={form.day}
+                onChange={(e) => setForm({ ...form, day: e.target.value })}
+              >
+                <option value="">Any weekday</option>
+                {WEEKDAYS.map((name, day) => (
+                  <option key={name} value={day}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="slot-rotation-day">Rotation day</Label>
+              <select
+                id="slot-rotation-day"
+                className={selectClassName}
+                value={form.rotationDay}
+                disabled={!rotationDays}
+                onChange={(e) => setForm({ ...form, rotationDay: e.target.value })}
+              >
+                <option value="">Every week</option>
+                {Array.from({ length: rotationDays }, (_, i) => (
+                  <option key={i + 1} value={i + 1}>
+                    Day {i + 1}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="slot-start">Start</Label>
+              <Input
+                id="slot-start"
+                type="time"
+                value={form.start}
+                onChange={(e) => setForm({ ...form, start: e.target.value })}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="slot-end">End</Label>
+              <Input
+                id="slot-end"
+                type="time"
+                value={form.end}
+                onChange={(e) => setForm({ ...form, end: e.target.value })}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="slot-subject">Subject</Label>
+              <Input
+                id="slot-subject"
+                value={form.subjectName}
+                placeholder="e.g. Mathematics"
+                onChange={(e) => setForm({ ...form, subjectName: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="slot-room">Room</Label>
+              <Input
+                id="slot-room"
+                value={form.room}
+                onChange={(e) => setForm({ ...form, room: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="slot-label">Label</Label>
+              <Input
+                id="slot-label"
+                value={form.label}
+                placeholder="e.g. Recess, Gym"
+                onChange={(e) => setForm({ ...form, label: e.target.value })}
+              />
+            </div>
+            <div className="flex items-end gap-2">
+              <Button type="submit" loading={createSlot.isPending || updateSlot.isPending}>
+                <Plus className="h-4 w-4 mr-1" />
+                {editingId ? 'Update' : 'Add'}
+              </Button>
+              {editingId && (
+                <Button type="button" variant="ghost" onClick={resetForm}>
+                  Cancel
+                </Button>
+              )}
+            </div>
+            {formError && <p className="md:col-span-4 text-sm text-red-600">{formError}</p>}
+          </form>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
+        {columns.map((column) => (
+          <div key={column.key} className="bg-white border rounded-lg p-3">
+            <h2 className="font-semibold text-gray-800 mb-2">{column.title}</h2>
+            {column.slots.length === 0 ? (
+              <p className="text-sm text-gray-400">No slots</p>
+            ) : (
+              <ul className="space-y-2">
+                {column.slots.map((slot) => (
+                  <li key={slot.id} className="rounded border border-gray-200 p-2 text-sm">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">
+                        {toTime(slot.startMin)}–{toTime(slot.endMin)}
+                      </span>
+                      {slot.rotationDay && (
+                        <span className="text-xs bg-blue-50 text-blue-700 rounded px-1.5">
+                          Day {slot.rotationDay}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-gray-700">{describeSlot(slot)}</p>
+                    <div className="flex gap-1 mt-1">
+                      <button
+                        type="button"
+                        aria-label="Edit slot"
+                        className="text-gray-500 hover:text-blue-600"
+                        onClick={() => handleEdit(slot)}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </button>
+                      <button
+                        type="button"
+                        aria-label="Delete slot"
+                        className="text-gray-500 hover:text-red-600"
+                        onClick={() => deleteSlot.mutate(slot.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
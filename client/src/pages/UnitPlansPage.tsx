@@ -50,6 +50,9 @@ import { BlankTemplateQuickActions } from '../components/printing/BlankTemplateP
 import { SafeHtmlRenderer } from '../utils/sanitization';
 import RichTextEditor from '../components/RichTextEditor';
 import { PlanAccessTracker } from '../components/planning/PlanAccessTracker';
+import { PlanHistoryPanel } from '../components/collaboration';
+import FrameworkMigrationDialog from '../components/planning/FrameworkMigrationDialog';
+import { frameworkLabel } from '../hooks/useCurriculumFrameworks';
 
 // Extended UnitPlan type with all ETFO fields
 interface ExtendedUnitPlan extends UnitPlan {
@@ -78,6 +81,7 @@ export default function UnitPlansPage() {
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [editingUnit, setEditingUnit] = useState<string | null>(null);
   const [isTemplateModalOpen, setIsTemplateModalOpen] = useState(false);
+  const [isFrameworkDialogOpen, setIsFrameworkDialogOpen] = useState(false);
   const [selectedTemplate, setSelectedTemplate] = useState<PlanTemplate | null>(null);
 
   // Fetch data
@@ -86,7 +90,7 @@ export default function UnitPlansPage() {
   const { data: unitPlans = [], isLoading } = useUnitPlans(
     longRangePlanId ? { longRangePlanId } : {},
   );
-  const { data: selectedUnit } = useUnitPlan(unitId || '');
+  const { data: selectedUnit, refetch: refetchSelectedUnit } = useUnitPlan(unitId || '');
 
   // Curriculum expectations for AI assistance
   const { data: curriculumExpectations = [] } = useCurriculumExpectations({
@@ -574,6 +578,13 @@ export default function UnitPlansPage() {
                   </CardContent>
                 </Card>
               )}
+
+              {/* Version History */}
+              <PlanHistoryPanel
+                planType="unit"
+                planId={unit.id}
+                onRestored={() => refetchSelectedUnit()}
+              />
             </div>
           </div>
         </div>
@@ -619,6 +630,7 @@ export default function UnitPlansPage() {
             {longRangePlan ? (
               <p className="mt-2 text-gray-600">
                 {longRangePlan.subject} - Grade {longRangePlan.grade} - {longRangePlan.academicYear}
+                {longRangePlan.framework && ` - ${frameworkLabel(longRangePlan.framework)}`}
               </p>
             ) : (
               <p className="mt-2 text-gray-600">Manage unit plans across all long-range plans</p>
@@ -634,6 +646,11 @@ export default function UnitPlansPage() {
                 academicYear: longRangePlan?.academicYear || '',
               }}
             />
+            {longRangePlan && (
+              <Button variant="outline" onClick={() => setIsFrameworkDialogOpen(true)}>
+                Change Framework
+              </Button>
+            )}
             <Button
               variant="outline"
               onClick={() => setIsTemplateModalOpen(true)}
@@ -1210,6 +1227,14 @@ export default function UnitPlansPage() {
           </div>
         </div>
       </Dialog>
+
+      {longRangePlan && (
+        <FrameworkMigrationDialog
+          open={isFrameworkDialogOpen}
+          onClose={() => setIsFrameworkDialogOpen(false)}
+          plan={longRangePlan}
+        />
+      )}
     </div>
   );
 }
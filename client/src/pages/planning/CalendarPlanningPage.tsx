@@ -4,16 +4,25 @@ import moment from 'moment';
 import { format, startOfMonth, endOfMonth } from 'date-fns';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
-import { ChevronLeft, ChevronRight, Calendar as CalendarIcon, Plus, Filter } from 'lucide-react';
+import {
+  ChevronLeft,
+  ChevronRight,
+  Calendar as CalendarIcon,
+  Plus,
+  Filter,
+  Users,
+  Rss,
+} from 'lucide-react';
 import { api } from '../../api';
 import { useAuth } from '../../contexts/AuthContext';
 import { Button } from '../../components/ui/Button';
 import CalendarEventModal from '../../components/calendar/CalendarEventModal';
 import CalendarEventDetails from '../../components/calendar/CalendarEventDetails';
 import CalendarFilters from '../../components/calendar/CalendarFilters';
+import CalendarFeedsPanel from '../../components/calendar/CalendarFeedsPanel';
 import 'react-big-calendar/lib/css/react-big-calendar.css';
 import '../../styles/calendar.css';
-import type { CalendarEvent, ETFOLessonPlan, UnitPlan } from '../../types';
+import type { CalendarEvent, ETFOLessonPlan, TeamCalendarEvent, UnitPlan } from '../../types';
 
 // Setup the localizer for react-big-calendar
 const localizer = momentLocalizer(moment);
@@ -29,7 +38,7 @@ interface CalendarViewEvent extends Event {
     color: string;
     isEditable: boolean;
   };
-  originalData?: CalendarEvent | ETFOLessonPlan | UnitPlan;
+  originalData?: CalendarEvent | ETFOLessonPlan | UnitPlan | TeamCalendarEvent;
 }
 
 type CalendarEventType =
@@ -38,7 +47,8 @@ type CalendarEventType =
   | 'holiday'
   | 'pd-day'
   | 'assessment'
-  | 'school-event';
+  | 'school-event'
+  | 'team-event';
 
 interface CalendarFilter {
   subjects: string[];
@@ -72,6 +82,8 @@ export default function CalendarPlanningPage() {
     eventTypes: [],
     showWeekends: true,
   });
+  const [showTeamEvents, setShowTeamEvents] = useState(false);
+  const [showFeeds, setShowFeeds] = useState(false);
 
   // Fetch calendar events
   const { data: calendarEvents = [] } = useQuery({
@@ -91,6 +103,25 @@ export default function CalendarPlanningPage() {
     },
   });
 
+  // Fetch events from the user's team calendars when the overlay is on
+  const { data: teamEvents = [] } = useQuery({
+    queryKey: [
+      'team-calendar-events',
+      format(startOfMonth(currentDate), 'yyyy-MM-dd'),
+      format(endOfMonth(currentDate), 'yyyy-MM-dd'),
+    ],
+    queryFn: async () => {
+      const response = await api.get('/api/teams/calendar-events', {
+        params: {
+          start: format(startOfMonth(currentDate), 'yyyy-MM-dd'),
+          end: format(endOfMonth(currentDate), 'yyyy-MM-dd'),
+        },
+      });
+      return response.data;
+    },
+    enabled: showTeamEvents,
+  });
+
   // Fetch lessons for the current month
   const { data: lessons = [] } = useQuery({
     queryKey: ['lessons', format(currentDate, 'yyyy-MM')],
@@ -153,6 +184,25 @@ export default function CalendarPlanningPage() {
       });
     });
 
+    // Add team calendar events (read-only here; managed from the team page)
+    if (showTeamEvents) {
+      teamEvents.forEach((event: TeamCalendarEvent) => {
+        allEvents.push({
+          id: `team-${event.id}`,
+          title: `${event.calendar.team.name}: ${event.title}`,
+          start: new Date(event.startDate),
+          end: new Date(event.endDate),
+          allDay: event.allDay,
+          type: 'team-event',
+          metadata: {
+            color: event.calendar.color,
+            isEditable: false,
+          },
+          originalData: event,
+        });
+      });
+    }
+
     // Add lessons
     lessons.forEach((lesson: ETFOLessonPlan) => {
       if (lesson.date) {
@@ -224,7 +274,7 @@ export default function CalendarPlanningPage() {
       }
       return true;
     });
-  }, [calendarEvents, lessons, units, filters]);
+  }, [calendarEvents, teamEvents, showTeamEvents, lessons, units, filters]);
 
   // Event style getter
   const eventStyleGetter = useCallback((event: CalendarViewEvent) => {
@@ -329,6 +379,30 @@ export default function CalendarPlanningPage() {
                 <Filter className="h-4 w-4 mr-2" />
                 <span className="hidden sm:inline">Filters</span>
               </Button>
+              <Button
+                onClick={() => setShowTeamEvents(!showTeamEvents)}
+                variant="outline"
+                size="sm"
+                className={
+                  showTeamEvents ? 'bg-gray-100 flex-1 md:flex-initial' : 'flex-1 md:flex-initial'
+                }
+                title="Show events from your team calendars"
+              >
+                <Users className="h-4 w-4 mr-2" />
+                <span className="hidden sm:inline">Team Events</span>
+              </Button>
+              <Button
+                onClick={() => setShowFeeds(!showFeeds)}
+                variant="outline"
+                size="sm"
+                className={
+                  showFeeds ? 'bg-gray-100 flex-1 md:flex-initial' : 'flex-1 md:flex-initial'
+                }
+                title="Import school calendars and share yours"
+              >
+                <Rss className="h-4 w-4 mr-2" />
+                <span className="hidden sm:inline">Calendar Feeds</span>
+              </Button>
               <Button
                 onClick={() => setShowEventModal(true)}
                 size="sm"
@@ -371,7 +445,7 @@ export default function CalendarPlanningPage() {
         </div>
       );
     },
-    [view, showFilters],
+    [view, showFilters, showTeamEvents, showFeeds],
   );
 
   return (
@@ -401,6 +475,8 @@ export default function CalendarPlanningPage() {
         />
       )}
 
+      {showFeeds && <CalendarFeedsPanel />}
+
       <div className="bg-white rounded-lg shadow-lg p-2 sm:p-4 md:p-6">
         <Calendar
           localizer={localizer}
@@ -1,9 +1,12 @@
 import { api } from '@/api';
 
+export type ExportType = 'curriculum-heatmap' | 'strand-balance' | 'student-engagement';
+
 export interface ExportOptions {
-  type: string;
-  format: 'pdf' | 'csv' | 'png';
-  data: Record<string, any>;
+  type: ExportType;
+  format: 'pdf' | 'csv' | 'xlsx';
+  /** Same filters as the report endpoints; the server recomputes the report */
+  filters: Record<string, string | number | undefined>;
 }
 
 class ExportService {
@@ -42,7 +45,7 @@ class ExportService {
     const mimeTypes: Record<string, string> = {
       pdf: 'application/pdf',
       csv: 'text/csv',
-      png: 'image/png',
+      xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
     };
     return mimeTypes[format] || 'application/octet-stream';
   }
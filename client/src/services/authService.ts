@@ -9,6 +9,8 @@ export interface User {
   email: string;
   name: string;
   role: string;
+  /** Admin-created accounts must pick their own password before anything else */
+  mustChangePassword?: boolean;
 }
 
 export interface AuthTokens {
@@ -33,10 +35,11 @@ class AuthService {
    * Get the current access token
    */
   getAccessToken(): string | null {
-    // Check if token is expired
+    // Check if token is expired; the refresh token can still get a new one
     const expiresAt = this.getTokenExpiration();
     if (expiresAt && Date.now() >= expiresAt) {
-      this.clearTokens();
+      localStorage.removeItem(this.ACCESS_TOKEN_KEY);
+      localStorage.removeItem('auth_expires_at');
       return null;
     }
 
@@ -241,6 +244,10 @@ class AuthService {
     const token = this.getAccessToken();
 
     if (!token) {
+      // The access token expired while away; the session may still be open
+      if (this.getRefreshToken() && (await this.refreshToken())) {
+        return this.verifyAuth();
+      }
       return null;
     }
 
@@ -336,7 +343,8 @@ class AuthService {
    */
   async ensureValidToken(): Promise<boolean> {
     if (!this.isAuthenticated()) {
-      return false;
+      // Access tokens are short-lived; get a new one if the session is still open
+      return this.getRefreshToken() ? await this.refreshToken() : false;
     }
 
     if (this.isTokenExpiringSoon() && this.getRefreshToken()) {
@@ -0,0 +1,62 @@
+/**
+ * Client for the guardian portal. Guardians are not teacher accounts, so this
+ * keeps its own session token and never touches the teacher auth service.
+ */
+
+import axios from 'axios';
+
+const SESSION_KEY = 'guardian_portal_session';
+
+const base = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000';
+
+interface PortalSession {
+  token: string;
+  expiresAt: string;
+}
+
+export function getPortalSession(): PortalSession | null {
+  try {
+    const session = JSON.parse(
+      sessionStorage.getItem(SESSION_KEY) ?? 'null',
+    ) as PortalSession | null;
+    if (!session || new Date(session.expiresAt).getTime() <= Date.now()) {
+      return null;
+    }
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+export function setPortalSession(session: PortalSession) {
+  sessionStorage.setItem(SESSION_KEY, JSON.stringify(session));
+}
+
+export function clearPortalSession() {
+  sessionStorage.removeItem(SESSION_KEY);
+}
+
+export const portalApi = axios.create({
+  baseURL: base,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+});
+
+portalApi.interceptors.request.use((config) => {
+  const session = getPortalSession();
+  if (session) {
+    config.headers.Authorization = `Bearer ${session.token}`;
+  }
+  return config;
+});
+
+portalApi.interceptors.response.use(
+  (response) => response,
+  (error) => {
+    if (error.response?.status === 401) {
+      clearPortalSession();
+    }
+    return Promise.reject(error);
+  },
+);
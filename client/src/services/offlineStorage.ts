@@ -18,6 +18,11 @@ export interface OfflineChange {
   timestamp: number;
   synced: boolean;
   conflictResolution?: 'local' | 'remote' | 'merge';
+  // Server version the edit started from, used by /api/sync to detect conflicts
+  baseUpdatedAt?: string;
+  base?: StoredData;
+  // Why the server refused the change; it stays queued until the user discards it
+  rejectedReason?: string;
 }
 
 export interface CachedData {
@@ -88,8 +93,17 @@ class OfflineStorageService {
   ): Promise<string> {
     await this.ensureInitialized();
 
+    // Later edits to a record still waiting to sync share the first edit's
+    // base, not the local copy the first edit already changed
+    const pending = change.entityId
+      ? (await this.getUnsyncedChanges()).find(
+          (c) => c.entity === change.entity && c.entityId === change.entityId,
+        )
+      : undefined;
+
     const fullChange: OfflineChange = {
       ...change,
+      ...(pending && { baseUpdatedAt: pending.baseUpdatedAt, base: pending.base }),
       id: nanoid(),
       timestamp: Date.now(),
       synced: false,
@@ -146,6 +160,46 @@ class OfflineStorageService {
     });
   }
 
+  // Record why the server refused a change, keeping it in the queue
+  async markChangeRejected(changeId: string, reason: string): Promise<void> {
+    await this.ensureInitialized();
+
+    const transaction = this.db!.transaction(['changes'], 'readwrite');
+    const store = transaction.objectStore('changes');
+
+    return new Promise((resolve, reject) => {
+      const getRequest = store.get(changeId);
+
+      getRequest.onsuccess = () => {
+        const change = getRequest.result;
+        if (change) {
+          change.rejectedReason = reason;
+          const putRequest = store.put(change);
+          putRequest.onsuccess = () => resolve();
+          putRequest.onerror = () => reject(putRequest.error);
+        } else {
+          resolve();
+        }
+      };
+
+      getRequest.onerror = () => reject(getRequest.error);
+    });
+  }
+
+  // Drop a queued change without syncing it
+  async discardChange(changeId: string): Promise<void> {
+    await this.ensureInitialized();
+
+    const transaction = this.db!.transaction(['changes'], 'readwrite');
+    const store = transaction.objectStore('changes');
+
+    return new Promise((resolve, reject) => {
+      const request = store.delete(changeId);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
   // Cache data with optional expiration
   async cacheData(key: string, data: StoredData, ttlMinutes?: number): Promise<void> {
     await this.ensureInitialized();
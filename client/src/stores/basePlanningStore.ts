@@ -2,7 +2,8 @@
 // Provides common offline functionality for all planning stores
 
 import { StateCreator } from 'zustand';
-import { offlineStorage } from '../services/offlineStorage';
+import { api } from '../api';
+import { offlineStorage, StoredData } from '../services/offlineStorage';
 import { isOnline } from '../utils/serviceWorkerRegistration';
 
 export interface OfflineState {
@@ -30,6 +31,22 @@ export interface SyncConfig<T> {
   mergingStrategy?: 'local-wins' | 'remote-wins' | 'merge';
 }
 
+// Response from POST /api/sync
+interface SyncResult {
+  applied: { changeId: string; entityId: string; tempId?: string }[];
+  conflicts: {
+    changeId: string;
+    entity: string;
+    entityId: string;
+    reason: 'modified' | 'deleted';
+    fields: string[];
+    local: StoredData;
+    remote: StoredData | null;
+  }[];
+  held: string[];
+  rejected: { changeId: string; error: string }[];
+}
+
 // Create base store slice for offline functionality
 export const createOfflineSlice = <T extends Record<string, unknown>>(
   config: SyncConfig<T>
@@ -114,56 +131,76 @@ async function syncWithServer<T extends Record<string, unknown>>(
     );
 
     if (relevantChanges.length > 0) {
-      // Handle conflict resolution
-      const serverData = await config.fetchFromServer();
-      const conflictChanges: ChangeRecord[] = relevantChanges.map(change => ({
-        id: change.id,
-        entity: change.entity,
-        data: change.data,
-        timestamp: new Date(change.timestamp).toISOString()
-      }));
-      const conflicts = await detectConflicts(state, serverData, conflictChanges);
+      // Replay the queue; the server applies what it can and reports the rest
+      const { data: result } = await api.post<SyncResult>('/api/sync', {
+        changes: relevantChanges.map(({ id, type, entity, entityId, data, baseUpdatedAt, base }) => ({
+          id,
+          type,
+          entity,
+          entityId,
+          data,
+          baseUpdatedAt,
+          base
+        }))
+      });
 
-      if (conflicts.length > 0) {
-        // Resolve conflicts based on strategy
-        const resolvedData = await resolveConflicts(
-          conflicts,
-          state,
-          serverData,
-          config.mergingStrategy || 'local-wins'
+      // Conflicts go to the conflict store with every queued edit to the record
+      const settled = new Set(result.applied.map(applied => applied.changeId));
+      for (const conflict of result.conflicts) {
+        const edits = relevantChanges.filter(
+          change => change.entityId === conflict.entityId && change.type === 'UPDATE'
+        );
+        await offlineStorage.saveConflict(
+          Object.assign({}, conflict.remote, ...edits.map(change => change.data)),
+          conflict.remote ?? {},
+          conflict.entity,
+          conflict.entityId
         );
-        
-        // Save resolved data
-        await config.saveToServer(resolvedData as T);
-      } else {
-        // No conflicts, save local changes
-        await config.saveToServer(state as T);
+        edits.forEach(change => settled.add(change.id));
       }
 
-      // Mark changes as synced
+      // Rejected changes, and later ones held behind them, stay queued until
+      // the user discards them
+      for (const rejected of result.rejected) {
+        await offlineStorage.markChangeRejected(rejected.changeId, rejected.error);
+      }
       for (const change of relevantChanges) {
-        await offlineStorage.markChangeSynced(change.id);
+        if (settled.has(change.id)) {
+          await offlineStorage.markChangeSynced(change.id);
+        }
       }
+      window.dispatchEvent(new CustomEvent('offline-changes-updated'));
+
+      const serverData = await config.fetchFromServer();
+      const remaining = relevantChanges.length - settled.size;
+      set((s) => ({
+        ...s,
+        ...serverData,
+        lastSyncedAt: new Date(),
+        hasOfflineChanges: remaining > 0,
+        pendingChanges: remaining,
+        syncStatus: result.rejected.length > 0 ? 'error' : 'idle',
+        syncError: result.rejected.length > 0
+          ? `${result.rejected.length} offline change(s) could not be saved`
+          : null
+      }));
     } else {
       // No offline changes, just fetch latest from server
       const serverData = await config.fetchFromServer();
-      set((s) => ({ ...s, ...serverData }));
+      set((s) => ({
+        ...s,
+        ...serverData,
+        lastSyncedAt: new Date(),
+        hasOfflineChanges: false,
+        pendingChanges: 0,
+        syncStatus: 'idle'
+      }));
     }
 
-    // Update sync status
-    set((s) => ({
-      ...s,
-      lastSyncedAt: new Date(),
-      hasOfflineChanges: false,
-      pendingChanges: 0,
-      syncStatus: 'idle'
-    }));
-
     // Cache the latest data
     await offlineStorage.cacheData(config.getCacheKey(), state, 60); // Cache for 1 hour
 
   } catch (error) {
-    console.error('Sync failed:', error);
     set((s) => ({
       ...s,
       syncStatus: 'error',
@@ -172,101 +209,6 @@ async function syncWithServer<T extends Record<string, unknown>>(
   }
 }
 
-// Detect conflicts between local and server data
-interface ConflictData {
-  type: string;
-  localData: unknown;
-  serverData: unknown;
-  changes: unknown[];
-}
-
-interface ChangeRecord {
-  id: string;
-  entity: string;
-  data: unknown;
-  timestamp: string;
-}
-
-async function detectConflicts(
-  localData: Record<string, unknown>,
-  serverData: Record<string, unknown>,
-  changes: ChangeRecord[]
-): Promise<ConflictData[]> {
-  const conflicts: ConflictData[] = [];
-  
-  // Simple conflict detection based on timestamps
-  const localTimestamp = localData.lastModified || localData.updatedAt;
-  const serverTimestamp = serverData.lastModified || serverData.updatedAt;
-  
-  if (localTimestamp && serverTimestamp) {
-    const localTime = new Date(localTimestamp as string | number | Date).getTime();
-    const serverTime = new Date(serverTimestamp as string | number | Date).getTime();
-    
-    // If server has newer changes than our last sync
-    if (serverTime > localTime) {
-      conflicts.push({
-        type: 'concurrent-edit',
-        localData,
-        serverData,
-        changes
-      });
-    }
-  }
-  
-  return conflicts;
-}
-
-// Resolve conflicts based on strategy
-async function resolveConflicts(
-  conflicts: ConflictData[],
-  localData: Record<string, unknown>,
-  serverData: Record<string, unknown>,
-  strategy: 'local-wins' | 'remote-wins' | 'merge'
-): Promise<Record<string, unknown>> {
-  if (conflicts.length === 0) return localData;
-  
-  switch (strategy) {
-    case 'local-wins':
-      return localData;
-      
-    case 'remote-wins':
-      return serverData;
-      
-    case 'merge': {
-      // Simple merge strategy - combine arrays, prefer local for scalar values
-      const merged = { ...serverData };
-      
-      for (const key in localData) {
-        if (Array.isArray(localData[key]) && Array.isArray(serverData[key])) {
-          // Merge arrays by combining unique items
-          const combined = [...localData[key], ...serverData[key]];
-          merged[key] = Array.from(new Set(combined.map(item => 
-            typeof item === 'object' ? JSON.stringify(item) : item
-          ))).map(item => 
-            typeof item === 'string' && item.startsWith('{') ? JSON.parse(item) : item
-          );
-        } else if (localData[key] !== serverData[key]) {
-          // For scalar values, prefer local
-          merged[key] = localData[key];
-        }
-      }
-      
-      // Save conflict for user review
-      await offlineStorage.saveConflict(
-        localData,
-        serverData,
-        'planning-data',
-        (merged.id || 'unknown') as string
-      );
-      
-      return merged;
-    }
-      
-    default:
-      return localData;
-  }
-}
-
 // Create debounced auto-save functionality
 interface AutoSaveStore {
   getState: () => { hasOfflineChanges: boolean; isSaving?: boolean };
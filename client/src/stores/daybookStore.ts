@@ -264,6 +264,7 @@ export const useDaybookStore = create<DaybookState & BaseActions>()(
                 await offlineStorage.saveOfflineChange({
                   type: 'CREATE',
                   entity: 'daybook',
+                  entityId: newEntry.id,
                   data: newEntry as unknown as StoredData,
                 });
 
@@ -305,7 +306,8 @@ export const useDaybookStore = create<DaybookState & BaseActions>()(
                   state.isSaving = false;
                 });
               } else {
-                // Update offline
+                // Update offline, remembering the server version it was based on
+                const base = get().entries.find((e) => e.id === id);
                 set((state) => {
                   const index = state.entries.findIndex((e) => e.id === id);
                   if (index !== -1) {
@@ -324,6 +326,8 @@ export const useDaybookStore = create<DaybookState & BaseActions>()(
                   entity: 'daybook',
                   entityId: id,
                   data: updatedEntry,
+                  baseUpdatedAt: base?.updatedAt,
+                  base: base as unknown as StoredData | undefined,
                 });
               }
             } catch (error) {
@@ -354,7 +358,8 @@ export const useDaybookStore = create<DaybookState & BaseActions>()(
                   state.isSaving = false;
                 });
               } else {
-                // Delete offline
+                // Delete offline, remembering the server version it was based on
+                const base = get().entries.find((e) => e.id === id);
                 set((state) => {
                   state.entries = state.entries.filter((e) => e.id !== id);
                   if (state.currentEntry?.id === id) {
@@ -370,6 +375,7 @@ export const useDaybookStore = create<DaybookState & BaseActions>()(
                   entity: 'daybook',
                   entityId: id,
                   data: { id },
+                  baseUpdatedAt: base?.updatedAt,
                 });
               }
             } catch (error) {
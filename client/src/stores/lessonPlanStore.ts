@@ -240,6 +240,7 @@ export const useLessonPlanStore = create<LessonPlanState & BaseActions>()(
                 await offlineStorage.saveOfflineChange({
                   type: 'CREATE',
                   entity: 'lesson-plan',
+                  entityId: newLesson.id,
                   data: newLesson as unknown as StoredData,
                 });
 
@@ -281,7 +282,8 @@ export const useLessonPlanStore = create<LessonPlanState & BaseActions>()(
                   state.isSaving = false;
                 });
               } else {
-                // Update offline
+                // Update offline, remembering the server version it was based on
+                const base = get().lessonPlans.find((p) => p.id === id);
                 set((state) => {
                   const index = state.lessonPlans.findIndex((p) => p.id === id);
                   if (index !== -1) {
@@ -300,6 +302,8 @@ export const useLessonPlanStore = create<LessonPlanState & BaseActions>()(
                   entity: 'lesson-plan',
                   entityId: id,
                   data: updatedLesson,
+                  baseUpdatedAt: base?.updatedAt,
+                  base: base as unknown as StoredData | undefined,
                 });
               }
             } catch (error) {
@@ -330,7 +334,8 @@ export const useLessonPlanStore = create<LessonPlanState & BaseActions>()(
                   state.isSaving = false;
                 });
               } else {
-                // Delete offline
+                // Delete offline, remembering the server version it was based on
+                const base = get().lessonPlans.find((p) => p.id === id);
                 set((state) => {
                   state.lessonPlans = state.lessonPlans.filter((p) => p.id !== id);
                   if (state.currentLesson?.id === id) {
@@ -346,6 +351,7 @@ export const useLessonPlanStore = create<LessonPlanState & BaseActions>()(
                   entity: 'lesson-plan',
                   entityId: id,
                   data: { id },
+                  baseUpdatedAt: base?.updatedAt,
                 });
               }
             } catch (error) {
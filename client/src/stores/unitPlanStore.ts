@@ -223,6 +223,7 @@ export const useUnitPlanStore = create<UnitPlanState & BaseActions>()(
                 await offlineStorage.saveOfflineChange({
                   type: 'CREATE',
                   entity: 'unit-plan',
+                  entityId: newPlan.id,
                   data: newPlan as unknown as StoredData,
                 });
 
@@ -264,7 +265,8 @@ export const useUnitPlanStore = create<UnitPlanState & BaseActions>()(
                   state.isSaving = false;
                 });
               } else {
-                // Update offline
+                // Update offline, remembering the server version it was based on
+                const base = get().unitPlans.find((p) => p.id === id);
                 set((state) => {
                   const index = state.unitPlans.findIndex((p) => p.id === id);
                   if (index !== -1) {
@@ -283,6 +285,8 @@ export const useUnitPlanStore = create<UnitPlanState & BaseActions>()(
                   entity: 'unit-plan',
                   entityId: id,
                   data: updatedPlan,
+                  baseUpdatedAt: base?.updatedAt,
+                  base: base as unknown as StoredData | undefined,
                 });
               }
             } catch (error) {
@@ -313,7 +317,8 @@ export const useUnitPlanStore = create<UnitPlanState & BaseActions>()(
                   state.isSaving = false;
                 });
               } else {
-                // Delete offline
+                // Delete offline, remembering the server version it was based on
+                const base = get().unitPlans.find((p) => p.id === id);
                 set((state) => {
                   state.unitPlans = state.unitPlans.filter((p) => p.id !== id);
                   if (state.currentPlan?.id === id) {
@@ -329,6 +334,7 @@ export const useUnitPlanStore = create<UnitPlanState & BaseActions>()(
                   entity: 'unit-plan',
                   entityId: id,
                   data: { id },
+                  baseUpdatedAt: base?.updatedAt,
                 });
               }
             } catch (error) {
@@ -78,11 +78,48 @@ export interface MaterialList {
 
 export interface TimetableSlot {
   id: number;
-  day: number;
+  /** Weekday index, 0 = Monday. Null for slots that follow the rotation only. */
+  day: number | null;
+  /** Cycle day (1-based) for rotating timetables, e.g. Day 1–6 */
+  rotationDay?: number | null;
   startMin: number;
   endMin: number;
   subjectId?: number | null;
   subject?: Subject | null;
+  label?: string | null;
+  room?: string | null;
+}
+
+export interface TimetableSlotInput {
+  day?: number | null;
+  rotationDay?: number | null;
+  startMin: number;
+  endMin: number;
+  subjectId?: number | null;
+  subjectName?: string;
+  label?: string | null;
+  room?: string | null;
+}
+
+export interface ClassTimetable {
+  id: number | null;
+  rotationLength: number | null;
+  rotationStart: string | null;
+  slots: TimetableSlot[];
+}
+
+/** A timetable slot resolved onto a calendar date */
+export interface TimetableBlock {
+  slotId: number;
+  date: string;
+  day: number;
+  rotationDay: number | null;
+  startMin: number;
+  endMin: number;
+  subjectId: number | null;
+  subjectName: string | null;
+  label: string | null;
+  room: string | null;
 }
 
 export interface DailyPlanItem {
@@ -119,12 +156,54 @@ export interface TeacherPreferencesInput {
   subPlanProcedures?: string;
 }
 
+export type NotificationChannel = 'in_app' | 'email' | 'push';
+
 export interface Notification {
-  id: number;
+  id: string;
+  type: 'info' | 'warning' | 'error' | 'success';
+  category: string;
+  title: string;
   message: string;
-  type?: string;
-  dueDate?: string;
+  priority: 'low' | 'medium' | 'high' | 'urgent';
+  channels: NotificationChannel[];
+  metadata?: Record<string, unknown>;
   read: boolean;
+  readAt?: string | null;
+  expiresAt?: string;
+  createdAt: string;
+}
+
+export interface NotificationPage {
+  notifications: Notification[];
+  total: number;
+  unreadCount: number;
+  limit: number;
+  offset: number;
+  hasMore: boolean;
+}
+
+export interface NotificationPreferences {
+  emailEnabled: boolean;
+  pushEnabled: boolean;
+  /** timeZone is the IANA zone the times are in */
+  quietHours: { start: string; end: string; timeZone: string };
+  categories: Record<string, { enabled: boolean; channels: NotificationChannel[] }>;
+}
+
+export type EmailDeliveryStatus = 'queued' | 'sending' | 'sent' | 'failed';
+
+export interface EmailDelivery {
+  id: string;
+  to: string;
+  subject: string;
+  status: EmailDeliveryStatus;
+  attempts: number;
+  lastError: string | null;
+  relatedType: string | null;
+  relatedId: string | null;
+  attachments: string[];
+  nextAttemptAt: string;
+  sentAt: string | null;
   createdAt: string;
 }
 
@@ -145,10 +224,29 @@ export interface CalendarEvent {
   start: string;
   end: string;
   allDay: boolean;
-  eventType: 'PD_DAY' | 'ASSEMBLY' | 'TRIP' | 'HOLIDAY' | 'CUSTOM';
+  eventType: 'PD_DAY' | 'ASSEMBLY' | 'TRIP' | 'HOLIDAY' | 'REPORT_DEADLINE' | 'CUSTOM';
   source: 'MANUAL' | 'ICAL_FEED' | 'SYSTEM';
 }
 
+export interface TeamCalendarEvent {
+  id: string;
+  calendarId: string;
+  title: string;
+  description?: string | null;
+  startDate: string;
+  endDate: string;
+  allDay: boolean;
+  eventType: 'meeting' | 'deadline' | 'field-trip' | 'assessment' | 'planning';
+  location?: string | null;
+  createdByUserId: number;
+  calendar: {
+    id: string;
+    title: string;
+    color: string;
+    team: { id: string; name: string };
+  };
+}
+
 
 
 
@@ -269,12 +367,14 @@ export interface Student {
   reflections?: StudentReflection[];
   parentSummaries?: ParentSummary[];
   goals?: StudentGoal[];
+  archivedAt?: string | null;
   createdAt: string;
   updatedAt: string;
   _count?: {
     artifacts: number;
     reflections: number;
     parentSummaries: number;
+    guardians?: number;
   };
   user?: {
     id: number;
@@ -365,6 +465,7 @@ export interface StudentGoalInput {
 export interface StudentReflectionInput {
   date?: string;
   text?: string;
+  content?: string;
   emoji?: string;
   voicePath?: string;
   // Legacy outcome ID removed
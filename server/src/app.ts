@@ -9,6 +9,7 @@ import { PrismaClient } from '@teaching-engine/database';
 import { errorHandler } from './middleware/errorHandler';
 import { rateLimiters } from './middleware/rateLimiter';
 import { authRoutes } from './routes/auth';
+import { sessionRoutes } from './routes/sessions';
 import { userRoutes } from './routes/user';
 
 export function createApp(prisma: PrismaClient): Express {
@@ -34,6 +35,7 @@ export function createApp(prisma: PrismaClient): Express {
 
   // Routes
   app.use('/api/auth', authRoutes(prisma));
+  app.use('/api/auth', sessionRoutes(prisma));
   app.use('/api/user', userRoutes(prisma));
 
   // 404 handler
@@ -31,10 +31,12 @@ import studentRoutes from './routes/student';
 import parentSummaryRoutes from './routes/parentSummary';
 import newsletterRoutes from './routes/newsletters';
 import curriculumExpectationRoutes from './routes/curriculum-expectations';
+import curriculumFrameworkRoutes from './routes/curriculum-frameworks';
 import longRangePlanRoutes from './routes/long-range-plans';
 import unitPlanRoutes from './routes/unit-plans';
 import etfoLessonPlanRoutes from './routes/etfo-lesson-plans';
 import daybookEntryRoutes from './routes/daybook-entries';
+import materialRoutes from './routes/materials';
 import etfoProgressRoutes from './routes/etfo-progress';
 import plannerStateRoutes from './routes/planner-state';
 import workflowStateRoutes from './routes/workflow-state';
@@ -45,10 +47,22 @@ import aiActivityGenerationRoutes from './routes/ai-activity-generation';
 import batchProcessingRoutes from './routes/batch-processing';
 import templateRoutes from './routes/templates';
 import calendarEventRoutes from './routes/calendar-events';
+import calendarFeedRoutes from './routes/calendar-feeds';
+import icalRoutes from './routes/ical';
+import timetableRoutes from './routes/timetable';
+import emailDeliveryRoutes from './routes/email-deliveries';
 import recentPlansRoutes from './routes/recent-plans';
+import planVersionRoutes from './routes/plan-versions';
+import resourceLibraryRoutes from './routes/resource-library';
+import analyticsRoutes from './routes/analytics';
+import schoolRoutes from './routes/schools';
+import boardRoutes from './routes/boards';
+import syncRoutes from './routes/sync';
+import guardianPortalRoutes from './routes/guardian-portal';
 import batchApiRoutes from './routes/batch';
 import subPlanRoutes from './routes/sub-plan';
 import { authRoutes } from './routes/auth';
+import { sessionRoutes } from './routes/sessions';
 import { teamRoutes } from './routes/teams';
 import { sharingRoutes } from './routes/sharing';
 import { commentRoutes } from './routes/comments';
@@ -61,9 +75,22 @@ import {
 } from './services/initializeServices';
 import logger from './logger';
 import { prisma } from './prisma';
+import { scheduleProgressCheck } from './jobs/progressCheck';
+import { scheduleReportDeadlineReminders } from './jobs/reportDeadlineReminder';
+import { scheduleNewsletterTriggers } from './jobs/newsletterTrigger';
+import { scheduleEmailOutbox } from './jobs/emailOutbox';
+import { scheduleCalendarFeedRefresh } from './jobs/calendarFeedRefresh';
+import {
+  clearSessionCookies,
+  revokeSession,
+  sessionMeta,
+  setSessionCookies,
+  startSession,
+} from './services/sessionService';
 import { rateLimiters } from './middleware/rateLimiter';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
 import { sanitizeInput } from './middleware/inputSanitization';
+import { requestContext } from './middleware/requestContext';
 import performanceMonitoring, { performanceMonitor } from './middleware/performanceMonitoring';
 
 // Initialize Express app
@@ -144,6 +171,9 @@ app.use(sanitizeInput);
 log('Applying performance monitoring...');
 app.use(performanceMonitoring);
 
+// Expose the current request to services (LLM usage accounting)
+app.use(requestContext);
+
 // Health check endpoints
 app.get('/health', (_req, res) => {
   res.status(200).json({ status: 'ok' });
@@ -210,7 +240,14 @@ app.post('/api/login', rateLimiters.auth, async (req, res) => {
 
     const user = await prisma.user.findUnique({
       where: { email: sanitizedEmail },
-      select: { id: true, email: true, name: true, role: true, password: true },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        role: true,
+        mustChangePassword: true,
+        password: true,
+      },
     });
 
     if (!user) {
@@ -224,44 +261,24 @@ app.post('/api/login', rateLimiters.auth, async (req, res) => {
       return res.status(401).json({ error: 'Invalid credentials' });
     }
 
-    const secret = process.env.JWT_SECRET;
-    if (!secret) {
+    if (!process.env.JWT_SECRET) {
       logger.error('CRITICAL: JWT_SECRET environment variable not configured');
       return res.status(500).json({ error: 'Server configuration error' });
     }
 
-    const token = jwt.sign(
-      {
-        userId: user.id.toString(),
-        email: user.email,
-        iat: Math.floor(Date.now() / 1000),
-      },
-      secret,
-      {
-        expiresIn: process.env.JWT_EXPIRES_IN || '7d',
-        algorithm: 'HS256',
-      } as jwt.SignOptions,
-    );
+    const tokens = await startSession(prisma, user, sessionMeta(req));
 
     // Return user data without password
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     const { password, ...userData } = user;
 
-    // Set JWT in httpOnly cookie for security
-    const isProduction = process.env.NODE_ENV === 'production';
-    const cookieOptions = {
-      httpOnly: true,
-      secure: isProduction, // Use secure flag in production
-      sameSite: isProduction ? ('strict' as const) : ('lax' as const), // Use 'lax' in development for cross-port requests
-      maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
-      path: '/',
-    };
-
-    res.cookie('authToken', token, cookieOptions);
+    // Set the access and refresh tokens in httpOnly cookies for security
+    setSessionCookies(res, tokens);
 
     const response = {
       user: userData,
-      token: token, // Include token in response for E2E tests
+      tokens,
+      token: tokens.accessToken, // Include token in response for E2E tests
     };
 
     res.json(response);
@@ -279,7 +296,7 @@ app.get('/api/auth/me', authenticate, async (req: Request, res: Response) => {
     }
     const user = await prisma.user.findUnique({
       where: { id: req.user.id },
-      select: { id: true, email: true, name: true, role: true },
+      select: { id: true, email: true, name: true, role: true, mustChangePassword: true },
     });
     if (!user) return res.status(404).json({ error: 'User not found' });
     res.json(user);
@@ -293,15 +310,19 @@ app.get('/api/auth/check', authenticate, (req: Request, res: Response) => {
   res.json({ userId: req.user?.id });
 });
 
-// Logout endpoint to clear httpOnly cookie
-app.post('/api/logout', (_req, res) => {
-  const isProduction = process.env.NODE_ENV === 'production';
-  res.clearCookie('authToken', {
-    httpOnly: true,
-    secure: isProduction,
-    sameSite: isProduction ? ('strict' as const) : ('lax' as const),
-    path: '/',
-  });
+// Logout endpoint: ends the session and clears the httpOnly cookies
+app.post('/api/logout', async (req, res) => {
+  try {
+    const token = req.cookies?.authToken || req.headers.authorization?.replace('Bearer ', '');
+    // The token may have expired already; its session should end regardless
+    const decoded = token ? (jwt.decode(token) as jwt.JwtPayload | null) : null;
+    if (decoded?.sid && decoded.userId) {
+      await revokeSession(prisma, Number(decoded.userId), decoded.sid);
+    }
+  } catch (error) {
+    logger.warn('Could not end session on logout', { error });
+  }
+  clearSessionCookies(res);
   res.json({ message: 'Logged out successfully' });
 });
 
@@ -318,6 +339,7 @@ if (process.env.NODE_ENV === 'test' || process.env.NODE_ENV === 'development') {
 // Mount auth routes (no authentication required)
 log('Mounting auth routes...');
 app.use('/api', authRoutes(prisma));
+app.use('/api/auth', sessionRoutes(prisma));
 
 // Mount user routes (authenticated)
 log('Mounting user routes...');
@@ -326,6 +348,7 @@ app.use('/api/user', authenticate, rateLimiters.api, userRoutes(prisma));
 // Mount notification routes (authenticated)
 log('Mounting notification routes...');
 app.use('/api/notifications', authenticate, rateLimiters.api, notificationRoutes);
+app.use('/api/email-deliveries', authenticate, rateLimiters.api, emailDeliveryRoutes);
 
 // Apply authentication and rate limiting to all API routes
 log('Mounting ETFO-aligned API routes...');
@@ -343,10 +366,15 @@ app.use(
   rateLimiters.read,
   curriculumExpectationRoutes,
 );
+app.use('/api/curriculum-frameworks', authenticate, rateLimiters.read, curriculumFrameworkRoutes);
 app.use('/api/long-range-plans', authenticate, rateLimiters.write, longRangePlanRoutes);
 app.use('/api/unit-plans', authenticate, rateLimiters.write, unitPlanRoutes);
 app.use('/api/etfo-lesson-plans', authenticate, rateLimiters.write, etfoLessonPlanRoutes);
 app.use('/api/daybook-entries', authenticate, rateLimiters.write, daybookEntryRoutes);
+app.use('/api/materials', authenticate, rateLimiters.read, materialRoutes);
+app.use('/api/sync', authenticate, rateLimiters.write, syncRoutes);
+// Guardians sign in with their own portal tokens, not teacher accounts
+app.use('/api/portal', guardianPortalRoutes);
 app.use('/api/etfo', authenticate, rateLimiters.read, etfoProgressRoutes);
 
 // State Management Routes
@@ -359,9 +387,15 @@ app.use('/api/templates', authenticate, rateLimiters.api, templateRoutes);
 
 // Calendar Routes
 app.use('/api/calendar-events', authenticate, rateLimiters.api, calendarEventRoutes);
+app.use('/api/calendar-feeds', authenticate, rateLimiters.write, calendarFeedRoutes);
+// Calendar apps subscribe with the secret in the URL, not a session
+app.use('/api/ical', rateLimiters.read, icalRoutes);
+app.use('/api/timetable', authenticate, rateLimiters.api, timetableRoutes);
 
 // Recent Plans Routes
 app.use('/api/recent-plans', authenticate, rateLimiters.api, recentPlansRoutes);
+app.use('/api/plan-versions', authenticate, rateLimiters.api, planVersionRoutes);
+app.use('/api/analytics', authenticate, rateLimiters.api, analyticsRoutes);
 
 // AI status endpoint (maps to ai-planning/status for backward compatibility)
 app.get('/api/ai/status', authenticate, async (req, res) => {
@@ -391,6 +425,11 @@ app.use('/api', authenticate, rateLimiters.api, batchApiRoutes);
 app.use('/api/teams', authenticate, rateLimiters.api, teamRoutes(prisma));
 app.use('/api/sharing', authenticate, rateLimiters.api, sharingRoutes(prisma));
 app.use('/api/comments', authenticate, rateLimiters.api, commentRoutes(prisma));
+app.use('/api/resource-library', authenticate, rateLimiters.api, resourceLibraryRoutes);
+
+// School and Board Routes
+app.use('/api/schools', authenticate, rateLimiters.api, schoolRoutes);
+app.use('/api/boards', authenticate, rateLimiters.api, boardRoutes);
 
 // Service health check endpoint (no auth required for monitoring)
 app.get('/api/health/services', async (_req, res) => {
@@ -474,7 +513,15 @@ if (isDirectRun || isE2ETest || isDevelopment) {
         console.log('Server address:', server.address());
         log('Server started successfully');
 
-        // Background jobs disabled - ETFO approach uses manual workflow
+        // Background jobs notify teachers through the notification service
+        if (process.env.NODE_ENV !== 'test') {
+          scheduleProgressCheck();
+          scheduleReportDeadlineReminders();
+          scheduleNewsletterTriggers();
+          scheduleEmailOutbox();
+          scheduleCalendarFeedRefresh();
+          log('Background jobs scheduled');
+        }
       });
 
       server.on('error', (err) => {
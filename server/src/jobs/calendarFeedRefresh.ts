@@ -0,0 +1,20 @@
+import cron from 'node-cron';
+import logger from '../logger';
+import { refreshAllFeeds } from '../services/icalService';
+
+/**
+ * Re-import subscribed iCalendar feeds every six hours. Board calendars
+ * change rarely; teachers can refresh a feed by hand in between.
+ */
+export function scheduleCalendarFeedRefresh() {
+  cron.schedule('15 */6 * * *', async () => {
+    try {
+      const result = await refreshAllFeeds();
+      if (result.refreshed || result.failed) {
+        logger.info(result, 'Calendar feeds refreshed');
+      }
+    } catch (error) {
+      logger.error({ error }, 'Calendar feed refresh failed');
+    }
+  });
+}
@@ -0,0 +1,21 @@
+import cron from 'node-cron';
+import logger from '../logger';
+import { processOutbox } from '../services/emailService';
+
+/**
+ * Deliver queued emails and retry failed attempts once their backoff expires.
+ * New emails are sent as soon as they are queued; this catches retries and
+ * anything queued while the server was down.
+ */
+export function scheduleEmailOutbox() {
+  cron.schedule('* * * * *', async () => {
+    try {
+      const result = await processOutbox();
+      if (result.sent || result.retrying || result.failed) {
+        logger.info(result, 'Email outbox processed');
+      }
+    } catch (error) {
+      logger.error({ error }, 'Email outbox run failed');
+    }
+  });
+}
@@ -1,23 +1,71 @@
 import cron from 'node-cron';
+import { prisma } from '../prisma';
+import logger from '../logger';
+import { notificationService } from '../services/notificationService';
+import {
+  getSchoolYear,
+  provinceForUser,
+  schoolYearStartFor,
+  type TermDate,
+} from '../services/schoolCalendarService';
+
+export type { TermDate };
 
 export interface TermMidpoint {
   term: string;
   date: Date;
 }
 
-export const TERM_MIDPOINTS: TermMidpoint[] = [
-  { term: 'Term 1', date: new Date('2025-10-15') },
-  { term: 'Term 2', date: new Date('2025-02-14') },
-  { term: 'Term 3', date: new Date('2025-05-05') },
-];
-
-export async function checkNewsletterTriggers(midpoints: TermMidpoint[] = TERM_MIDPOINTS) {
-  // DISABLED: Notification model has been archived
-  // TODO: Implement using ParentMessage for newsletter notifications
-  const todayStr = new Date().toISOString().slice(0, 10);
-  for (const mp of midpoints) {
-    if (mp.date.toISOString().slice(0, 10) === todayStr) {
-      console.warn(`Newsletter trigger for ${mp.term} - Notification model archived`);
+/**
+ * Work out the midpoint of each term, rounded down to a whole day.
+ */
+export function termMidpoints(terms: TermDate[]): TermMidpoint[] {
+  return terms.flatMap((term) => {
+    const start = new Date(`${term.start}T00:00:00Z`).getTime();
+    const end = new Date(`${term.end}T00:00:00Z`).getTime();
+    if (isNaN(start) || isNaN(end) || end <= start) return [];
+    const midpoint = new Date(start + (end - start) / 2);
+    midpoint.setUTCHours(0, 0, 0, 0);
+    return [{ term: term.name, date: midpoint }];
+  });
+}
+
+function parseTermDates(raw: string): TermDate[] {
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Nudge each teacher to send a newsletter when today is the midpoint of one
+ * of their terms: the ones configured in their planner settings, or else
+ * their province's usual terms for the current school year.
+ */
+export async function checkNewsletterTriggers(today: Date = new Date()) {
+  const todayStr = today.toISOString().slice(0, 10);
+  const states = await prisma.weeklyPlannerState.findMany({
+    select: { userId: true, termDates: true },
+  });
+
+  for (const state of states) {
+    let terms = parseTermDates(state.termDates);
+    if (terms.length === 0) {
+      const province = await provinceForUser(state.userId);
+      terms = getSchoolYear(province, schoolYearStartFor(today)).terms;
+    }
+
+    for (const mp of termMidpoints(terms)) {
+      if (mp.date.toISOString().slice(0, 10) !== todayStr) continue;
+      try {
+        await notificationService.sendTemplatedNotification(state.userId, 'newsletter_due', {
+          term: mp.term,
+        });
+      } catch (error) {
+        logger.error({ error, userId: state.userId }, 'Failed to send newsletter reminder');
+      }
     }
   }
 }
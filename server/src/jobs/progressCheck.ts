@@ -1,31 +1,141 @@
 import cron from 'node-cron';
 import { prisma } from '../prisma';
+import logger from '../logger';
+import { notificationService } from '../services/notificationService';
+
+/** Days before a unit ends on which its teacher is reminded about gaps */
+export const REMINDER_DAYS = [7, 3];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface UnitProgressGap {
+  unitPlanId: string;
+  userId: number;
+  title: string;
+  endDate: Date;
+  /** Whole days from today until the unit's last day */
+  daysLeft: number;
+  unplannedLessons: number;
+  uncoveredExpectations: number;
+}
 
 /**
- * Query unit plans that are due within the next week and notify the teacher
- * about any plans that need attention.
- *
- * A notification record is created for each unit plan found.
+ * Estimate how many lessons are still missing from a unit: the unit's hour
+ * budget minus the minutes already planned, in lessons of the teacher's
+ * default length. Units without an hour estimate have no lesson target.
  */
-export async function runProgressCheck() {
-  const today = new Date();
-  const soon = new Date();
-  soon.setDate(today.getDate() + 7);
+export function countUnplannedLessons(
+  estimatedHours: number | null,
+  plannedMinutes: number,
+  lessonMinutes: number,
+): number {
+  if (!estimatedHours) return 0;
+  const remaining = estimatedHours * 60 - plannedMinutes;
+  return remaining > 0 ? Math.ceil(remaining / Math.max(lessonMinutes, 1)) : 0;
+}
+
+/**
+ * Find unit plans ending within the next `horizonDays` that still have
+ * lessons to plan or curriculum expectations no lesson covers.
+ */
+export async function findUnitProgressGaps(
+  today: Date = new Date(),
+  horizonDays = Math.max(...REMINDER_DAYS),
+): Promise<UnitProgressGap[]> {
+  const start = new Date(today);
+  start.setUTCHours(0, 0, 0, 0);
+  const horizon = new Date(start.getTime() + (horizonDays + 1) * DAY_MS);
+
   const unitPlans = await prisma.unitPlan.findMany({
-    where: {
-      endDate: { lte: soon },
+    where: { endDate: { gte: start, lt: horizon } },
+    include: {
+      lessonPlans: { select: { duration: true } },
+      expectations: {
+        include: {
+          expectation: {
+            select: {
+              lessonPlans: { select: { lessonPlan: { select: { userId: true } } } },
+            },
+          },
+        },
+      },
+      user: { select: { weeklyPlannerState: { select: { defaultLessonDuration: true } } } },
     },
-    include: { lessonPlans: true, user: true },
   });
+
+  const gaps: UnitProgressGap[] = [];
   for (const plan of unitPlans) {
-    const incompleteLessons = plan.lessonPlans.filter((l) => l.date > today).length;
-    if (incompleteLessons > 0) {
-      const message = `Unit Plan "${plan.title}" is ending soon with ${incompleteLessons} upcoming lessons`;
-      // DISABLED: Notification model has been archived
-      // TODO: Implement using ParentMessage or DaybookEntry for progress notifications
-      console.warn(`Progress check notification: ${message}`);
+    const plannedMinutes = plan.lessonPlans.reduce((sum, l) => sum + l.duration, 0);
+    const lessonMinutes = plan.user.weeklyPlannerState?.defaultLessonDuration ?? 60;
+    const unplannedLessons = countUnplannedLessons(
+      plan.estimatedHours,
+      plannedMinutes,
+      lessonMinutes,
+    );
+    // An expectation counts as covered once any of the teacher's lessons addresses it
+    const uncoveredExpectations = plan.expectations.filter(
+      ({ expectation }) =>
+        !expectation.lessonPlans.some((l) => l.lessonPlan.userId === plan.userId),
+    ).length;
+
+    if (unplannedLessons > 0 || uncoveredExpectations > 0) {
+      const lastDay = new Date(plan.endDate);
+      lastDay.setUTCHours(0, 0, 0, 0);
+      gaps.push({
+        unitPlanId: plan.id,
+        userId: plan.userId,
+        title: plan.title,
+        endDate: plan.endDate,
+        daysLeft: Math.round((lastDay.getTime() - start.getTime()) / DAY_MS),
+        unplannedLessons,
+        uncoveredExpectations,
+      });
+    }
+  }
+  return gaps;
+}
+
+function describeGaps(gap: UnitProgressGap): string {
+  const parts: string[] = [];
+  if (gap.unplannedLessons > 0) {
+    parts.push(
+      `${gap.unplannedLessons} lesson${gap.unplannedLessons === 1 ? '' : 's'} still to plan`,
+    );
+  }
+  if (gap.uncoveredExpectations > 0) {
+    parts.push(
+      `${gap.uncoveredExpectations} expectation${gap.uncoveredExpectations === 1 ? '' : 's'} not yet covered`,
+    );
+  }
+  return parts.join(' and ');
+}
+
+/**
+ * Notify teachers about unit plans with unplanned lessons or uncovered
+ * expectations. The check runs daily but reminds only on the days in
+ * REMINDER_DAYS, so a unit is not reported again every morning.
+ */
+export async function runProgressCheck(today: Date = new Date()) {
+  const gaps = (await findUnitProgressGaps(today)).filter((gap) =>
+    REMINDER_DAYS.includes(gap.daysLeft),
+  );
+  for (const gap of gaps) {
+    try {
+      await notificationService.sendTemplatedNotification(
+        gap.userId,
+        'unit_progress',
+        {
+          unitTitle: gap.title,
+          endDate: gap.endDate.toISOString().slice(0, 10),
+          gaps: describeGaps(gap),
+        },
+        { metadata: { unitPlanId: gap.unitPlanId } },
+      );
+    } catch (error) {
+      logger.error({ error, unitPlanId: gap.unitPlanId }, 'Failed to send unit progress reminder');
     }
   }
+  logger.info({ notified: gaps.length }, 'Unit progress check completed');
 }
 
 /**
@@ -35,5 +145,5 @@ export async function runProgressCheck() {
  * to run without manual intervention.
  */
 export function scheduleProgressCheck() {
-  cron.schedule('0 6 * * *', runProgressCheck);
+  cron.schedule('0 6 * * *', () => runProgressCheck());
 }
@@ -1,11 +1,81 @@
 import cron from 'node-cron';
+import { prisma } from '../prisma';
+import logger from '../logger';
+import { notificationService } from '../services/notificationService';
 
-export async function sendReportDeadlineReminders() {
-  // DISABLED: ReportDeadline and Notification models have been archived
-  // TODO: Implement using CalendarEvent with type REPORT_DEADLINE and ParentMessage for notifications
-  console.warn('sendReportDeadlineReminders is disabled - legacy models archived');
+/** Days before a report deadline on which teachers are reminded */
+export const REMINDER_DAYS = [7, 3, 1];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Remind teachers about upcoming report deadlines, i.e. CalendarEvents of type
+ * REPORT_DEADLINE. Personal deadlines go to their teacher and deadlines on a
+ * school calendar to that school's staff. Events with neither have no audience
+ * and are skipped rather than broadcast to every account.
+ */
+export async function sendReportDeadlineReminders(today: Date = new Date()) {
+  const start = new Date(today);
+  start.setUTCHours(0, 0, 0, 0);
+  const horizon = new Date(start.getTime() + (Math.max(...REMINDER_DAYS) + 1) * DAY_MS);
+
+  const deadlines = await prisma.calendarEvent.findMany({
+    where: {
+      eventType: 'REPORT_DEADLINE',
+      start: { gte: start, lt: horizon },
+      OR: [{ teacherId: { not: null } }, { schoolId: { not: null } }],
+    },
+  });
+
+  let sent = 0;
+
+  for (const deadline of deadlines) {
+    const due = new Date(deadline.start);
+    due.setUTCHours(0, 0, 0, 0);
+    const daysLeft = Math.round((due.getTime() - start.getTime()) / DAY_MS);
+    if (!REMINDER_DAYS.includes(daysLeft)) continue;
+
+    let recipients: number[];
+    if (deadline.teacherId != null) {
+      recipients = [deadline.teacherId];
+    } else if (deadline.schoolId != null) {
+      const staff = await prisma.schoolMembership.findMany({
+        where: { schoolId: deadline.schoolId },
+        select: { userId: true },
+      });
+      recipients = staff.map((member) => member.userId);
+    } else {
+      continue;
+    }
+
+    for (const userId of recipients) {
+      try {
+        await notificationService.sendTemplatedNotification(
+          userId,
+          'report_deadline',
+          {
+            title: deadline.title,
+            dueDate: due.toISOString().slice(0, 10),
+            daysLeft: String(daysLeft),
+          },
+          {
+            priority: daysLeft <= 1 ? 'high' : 'medium',
+            metadata: { calendarEventId: deadline.id },
+          },
+        );
+        sent++;
+      } catch (error) {
+        logger.error(
+          { error, userId, calendarEventId: deadline.id },
+          'Failed to send report deadline reminder',
+        );
+      }
+    }
+  }
+
+  logger.info({ sent }, 'Report deadline reminders completed');
 }
 
 export function scheduleReportDeadlineReminders() {
-  cron.schedule('0 2 * * *', sendReportDeadlineReminders);
+  cron.schedule('0 2 * * *', () => sendReportDeadlineReminders());
 }
@@ -1,22 +1,47 @@
 import { Request, Response, NextFunction } from 'express';
+import { prisma } from '../prisma';
 import logger from '../logger';
 
 interface AuditLogOptions {
   action: string;
-  resourceType: 'student' | 'parent_summary' | 'lesson_plan' | 'unit_plan' | 'curriculum' | 'user';
+  resourceType:
+    | 'student'
+    | 'parent_summary'
+    | 'lesson_plan'
+    | 'unit_plan'
+    | 'curriculum'
+    | 'user'
+    | 'guardian_portal';
   sensitiveData?: boolean;
   includeRequestBody?: boolean;
   includeResponseStatus?: boolean;
 }
 
+interface AuditEntry {
+  action: string;
+  resourceType: AuditLogOptions['resourceType'];
+  resourceId: string | null;
+  userId: number | null;
+  guardianId: string | null;
+  ipAddress: string;
+  userAgent: string;
+  method: string;
+  path: string;
+  timestamp: Date;
+  requestBody?: unknown;
+  responseStatus: number;
+  duration: number;
+}
+
 export function createAuditLog(options: AuditLogOptions) {
   return async (req: Request, res: Response, next: NextFunction) => {
     const startTime = Date.now();
-    const auditEntry = {
+    const auditEntry: AuditEntry = {
       action: options.action,
       resourceType: options.resourceType,
       resourceId: req.params.id || req.params.studentId || null,
       userId: req.user?.id || null,
+      guardianId: req.guardian?.id ?? null,
       ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
       userAgent: req.headers['user-agent'] || 'unknown',
       method: req.method,
@@ -32,6 +57,8 @@ export function createAuditLog(options: AuditLogOptions) {
     res.send = function (data) {
       auditEntry.responseStatus = res.statusCode;
       auditEntry.duration = Date.now() - startTime;
+      // Guardians are identified by the sign-in handler itself
+      auditEntry.guardianId = req.guardian?.id ?? null;
 
       // Log to database asynchronously
       if (options.sensitiveData || auditEntry.responseStatus < 400) {
@@ -47,20 +74,26 @@ export function createAuditLog(options: AuditLogOptions) {
   };
 }
 
-async function logAuditEntry(entry: {
-  action: string;
-  resourceType: string;
-  resourceId: string | null;
-  userId: number | null;
-  ipAddress: string;
-  userAgent: string;
-  method: string;
-  path: string;
-  timestamp: Date;
-  requestBody?: unknown;
-  responseStatus: number;
-  duration: number;
-}) {
+async function logAuditEntry(entry: AuditEntry) {
+  // Guardian portal access is kept so teachers and schools can answer who saw what
+  if (entry.resourceType === 'guardian_portal') {
+    const studentId = entry.resourceId ? Number(entry.resourceId) : NaN;
+    await prisma.guardianAccessLog.create({
+      data: {
+        guardianId: entry.guardianId,
+        studentId: Number.isInteger(studentId) ? studentId : null,
+        action: entry.action,
+        method: entry.method,
+        path: entry.path,
+        responseStatus: entry.responseStatus,
+        ipAddress: entry.ipAddress,
+        userAgent: entry.userAgent,
+        createdAt: entry.timestamp,
+      },
+    });
+    return;
+  }
+
   try {
     // AuditLog model archived - audit logging disabled in ETFO migration
     console.log('Audit log entry (model archived):', {
@@ -68,6 +101,7 @@ async function logAuditEntry(entry: {
       resourceType: entry.resourceType,
       resourceId: entry.resourceId,
       userId: entry.userId,
+      guardianId: entry.guardianId,
       ipAddress: entry.ipAddress,
       userAgent: entry.userAgent,
       method: entry.method,
@@ -112,6 +146,25 @@ export const auditLoggers = {
     sensitiveData: true,
   }),
 
+  studentImport: createAuditLog({
+    action: 'IMPORT_STUDENTS',
+    resourceType: 'student',
+    sensitiveData: true,
+  }),
+
+  studentExport: createAuditLog({
+    action: 'EXPORT_STUDENTS',
+    resourceType: 'student',
+    sensitiveData: true,
+  }),
+
+  studentArchive: createAuditLog({
+    action: 'ARCHIVE_STUDENTS',
+    resourceType: 'student',
+    sensitiveData: true,
+    includeRequestBody: true,
+  }),
+
   // Parent communication
   parentSummaryView: createAuditLog({
     action: 'VIEW_PARENT_SUMMARY',
@@ -124,4 +177,17 @@ export const auditLoggers = {
     resourceType: 'parent_summary',
     sensitiveData: true,
   }),
+
+  // Guardian portal
+  guardianPortalView: createAuditLog({
+    action: 'GUARDIAN_PORTAL_VIEW',
+    resourceType: 'guardian_portal',
+    sensitiveData: true,
+  }),
+
+  guardianPortalSignIn: createAuditLog({
+    action: 'GUARDIAN_PORTAL_SIGN_IN',
+    resourceType: 'guardian_portal',
+    sensitiveData: true,
+  }),
 };
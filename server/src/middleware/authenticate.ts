@@ -5,11 +5,21 @@
 
 import { Request, Response, NextFunction } from 'express';
 import jwt, { JwtPayload } from 'jsonwebtoken';
+import { prisma } from '../prisma';
+import { getSessionStatus } from '../services/sessionService';
 import logger from '../logger';
 
 // Express Request type is extended in types/express.d.ts
 
-export function authenticate(req: Request, res: Response, next: NextFunction): void {
+// What a user who must replace an admin-issued password may still reach
+const PASSWORD_CHANGE_PATHS = [
+  '/api/user/password',
+  '/api/user/profile',
+  '/api/auth/',
+  '/api/logout',
+];
+
+export async function authenticate(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
     // First try to get token from httpOnly cookie
     let token = req.cookies?.authToken;
@@ -64,7 +74,34 @@ export function authenticate(req: Request, res: Response, next: NextFunction): v
     const now = Math.floor(Date.now() / 1000);
     const maxAge = 7 * 24 * 60 * 60; // 7 days in seconds
     if (now - decoded.iat > maxAge) {
-      res.status(403).json({ error: 'Token expired' });
+      res.status(401).json({ error: 'Token expired' });
+      return;
+    }
+
+    // Every token belongs to a session and stops working once it is signed out
+    if (typeof decoded.sid !== 'string') {
+      res.status(401).json({ error: 'Session has ended' });
+      return;
+    }
+    const session = await getSessionStatus(prisma, decoded.sid);
+    if (!session.active) {
+      res.status(401).json({ error: 'Session has ended' });
+      return;
+    }
+    // iat has second precision, so a token from the same second still counts
+    if (
+      session.passwordChangedAt &&
+      decoded.iat < Math.floor(session.passwordChangedAt.getTime() / 1000)
+    ) {
+      res.status(401).json({ error: 'Session has ended' });
+      return;
+    }
+    const path = req.originalUrl.split('?')[0];
+    if (
+      session.mustChangePassword &&
+      !PASSWORD_CHANGE_PATHS.some((allowed) => path.startsWith(allowed))
+    ) {
+      res.status(403).json({ error: 'Password change required', code: 'PASSWORD_CHANGE_REQUIRED' });
       return;
     }
 
@@ -73,12 +110,14 @@ export function authenticate(req: Request, res: Response, next: NextFunction): v
       id: Number(decoded.userId),
       userId: decoded.userId,
       email: decoded.email,
+      sessionId: decoded.sid,
     };
 
     next();
   } catch (err) {
     if (err instanceof jwt.TokenExpiredError) {
-      res.status(403).json({ error: 'Token expired' });
+      // 401 so that clients refresh the access token
+      res.status(401).json({ error: 'Token expired' });
     } else if (err instanceof jwt.JsonWebTokenError) {
       res.status(403).json({ error: 'Invalid token' });
     } else {
@@ -0,0 +1,36 @@
+/**
+ * Guardian Portal Authentication
+ * Guardians are not users; they carry a portal session token from a sign-in
+ * link, which only the portal routes accept.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { getPortalGuardian } from '../services/guardianPortalService';
+import logger from '../logger';
+
+export async function authenticateGuardian(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const authHeader = req.headers['authorization'];
+    const token = authHeader?.startsWith('Bearer ') ? authHeader.split(' ')[1] : undefined;
+    if (!token || token.length > 1000) {
+      res.status(401).json({ error: 'Sign-in required' });
+      return;
+    }
+
+    const guardian = await getPortalGuardian(token);
+    if (!guardian) {
+      res.status(401).json({ error: 'Your portal session has ended. Please sign in again.' });
+      return;
+    }
+
+    req.guardian = { id: guardian.id, email: guardian.email! };
+    next();
+  } catch (error) {
+    logger.error({ error }, 'Guardian authentication failed');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Multipart upload helpers shared by routes that accept a single file next to
+ * ordinary form fields.
+ */
+
+import express, { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { z } from 'zod';
+
+export const DOCUMENT_EXTENSIONS = [
+  '.pdf',
+  '.docx',
+  '.pptx',
+  '.xlsx',
+  '.txt',
+  '.png',
+  '.jpg',
+  '.jpeg',
+  '.gif',
+  '.mp3',
+  '.mp4',
+];
+
+/**
+ * Accept one optional file in the `file` field, kept in memory. Filenames are
+ * sanitised, and disallowed types or oversized files are answered with a 400
+ * rather than reaching the error handler as a 500.
+ */
+export function singleFileUpload(allowedExtensions: string[], maxFileSize = 25 * 1024 * 1024) {
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: {
+      fileSize: maxFileSize,
+      files: 1,
+      fields: 30,
+    },
+    fileFilter: (_req, file, cb: multer.FileFilterCallback) => {
+      file.originalname = file.originalname.replace(/[^a-zA-Z0-9.-]/g, '_');
+      const extension = file.originalname
+        .toLowerCase()
+        .substring(file.originalname.lastIndexOf('.'));
+
+      if (allowedExtensions.includes(extension)) {
+        cb(null, true);
+      } else {
+        cb(new Error(`Files of type ${extension} are not allowed here`));
+      }
+    },
+  });
+  const handler = upload.single('file') as unknown as express.RequestHandler;
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    handler(req, res, (err?: unknown) => {
+      if (err) {
+        return res
+          .status(400)
+          .json({ error: err instanceof Error ? err.message : 'Upload failed' });
+      }
+      next();
+    });
+  };
+}
+
+// Multipart fields arrive as strings: accept JSON arrays or comma-separated lists
+export const multipartList = z.preprocess(
+  (value) => {
+    if (typeof value !== 'string') return value;
+    if (value.trim().startsWith('[')) {
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value;
+      }
+    }
+    return value
+      .split(',')
+      .map((item) => item.trim())
+      .filter(Boolean);
+  },
+  z.array(z.string().min(1).max(100)).max(50),
+);
+
+export const multipartBoolean = z.preprocess(
+  (value) => (value === 'true' ? true : value === 'false' ? false : value),
+  z.boolean(),
+);
@@ -0,0 +1,23 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Request, Response, NextFunction } from 'express';
+
+interface RequestContext {
+  req: Request;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Make the current request reachable from services without threading it
+ * through every call, e.g. to attribute LLM token usage to the teacher.
+ */
+export function requestContext(req: Request, _res: Response, next: NextFunction) {
+  storage.run({ req }, next);
+}
+
+/**
+ * The authenticated user of the request being handled, if any.
+ */
+export function getRequestUserId(): number | undefined {
+  return storage.getStore()?.req.user?.id;
+}
@@ -1,5 +1,6 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { aiPlanningAssistant } from '../services/aiPlanningAssistant';
+import { llmGateway } from '../services/llm';
 
 // Rate limiting for AI requests
 const aiRequestTracking = new Map<string, { count: number; lastReset: number }>();
@@ -123,16 +124,20 @@ router.get('/status', async (req: Request, res) => {
   try {
     const userId = req.user?.id;
 
-    // Check OpenAI API key availability
-    const hasApiKey = !!process.env.OPENAI_API_KEY;
+    // Check that the gateway has a provider for planning assistance
+    const hasApiKey = llmGateway.isAvailable('planning_assistant');
 
     // Get service health
     const serviceHealth = await aiPlanningAssistant.getServiceHealth();
 
-    // Calculate user quota (basic implementation)
+    // Requests since midnight, from the gateway's usage records
+    const startOfDay = new Date();
+    startOfDay.setHours(0, 0, 0, 0);
+    const usage = userId ? await llmGateway.getUsageSummary(userId, startOfDay) : [];
+
     const userQuota = {
       dailyRequests: 50, // Default quota
-      requestsUsed: 0, // TODO: Implement actual tracking
+      requestsUsed: usage.reduce((sum, feature) => sum + feature.requests, 0),
       resetTime: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
     };
 
@@ -162,6 +167,34 @@ router.get('/status', async (req: Request, res) => {
   }
 });
 
+/**
+ * GET /api/ai-planning/usage
+ * Token usage per AI feature for the current user
+ */
+router.get('/usage', async (req: Request, res) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const since = req.query.since ? new Date(String(req.query.since)) : undefined;
+    if (since && isNaN(since.getTime())) {
+      return res.status(400).json({ error: 'Invalid since date' });
+    }
+
+    const features = await llmGateway.getUsageSummary(userId, since);
+    res.json({
+      since: since?.toISOString() ?? null,
+      totalTokens: features.reduce((sum, feature) => sum + feature.totalTokens, 0),
+      features,
+    });
+  } catch (error) {
+    console.error('Error loading AI usage:', error);
+    res.status(500).json({ error: 'Failed to load AI usage' });
+  }
+});
+
 /**
  * POST /api/ai-planning/long-range/goals
  * Generate AI suggestions for long-range plan goals
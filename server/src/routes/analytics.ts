@@ -0,0 +1,252 @@
+/**
+ * Analytics Routes
+ * Curriculum coverage heatmap, strand balance and student engagement,
+ * with CSV/XLSX/PDF export
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { differenceInCalendarDays, format } from 'date-fns';
+import {
+  BALANCE_INTERVALS,
+  COVERAGE_VIEW_MODES,
+  EXPORT_FORMATS,
+  EXPORT_TYPES,
+  MAX_RANGE_DAYS,
+  analyticsCache,
+  getCurriculumHeatmap,
+  getSchoolCoverage,
+  getStrandBalance,
+  getStudentEngagement,
+  heatmapTable,
+  renderExport,
+  schoolYearRange,
+  strandBalanceTable,
+  studentEngagementTable,
+  type AnalyticsRange,
+  type AnalyticsTable,
+  type ExportType,
+} from '../services/analytics';
+import { canManageSchool } from '../services/schoolService';
+
+const router = Router();
+
+const filtersSchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  subject: z.string().min(1).optional(),
+  grade: z.coerce.number().int().min(0).max(12).optional(),
+  strand: z.string().min(1).optional(),
+  viewMode: z.enum(COVERAGE_VIEW_MODES).default('planned'),
+  interval: z.enum(BALANCE_INTERVALS).default('week'),
+});
+
+const exportSchema = z.object({
+  type: z.enum(EXPORT_TYPES),
+  format: z.enum(EXPORT_FORMATS),
+  filters: filtersSchema.default({}),
+});
+
+type Filters = z.infer<typeof filtersSchema>;
+
+/**
+ * Fill in the school year for a missing range and reject ranges that are
+ * backwards or too long. Returns an error message when the range is invalid.
+ */
+function resolveRange(filters: Filters): AnalyticsRange | string {
+  const schoolYear = schoolYearRange();
+  const from = filters.from ?? schoolYear.from;
+  const to = filters.to ?? schoolYear.to;
+  if (from > to) return '"from" must be before "to"';
+  if (differenceInCalendarDays(to, from) > MAX_RANGE_DAYS) {
+    return `Date range cannot exceed ${MAX_RANGE_DAYS} days`;
+  }
+  return { from, to };
+}
+
+function cacheKey(type: ExportType, filters: Filters, range: AnalyticsRange) {
+  const { subject, grade, strand, viewMode, interval } = filters;
+  return `${type}:${JSON.stringify({ ...range, subject, grade, strand, viewMode, interval })}`;
+}
+
+const reports = {
+  'curriculum-heatmap': (userId: number, filters: Filters, range: AnalyticsRange) =>
+    analyticsCache.getOrSet(userId, cacheKey('curriculum-heatmap', filters, range), () =>
+      getCurriculumHeatmap(userId, {
+        ...range,
+        subject: filters.subject,
+        grade: filters.grade,
+        strand: filters.strand,
+        viewMode: filters.viewMode,
+      }),
+    ),
+  'strand-balance': (userId: number, filters: Filters, range: AnalyticsRange) =>
+    analyticsCache.getOrSet(userId, cacheKey('strand-balance', filters, range), () =>
+      getStrandBalance(userId, {
+        ...range,
+        subject: filters.subject,
+        grade: filters.grade,
+        interval: filters.interval,
+      }),
+    ),
+  'student-engagement': (userId: number, filters: Filters, range: AnalyticsRange) =>
+    analyticsCache.getOrSet(userId, cacheKey('student-engagement', filters, range), () =>
+      getStudentEngagement(userId, range),
+    ),
+};
+
+/**
+ * Build the table for an export from the (cached) report
+ */
+async function exportTable(
+  type: ExportType,
+  userId: number,
+  filters: Filters,
+  range: AnalyticsRange,
+): Promise<AnalyticsTable> {
+  switch (type) {
+    case 'curriculum-heatmap':
+      return heatmapTable(await reports[type](userId, filters, range));
+    case 'strand-balance':
+      return strandBalanceTable(await reports[type](userId, filters, range));
+    case 'student-engagement':
+      return studentEngagementTable(await reports[type](userId, filters, range));
+  }
+}
+
+/**
+ * Shared handler for the three report endpoints
+ */
+function reportHandler(type: ExportType) {
+  return async (req: Request, res: Response, next: (err?: unknown) => void) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+
+      const validation = filtersSchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: 'Invalid query parameters',
+          details: validation.error.flatten(),
+        });
+      }
+
+      const range = resolveRange(validation.data);
+      if (typeof range === 'string') {
+        return res.status(400).json({ error: range });
+      }
+
+      res.json(await reports[type](userId, validation.data, range));
+    } catch (err) {
+      next(err);
+    }
+  };
+}
+
+// Expectations by week, planned in lesson plans or taught per the daybook
+router.get('/curriculum-heatmap', reportHandler('curriculum-heatmap'));
+
+// Lesson minutes per curriculum strand, by week or month
+router.get('/strand-balance', reportHandler('strand-balance'));
+
+// Reflections and artifacts per student
+router.get('/student-engagement', reportHandler('student-engagement'));
+
+// Coverage across a school's teachers, for its admins. Counts only.
+router.get('/schools/:schoolId/curriculum-coverage', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const schoolId = parseInt(req.params.schoolId, 10);
+    if (Number.isNaN(schoolId) || !(await canManageSchool(userId, schoolId))) {
+      return res.status(403).json({ error: 'Only school admins can view school coverage' });
+    }
+
+    const validation = filtersSchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid query parameters',
+        details: validation.error.flatten(),
+      });
+    }
+
+    const filters = validation.data;
+    const range = resolveRange(filters);
+    if (typeof range === 'string') {
+      return res.status(400).json({ error: range });
+    }
+
+    const coverageFilters = {
+      ...range,
+      subject: filters.subject,
+      grade: filters.grade,
+      strand: filters.strand,
+      viewMode: filters.viewMode,
+    };
+    const key = `school-coverage:${schoolId}:${JSON.stringify(coverageFilters)}`;
+    res.json(
+      await analyticsCache.getOrSet(userId, key, () =>
+        getSchoolCoverage(schoolId, coverageFilters),
+      ),
+    );
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Download a report as CSV, XLSX or PDF
+router.post('/export', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const validation = exportSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid request data',
+        details: validation.error.flatten(),
+      });
+    }
+
+    const { type, format: exportFormat, filters } = validation.data;
+    const range = resolveRange(filters);
+    if (typeof range === 'string') {
+      return res.status(400).json({ error: range });
+    }
+
+    const table = await exportTable(type, userId, filters, range);
+    const rendered = await renderExport(table, exportFormat);
+    res.setHeader('Content-Type', rendered.contentType);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${type}-${format(new Date(), 'yyyy-MM-dd')}.${rendered.extension}"`,
+    );
+    res.send(rendered.content);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Drop the user's cached reports so the next request recomputes them
+router.post('/invalidate-cache', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    await analyticsCache.invalidate(userId);
+    res.json({ message: 'Analytics cache cleared' });
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
@@ -8,10 +8,11 @@ import { PrismaClient } from '@teaching-engine/database';
 import { z } from 'zod';
 import {
   authenticate,
-  generateAuthToken,
   hashPassword,
   validatePassword,
+  type AuthUser,
 } from '../services/authService';
+import { sessionMeta, setSessionCookies, startSession } from '../services/sessionService';
 import { asyncHandler } from '../middleware/errorHandler';
 import logger from '../logger';
 
@@ -35,25 +36,23 @@ export function authRoutes(prisma: PrismaClient): Router {
     asyncHandler(async (req, res) => {
       const { email, password } = loginSchema.parse(req.body);
 
+      let user: AuthUser;
       try {
-        const result = await authenticate(email, password, prisma);
-
-        // Set JWT in httpOnly cookie for security
-        const isProduction = process.env.NODE_ENV === 'production';
-        const cookieOptions = {
-          httpOnly: true,
-          secure: isProduction,
-          sameSite: isProduction ? ('strict' as const) : ('lax' as const),
-          maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
-          path: '/',
-        };
-
-        res.cookie('authToken', result.token, cookieOptions);
-        res.json(result);
+        ({ user } = await authenticate(email, password, prisma));
       } catch (error) {
         logger.warn(`Failed login attempt for email: ${email}`, { error });
-        res.status(401).json({ error: 'Invalid credentials' });
+        return res.status(401).json({ error: 'Invalid credentials' });
       }
+
+      const tokens = await startSession(
+        prisma,
+        { id: Number(user.id), email: user.email },
+        sessionMeta(req),
+      );
+
+      // Set the access and refresh tokens in httpOnly cookies for security
+      setSessionCookies(res, tokens);
+      res.json({ user, tokens, token: tokens.accessToken });
     }),
   );
 
@@ -88,26 +87,18 @@ export function authRoutes(prisma: PrismaClient): Router {
         },
       });
 
-      // Generate token
-      const token = await generateAuthToken(user.id.toString(), user.email);
+      // Sign the new user in
+      const tokens = await startSession(prisma, user, sessionMeta(req));
 
       // Return user without password
       const { password: _, ...userWithoutPassword } = user;
 
-      // Set JWT in httpOnly cookie for security
-      const isProduction = process.env.NODE_ENV === 'production';
-      const cookieOptions = {
-        httpOnly: true,
-        secure: isProduction,
-        sameSite: isProduction ? ('strict' as const) : ('lax' as const),
-        maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
-        path: '/',
-      };
-
-      res.cookie('authToken', token, cookieOptions);
+      // Set the access and refresh tokens in httpOnly cookies for security
+      setSessionCookies(res, tokens);
       res.status(201).json({
         user: userWithoutPassword,
-        token,
+        tokens,
+        token: tokens.accessToken,
       });
     }),
   );
@@ -0,0 +1,149 @@
+/**
+ * Board Routes
+ * School boards and their admins. Platform admins create boards; board admins
+ * add schools to their board and appoint other board admins.
+ */
+
+import { Router, Request } from 'express';
+import { z } from 'zod';
+import { prisma } from '../prisma';
+import { canManageBoard, isPlatformAdmin } from '../services/schoolService';
+
+const router = Router();
+
+const createBoardSchema = z.object({
+  name: z.string().min(1).max(200),
+  code: z.string().max(20).optional(),
+  province: z.string().length(2).default('ON'),
+});
+
+const boardAdminSchema = z.object({ email: z.string().email() });
+
+function parseId(value: string): number | null {
+  const id = parseInt(value, 10);
+  return Number.isNaN(id) ? null : id;
+}
+
+// Boards the user belongs to; platform admins see every board
+router.get('/', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const boards = await prisma.board.findMany({
+      where: (await isPlatformAdmin(userId)) ? {} : { memberships: { some: { userId } } },
+      include: {
+        schools: { select: { id: true, name: true }, orderBy: { name: 'asc' } },
+        memberships: {
+          where: { role: 'BOARD_ADMIN' },
+          include: { user: { select: { id: true, name: true, email: true } } },
+        },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    res.json(boards);
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.post('/', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    if (!(await isPlatformAdmin(userId))) {
+      return res.status(403).json({ error: 'Only administrators can create boards' });
+    }
+
+    const validation = createBoardSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res
+        .status(400)
+        .json({ error: 'Invalid request data', details: validation.error.flatten() });
+    }
+
+    const { name, code, province } = validation.data;
+    const board = await prisma.board.create({ data: { name, code, province } });
+    res.status(201).json(board);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Make an existing user a board admin
+router.post('/:id/admins', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const boardId = parseId(req.params.id);
+    if (boardId === null || !(await canManageBoard(userId, boardId))) {
+      return res.status(403).json({ error: 'Only board admins can appoint board admins' });
+    }
+
+    const validation = boardAdminSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res
+        .status(400)
+        .json({ error: 'Invalid request data', details: validation.error.flatten() });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: validation.data.email.toLowerCase() },
+      select: { id: true },
+    });
+    if (!user) {
+      return res.status(404).json({ error: 'No account with that email' });
+    }
+
+    const membership = await prisma.boardMembership.upsert({
+      where: { boardId_userId: { boardId, userId: user.id } },
+      create: { boardId, userId: user.id, role: 'BOARD_ADMIN' },
+      update: { role: 'BOARD_ADMIN' },
+      include: { user: { select: { id: true, name: true, email: true } } },
+    });
+    res.status(201).json(membership);
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.delete('/:id/admins/:userId', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const boardId = parseId(req.params.id);
+    const adminId = parseId(req.params.userId);
+    if (boardId === null || !(await canManageBoard(userId, boardId))) {
+      return res.status(403).json({ error: 'Only board admins can remove board admins' });
+    }
+    if (adminId === null) {
+      return res.status(404).json({ error: 'Board admin not found' });
+    }
+    if (adminId === userId) {
+      return res.status(400).json({ error: 'You cannot remove yourself' });
+    }
+
+    const { count } = await prisma.boardMembership.deleteMany({
+      where: { boardId, userId: adminId, role: 'BOARD_ADMIN' },
+    });
+    if (count === 0) {
+      return res.status(404).json({ error: 'Board admin not found' });
+    }
+    res.status(204).send();
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
@@ -3,8 +3,15 @@ import { z } from 'zod';
 import { CalendarEventType, CalendarEventSource, Prisma } from '@teaching-engine/database';
 import { requireAuth } from '../middleware/auth';
 import { validateRequest } from '../middleware/validateRequest';
-import { startOfDay, endOfDay, parseISO } from 'date-fns';
+import { endOfDay, parseISO } from 'date-fns';
 import { prisma } from '../prisma';
+import { calendarEventScope } from '../services/schoolService';
+import {
+  getSchoolYear,
+  PROVINCES,
+  provinceForUser,
+  schoolYearStartFor,
+} from '../services/schoolCalendarService';
 
 const router = Router();
 
@@ -15,14 +22,16 @@ const calendarEventSchema = z.object({
   start: z.string().datetime(),
   end: z.string().datetime(),
   allDay: z.boolean().default(false),
-  eventType: z.enum(['PD_DAY', 'ASSEMBLY', 'TRIP', 'HOLIDAY', 'CUSTOM']),
+  eventType: z.enum(['PD_DAY', 'ASSEMBLY', 'TRIP', 'HOLIDAY', 'REPORT_DEADLINE', 'CUSTOM']),
   source: z.enum(['MANUAL', 'ICAL_FEED']).default('MANUAL'),
 });
 
 const querySchema = z.object({
   start: z.string().optional(),
   end: z.string().optional(),
-  eventType: z.enum(['PD_DAY', 'ASSEMBLY', 'TRIP', 'HOLIDAY', 'CUSTOM']).optional(),
+  eventType: z
+    .enum(['PD_DAY', 'ASSEMBLY', 'TRIP', 'HOLIDAY', 'REPORT_DEADLINE', 'CUSTOM'])
+    .optional(),
 });
 
 // Get calendar events for a date range
@@ -31,12 +40,8 @@ router.get('/', requireAuth, validateRequest({ query: querySchema }), async (req
     const { start, end, eventType } = req.query as z.infer<typeof querySchema>;
     const userId = req.user!.id;
 
-    const where: Prisma.CalendarEventWhereInput = {
-      OR: [
-        { teacherId: userId },
-        { teacherId: null }, // School-wide events
-      ],
-    };
+    // The teacher's own events plus general and school calendar events
+    const where: Prisma.CalendarEventWhereInput = await calendarEventScope(userId);
 
     if (start) {
       where.start = { gte: parseISO(start) };
@@ -152,63 +157,124 @@ router.delete('/:id', requireAuth, async (req, res) => {
   }
 });
 
-// Import holidays from a standard calendar
-router.post('/import-holidays', requireAuth, async (req, res) => {
-  try {
-    const { year = new Date().getFullYear() } = req.body;
-
-    // Common Ontario school holidays
-    const holidays = [
-      { title: 'Labour Day', month: 9, day: 1 },
-      { title: 'Thanksgiving', month: 10, day: 2 }, // 2nd Monday
-      { title: 'Winter Break Start', month: 12, day: 23 },
-      { title: 'Winter Break End', month: 1, day: 2 },
-      { title: 'Family Day', month: 2, day: 3 }, // 3rd Monday
-      { title: 'March Break Start', month: 3, day: 2 }, // 2nd week
-      { title: 'March Break End', month: 3, day: 3 },
-      { title: 'Good Friday', month: 4, day: 1 }, // Varies
-      { title: 'Easter Monday', month: 4, day: 2 }, // Varies
-      { title: 'Victoria Day', month: 5, day: 3 }, // Monday before May 25
-    ];
-
-    const createdEvents = [];
-
-    for (const holiday of holidays) {
-      const date = new Date(year, holiday.month - 1, holiday.day);
-
-      const existing = await prisma.calendarEvent.findFirst({
-        where: {
-          title: holiday.title,
-          start: {
-            gte: startOfDay(date),
-            lte: endOfDay(date),
-          },
-        },
-      });
+const schoolYearQuerySchema = z.object({
+  year: z
+    .string()
+    .regex(/^\d{4}$/)
+    .optional(),
+  province: z.enum(PROVINCES).optional(),
+});
+
+const importHolidaysSchema = z.object({
+  // The school year starting in September of this year
+  year: z.number().int().min(2000).max(2100).optional(),
+  province: z.enum(PROVINCES).optional(),
+});
+
+// Computed holidays, breaks, PD days and terms for a school year
+router.get(
+  '/school-year',
+  requireAuth,
+  validateRequest({ query: schoolYearQuerySchema }),
+  async (req, res) => {
+    try {
+      const { year, province } = req.query as z.infer<typeof schoolYearQuerySchema>;
+      const userId = req.user!.id;
+
+      res.json(
+        getSchoolYear(
+          province ?? (await provinceForUser(userId)),
+          year ? Number(year) : schoolYearStartFor(new Date()),
+        ),
+      );
+    } catch (error) {
+      console.error('Error computing school year:', error);
+      res.status(500).json({ error: 'Failed to compute school year' });
+    }
+  },
+);
+
+// Add a school year's holidays, breaks and PD days to the teacher's calendar
+router.post(
+  '/import-holidays',
+  requireAuth,
+  validateRequest({ body: importHolidaysSchema }),
+  async (req, res) => {
+    try {
+      const data = req.body as z.infer<typeof importHolidaysSchema>;
+      const userId = req.user!.id;
+      const province = data.province ?? (await provinceForUser(userId));
+
+      // Remember the choice for the scheduler and default terms
+      if (data.province) {
+        await prisma.weeklyPlannerState.upsert({
+          where: { userId },
+          create: { userId, province },
+          update: { province },
+        });
+      }
 
-      if (!existing) {
-        const event = await prisma.calendarEvent.create({
-          data: {
-            title: holiday.title,
-            start: startOfDay(date),
-            end: endOfDay(date),
-            allDay: true,
-            eventType: CalendarEventType.HOLIDAY,
-            source: CalendarEventSource.SYSTEM,
+      const schoolYear = getSchoolYear(province, data.year ?? schoolYearStartFor(new Date()));
+      const closures = [
+        ...schoolYear.holidays.map((h) => ({
+          title: h.name,
+          start: h.date,
+          end: h.date,
+          eventType: CalendarEventType.HOLIDAY,
+        })),
+        ...schoolYear.breaks.map((b) => ({
+          title: b.name,
+          start: b.start,
+          end: b.end,
+          eventType: CalendarEventType.HOLIDAY,
+        })),
+        ...schoolYear.pdDays.map((d) => ({
+          title: d.name,
+          start: d.date,
+          end: d.date,
+          eventType: CalendarEventType.PD_DAY,
+        })),
+      ];
+
+      const createdEvents = [];
+
+      for (const closure of closures) {
+        const start = new Date(`${closure.start}T00:00:00.000Z`);
+
+        const existing = await prisma.calendarEvent.findFirst({
+          where: {
+            teacherId: userId,
+            title: closure.title,
+            start,
           },
         });
-        createdEvents.push(event);
+
+        if (!existing) {
+          const event = await prisma.calendarEvent.create({
+            data: {
+              title: closure.title,
+              start,
+              end: new Date(`${closure.end}T23:59:59.999Z`),
+              allDay: true,
+              eventType: closure.eventType,
+              source: CalendarEventSource.SYSTEM,
+              teacherId: userId,
+            },
+          });
+          createdEvents.push(event);
+        }
       }
-    }
 
-    res.json({
-      message: `Imported ${createdEvents.length} holidays`,
-      events: createdEvents,
-    });
-  } catch (error) {
-    console.error('Error importing holidays:', error);
-    res.status(500).json({ error: 'Failed to import holidays' });
-  }
-});
+      res.json({
+        message: `Imported ${createdEvents.length} holidays`,
+        schoolYear,
+        events: createdEvents,
+      });
+    } catch (error) {
+      console.error('Error importing holidays:', error);
+      res.status(500).json({ error: 'Failed to import holidays' });
+    }
+  },
+);
 
 export default router;
@@ -0,0 +1,146 @@
+/**
+ * Calendar Feed Routes
+ * iCalendar subscriptions and uploads imported into the teacher's calendar,
+ * and the secret URL that publishes the teacher's calendar as ICS.
+ */
+
+import { Router, Request } from 'express';
+import { z } from 'zod';
+import { prisma } from '../prisma';
+import {
+  CalendarFeedError,
+  type CalendarFeedInput,
+  createFeed,
+  listFeeds,
+  MAX_ICS_BYTES,
+  refreshFeed,
+  regenerateExportToken,
+  revokeExportToken,
+} from '../services/icalService';
+
+const router = Router();
+
+const feedSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100),
+    url: z
+      .string()
+      .trim()
+      .max(2048)
+      .regex(/^(https?|webcals?):\/\//i, 'Use an http(s) or webcal link')
+      .optional(),
+    content: z.string().max(MAX_ICS_BYTES).optional(),
+  })
+  .refine((data) => !!data.url !== !!data.content, {
+    message: 'Provide either a calendar URL or an uploaded file',
+  });
+
+async function findFeed(req: Request) {
+  const id = parseInt(req.params.id, 10);
+  if (isNaN(id)) return null;
+  return prisma.calendarFeed.findFirst({ where: { id, teacherId: req.user!.id } });
+}
+
+router.get('/', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const [feeds, user] = await Promise.all([
+      listFeeds(userId),
+      prisma.user.findUnique({ where: { id: userId }, select: { calendarFeedTokenHash: true } }),
+    ]);
+    res.json({ feeds, exportEnabled: !!user?.calendarFeedTokenHash });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Subscribe to a URL or import an uploaded .ics file
+router.post('/', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const validation = feedSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res
+        .status(400)
+        .json({ error: 'Invalid request data', details: validation.error.errors });
+    }
+
+    const result = await createFeed(userId, validation.data as CalendarFeedInput);
+    res.status(201).json(result);
+  } catch (err) {
+    if (err instanceof CalendarFeedError) {
+      return res.status(400).json({ error: err.message });
+    }
+    next(err);
+  }
+});
+
+// Issue a new export URL; any earlier one stops working
+router.post('/export-token', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const token = await regenerateExportToken(userId);
+    res.status(201).json({ token, path: `/api/ical/${token}.ics` });
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.delete('/export-token', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    await revokeExportToken(userId);
+    res.status(204).send();
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.post('/:id/refresh', async (req: Request, res, next) => {
+  try {
+    const feed = await findFeed(req);
+    if (!feed) {
+      return res.status(404).json({ error: 'Calendar feed not found' });
+    }
+
+    res.json(await refreshFeed(feed));
+  } catch (err) {
+    if (err instanceof CalendarFeedError) {
+      return res.status(400).json({ error: err.message });
+    }
+    next(err);
+  }
+});
+
+// Unsubscribing removes the feed's events too
+router.delete('/:id', async (req: Request, res, next) => {
+  try {
+    const feed = await findFeed(req);
+    if (!feed) {
+      return res.status(404).json({ error: 'Calendar feed not found' });
+    }
+
+    await prisma.calendarFeed.delete({ where: { id: feed.id } });
+    res.status(204).send();
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
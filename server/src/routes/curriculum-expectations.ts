@@ -84,7 +84,7 @@ function cosineSimilarity(a: number[], b: number[]): number {
 // Get all curriculum expectations with optional filtering
 router.get('/', async (req: Request, res, _next) => {
   try {
-    const { subject, grade, strand, search } = req.query;
+    const { subject, grade, strand, search, frameworkId } = req.query;
 
     const where: Prisma.CurriculumExpectationWhereInput = {};
 
@@ -105,6 +105,10 @@ router.get('/', async (req: Request, res, _next) => {
       const sanitizedStrand = String(strand).trim().slice(0, 100);
       if (sanitizedStrand) where.strand = sanitizedStrand;
     }
+
+    if (frameworkId && typeof frameworkId === 'string') {
+      where.frameworkId = frameworkId;
+    }
     if (search && typeof search === 'string') {
       const sanitizedSearch = String(search).trim().slice(0, 200);
       if (sanitizedSearch) {
@@ -139,7 +143,8 @@ router.get('/', async (req: Request, res, _next) => {
 // Create a new curriculum expectation
 router.post('/', async (req: Request, res, _next) => {
   try {
-    const { code, description, strand, substrand, grade, subject, descriptionFr } = req.body;
+    const { code, description, strand, substrand, grade, subject, descriptionFr, frameworkId } =
+      req.body;
 
     if (!code || !description || !strand || !grade || !subject) {
       return res.status(400).json({
@@ -189,6 +194,20 @@ router.post('/', async (req: Request, res, _next) => {
         .json({ error: 'Invalid descriptionFr: must be a string with max 1000 characters' });
     }
 
+    if (frameworkId && typeof frameworkId !== 'string') {
+      return res.status(400).json({ error: 'Invalid frameworkId: must be a string' });
+    }
+
+    // Codes are only unique within a framework
+    const duplicate = await prisma.curriculumExpectation.findFirst({
+      where: { code: code.trim(), frameworkId: frameworkId || null },
+    });
+    if (duplicate) {
+      return res
+        .status(409)
+        .json({ error: `Expectation ${code.trim()} already exists in this framework` });
+    }
+
     const expectation = await prisma.curriculumExpectation.create({
       data: {
         code: code.trim(),
@@ -198,6 +217,7 @@ router.post('/', async (req: Request, res, _next) => {
         grade: gradeNumber,
         subject: subject.trim(),
         descriptionFr: descriptionFr?.trim() || null,
+        frameworkId: frameworkId || null,
       },
       include: {
         unitPlans: { select: { unitPlan: { select: { id: true, title: true } } } },
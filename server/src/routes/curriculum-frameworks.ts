@@ -0,0 +1,107 @@
+/**
+ * Curriculum Framework Routes
+ * The provincial curriculum documents expectations belong to, and crosswalks
+ * between versions of the same document.
+ */
+
+import { Router, Request } from 'express';
+import { z } from 'zod';
+import {
+  FrameworkError,
+  FrameworkInput,
+  buildCrosswalk,
+  canManageFrameworks,
+  createFramework,
+  listFrameworks,
+} from '../services/curriculumFrameworkService';
+
+const router = Router();
+
+const listQuerySchema = z.object({
+  jurisdiction: z.string().max(10).optional(),
+  subject: z.string().max(100).optional(),
+  grade: z.coerce.number().int().min(0).max(12).optional(),
+  language: z.enum(['en', 'fr']).optional(),
+});
+
+const frameworkCreateSchema = z.object({
+  jurisdiction: z.string().min(2).max(10),
+  subject: z.string().min(1).max(100),
+  gradeMin: z.number().int().min(0).max(12),
+  gradeMax: z.number().int().min(0).max(12),
+  version: z.string().min(1).max(50),
+  language: z.enum(['en', 'fr']).default('en'),
+  title: z.string().min(1).max(200),
+  effectiveFrom: z.coerce.date().nullable().optional(),
+  effectiveTo: z.coerce.date().nullable().optional(),
+  supersedesId: z.string().nullable().optional(),
+});
+
+const crosswalkQuerySchema = z.object({ to: z.string().min(1) });
+
+router.get('/', async (req: Request, res, next) => {
+  try {
+    const validation = listQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res
+        .status(400)
+        .json({ error: 'Invalid request data', details: validation.error.errors });
+    }
+
+    res.json(await listFrameworks(validation.data));
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.post('/', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    if (!(await canManageFrameworks(userId))) {
+      return res.status(403).json({ error: 'Only administrators can add curriculum frameworks' });
+    }
+
+    const validation = frameworkCreateSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res
+        .status(400)
+        .json({ error: 'Invalid request data', details: validation.error.errors });
+    }
+
+    const data = validation.data as FrameworkInput;
+    const framework = await createFramework({
+      ...data,
+      jurisdiction: data.jurisdiction.toUpperCase(),
+    });
+    res.status(201).json(framework);
+  } catch (err) {
+    if (err instanceof FrameworkError) {
+      return res.status(400).json({ error: err.message });
+    }
+    next(err);
+  }
+});
+
+// Changed, removed and added expectations from this framework to another
+router.get('/:id/crosswalk', async (req: Request, res, next) => {
+  try {
+    const validation = crosswalkQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res
+        .status(400)
+        .json({ error: 'Invalid request data', details: validation.error.errors });
+    }
+
+    res.json(await buildCrosswalk(req.params.id, validation.data.to));
+  } catch (err) {
+    if (err instanceof FrameworkError) {
+      return res.status(404).json({ error: err.message });
+    }
+    next(err);
+  }
+});
+
+export default router;
@@ -2,6 +2,16 @@ import express, { Request, Response } from 'express';
 import multer from 'multer';
 import { curriculumImportService } from '../services/curriculumImportService';
 import { clusteringService } from '../services/clusteringService';
+import {
+  CurriculumPackageError,
+  exportCurriculumPackage,
+  importCurriculumPackage,
+  packageFileName,
+  previewCurriculumPackage,
+  readCurriculumPackage,
+  zipCurriculumPackage,
+} from '../services/curriculumPackageService';
+import { canManageFrameworks } from '../services/curriculumFrameworkService';
 import logger from '../logger';
 
 // Use global Express.Request type extended with user property
@@ -152,6 +162,11 @@ router.post('/parse', async (req: Request, res: Response) => {
   }
 });
 
+// GET /api/curriculum/import/presets - List curriculum documents available as presets
+router.get('/presets', (_req: Request, res: Response) => {
+  res.json(curriculumImportService.listPresets());
+});
+
 // POST /api/curriculum/import/import-preset - Load preset curriculum
 router.post('/import-preset', async (req: Request, res: Response) => {
   try {
@@ -185,6 +200,130 @@ router.post('/import-preset', async (req: Request, res: Response) => {
   }
 });
 
+// Curriculum packages are shared as .json or as a .zip containing curriculum.json
+const packageUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 25 * 1024 * 1024, // Embeddings make packages larger than source documents
+    files: 1,
+    fields: 5,
+  },
+  fileFilter: (_req, file, cb: multer.FileFilterCallback) => {
+    const fileExtension = file.originalname
+      .toLowerCase()
+      .substring(file.originalname.lastIndexOf('.'));
+
+    if (['.json', '.zip'].includes(fileExtension)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Curriculum packages are .json or .zip files.'));
+    }
+  },
+});
+
+// GET /api/curriculum-import/packages/:frameworkId - Export a framework as a curriculum package
+router.get('/packages/:frameworkId', async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({
+        error: 'User not authenticated',
+      });
+    }
+
+    const pkg = await exportCurriculumPackage(req.params.frameworkId, {
+      includeEmbeddings: req.query.embeddings === 'true',
+      publishedBy: typeof req.query.publishedBy === 'string' ? req.query.publishedBy : undefined,
+    });
+    const fileName = packageFileName(pkg);
+
+    if (req.query.format === 'zip') {
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}.zip"`);
+      return res.send(await zipCurriculumPackage(pkg));
+    }
+
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}.json"`);
+    res.json(pkg);
+  } catch (error) {
+    if (error instanceof CurriculumPackageError) {
+      return res.status(400).json({ error: error.message });
+    }
+    logger.error({ error }, 'Failed to export curriculum package');
+    res.status(500).json({ error: 'Failed to export curriculum package' });
+  }
+});
+
+// POST /api/curriculum-import/packages/preview - Validate a package and diff it against what is installed
+router.post(
+  '/packages/preview',
+  packageUpload.single('file') as unknown as express.RequestHandler,
+  async (req: Request, res: Response) => {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({
+          error: 'User not authenticated',
+        });
+      }
+      if (!req.file) {
+        return res.status(400).json({ error: 'No package uploaded' });
+      }
+
+      const pkg = await readCurriculumPackage(req.file.buffer);
+      res.json(await previewCurriculumPackage(pkg));
+    } catch (error) {
+      if (error instanceof CurriculumPackageError) {
+        return res.status(400).json({ error: error.message });
+      }
+      logger.error({ error }, 'Failed to preview curriculum package');
+      res.status(500).json({ error: 'Failed to preview curriculum package' });
+    }
+  },
+);
+
+// POST /api/curriculum-import/packages - Install a curriculum package
+router.post(
+  '/packages',
+  packageUpload.single('file') as unknown as express.RequestHandler,
+  async (req: Request, res: Response) => {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({
+          error: 'User not authenticated',
+        });
+      }
+      if (!req.file) {
+        return res.status(400).json({ error: 'No package uploaded' });
+      }
+
+      const pkg = await readCurriculumPackage(req.file.buffer);
+      const preview = await previewCurriculumPackage(pkg);
+      // An installed framework is shared by every teacher
+      if (preview.existingFrameworkId && !(await canManageFrameworks(req.user.id))) {
+        return res.status(403).json({
+          error: 'Only administrators can update a curriculum framework that is already installed.',
+          preview,
+        });
+      }
+      // Rewording installed expectations needs explicit confirmation
+      if (preview.diff.changed.length > 0 && req.body.overwrite !== 'true') {
+        return res.status(409).json({
+          error: 'This package changes installed expectations. Review the preview and confirm.',
+          preview,
+        });
+      }
+
+      const result = await importCurriculumPackage(req.user.id, pkg);
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof CurriculumPackageError) {
+        return res.status(400).json({ error: error.message });
+      }
+      logger.error({ error }, 'Failed to import curriculum package');
+      res.status(500).json({ error: 'Failed to import curriculum package' });
+    }
+  },
+);
+
 // GET /api/curriculum/import/:id/status - Check import status
 router.get('/:id/status', async (req: Request, res: Response) => {
   try {
@@ -397,8 +536,15 @@ router.post('/:id', async (req: Request, res: Response) => {
       });
     }
 
+    const { frameworkId } = req.body ?? {};
+    if (frameworkId !== undefined && typeof frameworkId !== 'string') {
+      return res.status(400).json({
+        error: 'frameworkId must be a string',
+      });
+    }
+
     // Finalize the import and create curriculum expectations
-    const result = await curriculumImportService.finalizeImport(importId, req.user.id);
+    const result = await curriculumImportService.finalizeImport(importId, req.user.id, frameworkId);
 
     res.json({
       message: 'Curriculum imported successfully',
@@ -2,6 +2,7 @@ import { Router, Request } from 'express';
 import { Prisma } from '../prisma';
 import { prisma } from '../prisma';
 import { validate } from '../validation';
+import { ensurePlanBaseline, snapshotPlan } from '../services/planVersionService';
 import { z } from 'zod';
 
 const router = Router();
@@ -465,6 +466,7 @@ router.post('/', validate(daybookEntryCreateSchema), async (req: Request, res, _
           coverage: ec.coverage,
         })),
       });
+      await snapshotPlan('daybook', entry.id, userId, 'create');
 
       // Refetch with expectations
       const updatedEntry = await prisma.daybookEntry.findUnique({
@@ -497,6 +499,7 @@ router.post('/', validate(daybookEntryCreateSchema), async (req: Request, res, _
       return res.status(201).json(updatedEntry);
     }
 
+    await snapshotPlan('daybook', entry.id, userId, 'create');
     res.status(201).json(entry);
   } catch (err) {
     _next(err);
@@ -521,6 +524,7 @@ router.put('/:id', validate(daybookEntryUpdateSchema), async (req: Request, res,
     if (!existing) {
       return res.status(404).json({ error: 'Daybook entry not found' });
     }
+    await ensurePlanBaseline('daybook', existing.id);
 
     // Prepare update data
     const data: Prisma.DaybookEntryUpdateInput = { ...updateData };
@@ -550,6 +554,7 @@ router.put('/:id', validate(daybookEntryUpdateSchema), async (req: Request, res,
         });
       }
     }
+    await snapshotPlan('daybook', entry.id, userId, 'update');
 
     // Refetch with updated relationships
     const updatedEntry = await prisma.daybookEntry.findUnique({
@@ -0,0 +1,62 @@
+/**
+ * Email Delivery Routes
+ * Exposes the outbox status of emails a teacher has sent
+ */
+
+import { Router, Request } from 'express';
+import { z } from 'zod';
+import { getEmailDeliveries, retryEmailDelivery } from '../services/emailService';
+
+const router = Router();
+
+const listQuerySchema = z.object({
+  relatedType: z.string().optional(),
+  relatedId: z.string().optional(),
+  status: z.enum(['queued', 'sending', 'sent', 'failed']).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+// List the user's email deliveries
+router.get('/', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const validation = listQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid query parameters',
+        details: validation.error.flatten(),
+      });
+    }
+
+    const { limit, ...filter } = validation.data;
+    const deliveries = await getEmailDeliveries(userId, filter, limit);
+    res.json(deliveries);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Requeue a failed delivery
+router.post('/:id/retry', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const delivery = await retryEmailDelivery(req.params.id, userId);
+    if (!delivery) {
+      return res.status(404).json({ error: 'Failed delivery not found' });
+    }
+
+    res.json(delivery);
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
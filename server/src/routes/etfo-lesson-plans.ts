@@ -2,6 +2,14 @@ import { Router, Request } from 'express';
 import { Prisma } from '../prisma';
 import { prisma } from '../prisma';
 import { validate } from '../validation';
+import { ensurePlanBaseline, snapshotPlan } from '../services/planVersionService';
+import {
+  ACHIEVEMENT_LEVELS,
+  AssessmentError,
+  EVIDENCE_TYPES,
+  getRecordingSheet,
+  saveRecordingSheet,
+} from '../services/assessmentService';
 import { z } from 'zod';
 
 const router = Router();
@@ -35,6 +43,20 @@ const lessonPlanCreateSchema = z.object({
 
 const lessonPlanUpdateSchema = lessonPlanCreateSchema.partial().omit({ unitPlanId: true });
 
+const recordingSheetSchema = z.object({
+  entries: z
+    .array(
+      z.object({
+        studentId: z.number().int(),
+        expectationId: z.string().min(1),
+        level: z.enum(ACHIEVEMENT_LEVELS).nullable(),
+        evidenceType: z.enum(EVIDENCE_TYPES),
+        notes: z.string().max(2000).nullable().optional(),
+      }),
+    )
+    .max(2000),
+});
+
 // Get all lesson plans for the authenticated user
 router.get('/', async (req: Request, res, _next) => {
   try {
@@ -213,6 +235,7 @@ router.post('/', validate(lessonPlanCreateSchema), async (req: Request, res, _ne
           expectationId,
         })),
       });
+      await snapshotPlan('lesson', lessonPlan.id, userId, 'create');
 
       // Refetch with expectations
       const updatedPlan = await prisma.eTFOLessonPlan.findUnique({
@@ -242,6 +265,7 @@ router.post('/', validate(lessonPlanCreateSchema), async (req: Request, res, _ne
       return res.status(201).json(updatedPlan);
     }
 
+    await snapshotPlan('lesson', lessonPlan.id, userId, 'create');
     res.status(201).json(lessonPlan);
   } catch (err) {
     _next(err);
@@ -267,6 +291,7 @@ router.put('/:id', validate(lessonPlanUpdateSchema), async (req: Request, res, _
     if (!existing) {
       return res.status(404).json({ error: 'Lesson plan not found' });
     }
+    await ensurePlanBaseline('lesson', existing.id);
 
     // Prepare update data
     const data: Prisma.ETFOLessonPlanUpdateInput = { ...updateData };
@@ -299,6 +324,7 @@ router.put('/:id', validate(lessonPlanUpdateSchema), async (req: Request, res, _
         });
       }
     }
+    await snapshotPlan('lesson', lessonPlan.id, userId, 'update');
 
     // Refetch with updated relationships
     const updatedPlan = await prisma.eTFOLessonPlan.findUnique({
@@ -359,6 +385,48 @@ router.delete('/:id', async (req: Request, res, _next) => {
   }
 });
 
+// Class recording sheet for the lesson's expectations
+router.get('/:id/recording-sheet', async (req: Request, res, _next) => {
+  try {
+    const userId = req.user?.id || 0;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const sheet = await getRecordingSheet(req.params.id, userId);
+    if (!sheet) {
+      return res.status(404).json({ error: 'Lesson plan not found' });
+    }
+    res.json(sheet);
+  } catch (err) {
+    _next(err);
+  }
+});
+
+router.put(
+  '/:id/recording-sheet',
+  validate(recordingSheetSchema),
+  async (req: Request, res, _next) => {
+    try {
+      const userId = req.user?.id || 0;
+      if (!userId) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+
+      const records = await saveRecordingSheet(req.params.id, userId, req.body.entries);
+      if (!records) {
+        return res.status(404).json({ error: 'Lesson plan not found' });
+      }
+      res.json(records);
+    } catch (err) {
+      if (err instanceof AssessmentError) {
+        return res.status(400).json({ error: err.message });
+      }
+      _next(err);
+    }
+  },
+);
+
 // Add a resource to lesson plan
 router.post('/:id/resources', async (req: Request, res, _next) => {
   try {
@@ -499,6 +567,7 @@ router.put('/:id/reschedule', async (req: Request, res, _next) => {
     if (!lessonPlan) {
       return res.status(404).json({ error: 'Lesson plan not found' });
     }
+    await ensurePlanBaseline('lesson', lessonPlan.id);
 
     // Update the lesson date
     const updatedLesson = await prisma.eTFOLessonPlan.update({
@@ -520,6 +589,7 @@ router.put('/:id/reschedule', async (req: Request, res, _next) => {
       },
     });
 
+    await snapshotPlan('lesson', updatedLesson.id, userId, 'update', 'Rescheduled');
     res.json(updatedLesson);
   } catch (err) {
     _next(err);
@@ -601,6 +671,13 @@ router.post('/duplicate', async (req: Request, res, _next) => {
       return newLesson;
     });
 
+    await snapshotPlan(
+      'lesson',
+      result.id,
+      userId,
+      'create',
+      `Duplicated from ${sourceLesson.title}`,
+    );
     res.status(201).json(result);
   } catch (err) {
     _next(err);
@@ -0,0 +1,108 @@
+/**
+ * Guardian Portal Routes
+ * Read-only pages for guardians, who sign in with single-use links emailed by
+ * the teacher or requested here. Every view is audit-logged.
+ */
+
+import { Router, Request } from 'express';
+import { z } from 'zod';
+import { prisma } from '../prisma';
+import { rateLimiters } from '../middleware/rateLimiter';
+import { auditLoggers } from '../middleware/auditLog';
+import { authenticateGuardian } from '../middleware/authenticateGuardian';
+import {
+  getPortalChildren,
+  getPortalEntries,
+  GuardianPortalError,
+  requestPortalLink,
+  signInWithPortalLink,
+} from '../services/guardianPortalService';
+
+const router = Router();
+
+const linkRequestSchema = z.object({ email: z.string().email().max(255) });
+const signInSchema = z.object({ token: z.string().min(1).max(200) });
+
+// Ask for a new sign-in link. Always succeeds so addresses cannot be probed.
+router.post('/magic-link', rateLimiters.auth, async (req: Request, res, next) => {
+  try {
+    const validation = linkRequestSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Please enter a valid email address' });
+    }
+
+    await requestPortalLink(validation.data.email);
+    res.status(202).json({
+      message: 'If that address is on file, a sign-in link is on its way.',
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.post(
+  '/sign-in',
+  rateLimiters.auth,
+  auditLoggers.guardianPortalSignIn,
+  async (req: Request, res, next) => {
+    try {
+      const validation = signInSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: 'Missing sign-in link' });
+      }
+
+      const session = await signInWithPortalLink(validation.data.token);
+      req.guardian = { id: session.guardianId, email: session.email };
+      res.json({ token: session.token, expiresAt: session.expiresAt });
+    } catch (err) {
+      if (err instanceof GuardianPortalError) {
+        return res.status(400).json({ error: err.message });
+      }
+      next(err);
+    }
+  },
+);
+
+router.use(authenticateGuardian, rateLimiters.api);
+
+// The signed-in guardian and the children they can see
+router.get('/me', auditLoggers.guardianPortalView, async (req: Request, res, next) => {
+  try {
+    const guardian = await prisma.guardian.findUnique({ where: { id: req.guardian!.id } });
+    if (!guardian) {
+      return res
+        .status(401)
+        .json({ error: 'Your portal session has ended. Please sign in again.' });
+    }
+
+    res.json({
+      name: guardian.name,
+      language: guardian.preferredLanguage === 'fr' ? 'fr' : 'en',
+      children: await getPortalChildren(guardian),
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// What the teacher has published for one child
+router.get(
+  '/students/:studentId',
+  auditLoggers.guardianPortalView,
+  async (req: Request, res, next) => {
+    try {
+      const guardian = await prisma.guardian.findUnique({ where: { id: req.guardian!.id } });
+      const children = guardian ? await getPortalChildren(guardian) : [];
+      const child = children.find((c) => c.studentId === Number(req.params.studentId));
+      if (!child) {
+        return res.status(404).json({ error: 'Student not found' });
+      }
+
+      res.json({ child, entries: await getPortalEntries(child.studentId, child.language) });
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+export default router;
@@ -0,0 +1,40 @@
+/**
+ * iCal Export Routes
+ * Read-only calendars for Google, Outlook and Apple calendar subscriptions.
+ * Calendar apps cannot sign in, so the secret token in the URL is the only
+ * credential; unknown tokens get a plain 404.
+ */
+
+import { Router, Response } from 'express';
+import { buildPersonalExport, buildTeamExport } from '../services/icalService';
+
+const router = Router();
+
+function sendCalendar(res: Response, ics: string | null) {
+  if (!ics) {
+    return res.status(404).json({ error: 'Calendar not found' });
+  }
+  res
+    .type('text/calendar; charset=utf-8')
+    .set('Content-Disposition', 'inline; filename="calendar.ics"')
+    .set('Cache-Control', 'private, max-age=300')
+    .send(ics);
+}
+
+router.get('/:token.ics', async (req, res, next) => {
+  try {
+    sendCalendar(res, await buildPersonalExport(req.params.token));
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.get('/:token/teams/:teamId.ics', async (req, res, next) => {
+  try {
+    sendCalendar(res, await buildTeamExport(req.params.token, req.params.teamId));
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
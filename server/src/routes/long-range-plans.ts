@@ -4,6 +4,8 @@ import { prisma } from '../prisma';
 import { validate } from '../validation';
 import { z } from 'zod';
 import { generateLongRangePlanDraft, generatePlanSuggestions } from '../services/aiDraftService';
+import { ensurePlanBaseline, snapshotPlan } from '../services/planVersionService';
+import { FrameworkError, migratePlanToFramework } from '../services/curriculumFrameworkService';
 
 const router = Router();
 
@@ -15,6 +17,7 @@ const longRangePlanCreateSchema = z.object({
   term: z.string().optional(),
   grade: z.number().int().min(1).max(12),
   subject: z.string().min(1),
+  frameworkId: z.string().nullable().optional(),
   description: z.string().optional(),
   descriptionFr: z.string().optional(),
   goals: z.string().optional(),
@@ -30,6 +33,11 @@ const longRangePlanCreateSchema = z.object({
 
 const longRangePlanUpdateSchema = longRangePlanCreateSchema.partial();
 
+const frameworkMigrationSchema = z.object({
+  frameworkId: z.string().min(1),
+  apply: z.boolean().default(false),
+});
+
 // Get all long-range plans for the authenticated user
 router.get('/', async (req: Request, res, _next) => {
   try {
@@ -49,6 +57,7 @@ router.get('/', async (req: Request, res, _next) => {
       where,
       orderBy: [{ academicYear: 'desc' }, { subject: 'asc' }, { grade: 'asc' }],
       include: {
+        framework: true,
         _count: {
           select: {
             unitPlans: true,
@@ -78,6 +87,7 @@ router.get('/:id', async (req: Request, res, _next) => {
         userId,
       },
       include: {
+        framework: true,
         expectations: {
           include: {
             expectation: true,
@@ -158,6 +168,7 @@ router.post('/', validate(longRangePlanCreateSchema), async (req: Request, res,
           expectationId,
         })),
       });
+      await snapshotPlan('long-range', plan.id, userId, 'create');
 
       // Refetch with expectations
       const updatedPlan = await prisma.longRangePlan.findUnique({
@@ -175,6 +186,7 @@ router.post('/', validate(longRangePlanCreateSchema), async (req: Request, res,
       return res.status(201).json(updatedPlan);
     }
 
+    await snapshotPlan('long-range', plan.id, userId, 'create');
     res.status(201).json(plan);
   } catch (err) {
     _next(err);
@@ -199,6 +211,17 @@ router.put('/:id', validate(longRangePlanUpdateSchema), async (req: Request, res
     if (!existing) {
       return res.status(404).json({ error: 'Long-range plan not found' });
     }
+    // Switching versions re-points linked expectations, which the migration does
+    if (
+      updateData.frameworkId !== undefined &&
+      existing.frameworkId &&
+      updateData.frameworkId !== existing.frameworkId
+    ) {
+      return res.status(400).json({
+        error: 'Use the framework migration to move a plan to another framework',
+      });
+    }
+    await ensurePlanBaseline('long-range', existing.id);
 
     // Update the plan
     const plan = await prisma.longRangePlan.update({
@@ -226,6 +249,7 @@ router.put('/:id', validate(longRangePlanUpdateSchema), async (req: Request, res
         });
       }
     }
+    await snapshotPlan('long-range', plan.id, userId, 'update');
 
     // Refetch with updated relationships
     const updatedPlan = await prisma.longRangePlan.findUnique({
@@ -290,6 +314,40 @@ router.delete('/:id', async (req: Request, res, _next) => {
   }
 });
 
+// Move the plan and everything under it to another curriculum framework.
+// Without apply this is a preview: the crosswalk and the links that would move.
+router.post('/:id/migrate-framework', async (req: Request, res, _next) => {
+  try {
+    const userId = req.user?.id || 0;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const validation = frameworkMigrationSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res
+        .status(400)
+        .json({ error: 'Invalid request data', details: validation.error.errors });
+    }
+
+    const { frameworkId, apply } = validation.data as z.infer<typeof frameworkMigrationSchema>;
+    if (apply) {
+      await ensurePlanBaseline('long-range', req.params.id);
+    }
+    const migration = await migratePlanToFramework(userId, req.params.id, frameworkId, apply);
+    if (apply) {
+      await snapshotPlan('long-range', req.params.id, userId, 'update');
+    }
+
+    res.json(migration);
+  } catch (err) {
+    if (err instanceof FrameworkError) {
+      return res.status(400).json({ error: err.message });
+    }
+    _next(err);
+  }
+});
+
 // Generate AI draft for long-range plan
 router.post('/ai-draft', async (req: Request, res, _next) => {
   try {
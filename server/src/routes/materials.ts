@@ -0,0 +1,107 @@
+/**
+ * Material Routes
+ * Weekly prep checklists built from the teacher's lesson plans, and a zip of
+ * the handouts attached to the week's lessons and units.
+ */
+
+import { Router, Request } from 'express';
+import { z } from 'zod';
+import { extractDayMaterials } from '../services/materialExtractor';
+import {
+  generateMaterialDetails,
+  generateMaterialList,
+  zipWeeklyPrintables,
+} from '../services/materialGenerator';
+
+const router = Router();
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+const weekQuerySchema = z.object({ weekStart: isoDate });
+const dayQuerySchema = z.object({ date: isoDate });
+
+router.get('/', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const validation = weekQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res
+        .status(400)
+        .json({ error: 'Invalid request data', details: validation.error.errors });
+    }
+
+    const { weekStart } = validation.data;
+    res.json({ weekStart, items: await generateMaterialList(weekStart, userId) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.get('/details', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const validation = weekQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res
+        .status(400)
+        .json({ error: 'Invalid request data', details: validation.error.errors });
+    }
+
+    res.json(await generateMaterialDetails(validation.data.weekStart, userId));
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.get('/day', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const validation = dayQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res
+        .status(400)
+        .json({ error: 'Invalid request data', details: validation.error.errors });
+    }
+
+    res.json(await extractDayMaterials(validation.data.date, userId));
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.get('/printables', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const validation = weekQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res
+        .status(400)
+        .json({ error: 'Invalid request data', details: validation.error.errors });
+    }
+
+    const { weekStart } = validation.data;
+    const zip = await zipWeeklyPrintables(weekStart, userId);
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="printables-${weekStart}.zip"`);
+    res.send(zip);
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
@@ -2,6 +2,10 @@ import { Router, Request } from 'express';
 import { prisma } from '../prisma';
 import { z } from 'zod';
 import { generateNewsletterContent } from '../services/newsletterService';
+import {
+  listNewsletterRecipients,
+  sendNewsletterToFamilies,
+} from '../services/newsletterDeliveryService';
 
 const router = Router();
 
@@ -18,6 +22,13 @@ const generateNewsletterSchema = z.object({
   includeUpcomingEvents: z.boolean().default(true),
 });
 
+const sendNewsletterSchema = z.object({
+  recipientEmails: z.array(z.string().email()).max(200).default([]),
+  language: z.enum(['en', 'fr']).default('en'),
+  // Email the guardians of the newsletter's students in their own language
+  includeGuardians: z.boolean().default(true),
+});
+
 const saveNewsletterSchema = z.object({
   title: z.string().min(1),
   titleFr: z.string().min(1),
@@ -369,6 +380,21 @@ router.post('/:id/send', async (req: Request, res, next) => {
       return res.status(400).json({ error: 'Newsletter already sent' });
     }
 
+    const validation = sendNewsletterSchema.safeParse(req.body ?? {});
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid request data',
+        details: validation.error.flatten(),
+      });
+    }
+    const { recipientEmails, language, includeGuardians } = validation.data;
+
+    const { sent, skipped } = await sendNewsletterToFamilies(newsletter, userId, {
+      recipientEmails,
+      language,
+      includeGuardians,
+    });
+
     // Update newsletter as sent
     await prisma.newsletter.update({
       where: { id: req.params.id },
@@ -378,16 +404,44 @@ router.post('/:id/send', async (req: Request, res, next) => {
       },
     });
 
-    // TODO: Implement actual email sending logic here
-    // For now, we'll just mark it as sent
-
-    res.json({ message: 'Newsletter sent successfully' });
+    res.json({
+      message: 'Newsletter sent successfully',
+      sent,
+      skipped,
+      recipients: await listNewsletterRecipients(newsletter.id),
+    });
   } catch (err) {
     console.error('Error sending newsletter:', err);
     next(err);
   }
 });
 
+// Get who a newsletter was sent to, with each recipient's delivery status
+router.get('/:id/recipients', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const newsletter = await prisma.newsletter.findFirst({
+      where: {
+        id: req.params.id,
+        userId: userId,
+      },
+      select: { id: true },
+    });
+
+    if (!newsletter) {
+      return res.status(404).json({ error: 'Newsletter not found' });
+    }
+
+    res.json(await listNewsletterRecipients(newsletter.id));
+  } catch (err) {
+    next(err);
+  }
+});
+
 // Delete newsletter
 router.delete('/:id', async (req: Request, res, next) => {
   try {
@@ -428,7 +482,7 @@ router.get('/suggestions', async (req: Request, res, next) => {
 
     // Get recent students for the user
     const recentStudents = await prisma.student.findMany({
-      where: { userId: userId },
+      where: { userId: userId, archivedAt: null },
       take: 10,
       orderBy: { updatedAt: 'desc' },
       select: {
@@ -5,7 +5,11 @@
 
 import { Router, Request } from 'express';
 import { z } from 'zod';
-import { notificationService, NotificationPreferences } from '../services/notificationService';
+import {
+  isTimeZone,
+  notificationService,
+  NotificationPreferences,
+} from '../services/notificationService';
 
 const router = Router();
 
@@ -14,13 +18,16 @@ const markAsReadSchema = z.object({
   notificationId: z.string().min(1),
 });
 
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be HH:MM');
+
 const updatePreferencesSchema = z.object({
   emailEnabled: z.boolean().optional(),
   pushEnabled: z.boolean().optional(),
   quietHours: z
     .object({
-      start: z.string().regex(/^\d{2}:\d{2}$/),
-      end: z.string().regex(/^\d{2}:\d{2}$/),
+      start: timeOfDay,
+      end: timeOfDay,
+      timeZone: z.string().refine(isTimeZone, 'Unknown time zone').optional(),
     })
     .optional(),
   categories: z
@@ -42,7 +49,10 @@ router.get('/', async (req: Request, res, next) => {
     }
 
     const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
-    const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+    // Either an explicit offset or a 1-based page number
+    const page = parseInt(req.query.page as string);
+    const offset =
+      page > 0 ? (page - 1) * limit : Math.max(parseInt(req.query.offset as string) || 0, 0);
     const unreadOnly = req.query.unread === 'true';
 
     const result = await notificationService.getUserNotifications(userId, {
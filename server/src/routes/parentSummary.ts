@@ -1,6 +1,7 @@
 import { Router, Request } from 'express';
 import { prisma } from '../prisma';
 import { generateParentSummary, regenerateParentSummary } from '../services/parentSummaryLLM';
+import { sendParentSummaryToGuardians } from '../services/guardianService';
 import { z } from 'zod';
 
 const router = Router();
@@ -263,6 +264,51 @@ router.put('/:id', async (req: Request, res, _next) => {
   }
 });
 
+// Email a summary to the student's guardians, each in their preferred language
+router.post('/:id/send', async (req: Request, res, _next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const summaryId = parseInt(req.params.id);
+
+    // Verify the summary belongs to a student of this teacher
+    const summary = await prisma.parentSummary.findFirst({
+      where: {
+        id: summaryId,
+        student: {
+          userId: userId,
+        },
+      },
+      include: { student: true },
+    });
+
+    if (!summary) {
+      return res.status(404).json({ error: 'Summary not found' });
+    }
+
+    const { deliveries, skipped } = await sendParentSummaryToGuardians(summary, userId);
+    if (deliveries.length === 0) {
+      return res.status(400).json({
+        error: 'No guardian of this student can be reached by email',
+        skipped,
+      });
+    }
+
+    // A sent summary is final
+    await prisma.parentSummary.update({
+      where: { id: summaryId },
+      data: { isDraft: false },
+    });
+
+    res.json({ sent: deliveries.length, deliveries, skipped });
+  } catch (err) {
+    _next(err);
+  }
+});
+
 // Delete a summary
 router.delete('/:id', async (req: Request, res, _next) => {
   try {
@@ -0,0 +1,153 @@
+/**
+ * Plan Version Routes
+ * History, diffs and restores for long-range, unit, lesson and daybook plans
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import {
+  PLAN_TYPES,
+  PlanType,
+  diffPlanVersions,
+  getPlanAccess,
+  getPlanVersion,
+  listPlanVersions,
+  revertPlanToVersion,
+} from '../services/planVersionService';
+
+const router = Router();
+
+const planParamsSchema = z.object({
+  planType: z.enum(PLAN_TYPES),
+  planId: z.string().min(1),
+});
+
+const diffQuerySchema = z.object({
+  from: z.coerce.number().int().positive(),
+  to: z.coerce.number().int().positive(),
+});
+
+const revertSchema = z.object({
+  versionNumber: z.number().int().positive(),
+  changeNotes: z.string().max(500).optional(),
+});
+
+/**
+ * Resolve the plan from the URL and check the user may see its history.
+ * Sends the error response and returns null when they may not.
+ */
+async function resolvePlan(req: Request, res: Response, needsEdit = false) {
+  const userId = req.user?.id;
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return null;
+  }
+
+  const params = planParamsSchema.safeParse(req.params);
+  if (!params.success) {
+    res.status(400).json({ error: 'Invalid plan type', details: params.error.flatten() });
+    return null;
+  }
+
+  const { planType, planId } = params.data;
+  const access = await getPlanAccess(planType, planId, userId);
+  if (!access.exists || !access.canView) {
+    res.status(404).json({ error: 'Plan not found' });
+    return null;
+  }
+  if (needsEdit && !access.canEdit) {
+    res.status(403).json({ error: 'You do not have permission to edit this plan' });
+    return null;
+  }
+
+  return { userId, planType: planType as PlanType, planId };
+}
+
+// List a plan's versions, newest first
+router.get('/:planType/:planId', async (req: Request, res, next) => {
+  try {
+    const plan = await resolvePlan(req, res);
+    if (!plan) return;
+
+    res.json(await listPlanVersions(plan.planType, plan.planId));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Field-level diff between two versions
+router.get('/:planType/:planId/diff', async (req: Request, res, next) => {
+  try {
+    const plan = await resolvePlan(req, res);
+    if (!plan) return;
+
+    const query = diffQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({
+        error: 'Invalid query parameters',
+        details: query.error.flatten(),
+      });
+    }
+
+    const diff = await diffPlanVersions(plan.planType, plan.planId, query.data.from, query.data.to);
+    if (!diff) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+    res.json(diff);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// A single version with its full content
+router.get('/:planType/:planId/:versionNumber', async (req: Request, res, next) => {
+  try {
+    const plan = await resolvePlan(req, res);
+    if (!plan) return;
+
+    const versionNumber = Number(req.params.versionNumber);
+    if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+      return res.status(400).json({ error: 'Invalid version number' });
+    }
+
+    const version = await getPlanVersion(plan.planType, plan.planId, versionNumber);
+    if (!version) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+    res.json(version);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Restore the plan to an earlier version
+router.post('/:planType/:planId/revert', async (req: Request, res, next) => {
+  try {
+    const plan = await resolvePlan(req, res, true);
+    if (!plan) return;
+
+    const validation = revertSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid request data',
+        details: validation.error.flatten(),
+      });
+    }
+
+    const version = await revertPlanToVersion(
+      plan.planType,
+      plan.planId,
+      validation.data.versionNumber,
+      plan.userId,
+      validation.data.changeNotes,
+    );
+    if (!version) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+    res.json(version);
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
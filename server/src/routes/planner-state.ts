@@ -4,6 +4,14 @@ import { z } from 'zod';
 import rateLimit from 'express-rate-limit';
 import { cuidSchema } from '../validation';
 import DOMPurify from 'isomorphic-dompurify';
+import {
+  generateWeeklySchedule,
+  acceptWeeklySchedule,
+  type ScheduledSlot,
+  type TimetableSlotInput,
+} from '../services/planningEngine';
+import { getTimetableBlocks } from '../services/timetableService';
+import { PROVINCES } from '../services/schoolCalendarService';
 
 const router = express.Router();
 
@@ -75,6 +83,20 @@ const OfflineDataSchema = z
   })
   .strict();
 
+// Term boundaries drive mid-term newsletter reminders
+const TermDateSchema = z
+  .object({
+    name: z
+      .string()
+      .min(1)
+      .max(50)
+      .regex(/^[^<>]*$/, 'Term name cannot contain HTML tags'),
+    start: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+    end: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  })
+  .strict()
+  .refine((term) => term.end > term.start, { message: 'Term must end after it starts' });
+
 const WeeklyPlannerStateSchema = z
   .object({
     // View preferences
@@ -96,6 +118,9 @@ const WeeklyPlannerStateSchema = z
     autoSaveInterval: z.number().min(5).max(300).default(30),
     showUncoveredOutcomes: z.boolean().default(true),
     defaultLessonDuration: z.number().min(15).max(240).default(60),
+    termDates: z.array(TermDateSchema).max(6).optional(),
+    // Holidays and default terms; null follows the school board
+    province: z.enum(PROVINCES).nullable().optional(),
 
     // Current state
     currentWeekStart: z.string().datetime().optional(),
@@ -111,6 +136,48 @@ const WeeklyPlannerStateSchema = z
   })
   .strict();
 
+const TimetableSlotInputSchema = z.object({
+  id: z.number().int(),
+  day: z.number().int().min(0).max(6),
+  startMin: z.number().int().min(0).max(1440),
+  endMin: z.number().int().min(0).max(1440),
+  subjectId: z.number().int().nullable(),
+});
+
+const SchedulePreviewSchema = z
+  .object({
+    weekStart: z
+      .string()
+      .datetime()
+      .or(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)),
+    pacingStrategy: z.enum(['strict', 'relaxed']).default('relaxed'),
+    preserveBuffer: z.boolean().default(true),
+    // Omit to schedule into the teacher's class timetable
+    slots: z.array(TimetableSlotInputSchema).max(200).optional(),
+    unitPriorities: z.record(z.string().max(50), z.number()).optional(),
+  })
+  .strict();
+
+const ScheduledSlotSchema = z.object({
+  kind: z.enum(['existing', 'proposed', 'buffer']),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  day: z.number().int().min(0).max(6),
+  slotId: z.number().int().nullable(),
+  startMin: z.number().int().min(0).max(1440),
+  endMin: z.number().int().min(0).max(1440),
+  unitPlanId: cuidSchema().nullable(),
+  lessonPlanId: cuidSchema().nullable(),
+  title: z.string().min(1).max(255),
+  subject: z.string().max(100).nullable(),
+  expectationIds: z.array(cuidSchema()).max(50),
+});
+
+const ScheduleAcceptSchema = z
+  .object({
+    slots: z.array(ScheduledSlotSchema).max(200),
+  })
+  .strict();
+
 // Use global Express.Request type extended with user property
 
 // GET /api/planner/state - Get user's planner state
@@ -159,6 +226,7 @@ router.get('/state', async (req: express.Request, res: express.Response) => {
     const responseState = {
       ...plannerState,
       workingHours: JSON.parse(plannerState.workingHours),
+      termDates: JSON.parse(plannerState.termDates),
       draftChanges: plannerState.draftChanges ? JSON.parse(plannerState.draftChanges) : null,
       undoHistory: JSON.parse(plannerState.undoHistory),
       redoHistory: JSON.parse(plannerState.redoHistory),
@@ -234,6 +302,9 @@ router.put(
         autoSaveInterval: stateData.autoSaveInterval,
         showUncoveredOutcomes: stateData.showUncoveredOutcomes,
         defaultLessonDuration: stateData.defaultLessonDuration,
+        // Only replace term dates when the client sends them
+        ...(stateData.termDates && { termDates: JSON.stringify(stateData.termDates) }),
+        ...(stateData.province !== undefined && { province: stateData.province }),
         currentWeekStart: stateData.currentWeekStart
           ? new Date(stateData.currentWeekStart)
           : new Date(),
@@ -261,6 +332,7 @@ router.put(
       const responseState = {
         ...plannerState,
         workingHours: JSON.parse(plannerState.workingHours),
+        termDates: JSON.parse(plannerState.termDates),
         draftChanges: plannerState.draftChanges ? JSON.parse(plannerState.draftChanges) : null,
         undoHistory: JSON.parse(plannerState.undoHistory),
         redoHistory: JSON.parse(plannerState.redoHistory),
@@ -347,6 +419,9 @@ router.get('/week/:weekStart/state', async (req: express.Request, res: Response)
       },
     });
 
+    // Daily teaching blocks from the class timetable
+    const timetableBlocks = await getTimetableBlocks(userId, weekStart, 7);
+
     // Get uncovered curriculum expectations for progress tracking
     const allExpectations = await prisma.curriculumExpectation.count({
       where: {
@@ -375,6 +450,7 @@ router.get('/week/:weekStart/state', async (req: express.Request, res: Response)
       weekEnd,
       lessonPlans,
       daybookEntries,
+      timetableBlocks,
       progress: {
         totalExpectations: allExpectations,
         coveredExpectations,
@@ -443,6 +519,7 @@ router.post(
       const responseState = {
         ...plannerState,
         workingHours: JSON.parse(plannerState.workingHours),
+        termDates: JSON.parse(plannerState.termDates),
         draftChanges: plannerState.draftChanges ? JSON.parse(plannerState.draftChanges) : null,
         undoHistory: JSON.parse(plannerState.undoHistory),
         redoHistory: JSON.parse(plannerState.redoHistory),
@@ -457,4 +534,79 @@ router.post(
   },
 );
 
+// POST /api/planner/schedule/preview - Propose a week of lessons from active unit plans
+router.post('/schedule/preview', async (req: express.Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const validationResult = SchedulePreviewSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid schedule request',
+        details: validationResult.error.errors,
+      });
+    }
+
+    const { weekStart, pacingStrategy, preserveBuffer, slots, unitPriorities } =
+      validationResult.data;
+
+    const preview = await generateWeeklySchedule({
+      userId: req.user.id,
+      weekStart: new Date(weekStart),
+      slots: slots as TimetableSlotInput[],
+      pacingStrategy,
+      preserveBuffer,
+      unitPriorities: unitPriorities ? new Map(Object.entries(unitPriorities)) : undefined,
+    });
+
+    res.json(preview);
+  } catch (error) {
+    console.error('Error generating weekly schedule:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/planner/schedule/accept - Create lesson plans from accepted preview slots
+router.post(
+  '/schedule/accept',
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  stateRateLimit as any,
+  csrfProtection,
+  async (req: express.Request, res: Response) => {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+
+      const validationResult = ScheduleAcceptSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: 'Invalid schedule data',
+          details: validationResult.error.errors,
+        });
+      }
+
+      const slots = (validationResult.data.slots as ScheduledSlot[]).map((slot) => ({
+        ...slot,
+        title: sanitizeText(slot.title),
+      }));
+
+      try {
+        const lessonPlans = await acceptWeeklySchedule(req.user.id, slots);
+        res.status(201).json({ created: lessonPlans.length, lessonPlans });
+      } catch (error) {
+        if (error instanceof Error && error.message.startsWith('Unit plans not found')) {
+          return res.status(404).json({ error: error.message });
+        }
+        throw error;
+      }
+    } catch (error) {
+      console.error('Error accepting weekly schedule:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
+
 export default router;
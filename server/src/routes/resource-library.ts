@@ -0,0 +1,587 @@
+/**
+ * Resource Library Routes
+ * School-wide library of teacher-contributed resources. Contributions wait in
+ * a moderation queue until a moderator approves them; approved resources can
+ * be rated, bookmarked and attached to ETFO lesson plans.
+ */
+
+import { Router, Request } from 'express';
+import { z } from 'zod';
+import { prisma } from '../prisma';
+import logger from '../logger';
+import { saveFile } from '../storage';
+import {
+  DOCUMENT_EXTENSIONS,
+  multipartBoolean,
+  multipartList,
+  singleFileUpload,
+} from '../middleware/fileUpload';
+import {
+  FRENCH_LEVELS,
+  RESOURCE_TYPES,
+  canModerateResource,
+  getModeratedContributorIds,
+  canViewResource,
+  listBookmarks,
+  notifyResourceReviewed,
+  refreshAverageRating,
+  searchLibrary,
+} from '../services/resourceLibraryService';
+
+const router = Router();
+
+const uploadFile = singleFileUpload(DOCUMENT_EXTENSIONS);
+
+const resourceFields = z.object({
+  title: z.string().min(1).max(200),
+  titleFr: z.string().max(200).optional(),
+  description: z.string().max(5000).optional(),
+  descriptionFr: z.string().max(5000).optional(),
+  resourceType: z.enum(RESOURCE_TYPES),
+  content: z.string().max(50000).optional(),
+  subject: z.string().min(1).max(100),
+  gradeMin: z.coerce.number().int().min(0).max(12),
+  gradeMax: z.coerce.number().int().min(0).max(12),
+  language: z.enum(['en', 'fr']).optional(),
+  isFrenchImmersion: multipartBoolean.optional(),
+  frenchLevel: z.enum(FRENCH_LEVELS).optional(),
+  categories: multipartList.optional(),
+  tags: multipartList.optional(),
+  curriculumCodes: multipartList.optional(),
+  schoolName: z.string().max(200).optional(),
+  schoolBoard: z.string().max(200).optional(),
+});
+
+const createResourceSchema = resourceFields.extend({
+  previousVersionId: z.string().optional(),
+});
+
+const updateResourceSchema = resourceFields.partial();
+
+const searchQuerySchema = z.object({
+  search: z.string().optional(),
+  subject: z.string().optional(),
+  grade: z.coerce.number().int().min(0).max(12).optional(),
+  curriculumCode: z.string().optional(),
+  resourceType: z.enum(RESOURCE_TYPES).optional(),
+  language: z.enum(['en', 'fr']).optional(),
+  isFrenchImmersion: multipartBoolean.optional(),
+  frenchLevel: z.enum(FRENCH_LEVELS).optional(),
+  sort: z.enum(['recent', 'rating', 'popular']).optional(),
+  page: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().positive().max(100).optional(),
+});
+
+const reviewSchema = z
+  .object({
+    approved: z.boolean(),
+    reason: z.string().max(1000).optional(),
+  })
+  .refine((data) => data.approved || !!data.reason?.trim(), {
+    message: 'A reason is required when sending a resource back',
+    path: ['reason'],
+  });
+
+const ratingSchema = z.object({
+  rating: z.number().int().min(1).max(5),
+  review: z.string().max(2000).optional(),
+  gradeUsed: z.number().int().min(0).max(12).optional(),
+  effectiveness: z.string().max(500).optional(),
+});
+
+const bookmarkSchema = z.object({
+  notes: z.string().max(2000).optional(),
+  tags: z.array(z.string().min(1).max(50)).max(20).optional(),
+});
+
+const attachSchema = z.object({
+  lessonPlanId: z.string().min(1),
+});
+
+async function storeUpload(file: Express.Multer.File): Promise<string> {
+  return saveFile(`library-${Date.now()}-${file.originalname}`, file.buffer);
+}
+
+// Search the library
+router.get('/', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const query = searchQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ error: 'Invalid search', details: query.error.flatten() });
+    }
+
+    res.json(await searchLibrary(userId, query.data));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// The user's bookmarks, optionally filtered by one of their tags
+router.get('/bookmarks', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const tag = typeof req.query.tag === 'string' ? req.query.tag : undefined;
+    res.json(await listBookmarks(userId, tag));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Contributions waiting for review, oldest first
+router.get('/moderation/queue', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    const contributorIds = await getModeratedContributorIds(userId);
+    if (contributorIds?.length === 0) {
+      return res.status(403).json({ error: 'Only moderators can review library resources' });
+    }
+
+    const pending = await prisma.resourceLibraryItem.findMany({
+      where: {
+        isApproved: false,
+        rejectionReason: null,
+        ...(contributorIds && { contributorId: { in: contributorIds } }),
+      },
+      include: { contributor: { select: { id: true, name: true, email: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.json(pending);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Get a resource with its reviews and the user's own rating and bookmark
+router.get('/:id', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const existing = await prisma.resourceLibraryItem.findUnique({ where: { id: req.params.id } });
+    const canModerate = !!existing && (await canModerateResource(userId, existing));
+    if (!existing || !canViewResource(existing, userId, canModerate)) {
+      return res.status(404).json({ error: 'Resource not found' });
+    }
+
+    const [resource, bookmark] = await Promise.all([
+      prisma.resourceLibraryItem.update({
+        where: { id: existing.id },
+        data: { viewCount: { increment: 1 } },
+        include: {
+          contributor: { select: { id: true, name: true } },
+          ratings: { orderBy: { createdAt: 'desc' }, take: 50 },
+        },
+      }),
+      prisma.resourceBookmark.findUnique({
+        where: { userId_resourceId: { userId, resourceId: existing.id } },
+      }),
+    ]);
+
+    res.json({
+      ...resource,
+      myRating: resource.ratings.find((rating) => rating.userId === userId) ?? null,
+      bookmark,
+      canModerate,
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Contribute a resource, or a new version of one, with an optional file
+router.post('/', uploadFile, async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const parsed = createResourceSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid resource', details: parsed.error.flatten() });
+    }
+    const { previousVersionId, categories, tags, curriculumCodes, ...data } = parsed.data;
+
+    if (data.gradeMin > data.gradeMax) {
+      return res.status(400).json({ error: 'gradeMin cannot be above gradeMax' });
+    }
+    if (!req.file && !data.content) {
+      return res.status(400).json({ error: 'Add a file or inline content' });
+    }
+
+    const canModerate = await canModerateResource(userId, { contributorId: userId });
+    let version = 1;
+    if (previousVersionId) {
+      const previous = await prisma.resourceLibraryItem.findUnique({
+        where: { id: previousVersionId },
+      });
+      if (!previous) {
+        return res.status(404).json({ error: 'Previous version not found' });
+      }
+      if (previous.contributorId !== userId && !(await canModerateResource(userId, previous))) {
+        return res
+          .status(403)
+          .json({ error: 'Only the contributor can publish a new version of this resource' });
+      }
+      version = previous.version + 1;
+    }
+
+    const fileUrl = req.file ? await storeUpload(req.file) : undefined;
+
+    // Moderators' own contributions skip the queue
+    const resource = await prisma.resourceLibraryItem.create({
+      data: {
+        ...data,
+        title: data.title,
+        resourceType: data.resourceType,
+        subject: data.subject,
+        gradeMin: data.gradeMin,
+        gradeMax: data.gradeMax,
+        fileUrl,
+        categories: categories ?? [],
+        tags: tags ?? [],
+        curriculumCodes: curriculumCodes ?? [],
+        contributorId: userId,
+        version,
+        previousVersionId,
+        ...(canModerate && { isApproved: true, approvedAt: new Date(), approvedBy: userId }),
+      },
+    });
+
+    logger.info(`Library resource ${resource.id} contributed by user ${userId}`);
+    res.status(201).json(resource);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Edit a resource. Edits by the contributor send it back through moderation.
+router.patch('/:id', uploadFile, async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const parsed = updateResourceSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid resource', details: parsed.error.flatten() });
+    }
+
+    const resource = await prisma.resourceLibraryItem.findUnique({ where: { id: req.params.id } });
+    const canModerate = !!resource && (await canModerateResource(userId, resource));
+    if (!resource || !canViewResource(resource, userId, canModerate)) {
+      return res.status(404).json({ error: 'Resource not found' });
+    }
+    if (resource.contributorId !== userId && !canModerate) {
+      return res.status(403).json({ error: 'Only the contributor can edit this resource' });
+    }
+
+    const gradeMin = parsed.data.gradeMin ?? resource.gradeMin;
+    const gradeMax = parsed.data.gradeMax ?? resource.gradeMax;
+    if (gradeMin > gradeMax) {
+      return res.status(400).json({ error: 'gradeMin cannot be above gradeMax' });
+    }
+
+    const fileUrl = req.file ? await storeUpload(req.file) : undefined;
+
+    const updated = await prisma.resourceLibraryItem.update({
+      where: { id: resource.id },
+      data: {
+        ...parsed.data,
+        fileUrl,
+        rejectionReason: null,
+        ...(!canModerate && { isApproved: false, approvedAt: null, approvedBy: null }),
+      },
+    });
+
+    res.json(updated);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Delete a resource (contributor or moderator)
+router.delete('/:id', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const resource = await prisma.resourceLibraryItem.findUnique({ where: { id: req.params.id } });
+    const canModerate = !!resource && (await canModerateResource(userId, resource));
+    if (!resource || !canViewResource(resource, userId, canModerate)) {
+      return res.status(404).json({ error: 'Resource not found' });
+    }
+    if (resource.contributorId !== userId && !canModerate) {
+      return res.status(403).json({ error: 'You cannot delete this resource' });
+    }
+
+    // Bookmarks have no foreign key to the resource, so they are not cascaded
+    await prisma.$transaction([
+      prisma.resourceBookmark.deleteMany({ where: { resourceId: resource.id } }),
+      prisma.resourceLibraryItem.delete({ where: { id: resource.id } }),
+    ]);
+
+    logger.info(`Library resource ${resource.id} deleted by user ${userId}`);
+    res.status(204).send();
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Approve a resource, or send it back to the contributor with a reason
+router.post('/:id/review', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    const parsed = reviewSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid review', details: parsed.error.flatten() });
+    }
+    const { approved, reason } = parsed.data;
+
+    const resource = await prisma.resourceLibraryItem.findUnique({ where: { id: req.params.id } });
+    if (!resource) {
+      return res.status(404).json({ error: 'Resource not found' });
+    }
+    if (!(await canModerateResource(userId, resource))) {
+      return res.status(403).json({ error: 'Only moderators can review library resources' });
+    }
+
+    const reviewed = await prisma.resourceLibraryItem.update({
+      where: { id: resource.id },
+      data: approved
+        ? { isApproved: true, approvedAt: new Date(), approvedBy: userId, rejectionReason: null }
+        : { isApproved: false, approvedAt: null, approvedBy: null, rejectionReason: reason },
+    });
+
+    void notifyResourceReviewed(reviewed, reason);
+
+    logger.info(
+      `Library resource ${resource.id} ${approved ? 'approved' : 'sent back'} by user ${userId}`,
+    );
+    res.json(reviewed);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Rate an approved resource (one rating per user, updated on repeat)
+router.put('/:id/rating', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const parsed = ratingSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid rating', details: parsed.error.flatten() });
+    }
+
+    const resource = await prisma.resourceLibraryItem.findUnique({ where: { id: req.params.id } });
+    if (!resource || !resource.isApproved) {
+      return res.status(404).json({ error: 'Resource not found' });
+    }
+    if (resource.contributorId === userId) {
+      return res.status(400).json({ error: 'You cannot rate your own resource' });
+    }
+
+    const rating = await prisma.resourceRating.upsert({
+      where: { resourceId_userId: { resourceId: resource.id, userId } },
+      create: { ...parsed.data, rating: parsed.data.rating, resourceId: resource.id, userId },
+      update: parsed.data,
+    });
+    const averageRating = await refreshAverageRating(resource.id);
+
+    res.json({ rating, averageRating });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Remove the user's rating
+router.delete('/:id/rating', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const { count } = await prisma.resourceRating.deleteMany({
+      where: { resourceId: req.params.id, userId },
+    });
+    if (count === 0) {
+      return res.status(404).json({ error: 'Rating not found' });
+    }
+
+    res.json({ averageRating: await refreshAverageRating(req.params.id) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Bookmark a resource, or update the bookmark's notes and tags
+router.put('/:id/bookmark', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const parsed = bookmarkSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid bookmark', details: parsed.error.flatten() });
+    }
+
+    const resource = await prisma.resourceLibraryItem.findUnique({ where: { id: req.params.id } });
+    if (!resource || !canViewResource(resource, userId, false)) {
+      return res.status(404).json({ error: 'Resource not found' });
+    }
+
+    const key = { userId_resourceId: { userId, resourceId: resource.id } };
+    const bookmark = await prisma.$transaction(async (tx) => {
+      const existing = await tx.resourceBookmark.findUnique({ where: key });
+      if (existing) {
+        return tx.resourceBookmark.update({ where: key, data: parsed.data });
+      }
+      await tx.resourceLibraryItem.update({
+        where: { id: resource.id },
+        data: { bookmarkCount: { increment: 1 } },
+      });
+      return tx.resourceBookmark.create({
+        data: { ...parsed.data, userId, resourceId: resource.id },
+      });
+    });
+
+    res.json(bookmark);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Remove a bookmark
+router.delete('/:id/bookmark', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const key = { userId_resourceId: { userId, resourceId: req.params.id } };
+    const existing = await prisma.resourceBookmark.findUnique({ where: key });
+    if (!existing) {
+      return res.status(404).json({ error: 'Bookmark not found' });
+    }
+
+    await prisma.$transaction([
+      prisma.resourceBookmark.delete({ where: key }),
+      prisma.resourceLibraryItem.updateMany({
+        where: { id: req.params.id, bookmarkCount: { gt: 0 } },
+        data: { bookmarkCount: { decrement: 1 } },
+      }),
+    ]);
+
+    res.status(204).send();
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Count a download and return the file's URL
+router.post('/:id/download', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const resource = await prisma.resourceLibraryItem.findUnique({ where: { id: req.params.id } });
+    if (
+      !resource ||
+      !canViewResource(resource, userId, await canModerateResource(userId, resource))
+    ) {
+      return res.status(404).json({ error: 'Resource not found' });
+    }
+    if (!resource.fileUrl) {
+      return res.status(400).json({ error: 'This resource has no file' });
+    }
+
+    await prisma.resourceLibraryItem.update({
+      where: { id: resource.id },
+      data: { downloadCount: { increment: 1 } },
+    });
+
+    res.json({ fileUrl: resource.fileUrl });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Attach a resource to one of the user's ETFO lesson plans
+router.post('/:id/attach', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const parsed = attachSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid request', details: parsed.error.flatten() });
+    }
+
+    const resource = await prisma.resourceLibraryItem.findUnique({ where: { id: req.params.id } });
+    if (!resource || !canViewResource(resource, userId, false)) {
+      return res.status(404).json({ error: 'Resource not found' });
+    }
+
+    const lessonPlan = await prisma.eTFOLessonPlan.findFirst({
+      where: { id: parsed.data.lessonPlanId, userId },
+    });
+    if (!lessonPlan) {
+      return res.status(404).json({ error: 'Lesson plan not found' });
+    }
+
+    const [lessonResource] = await prisma.$transaction([
+      prisma.eTFOLessonPlanResource.create({
+        data: {
+          lessonPlanId: lessonPlan.id,
+          title: resource.title,
+          type: resource.resourceType,
+          url: resource.fileUrl,
+          content: resource.content,
+        },
+      }),
+      prisma.resourceLibraryItem.update({
+        where: { id: resource.id },
+        data: { downloadCount: { increment: 1 } },
+      }),
+    ]);
+
+    res.status(201).json(lessonResource);
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
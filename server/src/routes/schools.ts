@@ -0,0 +1,417 @@
+/**
+ * School Routes
+ * Schools, their staff and the school calendar. School admins (and admins of
+ * the school's board) manage staff accounts and publish calendar events that
+ * appear in every staff member's calendar. Staff join by accepting an
+ * invitation.
+ */
+
+import { Router, Request } from 'express';
+import { z } from 'zod';
+import { prisma } from '../prisma';
+import {
+  cancelSchoolInvitation,
+  canManageBoard,
+  canManageSchool,
+  canViewSchool,
+  deleteSchoolEvent,
+  getManagedSchoolIds,
+  inviteStaffMember,
+  isPlatformAdmin,
+  listMyInvitations,
+  listSchoolEvents,
+  listSchoolInvitations,
+  listStaff,
+  publishSchoolEvents,
+  removeStaffMember,
+  respondToSchoolInvitation,
+  SchoolInvitationError,
+  updateStaffRole,
+} from '../services/schoolService';
+
+const router = Router();
+
+const SCHOOL_ROLES = ['TEACHER', 'SCHOOL_ADMIN'] as const;
+
+const createSchoolSchema = z.object({
+  name: z.string().min(1).max(200),
+  boardId: z.number().int().positive().optional(),
+  address: z.string().max(500).optional(),
+});
+
+const staffSchema = z.object({
+  email: z.string().email(),
+  name: z.string().min(1).max(200),
+  role: z.enum(SCHOOL_ROLES).default('TEACHER'),
+});
+
+const staffRoleSchema = z.object({ role: z.enum(SCHOOL_ROLES) });
+
+const respondSchema = z.object({ response: z.enum(['accept', 'decline']) });
+
+const schoolEventSchema = z
+  .object({
+    title: z.string().min(1).max(255),
+    description: z.string().max(5000).optional(),
+    start: z.coerce.date(),
+    end: z.coerce.date(),
+    allDay: z.boolean().default(true),
+    eventType: z.enum(['PD_DAY', 'ASSEMBLY', 'TRIP', 'HOLIDAY', 'REPORT_DEADLINE', 'CUSTOM']),
+  })
+  .refine((event) => event.end >= event.start, { message: 'End must be after start' });
+
+const publishSchema = z.object({ events: z.array(schoolEventSchema).min(1).max(200) });
+
+const calendarQuerySchema = z.object({
+  start: z.coerce.date().optional(),
+  end: z.coerce.date().optional(),
+});
+
+function parseId(value: string): number | null {
+  const id = parseInt(value, 10);
+  return Number.isNaN(id) ? null : id;
+}
+
+// Schools the user works at or administers, with their role at each
+router.get('/', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const managedIds = await getManagedSchoolIds(userId);
+    const schools = await prisma.school.findMany({
+      where: { OR: [{ memberships: { some: { userId } } }, { id: { in: managedIds } }] },
+      include: {
+        board: { select: { id: true, name: true } },
+        memberships: { where: { userId }, select: { role: true } },
+        _count: { select: { memberships: true } },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    res.json(
+      schools.map(({ memberships, ...school }) => ({
+        ...school,
+        role: memberships[0]?.role ?? null,
+        canManage: managedIds.includes(school.id),
+      })),
+    );
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Create a school, on a board the user administers
+router.post('/', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const validation = createSchoolSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res
+        .status(400)
+        .json({ error: 'Invalid request data', details: validation.error.flatten() });
+    }
+
+    const { name, boardId, address } = validation.data;
+    const allowed = boardId ? await canManageBoard(userId, boardId) : await isPlatformAdmin(userId);
+    if (!allowed) {
+      return res.status(403).json({ error: 'Only board admins can create schools' });
+    }
+
+    const school = await prisma.school.create({ data: { name, boardId, address } });
+    res.status(201).json(school);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Invitations to join a school's staff waiting for the user's answer
+router.get('/invitations/my', async (req: Request, res, next) => {
+  try {
+    const user = req.user;
+    if (!user?.id) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    res.json(await listMyInvitations(user));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Accept or decline an invitation
+router.post('/invitations/:invitationId/respond', async (req: Request, res, next) => {
+  try {
+    const user = req.user;
+    if (!user?.id) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const validation = respondSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res
+        .status(400)
+        .json({ error: 'Invalid request data', details: validation.error.flatten() });
+    }
+
+    const invitation = await respondToSchoolInvitation(
+      user,
+      req.params.invitationId,
+      validation.data.response === 'accept',
+    );
+    if (!invitation) {
+      return res.status(404).json({ error: 'Invitation not found' });
+    }
+    res.json(invitation);
+  } catch (err) {
+    if (err instanceof SchoolInvitationError) {
+      return res.status(409).json({ error: err.message });
+    }
+    next(err);
+  }
+});
+
+// Staff list
+router.get('/:id/staff', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const schoolId = parseId(req.params.id);
+    if (schoolId === null || !(await canManageSchool(userId, schoolId))) {
+      return res.status(403).json({ error: 'Only school admins can manage staff' });
+    }
+
+    res.json(await listStaff(schoolId));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Invite someone to the staff, creating their account if needed
+router.post('/:id/staff', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const schoolId = parseId(req.params.id);
+    if (schoolId === null || !(await canManageSchool(userId, schoolId))) {
+      return res.status(403).json({ error: 'Only school admins can manage staff' });
+    }
+
+    const validation = staffSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res
+        .status(400)
+        .json({ error: 'Invalid request data', details: validation.error.flatten() });
+    }
+
+    const { email, name, role } = validation.data;
+    const { invitation, temporaryPassword } = await inviteStaffMember(schoolId, userId, {
+      email,
+      name,
+      role,
+    });
+    res.status(201).json({ ...invitation, temporaryPassword });
+  } catch (err) {
+    if (err instanceof SchoolInvitationError) {
+      return res.status(409).json({ error: err.message });
+    }
+    next(err);
+  }
+});
+
+// Invitations to the staff not answered yet
+router.get('/:id/invitations', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const schoolId = parseId(req.params.id);
+    if (schoolId === null || !(await canManageSchool(userId, schoolId))) {
+      return res.status(403).json({ error: 'Only school admins can manage staff' });
+    }
+
+    res.json(await listSchoolInvitations(schoolId));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Withdraw an invitation
+router.delete('/:id/invitations/:invitationId', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const schoolId = parseId(req.params.id);
+    if (schoolId === null || !(await canManageSchool(userId, schoolId))) {
+      return res.status(403).json({ error: 'Only school admins can manage staff' });
+    }
+
+    if (!(await cancelSchoolInvitation(schoolId, req.params.invitationId))) {
+      return res.status(404).json({ error: 'Invitation not found' });
+    }
+    res.status(204).send();
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Change a staff member's role
+router.patch('/:id/staff/:userId', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const schoolId = parseId(req.params.id);
+    const staffId = parseId(req.params.userId);
+    if (schoolId === null || !(await canManageSchool(userId, schoolId))) {
+      return res.status(403).json({ error: 'Only school admins can manage staff' });
+    }
+
+    const validation = staffRoleSchema.safeParse(req.body);
+    if (!validation.success || staffId === null) {
+      return res.status(400).json({ error: 'Invalid role' });
+    }
+    if (staffId === userId && validation.data.role !== 'SCHOOL_ADMIN') {
+      return res.status(400).json({ error: 'You cannot remove your own admin role' });
+    }
+
+    const membership = await updateStaffRole(schoolId, staffId, validation.data.role);
+    if (!membership) {
+      return res.status(404).json({ error: 'Staff member not found' });
+    }
+    res.json(membership);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Remove someone from the staff. Their account and plans are kept.
+router.delete('/:id/staff/:userId', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const schoolId = parseId(req.params.id);
+    const staffId = parseId(req.params.userId);
+    if (schoolId === null || !(await canManageSchool(userId, schoolId))) {
+      return res.status(403).json({ error: 'Only school admins can manage staff' });
+    }
+    if (staffId === userId) {
+      return res.status(400).json({ error: 'You cannot remove yourself' });
+    }
+
+    if (staffId === null || !(await removeStaffMember(schoolId, staffId))) {
+      return res.status(404).json({ error: 'Staff member not found' });
+    }
+    res.status(204).send();
+  } catch (err) {
+    next(err);
+  }
+});
+
+// The school calendar, for staff and admins
+router.get('/:id/calendar', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const schoolId = parseId(req.params.id);
+    if (schoolId === null || !(await canViewSchool(userId, schoolId))) {
+      return res.status(404).json({ error: 'School not found' });
+    }
+
+    const query = calendarQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ error: 'Invalid date range', details: query.error.flatten() });
+    }
+
+    res.json(await listSchoolEvents(schoolId, query.data.start, query.data.end));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Publish events to the school calendar
+router.post('/:id/calendar', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const schoolId = parseId(req.params.id);
+    if (schoolId === null || !(await canManageSchool(userId, schoolId))) {
+      return res.status(403).json({ error: 'Only school admins can publish to the calendar' });
+    }
+
+    const validation = publishSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res
+        .status(400)
+        .json({ error: 'Invalid request data', details: validation.error.flatten() });
+    }
+
+    const events = await publishSchoolEvents(
+      schoolId,
+      validation.data.events.map(({ title, description, start, end, allDay, eventType }) => ({
+        title,
+        description,
+        start,
+        end,
+        allDay,
+        eventType,
+      })),
+    );
+    res.status(201).json(events);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Withdraw an event from the school calendar
+router.delete('/:id/calendar/:eventId', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const schoolId = parseId(req.params.id);
+    const eventId = parseId(req.params.eventId);
+    if (schoolId === null || !(await canManageSchool(userId, schoolId))) {
+      return res.status(403).json({ error: 'Only school admins can publish to the calendar' });
+    }
+
+    if (eventId === null || !(await deleteSchoolEvent(schoolId, eventId))) {
+      return res.status(404).json({ error: 'Event not found' });
+    }
+    res.status(204).send();
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
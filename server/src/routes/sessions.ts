@@ -0,0 +1,141 @@
+/**
+ * Session Routes
+ * Refresh-token rotation, password reset, and managing signed-in devices
+ */
+
+import { Router } from 'express';
+import { PrismaClient } from '@teaching-engine/database';
+import { z } from 'zod';
+import { asyncHandler } from '../middleware/errorHandler';
+import { authenticate } from '../middleware/authenticate';
+import { rateLimiters } from '../middleware/rateLimiter';
+import {
+  REFRESH_COOKIE,
+  SessionError,
+  clearSessionCookies,
+  listSessions,
+  revokeAllSessions,
+  revokeSession,
+  rotateSession,
+  sessionMeta,
+  setSessionCookies,
+} from '../services/sessionService';
+import {
+  PasswordResetError,
+  requestPasswordReset,
+  resetPassword,
+} from '../services/passwordResetService';
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email(),
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  newPassword: z.string().min(8),
+});
+
+export function sessionRoutes(prisma: PrismaClient): Router {
+  const router = Router();
+
+  // Exchange a refresh token (Bearer header or cookie) for new tokens
+  router.post(
+    '/refresh',
+    asyncHandler(async (req, res) => {
+      const header = req.headers.authorization;
+      const refreshToken = header?.startsWith('Bearer ')
+        ? header.slice('Bearer '.length)
+        : req.cookies?.[REFRESH_COOKIE];
+      if (!refreshToken) {
+        return res.status(401).json({ error: 'Refresh token required' });
+      }
+
+      try {
+        const tokens = await rotateSession(prisma, refreshToken, sessionMeta(req));
+        setSessionCookies(res, tokens);
+        res.json({ tokens, token: tokens.accessToken });
+      } catch (error) {
+        if (error instanceof SessionError) {
+          clearSessionCookies(res);
+          return res.status(401).json({ error: error.message });
+        }
+        throw error;
+      }
+    }),
+  );
+
+  // Email a password reset link
+  router.post(
+    '/forgot-password',
+    rateLimiters.auth,
+    asyncHandler(async (req, res) => {
+      const { email } = forgotPasswordSchema.parse(req.body);
+      await requestPasswordReset(prisma, email);
+      res.json({
+        message: 'If an account exists for this email, a reset link has been sent',
+      });
+    }),
+  );
+
+  // Choose a new password with the emailed token
+  router.post(
+    '/reset-password',
+    rateLimiters.auth,
+    asyncHandler(async (req, res) => {
+      const { token, newPassword } = resetPasswordSchema.parse(req.body);
+
+      try {
+        await resetPassword(prisma, token, newPassword);
+      } catch (error) {
+        if (error instanceof PasswordResetError) {
+          return res.status(400).json({ error: error.message });
+        }
+        if (error instanceof Error && error.message.includes('security requirements')) {
+          return res.status(400).json({ error: error.message });
+        }
+        throw error;
+      }
+
+      clearSessionCookies(res);
+      res.json({ message: 'Password has been reset. Please sign in again.' });
+    }),
+  );
+
+  // Signed-in devices
+  router.get(
+    '/sessions',
+    authenticate,
+    asyncHandler(async (req, res) => {
+      res.json(await listSessions(prisma, req.user!.id, req.user!.sessionId));
+    }),
+  );
+
+  // Sign out one device
+  router.delete(
+    '/sessions/:id',
+    authenticate,
+    asyncHandler(async (req, res) => {
+      const revoked = await revokeSession(prisma, req.user!.id, req.params.id);
+      if (!revoked) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+      if (req.params.id === req.user!.sessionId) {
+        clearSessionCookies(res);
+      }
+      res.status(204).send();
+    }),
+  );
+
+  // Sign out of all devices, this one included
+  router.post(
+    '/logout-all',
+    authenticate,
+    asyncHandler(async (req, res) => {
+      const count = await revokeAllSessions(prisma, req.user!.id);
+      clearSessionCookies(res);
+      res.json({ message: 'Signed out of all devices', count });
+    }),
+  );
+
+  return router;
+}
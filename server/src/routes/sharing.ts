@@ -10,6 +10,7 @@ import { authenticate } from '../middleware/authenticate';
 import { asyncHandler } from '../middleware/errorHandler';
 import logger from '../logger';
 import { addDays } from 'date-fns';
+import { getTeamRole } from '../services/teamAccessService';
 
 // Validation schemas
 const sharePlanSchema = z.object({
@@ -98,11 +99,17 @@ export function sharingRoutes(prisma: PrismaClient): Router {
     '/plans',
     asyncHandler(async (req, res) => {
       const userId = req.user!.id;
-      const { type, direction } = req.query;
+      const { type, direction, teamId } = req.query;
 
       const whereClause: Record<string, unknown> = {};
 
-      if (direction === 'sent') {
+      if (teamId) {
+        // Plans shared with one of the user's teams
+        if (!(await getTeamRole(teamId as string, userId))) {
+          return res.status(403).json({ error: 'Access denied' });
+        }
+        whereClause.teamId = teamId;
+      } else if (direction === 'sent') {
         whereClause.sharedById = userId;
       } else if (direction === 'received') {
         whereClause.sharedWithId = userId;
@@ -4,6 +4,30 @@ import { prisma } from '../prisma';
 import { validate } from '../validation';
 import { z } from 'zod';
 import { auditLoggers } from '../middleware/auditLog';
+import { GUARDIAN_CONTACT_METHODS, GUARDIAN_LANGUAGES } from '../services/guardianService';
+import {
+  canUsePortal,
+  listPortalCandidates,
+  PORTAL_ITEM_TYPES,
+  publishPortalItem,
+  sendPortalLink,
+  unpublishPortalItem,
+} from '../services/guardianPortalService';
+import {
+  archiveStudents,
+  DUPLICATE_ACTIONS,
+  exportRosterCsv,
+  importRoster,
+  MAX_ROSTER_ROWS,
+  RosterImportError,
+  restoreStudent,
+} from '../services/studentRosterService';
+import {
+  ACHIEVEMENT_LEVELS,
+  ASSESSMENT_PURPOSES,
+  EVIDENCE_TYPES,
+  getStudentProgress,
+} from '../services/assessmentService';
 
 const router = Router();
 
@@ -57,6 +81,71 @@ const studentReflectionCreateSchema = z.object({
   unitPlanId: z.number().int().optional(),
 });
 
+const assessmentCreateSchema = z.object({
+  expectationId: z.string().min(1),
+  date: z.string().datetime(),
+  level: z.enum(ACHIEVEMENT_LEVELS),
+  evidenceType: z.enum(EVIDENCE_TYPES),
+  purpose: z.enum(ASSESSMENT_PURPOSES).optional(),
+  notes: z.string().max(2000).optional(),
+});
+
+const assessmentUpdateSchema = z.object({
+  date: z.string().datetime().optional(),
+  level: z.enum(ACHIEVEMENT_LEVELS).optional(),
+  evidenceType: z.enum(EVIDENCE_TYPES).optional(),
+  purpose: z.enum(ASSESSMENT_PURPOSES).nullable().optional(),
+  notes: z.string().max(2000).nullable().optional(),
+});
+
+const guardianCreateSchema = z.object({
+  name: z.string().min(1).max(200),
+  relationship: z.string().max(100).optional(),
+  email: z.string().email().optional(),
+  phone: z.string().max(50).optional(),
+  preferredLanguage: z.enum(GUARDIAN_LANGUAGES).default('en'),
+  contactMethod: z.enum(GUARDIAN_CONTACT_METHODS).default('email'),
+  isPrimary: z.boolean().default(false),
+  receivesCommunications: z.boolean().default(true),
+  restrictionNotes: z.string().max(2000).optional(),
+});
+
+const portalItemSchema = z.object({
+  itemType: z.enum(PORTAL_ITEM_TYPES),
+  itemId: z.string().min(1).max(100),
+});
+
+const rosterImportSchema = z.object({
+  // Roughly 200 bytes a row is plenty for names and a grade
+  csv: z
+    .string()
+    .min(1)
+    .max(MAX_ROSTER_ROWS * 200),
+  onDuplicate: z.enum(DUPLICATE_ACTIONS).default('skip'),
+  dryRun: z.boolean().default(false),
+});
+
+const rosterArchiveSchema = z
+  .object({
+    studentIds: z.array(z.number().int()).min(1).max(MAX_ROSTER_ROWS).optional(),
+    grade: z.number().int().min(1).max(12).optional(),
+  })
+  .refine((data) => data.studentIds || data.grade !== undefined, {
+    message: 'Choose students or a grade to archive',
+  });
+
+const guardianUpdateSchema = z.object({
+  name: z.string().min(1).max(200).optional(),
+  relationship: z.string().max(100).nullable().optional(),
+  email: z.string().email().nullable().optional(),
+  phone: z.string().max(50).nullable().optional(),
+  preferredLanguage: z.enum(GUARDIAN_LANGUAGES).optional(),
+  contactMethod: z.enum(GUARDIAN_CONTACT_METHODS).optional(),
+  isPrimary: z.boolean().optional(),
+  receivesCommunications: z.boolean().optional(),
+  restrictionNotes: z.string().max(2000).nullable().optional(),
+});
+
 // Get all students for the authenticated teacher
 router.get('/', auditLoggers.studentView, async (req: Request, res, next) => {
   try {
@@ -66,8 +155,11 @@ router.get('/', auditLoggers.studentView, async (req: Request, res, next) => {
       return res.status(401).json({ error: 'Unauthorized' });
     }
 
+    // Archived students are only listed when asked for
+    const archived = req.query.archived === 'true';
+
     const students = await prisma.student.findMany({
-      where: { userId: userId },
+      where: { userId: userId, archivedAt: archived ? { not: null } : null },
       include: {
         goals: true,
         reflections: true,
@@ -76,6 +168,7 @@ router.get('/', auditLoggers.studentView, async (req: Request, res, next) => {
             artifacts: true,
             reflections: true,
             parentSummaries: true,
+            guardians: true,
           },
         },
       },
@@ -100,6 +193,90 @@ router.get('/', auditLoggers.studentView, async (req: Request, res, next) => {
   }
 });
 
+// Class list as CSV, re-importable with the roster import
+router.get('/export', auditLoggers.studentExport, async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const includeArchived = req.query.includeArchived === 'true';
+    const content = await exportRosterCsv(userId, includeArchived);
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="class-list-${new Date().toISOString().slice(0, 10)}.csv"`,
+    );
+    res.send(content);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Bulk roster import from CSV. Use dryRun to review duplicates before saving.
+router.post('/import', auditLoggers.studentImport, async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const validation = rosterImportSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res
+        .status(400)
+        .json({ error: 'Invalid request data', details: validation.error.flatten() });
+    }
+
+    const { csv, onDuplicate, dryRun } = validation.data;
+    const result = await importRoster(userId, csv, { onDuplicate, dryRun });
+    res.status(dryRun ? 200 : 201).json(result);
+  } catch (err) {
+    if (err instanceof RosterImportError) {
+      return res.status(400).json({ error: err.message });
+    }
+    next(err);
+  }
+});
+
+// Year-end archiving, for chosen students or a whole grade
+router.post('/archive', auditLoggers.studentArchive, async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const validation = rosterArchiveSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res
+        .status(400)
+        .json({ error: 'Invalid request data', details: validation.error.flatten() });
+    }
+
+    res.json({ archived: await archiveStudents(userId, validation.data) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.post('/:id/restore', auditLoggers.studentUpdate, async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    if (!(await restoreStudent(userId, parseInt(req.params.id)))) {
+      return res.status(404).json({ error: 'Archived student not found' });
+    }
+    res.json({ restored: true });
+  } catch (err) {
+    next(err);
+  }
+});
+
 // Get a specific student
 router.get('/:id', auditLoggers.studentView, async (req: Request, res, next) => {
   try {
@@ -126,6 +303,9 @@ router.get('/:id', auditLoggers.studentView, async (req: Request, res, next) =>
           orderBy: { createdAt: 'desc' },
           take: 5,
         },
+        guardians: {
+          orderBy: [{ isPrimary: 'desc' }, { createdAt: 'asc' }],
+        },
       },
     });
 
@@ -305,6 +485,8 @@ router.delete('/:id', auditLoggers.studentDelete, async (req: Request, res, next
         await tx.studentReflection.deleteMany({ where: { studentId } });
         await tx.studentGoal.deleteMany({ where: { studentId } });
         await tx.parentSummary.deleteMany({ where: { studentId } });
+        await tx.guardian.deleteMany({ where: { studentId } });
+        await tx.assessment.deleteMany({ where: { studentId } });
 
         // Finally delete the student
         await tx.student.delete({ where: { id: studentId } });
@@ -532,6 +714,353 @@ router.delete('/:id/reflections/:reflectionId', async (req: Request, res, next)
   }
 });
 
+// Student guardians routes
+router.get('/:id/guardians', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id || 0;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    const student = await prisma.student.findFirst({
+      where: {
+        id: Number(req.params.id),
+        userId,
+      },
+    });
+    if (!student) return res.status(404).json({ error: 'Student not found' });
+
+    const guardians = await prisma.guardian.findMany({
+      where: { studentId: student.id },
+      orderBy: [{ isPrimary: 'desc' }, { createdAt: 'asc' }],
+    });
+    res.json(guardians);
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.post('/:id/guardians', validate(guardianCreateSchema), async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id || 0;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    const student = await prisma.student.findFirst({
+      where: {
+        id: Number(req.params.id),
+        userId,
+      },
+    });
+    if (!student) return res.status(404).json({ error: 'Student not found' });
+
+    // A student has at most one primary contact
+    const guardian = await prisma.$transaction(async (tx) => {
+      if (req.body.isPrimary) {
+        await tx.guardian.updateMany({
+          where: { studentId: student.id },
+          data: { isPrimary: false },
+        });
+      }
+      return tx.guardian.create({
+        data: { ...req.body, studentId: student.id },
+      });
+    });
+    res.status(201).json(guardian);
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.patch(
+  '/:id/guardians/:guardianId',
+  validate(guardianUpdateSchema),
+  async (req: Request, res, next) => {
+    try {
+      const userId = req.user?.id || 0;
+      if (!userId) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+      const student = await prisma.student.findFirst({
+        where: {
+          id: Number(req.params.id),
+          userId,
+        },
+      });
+      if (!student) return res.status(404).json({ error: 'Student not found' });
+
+      const guardian = await prisma.$transaction(async (tx) => {
+        if (req.body.isPrimary) {
+          await tx.guardian.updateMany({
+            where: { studentId: student.id, id: { not: req.params.guardianId } },
+            data: { isPrimary: false },
+          });
+        }
+        return tx.guardian.update({
+          where: {
+            id: req.params.guardianId,
+            studentId: student.id,
+          },
+          data: req.body,
+        });
+      });
+      res.json(guardian);
+    } catch (err) {
+      if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2025') {
+        return res.status(404).json({ error: 'Guardian not found' });
+      }
+      next(err);
+    }
+  },
+);
+
+router.delete('/:id/guardians/:guardianId', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id || 0;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    const student = await prisma.student.findFirst({
+      where: {
+        id: Number(req.params.id),
+        userId,
+      },
+    });
+    if (!student) return res.status(404).json({ error: 'Student not found' });
+
+    await prisma.guardian.delete({
+      where: {
+        id: req.params.guardianId,
+        studentId: student.id,
+      },
+    });
+    res.status(204).end();
+  } catch (err) {
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2025') {
+      return res.status(404).json({ error: 'Guardian not found' });
+    }
+    next(err);
+  }
+});
+
+// Guardian portal: what the teacher has published, and who can sign in
+router.get('/:id/portal', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id || 0;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    const student = await prisma.student.findFirst({
+      where: {
+        id: Number(req.params.id),
+        userId,
+      },
+      include: { guardians: { orderBy: [{ isPrimary: 'desc' }, { createdAt: 'asc' }] } },
+    });
+    if (!student) return res.status(404).json({ error: 'Student not found' });
+
+    res.json({
+      items: await listPortalCandidates(student.id, userId),
+      guardians: student.guardians.map((guardian) => ({
+        id: guardian.id,
+        name: guardian.name,
+        email: guardian.email,
+        canUsePortal: canUsePortal(guardian),
+        lastPortalVisitAt: guardian.lastPortalVisitAt,
+      })),
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.post('/:id/portal/items', validate(portalItemSchema), async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id || 0;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    const student = await prisma.student.findFirst({
+      where: {
+        id: Number(req.params.id),
+        userId,
+      },
+    });
+    if (!student) return res.status(404).json({ error: 'Student not found' });
+
+    const item = await publishPortalItem(student, req.body.itemType, req.body.itemId);
+    if (!item) {
+      return res.status(404).json({ error: 'Item not found, or still a draft' });
+    }
+    res.status(201).json(item);
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.delete('/:id/portal/items/:itemType/:itemId', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id || 0;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    const student = await prisma.student.findFirst({
+      where: {
+        id: Number(req.params.id),
+        userId,
+      },
+    });
+    if (!student) return res.status(404).json({ error: 'Student not found' });
+
+    const itemType = PORTAL_ITEM_TYPES.find((type) => type === req.params.itemType);
+    if (!itemType || !(await unpublishPortalItem(student.id, itemType, req.params.itemId))) {
+      return res.status(404).json({ error: 'Item is not on the portal' });
+    }
+    res.status(204).end();
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Email a guardian a sign-in link for the portal
+router.post('/:id/guardians/:guardianId/portal-link', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id || 0;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    const guardian = await prisma.guardian.findFirst({
+      where: {
+        id: req.params.guardianId,
+        student: { id: Number(req.params.id), userId },
+      },
+      include: { student: { select: { firstName: true } } },
+    });
+    if (!guardian) return res.status(404).json({ error: 'Guardian not found' });
+    if (!canUsePortal(guardian)) {
+      return res.status(400).json({
+        error: 'Guardians need an email address and permission to receive communications',
+      });
+    }
+
+    res.status(202).json(await sendPortalLink(guardian));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Assessment records against curriculum expectations
+router.get('/:id/assessments', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id || 0;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    const student = await prisma.student.findFirst({
+      where: { id: Number(req.params.id), userId },
+    });
+    if (!student) return res.status(404).json({ error: 'Student not found' });
+
+    const assessments = await prisma.assessment.findMany({
+      where: { studentId: student.id },
+      include: {
+        expectation: {
+          select: { id: true, code: true, description: true, strand: true, subject: true },
+        },
+        lessonPlan: { select: { id: true, title: true } },
+      },
+      orderBy: { date: 'desc' },
+    });
+    res.json(assessments);
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.post(
+  '/:id/assessments',
+  validate(assessmentCreateSchema),
+  async (req: Request, res, next) => {
+    try {
+      const userId = req.user?.id || 0;
+      if (!userId) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+      const student = await prisma.student.findFirst({
+        where: { id: Number(req.params.id), userId },
+      });
+      if (!student) return res.status(404).json({ error: 'Student not found' });
+
+      const expectation = await prisma.curriculumExpectation.findUnique({
+        where: { id: req.body.expectationId },
+      });
+      if (!expectation) return res.status(404).json({ error: 'Expectation not found' });
+
+      const assessment = await prisma.assessment.create({
+        data: {
+          studentId: student.id,
+          expectationId: expectation.id,
+          date: new Date(req.body.date),
+          level: req.body.level,
+          evidenceType: req.body.evidenceType,
+          purpose: req.body.purpose ?? null,
+          notes: req.body.notes ?? null,
+        },
+      });
+      res.status(201).json(assessment);
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+router.patch(
+  '/:id/assessments/:assessmentId',
+  validate(assessmentUpdateSchema),
+  async (req: Request, res, next) => {
+    try {
+      const userId = req.user?.id || 0;
+      if (!userId) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+      const existing = await prisma.assessment.findFirst({
+        where: {
+          id: req.params.assessmentId,
+          student: { id: Number(req.params.id), userId },
+        },
+      });
+      if (!existing) return res.status(404).json({ error: 'Assessment not found' });
+
+      const { date, ...fields } = req.body;
+      const assessment = await prisma.assessment.update({
+        where: { id: existing.id },
+        data: { ...fields, ...(date ? { date: new Date(date) } : {}) },
+      });
+      res.json(assessment);
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+router.delete('/:id/assessments/:assessmentId', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id || 0;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    const { count } = await prisma.assessment.deleteMany({
+      where: {
+        id: req.params.assessmentId,
+        student: { id: Number(req.params.id), userId },
+      },
+    });
+    if (count === 0) return res.status(404).json({ error: 'Assessment not found' });
+    res.status(204).end();
+  } catch (err) {
+    next(err);
+  }
+});
+
 // Get student progress summary
 router.get('/:id/progress', auditLoggers.studentView, async (req: Request, res, next) => {
   try {
@@ -553,14 +1082,13 @@ router.get('/:id/progress', auditLoggers.studentView, async (req: Request, res,
       return res.status(404).json({ error: 'Student not found' });
     }
 
-    // Assessment functionality removed
+    // Levels run R (0) to 4; averageScore and strand averages use that scale
+    const assessmentProgress = await getStudentProgress(studentId);
 
     res.json({
       student,
       progress: {
-        totalAssessments: 0,
-        averageScore: null,
-        assessmentsByType: {},
+        ...assessmentProgress,
         artifactCount: await prisma.studentArtifact.count({ where: { studentId } }),
         reflectionCount: await prisma.studentReflection.count({ where: { studentId } }),
       },
@@ -3,6 +3,7 @@ import { z } from 'zod';
 import { validate } from '../validation';
 import { generateSubPlan } from '../services/subPlanService';
 import { prisma } from '../prisma';
+import { queueEmail } from '../services/emailService';
 
 // Use global Express Request type with user: { id: number; email: string }
 
@@ -16,9 +17,8 @@ const subPlanGenerateSchema = z.object({
   includeRoutines: z.boolean().default(true),
   includePlans: z.boolean().default(true),
   anonymize: z.boolean().default(false),
-  userId: z.number().int().optional(),
   saveRecord: z.boolean().default(false),
-  emailTo: z.string().optional(),
+  emailTo: z.string().email().optional(),
   notes: z.string().max(1000).optional(),
 });
 
@@ -48,15 +48,12 @@ router.post(
         notes,
       } = req.body;
 
-      // Use the authenticated user's ID if userId not provided in request
-      const targetUserId = req.body.userId || userId;
-
       const options = {
         includeGoals,
         includeRoutines,
         includePlans,
         anonymize,
-        userId: targetUserId,
+        userId,
       };
 
       const pdfBuffer = await generateSubPlan(date, days, options);
@@ -65,7 +62,7 @@ router.post(
       if (saveRecord) {
         await prisma.subPlanRecord.create({
           data: {
-            userId: targetUserId,
+            userId,
             date: new Date(date),
             daysCount: days,
             content: { emailedTo: emailTo, options: JSON.stringify(options) },
@@ -78,6 +75,26 @@ router.post(
         });
       }
 
+      // Email a copy to the substitute; the download itself does not wait on delivery
+      if (emailTo) {
+        const delivery = await queueEmail(
+          {
+            to: emailTo,
+            subject: `Substitute plan for ${date}`,
+            text: `Attached is the substitute plan for ${date}${days > 1 ? ` (${days} days)` : ''}.${notes ? `\n\nNotes: ${notes}` : ''}`,
+            attachments: [
+              {
+                filename: `sub-plan-${date}.pdf`,
+                content: pdfBuffer,
+                contentType: 'application/pdf',
+              },
+            ],
+          },
+          { userId, relatedType: 'sub_plan', relatedId: date },
+        );
+        res.setHeader('X-Email-Delivery-Id', delivery.id);
+      }
+
       // Set PDF headers
       res.setHeader('Content-Type', 'application/pdf');
       res.setHeader('Content-Disposition', `attachment; filename="sub-plan-${date}.pdf"`);
@@ -101,10 +118,8 @@ router.get('/routines', async (req: Request, res: Response, next: NextFunction)
       return res.status(401).json({ error: 'Unauthorized' });
     }
 
-    const targetUserId = req.query.userId ? parseInt(req.query.userId as string, 10) : userId;
-
     const routines = await prisma.classRoutine.findMany({
-      where: { userId: targetUserId },
+      where: { userId },
       orderBy: { priority: 'desc' }, // Higher priority first
     });
 
@@ -195,10 +210,8 @@ router.get('/records', async (req: Request, res: Response, next: NextFunction) =
       return res.status(401).json({ error: 'Unauthorized' });
     }
 
-    const targetUserId = req.query.userId ? parseInt(req.query.userId as string, 10) : userId;
-
     const records = await prisma.subPlanRecord.findMany({
-      where: { userId: targetUserId },
+      where: { userId },
       orderBy: { date: 'desc' },
     });
 
@@ -0,0 +1,62 @@
+/**
+ * Sync Routes
+ * Replays the client's offline change queue. Each change carries the
+ * server's updatedAt it was based on; edits the server has moved past come
+ * back as field-level conflicts instead of overwriting newer data.
+ */
+
+import { Router, Request } from 'express';
+import { z } from 'zod';
+import { applySyncBatch, SYNC_ENTITIES } from '../services/syncService';
+
+const router = Router();
+
+const changeSchema = z
+  .object({
+    id: z.string().min(1).max(100),
+    type: z.enum(['CREATE', 'UPDATE', 'DELETE']),
+    entity: z.enum(SYNC_ENTITIES),
+    entityId: z.string().min(1).max(100).optional(),
+    data: z.record(z.unknown()).default({}),
+    baseUpdatedAt: z.coerce.date().optional(),
+    base: z.record(z.unknown()).optional(),
+  })
+  .refine(
+    (change) => change.type === 'CREATE' || change.entity === 'planner-state' || change.entityId,
+    { message: 'Updates and deletes need an entityId', path: ['entityId'] },
+  );
+
+const syncSchema = z.object({ changes: z.array(changeSchema).min(1).max(100) });
+
+router.post('/', async (req: Request, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const validation = syncSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res
+        .status(400)
+        .json({ error: 'Invalid request data', details: validation.error.flatten() });
+    }
+
+    const changes = validation.data.changes.map(
+      ({ id, type, entity, entityId, data, baseUpdatedAt, base }) => ({
+        id,
+        type,
+        entity,
+        entityId,
+        data,
+        baseUpdatedAt,
+        base,
+      }),
+    );
+    res.json(await applySyncBatch(userId, changes));
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
@@ -0,0 +1,338 @@
+/**
+ * Team Calendar Routes
+ * Shared calendars and events (meetings, deadlines, field trips, assessments)
+ * for grade teams. Mounted inside the team routes, so paths are under /api/teams.
+ */
+
+import { Router } from 'express';
+import { PrismaClient, Prisma } from '@teaching-engine/database';
+import { z } from 'zod';
+import { asyncHandler } from '../middleware/errorHandler';
+import logger from '../logger';
+import {
+  TEAM_EVENT_TYPES,
+  canEditTeamEvent,
+  getTeamEventsForUser,
+} from '../services/teamCalendarService';
+import { canContributeToTeam, canModerateTeam, getTeamRole } from '../services/teamAccessService';
+
+// Validation schemas
+const calendarSchema = z.object({
+  title: z.string().min(1).max(100),
+  description: z.string().optional(),
+  color: z
+    .string()
+    .regex(/^#[0-9A-Fa-f]{6}$/)
+    .optional(),
+  isDefault: z.boolean().optional(),
+});
+
+const eventSchema = z
+  .object({
+    title: z.string().min(1).max(200),
+    description: z.string().optional(),
+    startDate: z.coerce.date(),
+    endDate: z.coerce.date(),
+    allDay: z.boolean().optional(),
+    eventType: z.enum(TEAM_EVENT_TYPES),
+    location: z.string().optional(),
+    attachments: z.array(z.unknown()).optional(),
+  })
+  .refine((data) => data.endDate >= data.startDate, {
+    message: 'endDate must not be before startDate',
+    path: ['endDate'],
+  });
+
+const updateEventSchema = z.object({
+  title: z.string().min(1).max(200).optional(),
+  description: z.string().optional(),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+  allDay: z.boolean().optional(),
+  eventType: z.enum(TEAM_EVENT_TYPES).optional(),
+  location: z.string().optional(),
+  attachments: z.array(z.unknown()).optional(),
+});
+
+const rangeQuerySchema = z.object({
+  start: z.coerce.date(),
+  end: z.coerce.date(),
+});
+
+export function teamCalendarRoutes(prisma: PrismaClient): Router {
+  const router = Router();
+
+  // Events from all of the user's team calendars, for overlaying on the personal calendar
+  router.get(
+    '/calendar-events',
+    asyncHandler(async (req, res) => {
+      const userId = req.user!.id;
+      const { start, end } = rangeQuerySchema.parse(req.query);
+
+      res.json(await getTeamEventsForUser(userId, start, end));
+    }),
+  );
+
+  // List a team's calendars, creating the default one on first use
+  router.get(
+    '/:teamId/calendars',
+    asyncHandler(async (req, res) => {
+      const { teamId } = req.params;
+      const userId = req.user!.id;
+
+      const role = await getTeamRole(teamId, userId);
+      if (!role) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      let calendars = await prisma.teamCalendar.findMany({
+        where: { teamId },
+        include: { _count: { select: { events: true } } },
+        orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }],
+      });
+
+      if (calendars.length === 0) {
+        const team = await prisma.team.findUnique({ where: { id: teamId } });
+        const calendar = await prisma.teamCalendar.create({
+          data: { teamId, title: `${team!.name} Calendar`, isDefault: true },
+          include: { _count: { select: { events: true } } },
+        });
+        calendars = [calendar];
+      }
+
+      res.json(calendars);
+    }),
+  );
+
+  // Create a calendar
+  router.post(
+    '/:teamId/calendars',
+    asyncHandler(async (req, res) => {
+      const { teamId } = req.params;
+      const userId = req.user!.id;
+      const data = calendarSchema.parse(req.body);
+
+      const role = await getTeamRole(teamId, userId);
+      if (!canModerateTeam(role)) {
+        return res
+          .status(403)
+          .json({ error: 'Only team owners and admins can manage team calendars' });
+      }
+
+      const calendar = await prisma.$transaction(async (tx) => {
+        if (data.isDefault) {
+          await tx.teamCalendar.updateMany({ where: { teamId }, data: { isDefault: false } });
+        }
+        return tx.teamCalendar.create({
+          data: {
+            teamId,
+            title: data.title,
+            description: data.description,
+            color: data.color,
+            isDefault: data.isDefault,
+          },
+        });
+      });
+
+      logger.info(`Team calendar ${calendar.id} created in team ${teamId} by user ${userId}`);
+      res.status(201).json(calendar);
+    }),
+  );
+
+  // Update a calendar
+  router.patch(
+    '/:teamId/calendars/:calendarId',
+    asyncHandler(async (req, res) => {
+      const { teamId, calendarId } = req.params;
+      const userId = req.user!.id;
+      const data = calendarSchema.partial().parse(req.body);
+
+      const role = await getTeamRole(teamId, userId);
+      if (!canModerateTeam(role)) {
+        return res
+          .status(403)
+          .json({ error: 'Only team owners and admins can manage team calendars' });
+      }
+
+      const existing = await prisma.teamCalendar.findFirst({ where: { id: calendarId, teamId } });
+      if (!existing) {
+        return res.status(404).json({ error: 'Calendar not found' });
+      }
+
+      const calendar = await prisma.$transaction(async (tx) => {
+        if (data.isDefault) {
+          await tx.teamCalendar.updateMany({ where: { teamId }, data: { isDefault: false } });
+        }
+        return tx.teamCalendar.update({ where: { id: calendarId }, data });
+      });
+
+      res.json(calendar);
+    }),
+  );
+
+  // Delete a calendar and its events
+  router.delete(
+    '/:teamId/calendars/:calendarId',
+    asyncHandler(async (req, res) => {
+      const { teamId, calendarId } = req.params;
+      const userId = req.user!.id;
+
+      const role = await getTeamRole(teamId, userId);
+      if (!canModerateTeam(role)) {
+        return res
+          .status(403)
+          .json({ error: 'Only team owners and admins can manage team calendars' });
+      }
+
+      const existing = await prisma.teamCalendar.findFirst({ where: { id: calendarId, teamId } });
+      if (!existing) {
+        return res.status(404).json({ error: 'Calendar not found' });
+      }
+
+      await prisma.teamCalendar.delete({ where: { id: calendarId } });
+
+      logger.info(`Team calendar ${calendarId} deleted from team ${teamId} by user ${userId}`);
+      res.status(204).send();
+    }),
+  );
+
+  // List a calendar's events, optionally within a date range
+  router.get(
+    '/:teamId/calendars/:calendarId/events',
+    asyncHandler(async (req, res) => {
+      const { teamId, calendarId } = req.params;
+      const userId = req.user!.id;
+      const range = req.query.start || req.query.end ? rangeQuerySchema.parse(req.query) : null;
+
+      const role = await getTeamRole(teamId, userId);
+      if (!role) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const calendar = await prisma.teamCalendar.findFirst({ where: { id: calendarId, teamId } });
+      if (!calendar) {
+        return res.status(404).json({ error: 'Calendar not found' });
+      }
+
+      const events = await prisma.teamCalendarEvent.findMany({
+        where: {
+          calendarId,
+          ...(range && { startDate: { lt: range.end }, endDate: { gte: range.start } }),
+        },
+        orderBy: { startDate: 'asc' },
+      });
+
+      res.json(events);
+    }),
+  );
+
+  // Add an event
+  router.post(
+    '/:teamId/calendars/:calendarId/events',
+    asyncHandler(async (req, res) => {
+      const { teamId, calendarId } = req.params;
+      const userId = req.user!.id;
+      const data = eventSchema.parse(req.body);
+
+      const role = await getTeamRole(teamId, userId);
+      if (!role) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+      if (!canContributeToTeam(role)) {
+        return res.status(403).json({ error: 'Viewers cannot add team events' });
+      }
+
+      const calendar = await prisma.teamCalendar.findFirst({ where: { id: calendarId, teamId } });
+      if (!calendar) {
+        return res.status(404).json({ error: 'Calendar not found' });
+      }
+
+      const event = await prisma.teamCalendarEvent.create({
+        data: {
+          calendarId,
+          title: data.title,
+          description: data.description,
+          startDate: data.startDate,
+          endDate: data.endDate,
+          allDay: data.allDay,
+          eventType: data.eventType,
+          location: data.location,
+          attachments: data.attachments as Prisma.InputJsonValue,
+          createdByUserId: userId,
+        },
+      });
+
+      res.status(201).json(event);
+    }),
+  );
+
+  // Update an event
+  router.patch(
+    '/:teamId/calendars/:calendarId/events/:eventId',
+    asyncHandler(async (req, res) => {
+      const { teamId, calendarId, eventId } = req.params;
+      const userId = req.user!.id;
+      const data = updateEventSchema.parse(req.body);
+
+      const role = await getTeamRole(teamId, userId);
+      if (!role) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const event = await prisma.teamCalendarEvent.findFirst({
+        where: { id: eventId, calendarId, calendar: { teamId } },
+      });
+      if (!event) {
+        return res.status(404).json({ error: 'Event not found' });
+      }
+      if (!canEditTeamEvent(role, event, userId)) {
+        return res.status(403).json({ error: 'You cannot edit this event' });
+      }
+
+      const startDate = data.startDate ?? event.startDate;
+      const endDate = data.endDate ?? event.endDate;
+      if (endDate < startDate) {
+        return res.status(400).json({ error: 'endDate must not be before startDate' });
+      }
+
+      const updated = await prisma.teamCalendarEvent.update({
+        where: { id: eventId },
+        data: {
+          ...data,
+          attachments: data.attachments as Prisma.InputJsonValue,
+        },
+      });
+
+      res.json(updated);
+    }),
+  );
+
+  // Delete an event
+  router.delete(
+    '/:teamId/calendars/:calendarId/events/:eventId',
+    asyncHandler(async (req, res) => {
+      const { teamId, calendarId, eventId } = req.params;
+      const userId = req.user!.id;
+
+      const role = await getTeamRole(teamId, userId);
+      if (!role) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const event = await prisma.teamCalendarEvent.findFirst({
+        where: { id: eventId, calendarId, calendar: { teamId } },
+      });
+      if (!event) {
+        return res.status(404).json({ error: 'Event not found' });
+      }
+      if (!canEditTeamEvent(role, event, userId)) {
+        return res.status(403).json({ error: 'You cannot delete this event' });
+      }
+
+      await prisma.teamCalendarEvent.delete({ where: { id: eventId } });
+      res.status(204).send();
+    }),
+  );
+
+  return router;
+}
@@ -0,0 +1,369 @@
+/**
+ * Team Discussion Routes
+ * Threaded discussions for grade teams. Owners and admins moderate (pin, lock,
+ * mark answers). Mounted inside the team routes, so paths are under /api/teams.
+ */
+
+import { Router } from 'express';
+import { PrismaClient } from '@teaching-engine/database';
+import { z } from 'zod';
+import { asyncHandler } from '../middleware/errorHandler';
+import logger from '../logger';
+import { canContributeToTeam, canModerateTeam, getTeamRole } from '../services/teamAccessService';
+import {
+  DISCUSSION_CATEGORIES,
+  findTeamSharedPlan,
+  notifyDiscussionReply,
+  withAuthors,
+} from '../services/teamDiscussionService';
+
+// Validation schemas
+const createDiscussionSchema = z.object({
+  title: z.string().min(1).max(200),
+  content: z.string().min(1).max(10000),
+  category: z.enum(DISCUSSION_CATEGORIES).optional(),
+  sharedPlanCode: z.string().optional(),
+});
+
+const updateDiscussionSchema = z.object({
+  title: z.string().min(1).max(200).optional(),
+  content: z.string().min(1).max(10000).optional(),
+  category: z.enum(DISCUSSION_CATEGORIES).nullable().optional(),
+  sharedPlanCode: z.string().nullable().optional(),
+  isPinned: z.boolean().optional(),
+  isLocked: z.boolean().optional(),
+});
+
+const replySchema = z.object({
+  content: z.string().min(1).max(10000),
+});
+
+const listQuerySchema = z.object({
+  category: z.enum(DISCUSSION_CATEGORIES).optional(),
+  search: z.string().optional(),
+});
+
+export function teamDiscussionRoutes(prisma: PrismaClient): Router {
+  const router = Router();
+
+  // List a team's discussions, pinned first then most recently active
+  router.get(
+    '/:teamId/discussions',
+    asyncHandler(async (req, res) => {
+      const { teamId } = req.params;
+      const userId = req.user!.id;
+      const { category, search } = listQuerySchema.parse(req.query);
+
+      const role = await getTeamRole(teamId, userId);
+      if (!role) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const discussions = await prisma.teamDiscussion.findMany({
+        where: {
+          teamId,
+          ...(category && { category }),
+          ...(search && {
+            OR: [{ title: { contains: search } }, { content: { contains: search } }],
+          }),
+        },
+        orderBy: [{ isPinned: 'desc' }, { lastReplyAt: 'desc' }, { createdAt: 'desc' }],
+        take: 100,
+      });
+
+      res.json(await withAuthors(discussions));
+    }),
+  );
+
+  // Start a discussion
+  router.post(
+    '/:teamId/discussions',
+    asyncHandler(async (req, res) => {
+      const { teamId } = req.params;
+      const userId = req.user!.id;
+      const data = createDiscussionSchema.parse(req.body);
+
+      const role = await getTeamRole(teamId, userId);
+      if (!role) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+      if (!canContributeToTeam(role)) {
+        return res.status(403).json({ error: 'Viewers cannot start discussions' });
+      }
+
+      if (data.sharedPlanCode && !(await findTeamSharedPlan(teamId, data.sharedPlanCode))) {
+        return res.status(400).json({ error: 'Only plans shared with this team can be linked' });
+      }
+
+      const discussion = await prisma.teamDiscussion.create({
+        data: {
+          teamId,
+          title: data.title,
+          content: data.content,
+          category: data.category,
+          sharedPlanCode: data.sharedPlanCode,
+          authorId: userId,
+        },
+      });
+
+      logger.info(`Discussion ${discussion.id} started in team ${teamId} by user ${userId}`);
+      const [withAuthor] = await withAuthors([discussion]);
+      res.status(201).json(withAuthor);
+    }),
+  );
+
+  // Get a discussion with its replies and count the view
+  router.get(
+    '/:teamId/discussions/:discussionId',
+    asyncHandler(async (req, res) => {
+      const { teamId, discussionId } = req.params;
+      const userId = req.user!.id;
+
+      const role = await getTeamRole(teamId, userId);
+      if (!role) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const existing = await prisma.teamDiscussion.findFirst({
+        where: { id: discussionId, teamId },
+      });
+      if (!existing) {
+        return res.status(404).json({ error: 'Discussion not found' });
+      }
+
+      const discussion = await prisma.teamDiscussion.update({
+        where: { id: discussionId },
+        data: { viewCount: { increment: 1 } },
+        include: { replies: { orderBy: { createdAt: 'asc' } } },
+      });
+
+      const { replies, ...thread } = discussion;
+      const [withAuthor] = await withAuthors([thread]);
+      const sharedPlan = thread.sharedPlanCode
+        ? await findTeamSharedPlan(teamId, thread.sharedPlanCode)
+        : null;
+
+      res.json({ ...withAuthor, sharedPlan, replies: await withAuthors(replies) });
+    }),
+  );
+
+  // Edit a discussion. Authors edit the content; owners and admins pin and lock.
+  router.patch(
+    '/:teamId/discussions/:discussionId',
+    asyncHandler(async (req, res) => {
+      const { teamId, discussionId } = req.params;
+      const userId = req.user!.id;
+      const { isPinned, isLocked, ...content } = updateDiscussionSchema.parse(req.body);
+
+      const role = await getTeamRole(teamId, userId);
+      if (!role) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const discussion = await prisma.teamDiscussion.findFirst({
+        where: { id: discussionId, teamId },
+      });
+      if (!discussion) {
+        return res.status(404).json({ error: 'Discussion not found' });
+      }
+
+      const editsContent = Object.values(content).some((value) => value !== undefined);
+      if (editsContent && discussion.authorId !== userId) {
+        return res.status(403).json({ error: 'Only the author can edit this discussion' });
+      }
+      if ((isPinned !== undefined || isLocked !== undefined) && !canModerateTeam(role)) {
+        return res
+          .status(403)
+          .json({ error: 'Only team owners and admins can pin or lock discussions' });
+      }
+
+      if (content.sharedPlanCode && !(await findTeamSharedPlan(teamId, content.sharedPlanCode))) {
+        return res.status(400).json({ error: 'Only plans shared with this team can be linked' });
+      }
+
+      const updated = await prisma.teamDiscussion.update({
+        where: { id: discussionId },
+        data: { ...content, isPinned, isLocked },
+      });
+
+      const [withAuthor] = await withAuthors([updated]);
+      res.json(withAuthor);
+    }),
+  );
+
+  // Delete a discussion
+  router.delete(
+    '/:teamId/discussions/:discussionId',
+    asyncHandler(async (req, res) => {
+      const { teamId, discussionId } = req.params;
+      const userId = req.user!.id;
+
+      const role = await getTeamRole(teamId, userId);
+      const discussion = await prisma.teamDiscussion.findFirst({
+        where: { id: discussionId, teamId },
+      });
+      if (!role || !discussion) {
+        return res.status(404).json({ error: 'Discussion not found' });
+      }
+      if (discussion.authorId !== userId && !canModerateTeam(role)) {
+        return res.status(403).json({ error: 'You cannot delete this discussion' });
+      }
+
+      await prisma.teamDiscussion.delete({ where: { id: discussionId } });
+
+      logger.info(`Discussion ${discussionId} deleted from team ${teamId} by user ${userId}`);
+      res.status(204).send();
+    }),
+  );
+
+  // Reply to a discussion
+  router.post(
+    '/:teamId/discussions/:discussionId/replies',
+    asyncHandler(async (req, res) => {
+      const { teamId, discussionId } = req.params;
+      const userId = req.user!.id;
+      const { content } = replySchema.parse(req.body);
+
+      const role = await getTeamRole(teamId, userId);
+      if (!role) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+      if (!canContributeToTeam(role)) {
+        return res.status(403).json({ error: 'Viewers cannot reply to discussions' });
+      }
+
+      const discussion = await prisma.teamDiscussion.findFirst({
+        where: { id: discussionId, teamId },
+      });
+      if (!discussion) {
+        return res.status(404).json({ error: 'Discussion not found' });
+      }
+      if (discussion.isLocked) {
+        return res.status(400).json({ error: 'This discussion is locked' });
+      }
+
+      const reply = await prisma.$transaction(async (tx) => {
+        const created = await tx.discussionReply.create({
+          data: { discussionId, content, authorId: userId },
+        });
+        await tx.teamDiscussion.update({
+          where: { id: discussionId },
+          data: { replyCount: { increment: 1 }, lastReplyAt: created.createdAt },
+        });
+        return created;
+      });
+
+      // Notifications go out after the response; they must not hold it up
+      void notifyDiscussionReply(discussion, reply);
+
+      const [withAuthor] = await withAuthors([reply]);
+      res.status(201).json(withAuthor);
+    }),
+  );
+
+  // Edit a reply (author only)
+  router.patch(
+    '/:teamId/discussions/:discussionId/replies/:replyId',
+    asyncHandler(async (req, res) => {
+      const { teamId, discussionId, replyId } = req.params;
+      const userId = req.user!.id;
+      const { content } = replySchema.parse(req.body);
+
+      const role = await getTeamRole(teamId, userId);
+      const reply = await prisma.discussionReply.findFirst({
+        where: { id: replyId, discussionId, discussion: { teamId } },
+        include: { discussion: { select: { isLocked: true } } },
+      });
+      if (!role || !reply) {
+        return res.status(404).json({ error: 'Reply not found' });
+      }
+      if (reply.authorId !== userId) {
+        return res.status(403).json({ error: 'Only the author can edit this reply' });
+      }
+      if (!canContributeToTeam(role)) {
+        return res.status(403).json({ error: 'Viewers cannot reply to discussions' });
+      }
+      if (reply.discussion.isLocked) {
+        return res.status(400).json({ error: 'This discussion is locked' });
+      }
+
+      const updated = await prisma.discussionReply.update({
+        where: { id: replyId },
+        data: { content },
+      });
+
+      const [withAuthor] = await withAuthors([updated]);
+      res.json(withAuthor);
+    }),
+  );
+
+  // Mark or unmark a reply as the answer. A thread has at most one answer.
+  router.post(
+    '/:teamId/discussions/:discussionId/replies/:replyId/answer',
+    asyncHandler(async (req, res) => {
+      const { teamId, discussionId, replyId } = req.params;
+      const userId = req.user!.id;
+      const { isAnswer } = z.object({ isAnswer: z.boolean() }).parse(req.body);
+
+      const role = await getTeamRole(teamId, userId);
+      if (!canModerateTeam(role)) {
+        return res.status(403).json({ error: 'Only team owners and admins can mark answers' });
+      }
+
+      const reply = await prisma.discussionReply.findFirst({
+        where: { id: replyId, discussionId, discussion: { teamId } },
+      });
+      if (!reply) {
+        return res.status(404).json({ error: 'Reply not found' });
+      }
+
+      const updated = await prisma.$transaction(async (tx) => {
+        if (isAnswer) {
+          await tx.discussionReply.updateMany({
+            where: { discussionId, isAnswer: true },
+            data: { isAnswer: false },
+          });
+        }
+        return tx.discussionReply.update({ where: { id: replyId }, data: { isAnswer } });
+      });
+
+      res.json(updated);
+    }),
+  );
+
+  // Delete a reply
+  router.delete(
+    '/:teamId/discussions/:discussionId/replies/:replyId',
+    asyncHandler(async (req, res) => {
+      const { teamId, discussionId, replyId } = req.params;
+      const userId = req.user!.id;
+
+      const role = await getTeamRole(teamId, userId);
+      const reply = await prisma.discussionReply.findFirst({
+        where: { id: replyId, discussionId, discussion: { teamId } },
+      });
+      if (!role || !reply) {
+        return res.status(404).json({ error: 'Reply not found' });
+      }
+      if (reply.authorId !== userId && !canModerateTeam(role)) {
+        return res.status(403).json({ error: 'You cannot delete this reply' });
+      }
+
+      await prisma.$transaction(async (tx) => {
+        await tx.discussionReply.delete({ where: { id: replyId } });
+        const latest = await tx.discussionReply.findFirst({
+          where: { discussionId },
+          orderBy: { createdAt: 'desc' },
+        });
+        await tx.teamDiscussion.update({
+          where: { id: discussionId },
+          data: { replyCount: { decrement: 1 }, lastReplyAt: latest?.createdAt ?? null },
+        });
+      });
+
+      res.status(204).send();
+    }),
+  );
+
+  return router;
+}
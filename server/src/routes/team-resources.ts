@@ -0,0 +1,303 @@
+/**
+ * Team Resource Routes
+ * Files, links and inline documents shared within a team. Any member may
+ * browse and import them into their own plans; members other than viewers may
+ * contribute. Mounted inside the team routes, so paths are under /api/teams.
+ */
+
+import { Router } from 'express';
+import { PrismaClient } from '@teaching-engine/database';
+import { z } from 'zod';
+import { asyncHandler } from '../middleware/errorHandler';
+import { DOCUMENT_EXTENSIONS, multipartList, singleFileUpload } from '../middleware/fileUpload';
+import logger from '../logger';
+import { saveFile } from '../storage';
+import { canContributeToTeam, canModerateTeam, getTeamRole } from '../services/teamAccessService';
+import {
+  TEAM_RESOURCE_TYPES,
+  importTeamResource,
+  listTeamResourceCategories,
+  withContributors,
+} from '../services/teamResourceService';
+
+// Validation schemas
+const createResourceSchema = z.object({
+  title: z.string().min(1).max(200),
+  description: z.string().max(5000).optional(),
+  resourceType: z.enum(TEAM_RESOURCE_TYPES).optional(),
+  url: z.string().url().optional(),
+  content: z.string().max(50000).optional(),
+  category: z.string().min(1).max(100).optional(),
+  tags: multipartList.optional(),
+});
+
+const updateResourceSchema = z.object({
+  title: z.string().min(1).max(200).optional(),
+  description: z.string().max(5000).nullable().optional(),
+  url: z.string().url().optional(),
+  content: z.string().max(50000).nullable().optional(),
+  category: z.string().min(1).max(100).nullable().optional(),
+  tags: multipartList.optional(),
+});
+
+const listQuerySchema = z.object({
+  category: z.string().optional(),
+  resourceType: z.enum(TEAM_RESOURCE_TYPES).optional(),
+  search: z.string().optional(),
+  tag: z.string().optional(),
+});
+
+const importSchema = z
+  .object({
+    unitPlanId: z.string().min(1).optional(),
+    lessonPlanId: z.string().min(1).optional(),
+  })
+  .refine((data) => !!data.unitPlanId !== !!data.lessonPlanId, {
+    message: 'Choose either a unit plan or a lesson plan',
+  });
+
+const uploadFile = singleFileUpload(DOCUMENT_EXTENSIONS);
+
+export function teamResourceRoutes(prisma: PrismaClient): Router {
+  const router = Router();
+
+  // List a team's resources, newest first
+  router.get(
+    '/:teamId/resources',
+    asyncHandler(async (req, res) => {
+      const { teamId } = req.params;
+      const userId = req.user!.id;
+      const { category, resourceType, search, tag } = listQuerySchema.parse(req.query);
+
+      const role = await getTeamRole(teamId, userId);
+      if (!role) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const resources = await prisma.teamResource.findMany({
+        where: {
+          teamId,
+          ...(category && { category }),
+          ...(resourceType && { resourceType }),
+          ...(search && {
+            OR: [{ title: { contains: search } }, { description: { contains: search } }],
+          }),
+        },
+        orderBy: { createdAt: 'desc' },
+        take: 200,
+      });
+
+      // Tags are a JSON array, which SQLite cannot filter on
+      const tagged = tag
+        ? resources.filter(
+            (resource) => Array.isArray(resource.tags) && resource.tags.includes(tag),
+          )
+        : resources;
+
+      res.json(await withContributors(tagged));
+    }),
+  );
+
+  // Categories in use, with resource counts
+  router.get(
+    '/:teamId/resources/categories',
+    asyncHandler(async (req, res) => {
+      const { teamId } = req.params;
+
+      const role = await getTeamRole(teamId, req.user!.id);
+      if (!role) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      res.json(await listTeamResourceCategories(teamId));
+    }),
+  );
+
+  // Share a resource: an uploaded file, a link, or inline content
+  router.post(
+    '/:teamId/resources',
+    uploadFile,
+    asyncHandler(async (req, res) => {
+      const { teamId } = req.params;
+      const userId = req.user!.id;
+      const data = createResourceSchema.parse(req.body);
+
+      const role = await getTeamRole(teamId, userId);
+      if (!role) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+      if (!canContributeToTeam(role)) {
+        return res.status(403).json({ error: 'Viewers cannot share resources' });
+      }
+
+      let resourceType = data.resourceType ?? (data.url ? 'link' : 'document');
+      let url = data.url;
+      if (req.file) {
+        resourceType = 'file';
+        url = await saveFile(
+          `team-${teamId}-${Date.now()}-${req.file.originalname}`,
+          req.file.buffer,
+        );
+      } else if (resourceType === 'file') {
+        return res.status(400).json({ error: 'Attach a file to share' });
+      } else if (resourceType === 'link' && !url) {
+        return res.status(400).json({ error: 'A link needs a URL' });
+      } else if (resourceType !== 'link' && !data.content) {
+        return res.status(400).json({ error: 'Add content, a link or a file' });
+      }
+
+      const resource = await prisma.teamResource.create({
+        data: {
+          teamId,
+          title: data.title,
+          description: data.description,
+          resourceType,
+          url,
+          content: data.content,
+          fileSize: req.file?.size,
+          mimeType: req.file?.mimetype,
+          category: data.category,
+          tags: data.tags ?? [],
+          contributedById: userId,
+        },
+      });
+
+      logger.info(`Resource ${resource.id} shared with team ${teamId} by user ${userId}`);
+      const [withContributor] = await withContributors([resource]);
+      res.status(201).json(withContributor);
+    }),
+  );
+
+  // Get a resource and count the view
+  router.get(
+    '/:teamId/resources/:resourceId',
+    asyncHandler(async (req, res) => {
+      const { teamId, resourceId } = req.params;
+
+      const role = await getTeamRole(teamId, req.user!.id);
+      if (!role) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const existing = await prisma.teamResource.findFirst({ where: { id: resourceId, teamId } });
+      if (!existing) {
+        return res.status(404).json({ error: 'Resource not found' });
+      }
+
+      const resource = await prisma.teamResource.update({
+        where: { id: resourceId },
+        data: { viewCount: { increment: 1 } },
+      });
+
+      const [withContributor] = await withContributors([resource]);
+      res.json(withContributor);
+    }),
+  );
+
+  // Edit a resource (contributor, owner or admin)
+  router.patch(
+    '/:teamId/resources/:resourceId',
+    asyncHandler(async (req, res) => {
+      const { teamId, resourceId } = req.params;
+      const userId = req.user!.id;
+      const data = updateResourceSchema.parse(req.body);
+
+      const role = await getTeamRole(teamId, userId);
+      const resource = await prisma.teamResource.findFirst({ where: { id: resourceId, teamId } });
+      if (!role || !resource) {
+        return res.status(404).json({ error: 'Resource not found' });
+      }
+      if (resource.contributedById !== userId && !canModerateTeam(role)) {
+        return res.status(403).json({ error: 'You cannot edit this resource' });
+      }
+      // An uploaded file's URL points at storage and is not editable
+      if (data.url && resource.resourceType === 'file') {
+        return res.status(400).json({ error: 'The URL of an uploaded file cannot be changed' });
+      }
+
+      const updated = await prisma.teamResource.update({
+        where: { id: resourceId },
+        data,
+      });
+
+      const [withContributor] = await withContributors([updated]);
+      res.json(withContributor);
+    }),
+  );
+
+  // Delete a resource (contributor, owner or admin)
+  router.delete(
+    '/:teamId/resources/:resourceId',
+    asyncHandler(async (req, res) => {
+      const { teamId, resourceId } = req.params;
+      const userId = req.user!.id;
+
+      const role = await getTeamRole(teamId, userId);
+      const resource = await prisma.teamResource.findFirst({ where: { id: resourceId, teamId } });
+      if (!role || !resource) {
+        return res.status(404).json({ error: 'Resource not found' });
+      }
+      if (resource.contributedById !== userId && !canModerateTeam(role)) {
+        return res.status(403).json({ error: 'You cannot delete this resource' });
+      }
+
+      await prisma.teamResource.delete({ where: { id: resourceId } });
+
+      logger.info(`Resource ${resourceId} removed from team ${teamId} by user ${userId}`);
+      res.status(204).send();
+    }),
+  );
+
+  // Count a download and return the resource's URL
+  router.post(
+    '/:teamId/resources/:resourceId/download',
+    asyncHandler(async (req, res) => {
+      const { teamId, resourceId } = req.params;
+
+      const role = await getTeamRole(teamId, req.user!.id);
+      const resource = await prisma.teamResource.findFirst({ where: { id: resourceId, teamId } });
+      if (!role || !resource) {
+        return res.status(404).json({ error: 'Resource not found' });
+      }
+      if (!resource.url) {
+        return res.status(400).json({ error: 'This resource has no file or link' });
+      }
+
+      await prisma.teamResource.update({
+        where: { id: resourceId },
+        data: { downloadCount: { increment: 1 } },
+      });
+
+      res.json({ url: resource.url });
+    }),
+  );
+
+  // Copy a resource into one of the user's unit or lesson plans
+  router.post(
+    '/:teamId/resources/:resourceId/import',
+    asyncHandler(async (req, res) => {
+      const { teamId, resourceId } = req.params;
+      const userId = req.user!.id;
+      const { unitPlanId, lessonPlanId } = importSchema.parse(req.body);
+
+      const role = await getTeamRole(teamId, userId);
+      const resource = await prisma.teamResource.findFirst({ where: { id: resourceId, teamId } });
+      if (!role || !resource) {
+        return res.status(404).json({ error: 'Resource not found' });
+      }
+
+      const imported = await importTeamResource(
+        resource,
+        userId,
+        unitPlanId ? { unitPlanId } : { lessonPlanId },
+      );
+      if (!imported) {
+        return res.status(404).json({ error: 'Plan not found' });
+      }
+
+      res.status(201).json(imported);
+    }),
+  );
+
+  return router;
+}
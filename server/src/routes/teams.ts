@@ -10,6 +10,11 @@ import { authenticate } from '../middleware/authenticate';
 import { asyncHandler } from '../middleware/errorHandler';
 import logger from '../logger';
 import { addDays } from 'date-fns';
+import { composeBilingualEmail, queueEmail } from '../services/emailService';
+import { getTeamSchoolFields } from '../services/schoolService';
+import { teamCalendarRoutes } from './team-calendars';
+import { teamDiscussionRoutes } from './team-discussions';
+import { teamResourceRoutes } from './team-resources';
 
 // Validation schemas
 const createTeamSchema = z.object({
@@ -19,6 +24,7 @@ const createTeamSchema = z.object({
   subject: z.string().optional(),
   schoolName: z.string().optional(),
   schoolBoard: z.string().optional(),
+  schoolId: z.number().int().positive().optional(),
   isPublic: z.boolean().optional(),
   requiresApproval: z.boolean().optional(),
 });
@@ -41,6 +47,11 @@ export function teamRoutes(prisma: PrismaClient): Router {
   // Apply authentication to all routes
   router.use(authenticate);
 
+  // Team calendars, events, discussions and shared resources
+  router.use(teamCalendarRoutes(prisma));
+  router.use(teamDiscussionRoutes(prisma));
+  router.use(teamResourceRoutes(prisma));
+
   // Get all teams for the current user
   router.get(
     '/',
@@ -153,19 +164,23 @@ export function teamRoutes(prisma: PrismaClient): Router {
       const userId = req.user!.id;
       const data = createTeamSchema.parse(req.body);
 
+      const schoolFields = data.schoolId
+        ? await getTeamSchoolFields(userId, data.schoolId)
+        : { schoolName: data.schoolName, schoolBoard: data.schoolBoard };
+      if (!schoolFields) {
+        return res.status(403).json({ error: 'You are not on the staff of that school' });
+      }
+
       const team = await prisma.team.create({
         data: {
           name: data.name,
           description: data.description,
           grade: data.grade,
           subject: data.subject,
-          schoolName: data.schoolName,
-          schoolBoard: data.schoolBoard,
+          ...schoolFields,
           isPublic: data.isPublic,
           requiresApproval: data.requiresApproval,
-          owner: {
-            connect: { id: userId },
-          },
+          ownerId: userId,
           members: {
             create: {
               userId,
@@ -211,6 +226,14 @@ export function teamRoutes(prisma: PrismaClient): Router {
           .json({ error: 'Only team owners and admins can update team settings' });
       }
 
+      if (data.schoolId) {
+        const schoolFields = await getTeamSchoolFields(userId, data.schoolId);
+        if (!schoolFields) {
+          return res.status(403).json({ error: 'You are not on the staff of that school' });
+        }
+        Object.assign(data, schoolFields);
+      }
+
       const team = await prisma.team.update({
         where: { id: teamId },
         data,
@@ -315,7 +338,24 @@ export function teamRoutes(prisma: PrismaClient): Router {
         },
       });
 
-      // TODO: Send email notification
+      const inviter = invitation.invitedBy.name || invitation.invitedBy.email;
+      const note = message ? `\n\n"${message}"` : '';
+      await queueEmail(
+        {
+          to: email,
+          ...composeBilingualEmail({
+            en: {
+              subject: `You're invited to join ${invitation.team.name}`,
+              text: `${inviter} has invited you to join the team "${invitation.team.name}" on Teaching Engine.${note}\n\nSign in to accept the invitation. It expires in 7 days.`,
+            },
+            fr: {
+              subject: `Invitation à rejoindre ${invitation.team.name}`,
+              text: `${inviter} vous invite à rejoindre l'équipe « ${invitation.team.name} » sur Teaching Engine.${note}\n\nConnectez-vous pour accepter l'invitation. Elle expire dans 7 jours.`,
+            },
+          }),
+        },
+        { userId, relatedType: 'team_invitation', relatedId: invitation.id },
+      );
 
       res.status(201).json(invitation);
     }),
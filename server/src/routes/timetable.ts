@@ -0,0 +1,295 @@
+import { Router, Request } from 'express';
+import { z } from 'zod';
+import { prisma } from '../prisma';
+import { validate } from '../validation';
+import { getTimetable, getTimetableBlocks } from '../services/timetableService';
+
+const router = Router();
+
+const dateParam = z
+  .string()
+  .datetime()
+  .or(z.string().regex(/^\d{4}-\d{2}-\d{2}$/));
+
+const slotBaseSchema = z.object({
+  day: z.number().int().min(0).max(4).nullable().optional(),
+  rotationDay: z.number().int().min(1).max(10).nullable().optional(),
+  startMin: z.number().int().min(0).max(1440),
+  endMin: z.number().int().min(0).max(1440),
+  subjectId: z.number().int().nullable().optional(),
+  subjectName: z.string().trim().max(100).optional(),
+  label: z
+    .string()
+    .max(100)
+    .regex(/^[^<>]*$/, 'Label cannot contain HTML tags')
+    .nullable()
+    .optional(),
+  room: z
+    .string()
+    .max(50)
+    .regex(/^[^<>]*$/, 'Room cannot contain HTML tags')
+    .nullable()
+    .optional(),
+});
+
+const slotSchema = slotBaseSchema
+  .refine((s) => s.day != null || s.rotationDay != null, {
+    message: 'A slot needs a weekday, a rotation day, or both',
+  })
+  .refine((s) => s.endMin > s.startMin, {
+    message: 'End time must be after start time',
+    path: ['endMin'],
+  });
+
+const timetableUpdateSchema = z.object({
+  rotationLength: z.number().int().min(2).max(10).nullable().optional(),
+  rotationStart: dateParam.nullable().optional(),
+  // When present, replaces every slot in the timetable
+  slots: z.array(slotSchema).max(200).optional(),
+});
+
+type SlotInput = z.infer<typeof slotBaseSchema>;
+
+class SubjectNotFoundError extends Error {
+  constructor(id: number) {
+    super(`Subject ${id} not found`);
+    this.name = 'SubjectNotFoundError';
+  }
+}
+
+/**
+ * Resolve a slot's subject: an explicit subjectId must belong to the user (or be
+ * shared); a subjectName is matched case-sensitively and created when missing.
+ */
+async function resolveSubjectId(userId: number, slot: SlotInput): Promise<number | null> {
+  if (slot.subjectId != null) {
+    const subject = await prisma.subject.findFirst({
+      where: { id: slot.subjectId, OR: [{ userId }, { userId: null }] },
+      select: { id: true },
+    });
+    if (!subject) throw new SubjectNotFoundError(slot.subjectId);
+    return subject.id;
+  }
+  if (!slot.subjectName) return null;
+
+  const existing = await prisma.subject.findFirst({
+    where: { name: slot.subjectName, OR: [{ userId }, { userId: null }] },
+    select: { id: true },
+  });
+  if (existing) return existing.id;
+  const created = await prisma.subject.create({ data: { name: slot.subjectName, userId } });
+  return created.id;
+}
+
+async function toSlotData(userId: number, slot: SlotInput) {
+  return {
+    day: slot.day ?? null,
+    rotationDay: slot.rotationDay ?? null,
+    startMin: slot.startMin,
+    endMin: slot.endMin,
+    subjectId: await resolveSubjectId(userId, slot),
+    label: slot.label ?? null,
+    room: slot.room ?? null,
+  };
+}
+
+/** Slot id from the route, or null when it is not a positive integer */
+function parseSlotId(req: Request): number | null {
+  const id = Number(req.params.id);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+async function ensureTimetable(userId: number) {
+  return prisma.classTimetable.upsert({
+    where: { userId },
+    create: { userId },
+    update: {},
+  });
+}
+
+// Get the user's timetable with all slots
+router.get('/', async (req: Request, res, _next) => {
+  try {
+    const userId = req.user?.id || 0;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const timetable = await getTimetable(userId);
+    res.json(
+      timetable ?? { id: null, userId, rotationLength: null, rotationStart: null, slots: [] },
+    );
+  } catch (err) {
+    _next(err);
+  }
+});
+
+// Update rotation settings and optionally replace all slots
+router.put('/', validate(timetableUpdateSchema), async (req: Request, res, _next) => {
+  try {
+    const userId = req.user?.id || 0;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const { rotationLength, rotationStart, slots } = req.body as z.infer<
+      typeof timetableUpdateSchema
+    >;
+    const settings = {
+      ...(rotationLength !== undefined && { rotationLength }),
+      ...(rotationStart !== undefined && {
+        rotationStart: rotationStart ? new Date(rotationStart) : null,
+      }),
+    };
+
+    // Resolve one at a time so repeated subject names create a single Subject
+    let slotData: Awaited<ReturnType<typeof toSlotData>>[] | null = null;
+    if (slots) {
+      slotData = [];
+      for (const slot of slots as SlotInput[]) {
+        slotData.push(await toSlotData(userId, slot));
+      }
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const timetable = await tx.classTimetable.upsert({
+        where: { userId },
+        create: { userId, ...settings },
+        update: settings,
+      });
+      if (slotData) {
+        await tx.timetableSlot.deleteMany({ where: { timetableId: timetable.id } });
+        await tx.timetableSlot.createMany({
+          data: slotData.map((data) => ({ ...data, timetableId: timetable.id })),
+        });
+      }
+    });
+
+    res.json(await getTimetable(userId));
+  } catch (err) {
+    if (err instanceof SubjectNotFoundError) {
+      return res.status(400).json({ error: err.message });
+    }
+    _next(err);
+  }
+});
+
+// Add a single slot
+router.post('/slots', validate(slotSchema), async (req: Request, res, _next) => {
+  try {
+    const userId = req.user?.id || 0;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const timetable = await ensureTimetable(userId);
+    const slot = await prisma.timetableSlot.create({
+      data: { ...(await toSlotData(userId, req.body)), timetableId: timetable.id },
+      include: { subject: true },
+    });
+    res.status(201).json(slot);
+  } catch (err) {
+    if (err instanceof SubjectNotFoundError) {
+      return res.status(400).json({ error: err.message });
+    }
+    _next(err);
+  }
+});
+
+// Update a slot
+router.put('/slots/:id', validate(slotSchema), async (req: Request, res, _next) => {
+  try {
+    const userId = req.user?.id || 0;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const id = parseSlotId(req);
+    if (id === null) {
+      return res.status(400).json({ error: 'Invalid timetable slot id' });
+    }
+    const existing = await prisma.timetableSlot.findFirst({
+      where: { id, timetable: { userId } },
+    });
+    if (!existing) {
+      return res.status(404).json({ error: 'Timetable slot not found' });
+    }
+
+    const slot = await prisma.timetableSlot.update({
+      where: { id },
+      data: await toSlotData(userId, req.body),
+      include: { subject: true },
+    });
+    res.json(slot);
+  } catch (err) {
+    if (err instanceof SubjectNotFoundError) {
+      return res.status(400).json({ error: err.message });
+    }
+    _next(err);
+  }
+});
+
+// Delete a slot
+router.delete('/slots/:id', async (req: Request, res, _next) => {
+  try {
+    const userId = req.user?.id || 0;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const id = parseSlotId(req);
+    if (id === null) {
+      return res.status(400).json({ error: 'Invalid timetable slot id' });
+    }
+
+    const result = await prisma.timetableSlot.deleteMany({
+      where: { id, timetable: { userId } },
+    });
+    if (result.count === 0) {
+      return res.status(404).json({ error: 'Timetable slot not found' });
+    }
+    res.status(204).end();
+  } catch (err) {
+    _next(err);
+  }
+});
+
+// Resolved daily blocks for a week (rotation days applied)
+router.get('/week/:weekStart', async (req: Request, res, _next) => {
+  try {
+    const userId = req.user?.id || 0;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const parsed = dateParam.safeParse(req.params.weekStart);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid week start date' });
+    }
+
+    res.json(await getTimetableBlocks(userId, new Date(parsed.data), 7));
+  } catch (err) {
+    _next(err);
+  }
+});
+
+// Resolved blocks for a single day
+router.get('/day/:date', async (req: Request, res, _next) => {
+  try {
+    const userId = req.user?.id || 0;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const parsed = dateParam.safeParse(req.params.date);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid date' });
+    }
+
+    res.json(await getTimetableBlocks(userId, new Date(parsed.data), 1));
+  } catch (err) {
+    _next(err);
+  }
+});
+
+export default router;
@@ -2,6 +2,7 @@ import { Router, Request } from 'express';
 import { Prisma } from '../prisma';
 import { prisma } from '../prisma';
 import { validate, cuidSchema } from '../validation';
+import { ensurePlanBaseline, snapshotPlan } from '../services/planVersionService';
 import { z } from 'zod';
 
 const router = Router();
@@ -260,6 +261,7 @@ router.post('/', validate(unitPlanCreateSchema), async (req: Request, res, _next
       });
     });
 
+    await snapshotPlan('unit', result.id, userId, 'create');
     res.status(201).json(result);
   } catch (err) {
     _next(err);
@@ -292,6 +294,7 @@ router.put('/:id', validate(unitPlanUpdateSchema), async (req: Request, res, _ne
     if (!existing) {
       return res.status(404).json({ error: 'Unit plan not found' });
     }
+    await ensurePlanBaseline('unit', existing.id);
 
     // Prepare update data
     const data: Prisma.UnitPlanUpdateInput = { ...updateData };
@@ -327,6 +330,7 @@ router.put('/:id', validate(unitPlanUpdateSchema), async (req: Request, res, _ne
         });
       }
     }
+    await snapshotPlan('unit', unitPlan.id, userId, 'update');
 
     // Refetch with updated relationships
     const updatedPlan = await prisma.unitPlan.findUnique({
@@ -612,6 +616,7 @@ router.post('/duplicate', async (req: Request, res, _next) => {
       return newUnit;
     });
 
+    await snapshotPlan('unit', result.id, userId, 'create', `Duplicated from ${sourceUnit.title}`);
     res.status(201).json(result);
   } catch (err) {
     _next(err);
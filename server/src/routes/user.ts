@@ -9,7 +9,8 @@ import { z } from 'zod';
 import bcrypt from 'bcryptjs';
 import { asyncHandler } from '../middleware/errorHandler';
 // Authentication middleware available if needed
-import { validatePassword, hashPassword } from '../services/authService';
+import { validatePassword, hashPassword, generateTemporaryPassword } from '../services/authService';
+import { reissueAccessCookie, revokeAllSessions } from '../services/sessionService';
 
 // Use global Express Request type with user: { id: number; email: string }
 
@@ -34,6 +35,7 @@ export function userRoutes(prisma: PrismaClient): Router {
           email: true,
           name: true,
           role: true,
+          mustChangePassword: true,
         },
       });
 
@@ -53,7 +55,11 @@ export function userRoutes(prisma: PrismaClient): Router {
       const { currentPassword, newPassword } = updatePasswordSchema.parse(req.body);
 
       // Validate new password
-      await validatePassword(newPassword);
+      try {
+        await validatePassword(newPassword);
+      } catch (error) {
+        return res.status(400).json({ error: (error as Error).message });
+      }
 
       // Get user with password
       const user = await prisma.user.findUnique({
@@ -66,8 +72,9 @@ export function userRoutes(prisma: PrismaClient): Router {
 
       // Verify current password
       const isValidPassword = await bcrypt.compare(currentPassword, user.password);
+      // 400 rather than 401: the request is signed in, only the field is wrong
       if (!isValidPassword) {
-        return res.status(401).json({ error: 'Current password is incorrect' });
+        return res.status(400).json({ error: 'Current password is incorrect' });
       }
 
       // Hash new password
@@ -76,9 +83,20 @@ export function userRoutes(prisma: PrismaClient): Router {
       // Update password
       await prisma.user.update({
         where: { id: userId },
-        data: { password: hashedPassword },
+        data: {
+          password: hashedPassword,
+          mustChangePassword: false,
+          passwordChangedAt: new Date(),
+        },
       });
 
+      // Other devices signed in with the old password are signed out
+      await revokeAllSessions(prisma, userId, req.user!.sessionId);
+      // Tokens issued before the change are rejected; keep this device signed in
+      if (req.user!.sessionId) {
+        await reissueAccessCookie(res, user, req.user!.sessionId);
+      }
+
       res.json({ message: 'Password updated successfully' });
     }),
   );
@@ -98,17 +116,20 @@ export function userRoutes(prisma: PrismaClient): Router {
       // Sanitize input
       const sanitizedName = name.replace(/<[^>]*>/g, ''); // Remove HTML tags
 
+      // Shown to the admin once; the user must change it at first sign-in
+      const temporaryPassword = generateTemporaryPassword();
       const user = await prisma.user.create({
         data: {
           email,
           name: sanitizedName,
           role: role || 'USER',
-          password: await hashPassword('TempPassword123!'), // Temporary password
+          password: await hashPassword(temporaryPassword),
+          mustChangePassword: true,
         },
       });
 
       const { password: _, ...userWithoutPassword } = user;
-      res.status(201).json(userWithoutPassword);
+      res.status(201).json({ ...userWithoutPassword, temporaryPassword });
     }),
   );
 
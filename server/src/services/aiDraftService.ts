@@ -1,23 +1,11 @@
-import OpenAI from 'openai';
 import { z } from 'zod';
 import { config } from 'dotenv';
 import { aiPromptTemplateService, PromptContext, CurriculumExpectation } from './aiPromptTemplateService';
+import { llmGateway } from './llm';
 
 // Load environment variables
 config();
 
-// Lazy initialization of OpenAI client
-let openai: OpenAI | null = null;
-
-function getOpenAIClient(): OpenAI | null {
-  if (!openai && process.env.OPENAI_API_KEY) {
-    openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-  }
-  return openai;
-}
-
 // Response schemas for validation
 const LongRangePlanDraftSchema = z.object({
   units: z.array(z.object({
@@ -110,9 +98,8 @@ export interface DaybookDraftInput {
 // AI Draft Generation Functions
 
 export async function generateLongRangePlanDraft(input: LongRangePlanDraftInput) {
-  const client = getOpenAIClient();
-  if (!client) {
-    console.warn('OpenAI API key not configured - returning empty draft');
+  if (!llmGateway.isAvailable('ai_draft')) {
+    console.warn('No LLM provider configured - returning empty draft');
     return {
       units: []
     };
@@ -132,20 +119,12 @@ export async function generateLongRangePlanDraft(input: LongRangePlanDraftInput)
       input.expectations
     );
 
-    const response = await client.chat.completions.create({
-      model: 'gpt-4',
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: prompt }
-      ],
+    const result = await llmGateway.completeJSON('ai_draft', {
+      system: systemPrompt,
+      prompt,
       temperature,
+      schema: LongRangePlanDraftSchema,
     });
-
-    const content = response.choices[0]?.message?.content;
-    if (!content) throw new Error('No response from OpenAI');
-
-    const parsed = JSON.parse(content);
-    const result = LongRangePlanDraftSchema.parse(parsed);
     
     // Record successful usage
     aiPromptTemplateService.recordPromptUsage('lrp-v2.0', true);
@@ -159,9 +138,8 @@ export async function generateLongRangePlanDraft(input: LongRangePlanDraftInput)
 }
 
 export async function generateUnitPlanDraft(input: UnitPlanDraftInput) {
-  const client = getOpenAIClient();
-  if (!client) {
-    console.warn('OpenAI API key not configured - returning empty draft');
+  if (!llmGateway.isAvailable('ai_draft')) {
+    console.warn('No LLM provider configured - returning empty draft');
     return {
       title: input.unitTitle || 'Generated Unit Plan',
       bigIdeas: [],
@@ -191,20 +169,12 @@ export async function generateUnitPlanDraft(input: UnitPlanDraftInput) {
       input.longRangePlanContext
     );
 
-    const response = await client.chat.completions.create({
-      model: 'gpt-4',
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: prompt }
-      ],
+    const result = await llmGateway.completeJSON('ai_draft', {
+      system: systemPrompt,
+      prompt,
       temperature,
+      schema: UnitPlanDraftSchema,
     });
-
-    const content = response.choices[0]?.message?.content;
-    if (!content) throw new Error('No response from OpenAI');
-
-    const parsed = JSON.parse(content);
-    const result = UnitPlanDraftSchema.parse(parsed);
     
     // Record successful usage
     aiPromptTemplateService.recordPromptUsage('up-v2.0', true);
@@ -218,9 +188,8 @@ export async function generateUnitPlanDraft(input: UnitPlanDraftInput) {
 }
 
 export async function generateLessonPlanDraft(input: LessonPlanDraftInput) {
-  const client = getOpenAIClient();
-  if (!client) {
-    console.warn('OpenAI API key not configured - returning empty draft');
+  if (!llmGateway.isAvailable('ai_draft')) {
+    console.warn('No LLM provider configured - returning empty draft');
     return {
       title: input.unitTitle || 'Generated Lesson Plan',
       learningGoals: [],
@@ -253,20 +222,12 @@ export async function generateLessonPlanDraft(input: LessonPlanDraftInput) {
       input.lessonNumber
     );
 
-    const response = await client.chat.completions.create({
-      model: 'gpt-4',
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: prompt }
-      ],
+    const result = await llmGateway.completeJSON('ai_draft', {
+      system: systemPrompt,
+      prompt,
       temperature,
+      schema: LessonPlanDraftSchema,
     });
-
-    const content = response.choices[0]?.message?.content;
-    if (!content) throw new Error('No response from OpenAI');
-
-    const parsed = JSON.parse(content);
-    const result = LessonPlanDraftSchema.parse(parsed);
     
     // Record successful usage
     aiPromptTemplateService.recordPromptUsage('lp-v2.0', true);
@@ -307,9 +268,8 @@ Return a JSON object with this structure:
 Focus on practical, actionable content that supports both teaching and reflection.
   `;
 
-  const client = getOpenAIClient();
-  if (!client) {
-    console.warn('OpenAI API key not configured - returning empty draft');
+  if (!llmGateway.isAvailable('ai_draft')) {
+    console.warn('No LLM provider configured - returning empty draft');
     return {
       weeklyBigIdeas: [],
       dailyReflectionPrompts: [],
@@ -319,20 +279,12 @@ Focus on practical, actionable content that supports both teaching and reflectio
   }
 
   try {
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4',
-      messages: [
-        { role: 'system', content: 'You are a supportive mentor teacher helping with weekly planning and reflection.' },
-        { role: 'user', content: prompt }
-      ],
+    return await llmGateway.completeJSON('ai_draft', {
+      system: 'You are a supportive mentor teacher helping with weekly planning and reflection.',
+      prompt,
       temperature: 0.3,
+      schema: DaybookDraftSchema,
     });
-
-    const content = response.choices[0]?.message?.content;
-    if (!content) throw new Error('No response from OpenAI');
-
-    const parsed = JSON.parse(content);
-    return DaybookDraftSchema.parse(parsed);
   } catch (error) {
     console.error('Error generating daybook draft:', error);
     throw new Error('Failed to generate daybook draft');
@@ -363,23 +315,17 @@ Focus on:
 Provide practical, actionable suggestions.
   `;
 
-  const client = getOpenAIClient();
-  if (!client) {
-    console.warn('OpenAI API key not configured - returning empty suggestions');
+  if (!llmGateway.isAvailable('ai_draft')) {
+    console.warn('No LLM provider configured - returning empty suggestions');
     return [];
   }
 
   try {
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4',
-      messages: [
-        { role: 'system', content: 'You are an experienced teacher mentor providing constructive feedback on lesson plans.' },
-        { role: 'user', content: prompt }
-      ],
+    return await llmGateway.complete('ai_draft', {
+      system: 'You are an experienced teacher mentor providing constructive feedback on lesson plans.',
+      prompt,
       temperature: 0.4,
     });
-
-    return response.choices[0]?.message?.content || '';
   } catch (error) {
     console.error('Error generating plan suggestions:', error);
     throw new Error('Failed to generate suggestions');
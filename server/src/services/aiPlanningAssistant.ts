@@ -1,6 +1,7 @@
+import { z } from 'zod';
 import BaseService from './base/BaseService';
-import OpenAI from 'openai';
 import { prisma } from '../prisma';
+import { llmGateway } from './llm';
 
 export interface PlanningContext {
   level: 'long-range' | 'unit' | 'lesson' | 'daybook';
@@ -16,16 +17,16 @@ export interface AISuggestion {
   rationale?: string;
 }
 
-export class AIPlanningAssistantService extends BaseService {
-  private openai: OpenAI | null = null;
+const SuggestionResponseSchema = z.object({
+  suggestions: z.array(z.string()).default([]),
+  rationale: z.string().optional(),
+});
 
+export class AIPlanningAssistantService extends BaseService {
   constructor() {
     super('AIPlanningAssistantService');
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (apiKey) {
-      this.openai = new OpenAI({ apiKey });
-    } else {
-      this.logger.warn('OpenAI API key not found - AI planning assistance will be disabled');
+    if (!llmGateway.isAvailable('planning_assistant')) {
+      this.logger.warn('No LLM provider configured - AI planning assistance will be disabled');
     }
   }
 
@@ -38,7 +39,7 @@ export class AIPlanningAssistantService extends BaseService {
     termLength: number;
     focusAreas?: string[];
   }): Promise<AISuggestion> {
-    if (!this.openai) {
+    if (!llmGateway.isAvailable('planning_assistant')) {
       return { type: 'goals', suggestions: [] };
     }
 
@@ -64,27 +65,14 @@ Return ONLY a JSON object with this structure:
   "rationale": "Brief explanation of why these goals are appropriate"
 }`;
 
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
-        messages: [
-          { role: 'system', content: 'You are an expert elementary education curriculum planner.' },
-          { role: 'user', content: prompt },
-        ],
+      const parsed = await llmGateway.completeJSON('planning_assistant', {
+        system: 'You are an expert elementary education curriculum planner.',
+        prompt,
         temperature: 0.7,
-        max_tokens: 1000,
+        maxTokens: 1000,
+        schema: SuggestionResponseSchema,
       });
-
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        throw new Error('No response from AI');
-      }
-
-      const parsed = JSON.parse(content);
-      return {
-        type: 'goals',
-        suggestions: parsed.suggestions || [],
-        rationale: parsed.rationale,
-      };
+      return { type: 'goals', suggestions: parsed.suggestions, rationale: parsed.rationale };
     } catch (error) {
       this.logger.error({ error }, 'Failed to generate long-range goals');
       return { type: 'goals', suggestions: [] };
@@ -101,7 +89,7 @@ Return ONLY a JSON object with this structure:
     curriculumExpectations: string[];
     duration: number;
   }): Promise<AISuggestion> {
-    if (!this.openai) {
+    if (!llmGateway.isAvailable('planning_assistant')) {
       return { type: 'bigIdeas', suggestions: [] };
     }
 
@@ -129,30 +117,14 @@ Return ONLY a JSON object with this structure:
   "rationale": "Brief explanation of how these connect to the curriculum"
 }`;
 
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an expert in Understanding by Design and elementary education.',
-          },
-          { role: 'user', content: prompt },
-        ],
+      const parsed = await llmGateway.completeJSON('planning_assistant', {
+        system: 'You are an expert in Understanding by Design and elementary education.',
+        prompt,
         temperature: 0.7,
-        max_tokens: 1000,
+        maxTokens: 1000,
+        schema: SuggestionResponseSchema,
       });
-
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        throw new Error('No response from AI');
-      }
-
-      const parsed = JSON.parse(content);
-      return {
-        type: 'bigIdeas',
-        suggestions: parsed.suggestions || [],
-        rationale: parsed.rationale,
-      };
+      return { type: 'bigIdeas', suggestions: parsed.suggestions, rationale: parsed.rationale };
     } catch (error) {
       this.logger.error({ error }, 'Failed to generate unit big ideas');
       return { type: 'bigIdeas', suggestions: [] };
@@ -170,7 +142,7 @@ Return ONLY a JSON object with this structure:
     duration: number;
     materials?: string[];
   }): Promise<AISuggestion> {
-    if (!this.openai) {
+    if (!llmGateway.isAvailable('planning_assistant')) {
       return { type: 'activities', suggestions: [] };
     }
 
@@ -199,30 +171,14 @@ Return ONLY a JSON object with this structure:
   "rationale": "Brief explanation of the activity sequence"
 }`;
 
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an experienced elementary teacher skilled in lesson planning.',
-          },
-          { role: 'user', content: prompt },
-        ],
+      const parsed = await llmGateway.completeJSON('planning_assistant', {
+        system: 'You are an experienced elementary teacher skilled in lesson planning.',
+        prompt,
         temperature: 0.8,
-        max_tokens: 1200,
+        maxTokens: 1200,
+        schema: SuggestionResponseSchema,
       });
-
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        throw new Error('No response from AI');
-      }
-
-      const parsed = JSON.parse(content);
-      return {
-        type: 'activities',
-        suggestions: parsed.suggestions || [],
-        rationale: parsed.rationale,
-      };
+      return { type: 'activities', suggestions: parsed.suggestions, rationale: parsed.rationale };
     } catch (error) {
       this.logger.error({ error }, 'Failed to generate lesson activities');
       return { type: 'activities', suggestions: [] };
@@ -238,7 +194,7 @@ Return ONLY a JSON object with this structure:
     grade: number;
     classSize: number;
   }): Promise<AISuggestion> {
-    if (!this.openai) {
+    if (!llmGateway.isAvailable('planning_assistant')) {
       return { type: 'materials', suggestions: [] };
     }
 
@@ -263,30 +219,14 @@ Return ONLY a JSON object with this structure:
   "rationale": "Brief note about material choices"
 }`;
 
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a practical elementary teacher who knows classroom management.',
-          },
-          { role: 'user', content: prompt },
-        ],
+      const parsed = await llmGateway.completeJSON('planning_assistant', {
+        system: 'You are a practical elementary teacher who knows classroom management.',
+        prompt,
         temperature: 0.6,
-        max_tokens: 800,
+        maxTokens: 800,
+        schema: SuggestionResponseSchema,
       });
-
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        throw new Error('No response from AI');
-      }
-
-      const parsed = JSON.parse(content);
-      return {
-        type: 'materials',
-        suggestions: parsed.suggestions || [],
-        rationale: parsed.rationale,
-      };
+      return { type: 'materials', suggestions: parsed.suggestions, rationale: parsed.rationale };
     } catch (error) {
       this.logger.error({ error }, 'Failed to generate materials list');
       return { type: 'materials', suggestions: [] };
@@ -302,7 +242,7 @@ Return ONLY a JSON object with this structure:
     subject: string;
     grade: number;
   }): Promise<AISuggestion> {
-    if (!this.openai) {
+    if (!llmGateway.isAvailable('planning_assistant')) {
       return { type: 'assessments', suggestions: [] };
     }
 
@@ -331,30 +271,14 @@ Return ONLY a JSON object with this structure:
   "rationale": "Brief explanation of assessment choices"
 }`;
 
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an expert in educational assessment and elementary teaching.',
-          },
-          { role: 'user', content: prompt },
-        ],
+      const parsed = await llmGateway.completeJSON('planning_assistant', {
+        system: 'You are an expert in educational assessment and elementary teaching.',
+        prompt,
         temperature: 0.7,
-        max_tokens: 1000,
+        maxTokens: 1000,
+        schema: SuggestionResponseSchema,
       });
-
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        throw new Error('No response from AI');
-      }
-
-      const parsed = JSON.parse(content);
-      return {
-        type: 'assessments',
-        suggestions: parsed.suggestions || [],
-        rationale: parsed.rationale,
-      };
+      return { type: 'assessments', suggestions: parsed.suggestions, rationale: parsed.rationale };
     } catch (error) {
       this.logger.error({ error }, 'Failed to generate assessment strategies');
       return { type: 'assessments', suggestions: [] };
@@ -371,7 +295,7 @@ Return ONLY a JSON object with this structure:
     grade: number;
     previousReflections?: string[];
   }): Promise<AISuggestion> {
-    if (!this.openai) {
+    if (!llmGateway.isAvailable('planning_assistant')) {
       return { type: 'reflections', suggestions: [] };
     }
 
@@ -400,27 +324,14 @@ Return ONLY a JSON object with this structure:
   "rationale": "Brief note about reflection focus"
 }`;
 
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
-        messages: [
-          { role: 'system', content: 'You are a reflective practitioner in elementary education.' },
-          { role: 'user', content: prompt },
-        ],
+      const parsed = await llmGateway.completeJSON('planning_assistant', {
+        system: 'You are a reflective practitioner in elementary education.',
+        prompt,
         temperature: 0.7,
-        max_tokens: 800,
+        maxTokens: 800,
+        schema: SuggestionResponseSchema,
       });
-
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        throw new Error('No response from AI');
-      }
-
-      const parsed = JSON.parse(content);
-      return {
-        type: 'reflections',
-        suggestions: parsed.suggestions || [],
-        rationale: parsed.rationale,
-      };
+      return { type: 'reflections', suggestions: parsed.suggestions, rationale: parsed.rationale };
     } catch (error) {
       this.logger.error({ error }, 'Failed to generate reflection prompts');
       return { type: 'reflections', suggestions: [] };
@@ -434,7 +345,7 @@ Return ONLY a JSON object with this structure:
     expectationIds: string[],
     suggestionType: 'activities' | 'assessments' | 'resources',
   ): Promise<string[]> {
-    if (!this.openai || expectationIds.length === 0) {
+    if (!llmGateway.isAvailable('planning_assistant') || expectationIds.length === 0) {
       return [];
     }
 
@@ -462,26 +373,17 @@ ${expectationTexts.join('\n')}
 Suggest 3-5 ${typePrompts[suggestionType]} these expectations.
 Be specific and practical for elementary teachers.
 
-Return ONLY a JSON array of strings:
-["Suggestion 1", "Suggestion 2", "Suggestion 3"]`;
+Return ONLY a JSON object with this structure:
+{ "suggestions": ["Suggestion 1", "Suggestion 2", "Suggestion 3"] }`;
 
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
-        messages: [
-          { role: 'system', content: 'You are an elementary curriculum expert.' },
-          { role: 'user', content: prompt },
-        ],
+      const parsed = await llmGateway.completeJSON('planning_assistant', {
+        system: 'You are an elementary curriculum expert.',
+        prompt,
         temperature: 0.7,
-        max_tokens: 600,
+        maxTokens: 600,
+        schema: SuggestionResponseSchema,
       });
-
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        return [];
-      }
-
-      const suggestions = JSON.parse(content);
-      return Array.isArray(suggestions) ? suggestions : [];
+      return parsed.suggestions;
     } catch (error) {
       this.logger.error({ error }, 'Failed to get curriculum-aligned suggestions');
       return [];
@@ -498,25 +400,24 @@ Return ONLY a JSON array of strings:
     error?: string;
   }> {
     try {
-      const hasApiKey = !!this.openai;
+      const hasApiKey = llmGateway.isAvailable('planning_assistant');
       
       if (!hasApiKey) {
         return {
           healthy: false,
           apiKey: false,
           lastCheck: new Date().toISOString(),
-          error: 'OpenAI API key not configured'
+          error: 'No LLM provider configured'
         };
       }
 
-      // Test a minimal OpenAI request to verify service health
-      const testResponse = await this.openai!.chat.completions.create({
-        model: 'gpt-3.5-turbo',
-        messages: [{ role: 'user', content: 'Test' }],
-        max_tokens: 5
+      // Send a minimal request to verify the provider responds
+      const testResponse = await llmGateway.complete('planning_assistant', {
+        prompt: 'Test',
+        maxTokens: 5,
       });
 
-      const healthy = !!testResponse.choices[0]?.message?.content;
+      const healthy = !!testResponse;
 
       return {
         healthy,
@@ -527,7 +428,7 @@ Return ONLY a JSON array of strings:
       this.logger.error({ error }, 'AI service health check failed');
       return {
         healthy: false,
-        apiKey: !!this.openai,
+        apiKey: llmGateway.isAvailable('planning_assistant'),
         lastCheck: new Date().toISOString(),
         error: error instanceof Error ? error.message : 'Unknown error'
       };
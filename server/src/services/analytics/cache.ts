@@ -0,0 +1,26 @@
+import { cacheService } from '../CacheService';
+
+const NAMESPACE = 'analytics';
+const TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Analytics results cached per teacher for a few minutes. Reports are
+ * recomputed from plans and daybook entries, so a stale result only lags
+ * behind recent edits; teachers can refresh explicitly.
+ */
+export const analyticsCache = {
+  getOrSet<T>(userId: number, key: string, compute: () => Promise<T>): Promise<T> {
+    return cacheService.getOrSet(key, compute, {
+      namespace: `${NAMESPACE}:${userId}`,
+      ttl: TTL_MS,
+    });
+  },
+
+  invalidate(userId: number): Promise<number> {
+    return cacheService.clear(`${NAMESPACE}:${userId}`);
+  },
+
+  clear(): Promise<number> {
+    return cacheService.clear(NAMESPACE);
+  },
+};
@@ -0,0 +1,190 @@
+import type { Prisma } from '@teaching-engine/database';
+import { prisma } from '../../prisma';
+import { AnalyticsRange, weekKey, weeksInRange } from './range';
+
+export const COVERAGE_VIEW_MODES = ['planned', 'taught'] as const;
+export type CoverageViewMode = (typeof COVERAGE_VIEW_MODES)[number];
+
+export interface CoverageFilters extends AnalyticsRange {
+  viewMode: CoverageViewMode;
+  subject?: string;
+  grade?: number;
+  strand?: string;
+}
+
+export interface HeatmapExpectation {
+  id: string;
+  code: string;
+  description: string;
+  strand: string;
+  substrand: string | null;
+  subject: string;
+  grade: number;
+}
+
+export interface ExpectationHit {
+  expectationId: string;
+  date: Date;
+  /** Daybook coverage level: "introduced" | "developing" | "consolidated" */
+  coverage?: string | null;
+}
+
+export interface CurriculumHeatmap {
+  outcomes: HeatmapExpectation[];
+  weeks: string[];
+  /** expectation id -> week -> number of lessons or daybook entries */
+  grid: Record<string, Record<string, number>>;
+  /** expectation id -> most recent coverage level recorded in the daybook */
+  coverage: Record<string, string>;
+  metadata: {
+    viewMode: CoverageViewMode;
+    from: Date;
+    to: Date;
+    totalOutcomes: number;
+    coveredOutcomes: number;
+    totalWeeks: number;
+    coveragePercentage: number;
+  };
+}
+
+// Enough for a full subject across a couple of grades
+const MAX_EXPECTATIONS = 500;
+
+/**
+ * Count how often each expectation was hit in each week.
+ */
+export function buildHeatmap(
+  expectations: HeatmapExpectation[],
+  hits: ExpectationHit[],
+  filters: CoverageFilters,
+): CurriculumHeatmap {
+  const weeks = weeksInRange(filters);
+  const weekSet = new Set(weeks);
+  const known = new Set(expectations.map((expectation) => expectation.id));
+  const grid: Record<string, Record<string, number>> = {};
+  const coverage: Record<string, string> = {};
+
+  const ordered = [...hits].sort((a, b) => a.date.getTime() - b.date.getTime());
+  for (const hit of ordered) {
+    const week = weekKey(hit.date);
+    if (!known.has(hit.expectationId) || !weekSet.has(week)) continue;
+
+    const row = grid[hit.expectationId] ?? (grid[hit.expectationId] = {});
+    row[week] = (row[week] ?? 0) + 1;
+    if (hit.coverage) coverage[hit.expectationId] = hit.coverage;
+  }
+
+  const coveredOutcomes = Object.keys(grid).length;
+  return {
+    outcomes: expectations,
+    weeks,
+    grid,
+    coverage,
+    metadata: {
+      viewMode: filters.viewMode,
+      from: filters.from,
+      to: filters.to,
+      totalOutcomes: expectations.length,
+      coveredOutcomes,
+      totalWeeks: weeks.length,
+      coveragePercentage: expectations.length
+        ? Math.round((coveredOutcomes / expectations.length) * 100)
+        : 0,
+    },
+  };
+}
+
+/**
+ * Expectations addressed in the teacher's lesson plans ("planned") or
+ * recorded in their daybook ("taught"). A daybook entry without expectations
+ * of its own counts the expectations of the lesson it records.
+ */
+export async function loadHits(
+  userId: number,
+  filters: CoverageFilters,
+): Promise<ExpectationHit[]> {
+  const date = { gte: filters.from, lte: filters.to };
+
+  if (filters.viewMode === 'planned') {
+    const lessons = await prisma.eTFOLessonPlan.findMany({
+      where: { userId, date },
+      select: { date: true, expectations: { select: { expectationId: true } } },
+    });
+    return lessons.flatMap((lesson) =>
+      lesson.expectations.map(({ expectationId }) => ({ expectationId, date: lesson.date })),
+    );
+  }
+
+  const entries = await prisma.daybookEntry.findMany({
+    where: { userId, date },
+    select: {
+      date: true,
+      expectations: { select: { expectationId: true, coverage: true } },
+      lessonPlan: { select: { expectations: { select: { expectationId: true } } } },
+    },
+  });
+  return entries.flatMap((entry) =>
+    entry.expectations.length
+      ? entry.expectations.map(({ expectationId, coverage }) => ({
+          expectationId,
+          date: entry.date,
+          coverage,
+        }))
+      : (entry.lessonPlan?.expectations ?? []).map(({ expectationId }) => ({
+          expectationId,
+          date: entry.date,
+        })),
+  );
+}
+
+/**
+ * The expectations to report on. Without a subject or grade filter, these are
+ * the expectations of every subject and grade touched by the hits, so
+ * untouched expectations still show up as gaps.
+ */
+export async function loadExpectations(
+  hits: ExpectationHit[],
+  filters: CoverageFilters,
+): Promise<HeatmapExpectation[]> {
+  const where: Prisma.CurriculumExpectationWhereInput = {
+    ...(filters.subject && { subject: filters.subject }),
+    ...(filters.grade !== undefined && { grade: filters.grade }),
+    ...(filters.strand && { strand: filters.strand }),
+  };
+  if (!filters.subject && filters.grade === undefined) {
+    const touched = await prisma.curriculumExpectation.findMany({
+      where: { id: { in: [...new Set(hits.map((hit) => hit.expectationId))] } },
+      select: { subject: true, grade: true },
+      distinct: ['subject', 'grade'],
+    });
+    if (touched.length === 0) return [];
+    where.OR = touched;
+  }
+
+  return prisma.curriculumExpectation.findMany({
+    where,
+    select: {
+      id: true,
+      code: true,
+      description: true,
+      strand: true,
+      substrand: true,
+      subject: true,
+      grade: true,
+    },
+    orderBy: [{ subject: 'asc' }, { grade: 'asc' }, { code: 'asc' }],
+    take: MAX_EXPECTATIONS,
+  });
+}
+
+/**
+ * Curriculum coverage heatmap: expectations down the side, weeks across.
+ */
+export async function getCurriculumHeatmap(
+  userId: number,
+  filters: CoverageFilters,
+): Promise<CurriculumHeatmap> {
+  const hits = await loadHits(userId, filters);
+  const expectations = await loadExpectations(hits, filters);
+  return buildHeatmap(expectations, hits, filters);
+}
@@ -0,0 +1,277 @@
+import archiver from 'archiver';
+import PDFDocument from 'pdfkit';
+import { format } from 'date-fns';
+import { Parser } from 'json2csv';
+import type { CurriculumHeatmap } from './curriculumCoverage';
+import type { StrandBalance } from './strandBalance';
+import type { StudentEngagement } from './studentEngagement';
+
+export const EXPORT_FORMATS = ['csv', 'xlsx', 'pdf'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_TYPES = ['curriculum-heatmap', 'strand-balance', 'student-engagement'] as const;
+export type ExportType = (typeof EXPORT_TYPES)[number];
+
+type Cell = string | number | null;
+
+export interface AnalyticsTable {
+  title: string;
+  columns: string[];
+  rows: Cell[][];
+}
+
+export interface RenderedExport {
+  content: Buffer;
+  contentType: string;
+  extension: ExportFormat;
+}
+
+export function heatmapTable(heatmap: CurriculumHeatmap): AnalyticsTable {
+  return {
+    title: `Curriculum coverage (${heatmap.metadata.viewMode})`,
+    columns: [
+      'Code',
+      'Subject',
+      'Grade',
+      'Strand',
+      'Expectation',
+      'Total',
+      'Coverage',
+      ...heatmap.weeks,
+    ],
+    rows: heatmap.outcomes.map((outcome) => {
+      const row = heatmap.grid[outcome.id] ?? {};
+      const weekly = heatmap.weeks.map((week) => row[week] ?? 0);
+      return [
+        outcome.code,
+        outcome.subject,
+        outcome.grade,
+        outcome.strand,
+        outcome.description,
+        weekly.reduce((sum, count) => sum + count, 0),
+        heatmap.coverage[outcome.id] ?? null,
+        ...weekly,
+      ];
+    }),
+  };
+}
+
+export function strandBalanceTable(balance: StrandBalance): AnalyticsTable {
+  return {
+    title: `Strand balance by ${balance.interval}`,
+    columns: ['Strand', 'Lessons', 'Minutes', 'Share (%)', ...balance.periods.map((p) => p.period)],
+    rows: balance.totals.map((total) => [
+      total.strand,
+      total.lessons,
+      total.minutes,
+      total.percentage,
+      ...balance.periods.map((period) => period.minutes[total.strand] ?? 0),
+    ]),
+  };
+}
+
+export function studentEngagementTable(engagement: StudentEngagement): AnalyticsTable {
+  return {
+    title: 'Student engagement',
+    columns: [
+      'Student',
+      'Grade',
+      'Reflections',
+      'Artifacts',
+      'Activity per week',
+      'Level',
+      'Last activity',
+      'Needs attention',
+    ],
+    rows: engagement.students.map((student) => [
+      student.name,
+      student.grade,
+      student.reflections,
+      student.artifacts,
+      student.activityPerWeek,
+      student.level,
+      student.lastActivity ? format(student.lastActivity, 'yyyy-MM-dd') : null,
+      student.needsAttention ? 'yes' : 'no',
+    ]),
+  };
+}
+
+/**
+ * Spreadsheet apps run text starting with = + - @ as a formula. Such cells get
+ * a leading apostrophe so names and notes typed by users stay plain text.
+ */
+function neutraliseFormula(value: Cell): Cell {
+  return typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+export function toCsv(table: AnalyticsTable): string {
+  const parser = new Parser<Cell[]>({
+    fields: table.columns.map((label, index) => ({ label, value: (row: Cell[]) => row[index] })),
+    eol: '\r\n',
+    includeEmptyRows: true,
+  });
+  return parser.parse(table.rows.map((row) => row.map(neutraliseFormula))).concat('\r\n');
+}
+
+function xmlEscape(text: string): string {
+  return (
+    text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      // Control characters other than tab and newlines are not allowed in XML
+      // eslint-disable-next-line no-control-regex
+      .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '')
+  );
+}
+
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function sheetXml(table: AnalyticsTable): string {
+  const rows = [table.columns, ...table.rows].map((row, r) => {
+    const cells = row.map((value, c) => {
+      const ref = `${columnName(c)}${r + 1}`;
+      if (value === null) return '';
+      if (typeof value === 'number') return `<c r="${ref}"><v>${value}</v></c>`;
+      return `<c r="${ref}" t="inlineStr"><is><t>${xmlEscape(value)}</t></is></c>`;
+    });
+    return `<row r="${r + 1}">${cells.join('')}</row>`;
+  });
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `<sheetData>${rows.join('')}</sheetData></worksheet>`
+  );
+}
+
+/**
+ * A minimal single-sheet workbook. Strings are written inline, so no shared
+ * string table or styles are needed.
+ */
+export async function toXlsx(table: AnalyticsTable): Promise<Buffer> {
+  // Sheet names are limited to 31 characters and a few forbidden ones
+  const sheetName = xmlEscape(table.title.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31));
+  const files: Record<string, string> = {
+    '[Content_Types].xml':
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '</Types>',
+    '_rels/.rels':
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>',
+    'xl/workbook.xml':
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+      'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      `<sheets><sheet name="${sheetName}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+    'xl/_rels/workbook.xml.rels':
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      '</Relationships>',
+    'xl/worksheets/sheet1.xml': sheetXml(table),
+  };
+
+  const archive = archiver('zip');
+  const chunks: Buffer[] = [];
+  archive.on('data', (d: Buffer) => chunks.push(d));
+  for (const [name, content] of Object.entries(files)) {
+    archive.append(content, { name });
+  }
+  await archive.finalize();
+  return Buffer.concat(chunks);
+}
+
+// Beyond this many columns a row no longer fits across a landscape page
+const MAX_PDF_COLUMNS = 8;
+
+/**
+ * Narrow tables are laid out as a grid. Wide ones (the heatmap, long
+ * strand-balance ranges) list each row as "column: value" lines instead,
+ * skipping empty and zero cells.
+ */
+export function toPdf(table: AnalyticsTable): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ layout: 'landscape', margin: 40 });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    doc.fontSize(18).text(table.title);
+    doc.fontSize(9).text(`Generated ${format(new Date(), 'yyyy-MM-dd HH:mm')}`);
+    doc.moveDown();
+
+    if (table.rows.length === 0) {
+      doc.fontSize(11).text('No data for the selected filters.');
+    } else if (table.columns.length <= MAX_PDF_COLUMNS) {
+      const width = (doc.page.width - 80) / table.columns.length;
+      const line = (cells: Cell[]) => {
+        const y = doc.y;
+        cells.forEach((cell, i) => {
+          doc.text(cell === null ? '' : String(cell), 40 + i * width, y, {
+            width: width - 6,
+            lineBreak: false,
+            ellipsis: true,
+          });
+        });
+        doc.x = 40;
+        doc.moveDown(0.4);
+      };
+      doc.fontSize(10).font('Helvetica-Bold');
+      line(table.columns);
+      doc.font('Helvetica').fontSize(9);
+      table.rows.forEach(line);
+    } else {
+      doc.fontSize(9);
+      for (const row of table.rows) {
+        doc.font('Helvetica-Bold').text(String(row[0] ?? ''));
+        doc.font('Helvetica');
+        const details = table.columns
+          .slice(1)
+          .map((column, i) => [column, row[i + 1]] as const)
+          .filter(([, value]) => value !== null && value !== 0 && value !== '')
+          .map(([column, value]) => `${column}: ${value}`);
+        doc.text(details.join('   '), { indent: 12 });
+        doc.moveDown(0.4);
+      }
+    }
+
+    doc.end();
+  });
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf',
+};
+
+export async function renderExport(
+  table: AnalyticsTable,
+  exportFormat: ExportFormat,
+): Promise<RenderedExport> {
+  let content: Buffer;
+  if (exportFormat === 'csv') {
+    // BOM so Excel opens accented French text correctly
+    content = Buffer.from('\uFEFF' + toCsv(table), 'utf8');
+  } else if (exportFormat === 'xlsx') {
+    content = await toXlsx(table);
+  } else {
+    content = await toPdf(table);
+  }
+  return { content, contentType: CONTENT_TYPES[exportFormat], extension: exportFormat };
+}
@@ -0,0 +1,27 @@
+export { analyticsCache } from './cache';
+export { MAX_RANGE_DAYS, schoolYearRange, type AnalyticsRange } from './range';
+export {
+  COVERAGE_VIEW_MODES,
+  getCurriculumHeatmap,
+  type CoverageFilters,
+  type CurriculumHeatmap,
+} from './curriculumCoverage';
+export { getSchoolCoverage, type SchoolCoverage } from './schoolCoverage';
+export {
+  BALANCE_INTERVALS,
+  getStrandBalance,
+  type StrandBalance,
+  type StrandBalanceFilters,
+} from './strandBalance';
+export { getStudentEngagement, type StudentEngagement } from './studentEngagement';
+export {
+  EXPORT_FORMATS,
+  EXPORT_TYPES,
+  heatmapTable,
+  renderExport,
+  strandBalanceTable,
+  studentEngagementTable,
+  type AnalyticsTable,
+  type ExportFormat,
+  type ExportType,
+} from './export';
@@ -0,0 +1,40 @@
+import { addDays, format, startOfISOWeek } from 'date-fns';
+
+export interface AnalyticsRange {
+  from: Date;
+  to: Date;
+}
+
+/** Longest range a report may cover, to keep heatmaps and exports a sane size */
+export const MAX_RANGE_DAYS = 400;
+
+/**
+ * The school year containing `now`: September 1 to June 30. August counts as
+ * the start of the coming year, when teachers are planning for it.
+ */
+export function schoolYearRange(now: Date = new Date()): AnalyticsRange {
+  const startYear = now.getMonth() >= 7 ? now.getFullYear() : now.getFullYear() - 1;
+  return {
+    from: new Date(startYear, 8, 1),
+    to: new Date(startYear + 1, 5, 30, 23, 59, 59, 999),
+  };
+}
+
+/** Monday of the date's week, as yyyy-MM-dd */
+export function weekKey(date: Date): string {
+  return format(startOfISOWeek(date), 'yyyy-MM-dd');
+}
+
+/** yyyy-MM of the date */
+export function monthKey(date: Date): string {
+  return format(date, 'yyyy-MM');
+}
+
+/** Week keys from the week containing `from` to the week containing `to` */
+export function weeksInRange({ from, to }: AnalyticsRange): string[] {
+  const weeks: string[] = [];
+  for (let day = startOfISOWeek(from); day <= to; day = addDays(day, 7)) {
+    weeks.push(format(day, 'yyyy-MM-dd'));
+  }
+  return weeks;
+}
@@ -0,0 +1,92 @@
+import { prisma } from '../../prisma';
+import {
+  CoverageFilters,
+  CoverageViewMode,
+  ExpectationHit,
+  HeatmapExpectation,
+  loadExpectations,
+  loadHits,
+} from './curriculumCoverage';
+
+export interface SchoolCoverageOutcome extends HeatmapExpectation {
+  /** Number of the school's teachers who planned or taught the expectation */
+  teacherCount: number;
+}
+
+/**
+ * Curriculum coverage across a school's teachers. Only counts are reported:
+ * nothing identifies a teacher or a student.
+ */
+export interface SchoolCoverage {
+  outcomes: SchoolCoverageOutcome[];
+  metadata: {
+    viewMode: CoverageViewMode;
+    from: Date;
+    to: Date;
+    teacherCount: number;
+    /** Teachers with at least one lesson or daybook entry in the range */
+    activeTeacherCount: number;
+    totalOutcomes: number;
+    coveredOutcomes: number;
+    coveragePercentage: number;
+  };
+}
+
+/**
+ * Count, for each expectation, how many teachers covered it at least once.
+ */
+export function buildSchoolCoverage(
+  expectations: HeatmapExpectation[],
+  hitsByTeacher: ExpectationHit[][],
+  filters: CoverageFilters,
+): SchoolCoverage {
+  const teacherCounts = new Map<string, number>();
+  for (const hits of hitsByTeacher) {
+    for (const id of new Set(hits.map((hit) => hit.expectationId))) {
+      teacherCounts.set(id, (teacherCounts.get(id) ?? 0) + 1);
+    }
+  }
+
+  const outcomes = expectations.map((expectation) => ({
+    ...expectation,
+    teacherCount: teacherCounts.get(expectation.id) ?? 0,
+  }));
+  const coveredOutcomes = outcomes.filter((outcome) => outcome.teacherCount > 0).length;
+
+  return {
+    outcomes,
+    metadata: {
+      viewMode: filters.viewMode,
+      from: filters.from,
+      to: filters.to,
+      teacherCount: hitsByTeacher.length,
+      activeTeacherCount: hitsByTeacher.filter((hits) => hits.length > 0).length,
+      totalOutcomes: outcomes.length,
+      coveredOutcomes,
+      coveragePercentage: outcomes.length
+        ? Math.round((coveredOutcomes / outcomes.length) * 100)
+        : 0,
+    },
+  };
+}
+
+/**
+ * Aggregated coverage for every teacher on the school's staff.
+ */
+export async function getSchoolCoverage(
+  schoolId: number,
+  filters: CoverageFilters,
+): Promise<SchoolCoverage> {
+  const staff = await prisma.schoolMembership.findMany({
+    where: { schoolId, role: 'TEACHER' },
+    select: { userId: true },
+  });
+
+  const hitsByTeacher: ExpectationHit[][] = [];
+  for (const { userId } of staff) {
+    hitsByTeacher.push(await loadHits(userId, filters));
+  }
+
+  const expectations = await loadExpectations(hitsByTeacher.flat(), filters);
+  return buildSchoolCoverage(expectations, hitsByTeacher, filters);
+}
@@ -0,0 +1,127 @@
+import { prisma } from '../../prisma';
+import { AnalyticsRange, monthKey, weekKey } from './range';
+
+export const BALANCE_INTERVALS = ['week', 'month'] as const;
+export type BalanceInterval = (typeof BALANCE_INTERVALS)[number];
+
+export interface StrandBalanceFilters extends AnalyticsRange {
+  interval: BalanceInterval;
+  subject?: string;
+  grade?: number;
+}
+
+export interface BalanceLesson {
+  date: Date;
+  duration: number;
+  /** Strand labels of the lesson's expectations, one per expectation */
+  strands: string[];
+}
+
+export interface StrandBalance {
+  interval: BalanceInterval;
+  strands: string[];
+  /** Minutes per strand in each week or month */
+  periods: { period: string; minutes: Record<string, number> }[];
+  totals: { strand: string; lessons: number; minutes: number; percentage: number }[];
+  /** Lesson minutes not linked to any expectation */
+  unlinkedMinutes: number;
+}
+
+/**
+ * Spread lesson time over the curriculum strands the lessons address. A
+ * lesson's minutes are split evenly across the distinct strands of its
+ * expectations.
+ */
+export function buildStrandBalance(
+  lessons: BalanceLesson[],
+  interval: BalanceInterval,
+): StrandBalance {
+  const periodKey = interval === 'week' ? weekKey : monthKey;
+  const periods = new Map<string, Record<string, number>>();
+  const totals = new Map<string, { lessons: number; minutes: number }>();
+  let unlinkedMinutes = 0;
+
+  for (const lesson of lessons) {
+    const strands = [...new Set(lesson.strands)];
+    if (strands.length === 0) {
+      unlinkedMinutes += lesson.duration;
+      continue;
+    }
+
+    const key = periodKey(lesson.date);
+    const period = periods.get(key) ?? {};
+    periods.set(key, period);
+
+    const share = lesson.duration / strands.length;
+    for (const strand of strands) {
+      period[strand] = (period[strand] ?? 0) + share;
+      const total = totals.get(strand) ?? { lessons: 0, minutes: 0 };
+      total.lessons += 1;
+      total.minutes += share;
+      totals.set(strand, total);
+    }
+  }
+
+  const linkedMinutes = [...totals.values()].reduce((sum, total) => sum + total.minutes, 0);
+  const round = (minutes: number) => Math.round(minutes);
+
+  return {
+    interval,
+    strands: [...totals.keys()].sort(),
+    periods: [...periods.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([period, minutes]) => ({
+        period,
+        minutes: Object.fromEntries(
+          Object.entries(minutes).map(([strand, value]) => [strand, round(value)]),
+        ),
+      })),
+    totals: [...totals.entries()]
+      .map(([strand, total]) => ({
+        strand,
+        lessons: total.lessons,
+        minutes: round(total.minutes),
+        percentage: linkedMinutes ? Math.round((total.minutes / linkedMinutes) * 100) : 0,
+      }))
+      .sort((a, b) => b.minutes - a.minutes),
+    unlinkedMinutes,
+  };
+}
+
+/**
+ * Time spent on each curriculum strand over the range, from the teacher's
+ * lesson plans. Without a subject filter, strands are prefixed with their
+ * subject so that like-named strands of different subjects stay apart.
+ */
+export async function getStrandBalance(
+  userId: number,
+  filters: StrandBalanceFilters,
+): Promise<StrandBalance> {
+  const lessons = await prisma.eTFOLessonPlan.findMany({
+    where: {
+      userId,
+      date: { gte: filters.from, lte: filters.to },
+      ...(filters.subject && { subject: filters.subject }),
+      ...(filters.grade !== undefined && { grade: filters.grade }),
+    },
+    select: {
+      date: true,
+      duration: true,
+      expectations: {
+        select: { expectation: { select: { subject: true, strand: true } } },
+      },
+    },
+    orderBy: { date: 'asc' },
+  });
+
+  return buildStrandBalance(
+    lessons.map((lesson) => ({
+      date: lesson.date,
+      duration: lesson.duration,
+      strands: lesson.expectations.map(({ expectation }) =>
+        filters.subject ? expectation.strand : `${expectation.subject}: ${expectation.strand}`,
+      ),
+    })),
+    filters.interval,
+  );
+}
@@ -0,0 +1,127 @@
+import { prisma } from '../../prisma';
+import { AnalyticsRange, weekKey, weeksInRange } from './range';
+
+export type EngagementLevel = 'high' | 'typical' | 'low' | 'none';
+
+export interface EngagementStudent {
+  id: number;
+  firstName: string;
+  lastName: string;
+  grade: number;
+  reflections: { createdAt: Date; date: Date | null; emoji: string | null }[];
+  artifacts: { createdAt: Date }[];
+}
+
+export interface StudentEngagementRow {
+  studentId: number;
+  name: string;
+  grade: number;
+  reflections: number;
+  artifacts: number;
+  /** Reflections plus artifacts per week of the range so far */
+  activityPerWeek: number;
+  weekly: Record<string, number>;
+  moods: Record<string, number>;
+  lastActivity: Date | null;
+  level: EngagementLevel;
+  /** No reflection or artifact in the last two weeks */
+  needsAttention: boolean;
+}
+
+export interface StudentEngagement {
+  weeks: string[];
+  classAveragePerWeek: number;
+  students: StudentEngagementRow[];
+}
+
+const QUIET_DAYS = 14;
+
+/**
+ * Per-student activity from reflections and artifacts, with each student's
+ * level relative to the class average.
+ */
+export function buildStudentEngagement(
+  students: EngagementStudent[],
+  range: AnalyticsRange,
+  now: Date = new Date(),
+): StudentEngagement {
+  // Future weeks of the range would drag every average down
+  const weeks = weeksInRange({ from: range.from, to: range.to < now ? range.to : now });
+  const weekCount = Math.max(weeks.length, 1);
+  const quietSince = new Date(now.getTime() - QUIET_DAYS * 24 * 60 * 60 * 1000);
+
+  const rows = students.map((student) => {
+    const dates = [
+      ...student.reflections.map((reflection) => reflection.date ?? reflection.createdAt),
+      ...student.artifacts.map((artifact) => artifact.createdAt),
+    ];
+    const weekly: Record<string, number> = {};
+    for (const date of dates) {
+      const week = weekKey(date);
+      weekly[week] = (weekly[week] ?? 0) + 1;
+    }
+    const moods: Record<string, number> = {};
+    for (const { emoji } of student.reflections) {
+      if (emoji) moods[emoji] = (moods[emoji] ?? 0) + 1;
+    }
+    const lastActivity = dates.length
+      ? new Date(Math.max(...dates.map((date) => date.getTime())))
+      : null;
+
+    return {
+      studentId: student.id,
+      name: `${student.firstName} ${student.lastName}`,
+      grade: student.grade,
+      reflections: student.reflections.length,
+      artifacts: student.artifacts.length,
+      activityPerWeek: Math.round((dates.length / weekCount) * 10) / 10,
+      weekly,
+      moods,
+      lastActivity,
+      level: 'none' as EngagementLevel,
+      needsAttention: !lastActivity || lastActivity < quietSince,
+    };
+  });
+
+  const classAveragePerWeek = rows.length
+    ? Math.round((rows.reduce((sum, row) => sum + row.activityPerWeek, 0) / rows.length) * 10) / 10
+    : 0;
+  for (const row of rows) {
+    if (row.activityPerWeek === 0) row.level = 'none';
+    else if (row.activityPerWeek >= classAveragePerWeek * 1.25) row.level = 'high';
+    else if (row.activityPerWeek < classAveragePerWeek * 0.5) row.level = 'low';
+    else row.level = 'typical';
+  }
+
+  return { weeks, classAveragePerWeek, students: rows };
+}
+
+/**
+ * Engagement of the teacher's students over the range.
+ */
+export async function getStudentEngagement(
+  userId: number,
+  range: AnalyticsRange,
+): Promise<StudentEngagement> {
+  const createdAt = { gte: range.from, lte: range.to };
+  const students = await prisma.student.findMany({
+    where: { userId },
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      grade: true,
+      reflections: {
+        where: { createdAt },
+        select: { createdAt: true, date: true, emoji: true },
+      },
+      artifacts: {
+        where: { createdAt },
+        select: { createdAt: true },
+      },
+    },
+    orderBy: [{ lastName: 'asc' }, { firstName: 'asc' }],
+  });
+
+  return buildStudentEngagement(students, range);
+}
@@ -1,35 +1,54 @@
-// Stub for AnthropicService to fix missing import
-export class AnthropicService {
-  constructor() {}
+import { z } from 'zod';
+import { llmGateway } from './llm';
+
+const GeneratedActivitySchema = z.object({
+  title: z.string(),
+  description: z.string(),
+  duration: z.coerce.number(),
+  materials: z.array(z.string()).default([]),
+  learningGoals: z.array(z.string()).default([]),
+});
 
-  async generateActivity(_params: unknown): Promise<{
+/**
+ * Completion helper kept for the activity generator. Requests go through the
+ * LLM gateway, so the provider is whatever the 'general' feature resolves to
+ * (set LLM_PROVIDER=anthropic to use Claude).
+ */
+export class AnthropicService {
+  async generateActivity(params: unknown): Promise<{
     title: string;
     description: string;
     duration: number;
     materials: string[];
     learningGoals: string[];
   }> {
-    // Stub implementation
+    const activity = await llmGateway.completeJSON('general', {
+      system: 'You are an experienced elementary teacher designing classroom activities.',
+      prompt: `Design a classroom activity for these requirements and return ONLY a JSON object with "title", "description", "duration" (minutes), "materials" and "learningGoals":\n\n${JSON.stringify(params, null, 2)}`,
+      schema: GeneratedActivitySchema,
+    });
     return {
-      title: 'Generated Activity',
-      description: 'This is a stub implementation',
-      duration: 30,
-      materials: [],
-      learningGoals: [],
+      title: activity.title,
+      description: activity.description,
+      duration: activity.duration,
+      materials: activity.materials,
+      learningGoals: activity.learningGoals,
     };
   }
 
-  async generateResponse(_prompt: string): Promise<string> {
-    // Stub implementation
-    return 'This is a stub response';
+  async generateResponse(prompt: string): Promise<string> {
+    return llmGateway.complete('general', { prompt });
   }
 
-  async generateCompletion(_params: {
+  async generateCompletion(params: {
     prompt: string;
     systemPrompt?: string;
     temperature?: number;
   }): Promise<string> {
-    // Stub implementation
-    return 'This is a stub completion response';
+    return llmGateway.complete('general', {
+      system: params.systemPrompt,
+      prompt: params.prompt,
+      temperature: params.temperature,
+    });
   }
 }
@@ -0,0 +1,242 @@
+/**
+ * Assessment records: a student's ETFO achievement level against one
+ * curriculum expectation, from observation, conversation or product
+ * (triangulated evidence). Lessons with an assessment type get a recording
+ * sheet for the whole class, and a student's records roll up into per-strand
+ * progress.
+ */
+
+import type { Assessment } from '@teaching-engine/database';
+import { prisma } from '../prisma';
+
+export const ACHIEVEMENT_LEVELS = ['R', '1', '2', '3', '4'] as const;
+export const EVIDENCE_TYPES = ['observation', 'conversation', 'product'] as const;
+export const ASSESSMENT_PURPOSES = ['diagnostic', 'formative', 'summative'] as const;
+
+export type AchievementLevel = (typeof ACHIEVEMENT_LEVELS)[number];
+export type EvidenceType = (typeof EVIDENCE_TYPES)[number];
+
+/** A change in average level of at least this much counts as a trend */
+const TREND_THRESHOLD = 0.5;
+
+export interface StrandProgress {
+  subject: string;
+  strand: string;
+  count: number;
+  average: number;
+  latestLevel: string;
+  trend: 'improving' | 'steady' | 'declining' | null;
+  /** Average level per month, oldest first */
+  points: { month: string; average: number; count: number }[];
+}
+
+export interface ProgressSummary {
+  totalAssessments: number;
+  averageScore: number | null;
+  assessmentsByType: Record<string, number>;
+  strands: StrandProgress[];
+}
+
+export interface RecordingSheetEntry {
+  studentId: number;
+  expectationId: string;
+  /** null clears the student's record for that expectation */
+  level: AchievementLevel | null;
+  evidenceType: EvidenceType;
+  notes?: string | null;
+}
+
+export class AssessmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AssessmentError';
+  }
+}
+
+/**
+ * Levels as numbers for averaging. R (below level 1) counts as 0.
+ */
+export function levelValue(level: string): number {
+  return level === 'R' ? 0 : Number(level);
+}
+
+function round(value: number) {
+  return Math.round(value * 10) / 10;
+}
+
+function average(levels: string[]) {
+  return levels.reduce((sum, level) => sum + levelValue(level), 0) / levels.length;
+}
+
+type ProgressRecord = Pick<Assessment, 'date' | 'level' | 'evidenceType'> & {
+  expectation: { subject: string; strand: string };
+};
+
+/**
+ * Roll a student's records up into per-strand averages and trends. The trend
+ * compares the earlier half of a strand's records with the later half.
+ */
+export function summarizeProgress(records: ProgressRecord[]): ProgressSummary {
+  const sorted = [...records].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const assessmentsByType: Record<string, number> = {};
+  const byStrand = new Map<string, ProgressRecord[]>();
+
+  for (const record of sorted) {
+    assessmentsByType[record.evidenceType] = (assessmentsByType[record.evidenceType] ?? 0) + 1;
+    const key = `${record.expectation.subject}|${record.expectation.strand}`;
+    byStrand.set(key, [...(byStrand.get(key) ?? []), record]);
+  }
+
+  const strands = [...byStrand.values()].map((strandRecords): StrandProgress => {
+    const levels = strandRecords.map((r) => r.level);
+    const months = new Map<string, string[]>();
+    for (const record of strandRecords) {
+      const month = record.date.toISOString().slice(0, 7);
+      months.set(month, [...(months.get(month) ?? []), record.level]);
+    }
+
+    let trend: StrandProgress['trend'] = null;
+    if (strandRecords.length >= 2) {
+      const half = Math.floor(levels.length / 2);
+      const change = average(levels.slice(levels.length - half)) - average(levels.slice(0, half));
+      trend =
+        change >= TREND_THRESHOLD
+          ? 'improving'
+          : change <= -TREND_THRESHOLD
+            ? 'declining'
+            : 'steady';
+    }
+
+    return {
+      subject: strandRecords[0].expectation.subject,
+      strand: strandRecords[0].expectation.strand,
+      count: strandRecords.length,
+      average: round(average(levels)),
+      latestLevel: levels[levels.length - 1],
+      trend,
+      points: [...months.entries()].map(([month, monthLevels]) => ({
+        month,
+        average: round(average(monthLevels)),
+        count: monthLevels.length,
+      })),
+    };
+  });
+
+  return {
+    totalAssessments: records.length,
+    averageScore: records.length > 0 ? round(average(records.map((r) => r.level))) : null,
+    assessmentsByType,
+    strands: strands.sort(
+      (a, b) => a.subject.localeCompare(b.subject) || a.strand.localeCompare(b.strand),
+    ),
+  };
+}
+
+export async function getStudentProgress(studentId: number) {
+  const records = await prisma.assessment.findMany({
+    where: { studentId },
+    select: {
+      date: true,
+      level: true,
+      evidenceType: true,
+      expectation: { select: { subject: true, strand: true } },
+    },
+  });
+  return summarizeProgress(records);
+}
+
+/**
+ * Everything needed to record a lesson's assessments: the lesson's
+ * expectations, the teacher's current class and what is already recorded.
+ * Returns null when the lesson is not the teacher's.
+ */
+export async function getRecordingSheet(lessonPlanId: string, userId: number) {
+  const lesson = await prisma.eTFOLessonPlan.findFirst({
+    where: { id: lessonPlanId, userId },
+    include: {
+      expectations: { include: { expectation: true }, orderBy: { expectation: { code: 'asc' } } },
+    },
+  });
+  if (!lesson) return null;
+
+  const [students, records] = await Promise.all([
+    prisma.student.findMany({
+      where: { userId, archivedAt: null },
+      select: { id: true, firstName: true, lastName: true, grade: true },
+      orderBy: [{ grade: 'asc' }, { lastName: 'asc' }, { firstName: 'asc' }],
+    }),
+    prisma.assessment.findMany({ where: { lessonPlanId } }),
+  ]);
+
+  return {
+    lesson: {
+      id: lesson.id,
+      title: lesson.title,
+      date: lesson.date,
+      grade: lesson.grade,
+      subject: lesson.subject,
+      assessmentType: lesson.assessmentType,
+    },
+    expectations: lesson.expectations.map(({ expectation }) => ({
+      id: expectation.id,
+      code: expectation.code,
+      description: expectation.description,
+      strand: expectation.strand,
+    })),
+    students,
+    records,
+  };
+}
+
+/**
+ * Save a recording sheet. Records are dated with the lesson and carry its
+ * assessment type; saving the same student and expectation again replaces
+ * the earlier level.
+ */
+export async function saveRecordingSheet(
+  lessonPlanId: string,
+  userId: number,
+  entries: RecordingSheetEntry[],
+) {
+  const sheet = await getRecordingSheet(lessonPlanId, userId);
+  if (!sheet) return null;
+
+  const studentIds = new Set(sheet.students.map((s) => s.id));
+  const expectationIds = new Set(sheet.expectations.map((e) => e.id));
+  for (const entry of entries) {
+    if (!studentIds.has(entry.studentId)) {
+      throw new AssessmentError(`Student ${entry.studentId} is not in your class`);
+    }
+    if (!expectationIds.has(entry.expectationId)) {
+      throw new AssessmentError('Only the lesson’s expectations can be assessed on its sheet');
+    }
+  }
+
+  const purpose = sheet.lesson.assessmentType;
+  await prisma.$transaction(
+    entries.map((entry) => {
+      const key = {
+        lessonPlanId,
+        studentId: entry.studentId,
+        expectationId: entry.expectationId,
+      };
+      if (entry.level === null) {
+        return prisma.assessment.deleteMany({ where: key });
+      }
+      const fields = {
+        level: entry.level,
+        evidenceType: entry.evidenceType,
+        notes: entry.notes ?? null,
+        date: sheet.lesson.date,
+        purpose,
+      };
+      return prisma.assessment.upsert({
+        where: { lessonPlanId_studentId_expectationId: key },
+        create: { ...key, ...fields },
+        update: fields,
+      });
+    }),
+  );
+
+  return prisma.assessment.findMany({ where: { lessonPlanId } });
+}
@@ -4,6 +4,7 @@
  */
 
 import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import { PrismaClient } from '@teaching-engine/database';
 import logger from '../logger';
@@ -22,15 +23,16 @@ export interface AuthUser {
 
 export interface AuthResult {
   user: AuthUser;
-  token: string;
 }
 
 /**
- * Generate JWT token for user
+ * Generate JWT token for user. Every token carries the id of the session it
+ * was issued for (`sid`), so revoking the session rejects it.
  */
 export async function generateAuthToken(
   userId: string,
   email: string,
+  sessionId: string,
   expiresIn: string = TOKEN_EXPIRY,
 ): Promise<string> {
   const secret = process.env.JWT_SECRET;
@@ -38,8 +40,13 @@ export async function generateAuthToken(
     throw new Error('JWT_SECRET environment variable is required');
   }
 
-  const payload = { userId, email };
-  return jwt.sign(payload, secret as jwt.Secret, { expiresIn } as jwt.SignOptions);
+  return jwt.sign(
+    { userId, email, sid: sessionId },
+    secret as jwt.Secret,
+    {
+      expiresIn,
+    } as jwt.SignOptions,
+  );
 }
 
 /**
@@ -49,6 +56,14 @@ export async function hashPassword(password: string): Promise<string> {
   return bcrypt.hash(password, SALT_ROUNDS);
 }
 
+/**
+ * One-off password for an admin-created account. It meets the strength rules
+ * and has to be replaced at first sign-in.
+ */
+export function generateTemporaryPassword(): string {
+  return `${crypto.randomBytes(9).toString('base64url')}Aa1!`;
+}
+
 /**
  * Validate password strength
  */
@@ -83,7 +98,8 @@ export async function verifyToken(token: string): Promise<{ userId: string; emai
 }
 
 /**
- * Authenticate user with email and password
+ * Check a user's email and password. Tokens are only issued with a session,
+ * see sessionService.startSession.
  */
 export async function authenticate(
   email: string,
@@ -107,9 +123,6 @@ export async function authenticate(
     throw new Error('Invalid credentials');
   }
 
-  // Generate token
-  const token = await generateAuthToken(user.id.toString(), user.email);
-
   // Return user without password
   const { password: _, ...userWithoutPassword } = user;
 
@@ -118,7 +131,6 @@ export async function authenticate(
       ...userWithoutPassword,
       id: userWithoutPassword.id.toString(),
     } as AuthUser,
-    token,
   };
 }
 
@@ -142,7 +154,9 @@ export async function checkPermissions(
   // Check role-based permissions
   const rolePermissions: Record<string, string[]> = {
     USER: ['read'],
-    MODERATOR: ['read', 'write'],
+    MODERATOR: ['read', 'write', 'resources.approve'],
+    SCHOOL_ADMIN: ['read', 'write', 'resources.approve', 'school.manage'],
+    BOARD_ADMIN: ['read', 'write', 'resources.approve', 'school.manage', 'board.manage'],
     ADMIN: ['read', 'write', 'delete', 'admin.access'],
   };
 
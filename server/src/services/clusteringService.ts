@@ -1,5 +1,5 @@
 import { embeddingService } from './embeddingService';
-import { openai } from './llmService';
+import { llmGateway } from './llm';
 import BaseService from './base/BaseService';
 
 export interface ClusterResult {
@@ -415,8 +415,8 @@ export class ClusteringService extends BaseService {
     }[],
     _importId: string,
   ): Promise<void> {
-    if (!openai) {
-      this.logger.warn('OpenAI not configured, skipping theme generation');
+    if (!llmGateway.isAvailable('curriculum_import')) {
+      this.logger.warn('No LLM provider configured, skipping theme generation');
       return;
     }
 
@@ -436,14 +436,13 @@ ${expectationList}
 
 Theme name:`;
 
-        const response = await openai.chat.completions.create({
-          model: 'gpt-3.5-turbo',
-          messages: [{ role: 'user', content: prompt }],
+        const response = await llmGateway.complete('curriculum_import', {
+          prompt,
           temperature: 0.3,
-          max_tokens: 50,
+          maxTokens: 50,
         });
 
-        const suggestedTheme = response.choices[0]?.message?.content?.trim();
+        const suggestedTheme = response.trim();
         if (suggestedTheme) {
           cluster.name = suggestedTheme;
         }
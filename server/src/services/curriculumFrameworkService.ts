@@ -0,0 +1,441 @@
+/**
+ * Curriculum frameworks: the published documents expectation codes belong
+ * to, e.g. Ontario Mathematics 1-8 (2020). The same code can mean different
+ * things in different provinces or revisions, so codes are unique per
+ * framework. When a province releases a revision, a long-range plan can be
+ * moved onto it: every expectation linked under the plan is matched by code
+ * to the new framework and the links are re-pointed.
+ */
+
+import type { CurriculumFramework } from '@teaching-engine/database';
+import { prisma } from '../prisma';
+import { checkPermissions } from './authService';
+
+export class FrameworkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FrameworkError';
+  }
+}
+
+export interface FrameworkInput {
+  jurisdiction: string;
+  subject: string;
+  gradeMin: number;
+  gradeMax: number;
+  version: string;
+  language?: string;
+  title: string;
+  effectiveFrom?: Date | null;
+  effectiveTo?: Date | null;
+  supersedesId?: string | null;
+}
+
+export interface FrameworkFilters {
+  jurisdiction?: string;
+  subject?: string;
+  grade?: number;
+  language?: string;
+}
+
+export interface CrosswalkExpectation {
+  id: string;
+  code: string;
+  description: string;
+  strand: string;
+  // Only set when comparing a package against what it would overwrite
+  descriptionFr?: string | null;
+  strandFr?: string | null;
+  substrand?: string | null;
+  substrandFr?: string | null;
+  grade?: number;
+  subject?: string;
+}
+
+export interface Crosswalk {
+  unchanged: number;
+  changed: Array<{ code: string; from: CrosswalkExpectation; to: CrosswalkExpectation }>;
+  removed: CrosswalkExpectation[];
+  added: CrosswalkExpectation[];
+}
+
+export interface LinkCounts {
+  /** Links re-pointed to the matching expectation in the new framework */
+  moved: number;
+  /** Links dropped because the owner already links the matching expectation */
+  merged: number;
+  /** Links left on the old expectation: no match, or an assessment already exists */
+  kept: number;
+}
+
+export interface FrameworkMigration {
+  applied: boolean;
+  planId: string;
+  from: CurriculumFramework | null;
+  to: CurriculumFramework;
+  crosswalk: Crosswalk;
+  links: LinkCounts;
+  unmatched: CrosswalkExpectation[];
+}
+
+interface Link {
+  ownerId: string;
+  expectationId: string;
+}
+
+interface LinkMoves {
+  move: Array<Link & { to: string }>;
+  merge: Link[];
+  kept: number;
+}
+
+const expectationFields = { id: true, code: true, description: true, strand: true } as const;
+
+/** Codes are compared ignoring case and whitespace: "b 2.1" matches "B2.1" */
+export function normalizeCode(code: string) {
+  return code.replace(/\s+/g, '').toUpperCase();
+}
+
+function normalizeText(text: string | null | undefined) {
+  return (text ?? '').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+const COMPARED_TEXT = [
+  'description',
+  'descriptionFr',
+  'strand',
+  'strandFr',
+  'substrand',
+  'substrandFr',
+  'subject',
+] as const;
+
+function sameExpectation(a: CrosswalkExpectation, b: CrosswalkExpectation) {
+  return (
+    COMPARED_TEXT.every((field) => normalizeText(a[field]) === normalizeText(b[field])) &&
+    a.grade === b.grade
+  );
+}
+
+/**
+ * Compare two versions of a curriculum by expectation code. A code present in
+ * both with different wording, strand, substrand, grade or subject counts as
+ * changed.
+ */
+export function compareExpectations(
+  from: CrosswalkExpectation[],
+  to: CrosswalkExpectation[],
+): Crosswalk {
+  const targets = new Map(to.map((e) => [normalizeCode(e.code), e]));
+  const crosswalk: Crosswalk = { unchanged: 0, changed: [], removed: [], added: [] };
+  const matched = new Set<string>();
+
+  for (const expectation of from) {
+    const key = normalizeCode(expectation.code);
+    const target = targets.get(key);
+    if (!target) {
+      crosswalk.removed.push(expectation);
+      continue;
+    }
+    matched.add(key);
+    if (sameExpectation(expectation, target)) {
+      crosswalk.unchanged++;
+    } else {
+      crosswalk.changed.push({ code: target.code, from: expectation, to: target });
+    }
+  }
+
+  crosswalk.added = to.filter((e) => !matched.has(normalizeCode(e.code)));
+  return crosswalk;
+}
+
+/**
+ * Work out which links move to the new expectation and which collapse into a
+ * link the owner already has. Links without a mapping are kept as they are;
+ * links mapped to themselves are already on the new framework.
+ */
+export function planLinkMoves(links: Link[], mapping: Map<string, string>): LinkMoves {
+  const existing = new Set(links.map((l) => `${l.ownerId}:${l.expectationId}`));
+  const moves: LinkMoves = { move: [], merge: [], kept: 0 };
+
+  for (const link of links) {
+    const to = mapping.get(link.expectationId);
+    if (!to) {
+      moves.kept++;
+      continue;
+    }
+    if (to === link.expectationId) continue;
+    const key = `${link.ownerId}:${to}`;
+    if (existing.has(key)) {
+      moves.merge.push(link);
+    } else {
+      existing.add(key);
+      moves.move.push({ ...link, to });
+    }
+  }
+
+  return moves;
+}
+
+export async function listFrameworks(filters: FrameworkFilters = {}) {
+  return prisma.curriculumFramework.findMany({
+    where: {
+      ...(filters.jurisdiction && { jurisdiction: filters.jurisdiction }),
+      ...(filters.subject && { subject: filters.subject }),
+      ...(filters.language && { language: filters.language }),
+      ...(filters.grade !== undefined && {
+        gradeMin: { lte: filters.grade },
+        gradeMax: { gte: filters.grade },
+      }),
+    },
+    include: { _count: { select: { expectations: true } } },
+    orderBy: [{ jurisdiction: 'asc' }, { subject: 'asc' }, { version: 'desc' }],
+  });
+}
+
+export async function getFramework(id: string) {
+  const framework = await prisma.curriculumFramework.findUnique({ where: { id } });
+  if (!framework) {
+    throw new FrameworkError('Framework not found');
+  }
+  return framework;
+}
+
+/**
+ * Frameworks are shared by every teacher, so only admins add or replace them
+ */
+export async function canManageFrameworks(userId: number): Promise<boolean> {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { role: true } });
+  return !!user && checkPermissions({ role: user.role }, 'admin.access');
+}
+
+function findFramework(input: FrameworkInput) {
+  return prisma.curriculumFramework.findUnique({
+    where: {
+      jurisdiction_subject_gradeMin_gradeMax_version_language: {
+        jurisdiction: input.jurisdiction,
+        subject: input.subject,
+        gradeMin: input.gradeMin,
+        gradeMax: input.gradeMax,
+        version: input.version,
+        language: input.language ?? 'en',
+      },
+    },
+  });
+}
+
+/**
+ * Find or create the framework for a jurisdiction, subject, grade band,
+ * version and language. Imports use this so re-importing a document reuses its framework.
+ */
+export async function ensureFramework(input: FrameworkInput) {
+  return (await findFramework(input)) ?? prisma.curriculumFramework.create({ data: input });
+}
+
+export async function createFramework(input: FrameworkInput) {
+  if (input.gradeMin > input.gradeMax) {
+    throw new FrameworkError('Lowest grade must not be above highest grade');
+  }
+  if (input.supersedesId) {
+    await getFramework(input.supersedesId);
+  }
+  if (await findFramework(input)) {
+    throw new FrameworkError(
+      `${input.jurisdiction} ${input.subject} ${input.gradeMin}-${input.gradeMax} ${input.version} (${input.language ?? 'en'}) already exists`,
+    );
+  }
+  return prisma.curriculumFramework.create({ data: input });
+}
+
+async function frameworkExpectations(frameworkId: string): Promise<CrosswalkExpectation[]> {
+  return prisma.curriculumExpectation.findMany({
+    where: { frameworkId },
+    select: expectationFields,
+    orderBy: { code: 'asc' },
+  });
+}
+
+/** Changed, removed and added expectations between two framework versions */
+export async function buildCrosswalk(fromId: string, toId: string) {
+  const [from, to] = await Promise.all([getFramework(fromId), getFramework(toId)]);
+  const [fromExpectations, toExpectations] = await Promise.all([
+    frameworkExpectations(fromId),
+    frameworkExpectations(toId),
+  ]);
+  return { from, to, ...compareExpectations(fromExpectations, toExpectations) };
+}
+
+/**
+ * Move a long-range plan, and the units, lessons, daybook entries and
+ * assessments under it, onto another framework. Without `apply` nothing is
+ * written and the result is a preview of what would change.
+ */
+export async function migratePlanToFramework(
+  userId: number,
+  planId: string,
+  toFrameworkId: string,
+  apply: boolean,
+): Promise<FrameworkMigration> {
+  const plan = await prisma.longRangePlan.findFirst({
+    where: { id: planId, userId },
+    include: { framework: true },
+  });
+  if (!plan) {
+    throw new FrameworkError('Long-range plan not found');
+  }
+  const to = await getFramework(toFrameworkId);
+  if (plan.frameworkId === to.id) {
+    throw new FrameworkError('The plan already uses this framework');
+  }
+
+  const underPlan = { unitPlan: { longRangePlanId: planId } };
+  const [planLinks, unitLinks, lessonLinks, daybookLinks, assessments] = await Promise.all([
+    prisma.longRangePlanExpectation.findMany({ where: { longRangePlanId: planId } }),
+    prisma.unitPlanExpectation.findMany({ where: { unitPlan: { longRangePlanId: planId } } }),
+    prisma.eTFOLessonPlanExpectation.findMany({ where: { lessonPlan: underPlan } }),
+    prisma.daybookEntryExpectation.findMany({
+      where: { daybookEntry: { lessonPlan: underPlan } },
+    }),
+    prisma.assessment.findMany({
+      where: { lessonPlan: underPlan },
+      select: { id: true, lessonPlanId: true, studentId: true, expectationId: true },
+    }),
+  ]);
+
+  const linkedIds = [
+    ...new Set(
+      [...planLinks, ...unitLinks, ...lessonLinks, ...daybookLinks, ...assessments].map(
+        (l) => l.expectationId,
+      ),
+    ),
+  ];
+  const linked = await prisma.curriculumExpectation.findMany({
+    where: { id: { in: linkedIds } },
+    select: { ...expectationFields, frameworkId: true },
+  });
+  const targets = await frameworkExpectations(to.id);
+  const targetByCode = new Map(targets.map((e) => [normalizeCode(e.code), e]));
+
+  const mapping = new Map<string, string>();
+  const unmatched: CrosswalkExpectation[] = [];
+  for (const { frameworkId, ...expectation } of linked) {
+    if (frameworkId === to.id) {
+      mapping.set(expectation.id, expectation.id);
+      continue;
+    }
+    const target = targetByCode.get(normalizeCode(expectation.code));
+    if (target) {
+      mapping.set(expectation.id, target.id);
+    } else {
+      unmatched.push(expectation);
+    }
+  }
+
+  // Compare whole documents when the plan has a framework, otherwise just
+  // the expectations the plan actually uses
+  const crosswalk = compareExpectations(
+    plan.frameworkId
+      ? await frameworkExpectations(plan.frameworkId)
+      : linked.map(({ frameworkId: _frameworkId, ...e }) => e),
+    targets,
+  );
+
+  const plans = planLinkMoves(
+    planLinks.map((l) => ({ ownerId: l.longRangePlanId, expectationId: l.expectationId })),
+    mapping,
+  );
+  const units = planLinkMoves(
+    unitLinks.map((l) => ({ ownerId: l.unitPlanId, expectationId: l.expectationId })),
+    mapping,
+  );
+  const lessons = planLinkMoves(
+    lessonLinks.map((l) => ({ ownerId: l.lessonPlanId, expectationId: l.expectationId })),
+    mapping,
+  );
+  const daybook = planLinkMoves(
+    daybookLinks.map((l) => ({ ownerId: l.daybookEntryId, expectationId: l.expectationId })),
+    mapping,
+  );
+  // Assessments are evidence, so one that would collide with an existing
+  // record for the same lesson and student stays where it is
+  const assessmentIds = new Map(
+    assessments.map((a) => [`${a.lessonPlanId}|${a.studentId}:${a.expectationId}`, a.id]),
+  );
+  const assessed = planLinkMoves(
+    assessments.map((a) => ({
+      ownerId: `${a.lessonPlanId}|${a.studentId}`,
+      expectationId: a.expectationId,
+    })),
+    mapping,
+  );
+
+  const all = [plans, units, lessons, daybook, assessed];
+  const links: LinkCounts = {
+    moved: all.reduce((n, m) => n + m.move.length, 0),
+    merged: all.reduce((n, m) => n + m.merge.length, 0) - assessed.merge.length,
+    kept: all.reduce((n, m) => n + m.kept, 0) + assessed.merge.length,
+  };
+
+  if (apply) {
+    await prisma.$transaction(async (tx) => {
+      for (const { ownerId, expectationId } of plans.merge) {
+        await tx.longRangePlanExpectation.delete({
+          where: { longRangePlanId_expectationId: { longRangePlanId: ownerId, expectationId } },
+        });
+      }
+      for (const { ownerId, expectationId, to: target } of plans.move) {
+        await tx.longRangePlanExpectation.update({
+          where: { longRangePlanId_expectationId: { longRangePlanId: ownerId, expectationId } },
+          data: { expectationId: target },
+        });
+      }
+
+      for (const { ownerId, expectationId } of units.merge) {
+        await tx.unitPlanExpectation.delete({
+          where: { unitPlanId_expectationId: { unitPlanId: ownerId, expectationId } },
+        });
+      }
+      for (const { ownerId, expectationId, to: target } of units.move) {
+        await tx.unitPlanExpectation.update({
+          where: { unitPlanId_expectationId: { unitPlanId: ownerId, expectationId } },
+          data: { expectationId: target },
+        });
+      }
+
+      for (const { ownerId, expectationId } of lessons.merge) {
+        await tx.eTFOLessonPlanExpectation.delete({
+          where: { lessonPlanId_expectationId: { lessonPlanId: ownerId, expectationId } },
+        });
+      }
+      for (const { ownerId, expectationId, to: target } of lessons.move) {
+        await tx.eTFOLessonPlanExpectation.update({
+          where: { lessonPlanId_expectationId: { lessonPlanId: ownerId, expectationId } },
+          data: { expectationId: target },
+        });
+      }
+
+      for (const { ownerId, expectationId } of daybook.merge) {
+        await tx.daybookEntryExpectation.delete({
+          where: { daybookEntryId_expectationId: { daybookEntryId: ownerId, expectationId } },
+        });
+      }
+      for (const { ownerId, expectationId, to: target } of daybook.move) {
+        await tx.daybookEntryExpectation.update({
+          where: { daybookEntryId_expectationId: { daybookEntryId: ownerId, expectationId } },
+          data: { expectationId: target },
+        });
+      }
+
+      for (const { ownerId, expectationId, to: target } of assessed.move) {
+        await tx.assessment.update({
+          where: { id: assessmentIds.get(`${ownerId}:${expectationId}`) },
+          data: { expectationId: target },
+        });
+      }
+
+      await tx.longRangePlan.update({ where: { id: planId }, data: { frameworkId: to.id } });
+    });
+  }
+
+  return { applied: apply, planId, from: plan.framework, to, crosswalk, links, unmatched };
+}
@@ -1,11 +1,13 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 // import { embeddingService } from './embeddingService'; // Currently unused
 import BaseService from './base/BaseService';
-import { ImportStatus } from '@teaching-engine/database';
+import { ImportStatus, Prisma } from '@teaching-engine/database';
 // Import pdf-parse dynamically to avoid loading test files during module initialization
 let pdf: any;
 import mammoth from 'mammoth';
-import OpenAI from 'openai';
+import { z } from 'zod';
+import { llmGateway } from './llm';
+import { ensureFramework, FrameworkInput } from './curriculumFrameworkService';
 
 export interface ImportProgress {
   importId: string;
@@ -15,17 +17,187 @@ export interface ImportProgress {
   errors: string[];
 }
 
-export class CurriculumImportService extends BaseService {
-  private openai: OpenAI | null = null;
+const ParsedCurriculumChunkSchema = z.object({
+  subject: z.string().optional(),
+  grade: z.coerce.number().optional(),
+  expectations: z
+    .array(
+      z.object({
+        code: z.string().optional(),
+        type: z.string().optional(),
+        description: z.string().optional(),
+        descriptionFr: z.string().optional(),
+        strand: z.string().optional(),
+        strandFr: z.string().optional(),
+        substrand: z.string().optional(),
+        substrandFr: z.string().optional(),
+        domain: z.string().optional(),
+      }),
+    )
+    .default([]),
+});
+
+interface PresetSubject {
+  name: string;
+  framework: FrameworkInput;
+  expectations: Array<{
+    code: string;
+    type: 'overall' | 'specific';
+    description: string;
+    strand: string;
+    substrand?: string;
+    subject: string;
+    grade: number;
+  }>;
+}
 
+/**
+ * Known curriculum documents. Each subject belongs to its own framework, so
+ * loading a preset twice updates the same expectations instead of
+ * duplicating them.
+ */
+const CURRICULUM_PRESETS: Array<{ id: string; name: string; subjects: PresetSubject[] }> = [
+  {
+    id: 'pei-grade1-french',
+    name: 'PEI Grade 1 French Immersion (English School Board)',
+    subjects: [
+      {
+        name: 'Français Langue Première',
+        framework: {
+          jurisdiction: 'PE',
+          subject: 'Français Langue Première',
+          gradeMin: 1,
+          gradeMax: 6,
+          version: '2019',
+          language: 'fr',
+          title: 'Français langue première, 1re à 6e année',
+        },
+        expectations: [
+          {
+            code: 'CO1',
+            type: 'overall',
+            description: 'Comprendre des messages oraux en français',
+            strand: 'Communication orale',
+            subject: 'Français Langue Première',
+            grade: 1,
+          },
+          {
+            code: 'CO1.1',
+            type: 'specific',
+            description: 'Suivre des instructions orales simples',
+            strand: 'Communication orale',
+            substrand: 'Écoute',
+            subject: 'Français Langue Première',
+            grade: 1,
+          },
+        ],
+      },
+      {
+        name: 'Mathématiques',
+        framework: {
+          jurisdiction: 'PE',
+          subject: 'Mathématiques',
+          gradeMin: 1,
+          gradeMax: 6,
+          version: '2019',
+          language: 'fr',
+          title: 'Mathématiques, 1re à 6e année',
+        },
+        expectations: [
+          {
+            code: 'N1',
+            type: 'overall',
+            description: 'Comprendre les nombres de 0 à 20',
+            strand: 'Nombre',
+            subject: 'Mathématiques',
+            grade: 1,
+          },
+        ],
+      },
+    ],
+  },
+  {
+    id: 'ontario-grade1-english',
+    name: 'Ontario Grade 1 English',
+    subjects: [
+      {
+        name: 'Language',
+        framework: {
+          jurisdiction: 'ON',
+          subject: 'Language',
+          gradeMin: 1,
+          gradeMax: 8,
+          version: '2023',
+          title: 'Language, Grades 1-8',
+        },
+        expectations: [
+          {
+            code: '1.O1',
+            type: 'overall',
+            description: 'Listen in order to understand and respond appropriately',
+            strand: 'Oral Communication',
+            subject: 'Language',
+            grade: 1,
+          },
+        ],
+      },
+      {
+        name: 'Mathematics',
+        framework: {
+          jurisdiction: 'ON',
+          subject: 'Mathematics',
+          gradeMin: 1,
+          gradeMax: 8,
+          version: '2020',
+          title: 'Mathematics, Grades 1-8',
+        },
+        expectations: [
+          {
+            code: '1.N1',
+            type: 'overall',
+            description: 'Count to 50 and represent numbers to 20',
+            strand: 'Number Sense and Numeration',
+            subject: 'Mathematics',
+            grade: 1,
+          },
+        ],
+      },
+    ],
+  },
+  {
+    id: 'bc-grade1-core',
+    name: 'BC Grade 1 Core Curriculum',
+    subjects: [
+      {
+        name: 'English Language Arts',
+        framework: {
+          jurisdiction: 'BC',
+          subject: 'English Language Arts',
+          gradeMin: 1,
+          gradeMax: 9,
+          version: '2016',
+          title: 'English Language Arts, Grades 1-9',
+        },
+        expectations: [
+          {
+            code: 'ELA1-O1',
+            type: 'overall',
+            description: 'Use speaking and listening to interact with others',
+            strand: 'Oral Language',
+            subject: 'English Language Arts',
+            grade: 1,
+          },
+        ],
+      },
+    ],
+  },
+];
+
+export class CurriculumImportService extends BaseService {
   constructor() {
     super('CurriculumImportService');
-    // Only initialize OpenAI if we have an API key
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (apiKey) {
-      this.openai = new OpenAI({ apiKey });
-    } else {
-      this.logger.warn('OpenAI API key not found - AI features will be disabled');
+    if (!llmGateway.isAvailable('curriculum_import')) {
+      this.logger.warn('No LLM provider configured - AI features will be disabled');
     }
   }
 
@@ -54,25 +226,11 @@ export class CurriculumImportService extends BaseService {
 
       // Create curriculum expectations
       for (const subject of subjects) {
+        const frameworkId = await this.subjectFrameworkId(subject, metadata?.frameworkId ?? null);
+
         for (const expectation of subject.expectations) {
           try {
-            // Check if expectation already exists
-            const existing = await this.prisma.curriculumExpectation.findUnique({
-              where: { code: expectation.code },
-            });
-
-            if (!existing) {
-              await this.prisma.curriculumExpectation.create({
-                data: {
-                  code: expectation.code,
-                  description: expectation.description,
-                  descriptionFr: expectation.descriptionFr || null,
-                  strand: expectation.strand,
-                  substrand: expectation.substrand || null,
-                  grade: expectation.grade,
-                  subject: expectation.subject,
-                },
-              });
+            if ((await this.saveExpectation(expectation, frameworkId)) === 'created') {
               createdCount++;
             }
           } catch (error) {
@@ -448,7 +606,7 @@ export class CurriculumImportService extends BaseService {
       // Detect if document is in French or bilingual
       const isFrench = this.detectLanguage(text);
       const isBilingual = this.detectBilingual(text);
-      
+
       // Split text into chunks if it's too long (GPT-4 has token limits)
       const chunks = this.chunkText(text, 3000); // ~750 words per chunk
       const allExpectations: Array<{
@@ -466,7 +624,11 @@ export class CurriculumImportService extends BaseService {
       for (let i = 0; i < chunks.length; i++) {
         this.logger.info(`Processing chunk ${i + 1} of ${chunks.length}`);
 
-        const languageInfo = isFrench ? 'French' : isBilingual ? 'bilingual (English and French)' : 'English';
+        const languageInfo = isFrench
+          ? 'French'
+          : isBilingual
+            ? 'bilingual (English and French)'
+            : 'English';
         const prompt = `You are an expert in curriculum design for elementary education. Extract curriculum expectations from the following ${languageInfo} text.
 
 Please extract and return in JSON format:
@@ -501,47 +663,31 @@ Text to parse:
 ${chunks[i]}
 """`;
 
-        if (!this.openai) {
-          throw new Error('OpenAI API key not configured');
-        }
-
-        const response = await this.openai.chat.completions.create({
-          model: 'gpt-4',
-          messages: [
-            {
-              role: 'system',
-              content:
-                'You are an expert curriculum analyst. Extract curriculum expectations accurately.',
-            },
-            { role: 'user', content: prompt },
-          ],
-          temperature: 0.1, // Low temperature for accuracy
-          max_tokens: 2000,
-        });
-
-        const content = response.choices[0]?.message?.content;
-        if (!content) {
-          this.logger.warn(`No content returned for chunk ${i + 1}`);
-          continue;
+        if (!llmGateway.isAvailable('curriculum_import')) {
+          throw new Error('No LLM provider configured');
         }
 
         try {
-          const parsed = JSON.parse(content);
-          if (parsed.expectations && Array.isArray(parsed.expectations)) {
-            const expectations = parsed.expectations.map((exp: any) => ({
-              code: exp.code || `AUTO_${i}_${allExpectations.length}`,
-              description: exp.description || '',
-              descriptionFr: exp.descriptionFr,
-              subject: parsed.subject || 'Unknown',
-              grade: parsed.grade || 1,
-              strand: exp.strand || exp.domain || 'General',
-              strandFr: exp.strandFr,
-              substrand: exp.substrand,
-              substrandFr: exp.substrandFr,
-            }));
-
-            allExpectations.push(...expectations);
-          }
+          const parsed = await llmGateway.completeJSON('curriculum_import', {
+            system:
+              'You are an expert curriculum analyst. Extract curriculum expectations accurately.',
+            prompt,
+            schema: ParsedCurriculumChunkSchema,
+          });
+
+          const expectations = parsed.expectations.map((exp) => ({
+            code: exp.code || `AUTO_${i}_${allExpectations.length}`,
+            description: exp.description || '',
+            descriptionFr: exp.descriptionFr,
+            subject: parsed.subject || 'Unknown',
+            grade: parsed.grade || 1,
+            strand: exp.strand || exp.domain || 'General',
+            strandFr: exp.strandFr,
+            substrand: exp.substrand,
+            substrandFr: exp.substrandFr,
+          }));
+
+          allExpectations.push(...expectations);
         } catch (parseError) {
           this.logger.error({ parseError, chunk: i }, 'Failed to parse AI response');
         }
@@ -559,30 +705,38 @@ ${chunks[i]}
    */
   private detectLanguage(text: string): boolean {
     const frenchIndicators = [
-      'attentes', 'domaine', 'année', 'élève', 'apprentissage',
-      'français', 'mathématiques', 'sciences', 'études sociales',
-      'contenus d\'apprentissage', 'pistes de réflexion'
+      'attentes',
+      'domaine',
+      'année',
+      'élève',
+      'apprentissage',
+      'français',
+      'mathématiques',
+      'sciences',
+      'études sociales',
+      "contenus d'apprentissage",
+      'pistes de réflexion',
     ];
-    
+
     const textLower = text.toLowerCase();
-    const frenchCount = frenchIndicators.filter(indicator => 
-      textLower.includes(indicator)
+    const frenchCount = frenchIndicators.filter((indicator) =>
+      textLower.includes(indicator),
     ).length;
-    
+
     return frenchCount >= 3;
   }
-  
+
   /**
    * Detect if text contains both English and French
    */
   private detectBilingual(text: string): boolean {
     const englishIndicators = ['expectations', 'strand', 'grade', 'student', 'learning'];
     const frenchIndicators = ['attentes', 'domaine', 'année', 'élève', 'apprentissage'];
-    
+
     const textLower = text.toLowerCase();
-    const hasEnglish = englishIndicators.some(indicator => textLower.includes(indicator));
-    const hasFrench = frenchIndicators.some(indicator => textLower.includes(indicator));
-    
+    const hasEnglish = englishIndicators.some((indicator) => textLower.includes(indicator));
+    const hasFrench = frenchIndicators.some((indicator) => textLower.includes(indicator));
+
     return hasEnglish && hasFrench;
   }
 
@@ -772,6 +926,17 @@ ${chunks[i]}
     }
   }
 
+  /**
+   * Curriculum documents that can be loaded without uploading a file
+   */
+  listPresets(): Array<{ id: string; name: string; frameworks: FrameworkInput[] }> {
+    return CURRICULUM_PRESETS.map((preset) => ({
+      id: preset.id,
+      name: preset.name,
+      frameworks: preset.subjects.map((subject) => subject.framework),
+    }));
+  }
+
   /**
    * Load preset curriculum data
    */
@@ -780,20 +945,14 @@ ${chunks[i]}
     presetId: string,
   ): Promise<{
     sessionId: string;
-    subjects: Array<{
-      name: string;
-      expectations: Array<{
-        code: string;
-        type: 'overall' | 'specific';
-        description: string;
-        strand: string;
-        substrand?: string;
-        subject: string;
-        grade: number;
-      }>;
-    }>;
+    subjects: PresetSubject[];
   }> {
     try {
+      const preset = CURRICULUM_PRESETS.find((p) => p.id === presetId);
+      if (!preset) {
+        throw new Error(`Unknown preset: ${presetId}`);
+      }
+
       // Create new import session for preset
       const sessionId = await this.startImport(
         userId,
@@ -802,114 +961,7 @@ ${chunks[i]}
         'manual',
         `Preset: ${presetId}`,
       );
-
-      // Mock preset data based on presetId
-      let subjects: Array<{
-        name: string;
-        expectations: Array<{
-          code: string;
-          type: 'overall' | 'specific';
-          description: string;
-          strand: string;
-          substrand?: string;
-          subject: string;
-          grade: number;
-        }>;
-      }> = [];
-
-      switch (presetId) {
-        case 'pei-grade1-french':
-          subjects = [
-            {
-              name: 'Français Langue Première',
-              expectations: [
-                {
-                  code: 'CO1',
-                  type: 'overall',
-                  description: 'Comprendre des messages oraux en français',
-                  strand: 'Communication orale',
-                  subject: 'Français Langue Première',
-                  grade: 1,
-                },
-                {
-                  code: 'CO1.1',
-                  type: 'specific',
-                  description: 'Suivre des instructions orales simples',
-                  strand: 'Communication orale',
-                  substrand: 'Écoute',
-                  subject: 'Français Langue Première',
-                  grade: 1,
-                },
-              ],
-            },
-            {
-              name: 'Mathématiques',
-              expectations: [
-                {
-                  code: 'N1',
-                  type: 'overall',
-                  description: 'Comprendre les nombres de 0 à 20',
-                  strand: 'Nombre',
-                  subject: 'Mathématiques',
-                  grade: 1,
-                },
-              ],
-            },
-          ];
-          break;
-
-        case 'ontario-grade1-english':
-          subjects = [
-            {
-              name: 'Language',
-              expectations: [
-                {
-                  code: '1.O1',
-                  type: 'overall',
-                  description: 'Listen in order to understand and respond appropriately',
-                  strand: 'Oral Communication',
-                  subject: 'Language',
-                  grade: 1,
-                },
-              ],
-            },
-            {
-              name: 'Mathematics',
-              expectations: [
-                {
-                  code: '1.N1',
-                  type: 'overall',
-                  description: 'Count to 50 and represent numbers to 20',
-                  strand: 'Number Sense and Numeration',
-                  subject: 'Mathematics',
-                  grade: 1,
-                },
-              ],
-            },
-          ];
-          break;
-
-        case 'bc-grade1-core':
-          subjects = [
-            {
-              name: 'English Language Arts',
-              expectations: [
-                {
-                  code: 'ELA1-O1',
-                  type: 'overall',
-                  description: 'Use speaking and listening to interact with others',
-                  strand: 'Oral Language',
-                  subject: 'English Language Arts',
-                  grade: 1,
-                },
-              ],
-            },
-          ];
-          break;
-
-        default:
-          throw new Error(`Unknown preset: ${presetId}`);
-      }
+      const subjects = preset.subjects;
 
       // Store parsed subjects in metadata for later use
       await this.prisma.curriculumImport.update({
@@ -917,7 +969,7 @@ ${chunks[i]}
         data: {
           metadata: {
             presetId,
-            parsedSubjects: subjects,
+            parsedSubjects: subjects as unknown as Prisma.InputJsonValue,
             loadedAt: new Date().toISOString(),
           },
         },
@@ -938,12 +990,71 @@ ${chunks[i]}
     }
   }
 
+  /**
+   * Save one parsed expectation. Within a framework an existing code is
+   * updated with the imported wording; expectations outside any framework
+   * are only created when the code is new.
+   */
+  private async saveExpectation(
+    expectation: {
+      code: string;
+      description: string;
+      descriptionFr?: string | null;
+      strand: string;
+      substrand?: string | null;
+      grade: number;
+      subject: string;
+    },
+    frameworkId: string | null,
+    importId?: string,
+  ): Promise<'created' | 'updated' | 'skipped'> {
+    const data = {
+      code: expectation.code,
+      description: expectation.description,
+      descriptionFr: expectation.descriptionFr || null,
+      strand: expectation.strand,
+      substrand: expectation.substrand || null,
+      grade: expectation.grade,
+      subject: expectation.subject,
+      importId,
+      frameworkId,
+    };
+
+    const existing = await this.prisma.curriculumExpectation.findFirst({
+      where: { code: expectation.code, frameworkId },
+    });
+    if (!existing) {
+      await this.prisma.curriculumExpectation.create({ data });
+      return 'created';
+    }
+    if (!frameworkId) {
+      return 'skipped';
+    }
+    await this.prisma.curriculumExpectation.update({ where: { id: existing.id }, data });
+    return 'updated';
+  }
+
+  /**
+   * Framework for a parsed subject: its own (presets), otherwise the one
+   * chosen for the whole import, if any
+   */
+  private async subjectFrameworkId(
+    subject: { framework?: FrameworkInput },
+    frameworkId: string | null,
+  ): Promise<string | null> {
+    if (subject.framework) {
+      return (await ensureFramework(subject.framework)).id;
+    }
+    return frameworkId;
+  }
+
   /**
    * Finalize import and create actual curriculum expectations in the ETFO system
    */
   async finalizeImport(
     importId: string,
     _userId: number,
+    frameworkId?: string,
   ): Promise<{
     totalExpectations: number;
     subjects: string[];
@@ -961,7 +1072,9 @@ ${chunks[i]}
       }
 
       // Get the parsed subjects from the import metadata
-      const parsedSubjects = (importRecord.metadata as any)?.parsedSubjects || [];
+      const metadata = importRecord.metadata as any;
+      const parsedSubjects = metadata?.parsedSubjects || [];
+      const importFrameworkId = frameworkId ?? metadata?.frameworkId ?? null;
 
       let totalExpectations = 0;
       const subjects: string[] = [];
@@ -969,20 +1082,11 @@ ${chunks[i]}
       // Create curriculum expectations for each subject
       for (const subject of parsedSubjects) {
         subjects.push(subject.name);
+        const subjectFrameworkId = await this.subjectFrameworkId(subject, importFrameworkId);
 
         for (const expectation of subject.expectations) {
-          await this.prisma.curriculumExpectation.create({
-            data: {
-              code: expectation.code,
-              description: expectation.description,
-              strand: expectation.strand,
-              substrand: expectation.substrand,
-              grade: expectation.grade,
-              subject: expectation.subject,
-              importId,
-            },
-          });
-          totalExpectations++;
+          const result = await this.saveExpectation(expectation, subjectFrameworkId, importId);
+          if (result !== 'skipped') totalExpectations++;
         }
       }
 
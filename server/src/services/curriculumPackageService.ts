@@ -0,0 +1,583 @@
+/**
+ * Curriculum packages: a portable, versioned JSON document holding one
+ * curriculum framework's strands, bilingual expectations, clusters and
+ * (optionally) embeddings. A teacher or board exports a framework once it has
+ * been checked, and others load the package instead of re-parsing the
+ * source document. Packages can be shared as plain JSON or as a ZIP with the
+ * JSON inside; the checksum catches packages damaged or truncated in transit.
+ * It is not a signature: anyone editing a package can recompute it.
+ */
+
+import { createHash } from 'crypto';
+import archiver from 'archiver';
+import unzipper from 'unzipper';
+import { z } from 'zod';
+import { ImportStatus } from '@teaching-engine/database';
+import { prisma, Prisma } from '../prisma';
+import { Crosswalk, compareExpectations, normalizeCode } from './curriculumFrameworkService';
+
+export const CURRICULUM_PACKAGE_FORMAT = 'teaching-engine/curriculum-package';
+export const CURRICULUM_PACKAGE_VERSION = 1;
+
+/** Name of the JSON document inside a package ZIP */
+export const PACKAGE_ENTRY = 'curriculum.json';
+
+/** Largest curriculum.json a ZIP may expand to; embeddings compress about 3:1 */
+export const MAX_PACKAGE_JSON_BYTES = 100 * 1024 * 1024;
+
+export class CurriculumPackageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CurriculumPackageError';
+  }
+}
+
+const bilingualName = z.object({
+  name: z.string().min(1).max(200),
+  nameFr: z.string().max(200).optional(),
+});
+
+export const curriculumPackageSchema = z
+  .object({
+    format: z.literal(CURRICULUM_PACKAGE_FORMAT),
+    formatVersion: z.literal(CURRICULUM_PACKAGE_VERSION),
+    exportedAt: z.string(),
+    publishedBy: z.string().max(200).optional(),
+    framework: z.object({
+      jurisdiction: z.string().min(2).max(10),
+      subject: z.string().min(1).max(100),
+      gradeMin: z.number().int().min(0).max(12),
+      gradeMax: z.number().int().min(0).max(12),
+      version: z.string().min(1).max(50),
+      language: z.enum(['en', 'fr']),
+      title: z.string().min(1).max(200),
+      effectiveFrom: z.string().nullable().optional(),
+      effectiveTo: z.string().nullable().optional(),
+    }),
+    strands: z.array(bilingualName.extend({ substrands: z.array(bilingualName) })),
+    expectations: z
+      .array(
+        z.object({
+          code: z.string().min(1).max(50),
+          description: z.string().min(1).max(2000),
+          descriptionFr: z.string().max(2000).optional(),
+          strand: z.string().min(1).max(200),
+          strandFr: z.string().max(200).optional(),
+          substrand: z.string().max(200).optional(),
+          substrandFr: z.string().max(200).optional(),
+          grade: z.number().int().min(0).max(12),
+          subject: z.string().min(1).max(100),
+          embedding: z
+            .object({ model: z.string().min(1), vector: z.array(z.number()).min(1) })
+            .optional(),
+        }),
+      )
+      .min(1),
+    clusters: z.array(
+      z.object({
+        name: z.string().min(1).max(200),
+        type: z.enum(['theme', 'skill', 'concept']),
+        expectationCodes: z.array(z.string()).min(1),
+        confidence: z.number().min(0).max(1),
+        suggestedTheme: z.string().max(200).optional(),
+      }),
+    ),
+    checksum: z.string().optional(),
+  })
+  .superRefine((pkg, ctx) => {
+    const codes = new Set<string>();
+    pkg.expectations.forEach((e, i) => {
+      const code = normalizeCode(e.code);
+      if (codes.has(code)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['expectations', i, 'code'],
+          message: `Duplicate expectation code ${e.code}`,
+        });
+      }
+      codes.add(code);
+
+      const strand = pkg.strands.find((s) => s.name === e.strand);
+      if (!strand) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['expectations', i, 'strand'],
+          message: `Strand "${e.strand}" is not listed in strands`,
+        });
+      } else if (e.substrand && !strand.substrands.some((s) => s.name === e.substrand)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['expectations', i, 'substrand'],
+          message: `Substrand "${e.substrand}" is not listed under ${e.strand}`,
+        });
+      }
+    });
+    pkg.clusters.forEach((cluster, i) => {
+      const unknown = cluster.expectationCodes.filter((c) => !codes.has(normalizeCode(c)));
+      if (unknown.length > 0) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['clusters', i, 'expectationCodes'],
+          message: `Unknown expectation codes: ${unknown.join(', ')}`,
+        });
+      }
+    });
+  });
+
+interface BilingualName {
+  name: string;
+  nameFr?: string;
+}
+
+export interface PackageExpectation {
+  code: string;
+  description: string;
+  descriptionFr?: string;
+  strand: string;
+  strandFr?: string;
+  substrand?: string;
+  substrandFr?: string;
+  grade: number;
+  subject: string;
+  embedding?: { model: string; vector: number[] };
+}
+
+export interface CurriculumPackage {
+  format: typeof CURRICULUM_PACKAGE_FORMAT;
+  formatVersion: typeof CURRICULUM_PACKAGE_VERSION;
+  exportedAt: string;
+  publishedBy?: string;
+  framework: {
+    jurisdiction: string;
+    subject: string;
+    gradeMin: number;
+    gradeMax: number;
+    version: string;
+    language: 'en' | 'fr';
+    title: string;
+    effectiveFrom?: string | null;
+    effectiveTo?: string | null;
+  };
+  strands: Array<BilingualName & { substrands: BilingualName[] }>;
+  expectations: PackageExpectation[];
+  clusters: Array<{
+    name: string;
+    type: 'theme' | 'skill' | 'concept';
+    expectationCodes: string[];
+    confidence: number;
+    suggestedTheme?: string;
+  }>;
+  checksum?: string;
+}
+
+export interface PackagePreview {
+  framework: CurriculumPackage['framework'];
+  publishedBy: string | null;
+  /** True when the package carries a checksum that matches its content */
+  integrityChecked: boolean;
+  /** Id of the installed framework with the same jurisdiction, subject, grades, version and language */
+  existingFrameworkId: string | null;
+  diff: Crosswalk;
+  counts: { strands: number; expectations: number; clusters: number; embeddings: number };
+}
+
+export interface PackageImportResult {
+  frameworkId: string;
+  importId: string;
+  created: number;
+  updated: number;
+  /** Installed expectations missing from the package; left in place so plan links survive */
+  retained: number;
+  clusters: number;
+  embeddings: number;
+}
+
+/**
+ * SHA-256 of the package content without its checksum. The package is
+ * normalised through the schema first so key order in the file does not
+ * matter.
+ */
+export function packageChecksum(pkg: CurriculumPackage) {
+  const { checksum: _checksum, ...content } = curriculumPackageSchema.parse(pkg);
+  return createHash('sha256').update(JSON.stringify(content)).digest('hex');
+}
+
+/** Validate a parsed JSON document as a curriculum package */
+export function parseCurriculumPackage(data: unknown): CurriculumPackage {
+  const result = curriculumPackageSchema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.errors
+      .slice(0, 5)
+      .map((issue) => `${issue.path.join('.') || 'package'}: ${issue.message}`);
+    throw new CurriculumPackageError(`Invalid curriculum package. ${issues.join('; ')}`);
+  }
+
+  const pkg = result.data as CurriculumPackage;
+  if (pkg.checksum && pkg.checksum !== packageChecksum(pkg)) {
+    throw new CurriculumPackageError('Package contents do not match its checksum');
+  }
+  return pkg;
+}
+
+/** Read a package from an uploaded .json file or a .zip containing curriculum.json */
+export async function readCurriculumPackage(data: Buffer): Promise<CurriculumPackage> {
+  let json = data;
+  // ZIP local file header
+  if (data.subarray(0, 4).equals(Buffer.from([0x50, 0x4b, 0x03, 0x04]))) {
+    const dir = await unzipper.Open.buffer(data);
+    const entry = dir.files.find((f) => f.path.split('/').pop() === PACKAGE_ENTRY);
+    if (!entry) {
+      throw new CurriculumPackageError(`ZIP does not contain ${PACKAGE_ENTRY}`);
+    }
+    json = await readZipEntry(entry, MAX_PACKAGE_JSON_BYTES);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json.toString('utf8'));
+  } catch {
+    throw new CurriculumPackageError('Package is not valid JSON');
+  }
+  return parseCurriculumPackage(parsed);
+}
+
+/**
+ * Decompress a ZIP entry, giving up once it passes the limit. The size in the
+ * ZIP directory is checked first, but it is written by whoever made the file,
+ * so the bytes are counted as well.
+ */
+async function readZipEntry(entry: unzipper.File, maxBytes: number): Promise<Buffer> {
+  const tooLarge = () =>
+    new CurriculumPackageError(
+      `${PACKAGE_ENTRY} is larger than ${Math.round(maxBytes / 1024 / 1024)} MB`,
+    );
+  if (entry.uncompressedSize > maxBytes) {
+    throw tooLarge();
+  }
+
+  const stream = entry.stream();
+  const chunks: Buffer[] = [];
+  let received = 0;
+  for await (const chunk of stream as AsyncIterable<Buffer>) {
+    received += chunk.length;
+    if (received > maxBytes) {
+      stream.destroy();
+      throw tooLarge();
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+/** Distinct strands and their substrands, in the order they first appear */
+function collectStrands(expectations: PackageExpectation[]): CurriculumPackage['strands'] {
+  const strands = new Map<string, BilingualName & { substrands: BilingualName[] }>();
+  for (const e of expectations) {
+    let strand = strands.get(e.strand);
+    if (!strand) {
+      strand = { name: e.strand, ...(e.strandFr && { nameFr: e.strandFr }), substrands: [] };
+      strands.set(e.strand, strand);
+    }
+    if (e.substrand && !strand.substrands.some((s) => s.name === e.substrand)) {
+      strand.substrands.push({
+        name: e.substrand,
+        ...(e.substrandFr && { nameFr: e.substrandFr }),
+      });
+    }
+  }
+  return [...strands.values()];
+}
+
+/**
+ * Build the package for a framework. Clusters come from the imports the
+ * framework's expectations were created by and the packages installed into
+ * it, limited to those expectations.
+ */
+export async function exportCurriculumPackage(
+  frameworkId: string,
+  options: { includeEmbeddings?: boolean; publishedBy?: string } = {},
+): Promise<CurriculumPackage> {
+  const framework = await prisma.curriculumFramework.findUnique({ where: { id: frameworkId } });
+  if (!framework) {
+    throw new CurriculumPackageError('Framework not found');
+  }
+
+  const rows = await prisma.curriculumExpectation.findMany({
+    where: { frameworkId },
+    include: { embedding: options.includeEmbeddings ?? false },
+    orderBy: [{ strand: 'asc' }, { code: 'asc' }],
+  });
+  if (rows.length === 0) {
+    throw new CurriculumPackageError('Framework has no expectations to export');
+  }
+
+  const expectations: PackageExpectation[] = rows.map((row) => ({
+    code: row.code,
+    description: row.description,
+    ...(row.descriptionFr && { descriptionFr: row.descriptionFr }),
+    strand: row.strand,
+    ...(row.strandFr && { strandFr: row.strandFr }),
+    ...(row.substrand && { substrand: row.substrand }),
+    ...(row.substrandFr && { substrandFr: row.substrandFr }),
+    grade: row.grade,
+    subject: row.subject,
+    ...(row.embedding && {
+      embedding: { model: row.embedding.model, vector: row.embedding.embedding as number[] },
+    }),
+  }));
+
+  const codeById = new Map(rows.map((row) => [row.id, row.code]));
+  // Installed packages own their clusters without owning the rows they updated
+  const packageImports = await prisma.curriculumImport.findMany({
+    where: { sourceFormat: 'package' },
+    select: { id: true, metadata: true },
+  });
+  const importIds = [
+    ...new Set([
+      ...rows.map((row) => row.importId),
+      ...packageImports
+        .filter((i) => (i.metadata as { frameworkId?: string } | null)?.frameworkId === frameworkId)
+        .map((i) => i.id),
+    ]),
+  ].filter(Boolean) as string[];
+  const clusterRows = importIds.length
+    ? await prisma.expectationCluster.findMany({
+        where: { importId: { in: importIds } },
+        orderBy: { confidence: 'desc' },
+      })
+    : [];
+  const clusters = clusterRows
+    .map((cluster) => ({
+      name: cluster.clusterName,
+      type: cluster.clusterType as 'theme' | 'skill' | 'concept',
+      expectationCodes: (cluster.expectationIds as string[])
+        .map((id) => codeById.get(id))
+        .filter((code): code is string => Boolean(code)),
+      confidence: cluster.confidence,
+      ...(cluster.suggestedTheme && { suggestedTheme: cluster.suggestedTheme }),
+    }))
+    .filter((cluster) => cluster.expectationCodes.length > 0);
+
+  const pkg: CurriculumPackage = {
+    format: CURRICULUM_PACKAGE_FORMAT,
+    formatVersion: CURRICULUM_PACKAGE_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...(options.publishedBy && { publishedBy: options.publishedBy }),
+    framework: {
+      jurisdiction: framework.jurisdiction,
+      subject: framework.subject,
+      gradeMin: framework.gradeMin,
+      gradeMax: framework.gradeMax,
+      version: framework.version,
+      language: framework.language as 'en' | 'fr',
+      title: framework.title,
+      effectiveFrom: framework.effectiveFrom?.toISOString() ?? null,
+      effectiveTo: framework.effectiveTo?.toISOString() ?? null,
+    },
+    strands: collectStrands(expectations),
+    expectations,
+    clusters,
+  };
+  return { ...pkg, checksum: packageChecksum(pkg) };
+}
+
+export async function zipCurriculumPackage(pkg: CurriculumPackage): Promise<Buffer> {
+  const archive = archiver('zip');
+  const chunks: Buffer[] = [];
+  archive.on('data', (d: Buffer) => chunks.push(d));
+  archive.append(JSON.stringify(pkg, null, 2), { name: PACKAGE_ENTRY });
+  await archive.finalize();
+  return Buffer.concat(chunks);
+}
+
+/** File name for a downloaded package, e.g. "on-mathematics-2020-en" */
+export function packageFileName(pkg: CurriculumPackage) {
+  const { jurisdiction, subject, version, language } = pkg.framework;
+  return [jurisdiction, subject, version, language]
+    .join('-')
+    .toLowerCase()
+    .replace(/[^a-z0-9.-]+/g, '-');
+}
+
+function findInstalledFramework(
+  framework: CurriculumPackage['framework'],
+  client: Prisma.TransactionClient = prisma,
+) {
+  return client.curriculumFramework.findUnique({
+    where: {
+      jurisdiction_subject_gradeMin_gradeMax_version_language: {
+        jurisdiction: framework.jurisdiction,
+        subject: framework.subject,
+        gradeMin: framework.gradeMin,
+        gradeMax: framework.gradeMax,
+        version: framework.version,
+        language: framework.language,
+      },
+    },
+  });
+}
+
+/** What importing the package would change in the installed framework */
+export async function previewCurriculumPackage(pkg: CurriculumPackage): Promise<PackagePreview> {
+  const existing = await findInstalledFramework(pkg.framework);
+  const installed = existing
+    ? await prisma.curriculumExpectation.findMany({
+        where: { frameworkId: existing.id },
+        select: {
+          id: true,
+          code: true,
+          description: true,
+          descriptionFr: true,
+          strand: true,
+          strandFr: true,
+          substrand: true,
+          substrandFr: true,
+          grade: true,
+          subject: true,
+        },
+      })
+    : [];
+  // Every field the import writes, so no change goes in unconfirmed
+  const incoming = pkg.expectations.map(({ embedding: _embedding, ...e }) => ({
+    ...e,
+    id: e.code,
+    descriptionFr: e.descriptionFr ?? null,
+    strandFr: e.strandFr ?? null,
+    substrand: e.substrand ?? null,
+    substrandFr: e.substrandFr ?? null,
+  }));
+
+  return {
+    framework: pkg.framework,
+    publishedBy: pkg.publishedBy ?? null,
+    // parseCurriculumPackage has already rejected a checksum that does not match
+    integrityChecked: Boolean(pkg.checksum),
+    existingFrameworkId: existing?.id ?? null,
+    diff: compareExpectations(installed, incoming),
+    counts: {
+      strands: pkg.strands.length,
+      expectations: pkg.expectations.length,
+      clusters: pkg.clusters.length,
+      embeddings: pkg.expectations.filter((e) => e.embedding).length,
+    },
+  };
+}
+
+/**
+ * Install a package: create its framework if needed, add new expectations
+ * and update changed ones. The import is recorded as a completed
+ * CurriculumImport so its clusters have an owner like parsed imports do;
+ * expectations that were already installed keep the import that created them.
+ * Writing to an installed framework is for admins only, see the route.
+ */
+export async function importCurriculumPackage(
+  userId: number,
+  pkg: CurriculumPackage,
+): Promise<PackageImportResult> {
+  const { effectiveFrom, effectiveTo, ...framework } = pkg.framework;
+
+  return prisma.$transaction(
+    async (tx) => {
+      const installed =
+        (await findInstalledFramework(pkg.framework, tx)) ??
+        (await tx.curriculumFramework.create({
+          data: {
+            ...framework,
+            effectiveFrom: effectiveFrom ? new Date(effectiveFrom) : null,
+            effectiveTo: effectiveTo ? new Date(effectiveTo) : null,
+          },
+        }));
+
+      const record = await tx.curriculumImport.create({
+        data: {
+          userId,
+          subject: framework.subject,
+          grade: framework.gradeMin,
+          sourceFormat: 'package',
+          originalName: `${packageFileName(pkg)}.json`,
+          status: ImportStatus.COMPLETED,
+          totalOutcomes: pkg.expectations.length,
+          processedOutcomes: pkg.expectations.length,
+          metadata: {
+            frameworkId: installed.id,
+            publishedBy: pkg.publishedBy ?? null,
+            checksum: pkg.checksum ?? null,
+            exportedAt: pkg.exportedAt,
+          },
+          completedAt: new Date(),
+        },
+      });
+
+      const current = await tx.curriculumExpectation.findMany({
+        where: { frameworkId: installed.id },
+        select: { id: true, code: true },
+      });
+      const idByCode = new Map(current.map((e) => [normalizeCode(e.code), e.id]));
+      const seen = new Set<string>();
+      let created = 0;
+      let updated = 0;
+      let embeddings = 0;
+
+      for (const { embedding, ...expectation } of pkg.expectations) {
+        const data = {
+          ...expectation,
+          descriptionFr: expectation.descriptionFr ?? null,
+          strandFr: expectation.strandFr ?? null,
+          substrand: expectation.substrand ?? null,
+          substrandFr: expectation.substrandFr ?? null,
+          frameworkId: installed.id,
+        };
+        const key = normalizeCode(expectation.code);
+        let id = idByCode.get(key);
+        if (id) {
+          await tx.curriculumExpectation.update({ where: { id }, data });
+          updated++;
+        } else {
+          const row = await tx.curriculumExpectation.create({
+            data: { ...data, importId: record.id },
+          });
+          id = row.id;
+          idByCode.set(key, id);
+          created++;
+        }
+        seen.add(key);
+
+        if (embedding) {
+          await tx.curriculumExpectationEmbedding.upsert({
+            where: { expectationId: id },
+            create: { expectationId: id, embedding: embedding.vector, model: embedding.model },
+            update: { embedding: embedding.vector, model: embedding.model },
+          });
+          embeddings++;
+        }
+      }
+
+      for (const cluster of pkg.clusters) {
+        await tx.expectationCluster.create({
+          data: {
+            importId: record.id,
+            clusterName: cluster.name,
+            clusterType: cluster.type,
+            expectationIds: cluster.expectationCodes.map((code) =>
+              idByCode.get(normalizeCode(code)),
+            ),
+            confidence: cluster.confidence,
+            suggestedTheme: cluster.suggestedTheme,
+          },
+        });
+      }
+
+      return {
+        frameworkId: installed.id,
+        importId: record.id,
+        created,
+        updated,
+        retained: current.filter((e) => !seen.has(normalizeCode(e.code))).length,
+        clusters: pkg.clusters.length,
+        embeddings,
+      };
+    },
+    // Large packages with embeddings take longer than the default 5s
+    { timeout: 60_000 },
+  );
+}
@@ -1,7 +1,78 @@
-// Stub for EmailService to fix missing import
-export interface EmailAttachment {
+import { prisma } from '../prisma';
+import logger from '../logger';
+import {
+  createEmailTransport,
+  EmailAttachment,
+  EmailTransport,
+  PermanentEmailError,
+} from './emailTransport';
+
+export type { EmailAttachment } from './emailTransport';
+
+export type EmailDeliveryStatus = 'queued' | 'sending' | 'sent' | 'failed';
+
+/** Attempts before a delivery is marked failed */
+export const MAX_DELIVERY_ATTEMPTS = 5;
+const RETRY_BASE_MS = 60 * 1000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+// Deliveries stuck in "sending" this long were interrupted (e.g. a restart)
+const STALE_SENDING_MS = 10 * 60 * 1000;
+
+export interface QueueEmailOptions {
+  userId?: number;
+  relatedType?: string;
+  relatedId?: string;
+  /** Hold the email in the outbox until this time, e.g. the end of quiet hours */
+  sendAfter?: Date;
+}
+
+export interface EmailContent {
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface BilingualEmailContent {
+  en: EmailContent;
+  fr?: EmailContent;
+}
+
+export interface EmailDeliverySummary {
+  id: string;
+  to: string;
+  subject: string;
+  status: EmailDeliveryStatus;
+  attempts: number;
+  lastError: string | null;
+  relatedType: string | null;
+  relatedId: string | null;
+  attachments: string[];
+  nextAttemptAt: Date;
+  sentAt: Date | null;
+  createdAt: Date;
+}
+
+interface StoredAttachment {
   filename: string;
-  content: Buffer;
+  contentType?: string;
+  content: string; // base64
+}
+
+let transport: EmailTransport | null = null;
+
+/**
+ * The transport used by the outbox, created from the environment on first use.
+ */
+export function getEmailTransport(): EmailTransport {
+  if (!transport) {
+    transport = createEmailTransport();
+    logger.info({ transport: transport.name }, 'Email transport initialised');
+  }
+  return transport;
+}
+
+export function setEmailTransport(next: EmailTransport | null) {
+  transport = next;
 }
 
 let customEmailHandler:
@@ -14,6 +85,9 @@ let customEmailHandler:
     ) => Promise<void>)
   | null = null;
 
+/**
+ * Bypass the outbox and hand every email to `handler`. Intended for tests.
+ */
 export function setEmailHandler(
   handler: (
     to: string,
@@ -30,32 +104,329 @@ export function clearEmailHandler() {
   customEmailHandler = null;
 }
 
+/**
+ * Exponential backoff between attempts: 1, 2, 4, 8... minutes, capped at an hour.
+ */
+export function retryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MS);
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function textToHtml(text: string): string {
+  return text
+    .split(/\n{2,}/)
+    .map((para) => `<p>${escapeHtml(para).replace(/\n/g, '<br>')}</p>`)
+    .join('\n');
+}
+
+/**
+ * Combine English and French versions of a message into one email, with the
+ * family's preferred language first. Single-language content passes through.
+ */
+export function composeBilingualEmail(
+  content: BilingualEmailContent,
+  primary: 'en' | 'fr' = 'en',
+): Required<EmailContent> {
+  const first = primary === 'fr' && content.fr ? content.fr : content.en;
+  const second = first === content.en ? content.fr : content.en;
+  const firstLang = first === content.en ? 'en' : 'fr';
+
+  if (!second) {
+    return { subject: first.subject, text: first.text, html: first.html || textToHtml(first.text) };
+  }
+
+  const secondLang = firstLang === 'en' ? 'fr' : 'en';
+  return {
+    subject:
+      first.subject === second.subject ? first.subject : `${first.subject} / ${second.subject}`,
+    text: `${first.text}\n\n----------\n\n${second.text}`,
+    html: [
+      `<div lang="${firstLang}">${first.html || textToHtml(first.text)}</div>`,
+      '<hr>',
+      `<div lang="${secondLang}">${second.html || textToHtml(second.text)}</div>`,
+    ].join('\n'),
+  };
+}
+
+/**
+ * Pick one language version of a message, for families who asked for a
+ * single language. Falls back to English when there is no French version.
+ */
+export function selectEmailLanguage(
+  content: BilingualEmailContent,
+  language: 'en' | 'fr',
+): Required<EmailContent> {
+  const chosen = language === 'fr' && content.fr ? content.fr : content.en;
+  return {
+    subject: chosen.subject,
+    text: chosen.text,
+    html: chosen.html || textToHtml(chosen.text),
+  };
+}
+
+function toSummary(delivery: {
+  id: string;
+  to: string;
+  subject: string;
+  status: string;
+  attempts: number;
+  lastError: string | null;
+  relatedType: string | null;
+  relatedId: string | null;
+  attachments: unknown;
+  nextAttemptAt: Date;
+  sentAt: Date | null;
+  createdAt: Date;
+}): EmailDeliverySummary {
+  const attachments = (delivery.attachments as StoredAttachment[] | null) ?? [];
+  return {
+    id: delivery.id,
+    to: delivery.to,
+    subject: delivery.subject,
+    status: delivery.status as EmailDeliveryStatus,
+    attempts: delivery.attempts,
+    lastError: delivery.lastError,
+    relatedType: delivery.relatedType,
+    relatedId: delivery.relatedId,
+    attachments: attachments.map((a) => a.filename),
+    nextAttemptAt: delivery.nextAttemptAt,
+    sentAt: delivery.sentAt,
+    createdAt: delivery.createdAt,
+  };
+}
+
+/**
+ * Record an email in the outbox. It is delivered by `processOutbox`, which
+ * runs shortly after queueing and then on a schedule for retries.
+ */
+export async function queueEmail(
+  email: {
+    to: string;
+    subject: string;
+    text: string;
+    html?: string;
+    attachments?: EmailAttachment[];
+  },
+  options: QueueEmailOptions = {},
+): Promise<EmailDeliverySummary> {
+  const attachments: StoredAttachment[] | undefined = email.attachments?.map((a) => ({
+    filename: a.filename,
+    contentType: a.contentType,
+    content: a.content.toString('base64'),
+  }));
+
+  const delivery = await prisma.emailDelivery.create({
+    data: {
+      to: email.to,
+      subject: email.subject,
+      textBody: email.text,
+      htmlBody: email.html,
+      attachments: attachments as unknown as object,
+      userId: options.userId,
+      relatedType: options.relatedType,
+      relatedId: options.relatedId,
+      nextAttemptAt: options.sendAfter,
+    },
+  });
+
+  kickOutbox();
+  return toSummary(delivery);
+}
+
+let outboxRunning = false;
+
+function kickOutbox() {
+  if (outboxRunning) return;
+  setImmediate(() => {
+    processOutbox().catch((error) => logger.error({ error }, 'Email outbox run failed'));
+  });
+}
+
+/**
+ * Send queued emails that are due, rescheduling transient failures with
+ * backoff and failing deliveries after MAX_DELIVERY_ATTEMPTS.
+ */
+export async function processOutbox(limit = 20, now: Date = new Date()) {
+  const result = { sent: 0, retrying: 0, failed: 0 };
+  if (outboxRunning) return result;
+  outboxRunning = true;
+
+  try {
+    await prisma.emailDelivery.updateMany({
+      where: { status: 'sending', updatedAt: { lt: new Date(now.getTime() - STALE_SENDING_MS) } },
+      data: { status: 'queued' },
+    });
+
+    const due = await prisma.emailDelivery.findMany({
+      where: { status: 'queued', nextAttemptAt: { lte: now } },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: limit,
+    });
+
+    const from = process.env.EMAIL_FROM || 'no-reply@teaching-engine.local';
+
+    for (const delivery of due) {
+      // Claim the row so a concurrent run cannot send it twice
+      const claimed = await prisma.emailDelivery.updateMany({
+        where: { id: delivery.id, status: 'queued' },
+        data: { status: 'sending' },
+      });
+      if (claimed.count === 0) continue;
+
+      const attempts = delivery.attempts + 1;
+      const driver = getEmailTransport();
+      const stored = (delivery.attachments as unknown as StoredAttachment[] | null) ?? [];
+
+      try {
+        const { messageId } = await driver.send({
+          from,
+          to: delivery.to,
+          subject: delivery.subject,
+          text: delivery.textBody,
+          html: delivery.htmlBody ?? undefined,
+          attachments: stored.map((a) => ({
+            filename: a.filename,
+            contentType: a.contentType,
+            content: Buffer.from(a.content, 'base64'),
+          })),
+        });
+
+        await prisma.emailDelivery.update({
+          where: { id: delivery.id },
+          data: {
+            status: 'sent',
+            attempts,
+            messageId,
+            transport: driver.name,
+            lastError: null,
+            sentAt: new Date(),
+          },
+        });
+        result.sent++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const giveUp = error instanceof PermanentEmailError || attempts >= MAX_DELIVERY_ATTEMPTS;
+
+        await prisma.emailDelivery.update({
+          where: { id: delivery.id },
+          data: {
+            status: giveUp ? 'failed' : 'queued',
+            attempts,
+            transport: driver.name,
+            lastError: message,
+            nextAttemptAt: giveUp
+              ? delivery.nextAttemptAt
+              : new Date(now.getTime() + retryDelay(attempts)),
+          },
+        });
+
+        if (giveUp) {
+          result.failed++;
+          logger.error(
+            { deliveryId: delivery.id, attempts, error: message },
+            'Email delivery failed',
+          );
+        } else {
+          result.retrying++;
+          logger.warn(
+            { deliveryId: delivery.id, attempts, error: message },
+            'Email delivery will be retried',
+          );
+        }
+      }
+    }
+  } finally {
+    outboxRunning = false;
+  }
+
+  return result;
+}
+
+/**
+ * List a user's deliveries, optionally for one related record.
+ */
+export async function getEmailDeliveries(
+  userId: number,
+  filter: { relatedType?: string; relatedId?: string; status?: string } = {},
+  limit = 50,
+): Promise<EmailDeliverySummary[]> {
+  const deliveries = await prisma.emailDelivery.findMany({
+    where: {
+      userId,
+      ...(filter.relatedType && { relatedType: filter.relatedType }),
+      ...(filter.relatedId && { relatedId: filter.relatedId }),
+      ...(filter.status && { status: filter.status }),
+    },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+  });
+  return deliveries.map(toSummary);
+}
+
+/**
+ * Put a failed delivery back in the queue with a fresh set of attempts.
+ * Returns null when the delivery does not exist or is not failed.
+ */
+export async function retryEmailDelivery(
+  id: string,
+  userId: number,
+): Promise<EmailDeliverySummary | null> {
+  const updated = await prisma.emailDelivery.updateMany({
+    where: { id, userId, status: 'failed' },
+    data: { status: 'queued', attempts: 0, nextAttemptAt: new Date(), lastError: null },
+  });
+  if (updated.count === 0) return null;
+
+  kickOutbox();
+  const delivery = await prisma.emailDelivery.findUnique({ where: { id } });
+  return delivery ? toSummary(delivery) : null;
+}
+
 export async function sendEmail(
   to: string,
   subject: string,
   text: string,
   html?: string,
   attachment?: EmailAttachment,
+  options: QueueEmailOptions = {},
 ): Promise<void> {
   if (customEmailHandler) {
     return customEmailHandler(to, subject, text, html, attachment);
   }
 
-  // Stub implementation
-  console.log(`Email stub: Would send email to ${to} with subject: ${subject}`);
+  await queueEmail({ to, subject, text, html, attachments: attachment && [attachment] }, options);
 }
 
 export class EmailService {
   constructor() {}
 
-  async sendEmail(to: string, _subject: string, _body: string): Promise<void> {
-    // Stub implementation
-    console.log(`Email stub: Would send email to ${to} with subject: ${_subject}`);
+  async sendEmail(
+    to: string,
+    subject: string,
+    text: string,
+    html?: string,
+    options: QueueEmailOptions = {},
+  ): Promise<void> {
+    await sendEmail(to, subject, text, html, undefined, options);
   }
 
-  async sendBulkEmails(recipients: string[], _subject: string, _body: string): Promise<void> {
-    // Stub implementation
-    console.log(`Email stub: Would send bulk emails to ${recipients.length} recipients`);
+  async sendBulkEmails(
+    recipients: string[],
+    subject: string,
+    text: string,
+    html?: string,
+    options: QueueEmailOptions = {},
+  ): Promise<void> {
+    for (const to of recipients) {
+      await sendEmail(to, subject, text, html, undefined, options);
+    }
   }
 }
 
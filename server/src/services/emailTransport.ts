@@ -0,0 +1,153 @@
+import nodemailer from 'nodemailer';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType?: string;
+}
+
+export interface OutgoingEmail {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface TransportResult {
+  messageId: string;
+}
+
+/**
+ * A delivery mechanism for outgoing email. Drivers throw on failure; the
+ * outbox in emailService decides whether to retry.
+ */
+export interface EmailTransport {
+  readonly name: string;
+  send(email: OutgoingEmail): Promise<TransportResult>;
+}
+
+/**
+ * Errors a driver raises for problems that will not go away on retry, such as
+ * a recipient the server rejects outright.
+ */
+export class PermanentEmailError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentEmailError';
+  }
+}
+
+function toMailOptions(email: OutgoingEmail) {
+  return {
+    from: email.from,
+    to: email.to,
+    subject: email.subject,
+    text: email.text,
+    html: email.html,
+    attachments: email.attachments?.map((a) => ({
+      filename: a.filename,
+      content: a.content,
+      contentType: a.contentType,
+    })),
+  };
+}
+
+export interface SmtpTransportOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+}
+
+/**
+ * Deliver through an SMTP relay.
+ */
+export class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp';
+  private transporter: nodemailer.Transporter;
+
+  constructor(options: SmtpTransportOptions) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+    });
+  }
+
+  async send(email: OutgoingEmail): Promise<TransportResult> {
+    try {
+      const info = await this.transporter.sendMail(toMailOptions(email));
+      return { messageId: info.messageId };
+    } catch (error) {
+      // 5xx replies are permanent rejections; anything else (timeouts, 4xx) may recover
+      const code = (error as { responseCode?: number }).responseCode;
+      if (code && code >= 500) {
+        throw new PermanentEmailError((error as Error).message);
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Write each message as an .eml file into a local directory instead of
+ * sending it. Used in development and tests so mail can be inspected without
+ * an SMTP server.
+ */
+export class OutboxTransport implements EmailTransport {
+  readonly name = 'outbox';
+  private transporter: nodemailer.Transporter;
+
+  constructor(private readonly directory: string) {
+    this.transporter = nodemailer.createTransport({
+      streamTransport: true,
+      buffer: true,
+      newline: 'unix',
+    });
+  }
+
+  async send(email: OutgoingEmail): Promise<TransportResult> {
+    const info = await this.transporter.sendMail(toMailOptions(email));
+    const messageId = info.messageId || `<${randomUUID()}@outbox>`;
+    const filename = `${Date.now()}-${messageId.replace(/[^a-zA-Z0-9.-]/g, '')}.eml`;
+
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(path.join(this.directory, filename), info.message as Buffer);
+    return { messageId };
+  }
+}
+
+/**
+ * Pick a driver from the environment. EMAIL_TRANSPORT selects "smtp" or
+ * "outbox" explicitly; otherwise SMTP is used whenever SMTP_HOST is set.
+ */
+export function createEmailTransport(env: NodeJS.ProcessEnv = process.env): EmailTransport {
+  const driver = env.EMAIL_TRANSPORT || (env.SMTP_HOST ? 'smtp' : 'outbox');
+
+  if (driver === 'smtp') {
+    if (!env.SMTP_HOST) {
+      throw new Error('EMAIL_TRANSPORT=smtp requires SMTP_HOST');
+    }
+    const port = parseInt(env.SMTP_PORT || '587', 10);
+    return new SmtpTransport({
+      host: env.SMTP_HOST,
+      port,
+      secure: env.SMTP_SECURE ? env.SMTP_SECURE === 'true' : port === 465,
+      user: env.SMTP_USER,
+      pass: env.SMTP_PASS,
+    });
+  }
+
+  if (driver === 'outbox') {
+    return new OutboxTransport(path.resolve(env.EMAIL_OUTBOX_DIR || './outbox'));
+  }
+
+  throw new Error(`Unknown EMAIL_TRANSPORT "${driver}"`);
+}
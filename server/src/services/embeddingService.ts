@@ -1,4 +1,4 @@
-import { openai } from './llmService';
+import { llmGateway } from './llm';
 import BaseService from './base/BaseService';
 
 export interface EmbeddingResult {
@@ -8,7 +8,6 @@ export interface EmbeddingResult {
 }
 
 export class EmbeddingService extends BaseService {
-  private readonly model = 'text-embedding-3-small';
   private readonly batchSize = 100; // OpenAI API batch limit
   private readonly maxRetries = 3;
   private readonly retryDelay = 1000; // ms
@@ -17,19 +16,26 @@ export class EmbeddingService extends BaseService {
     super('EmbeddingService');
   }
 
+  /**
+   * Model configured for the 'embedding' feature of the LLM gateway
+   */
+  private get model(): string {
+    return llmGateway.getFeatureConfig('embedding').model;
+  }
+
   /**
    * Check if embedding service is available
    */
   isEmbeddingServiceAvailable(): boolean {
-    return !!openai;
+    return llmGateway.isAvailable('embedding');
   }
 
   /**
    * Generate embedding for a single curriculum expectation
    */
   async generateEmbedding(expectationId: string, text: string): Promise<EmbeddingResult | null> {
-    if (!openai) {
-      this.logger.warn('OpenAI API key not configured, skipping embedding generation');
+    if (!this.isEmbeddingServiceAvailable()) {
+      this.logger.warn('No embedding provider configured, skipping embedding generation');
       return null;
     }
 
@@ -82,8 +88,8 @@ export class EmbeddingService extends BaseService {
   async generateBatchEmbeddings(
     expectations: { id: string; text: string }[],
   ): Promise<EmbeddingResult[]> {
-    if (!openai) {
-      this.logger.warn('OpenAI API key not configured, skipping batch embedding generation');
+    if (!this.isEmbeddingServiceAvailable()) {
+      this.logger.warn('No embedding provider configured, skipping batch embedding generation');
       return [];
     }
 
@@ -219,8 +225,8 @@ export class EmbeddingService extends BaseService {
    */
   async generateMissingEmbeddings(forceRegenerate: boolean = false): Promise<number> {
     try {
-      if (!openai) {
-        this.logger.warn('OpenAI API key not configured');
+      if (!this.isEmbeddingServiceAvailable()) {
+        this.logger.warn('No embedding provider configured');
         return 0;
       }
 
@@ -288,8 +294,8 @@ export class EmbeddingService extends BaseService {
     }[]
   > {
     try {
-      if (!openai) {
-        this.logger.warn('OpenAI API key not configured');
+      if (!this.isEmbeddingServiceAvailable()) {
+        this.logger.warn('No embedding provider configured');
         return [];
       }
 
@@ -388,21 +394,17 @@ export class EmbeddingService extends BaseService {
   // Private helper methods
 
   async generateEmbeddingVector(text: string): Promise<number[] | null> {
-    if (!openai) return null;
+    if (!this.isEmbeddingServiceAvailable()) return null;
 
     for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
       try {
-        const response = await openai.embeddings.create({
-          model: this.model,
-          input: text,
-          encoding_format: 'float',
-        });
+        const response = await llmGateway.embed([text]);
 
-        if (response.usage?.total_tokens) {
-          this.logger.debug({ tokens: response.usage.total_tokens }, 'Embedding tokens used');
+        if (response.usage.totalTokens) {
+          this.logger.debug({ tokens: response.usage.totalTokens }, 'Embedding tokens used');
         }
 
-        return response.data[0].embedding;
+        return response.vectors[0];
       } catch (error: unknown) {
         this.logger.warn(
           {
@@ -454,17 +456,13 @@ export class EmbeddingService extends BaseService {
 
     // Generate embeddings for new items
     try {
-      const response = await openai!.embeddings.create({
-        model: this.model,
-        input: newItems.map((item) => item.text),
-        encoding_format: 'float',
-      });
+      const response = await llmGateway.embed(newItems.map((item) => item.text));
 
       // Store new embeddings
-      const embeddings = response.data.map((embedding, index) => ({
+      const embeddings = response.vectors.map((vector, index) => ({
         expectationId: newItems[index].id,
-        embedding: embedding.embedding,
-        model: this.model,
+        embedding: vector,
+        model: response.model,
       }));
 
       await this.prisma.curriculumExpectationEmbedding.createMany({
@@ -474,7 +472,7 @@ export class EmbeddingService extends BaseService {
       results.push(...embeddings);
 
       this.logger.info(
-        { newEmbeddings: newItems.length, totalTokens: response.usage?.total_tokens },
+        { newEmbeddings: newItems.length, totalTokens: response.usage.totalTokens },
         'Generated batch embeddings',
       );
     } catch (error) {
@@ -1,5 +1,5 @@
 import { prisma } from '../prisma';
-import { openai } from './llmService';
+import { llmGateway } from './llm';
 import { z } from 'zod';
 import logger from '../logger';
 import { v4 as uuidv4 } from 'uuid';
@@ -169,18 +169,14 @@ Determine:
 4. Follow-up questions if needed`;
 
     try {
-      const completion = await openai.chat.completions.create({
-        model: 'gpt-4',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt },
-        ],
+      const analysis = await llmGateway.complete('planning_assistant', {
+        system: systemPrompt,
+        prompt: userPrompt,
         temperature: 0.3,
-        max_tokens: 500,
+        maxTokens: 500,
+        userId: context.userId,
       });
 
-      const analysis = completion.choices[0]?.message?.content || '';
-
       return {
         rawAnalysis: analysis,
         message: message.toLowerCase(),
@@ -241,24 +237,12 @@ Actions can be:
 Format response as JSON.`;
 
     try {
-      const completion = await openai.chat.completions.create({
-        model: 'gpt-4',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt },
-        ],
-        temperature: 0.7,
-        max_tokens: 1000,
-        response_format: { type: 'json_object' },
+      return await llmGateway.completeJSON('planning_assistant', {
+        system: systemPrompt,
+        prompt: userPrompt,
+        schema: AgentResponseSchema,
+        userId: intent.context.userId,
       });
-
-      const responseContent = completion.choices[0]?.message?.content;
-      if (!responseContent) {
-        throw new Error('No response from AI');
-      }
-
-      const parsed = JSON.parse(responseContent);
-      return AgentResponseSchema.parse(parsed);
     } catch (error) {
       logger.error('Error generating response:', error);
 
@@ -0,0 +1,424 @@
+/**
+ * Guardian Portal Service
+ * Read-only access for guardians through emailed sign-in links. Guardians see
+ * only what the teacher published to their child's portal, in the language
+ * they prefer.
+ */
+
+import jwt, { JwtPayload } from 'jsonwebtoken';
+import type { Guardian } from '@teaching-engine/database';
+import { prisma } from '../prisma';
+import { queueEmail, selectEmailLanguage } from './emailService';
+import { generateOpaqueToken, hashToken } from './sessionService';
+import type { GuardianLanguage } from './guardianService';
+import logger from '../logger';
+
+export const PORTAL_ITEM_TYPES = ['parent-summary', 'newsletter', 'artifact'] as const;
+export type PortalItemType = (typeof PORTAL_ITEM_TYPES)[number];
+
+/** Sign-in links work once, within this window */
+export const PORTAL_LINK_TTL_MS = 24 * 60 * 60 * 1000;
+/** How long a guardian stays signed in after using a link */
+export const PORTAL_SESSION_EXPIRY = '12h';
+const PORTAL_SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+const PORTAL_AUDIENCE = 'guardian-portal';
+
+export class GuardianPortalError extends Error {
+  constructor(message = 'This sign-in link is invalid or has expired') {
+    super(message);
+    this.name = 'GuardianPortalError';
+  }
+}
+
+export interface PortalChild {
+  studentId: number;
+  firstName: string;
+  grade: number;
+  language: GuardianLanguage;
+}
+
+export type PortalEntry =
+  | {
+      type: 'parent-summary';
+      id: string;
+      publishedAt: Date;
+      dateFrom: Date;
+      dateTo: Date;
+      content: string;
+    }
+  | {
+      type: 'newsletter';
+      id: string;
+      publishedAt: Date;
+      title: string;
+      dateFrom: Date;
+      dateTo: Date;
+      sections: { title: string; content: string }[];
+    }
+  | {
+      type: 'artifact';
+      id: string;
+      publishedAt: Date;
+      title: string;
+      description: string | null;
+      fileUrl: string | null;
+      createdAt: Date;
+    };
+
+interface StoredSection {
+  title: string;
+  titleFr?: string;
+  content: string;
+  contentFr?: string;
+  order?: number;
+}
+
+function languageOf(guardian: Pick<Guardian, 'preferredLanguage'>): GuardianLanguage {
+  return guardian.preferredLanguage === 'fr' ? 'fr' : 'en';
+}
+
+/**
+ * Guardians restricted from communications, or without an address to send
+ * links to, have no portal access.
+ */
+export function canUsePortal(guardian: Pick<Guardian, 'receivesCommunications' | 'email'>) {
+  return guardian.receivesCommunications && !!guardian.email?.trim();
+}
+
+function portalUrl(token: string) {
+  const base = process.env.CLIENT_URL || 'http://localhost:5173';
+  return `${base}/portal/sign-in?token=${encodeURIComponent(token)}`;
+}
+
+function jwtSecret() {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET environment variable is required');
+  }
+  return secret;
+}
+
+/**
+ * Email a guardian a fresh sign-in link. Earlier unused links stop working.
+ */
+export async function sendPortalLink(guardian: Guardian & { student: { firstName: string } }) {
+  if (!canUsePortal(guardian)) {
+    throw new GuardianPortalError('This guardian cannot receive portal access');
+  }
+
+  await prisma.guardianAccessToken.deleteMany({
+    where: { guardianId: guardian.id, usedAt: null },
+  });
+  const token = generateOpaqueToken();
+  const expiresAt = new Date(Date.now() + PORTAL_LINK_TTL_MS);
+  await prisma.guardianAccessToken.create({
+    data: { guardianId: guardian.id, tokenHash: hashToken(token), expiresAt },
+  });
+
+  const url = portalUrl(token);
+  const { firstName } = guardian.student;
+  const content = selectEmailLanguage(
+    {
+      en: {
+        subject: `Your link to ${firstName}'s class updates`,
+        text: `Hello ${guardian.name},\n\nUse this link within 24 hours to see the updates ${firstName}'s teacher has shared with you:\n\n${url}\n\nThe link works once. You can ask for a new one from the sign-in page at any time.`,
+      },
+      fr: {
+        subject: `Votre lien vers les nouvelles de la classe de ${firstName}`,
+        text: `Bonjour ${guardian.name},\n\nUtilisez ce lien dans les 24 heures pour consulter les nouvelles que l'enseignant·e de ${firstName} a partagées avec vous :\n\n${url}\n\nLe lien ne fonctionne qu'une fois. Vous pouvez en demander un nouveau à partir de la page de connexion.`,
+      },
+    },
+    languageOf(guardian),
+  );
+
+  await queueEmail(
+    { to: guardian.email!.trim(), ...content },
+    { relatedType: 'guardian_portal_link', relatedId: guardian.id },
+  );
+  return { email: guardian.email!.trim(), expiresAt };
+}
+
+/**
+ * Email a new sign-in link to an address on file. Callers respond the same
+ * way either way so the endpoint does not reveal which addresses are on file.
+ */
+export async function requestPortalLink(email: string): Promise<void> {
+  const trimmed = email.trim();
+  const guardian = await prisma.guardian.findFirst({
+    where: {
+      email: { in: [...new Set([trimmed, trimmed.toLowerCase()])] },
+      receivesCommunications: true,
+    },
+    include: { student: { select: { firstName: true } } },
+    orderBy: { createdAt: 'asc' },
+  });
+  if (!guardian) {
+    logger.info('Portal link requested for unknown email');
+    return;
+  }
+  await sendPortalLink(guardian);
+}
+
+/**
+ * Exchange a sign-in link for a portal session token
+ */
+export async function signInWithPortalLink(token: string) {
+  const access = await prisma.guardianAccessToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { guardian: true },
+  });
+  if (!access || access.usedAt || access.expiresAt <= new Date()) {
+    throw new GuardianPortalError();
+  }
+  if (!canUsePortal(access.guardian)) {
+    throw new GuardianPortalError('Portal access has been turned off for this account');
+  }
+
+  await prisma.$transaction([
+    prisma.guardianAccessToken.update({ where: { id: access.id }, data: { usedAt: new Date() } }),
+    prisma.guardian.update({
+      where: { id: access.guardianId },
+      data: { lastPortalVisitAt: new Date() },
+    }),
+  ]);
+
+  const sessionToken = jwt.sign({ guardianId: access.guardianId }, jwtSecret(), {
+    expiresIn: PORTAL_SESSION_EXPIRY,
+    audience: PORTAL_AUDIENCE,
+  } as jwt.SignOptions);
+  return {
+    token: sessionToken,
+    expiresAt: Date.now() + PORTAL_SESSION_TTL_MS,
+    guardianId: access.guardianId,
+    email: access.guardian.email!,
+  };
+}
+
+/**
+ * The guardian a portal session token belongs to, while they still have
+ * portal access. Teachers can end access at any time by restricting
+ * communications or removing the guardian.
+ */
+export async function getPortalGuardian(token: string): Promise<Guardian | null> {
+  let payload: JwtPayload;
+  try {
+    payload = jwt.verify(token, jwtSecret(), {
+      algorithms: ['HS256'],
+      audience: PORTAL_AUDIENCE,
+    }) as JwtPayload;
+  } catch {
+    return null;
+  }
+  if (typeof payload.guardianId !== 'string') return null;
+
+  const guardian = await prisma.guardian.findUnique({ where: { id: payload.guardianId } });
+  return guardian && canUsePortal(guardian) ? guardian : null;
+}
+
+/**
+ * Children the signed-in guardian may see: every student listing the same
+ * address as a guardian with portal access, so parents of siblings sign in once.
+ */
+export async function getPortalChildren(guardian: Guardian): Promise<PortalChild[]> {
+  const links = await prisma.guardian.findMany({
+    where: { email: guardian.email, receivesCommunications: true },
+    include: { student: { select: { id: true, firstName: true, grade: true } } },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const seen = new Set<number>();
+  return links
+    .filter((link) => !seen.has(link.studentId) && seen.add(link.studentId))
+    .map((link) => ({
+      studentId: link.student.id,
+      firstName: link.student.firstName,
+      grade: link.student.grade,
+      language: languageOf(link),
+    }));
+}
+
+/**
+ * Published items for one child, newest first, in the guardian's language.
+ * Items that stopped qualifying since they were published (a summary moved
+ * back to draft, a deleted artifact) are left out.
+ */
+export async function getPortalEntries(
+  studentId: number,
+  language: GuardianLanguage,
+): Promise<PortalEntry[]> {
+  const student = await prisma.student.findUnique({
+    where: { id: studentId },
+    select: { userId: true },
+  });
+  if (!student) return [];
+
+  const items = await prisma.portalItem.findMany({
+    where: { studentId },
+    orderBy: { publishedAt: 'desc' },
+  });
+  const idsOf = (type: PortalItemType) =>
+    items.filter((item) => item.itemType === type).map((item) => item.itemId);
+  const numericIds = (type: PortalItemType) =>
+    idsOf(type)
+      .map(Number)
+      .filter((id) => Number.isInteger(id));
+
+  const [summaries, newsletters, artifacts] = await Promise.all([
+    prisma.parentSummary.findMany({
+      where: { id: { in: numericIds('parent-summary') }, studentId, isDraft: false },
+    }),
+    prisma.newsletter.findMany({
+      where: { id: { in: idsOf('newsletter') }, userId: student.userId, isDraft: false },
+    }),
+    prisma.studentArtifact.findMany({
+      where: { id: { in: numericIds('artifact') }, studentId },
+    }),
+  ]);
+
+  const fr = language === 'fr';
+  const entries: PortalEntry[] = [];
+  for (const item of items) {
+    if (item.itemType === 'parent-summary') {
+      const summary = summaries.find((s) => String(s.id) === item.itemId);
+      if (summary) {
+        entries.push({
+          type: 'parent-summary',
+          id: item.itemId,
+          publishedAt: item.publishedAt,
+          dateFrom: summary.dateFrom,
+          dateTo: summary.dateTo,
+          content: fr ? summary.contentFr : summary.contentEn,
+        });
+      }
+    } else if (item.itemType === 'newsletter') {
+      const newsletter = newsletters.find((n) => n.id === item.itemId);
+      if (newsletter) {
+        const sections = ((newsletter.sections as unknown as StoredSection[]) || [])
+          .slice()
+          .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+          .map((section) => ({
+            title: (fr && section.titleFr) || section.title,
+            content: (fr && section.contentFr) || section.content,
+          }));
+        entries.push({
+          type: 'newsletter',
+          id: item.itemId,
+          publishedAt: item.publishedAt,
+          title: fr ? newsletter.titleFr : newsletter.title,
+          dateFrom: newsletter.dateFrom,
+          dateTo: newsletter.dateTo,
+          sections,
+        });
+      }
+    } else if (item.itemType === 'artifact') {
+      const artifact = artifacts.find((a) => String(a.id) === item.itemId);
+      if (artifact) {
+        entries.push({
+          type: 'artifact',
+          id: item.itemId,
+          publishedAt: item.publishedAt,
+          title: artifact.title,
+          description: artifact.description,
+          fileUrl: artifact.fileUrl,
+          createdAt: artifact.createdAt,
+        });
+      }
+    }
+  }
+  return entries;
+}
+
+/**
+ * Everything the teacher could publish for a student, marked with whether it
+ * is on the portal now. Drafts cannot be published.
+ */
+export async function listPortalCandidates(studentId: number, userId: number) {
+  const [items, summaries, newsletters, artifacts] = await Promise.all([
+    prisma.portalItem.findMany({ where: { studentId } }),
+    prisma.parentSummary.findMany({
+      where: { studentId, isDraft: false },
+      orderBy: { dateTo: 'desc' },
+    }),
+    prisma.newsletter.findMany({
+      where: { userId, isDraft: false },
+      orderBy: { dateTo: 'desc' },
+    }),
+    prisma.studentArtifact.findMany({ where: { studentId }, orderBy: { createdAt: 'desc' } }),
+  ]);
+  const publishedAt = (type: PortalItemType, id: string | number) =>
+    items.find((item) => item.itemType === type && item.itemId === String(id))?.publishedAt ?? null;
+
+  return [
+    ...summaries.map((summary) => ({
+      type: 'parent-summary' as const,
+      id: String(summary.id),
+      title: `${summary.dateFrom.toISOString().slice(0, 10)} – ${summary.dateTo.toISOString().slice(0, 10)}`,
+      publishedAt: publishedAt('parent-summary', summary.id),
+    })),
+    ...newsletters
+      .filter((newsletter) => includesStudent(newsletter.studentIds, studentId))
+      .map((newsletter) => ({
+        type: 'newsletter' as const,
+        id: newsletter.id,
+        title: newsletter.title,
+        publishedAt: publishedAt('newsletter', newsletter.id),
+      })),
+    ...artifacts.map((artifact) => ({
+      type: 'artifact' as const,
+      id: String(artifact.id),
+      title: artifact.title,
+      publishedAt: publishedAt('artifact', artifact.id),
+    })),
+  ];
+}
+
+function includesStudent(studentIds: unknown, studentId: number) {
+  return Array.isArray(studentIds) && studentIds.map(Number).includes(studentId);
+}
+
+/**
+ * Put an item on a student's portal. Returns null when the item does not
+ * belong to the student or is still a draft.
+ */
+export async function publishPortalItem(
+  student: { id: number; userId: number },
+  itemType: PortalItemType,
+  itemId: string,
+) {
+  let eligible = false;
+  if (itemType === 'parent-summary') {
+    eligible = Number.isInteger(Number(itemId))
+      ? (await prisma.parentSummary.count({
+          where: { id: Number(itemId), studentId: student.id, isDraft: false },
+        })) > 0
+      : false;
+  } else if (itemType === 'newsletter') {
+    const newsletter = await prisma.newsletter.findFirst({
+      where: { id: itemId, userId: student.userId, isDraft: false },
+      select: { studentIds: true },
+    });
+    eligible = !!newsletter && includesStudent(newsletter.studentIds, student.id);
+  } else {
+    eligible = Number.isInteger(Number(itemId))
+      ? (await prisma.studentArtifact.count({
+          where: { id: Number(itemId), studentId: student.id },
+        })) > 0
+      : false;
+  }
+  if (!eligible) return null;
+
+  return prisma.portalItem.upsert({
+    where: { studentId_itemType_itemId: { studentId: student.id, itemType, itemId } },
+    create: { studentId: student.id, itemType, itemId },
+    update: {},
+  });
+}
+
+export async function unpublishPortalItem(
+  studentId: number,
+  itemType: PortalItemType,
+  itemId: string,
+) {
+  const { count } = await prisma.portalItem.deleteMany({ where: { studentId, itemType, itemId } });
+  return count > 0;
+}
@@ -0,0 +1,110 @@
+import type { Guardian, ParentSummary, Student } from '@teaching-engine/database';
+import { prisma } from '../prisma';
+import { BilingualEmailContent, queueEmail, selectEmailLanguage } from './emailService';
+
+export const GUARDIAN_LANGUAGES = ['en', 'fr'] as const;
+export const GUARDIAN_CONTACT_METHODS = ['email', 'phone', 'paper'] as const;
+
+export type GuardianLanguage = (typeof GUARDIAN_LANGUAGES)[number];
+export type GuardianSkipReason =
+  | 'restricted'
+  | 'contact_by_phone'
+  | 'contact_by_paper'
+  | 'no_email';
+
+export interface GuardianRecipient {
+  guardian: Guardian;
+  email: string;
+  language: GuardianLanguage;
+}
+
+export interface SkippedGuardian {
+  guardian: Guardian;
+  reason: GuardianSkipReason;
+}
+
+function skipReason(guardian: Guardian): GuardianSkipReason | null {
+  if (!guardian.receivesCommunications) return 'restricted';
+  if (guardian.contactMethod === 'phone') return 'contact_by_phone';
+  if (guardian.contactMethod === 'paper') return 'contact_by_paper';
+  if (!guardian.email?.trim()) return 'no_email';
+  return null;
+}
+
+/**
+ * Decide which guardians are emailed. Guardians whose contact is restricted,
+ * who asked for phone or paper, or who have no address are skipped with a
+ * reason. An address shared by several guardians (e.g. a parent of siblings)
+ * is emailed once, in the language of the first guardian listed.
+ */
+export function planGuardianDelivery(guardians: Guardian[]) {
+  const recipients: GuardianRecipient[] = [];
+  const skipped: SkippedGuardian[] = [];
+  const seen = new Set<string>();
+
+  for (const guardian of guardians) {
+    const reason = skipReason(guardian);
+    if (reason) {
+      skipped.push({ guardian, reason });
+      continue;
+    }
+
+    const email = guardian.email!.trim().toLowerCase();
+    if (seen.has(email)) continue;
+    seen.add(email);
+    recipients.push({
+      guardian,
+      email,
+      language: guardian.preferredLanguage === 'fr' ? 'fr' : 'en',
+    });
+  }
+
+  return { recipients, skipped };
+}
+
+/**
+ * Guardians of the teacher's students, primary contacts first.
+ */
+export function getGuardiansForStudents(userId: number, studentIds: number[]) {
+  return prisma.guardian.findMany({
+    where: { studentId: { in: studentIds }, student: { userId } },
+    orderBy: [{ studentId: 'asc' }, { isPrimary: 'desc' }, { createdAt: 'asc' }],
+  });
+}
+
+/**
+ * Email a parent summary to the student's guardians, each receiving the
+ * English or French version they prefer.
+ */
+export async function sendParentSummaryToGuardians(
+  summary: ParentSummary & { student: Student },
+  userId: number,
+) {
+  const { firstName } = summary.student;
+  const content: BilingualEmailContent = {
+    en: { subject: `Progress update for ${firstName}`, text: summary.contentEn },
+    fr: { subject: `Suivi des progrès de ${firstName}`, text: summary.contentFr },
+  };
+
+  const guardians = await getGuardiansForStudents(userId, [summary.studentId]);
+  const { recipients, skipped } = planGuardianDelivery(guardians);
+
+  const deliveries = [];
+  for (const recipient of recipients) {
+    deliveries.push(
+      await queueEmail(
+        { ...selectEmailLanguage(content, recipient.language), to: recipient.email },
+        { userId, relatedType: 'parent_summary', relatedId: String(summary.id) },
+      ),
+    );
+  }
+
+  return {
+    deliveries,
+    skipped: skipped.map(({ guardian, reason }) => ({
+      guardianId: guardian.id,
+      name: guardian.name,
+      reason,
+    })),
+  };
+}
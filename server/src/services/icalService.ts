@@ -0,0 +1,504 @@
+/**
+ * iCalendar (RFC 5545) feeds in both directions. School and board feeds are
+ * imported into the teacher's calendar, by subscription URL or uploaded file,
+ * and kept in step by UID. Each teacher also gets a secret read-only URL
+ * publishing their lessons, units and events for Google or Outlook calendars.
+ */
+
+import ical, { type VEvent } from 'node-ical';
+import { addDays, addMinutes, addMonths, format, startOfDay, subDays, subYears } from 'date-fns';
+import type { CalendarEventType, CalendarFeed } from '@teaching-engine/database';
+import { prisma } from '../prisma';
+import {
+  fetchPublicUrl,
+  ResponseTooLargeError,
+  type PublicFetchResponse,
+} from '../utils/urlValidator';
+import { calendarEventScope } from './schoolService';
+import { generateOpaqueToken, hashToken } from './sessionService';
+
+/** Largest feed accepted, by URL or upload */
+export const MAX_ICS_BYTES = 2 * 1024 * 1024;
+/** Events kept from one feed after expanding recurrences */
+export const MAX_FEED_EVENTS = 2000;
+const MAX_REDIRECTS = 3;
+const PRODID = '-//Teaching Engine//Calendar Export//EN';
+const UID_DOMAIN = 'teaching-engine';
+
+export class CalendarFeedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CalendarFeedError';
+  }
+}
+
+export interface ParsedFeedEvent {
+  uid: string;
+  title: string;
+  description: string | null;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  eventType: CalendarEventType;
+}
+
+export interface CalendarFeedInput {
+  name: string;
+  /** Subscription URL; omitted for an uploaded file */
+  url?: string;
+  /** Uploaded ICS text */
+  content?: string;
+}
+
+export interface IcsEvent {
+  uid: string;
+  title: string;
+  description?: string | null;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  categories?: string[];
+}
+
+// Checked in order against categories first, then the title
+const EVENT_TYPE_PATTERNS: [CalendarEventType, RegExp][] = [
+  ['PD_DAY', /\bpd\b|\bpa day|professional|p[ée]dagogique/i],
+  ['HOLIDAY', /holiday|f[ée]ri[ée]|\bbreak\b|vacances|cong[ée]/i],
+  ['REPORT_DEADLINE', /report|bulletin/i],
+  ['ASSEMBLY', /assembly|assembl[ée]e/i],
+  ['TRIP', /\btrip\b|excursion|sortie/i],
+];
+
+const EVENT_TYPE_CATEGORIES: Partial<Record<CalendarEventType, string>> = {
+  PD_DAY: 'PD Day',
+  HOLIDAY: 'Holiday',
+  REPORT_DEADLINE: 'Report Deadline',
+  ASSEMBLY: 'Assembly',
+  TRIP: 'Trip',
+};
+
+function matchEventType(text: string): CalendarEventType | null {
+  const match = EVENT_TYPE_PATTERNS.find(([, pattern]) => pattern.test(text));
+  return match ? match[0] : null;
+}
+
+/**
+ * Map a feed event to one of our event types. Categories win; many board
+ * feeds have none, so the title is checked next.
+ */
+export function eventTypeFor(categories: string[], title: string): CalendarEventType {
+  for (const category of categories) {
+    const type = matchEventType(category);
+    if (type) return type;
+  }
+  return matchEventType(title) ?? 'CUSTOM';
+}
+
+// node-ical gives text properties with parameters (e.g. LANGUAGE) as { val }
+function textOf(value: unknown): string {
+  if (typeof value === 'string') return value.trim();
+  if (value && typeof value === 'object' && 'val' in value) {
+    return String((value as { val: unknown }).val).trim();
+  }
+  return '';
+}
+
+function categoriesOf(event: VEvent): string[] {
+  const categories = (event as VEvent & { categories?: unknown }).categories;
+  return Array.isArray(categories) ? categories.map(textOf).filter(Boolean) : [];
+}
+
+function toFeedEvent(event: Omit<VEvent, 'recurrences'>, uid: string, start: Date, end: Date) {
+  const title = textOf(event.summary) || '(untitled)';
+  const allDay = event.datetype === 'date';
+  return {
+    uid,
+    title,
+    description: textOf(event.description) || null,
+    start,
+    // All-day DTEND is exclusive; store the end of the last day instead
+    end: allDay ? new Date(Math.max(end.getTime() - 1, start.getTime())) : end,
+    allDay,
+    eventType: eventTypeFor(categoriesOf(event as VEvent), title),
+  };
+}
+
+/**
+ * Parse an ICS file into events. Recurring events are expanded into one
+ * event per occurrence from a year back to 18 months ahead, each with its
+ * own UID; cancelled events and occurrences are dropped.
+ */
+export function parseIcs(text: string, now = new Date()): ParsedFeedEvent[] {
+  if (!/BEGIN:VCALENDAR/i.test(text)) {
+    throw new CalendarFeedError('This is not an iCalendar (.ics) file');
+  }
+  let components: ReturnType<typeof ical.sync.parseICS>;
+  try {
+    components = ical.sync.parseICS(text);
+  } catch (error) {
+    throw new CalendarFeedError(
+      `Could not read the calendar: ${error instanceof Error ? error.message : 'invalid file'}`,
+    );
+  }
+
+  const from = subYears(now, 1);
+  const to = addMonths(now, 18);
+  const events: ParsedFeedEvent[] = [];
+
+  for (const component of Object.values(components)) {
+    if (component.type !== 'VEVENT' || !component.start) continue;
+    const event = component as VEvent;
+    if (event.status === 'CANCELLED') continue;
+    const uid = event.uid || `${event.start.toISOString()}|${textOf(event.summary)}`;
+    const end = event.end ?? event.start;
+
+    if (!event.rrule) {
+      if (end >= from) events.push(toFeedEvent(event, uid, event.start, end));
+      continue;
+    }
+
+    // node-ical keys exceptions and overrides by the occurrence's date
+    const duration = end.getTime() - event.start.getTime();
+    const excluded = new Set(Object.keys(event.exdate ?? {}));
+    for (const start of event.rrule.between(from, to, true)) {
+      const key = start.toISOString().slice(0, 10);
+      if (excluded.has(key)) continue;
+      const occurrenceUid = `${uid}/${start.toISOString()}`;
+      const override = event.recurrences?.[key];
+      if (override) {
+        if (override.status === 'CANCELLED') continue;
+        events.push(
+          toFeedEvent(override, occurrenceUid, override.start, override.end ?? override.start),
+        );
+      } else {
+        events.push(toFeedEvent(event, occurrenceUid, start, new Date(start.getTime() + duration)));
+      }
+    }
+  }
+
+  if (events.length > MAX_FEED_EVENTS) {
+    throw new CalendarFeedError(`Calendars are limited to ${MAX_FEED_EVENTS} events`);
+  }
+  return events.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+function escapeText(value: string) {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/** Lines longer than 75 octets continue on lines starting with a space */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    if (Buffer.byteLength(current + char) > 75) {
+      parts.push(current);
+      current = ' ';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n');
+}
+
+function formatDateTime(date: Date) {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+/**
+ * Build an ICS calendar. All-day events are written as dates with the
+ * exclusive end calendar apps expect; other times are written in UTC.
+ */
+export function buildIcs(name: string, events: IcsEvent[], now = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+  ];
+
+  for (const event of events) {
+    lines.push('BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${formatDateTime(now)}`);
+    if (event.allDay) {
+      const lastDay = startOfDay(event.end < event.start ? event.start : event.end);
+      lines.push(
+        `DTSTART;VALUE=DATE:${format(event.start, 'yyyyMMdd')}`,
+        `DTEND;VALUE=DATE:${format(addDays(lastDay, 1), 'yyyyMMdd')}`,
+      );
+    } else {
+      lines.push(`DTSTART:${formatDateTime(event.start)}`, `DTEND:${formatDateTime(event.end)}`);
+    }
+    lines.push(`SUMMARY:${escapeText(event.title)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.categories?.length) {
+      lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`);
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Download a feed. webcal:// links are fetched over https. Each hop,
+ * redirects included, must resolve to a public address, and the download
+ * stops once it passes MAX_ICS_BYTES.
+ */
+export async function fetchIcs(url: string): Promise<string> {
+  let response: PublicFetchResponse;
+  try {
+    response = await fetchPublicUrl(url.replace(/^webcals?:\/\//i, 'https://'), {
+      headers: { Accept: 'text/calendar' },
+      maxBytes: MAX_ICS_BYTES,
+      maxRedirects: MAX_REDIRECTS,
+    });
+  } catch (error) {
+    if (error instanceof ResponseTooLargeError) {
+      throw new CalendarFeedError('The calendar is too large to import');
+    }
+    throw new CalendarFeedError(
+      `Could not reach the calendar: ${error instanceof Error ? error.message : 'request failed'}`,
+    );
+  }
+
+  if (response.status < 200 || response.status >= 300) {
+    throw new CalendarFeedError(`The calendar server answered ${response.status}`);
+  }
+  return response.body.toString('utf8');
+}
+
+/**
+ * Replace a feed's events with the parsed ones. Events are matched by UID so
+ * ids stay stable across refreshes; events gone from the feed are removed.
+ */
+export async function syncFeedEvents(
+  feed: Pick<CalendarFeed, 'id' | 'teacherId'>,
+  text: string,
+  now = new Date(),
+) {
+  const events = parseIcs(text, now);
+  const uids = events.map((event) => event.uid);
+
+  await prisma.$transaction([
+    ...events.map(({ uid, ...fields }) =>
+      prisma.calendarEvent.upsert({
+        where: { feedId_uid: { feedId: feed.id, uid } },
+        create: {
+          ...fields,
+          uid,
+          feedId: feed.id,
+          teacherId: feed.teacherId,
+          source: 'ICAL_FEED',
+        },
+        update: fields,
+      }),
+    ),
+    prisma.calendarEvent.deleteMany({ where: { feedId: feed.id, uid: { notIn: uids } } }),
+    prisma.calendarFeed.update({
+      where: { id: feed.id },
+      data: { lastSyncedAt: new Date(), lastError: null },
+    }),
+  ]);
+
+  return { imported: events.length };
+}
+
+export async function listFeeds(teacherId: number) {
+  return prisma.calendarFeed.findMany({
+    where: { teacherId },
+    include: { _count: { select: { events: true } } },
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+/**
+ * Subscribe to a feed URL or import an uploaded file. The calendar is read
+ * before the feed is saved so a bad URL or file leaves nothing behind.
+ */
+export async function createFeed(teacherId: number, input: CalendarFeedInput) {
+  const text = input.url ? await fetchIcs(input.url) : (input.content ?? '');
+  parseIcs(text);
+
+  const feed = await prisma.calendarFeed.create({
+    data: { teacherId, name: input.name, url: input.url ?? null },
+  });
+  const result = await syncFeedEvents(feed, text);
+  return { feed, ...result };
+}
+
+/**
+ * Fetch a subscribed feed again. Failures are kept on the feed so the
+ * teacher can see why it stopped updating.
+ */
+export async function refreshFeed(feed: CalendarFeed) {
+  if (!feed.url) {
+    throw new CalendarFeedError('Uploaded calendars cannot be refreshed; upload the file again');
+  }
+  try {
+    return await syncFeedEvents(feed, await fetchIcs(feed.url));
+  } catch (error) {
+    await prisma.calendarFeed.update({
+      where: { id: feed.id },
+      data: { lastError: error instanceof Error ? error.message : 'Refresh failed' },
+    });
+    throw error;
+  }
+}
+
+/** Refresh every subscription, one at a time */
+export async function refreshAllFeeds() {
+  const feeds = await prisma.calendarFeed.findMany({ where: { url: { not: null } } });
+  let refreshed = 0;
+  let failed = 0;
+  for (const feed of feeds) {
+    try {
+      await refreshFeed(feed);
+      refreshed++;
+    } catch {
+      failed++;
+    }
+  }
+  return { refreshed, failed };
+}
+
+/**
+ * Issue a new secret for the teacher's export URL. Only its hash is kept,
+ * so the URL is shown once and issuing a new one turns the old one off.
+ */
+export async function regenerateExportToken(userId: number) {
+  const token = generateOpaqueToken();
+  await prisma.user.update({
+    where: { id: userId },
+    data: { calendarFeedTokenHash: hashToken(token) },
+  });
+  return token;
+}
+
+export async function revokeExportToken(userId: number) {
+  await prisma.user.update({ where: { id: userId }, data: { calendarFeedTokenHash: null } });
+}
+
+async function findUserByToken(token: string) {
+  return prisma.user.findUnique({
+    where: { calendarFeedTokenHash: hashToken(token) },
+    select: { id: true, name: true },
+  });
+}
+
+function exportStart(now: Date) {
+  return subDays(now, 180);
+}
+
+/**
+ * The teacher's export: lessons, unit spans and calendar events from six
+ * months back onward. Lessons saved without a time of day are all-day.
+ * Returns null for an unknown or revoked token.
+ */
+export async function buildPersonalExport(token: string, now = new Date()) {
+  const user = await findUserByToken(token);
+  if (!user) return null;
+  const since = exportStart(now);
+
+  const [lessons, units, events] = await Promise.all([
+    prisma.eTFOLessonPlan.findMany({
+      where: { userId: user.id, date: { gte: since } },
+      select: { id: true, title: true, subject: true, date: true, duration: true },
+      orderBy: { date: 'asc' },
+    }),
+    prisma.unitPlan.findMany({
+      where: { userId: user.id, endDate: { gte: since } },
+      select: { id: true, title: true, description: true, startDate: true, endDate: true },
+      orderBy: { startDate: 'asc' },
+    }),
+    prisma.calendarEvent.findMany({
+      where: { AND: [await calendarEventScope(user.id), { end: { gte: since } }] },
+      orderBy: { start: 'asc' },
+    }),
+  ]);
+
+  const icsEvents: IcsEvent[] = [
+    ...lessons.map((lesson) => {
+      const allDay = lesson.date.getTime() === startOfDay(lesson.date).getTime();
+      return {
+        uid: `lesson-${lesson.id}@${UID_DOMAIN}`,
+        title: lesson.subject ? `${lesson.subject}: ${lesson.title}` : lesson.title,
+        start: lesson.date,
+        end: allDay ? lesson.date : addMinutes(lesson.date, lesson.duration),
+        allDay,
+        categories: ['Lesson'],
+      };
+    }),
+    ...units.map((unit) => ({
+      uid: `unit-${unit.id}@${UID_DOMAIN}`,
+      title: `Unit: ${unit.title}`,
+      description: unit.description,
+      start: unit.startDate,
+      end: unit.endDate,
+      allDay: true,
+      categories: ['Unit'],
+    })),
+    ...events.map((event) => {
+      const category = EVENT_TYPE_CATEGORIES[event.eventType];
+      return {
+        uid: `event-${event.id}@${UID_DOMAIN}`,
+        title: event.title,
+        description: event.description,
+        start: event.start,
+        end: event.end,
+        allDay: event.allDay,
+        categories: category ? [category] : [],
+      };
+    }),
+  ];
+
+  return buildIcs(`${user.name} - Teaching Engine`, icsEvents, now);
+}
+
+/**
+ * A team's shared calendars, published with the same secret as the
+ * teacher's own export. Returns null unless the token's owner is on the team.
+ */
+export async function buildTeamExport(token: string, teamId: string, now = new Date()) {
+  const user = await findUserByToken(token);
+  if (!user) return null;
+  const team = await prisma.team.findFirst({
+    where: {
+      id: teamId,
+      OR: [{ ownerId: user.id }, { members: { some: { userId: user.id } } }],
+    },
+    select: { name: true },
+  });
+  if (!team) return null;
+
+  const events = await prisma.teamCalendarEvent.findMany({
+    where: { calendar: { teamId }, endDate: { gte: exportStart(now) } },
+    include: { calendar: { select: { title: true } } },
+    orderBy: { startDate: 'asc' },
+  });
+
+  return buildIcs(
+    team.name,
+    events.map((event) => ({
+      uid: `team-event-${event.id}@${UID_DOMAIN}`,
+      title: event.title,
+      description: event.description,
+      start: event.startDate,
+      end: event.endDate,
+      allDay: event.allDay,
+      categories: [event.calendar.title],
+    })),
+    now,
+  );
+}
@@ -0,0 +1,70 @@
+import type { CompletionRequest, CompletionResult, LLMProvider } from './types';
+
+const API_URL = 'https://api.anthropic.com/v1/messages';
+const API_VERSION = '2023-06-01';
+const DEFAULT_MAX_TOKENS = 1024;
+
+interface MessagesResponse {
+  model: string;
+  content: Array<{ type: string; text?: string }>;
+  usage?: { input_tokens?: number; output_tokens?: number };
+}
+
+/**
+ * Anthropic Messages API. There is no embeddings endpoint, so features that
+ * need embeddings must use another provider.
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly baseURL: string = API_URL,
+  ) {}
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    // System prompts are a top-level field rather than a message role
+    const system = request.messages
+      .filter((m) => m.role === 'system')
+      .map((m) => m.content)
+      .join('\n\n');
+    const messages = request.messages
+      .filter((m) => m.role !== 'system')
+      .map((m) => ({ role: m.role, content: m.content }));
+
+    const response = await fetch(this.baseURL, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': API_VERSION,
+      },
+      body: JSON.stringify({
+        model: request.model,
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: request.temperature,
+        ...(system && { system }),
+        messages,
+      }),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`Anthropic request failed (${response.status}): ${detail.slice(0, 200)}`);
+    }
+
+    const data = (await response.json()) as MessagesResponse;
+    const promptTokens = data.usage?.input_tokens ?? 0;
+    const completionTokens = data.usage?.output_tokens ?? 0;
+
+    return {
+      content: data.content
+        .filter((block) => block.type === 'text')
+        .map((block) => block.text ?? '')
+        .join('')
+        .trim(),
+      model: data.model || request.model,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+    };
+  }
+}
@@ -0,0 +1,102 @@
+import { createHash } from 'crypto';
+import type {
+  CompletionRequest,
+  CompletionResult,
+  EmbeddingResult,
+  LLMFeature,
+  LLMProvider,
+} from './types';
+
+interface Fixture {
+  feature?: LLMFeature;
+  match?: string | RegExp;
+  response: string;
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Deterministic offline provider for tests and demos. Replies come from
+ * registered fixtures, matched by feature and/or prompt text; anything
+ * unmatched gets a stable canned reply derived from the prompt.
+ */
+export class FixtureProvider implements LLMProvider {
+  readonly name = 'fixture' as const;
+  private fixtures: Fixture[] = [];
+
+  constructor(private readonly embeddingDimensions = 1536) {}
+
+  /**
+   * Register a reply. Later fixtures take precedence over earlier ones.
+   * Objects are serialised as JSON.
+   */
+  addFixture(fixture: {
+    feature?: LLMFeature;
+    match?: string | RegExp;
+    response: string | object;
+  }) {
+    this.fixtures.unshift({
+      ...fixture,
+      response:
+        typeof fixture.response === 'string' ? fixture.response : JSON.stringify(fixture.response),
+    });
+  }
+
+  clearFixtures() {
+    this.fixtures = [];
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const prompt = request.messages
+      .filter((m) => m.role === 'user')
+      .map((m) => m.content)
+      .join('\n');
+
+    const fixture = this.fixtures.find(
+      (f) =>
+        (!f.feature || f.feature === request.feature) &&
+        (!f.match ||
+          (typeof f.match === 'string' ? prompt.includes(f.match) : f.match.test(prompt))),
+    );
+
+    const content =
+      fixture?.response ??
+      (request.jsonMode ? '{}' : `[fixture] ${prompt.slice(0, 80).replace(/\s+/g, ' ').trim()}`);
+
+    const promptTokens = estimateTokens(request.messages.map((m) => m.content).join(''));
+    const completionTokens = estimateTokens(content);
+    return {
+      content,
+      model: request.model,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+    };
+  }
+
+  async embed(texts: string[], model: string): Promise<EmbeddingResult> {
+    const vectors = texts.map((text) => this.vectorFor(text));
+    const promptTokens = texts.reduce((sum, t) => sum + estimateTokens(t), 0);
+    return {
+      vectors,
+      model,
+      usage: { promptTokens, completionTokens: 0, totalTokens: promptTokens },
+    };
+  }
+
+  /**
+   * A unit vector seeded from the text's hash, so equal texts embed equally.
+   */
+  private vectorFor(text: string): number[] {
+    const vector: number[] = [];
+    let seed = createHash('sha256').update(text).digest();
+    while (vector.length < this.embeddingDimensions) {
+      for (let i = 0; i + 1 < seed.length && vector.length < this.embeddingDimensions; i += 2) {
+        vector.push(seed.readUInt16BE(i) / 32767.5 - 1);
+      }
+      seed = createHash('sha256').update(seed).digest();
+    }
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+    return vector.map((v) => v / norm);
+  }
+}
@@ -0,0 +1,391 @@
+import type { ZodType } from 'zod';
+import BaseService from '../base/BaseService';
+import { getRequestUserId } from '../../middleware/requestContext';
+import { AnthropicProvider } from './anthropicProvider';
+import { FixtureProvider } from './fixtureProvider';
+import { OpenAIProvider } from './openaiProvider';
+import {
+  LLMOutputError,
+  LLMUnavailableError,
+  type ChatMessage,
+  type CompletionResult,
+  type EmbeddingResult,
+  type LLMFeature,
+  type LLMProvider,
+  type LLMProviderName,
+  type TokenUsage,
+} from './types';
+
+export interface FeatureConfig {
+  provider: LLMProviderName | null;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface CompletionInput {
+  /** The user turn; appended after `messages` when both are given */
+  prompt?: string;
+  system?: string;
+  messages?: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  /** Defaults to the user of the current request */
+  userId?: number;
+}
+
+export interface JSONCompletionInput<T> extends CompletionInput {
+  schema: ZodType<T>;
+  /** Extra attempts after the first reply fails to parse or validate */
+  retries?: number;
+}
+
+export interface FeatureUsage {
+  feature: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+type ModelTier = 'chat' | 'reasoning' | 'embedding';
+
+const DEFAULT_MODELS: Record<LLMProviderName, Record<ModelTier, string | null>> = {
+  openai: { chat: 'gpt-4o-mini', reasoning: 'gpt-4o', embedding: 'text-embedding-3-small' },
+  anthropic: {
+    chat: 'claude-3-5-haiku-latest',
+    reasoning: 'claude-3-5-sonnet-latest',
+    embedding: null,
+  },
+  local: { chat: 'llama3.1', reasoning: 'llama3.1', embedding: 'nomic-embed-text' },
+  fixture: { chat: 'fixture', reasoning: 'fixture', embedding: 'fixture-embedding' },
+};
+
+const FEATURE_DEFAULTS: Record<
+  LLMFeature,
+  { tier: ModelTier; temperature: number; maxTokens: number }
+> = {
+  general: { tier: 'chat', temperature: 0.7, maxTokens: 1000 },
+  ai_draft: { tier: 'reasoning', temperature: 0.3, maxTokens: 2000 },
+  planning_assistant: { tier: 'reasoning', temperature: 0.7, maxTokens: 1000 },
+  parent_summary: { tier: 'chat', temperature: 0.7, maxTokens: 1500 },
+  newsletter: { tier: 'chat', temperature: 0.7, maxTokens: 3000 },
+  reflection_classifier: { tier: 'chat', temperature: 0.2, maxTokens: 300 },
+  curriculum_import: { tier: 'reasoning', temperature: 0.1, maxTokens: 2000 },
+  embedding: { tier: 'embedding', temperature: 0, maxTokens: 0 },
+};
+
+const PROVIDER_NAMES: LLMProviderName[] = ['openai', 'anthropic', 'local', 'fixture'];
+
+const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+
+/**
+ * Pull a JSON value out of a model reply, tolerating markdown code fences and
+ * prose around the payload.
+ */
+export function extractJSON(text: string): unknown {
+  const unfenced = text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '')
+    .trim();
+
+  try {
+    return JSON.parse(unfenced);
+  } catch {
+    const start = unfenced.search(/[[{]/);
+    const end = Math.max(unfenced.lastIndexOf('}'), unfenced.lastIndexOf(']'));
+    if (start === -1 || end <= start) {
+      throw new Error('Reply does not contain JSON');
+    }
+    return JSON.parse(unfenced.slice(start, end + 1));
+  }
+}
+
+/**
+ * Single entry point for every AI feature. Picks the provider and model per
+ * feature from the environment, validates structured replies, and records
+ * token usage against the requesting user.
+ *
+ * Environment:
+ * - LLM_PROVIDER: openai | anthropic | local | fixture (otherwise inferred
+ *   from whichever API key is set; fixture under NODE_ENV=test)
+ * - LLM_<FEATURE>_PROVIDER / LLM_<FEATURE>_MODEL: per-feature overrides,
+ *   e.g. LLM_AI_DRAFT_MODEL=gpt-4o
+ * - LLM_LOCAL_BASE_URL / LLM_LOCAL_API_KEY: OpenAI-compatible local server
+ */
+export class LLMGateway extends BaseService {
+  private providers = new Map<LLMProviderName, LLMProvider>();
+  private overrides = new Map<LLMFeature, Partial<FeatureConfig>>();
+
+  constructor() {
+    super('LLMGateway');
+  }
+
+  /**
+   * Provider, model and sampling settings a feature will use.
+   */
+  getFeatureConfig(feature: LLMFeature): FeatureConfig {
+    const defaults = FEATURE_DEFAULTS[feature];
+    const envKey = `LLM_${feature.toUpperCase()}`;
+    const override = this.overrides.get(feature) ?? {};
+
+    const provider =
+      override.provider !== undefined
+        ? override.provider
+        : (this.parseProviderName(process.env[`${envKey}_PROVIDER`]) ??
+          this.defaultProvider(defaults.tier));
+
+    const model =
+      override.model ??
+      process.env[`${envKey}_MODEL`] ??
+      (provider ? DEFAULT_MODELS[provider][defaults.tier] : null) ??
+      '';
+
+    return {
+      provider,
+      model,
+      temperature: override.temperature ?? defaults.temperature,
+      maxTokens: override.maxTokens ?? defaults.maxTokens,
+    };
+  }
+
+  /**
+   * Override a feature's configuration at runtime (admin tooling and tests).
+   */
+  configureFeature(feature: LLMFeature, config: Partial<FeatureConfig>) {
+    this.overrides.set(feature, { ...this.overrides.get(feature), ...config });
+  }
+
+  /**
+   * Replace the provider instance used for a provider name, e.g. to install a
+   * FixtureProvider with canned replies in tests.
+   */
+  setProvider(name: LLMProviderName, provider: LLMProvider) {
+    this.providers.set(name, provider);
+  }
+
+  /**
+   * Drop runtime overrides and cached providers so the environment is re-read.
+   */
+  reset() {
+    this.providers.clear();
+    this.overrides.clear();
+  }
+
+  isAvailable(feature: LLMFeature): boolean {
+    const config = this.getFeatureConfig(feature);
+    const provider = config.provider ? this.getProvider(config.provider) : null;
+    if (!provider || !config.model) return false;
+    return feature === 'embedding' ? typeof provider.embed === 'function' : true;
+  }
+
+  /**
+   * Free-text completion. Throws LLMUnavailableError when the feature has no
+   * provider; callers keep their own offline fallbacks.
+   */
+  async complete(feature: LLMFeature, input: CompletionInput): Promise<string> {
+    const result = await this.run(feature, buildMessages(input), input, false);
+    return result.content;
+  }
+
+  /**
+   * Completion parsed as JSON and validated against `schema`. Invalid replies
+   * are sent back to the model with the validation errors and retried.
+   */
+  async completeJSON<T>(feature: LLMFeature, input: JSONCompletionInput<T>): Promise<T> {
+    const messages = buildMessages(input);
+    const retries = input.retries ?? 2;
+    let raw = '';
+
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      const result = await this.run(feature, messages, input, true);
+      raw = result.content;
+
+      let problem: string;
+      try {
+        const parsed = input.schema.safeParse(extractJSON(raw));
+        if (parsed.success) return parsed.data;
+        problem = parsed.error.issues
+          .slice(0, 5)
+          .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+          .join('; ');
+      } catch (error) {
+        problem = error instanceof Error ? error.message : 'invalid JSON';
+      }
+
+      this.logger.warn({ feature, attempt: attempt + 1, problem }, 'LLM reply failed validation');
+      messages.push(
+        { role: 'assistant', content: raw },
+        {
+          role: 'user',
+          content: `That reply could not be used (${problem}). Respond again with only the corrected JSON.`,
+        },
+      );
+    }
+
+    throw new LLMOutputError(
+      `${feature} reply did not match the expected JSON after ${retries + 1} attempts`,
+      raw,
+    );
+  }
+
+  async embed(texts: string[], options: { userId?: number } = {}): Promise<EmbeddingResult> {
+    const config = this.getFeatureConfig('embedding');
+    const provider = config.provider ? this.getProvider(config.provider) : null;
+    if (!provider?.embed || !config.model) {
+      throw new LLMUnavailableError('embedding');
+    }
+
+    try {
+      const result = await provider.embed(texts, config.model);
+      this.recordUsage(
+        'embedding',
+        provider.name,
+        result.model,
+        result.usage,
+        true,
+        options.userId,
+      );
+      return result;
+    } catch (error) {
+      this.recordUsage('embedding', provider.name, config.model, null, false, options.userId);
+      throw error;
+    }
+  }
+
+  /**
+   * Token totals per feature for a user.
+   */
+  async getUsageSummary(userId: number, since?: Date): Promise<FeatureUsage[]> {
+    const rows = await this.prisma.llmUsage.groupBy({
+      by: ['feature'],
+      where: { userId, ...(since && { createdAt: { gte: since } }) },
+      _count: { _all: true },
+      _sum: { promptTokens: true, completionTokens: true, totalTokens: true },
+    });
+
+    return rows.map((row) => ({
+      feature: row.feature,
+      requests: row._count._all,
+      promptTokens: row._sum.promptTokens ?? 0,
+      completionTokens: row._sum.completionTokens ?? 0,
+      totalTokens: row._sum.totalTokens ?? 0,
+    }));
+  }
+
+  private async run(
+    feature: LLMFeature,
+    messages: ChatMessage[],
+    input: CompletionInput,
+    jsonMode: boolean,
+  ): Promise<CompletionResult> {
+    const config = this.getFeatureConfig(feature);
+    const provider = config.provider ? this.getProvider(config.provider) : null;
+    if (!provider || !config.model) {
+      throw new LLMUnavailableError(feature);
+    }
+
+    try {
+      const result = await provider.complete({
+        model: config.model,
+        messages,
+        temperature: input.temperature ?? config.temperature,
+        maxTokens: input.maxTokens ?? config.maxTokens,
+        jsonMode,
+        feature,
+      });
+      this.recordUsage(feature, provider.name, result.model, result.usage, true, input.userId);
+      return result;
+    } catch (error) {
+      this.recordUsage(feature, provider.name, config.model, null, false, input.userId);
+      throw error;
+    }
+  }
+
+  private getProvider(name: LLMProviderName): LLMProvider | null {
+    const cached = this.providers.get(name);
+    if (cached) return cached;
+
+    let provider: LLMProvider | null = null;
+    switch (name) {
+      case 'openai':
+        if (process.env.OPENAI_API_KEY) {
+          provider = new OpenAIProvider('openai', { apiKey: process.env.OPENAI_API_KEY });
+        }
+        break;
+      case 'anthropic':
+        if (process.env.ANTHROPIC_API_KEY) {
+          provider = new AnthropicProvider(process.env.ANTHROPIC_API_KEY);
+        }
+        break;
+      case 'local':
+        provider = new OpenAIProvider('local', {
+          apiKey: process.env.LLM_LOCAL_API_KEY || 'local',
+          baseURL: process.env.LLM_LOCAL_BASE_URL || DEFAULT_LOCAL_BASE_URL,
+        });
+        break;
+      case 'fixture':
+        provider = new FixtureProvider();
+        break;
+    }
+
+    if (provider) this.providers.set(name, provider);
+    return provider;
+  }
+
+  private defaultProvider(tier: ModelTier): LLMProviderName | null {
+    const configured = this.parseProviderName(process.env.LLM_PROVIDER);
+    if (configured && DEFAULT_MODELS[configured][tier]) return configured;
+
+    if (process.env.NODE_ENV === 'test') return 'fixture';
+    if (process.env.OPENAI_API_KEY) return 'openai';
+    // Anthropic has no embeddings, so embedding falls through to the next option
+    if (process.env.ANTHROPIC_API_KEY && tier !== 'embedding') return 'anthropic';
+    if (process.env.LLM_LOCAL_BASE_URL) return 'local';
+    return null;
+  }
+
+  private parseProviderName(value: string | undefined): LLMProviderName | null {
+    if (!value) return null;
+    const name = value.trim().toLowerCase() as LLMProviderName;
+    if (PROVIDER_NAMES.includes(name)) return name;
+    this.logger.warn({ value }, 'Ignoring unknown LLM provider name');
+    return null;
+  }
+
+  /**
+   * Fire-and-forget: accounting must never fail the request it describes.
+   */
+  private recordUsage(
+    feature: LLMFeature,
+    provider: LLMProviderName,
+    model: string,
+    usage: TokenUsage | null,
+    success: boolean,
+    userId?: number,
+  ) {
+    const data = {
+      userId: userId ?? getRequestUserId() ?? null,
+      feature,
+      provider,
+      model,
+      promptTokens: usage?.promptTokens ?? 0,
+      completionTokens: usage?.completionTokens ?? 0,
+      totalTokens: usage?.totalTokens ?? 0,
+      success,
+    };
+
+    Promise.resolve()
+      .then(() => this.prisma.llmUsage.create({ data }))
+      .catch((error) => this.logger.warn({ error, feature }, 'Failed to record LLM usage'));
+  }
+}
+
+function buildMessages(input: CompletionInput): ChatMessage[] {
+  const messages: ChatMessage[] = [];
+  if (input.system) messages.push({ role: 'system', content: input.system });
+  if (input.messages) messages.push(...input.messages);
+  if (input.prompt) messages.push({ role: 'user', content: input.prompt });
+  return messages;
+}
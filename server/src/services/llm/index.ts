@@ -0,0 +1,8 @@
+import { LLMGateway } from './gateway';
+
+export { LLMGateway, extractJSON } from './gateway';
+export type { FeatureConfig, CompletionInput, JSONCompletionInput, FeatureUsage } from './gateway';
+export { FixtureProvider } from './fixtureProvider';
+export * from './types';
+
+export const llmGateway = new LLMGateway();
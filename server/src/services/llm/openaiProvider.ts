@@ -0,0 +1,61 @@
+import OpenAI from 'openai';
+import type {
+  CompletionRequest,
+  CompletionResult,
+  EmbeddingResult,
+  LLMProvider,
+  LLMProviderName,
+} from './types';
+
+/**
+ * OpenAI chat and embeddings. Also drives OpenAI-compatible local servers
+ * (Ollama, llama.cpp, LM Studio) when given their base URL.
+ */
+export class OpenAIProvider implements LLMProvider {
+  private client: OpenAI;
+
+  constructor(
+    readonly name: LLMProviderName,
+    options: { apiKey: string; baseURL?: string },
+  ) {
+    this.client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const response = await this.client.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(request.jsonMode && { response_format: { type: 'json_object' as const } }),
+    });
+
+    return {
+      content: response.choices?.[0]?.message?.content?.trim() ?? '',
+      model: response.model || request.model,
+      usage: {
+        promptTokens: response.usage?.prompt_tokens ?? 0,
+        completionTokens: response.usage?.completion_tokens ?? 0,
+        totalTokens: response.usage?.total_tokens ?? 0,
+      },
+    };
+  }
+
+  async embed(texts: string[], model: string): Promise<EmbeddingResult> {
+    const response = await this.client.embeddings.create({
+      model,
+      input: texts,
+      encoding_format: 'float',
+    });
+
+    return {
+      vectors: response.data.map((d) => d.embedding),
+      model,
+      usage: {
+        promptTokens: response.usage?.prompt_tokens ?? 0,
+        completionTokens: 0,
+        totalTokens: response.usage?.total_tokens ?? 0,
+      },
+    };
+  }
+}
@@ -0,0 +1,80 @@
+export type LLMProviderName = 'openai' | 'anthropic' | 'local' | 'fixture';
+
+/**
+ * Features that call the gateway. Each can be pointed at its own provider and
+ * model, and usage is accounted per feature.
+ */
+export type LLMFeature =
+  | 'general'
+  | 'ai_draft'
+  | 'planning_assistant'
+  | 'parent_summary'
+  | 'newsletter'
+  | 'reflection_classifier'
+  | 'curriculum_import'
+  | 'embedding';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  /** Ask the provider for a JSON object where it supports it */
+  jsonMode?: boolean;
+  /** The calling feature; providers may use it (the fixture provider does) */
+  feature?: LLMFeature;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface CompletionResult {
+  content: string;
+  model: string;
+  usage: TokenUsage;
+}
+
+export interface EmbeddingResult {
+  vectors: number[][];
+  model: string;
+  usage: TokenUsage;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  /** Providers without an embeddings API leave this undefined */
+  embed?(texts: string[], model: string): Promise<EmbeddingResult>;
+}
+
+/**
+ * Thrown when no provider is configured for a feature.
+ */
+export class LLMUnavailableError extends Error {
+  constructor(feature: LLMFeature) {
+    super(`No LLM provider configured for ${feature}`);
+    this.name = 'LLMUnavailableError';
+  }
+}
+
+/**
+ * Thrown when a provider answers but the reply never matches the expected
+ * JSON shape, even after retries.
+ */
+export class LLMOutputError extends Error {
+  constructor(
+    message: string,
+    public readonly raw: string,
+  ) {
+    super(message);
+    this.name = 'LLMOutputError';
+  }
+}
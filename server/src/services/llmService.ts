@@ -1,5 +1,6 @@
 import OpenAI from 'openai';
 import logger from '../logger';
+import { llmGateway, type LLMFeature } from './llm';
 
 let openai: OpenAI | null = null;
 if (process.env.OPENAI_API_KEY) {
@@ -8,39 +9,19 @@ if (process.env.OPENAI_API_KEY) {
 
 export { openai };
 
-export async function generateContent(prompt: string, systemMessage?: string): Promise<string> {
-  if (!openai) {
-    logger.warn('OpenAI API key not configured, returning placeholder content');
-    return 'AI content generation is not available. Please configure OPENAI_API_KEY environment variable.';
+export async function generateContent(
+  prompt: string,
+  systemMessage?: string,
+  feature: LLMFeature = 'general',
+): Promise<string> {
+  if (!llmGateway.isAvailable(feature)) {
+    logger.warn({ feature }, 'No LLM provider configured, returning placeholder content');
+    return 'AI content generation is not available. Please configure an LLM provider (see LLM_PROVIDER).';
   }
 
   try {
-    const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [];
-
-    if (systemMessage) {
-      messages.push({
-        role: 'system',
-        content: systemMessage,
-      });
-    }
-
-    messages.push({
-      role: 'user',
-      content: prompt,
-    });
-
-    const chat = await openai.chat.completions.create({
-      model: 'gpt-3.5-turbo',
-      messages,
-      temperature: 0.7,
-      max_tokens: 1000,
-    });
-
-    if (chat?.usage?.total_tokens) {
-      logger.info({ tokens: chat.usage.total_tokens }, 'LLM tokens used for content generation');
-    }
-
-    return chat?.choices?.[0]?.message?.content?.trim() || 'No content generated';
+    const content = await llmGateway.complete(feature, { system: systemMessage, prompt });
+    return content || 'No content generated';
   } catch (err) {
     logger.error({ err }, 'LLM content generation failed');
     return 'Failed to generate content. Please try again later.';
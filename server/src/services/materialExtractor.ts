@@ -1,15 +1,18 @@
-// import { prisma } from '../prisma'; // Currently unused
+import { prisma, Prisma } from '../prisma';
+import { smartMaterialExtractor, SmartMaterial } from './smartMaterialExtractor';
 
 export interface MaterialItem {
   id: string;
   name: string;
   category: 'physical' | 'digital' | 'printable' | 'supplies' | 'equipment';
-  quantity?: number;
+  quantity?: string;
   location?: string;
   preparation?: string;
+  prepTime?: number; // minutes, counted once per day however many lessons use it
   alternatives?: string[];
   priority: 'essential' | 'recommended' | 'optional';
   source: 'activity' | 'resource' | 'inferred';
+  lessons?: string[]; // titles of the lessons that need it
 }
 
 export interface TimedMaterialList {
@@ -42,40 +45,46 @@ export interface ExtractedMaterials {
   };
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const lessonWithResources = {
+  include: {
+    resources: true,
+    unitPlan: { select: { id: true, title: true, resources: true } },
+  },
+} satisfies Prisma.ETFOLessonPlanDefaultArgs;
+
+export type LessonWithResources = Prisma.ETFOLessonPlanGetPayload<typeof lessonWithResources>;
+
 /**
- * Create an empty material list
+ * A teacher's lessons between two instants with their own and their unit's resources
  */
-function createEmptyMaterialList(): ExtractedMaterials {
-  return {
-    byTimeSlot: [],
-    byCategory: {
-      physical: [],
-      digital: [],
-      printable: [],
-      supplies: [],
-      equipment: [],
-    },
-    setupInstructions: [],
-    alternatives: [],
-    summary: {
-      totalItems: 0,
-      prepTime: 0,
-      missingItems: [],
-    },
-  };
+export function findLessonsWithResources(
+  userId: number,
+  start: Date,
+  end: Date,
+): Promise<LessonWithResources[]> {
+  return prisma.eTFOLessonPlan.findMany({
+    where: { userId, date: { gte: start, lt: end } },
+    ...lessonWithResources,
+    orderBy: { date: 'asc' },
+  });
 }
 
 /**
- * Extract all materials needed for a day's activities
+ * Extract all materials needed for a day's lessons
  */
 export async function extractDayMaterials(
   date: string,
-  _userId: number = 1,
+  userId: number,
 ): Promise<ExtractedMaterials> {
-  // DISABLED: Legacy function that used dailyPlan/Activity models
-  // TODO: Reimplement using ETFO lesson plans and daybook entries
-  console.warn('extractDayMaterials is disabled - legacy models removed');
-  return createEmptyMaterialList();
+  const dayStart = new Date(`${date}T00:00:00.000Z`);
+  const lessons = await findLessonsWithResources(
+    userId,
+    dayStart,
+    new Date(dayStart.getTime() + DAY_MS),
+  );
+  return buildDayMaterials(lessons, new Set());
 }
 
 /**
@@ -84,245 +93,192 @@ export async function extractDayMaterials(
 export async function extractWeeklyMaterials(
   startDate: string,
   numDays: number = 5,
-  userId: number = 1,
+  userId: number,
 ): Promise<Array<{ date: string; materials: ExtractedMaterials }>> {
+  const weekStart = new Date(`${startDate}T00:00:00.000Z`);
+  const lessons = await findLessonsWithResources(
+    userId,
+    weekStart,
+    new Date(weekStart.getTime() + numDays * DAY_MS),
+  );
+  // Unit resources are listed on the first day the unit is taught this week
+  const unitsListed = new Set<string>();
   const weeklyMaterials = [];
-  const startDateObj = new Date(startDate);
 
   for (let i = 0; i < numDays; i++) {
-    const currentDate = new Date(startDateObj);
-    currentDate.setUTCDate(startDateObj.getUTCDate() + i);
-    const dateStr = currentDate.toISOString().split('T')[0];
+    const dateStr = new Date(weekStart.getTime() + i * DAY_MS).toISOString().split('T')[0];
+    const dayLessons = lessons.filter((l) => l.date.toISOString().startsWith(dateStr));
 
-    const dayMaterials = await extractDayMaterials(dateStr, userId);
     weeklyMaterials.push({
       date: dateStr,
-      materials: dayMaterials,
+      materials: buildDayMaterials(dayLessons, unitsListed),
     });
   }
 
   return weeklyMaterials;
 }
 
-/**
- * Extract materials for a specific activity
- */
-// Unused legacy function
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-async function extractActivityMaterials(
-  activity: {
-    materials?: string[];
-    title?: string;
-    resources?: Array<{
-      id?: string;
-      type?: string;
-      filename?: string;
-      title?: string;
-      url?: string;
-    }>;
-    publicNote?: string;
-    privateNote?: string;
-    milestone?: { subject?: { name?: string } };
-    materialsText?: string;
-  },
-  _startMin: number,
-): Promise<{
-  materials: MaterialItem[];
-  setupTime?: number;
-  notes?: string;
-}> {
-  if (!activity) {
-    return { materials: [] };
-  }
+function buildDayMaterials(
+  lessons: LessonWithResources[],
+  unitsListed: Set<string>,
+): ExtractedMaterials {
+  const byTimeSlot: TimedMaterialList[] = [];
+  const missingItems: string[] = [];
 
-  const materials: MaterialItem[] = [];
-  let setupTime = 0;
+  for (const lesson of lessons) {
+    const includeUnit = !unitsListed.has(lesson.unitPlanId);
+    unitsListed.add(lesson.unitPlanId);
 
-  // Extract from linked resources
-  if (activity.resources && activity.resources.length > 0) {
-    for (const resource of activity.resources) {
-      const materialItem = convertResourceToMaterial(resource);
-      if (materialItem) {
-        materials.push(materialItem);
-      }
+    const materials = extractLessonMaterials(lesson, includeUnit);
+    if (materials.length === 0) {
+      missingItems.push(`${lesson.title} has no materials listed`);
     }
-  }
 
-  // Parse activity description and materials text for material mentions
-  const inferredMaterials = parseActivityDescription(
-    activity.title || '',
-    activity.publicNote || activity.privateNote || '',
-    activity.milestone?.subject?.name,
-  );
-  materials.push(...inferredMaterials);
-
-  // Parse materials text if available
-  if (activity.materialsText) {
-    const parsedMaterials = parseMaterialsText(activity.materialsText);
-    materials.push(...parsedMaterials);
+    byTimeSlot.push({
+      time: lesson.date.toISOString().slice(11, 16),
+      activity: lesson.title,
+      materials,
+      setupTime: materials.reduce((sum, m) => sum + (m.prepTime ?? 0), 0),
+      notes: generateActivityNotes(lesson, materials),
+    });
   }
 
-  // Add subject-specific materials
-  const subjectMaterials = getSubjectBasicMaterials(activity.milestone?.subject?.name);
-  materials.push(...subjectMaterials);
-
-  // Estimate setup time based on materials
-  setupTime = estimateSetupTime(materials);
+  const dayMaterials = mergeMaterials(byTimeSlot.flatMap((slot) => slot.materials));
 
   return {
-    materials: removeDuplicateMaterials(materials),
-    setupTime,
-    notes: generateActivityNotes(activity, materials),
-  };
-}
-
-/**
- * Convert a resource to a material item
- */
-function convertResourceToMaterial(resource: {
-  id?: string;
-  type?: string;
-  filename?: string;
-  title?: string;
-  url?: string;
-}): MaterialItem | null {
-  if (!resource) return null;
-
-  const category = determineResourceCategory(resource.type, resource.filename);
-
-  return {
-    id: `resource-${resource.id || Date.now()}`,
-    name: resource.filename || 'Unknown Resource',
-    category,
-    location: resource.url ? 'Digital file' : 'File location unknown',
-    priority: 'recommended',
-    source: 'resource',
+    byTimeSlot,
+    byCategory: categorizeMaterials(dayMaterials),
+    setupInstructions: generateSetupInstructions(byTimeSlot),
+    alternatives: generateMaterialAlternatives(dayMaterials),
+    summary: {
+      totalItems: dayMaterials.length,
+      prepTime: dayMaterials.reduce((sum, m) => sum + (m.prepTime ?? 0), 0),
+      missingItems,
+    },
   };
 }
 
 /**
- * Parse activity description to find material mentions
+ * Materials for one lesson: its free-text materials list, normalised by the
+ * smart extractor's pattern matching (the checklist is rebuilt on every view,
+ * so no AI call here), then its attached resources and optionally its unit's.
  */
-function parseActivityDescription(
-  title: string,
-  description: string,
-  _subject?: string,
+function extractLessonMaterials(
+  lesson: LessonWithResources,
+  includeUnitResources: boolean,
 ): MaterialItem[] {
-  const text = `${title} ${description}`.toLowerCase();
-  const materials: MaterialItem[] = [];
-
-  // Common material patterns
-  const materialPatterns = [
-    // Physical materials
-    {
-      pattern: /\b(paper|worksheet|handout)s?\b/g,
-      name: 'Paper/Worksheets',
-      category: 'printable' as const,
-    },
-    {
-      pattern: /\b(pencil|pen|marker|crayon)s?\b/g,
-      name: 'Writing tools',
-      category: 'supplies' as const,
-    },
-    {
-      pattern: /\b(calculator|ruler|compass)s?\b/g,
-      name: 'Math tools',
-      category: 'equipment' as const,
-    },
-    { pattern: /\b(book|textbook|novel)s?\b/g, name: 'Books', category: 'physical' as const },
-    { pattern: /\b(scissors|glue|tape)\b/g, name: 'Art supplies', category: 'supplies' as const },
-    {
-      pattern: /\b(computer|tablet|laptop)s?\b/g,
-      name: 'Technology',
-      category: 'equipment' as const,
-    },
-    {
-      pattern: /\b(whiteboard|smartboard|projector)\b/g,
-      name: 'Display equipment',
-      category: 'equipment' as const,
-    },
-
-    // Digital materials
-    {
-      pattern: /\b(video|movie|presentation|slideshow)\b/g,
-      name: 'Digital media',
-      category: 'digital' as const,
-    },
-    {
-      pattern: /\b(website|online|internet)\b/g,
-      name: 'Online resources',
-      category: 'digital' as const,
-    },
+  const text = materialsText(lesson.materials);
+  const extracted = text ? smartMaterialExtractor.extractMaterialsFromText(text) : [];
 
-    // Subject-specific
-    {
-      pattern: /\b(manipulative|counter|block)s?\b/g,
-      name: 'Math manipulatives',
-      category: 'equipment' as const,
-    },
-    {
-      pattern: /\b(microscope|magnet|beaker)s?\b/g,
-      name: 'Science equipment',
-      category: 'equipment' as const,
-    },
-    {
-      pattern: /\b(map|globe|chart)s?\b/g,
-      name: 'Reference materials',
-      category: 'physical' as const,
-    },
-  ];
+  const materials = extracted.map((m, index) => ({
+    ...convertSmartMaterial(m, `lesson-${lesson.id}-${index}`),
+    lessons: [lesson.title],
+  }));
 
-  materialPatterns.forEach(({ pattern, name, category }) => {
-    if (pattern.test(text)) {
+  for (const resource of lesson.resources) {
+    materials.push({ ...convertResourceToMaterial(resource), lessons: [lesson.title] });
+  }
+  if (includeUnitResources) {
+    for (const resource of lesson.unitPlan.resources) {
       materials.push({
-        id: `inferred-${name.replace(/\s+/g, '-').toLowerCase()}`,
-        name,
-        category,
+        ...convertResourceToMaterial(resource),
         priority: 'recommended',
-        source: 'inferred',
+        lessons: [lesson.unitPlan.title],
       });
     }
-  });
+  }
 
-  return materials;
+  return mergeMaterials(materials);
 }
 
 /**
- * Parse comma-separated materials text into material items
+ * Lesson materials are stored as JSON; turn an array of strings or a
+ * delimited string into text the smart extractor understands.
  */
-function parseMaterialsText(materialsText: string): MaterialItem[] {
-  if (!materialsText) return [];
-
-  const materials: MaterialItem[] = [];
-  const items = materialsText
-    .split(',')
-    .map((item) => item.trim())
-    .filter((item) => item.length > 0);
-
-  items.forEach((item, index) => {
-    const category = determineMaterialCategory(item);
-    materials.push({
-      id: `material-text-${index}`,
-      name: item,
-      category,
-      priority: 'essential', // Materials explicitly listed are likely essential
-      source: 'activity',
-    });
-  });
+function materialsText(materials: Prisma.JsonValue | null): string {
+  if (Array.isArray(materials)) {
+    const items = materials.filter((m) => m != null && m !== '').map((m) => `- ${String(m)}`);
+    return items.length ? `Materials:\n${items.join('\n')}` : '';
+  }
+  if (typeof materials === 'string' && materials.trim()) {
+    return `Materials: ${materials}`;
+  }
+  return '';
+}
 
-  return materials;
+function convertSmartMaterial(material: SmartMaterial, id: string): MaterialItem {
+  const categories: Record<SmartMaterial['category'], MaterialItem['category'] | null> = {
+    supplies: 'supplies',
+    technology: 'equipment',
+    books: 'physical',
+    equipment: 'equipment',
+    printables: 'printable',
+    other: null,
+  };
+  const priorities: Record<SmartMaterial['priority'], MaterialItem['priority']> = {
+    essential: 'essential',
+    helpful: 'recommended',
+    optional: 'optional',
+  };
+
+  return {
+    id,
+    name: material.name,
+    category: categories[material.category] ?? determineMaterialCategory(material.name),
+    ...(material.quantity && { quantity: material.quantity }),
+    ...(material.notes && { preparation: material.notes }),
+    prepTime: material.prepTime ?? 0,
+    priority: priorities[material.priority] ?? 'recommended',
+    source: 'activity',
+  };
 }
 
 /**
- * Determine resource category based on type and filename
+ * Convert a lesson or unit resource to a material item
  */
-function determineResourceCategory(type?: string, filename?: string): MaterialItem['category'] {
-  const combined = `${type || ''} ${filename || ''}`.toLowerCase();
+function convertResourceToMaterial(resource: {
+  id: string;
+  title: string;
+  type: string;
+  url: string | null;
+  content?: string | null;
+}): MaterialItem {
+  const category = determineResourceCategory(resource.type, resource.title);
+  const link = resource.url && /^https?:\/\//i.test(resource.url) ? resource.url : undefined;
+  const location = link ?? (resource.url || resource.content ? 'Printables bundle' : undefined);
 
-  if (combined.includes('pdf') || combined.includes('worksheet') || combined.includes('handout')) {
+  return {
+    id: `resource-${resource.id}`,
+    name: resource.title,
+    category,
+    ...(location && { location }),
+    ...(category === 'printable' && { preparation: 'Print copies' }),
+    prepTime: estimateSetupTime([{ category } as MaterialItem]),
+    priority: 'essential',
+    source: 'resource',
+  };
+}
+
+/**
+ * Determine resource category based on type and title
+ */
+function determineResourceCategory(type?: string, title?: string): MaterialItem['category'] {
+  const combined = `${type || ''} ${title || ''}`.toLowerCase();
+
+  if (
+    combined.includes('pdf') ||
+    combined.includes('worksheet') ||
+    combined.includes('handout') ||
+    combined.includes('document')
+  ) {
     return 'printable';
   }
-  if (combined.includes('video') || combined.includes('online') || combined.includes('website')) {
+  if (
+    combined.includes('video') ||
+    combined.includes('online') ||
+    combined.includes('website') ||
+    combined.includes('slide')
+  ) {
     return 'digital';
   }
   if (combined.includes('book') || combined.includes('card')) {
@@ -371,87 +327,9 @@ function determineMaterialCategory(name: string): MaterialItem['category'] {
   return 'supplies';
 }
 
-/**
- * Get basic materials every subject typically needs
- */
-function getSubjectBasicMaterials(subject?: string): MaterialItem[] {
-  const basicMaterials: MaterialItem[] = [
-    {
-      id: 'basic-writing',
-      name: 'Pencils/Pens',
-      category: 'supplies',
-      priority: 'essential',
-      source: 'inferred',
-    },
-    {
-      id: 'basic-paper',
-      name: 'Paper',
-      category: 'supplies',
-      priority: 'essential',
-      source: 'inferred',
-    },
-  ];
-
-  if (!subject) return basicMaterials;
-
-  const subjectLower = subject.toLowerCase();
-
-  if (subjectLower.includes('math')) {
-    basicMaterials.push(
-      {
-        id: 'math-manipulatives',
-        name: 'Math manipulatives',
-        category: 'equipment',
-        priority: 'recommended',
-        source: 'inferred',
-      },
-      {
-        id: 'math-calculator',
-        name: 'Calculator',
-        category: 'equipment',
-        priority: 'optional',
-        source: 'inferred',
-      },
-    );
-  }
-
-  if (subjectLower.includes('science')) {
-    basicMaterials.push({
-      id: 'science-notebook',
-      name: 'Science notebook',
-      category: 'supplies',
-      priority: 'recommended',
-      source: 'inferred',
-    });
-  }
-
-  if (subjectLower.includes('art')) {
-    basicMaterials.push({
-      id: 'art-supplies',
-      name: 'Art supplies (crayons, markers)',
-      category: 'supplies',
-      priority: 'essential',
-      source: 'inferred',
-    });
-  }
-
-  if (subjectLower.includes('language') || subjectLower.includes('english')) {
-    basicMaterials.push({
-      id: 'reading-books',
-      name: 'Reading books',
-      category: 'physical',
-      priority: 'recommended',
-      source: 'inferred',
-    });
-  }
-
-  return basicMaterials;
-}
-
 /**
  * Categorize materials by type
  */
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
 function categorizeMaterials(materials: MaterialItem[]) {
   return {
     physical: materials.filter((m) => m.category === 'physical'),
@@ -462,25 +340,58 @@ function categorizeMaterials(materials: MaterialItem[]) {
   };
 }
 
+/** "Glue sticks" and "glue stick" are the same item */
+function materialKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '')
+    .replace(/e?s$/, '');
+}
+
+const PRIORITY_RANK: Record<MaterialItem['priority'], number> = {
+  essential: 0,
+  recommended: 1,
+  optional: 2,
+};
+
 /**
- * Remove duplicate materials based on name similarity
+ * Combine items with the same name. Counts take the largest (the same class
+ * reuses the glue sticks), other quantities are listed, prep is done once.
  */
-function removeDuplicateMaterials(materials: MaterialItem[]): MaterialItem[] {
-  const seen = new Set<string>();
-  return materials.filter((material) => {
-    const key = material.name.toLowerCase().replace(/[^a-z0-9]/g, '');
-    if (seen.has(key)) {
-      return false;
+export function mergeMaterials(materials: MaterialItem[]): MaterialItem[] {
+  const merged = new Map<string, MaterialItem>();
+
+  for (const material of materials) {
+    const key = materialKey(material.name);
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, { ...material, lessons: [...(material.lessons ?? [])] });
+      continue;
     }
-    seen.add(key);
-    return true;
-  });
+
+    existing.quantity = mergeQuantities(existing.quantity, material.quantity);
+    existing.prepTime = Math.max(existing.prepTime ?? 0, material.prepTime ?? 0);
+    existing.preparation ??= material.preparation;
+    if (PRIORITY_RANK[material.priority] < PRIORITY_RANK[existing.priority]) {
+      existing.priority = material.priority;
+    }
+    for (const lesson of material.lessons ?? []) {
+      if (!existing.lessons!.includes(lesson)) existing.lessons!.push(lesson);
+    }
+  }
+
+  return Array.from(merged.values());
+}
+
+function mergeQuantities(a?: string, b?: string): string | undefined {
+  if (!a || !b || a === b) return a || b;
+  if (/^\d+$/.test(a) && /^\d+$/.test(b)) return String(Math.max(Number(a), Number(b)));
+  return `${a}; ${b}`;
 }
 
 /**
  * Generate setup instructions for the day
  */
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
 function generateSetupInstructions(timeSlots: TimedMaterialList[]): string[] {
   const instructions: string[] = [];
 
@@ -497,8 +408,8 @@ function generateSetupInstructions(timeSlots: TimedMaterialList[]): string[] {
   }
 
   // Special equipment setup
-  const equipment = timeSlots.flatMap((slot) =>
-    slot.materials.filter((m) => m.category === 'equipment'),
+  const equipment = mergeMaterials(
+    timeSlots.flatMap((slot) => slot.materials.filter((m) => m.category === 'equipment')),
   );
 
   if (equipment.length > 0) {
@@ -526,7 +437,6 @@ function generateSetupInstructions(timeSlots: TimedMaterialList[]): string[] {
 /**
  * Generate alternative materials for common scenarios
  */
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
 function generateMaterialAlternatives(materials: MaterialItem[]) {
   const alternatives = [];
 
@@ -573,6 +483,9 @@ function estimateSetupTime(materials: MaterialItem[]): number {
 
   materials.forEach((material) => {
     switch (material.category) {
+      case 'printable':
+        time += 5; // copying and sorting handouts
+        break;
       case 'equipment':
         time += 3; // 3 minutes per equipment item
         break;
@@ -591,26 +504,10 @@ function estimateSetupTime(materials: MaterialItem[]): number {
 }
 
 /**
- * Generate activity-specific notes
+ * Generate lesson-specific notes
  */
 function generateActivityNotes(
-  activity: {
-    materials?: string[];
-    title?: string;
-    resources?: Array<{
-      id?: string;
-      type?: string;
-      filename?: string;
-      title?: string;
-      url?: string;
-    }>;
-    publicNote?: string;
-    privateNote?: string;
-    milestone?: { subject?: { name?: string } };
-    materialsText?: string;
-    type?: string;
-    duration?: number;
-  },
+  lesson: { duration: number },
   materials: MaterialItem[],
 ): string | undefined {
   const notes = [];
@@ -623,37 +520,9 @@ function generateActivityNotes(
     notes.push('Have backup plan ready in case of technology issues');
   }
 
-  if (activity.duration && activity.duration > 60) {
+  if (lesson.duration > 60) {
     notes.push('Long activity - prepare materials for smooth transitions');
   }
 
   return notes.length > 0 ? notes.join('; ') : undefined;
 }
-
-/**
- * Identify potentially missing items that should be checked
- */
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-function identifyPotentialMissingItems(materials: MaterialItem[]): string[] {
-  const missing = [];
-
-  const essentialCategories = ['supplies', 'equipment'];
-  essentialCategories.forEach((category) => {
-    const categoryItems = materials.filter((m) => m.category === category);
-    if (categoryItems.length === 0) {
-      missing.push(`No ${category} identified - check if any are needed`);
-    }
-  });
-
-  return missing;
-}
-
-/**
- * Format time from minutes to HH:MM
- */
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-function formatTime(minutes: number): string {
-  const hours = Math.floor(minutes / 60);
-  const mins = minutes % 60;
-  return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`;
-}
@@ -1,4 +1,12 @@
-// import { prisma } from '../prisma'; // Unused import
+import archiver from 'archiver';
+import path from 'path';
+import { readStoredFile } from '../storage';
+import {
+  extractWeeklyMaterials,
+  ExtractedMaterials,
+  findLessonsWithResources,
+  mergeMaterials,
+} from './materialExtractor';
 
 export function extractMaterials(note: string): string[] {
   const items = new Set<string>();
@@ -39,45 +47,100 @@ export function extractMaterials(note: string): string[] {
   return Array.from(items);
 }
 
+const SCHOOL_DAYS = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 /**
- * Generate a list of materials needed for the given week by scanning
- * activity notes for lines beginning with "Materials:".
+ * Generate a de-duplicated list of materials needed for the given week from
+ * the teacher's lesson plans and their resources.
  */
-export async function generateMaterialList(_weekStart: string): Promise<string[]> {
-  // DISABLED: Legacy function that used lessonPlan/Activity models
-  // TODO: Reimplement using ETFO lesson plans and daybook entries
-  console.warn('generateMaterialList is disabled - legacy models removed');
-  return [];
+export async function generateMaterialList(weekStart: string, userId: number): Promise<string[]> {
+  const days = await generateMaterialDetails(weekStart, userId);
+  const items = mergeMaterials(days.flatMap((d) => Object.values(d.materials.byCategory).flat()));
+  return items.map((m) => (m.quantity ? `${m.name} (${m.quantity})` : m.name));
 }
 
 /**
- * Update or create the material list record for the given week.
+ * Per-day prep checklists for the school week starting on weekStart.
  */
-export async function updateMaterialList(weekStart: string): Promise<void> {
-  const items = await generateMaterialList(weekStart);
-  
-  // DISABLED: MaterialList model has been archived
-  // TODO: Implement using ETFO UnitPlanResource and ETFOLessonPlanResource models
-  console.warn(`updateMaterialList is disabled - MaterialList model archived. Items for ${weekStart}:`, items);
+export async function generateMaterialDetails(
+  weekStart: string,
+  userId: number,
+): Promise<Array<{ date: string; materials: ExtractedMaterials }>> {
+  return extractWeeklyMaterials(weekStart, SCHOOL_DAYS, userId);
 }
 
-export interface ActivityMaterials {
-  day: number;
-  activityId: number;
-  title: string;
-  materials: string[];
+/** Keep archive entry names portable */
+function safeName(name: string): string {
+  return name.replace(/[\\/:*?"<>|]+/g, '-').trim() || 'untitled';
 }
 
-export async function generateMaterialDetails(_weekStart: string): Promise<ActivityMaterials[]> {
-  // DISABLED: Legacy function that used lessonPlan/Activity models
-  // TODO: Reimplement using ETFO lesson plans and daybook entries
-  console.warn('generateMaterialDetails is disabled - legacy models removed');
-  return [];
-}
+/**
+ * Zip every handout attached to the week's lessons and their units. Uploaded
+ * files and inline content are included; links to other sites are listed in
+ * links.txt.
+ */
+export async function zipWeeklyPrintables(weekStart: string, userId: number): Promise<Buffer> {
+  const start = new Date(`${weekStart}T00:00:00.000Z`);
+  const lessons = await findLessonsWithResources(
+    userId,
+    start,
+    new Date(start.getTime() + SCHOOL_DAYS * DAY_MS),
+  );
+
+  const archive = archiver('zip');
+  const chunks: Buffer[] = [];
+  archive.on('data', (d: Buffer) => chunks.push(d));
+
+  const usedNames = new Set<string>();
+  const links: string[] = [];
+  const unitsAdded = new Set<string>();
+
+  const addResource = async (
+    folder: string,
+    resource: { title: string; url: string | null; content?: string | null },
+  ) => {
+    let content: Buffer | null = null;
+    let extension = '';
+    if (resource.url) {
+      content = await readStoredFile(resource.url);
+      extension = path.extname(resource.url.split('?')[0]);
+    }
+    if (!content && resource.content) {
+      content = Buffer.from(resource.content);
+      extension = '.txt';
+    }
+    if (!content) {
+      if (resource.url) links.push(`${folder}: ${resource.title}\n  ${resource.url}`);
+      return;
+    }
+
+    const base = `${folder}/${safeName(resource.title)}`;
+    let name = `${base}${extension}`;
+    for (let n = 2; usedNames.has(name); n++) name = `${base} (${n})${extension}`;
+    usedNames.add(name);
+    archive.append(content, { name });
+  };
+
+  for (const lesson of lessons) {
+    const day = lesson.date.toISOString().slice(0, 10);
+    for (const resource of lesson.resources) {
+      await addResource(`${day} ${safeName(lesson.title)}`, resource);
+    }
+    if (!unitsAdded.has(lesson.unitPlanId)) {
+      unitsAdded.add(lesson.unitPlanId);
+      for (const resource of lesson.unitPlan.resources) {
+        await addResource(`Unit - ${safeName(lesson.unitPlan.title)}`, resource);
+      }
+    }
+  }
+
+  if (links.length > 0) {
+    archive.append(`Online resources for the week of ${weekStart}\n\n${links.join('\n\n')}\n`, {
+      name: 'links.txt',
+    });
+  }
 
-export async function zipWeeklyPrintables(_weekStart: string): Promise<Buffer> {
-  // DISABLED: Legacy function that used lessonPlan/Activity models
-  // TODO: Reimplement using ETFO lesson plans and resources
-  console.warn('zipWeeklyPrintables is disabled - legacy models removed');
-  return Buffer.alloc(0);
+  await archive.finalize();
+  return Buffer.concat(chunks);
 }
@@ -0,0 +1,142 @@
+import type { Newsletter } from '@teaching-engine/database';
+import { prisma } from '../prisma';
+import {
+  EmailAttachment,
+  composeBilingualEmail,
+  queueEmail,
+  selectEmailLanguage,
+} from './emailService';
+import { GuardianLanguage, getGuardiansForStudents, planGuardianDelivery } from './guardianService';
+import {
+  NewsletterSection,
+  generateNewsletterPDF,
+  renderNewsletterEmail,
+} from './newsletterService';
+
+/**
+ * Email a newsletter to the families of its students, each guardian in their
+ * preferred language, plus any addresses typed in at send time (bilingual,
+ * with `language` first). Typed-in addresses of restricted guardians are not
+ * emailed. Every recipient, including skipped guardians, is recorded on the
+ * newsletter.
+ */
+export async function sendNewsletterToFamilies(
+  newsletter: Newsletter,
+  userId: number,
+  options: { recipientEmails: string[]; language: GuardianLanguage; includeGuardians: boolean },
+) {
+  const document = {
+    title: newsletter.title,
+    titleFr: newsletter.titleFr,
+    sections: newsletter.sections as unknown as NewsletterSection[],
+  };
+  const content = renderNewsletterEmail(document);
+  const attachments: EmailAttachment[] = [
+    {
+      filename: 'newsletter.pdf',
+      content: await generateNewsletterPDF(document),
+      contentType: 'application/pdf',
+    },
+  ];
+  const queueOptions = { userId, relatedType: 'newsletter', relatedId: newsletter.id };
+
+  const guardians = options.includeGuardians
+    ? await getGuardiansForStudents(userId, newsletter.studentIds as number[])
+    : [];
+  const { recipients, skipped } = planGuardianDelivery(guardians);
+
+  const rows = [];
+  for (const recipient of recipients) {
+    const delivery = await queueEmail(
+      {
+        ...selectEmailLanguage(content, recipient.language),
+        to: recipient.email,
+        attachments,
+      },
+      queueOptions,
+    );
+    rows.push({
+      guardianId: recipient.guardian.id,
+      studentId: recipient.guardian.studentId,
+      name: recipient.guardian.name,
+      email: recipient.email,
+      language: recipient.language,
+      status: 'queued',
+      emailDeliveryId: delivery.id,
+    });
+  }
+
+  const emailed = new Set(recipients.map((recipient) => recipient.email));
+  const restricted = new Map(
+    skipped
+      .filter((skip) => skip.reason === 'restricted' && skip.guardian.email)
+      .map((skip) => [skip.guardian.email!.trim().toLowerCase(), skip.guardian]),
+  );
+  const typedIn = [...new Set(options.recipientEmails.map((email) => email.trim().toLowerCase()))];
+  const bilingual = composeBilingualEmail(content, options.language);
+
+  for (const email of typedIn) {
+    if (emailed.has(email) || restricted.has(email)) continue;
+    const delivery = await queueEmail({ ...bilingual, to: email, attachments }, queueOptions);
+    rows.push({
+      email,
+      language: options.language,
+      status: 'queued',
+      emailDeliveryId: delivery.id,
+    });
+  }
+
+  for (const { guardian, reason } of skipped) {
+    rows.push({
+      guardianId: guardian.id,
+      studentId: guardian.studentId,
+      name: guardian.name,
+      email: guardian.email,
+      language: guardian.preferredLanguage,
+      status: 'skipped',
+      skipReason: reason,
+    });
+  }
+
+  await prisma.newsletterRecipient.createMany({
+    data: rows.map((row) => ({ ...row, newsletterId: newsletter.id })),
+  });
+
+  return {
+    sent: rows.filter((row) => row.status === 'queued').length,
+    skipped: skipped.length,
+  };
+}
+
+/**
+ * A newsletter's recipients with the live status of their email delivery.
+ */
+export async function listNewsletterRecipients(newsletterId: string) {
+  const recipients = await prisma.newsletterRecipient.findMany({
+    where: { newsletterId },
+    orderBy: { createdAt: 'asc' },
+  });
+  const deliveries = await prisma.emailDelivery.findMany({
+    where: {
+      id: {
+        in: recipients
+          .map((recipient) => recipient.emailDeliveryId)
+          .filter((id): id is string => !!id),
+      },
+    },
+    select: { id: true, status: true, lastError: true, sentAt: true },
+  });
+  const deliveriesById = new Map(deliveries.map((delivery) => [delivery.id, delivery]));
+
+  return recipients.map((recipient) => {
+    const delivery = recipient.emailDeliveryId
+      ? deliveriesById.get(recipient.emailDeliveryId)
+      : undefined;
+    return {
+      ...recipient,
+      status: delivery?.status ?? recipient.status,
+      lastError: delivery?.lastError ?? null,
+      sentAt: delivery?.sentAt ?? null,
+    };
+  });
+}
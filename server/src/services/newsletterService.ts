@@ -1,5 +1,8 @@
 import { Student, DaybookEntry, StudentArtifact, StudentReflection } from '@teaching-engine/database';
-import OpenAI from 'openai';
+import PDFDocument from 'pdfkit';
+import { z } from 'zod';
+import { escapeHtml, type BilingualEmailContent } from './emailService';
+import { llmGateway } from './llm';
 
 // Newsletter types
 export type NewsletterTone = 'friendly' | 'formal' | 'informative';
@@ -14,8 +17,15 @@ export interface NewsletterSection {
   order: number;
 }
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY || '',
+const GeneratedNewsletterSchema = z.object({
+  sections: z.array(
+    z.object({
+      title: z.string().optional(),
+      titleFr: z.string().optional(),
+      content: z.string().optional(),
+      contentFr: z.string().optional(),
+    }),
+  ),
 });
 
 interface NewsletterGenerationOptions {
@@ -96,26 +106,17 @@ For each section, provide:
 - content (English, using simple HTML for formatting)
 - contentFr (French, using simple HTML for formatting)
 
-Format the response as a JSON array of sections.`;
+Format the response as a JSON object of the form { "sections": [ ... ] }.`;
 
   try {
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt },
-      ],
+    const parsed = await llmGateway.completeJSON('newsletter', {
+      system: systemPrompt,
+      prompt: userPrompt,
       temperature: tone === 'friendly' ? 0.8 : tone === 'formal' ? 0.5 : 0.6,
-      response_format: { type: 'json_object' },
+      schema: GeneratedNewsletterSchema,
     });
 
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error('No content generated');
-    }
-
-    const parsed = JSON.parse(content);
-    const sections: NewsletterSection[] = (parsed.sections || []).map((section: { title?: string; titleFr?: string; content?: string; contentFr?: string }, index: number) => ({
+    const sections: NewsletterSection[] = parsed.sections.map((section, index) => ({
       id: `section-${Date.now()}-${index}`,
       title: section.title || 'Section',
       titleFr: section.titleFr || 'Section',
@@ -245,4 +246,89 @@ function generateFallbackNewsletter({
   });
 
   return { sections };
-}
\ No newline at end of file
+}
+export interface NewsletterDocument {
+  title: string;
+  titleFr: string;
+  sections: NewsletterSection[];
+}
+
+/**
+ * Reduce section HTML to plain text for the text/plain body and the PDF.
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '• ')
+    .replace(/<\/(p|li|h[1-6]|div)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function orderedSections(newsletter: NewsletterDocument): NewsletterSection[] {
+  return [...newsletter.sections].sort((a, b) => a.order - b.order);
+}
+
+/**
+ * Render a saved newsletter as English and French email bodies.
+ */
+export function renderNewsletterEmail(newsletter: NewsletterDocument): BilingualEmailContent {
+  const sections = orderedSections(newsletter);
+  const render = (title: string, pick: (s: NewsletterSection) => [string, string]) => ({
+    subject: title,
+    text: [
+      title,
+      ...sections.map((s) => {
+        const [heading, content] = pick(s);
+        return `${heading}\n\n${htmlToText(content)}`;
+      }),
+    ].join('\n\n'),
+    html: [
+      `<h1>${escapeHtml(title)}</h1>`,
+      ...sections.map((s) => {
+        const [heading, content] = pick(s);
+        return `<h2>${escapeHtml(heading)}</h2>\n${content}`;
+      }),
+    ].join('\n'),
+  });
+
+  return {
+    en: render(newsletter.title, (s) => [s.title, s.content]),
+    fr: render(newsletter.titleFr, (s) => [s.titleFr, s.contentFr]),
+  };
+}
+
+/**
+ * Generate a printable bilingual PDF of a newsletter, English first.
+ */
+export function generateNewsletterPDF(newsletter: NewsletterDocument): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument();
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const sections = orderedSections(newsletter);
+    const writeLanguage = (title: string, pick: (s: NewsletterSection) => [string, string]) => {
+      doc.fontSize(18).text(title, { align: 'center' });
+      doc.moveDown();
+      sections.forEach((section) => {
+        const [heading, content] = pick(section);
+        doc.fontSize(14).text(heading, { underline: true });
+        doc.fontSize(11).text(htmlToText(content));
+        doc.moveDown();
+      });
+    };
+
+    writeLanguage(newsletter.title, (s) => [s.title, s.content]);
+    doc.addPage();
+    writeLanguage(newsletter.titleFr, (s) => [s.titleFr, s.contentFr]);
+    doc.end();
+  });
+}
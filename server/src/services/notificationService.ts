@@ -1,6 +1,9 @@
 import BaseService from './base/BaseService';
 import { emailService } from './emailService';
-import { prisma } from '../prisma';
+import { prisma, Prisma } from '../prisma';
+import type { Notification as NotificationRecord } from '@teaching-engine/database';
+
+export type NotificationChannel = 'in_app' | 'email' | 'push';
 
 export interface Notification {
   id: string;
@@ -9,9 +12,13 @@ export interface Notification {
   title: string;
   message: string;
   priority: 'low' | 'medium' | 'high' | 'urgent';
-  channels: ('in_app' | 'email' | 'push')[];
+  channels: NotificationChannel[];
+  /** Preference category, e.g. 'milestone' or 'reminder'. Defaults to 'system'. */
+  category?: string;
   metadata?: Record<string, unknown>;
   expiresAt?: Date;
+  read?: boolean;
+  readAt?: Date | null;
   createdAt: Date;
 }
 
@@ -22,11 +29,12 @@ export interface NotificationPreferences {
   quietHours: {
     start: string; // HH:MM format
     end: string; // HH:MM format
+    timeZone: string; // IANA zone the times are in, e.g. America/Toronto
   };
   categories: {
     [category: string]: {
       enabled: boolean;
-      channels: ('in_app' | 'email' | 'push')[];
+      channels: NotificationChannel[];
     };
   };
 }
@@ -37,13 +45,60 @@ export interface NotificationTemplate {
   type: 'info' | 'warning' | 'error' | 'success';
   title: string;
   messageTemplate: string;
-  defaultChannels: ('in_app' | 'email' | 'push')[];
+  defaultChannels: NotificationChannel[];
+  /** Preference category notifications from this template are filed under */
+  category?: string;
   variables: string[];
 }
 
+const DEFAULT_TIME_ZONE = 'America/Toronto';
+
+/** Whether `zone` is an IANA time zone the runtime knows */
+export function isTimeZone(zone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-GB', { timeZone: zone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Wall-clock time of day (HH:MM) at `date` in `timeZone` */
+function localTimeOfDay(date: Date, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? '00';
+  return `${part('hour')}:${part('minute')}`;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function toNotification(record: NotificationRecord): Notification {
+  return {
+    id: record.id,
+    userId: record.userId,
+    type: record.type as Notification['type'],
+    title: record.title,
+    message: record.message,
+    priority: record.priority as Notification['priority'],
+    channels: (record.channels as NotificationChannel[]) ?? [],
+    category: record.category,
+    metadata: (record.metadata as Record<string, unknown>) ?? undefined,
+    expiresAt: record.expiresAt ?? undefined,
+    read: record.read,
+    readAt: record.readAt,
+    createdAt: record.createdAt,
+  };
+}
+
 export class NotificationService extends BaseService {
-  private notifications: Map<string, Notification> = new Map();
-  private preferences: Map<number, NotificationPreferences> = new Map();
   private templates: Map<string, NotificationTemplate> = new Map();
   private cleanupInterval: NodeJS.Timeout;
 
@@ -54,12 +109,13 @@ export class NotificationService extends BaseService {
   }
 
   /**
-   * Send a notification to a user
+   * Send a notification to a user.
+   * Returns the stored notification id, or null when preferences suppress every channel.
    */
   async sendNotification(
     userId: number,
-    notification: Omit<Notification, 'id' | 'userId' | 'createdAt'>,
-  ): Promise<string> {
+    notification: Omit<Notification, 'id' | 'userId' | 'createdAt' | 'read' | 'readAt'>,
+  ): Promise<string | null> {
     try {
       this.validateRequired({ userId, title: notification.title, message: notification.message }, [
         'userId',
@@ -67,37 +123,53 @@ export class NotificationService extends BaseService {
         'message',
       ]);
 
-      const notificationId = `notif_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-      const fullNotification: Notification = {
-        id: notificationId,
-        userId,
-        createdAt: new Date(),
-        ...notification,
-      };
+      const category = notification.category || 'system';
 
       // Check user preferences
       const userPrefs = await this.getUserPreferences(userId);
-      const effectiveChannels = this.filterChannelsByPreferences(notification.channels, userPrefs);
+      const effectiveChannels = this.filterChannelsByPreferences(
+        notification.channels,
+        userPrefs,
+        category,
+      );
 
       if (effectiveChannels.length === 0) {
-        this.logger.info({ userId, notificationId }, 'No enabled channels for notification');
-        return notificationId;
+        this.logger.info({ userId, category }, 'No enabled channels for notification');
+        return null;
       }
 
-      // Store in-app notification
-      if (effectiveChannels.includes('in_app')) {
-        this.notifications.set(notificationId, fullNotification);
-      }
+      // Every delivered notification is recorded; ones not sent in-app are stored as
+      // already read so they do not count towards the unread badge
+      const record = await prisma.notification.create({
+        data: {
+          userId,
+          type: notification.type,
+          category,
+          title: notification.title,
+          message: notification.message,
+          priority: notification.priority,
+          channels: effectiveChannels,
+          metadata: (notification.metadata as Prisma.InputJsonValue) ?? undefined,
+          expiresAt: notification.expiresAt,
+          // Notifications that were not meant for the inbox should not show as unread
+          read: !effectiveChannels.includes('in_app'),
+        },
+      });
+      const fullNotification = toNotification(record);
+      const notificationId = record.id;
+
+      // Email and push wait for the end of quiet hours unless urgent
+      const deliverAfter =
+        notification.priority === 'urgent' ? null : this.quietHoursEnd(userPrefs.quietHours);
 
       // Send email notification
-      if (effectiveChannels.includes('email') && userPrefs.emailEnabled) {
-        await this.sendEmailNotification(userId, fullNotification);
+      if (effectiveChannels.includes('email')) {
+        await this.sendEmailNotification(userId, fullNotification, deliverAfter);
       }
 
       // Send push notification (placeholder for future implementation)
-      if (effectiveChannels.includes('push') && userPrefs.pushEnabled) {
-        await this.sendPushNotification(userId, fullNotification);
+      if (effectiveChannels.includes('push')) {
+        await this.sendPushNotification(userId, fullNotification, deliverAfter);
       }
 
       this.logger.info(
@@ -106,6 +178,7 @@ export class NotificationService extends BaseService {
           notificationId,
           type: notification.type,
           channels: effectiveChannels,
+          deliverAfter,
         },
         'Notification sent successfully',
       );
@@ -125,11 +198,11 @@ export class NotificationService extends BaseService {
     variables: Record<string, string>,
     options: {
       priority?: 'low' | 'medium' | 'high' | 'urgent';
-      channels?: ('in_app' | 'email' | 'push')[];
+      channels?: NotificationChannel[];
       expiresAt?: Date;
       metadata?: Record<string, unknown>;
     } = {},
-  ): Promise<string> {
+  ): Promise<string | null> {
     try {
       const template = this.templates.get(templateId);
       if (!template) {
@@ -155,6 +228,7 @@ export class NotificationService extends BaseService {
         message,
         priority: options.priority || 'medium',
         channels: options.channels || template.defaultChannels,
+        category: template.category,
         metadata: options.metadata,
         expiresAt: options.expiresAt,
       });
@@ -177,20 +251,40 @@ export class NotificationService extends BaseService {
     notifications: Notification[];
     total: number;
     unreadCount: number;
+    limit: number;
+    offset: number;
+    hasMore: boolean;
   }> {
     try {
       const { limit = 50, offset = 0, unreadOnly = false } = options;
 
-      const userNotifications = Array.from(this.notifications.values())
-        .filter((n) => n.userId === userId)
-        .filter((n) => !unreadOnly || !this.isNotificationRead(n.id))
-        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
-
-      const total = userNotifications.length;
-      const unreadCount = userNotifications.filter((n) => !this.isNotificationRead(n.id)).length;
-      const notifications = userNotifications.slice(offset, offset + limit);
+      const visible: Prisma.NotificationWhereInput = {
+        userId,
+        OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+      };
+      const where: Prisma.NotificationWhereInput = unreadOnly
+        ? { ...visible, read: false }
+        : visible;
+
+      const [records, total, unreadCount] = await Promise.all([
+        prisma.notification.findMany({
+          where,
+          orderBy: { createdAt: 'desc' },
+          skip: offset,
+          take: limit,
+        }),
+        prisma.notification.count({ where }),
+        prisma.notification.count({ where: { ...visible, read: false } }),
+      ]);
 
-      return { notifications, total, unreadCount };
+      return {
+        notifications: records.map(toNotification),
+        total,
+        unreadCount,
+        limit,
+        offset,
+        hasMore: offset + records.length < total,
+      };
     } catch (error) {
       this.handleError(error, { userId, options });
     }
@@ -201,15 +295,14 @@ export class NotificationService extends BaseService {
    */
   async markAsRead(notificationId: string, userId: number): Promise<boolean> {
     try {
-      const notification = this.notifications.get(notificationId);
-      if (!notification || notification.userId !== userId) {
+      const result = await prisma.notification.updateMany({
+        where: { id: notificationId, userId },
+        data: { read: true, readAt: new Date() },
+      });
+      if (result.count === 0) {
         return false;
       }
 
-      // In a real implementation, you'd store read status in database
-      // For now, we'll use a simple in-memory approach
-      this.setNotificationRead(notificationId, true);
-
       this.logger.debug({ notificationId, userId }, 'Notification marked as read');
       return true;
     } catch (error) {
@@ -223,14 +316,10 @@ export class NotificationService extends BaseService {
    */
   async markAllAsRead(userId: number): Promise<number> {
     try {
-      let markedCount = 0;
-
-      for (const notification of this.notifications.values()) {
-        if (notification.userId === userId && !this.isNotificationRead(notification.id)) {
-          this.setNotificationRead(notification.id, true);
-          markedCount++;
-        }
-      }
+      const { count: markedCount } = await prisma.notification.updateMany({
+        where: { userId, read: false },
+        data: { read: true, readAt: new Date() },
+      });
 
       this.logger.info({ userId, markedCount }, 'Marked all notifications as read');
       return markedCount;
@@ -245,12 +334,13 @@ export class NotificationService extends BaseService {
    */
   async deleteNotification(notificationId: string, userId: number): Promise<boolean> {
     try {
-      const notification = this.notifications.get(notificationId);
-      if (!notification || notification.userId !== userId) {
+      const result = await prisma.notification.deleteMany({
+        where: { id: notificationId, userId },
+      });
+      if (result.count === 0) {
         return false;
       }
 
-      this.notifications.delete(notificationId);
       this.logger.debug({ notificationId, userId }, 'Notification deleted');
       return true;
     } catch (error) {
@@ -267,12 +357,30 @@ export class NotificationService extends BaseService {
     preferences: Partial<NotificationPreferences>,
   ): Promise<void> {
     try {
-      const current = this.preferences.get(userId) || this.getDefaultPreferences(userId);
-      const updated = { ...current, ...preferences, userId };
+      const current = await this.getUserPreferences(userId);
+      const updated: NotificationPreferences = {
+        ...current,
+        ...preferences,
+        userId,
+        quietHours: { ...current.quietHours, ...preferences.quietHours },
+        // Category updates are merged so a partial update keeps the other categories
+        categories: { ...current.categories, ...preferences.categories },
+      };
 
-      this.preferences.set(userId, updated);
+      const data = {
+        emailEnabled: updated.emailEnabled,
+        pushEnabled: updated.pushEnabled,
+        quietHoursStart: updated.quietHours.start,
+        quietHoursEnd: updated.quietHours.end,
+        quietHoursTimeZone: updated.quietHours.timeZone,
+        categories: updated.categories as Prisma.InputJsonValue,
+      };
+      await prisma.notificationPreference.upsert({
+        where: { userId },
+        create: { userId, ...data },
+        update: data,
+      });
 
-      // Currently stored in memory for this session
       this.logger.info({ userId }, 'User notification preferences updated');
     } catch (error) {
       this.handleError(error, { userId, preferences });
@@ -284,15 +392,28 @@ export class NotificationService extends BaseService {
    */
   async getUserPreferences(userId: number): Promise<NotificationPreferences> {
     try {
-      let prefs = this.preferences.get(userId);
-
-      if (!prefs) {
-        // Use default preferences for this session
-        prefs = this.getDefaultPreferences(userId);
-        this.preferences.set(userId, prefs);
+      const defaults = this.getDefaultPreferences(userId);
+      const stored = await prisma.notificationPreference.findUnique({ where: { userId } });
+      if (!stored) {
+        return defaults;
       }
 
-      return prefs;
+      return {
+        userId,
+        emailEnabled: stored.emailEnabled,
+        pushEnabled: stored.pushEnabled,
+        quietHours: {
+          start: stored.quietHoursStart,
+          end: stored.quietHoursEnd,
+          timeZone: isTimeZone(stored.quietHoursTimeZone)
+            ? stored.quietHoursTimeZone
+            : DEFAULT_TIME_ZONE,
+        },
+        categories: {
+          ...defaults.categories,
+          ...((stored.categories as NotificationPreferences['categories'] | null) ?? {}),
+        },
+      };
     } catch (error) {
       this.logger.error({ error, userId }, 'Failed to get user preferences');
       return this.getDefaultPreferences(userId);
@@ -322,7 +443,7 @@ export class NotificationService extends BaseService {
    */
   async sendBulkNotification(
     userIds: number[],
-    notification: Omit<Notification, 'id' | 'userId' | 'createdAt'>,
+    notification: Omit<Notification, 'id' | 'userId' | 'createdAt' | 'read' | 'readAt'>,
   ): Promise<{
     sent: string[];
     failed: { userId: number; error: string }[];
@@ -338,7 +459,7 @@ export class NotificationService extends BaseService {
     const failed: { userId: number; error: string }[] = [];
 
     for (let i = 0; i < userIds.length; i++) {
-      if (results[i] !== null) {
+      if (results[i]) {
         sent.push(results[i] as string);
       } else {
         failed.push({
@@ -362,7 +483,11 @@ export class NotificationService extends BaseService {
 
   // Private methods
 
-  private async sendEmailNotification(userId: number, notification: Notification): Promise<void> {
+  private async sendEmailNotification(
+    userId: number,
+    notification: Notification,
+    sendAfter: Date | null,
+  ): Promise<void> {
     try {
       // Get user email
       const user = await prisma.user.findUnique({
@@ -374,19 +499,22 @@ export class NotificationService extends BaseService {
         throw new Error('User email not found');
       }
 
-      // Check quiet hours
-      const prefs = await this.getUserPreferences(userId);
-      if (this.isInQuietHours(prefs.quietHours)) {
-        this.logger.debug({ userId }, 'Skipping email due to quiet hours');
-        return;
-      }
-
       const subject = `[Teaching Engine] ${notification.title}`;
       const html = this.formatEmailNotification(notification, user.name);
 
-      await emailService.sendEmail(user.email, subject, html);
+      const text = `${notification.title}\n\n${notification.message}`;
 
-      this.logger.debug({ userId, notificationId: notification.id }, 'Email notification sent');
+      await emailService.sendEmail(user.email, subject, text, html, {
+        userId,
+        relatedType: 'notification',
+        relatedId: notification.id,
+        sendAfter: sendAfter ?? undefined,
+      });
+
+      this.logger.debug(
+        { userId, notificationId: notification.id, sendAfter },
+        'Email notification queued',
+      );
     } catch (error) {
       this.logger.error(
         { error, userId, notificationId: notification.id },
@@ -395,19 +523,39 @@ export class NotificationService extends BaseService {
     }
   }
 
-  private async sendPushNotification(userId: number, notification: Notification): Promise<void> {
-    // Push notifications not implemented - using in-app notifications only
+  private async sendPushNotification(
+    userId: number,
+    notification: Notification,
+    sendAfter: Date | null,
+  ): Promise<void> {
+    // Push notifications not implemented - using in-app notifications only.
+    // A real push driver must hold the message until sendAfter.
     this.logger.debug(
-      { userId, notificationId: notification.id },
+      { userId, notificationId: notification.id, sendAfter },
       'Push notification skipped - using in-app notifications',
     );
   }
 
-  private filterChannelsByPreferences(
-    requestedChannels: ('in_app' | 'email' | 'push')[],
+  /**
+   * Narrow the requested channels to those the user has allowed.
+   * A disabled category suppresses everything; otherwise the category's channel
+   * list applies. Quiet hours delay email and push rather than dropping them,
+   * see quietHoursEnd.
+   */
+  filterChannelsByPreferences(
+    requestedChannels: NotificationChannel[],
     preferences: NotificationPreferences,
-  ): ('in_app' | 'email' | 'push')[] {
+    category = 'system',
+  ): NotificationChannel[] {
+    const categoryPrefs = preferences.categories[category];
+    if (categoryPrefs && !categoryPrefs.enabled) {
+      return [];
+    }
+
     return requestedChannels.filter((channel) => {
+      if (categoryPrefs && !categoryPrefs.channels.includes(channel)) {
+        return false;
+      }
       switch (channel) {
         case 'email':
           return preferences.emailEnabled;
@@ -457,46 +605,49 @@ export class NotificationService extends BaseService {
       quietHours: {
         start: '22:00',
         end: '07:00',
+        timeZone: DEFAULT_TIME_ZONE,
       },
       categories: {
         milestone: { enabled: true, channels: ['in_app', 'email'] },
         activity: { enabled: true, channels: ['in_app'] },
         system: { enabled: true, channels: ['in_app', 'email'] },
         reminder: { enabled: true, channels: ['in_app'] },
+        team: { enabled: true, channels: ['in_app', 'email'] },
       },
     };
   }
 
-  private isInQuietHours(quietHours: { start: string; end: string }): boolean {
-    const now = new Date();
-    const currentTime = `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}`;
-
-    const { start, end } = quietHours;
-
-    if (start <= end) {
-      // Same day quiet hours (e.g., 22:00 to 23:59)
-      return currentTime >= start && currentTime <= end;
-    } else {
-      // Cross-midnight quiet hours (e.g., 22:00 to 07:00)
-      return currentTime >= start || currentTime <= end;
+  /**
+   * When the user's quiet hours end, or null outside quiet hours. The times are
+   * read in the user's time zone, not the server's.
+   */
+  quietHoursEnd(
+    quietHours: NotificationPreferences['quietHours'],
+    now: Date = new Date(),
+  ): Date | null {
+    const { start, end, timeZone } = quietHours;
+
+    if (start === end) {
+      // Equal start and end means quiet hours are switched off
+      return null;
     }
-  }
-
-  private isNotificationRead(notificationId: string): boolean {
-    // In a real implementation, store read status in database
-    // For now, use a simple in-memory Set
-    return this.readNotifications.has(notificationId);
-  }
 
-  private setNotificationRead(notificationId: string, read: boolean): void {
-    if (read) {
-      this.readNotifications.add(notificationId);
-    } else {
-      this.readNotifications.delete(notificationId);
+    const currentTime = localTimeOfDay(now, timeZone);
+    const quiet =
+      start < end
+        ? // Same day quiet hours (e.g., 12:00 to 13:00)
+          currentTime >= start && currentTime < end
+        : // Cross-midnight quiet hours (e.g., 22:00 to 07:00)
+          currentTime >= start || currentTime < end;
+    if (!quiet) {
+      return null;
     }
-  }
 
-  private readNotifications = new Set<string>();
+    const minutesLeft = (toMinutes(end) - toMinutes(currentTime) + 24 * 60) % (24 * 60);
+    const endsAt = new Date(now.getTime() + minutesLeft * 60 * 1000);
+    endsAt.setUTCSeconds(0, 0);
+    return endsAt;
+  }
 
   private initializeDefaultTemplates(): void {
     const templates: NotificationTemplate[] = [
@@ -508,6 +659,7 @@ export class NotificationService extends BaseService {
         messageTemplate:
           'The milestone "{{milestoneName}}" is due on {{dueDate}}. You have {{daysLeft}} days remaining.',
         defaultChannels: ['in_app', 'email'],
+        category: 'milestone',
         variables: ['milestoneName', 'dueDate', 'daysLeft'],
       },
       {
@@ -517,6 +669,7 @@ export class NotificationService extends BaseService {
         title: 'Activity Completed',
         messageTemplate: 'Great job! You have completed the activity "{{activityName}}".',
         defaultChannels: ['in_app'],
+        category: 'activity',
         variables: ['activityName'],
       },
       {
@@ -527,6 +680,7 @@ export class NotificationService extends BaseService {
         messageTemplate:
           'We detected a gap in your curriculum coverage for {{subject}}. Consider reviewing outcomes: {{outcomes}}.',
         defaultChannels: ['in_app', 'email'],
+        category: 'reminder',
         variables: ['subject', 'outcomes'],
       },
       {
@@ -537,8 +691,71 @@ export class NotificationService extends BaseService {
         messageTemplate:
           'Teaching Engine will undergo maintenance on {{date}} from {{startTime}} to {{endTime}}. Please save your work.',
         defaultChannels: ['in_app', 'email'],
+        category: 'system',
         variables: ['date', 'startTime', 'endTime'],
       },
+      {
+        id: 'unit_progress',
+        name: 'Unit Ending With Gaps',
+        type: 'warning',
+        title: 'Unit "{{unitTitle}}" ends soon',
+        messageTemplate: 'Your unit "{{unitTitle}}" ends on {{endDate}} with {{gaps}}.',
+        defaultChannels: ['in_app', 'email'],
+        category: 'milestone',
+        variables: ['unitTitle', 'endDate', 'gaps'],
+      },
+      {
+        id: 'report_deadline',
+        name: 'Report Deadline Reminder',
+        type: 'warning',
+        title: 'Report deadline: {{title}}',
+        messageTemplate: '"{{title}}" is due on {{dueDate}} ({{daysLeft}} days left).',
+        defaultChannels: ['in_app', 'email'],
+        category: 'reminder',
+        variables: ['title', 'dueDate', 'daysLeft'],
+      },
+      {
+        id: 'newsletter_due',
+        name: 'Mid-term Newsletter',
+        type: 'info',
+        title: 'Time for a {{term}} newsletter',
+        messageTemplate:
+          "It's the middle of {{term}}. Consider sending families a newsletter about what the class has been learning.",
+        defaultChannels: ['in_app'],
+        category: 'reminder',
+        variables: ['term'],
+      },
+      {
+        id: 'discussion_reply',
+        name: 'Team Discussion Reply',
+        type: 'info',
+        title: 'New reply in "{{discussionTitle}}"',
+        messageTemplate: '{{authorName}} replied in {{teamName}}: "{{excerpt}}"',
+        defaultChannels: ['in_app', 'email'],
+        category: 'team',
+        variables: ['discussionTitle', 'authorName', 'teamName', 'excerpt'],
+      },
+      {
+        id: 'resource_approved',
+        name: 'Library Resource Approved',
+        type: 'success',
+        title: 'Resource approved',
+        messageTemplate: '"{{resourceTitle}}" is now available in the resource library.',
+        defaultChannels: ['in_app', 'email'],
+        category: 'system',
+        variables: ['resourceTitle'],
+      },
+      {
+        id: 'resource_rejected',
+        name: 'Library Resource Returned',
+        type: 'warning',
+        title: 'Resource needs changes',
+        messageTemplate:
+          '"{{resourceTitle}}" was not approved for the resource library: {{reason}}',
+        defaultChannels: ['in_app', 'email'],
+        category: 'system',
+        variables: ['resourceTitle', 'reason'],
+      },
     ];
 
     for (const template of templates) {
@@ -549,23 +766,22 @@ export class NotificationService extends BaseService {
   private startCleanupTask(): void {
     // Clean up expired notifications every hour
     this.cleanupInterval = setInterval(
-      () => {
-        const now = new Date();
-        let cleanedCount = 0;
-
-        for (const [id, notification] of this.notifications.entries()) {
-          if (notification.expiresAt && notification.expiresAt < now) {
-            this.notifications.delete(id);
-            cleanedCount++;
+      async () => {
+        try {
+          const { count: cleanedCount } = await prisma.notification.deleteMany({
+            where: { expiresAt: { lt: new Date() } },
+          });
+
+          if (cleanedCount > 0) {
+            this.logger.info({ cleanedCount }, 'Cleaned up expired notifications');
           }
-        }
-
-        if (cleanedCount > 0) {
-          this.logger.info({ cleanedCount }, 'Cleaned up expired notifications');
+        } catch (error) {
+          this.logger.error({ error }, 'Failed to clean up expired notifications');
         }
       },
       60 * 60 * 1000,
     ); // 1 hour
+    this.cleanupInterval.unref?.();
   }
 
   /**
@@ -1,4 +1,5 @@
-import { generateContent } from './llmService';
+import { z } from 'zod';
+import { llmGateway } from './llm';
 import type { Student, StudentArtifact, StudentReflection } from '../prisma';
 
 interface StudentWithData extends Student {
@@ -28,6 +29,11 @@ export interface ParentSummaryGeneration {
   english: string;
 }
 
+const ParentSummarySchema = z.object({
+  french: z.string().min(1),
+  english: z.string().min(1),
+});
+
 export async function generateParentSummary({
   student,
   fromDate,
@@ -99,34 +105,11 @@ Respond with a JSON object containing:
 Make sure the JSON is properly formatted and the content is meaningful, specific, and helpful for parents.`;
 
   try {
-    const response = await generateContent(prompt);
-
-    // Try to parse the JSON response
-    try {
-      const parsed = JSON.parse(response);
-      if (parsed.french && parsed.english) {
-        return {
-          french: parsed.french,
-          english: parsed.english,
-        };
-      }
-    } catch (parseError) {
-      console.warn('Failed to parse LLM JSON response, falling back to text parsing');
-    }
-
-    // Fallback: try to extract French and English from text
-    const frenchMatch = response.match(/["']french["']\s*:\s*["'](.*?)["']/s);
-    const englishMatch = response.match(/["']english["']\s*:\s*["'](.*?)["']/s);
-
-    if (frenchMatch && englishMatch) {
-      return {
-        french: frenchMatch[1].replace(/\\n/g, '\n').replace(/\\"/g, '"'),
-        english: englishMatch[1].replace(/\\n/g, '\n').replace(/\\"/g, '"'),
-      };
-    }
-
-    // Final fallback
-    throw new Error('Could not parse summary from LLM response');
+    const { french, english } = await llmGateway.completeJSON('parent_summary', {
+      prompt,
+      schema: ParentSummarySchema,
+    });
+    return { french, english };
   } catch (error) {
     console.error('Error generating parent summary:', error);
 
@@ -186,38 +169,11 @@ Respond with a JSON object containing:
 Make sure the JSON is properly formatted and the new content maintains the quality and accuracy of the original.`;
 
   try {
-    const response = await generateContent(prompt);
-
-    // Try to parse the JSON response
-    try {
-      const parsed = JSON.parse(response);
-      if (parsed.french && parsed.english) {
-        return {
-          french: parsed.french,
-          english: parsed.english,
-        };
-      }
-    } catch (parseError) {
-      console.warn('Failed to parse LLM JSON response, falling back to text parsing');
-    }
-
-    // Fallback: try to extract French and English from text
-    const frenchMatch = response.match(/["']french["']\s*:\s*["'](.*?)["']/s);
-    const englishMatch = response.match(/["']english["']\s*:\s*["'](.*?)["']/s);
-
-    if (frenchMatch && englishMatch) {
-      return {
-        french: frenchMatch[1].replace(/\\n/g, '\n').replace(/\\"/g, '"'),
-        english: englishMatch[1].replace(/\\n/g, '\n').replace(/\\"/g, '"'),
-      };
-    }
-
-    // If parsing fails, return the original content
-    console.warn('Could not parse regenerated summary, returning original');
-    return {
-      french: originalFrench,
-      english: originalEnglish,
-    };
+    const { french, english } = await llmGateway.completeJSON('parent_summary', {
+      prompt,
+      schema: ParentSummarySchema,
+    });
+    return { french, english };
   } catch (error) {
     console.error('Error regenerating parent summary:', error);
 
@@ -0,0 +1,107 @@
+/**
+ * Password Reset Service
+ * Emailed single-use reset links and setting a new password
+ */
+
+import { PrismaClient } from '@teaching-engine/database';
+import { hashPassword, validatePassword } from './authService';
+import { queueEmail, selectEmailLanguage } from './emailService';
+import { generateOpaqueToken, hashToken, revokeAllSessions } from './sessionService';
+import logger from '../logger';
+
+export const RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+export class PasswordResetError extends Error {
+  constructor(message = 'This reset link is invalid or has expired') {
+    super(message);
+    this.name = 'PasswordResetError';
+  }
+}
+
+function resetUrl(token: string) {
+  const base = process.env.CLIENT_URL || 'http://localhost:5173';
+  return `${base}/reset-password?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Email a reset link if the address belongs to an account. Callers respond
+ * the same way either way so the endpoint does not reveal which addresses
+ * have accounts.
+ */
+export async function requestPasswordReset(prisma: PrismaClient, email: string): Promise<void> {
+  const user = await prisma.user.findUnique({
+    where: { email: email.trim().toLowerCase() },
+    select: { id: true, email: true, name: true, preferredLanguage: true },
+  });
+  if (!user) {
+    logger.info('Password reset requested for unknown email');
+    return;
+  }
+
+  // Only the latest link works
+  await prisma.passwordResetToken.deleteMany({ where: { userId: user.id, usedAt: null } });
+
+  const token = generateOpaqueToken();
+  await prisma.passwordResetToken.create({
+    data: {
+      userId: user.id,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + RESET_TOKEN_TTL_MS),
+    },
+  });
+
+  const url = resetUrl(token);
+  const content = selectEmailLanguage(
+    {
+      en: {
+        subject: 'Reset your Teaching Engine password',
+        text: `Hello ${user.name},\n\nUse this link within the next hour to choose a new password:\n\n${url}\n\nIf you did not ask to reset your password, you can ignore this email.`,
+      },
+      fr: {
+        subject: 'Réinitialisation de votre mot de passe Teaching Engine',
+        text: `Bonjour ${user.name},\n\nUtilisez ce lien dans l'heure qui suit pour choisir un nouveau mot de passe :\n\n${url}\n\nSi vous n'avez pas demandé de réinitialisation, vous pouvez ignorer ce courriel.`,
+      },
+    },
+    user.preferredLanguage === 'fr' ? 'fr' : 'en',
+  );
+
+  await queueEmail(
+    { to: user.email, ...content },
+    { userId: user.id, relatedType: 'password_reset' },
+  );
+}
+
+/**
+ * Set a new password with a reset token. Every session of the user is
+ * signed out, since whoever had the old password may still be signed in.
+ */
+export async function resetPassword(
+  prisma: PrismaClient,
+  token: string,
+  newPassword: string,
+): Promise<void> {
+  const reset = await prisma.passwordResetToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+  });
+  if (!reset || reset.usedAt || reset.expiresAt <= new Date()) {
+    throw new PasswordResetError();
+  }
+
+  await validatePassword(newPassword);
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: reset.userId },
+      data: {
+        password: await hashPassword(newPassword),
+        mustChangePassword: false,
+        passwordChangedAt: new Date(),
+      },
+    }),
+    prisma.passwordResetToken.update({
+      where: { id: reset.id },
+      data: { usedAt: new Date() },
+    }),
+  ]);
+  await revokeAllSessions(prisma, reset.userId);
+}
@@ -0,0 +1,404 @@
+import { Prisma, prisma } from '../prisma';
+import logger from '../logger';
+
+export const PLAN_TYPES = ['long-range', 'unit', 'lesson', 'daybook'] as const;
+export type PlanType = (typeof PLAN_TYPES)[number];
+export type PlanChangeType = 'create' | 'update' | 'revert';
+
+/**
+ * A plan's own fields plus its curriculum expectation links, as stored in
+ * PlanVersion.content. Dates are ISO strings.
+ */
+export type PlanSnapshot = Record<string, unknown> & {
+  expectations: Record<string, unknown>[];
+};
+
+export interface PlanFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface PlanAccess {
+  exists: boolean;
+  canView: boolean;
+  canEdit: boolean;
+}
+
+// Bookkeeping columns that say nothing about the plan's content
+const IGNORED_FIELDS = ['id', 'userId', 'createdAt', 'updatedAt'];
+
+// Fields a revert must not touch: moving a plan to another parent (or
+// detaching a daybook entry from its lesson) is not an edit we can undo safely
+const LOCKED_FIELDS: Record<PlanType, string[]> = {
+  'long-range': [],
+  unit: ['longRangePlanId'],
+  lesson: ['unitPlanId'],
+  daybook: ['lessonPlanId'],
+};
+
+const DATE_FIELDS: Record<PlanType, string[]> = {
+  'long-range': [],
+  unit: ['startDate', 'endDate'],
+  lesson: ['date'],
+  daybook: ['date'],
+};
+
+const JSON_FIELDS: Record<PlanType, string[]> = {
+  'long-range': ['themes'],
+  unit: [
+    'essentialQuestions',
+    'successCriteria',
+    'learningSkills',
+    'keyVocabulary',
+    'differentiationStrategies',
+  ],
+  lesson: ['materials', 'accommodations', 'modifications', 'extensions'],
+  daybook: [],
+};
+
+type Tx = Prisma.TransactionClient;
+
+function toSnapshot(
+  record: Record<string, unknown>,
+  links: Record<string, unknown>[],
+  parentKey: string,
+): PlanSnapshot {
+  const fields = Object.fromEntries(
+    Object.entries(record).filter(([key]) => !IGNORED_FIELDS.includes(key)),
+  );
+  const expectations = links
+    .map((link) => Object.fromEntries(Object.entries(link).filter(([key]) => key !== parentKey)))
+    .sort((a, b) => String(a.expectationId).localeCompare(String(b.expectationId)));
+
+  // Round-trip through JSON so dates compare the same before and after storage
+  return JSON.parse(JSON.stringify({ ...fields, expectations }));
+}
+
+async function loadPlan(
+  client: Tx,
+  planType: PlanType,
+  planId: string,
+): Promise<{ ownerId: number; snapshot: PlanSnapshot } | null> {
+  switch (planType) {
+    case 'long-range': {
+      const plan = await client.longRangePlan.findUnique({
+        where: { id: planId },
+        include: { expectations: true },
+      });
+      if (!plan) return null;
+      const { expectations, ...record } = plan;
+      return {
+        ownerId: plan.userId,
+        snapshot: toSnapshot(record, expectations, 'longRangePlanId'),
+      };
+    }
+    case 'unit': {
+      const plan = await client.unitPlan.findUnique({
+        where: { id: planId },
+        include: { expectations: true },
+      });
+      if (!plan) return null;
+      const { expectations, ...record } = plan;
+      return { ownerId: plan.userId, snapshot: toSnapshot(record, expectations, 'unitPlanId') };
+    }
+    case 'lesson': {
+      const plan = await client.eTFOLessonPlan.findUnique({
+        where: { id: planId },
+        include: { expectations: true },
+      });
+      if (!plan) return null;
+      const { expectations, ...record } = plan;
+      return { ownerId: plan.userId, snapshot: toSnapshot(record, expectations, 'lessonPlanId') };
+    }
+    case 'daybook': {
+      const entry = await client.daybookEntry.findUnique({
+        where: { id: planId },
+        include: { expectations: true },
+      });
+      if (!entry) return null;
+      const { expectations, ...record } = entry;
+      return {
+        ownerId: entry.userId,
+        snapshot: toSnapshot(record, expectations, 'daybookEntryId'),
+      };
+    }
+  }
+}
+
+/**
+ * Write a snapshot's fields and expectation links back onto the plan.
+ * Expectations that no longer exist in the curriculum are skipped.
+ */
+async function applySnapshot(tx: Tx, planType: PlanType, planId: string, snapshot: PlanSnapshot) {
+  const { expectations, ...fields } = snapshot;
+  const data: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(fields)) {
+    if (LOCKED_FIELDS[planType].includes(key)) continue;
+    if (DATE_FIELDS[planType].includes(key) && typeof value === 'string') {
+      data[key] = new Date(value);
+    } else if (JSON_FIELDS[planType].includes(key) && value === null) {
+      data[key] = Prisma.DbNull;
+    } else {
+      data[key] = value;
+    }
+  }
+
+  const existing = await tx.curriculumExpectation.findMany({
+    where: { id: { in: expectations.map((e) => String(e.expectationId)) } },
+    select: { id: true },
+  });
+  const existingIds = new Set(existing.map((e) => e.id));
+  const links = expectations.filter((e) => existingIds.has(String(e.expectationId)));
+
+  switch (planType) {
+    case 'long-range':
+      await tx.longRangePlan.update({ where: { id: planId }, data });
+      await tx.longRangePlanExpectation.deleteMany({ where: { longRangePlanId: planId } });
+      await tx.longRangePlanExpectation.createMany({
+        data: links.map((link) => ({
+          longRangePlanId: planId,
+          expectationId: String(link.expectationId),
+          plannedTerm: (link.plannedTerm as string) ?? null,
+        })),
+      });
+      break;
+    case 'unit':
+      await tx.unitPlan.update({ where: { id: planId }, data });
+      await tx.unitPlanExpectation.deleteMany({ where: { unitPlanId: planId } });
+      await tx.unitPlanExpectation.createMany({
+        data: links.map((link) => ({
+          unitPlanId: planId,
+          expectationId: String(link.expectationId),
+        })),
+      });
+      break;
+    case 'lesson':
+      await tx.eTFOLessonPlan.update({ where: { id: planId }, data });
+      await tx.eTFOLessonPlanExpectation.deleteMany({ where: { lessonPlanId: planId } });
+      await tx.eTFOLessonPlanExpectation.createMany({
+        data: links.map((link) => ({
+          lessonPlanId: planId,
+          expectationId: String(link.expectationId),
+        })),
+      });
+      break;
+    case 'daybook':
+      await tx.daybookEntry.update({ where: { id: planId }, data });
+      await tx.daybookEntryExpectation.deleteMany({ where: { daybookEntryId: planId } });
+      await tx.daybookEntryExpectation.createMany({
+        data: links.map((link) => ({
+          daybookEntryId: planId,
+          expectationId: String(link.expectationId),
+          coverage: (link.coverage as string) ?? null,
+        })),
+      });
+      break;
+  }
+}
+
+/**
+ * Record the plan's current state as its next version. Nothing is written
+ * when the plan is unchanged since the latest version.
+ */
+export async function recordPlanVersion(
+  planType: PlanType,
+  planId: string,
+  changedBy: number,
+  changeType: PlanChangeType,
+  changeNotes?: string,
+) {
+  const plan = await loadPlan(prisma, planType, planId);
+  if (!plan) return null;
+
+  const latest = await prisma.planVersion.findFirst({
+    where: { planType, planId },
+    orderBy: { versionNumber: 'desc' },
+  });
+  if (
+    latest &&
+    changeType !== 'revert' &&
+    JSON.stringify(latest.content) === JSON.stringify(plan.snapshot)
+  ) {
+    return latest;
+  }
+
+  try {
+    return await prisma.planVersion.create({
+      data: {
+        planType,
+        planId,
+        versionNumber: (latest?.versionNumber ?? 0) + 1,
+        content: plan.snapshot as Prisma.InputJsonValue,
+        changedBy,
+        changeType,
+        changeNotes,
+      },
+    });
+  } catch (err) {
+    // A concurrent save took the version number; the other snapshot covers it
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') {
+      return null;
+    }
+    throw err;
+  }
+}
+
+/**
+ * Route helper: versioning must not fail a save that already succeeded.
+ */
+export async function snapshotPlan(
+  planType: PlanType,
+  planId: string,
+  changedBy: number,
+  changeType: PlanChangeType,
+  changeNotes?: string,
+) {
+  try {
+    return await recordPlanVersion(planType, planId, changedBy, changeType, changeNotes);
+  } catch (err) {
+    logger.error({ err, planType, planId }, 'Failed to record plan version');
+    return null;
+  }
+}
+
+/**
+ * Plans created before version history existed have no versions. Capture
+ * their current state before the first tracked edit so it can be restored.
+ */
+export async function ensurePlanBaseline(planType: PlanType, planId: string) {
+  try {
+    const count = await prisma.planVersion.count({ where: { planType, planId } });
+    if (count > 0) return;
+    const plan = await loadPlan(prisma, planType, planId);
+    if (!plan) return;
+    await recordPlanVersion(planType, planId, plan.ownerId, 'create', 'Captured before first edit');
+  } catch (err) {
+    logger.error({ err, planType, planId }, 'Failed to record baseline plan version');
+  }
+}
+
+/**
+ * Owners have full access. Colleagues the plan was shared with, directly or
+ * through a team, can view history; reverting needs the share's canEdit.
+ */
+export async function getPlanAccess(
+  planType: PlanType,
+  planId: string,
+  userId: number,
+): Promise<PlanAccess> {
+  const plan = await loadPlan(prisma, planType, planId);
+  if (!plan) return { exists: false, canView: false, canEdit: false };
+  if (plan.ownerId === userId) return { exists: true, canView: true, canEdit: true };
+
+  const memberships = await prisma.teamMember.findMany({
+    where: { userId },
+    select: { teamId: true },
+  });
+  const shares = await prisma.sharedPlan.findMany({
+    where: {
+      planType,
+      planId,
+      OR: [{ sharedWithId: userId }, { teamId: { in: memberships.map((m) => m.teamId) } }],
+    },
+    select: { canEdit: true },
+  });
+
+  return {
+    exists: true,
+    canView: shares.length > 0,
+    canEdit: shares.some((share) => share.canEdit),
+  };
+}
+
+export async function listPlanVersions(planType: PlanType, planId: string) {
+  const versions = await prisma.planVersion.findMany({
+    where: { planType, planId },
+    orderBy: { versionNumber: 'desc' },
+    select: {
+      id: true,
+      versionNumber: true,
+      changedBy: true,
+      changeType: true,
+      changeNotes: true,
+      createdAt: true,
+    },
+  });
+
+  const users = await prisma.user.findMany({
+    where: { id: { in: [...new Set(versions.map((v) => v.changedBy))] } },
+    select: { id: true, name: true, email: true },
+  });
+  const usersById = new Map(users.map((user) => [user.id, user]));
+
+  return versions.map((version) => ({
+    ...version,
+    changedByUser: usersById.get(version.changedBy) ?? null,
+  }));
+}
+
+export async function getPlanVersion(planType: PlanType, planId: string, versionNumber: number) {
+  return prisma.planVersion.findUnique({
+    where: { planType_planId_versionNumber: { planType, planId, versionNumber } },
+  });
+}
+
+/**
+ * Field-level differences between two snapshots, in the order fields appear.
+ */
+export function diffSnapshots(before: PlanSnapshot, after: PlanSnapshot): PlanFieldChange[] {
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+  return fields
+    .filter((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map((field) => ({ field, before: before[field] ?? null, after: after[field] ?? null }));
+}
+
+export async function diffPlanVersions(
+  planType: PlanType,
+  planId: string,
+  fromVersion: number,
+  toVersion: number,
+) {
+  const [from, to] = await Promise.all([
+    getPlanVersion(planType, planId, fromVersion),
+    getPlanVersion(planType, planId, toVersion),
+  ]);
+  if (!from || !to) return null;
+
+  return {
+    from: { versionNumber: from.versionNumber, createdAt: from.createdAt },
+    to: { versionNumber: to.versionNumber, createdAt: to.createdAt },
+    changes: diffSnapshots(
+      from.content as unknown as PlanSnapshot,
+      to.content as unknown as PlanSnapshot,
+    ),
+  };
+}
+
+/**
+ * Restore a plan to an earlier version. The restore is itself recorded as a
+ * new 'revert' version, so it can be undone the same way.
+ */
+export async function revertPlanToVersion(
+  planType: PlanType,
+  planId: string,
+  versionNumber: number,
+  userId: number,
+  changeNotes?: string,
+) {
+  const target = await getPlanVersion(planType, planId, versionNumber);
+  if (!target) return null;
+
+  await ensurePlanBaseline(planType, planId);
+  await prisma.$transaction((tx) =>
+    applySnapshot(tx, planType, planId, target.content as unknown as PlanSnapshot),
+  );
+
+  return recordPlanVersion(
+    planType,
+    planId,
+    userId,
+    'revert',
+    changeNotes || `Reverted to version ${versionNumber}`,
+  );
+}
@@ -1,9 +1,15 @@
 import type { CalendarEvent, UnavailableBlock } from '@teaching-engine/database';
+import { prisma } from '../prisma';
+import { getTimetableBlocks } from './timetableService';
+import { getTeamAssessmentBlocks } from './teamCalendarService';
+import { calendarEventScope } from './schoolService';
+import { provinceForUser, schoolClosureEvents } from './schoolCalendarService';
 
 export interface ScheduleItem {
   day: number;
   slotId: number;
-  activityId: number | null;
+  /** Key of the lesson occupying the slot; null marks a buffer block */
+  lessonKey: string | null;
 }
 
 export interface DailyBlock {
@@ -14,13 +20,98 @@ export interface DailyBlock {
   subjectId?: number | null;
 }
 
+export interface TimetableSlotInput {
+  id: number;
+  day: number;
+  startMin: number;
+  endMin: number;
+  subjectId: number | null;
+}
+
 export interface GenerateScheduleOptions {
-  availableBlocks: DailyBlock[];
-  milestonePriorities: Map<number, number>;
+  userId: number;
+  weekStart: Date;
+  /** Teaching blocks for the week; defaults to the teacher's class timetable */
+  slots?: TimetableSlotInput[];
+  /** Optional unit plan priorities; higher values are scheduled first */
+  unitPriorities?: Map<string, number>;
   pacingStrategy: 'strict' | 'relaxed';
   preserveBuffer: boolean;
 }
 
+export type ScheduledSlotKind = 'existing' | 'proposed' | 'buffer';
+
+export interface ScheduledSlot {
+  kind: ScheduledSlotKind;
+  date: string; // YYYY-MM-DD
+  day: number;
+  slotId: number | null;
+  startMin: number;
+  endMin: number;
+  unitPlanId: string | null;
+  lessonPlanId: string | null;
+  title: string;
+  subject: string | null;
+  expectationIds: string[];
+}
+
+export interface UnitPacingSummary {
+  unitPlanId: string;
+  title: string;
+  targetMinutes: number;
+  scheduledMinutes: number;
+  remainingMinutes: number;
+  uncoveredExpectations: number;
+  behindPace: boolean;
+}
+
+export interface WeeklySchedulePreview {
+  weekStart: string;
+  pacingStrategy: 'strict' | 'relaxed';
+  preserveBuffer: boolean;
+  slots: ScheduledSlot[];
+  units: UnitPacingSummary[];
+}
+
+export interface SchedulableUnit {
+  id: string;
+  title: string;
+  subject: string;
+  startDate: Date;
+  endDate: Date;
+  estimatedHours: number | null;
+  /** Minutes already planned in lessons dated before the week */
+  plannedMinutesBefore: number;
+  lessonCount: number;
+  uncoveredExpectationIds: string[];
+}
+
+export interface ExistingLesson {
+  id: string;
+  title: string;
+  unitPlanId: string;
+  date: Date;
+  duration: number;
+  subject: string | null;
+}
+
+export interface WeekPlanningInput {
+  weekStart: Date;
+  /** Blocks left after calendar filtering (see filterAvailableBlocksByCalendar) */
+  blocks: DailyBlock[];
+  /** Normalised subject names for each timetable subjectId */
+  subjectNames: Map<number, string[]>;
+  units: SchedulableUnit[];
+  existingLessons: ExistingLesson[];
+  unitPriorities?: Map<string, number>;
+  pacingStrategy: 'strict' | 'relaxed';
+  preserveBuffer: boolean;
+  /** Fallback lesson length used when a unit has no estimatedHours budget */
+  defaultLessonMinutes?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 export function filterAvailableBlocksByCalendar(
   slots: Array<{
     id: number;
@@ -37,7 +128,7 @@ export function filterAvailableBlocksByCalendar(
     .filter((s) => s.subjectId)
     .filter((slot) => {
       // Filter out holidays (CalendarEvents with type 'HOLIDAY' and allDay true)
-      const holidayEvents = holidays.filter(h => h.eventType === 'HOLIDAY' && h.allDay);
+      const holidayEvents = holidays.filter((h) => h.eventType === 'HOLIDAY' && h.allDay);
       return !holidayEvents.some((h) => (new Date(h.start).getUTCDay() + 6) % 7 === slot.day);
     })
     .filter((slot) => {
@@ -84,7 +175,7 @@ export function scheduleBufferBlockPerDay(
     const used = new Set(result.filter((s) => s.day === day).map((s) => s.slotId));
     const free = dayBlocks.find((b) => !used.has(b.slotId));
     if (free) {
-      result.push({ day, slotId: free.slotId, activityId: null });
+      result.push({ day, slotId: free.slotId, lessonKey: null });
     } else {
       const idx = result
         .map((s, i) => [s, i] as const)
@@ -93,7 +184,7 @@ export function scheduleBufferBlockPerDay(
       if (idx) {
         const [removed, index] = idx;
         result.splice(index, 1);
-        result.push({ day, slotId: removed.slotId, activityId: null });
+        result.push({ day, slotId: removed.slotId, lessonKey: null });
       }
     }
   }
@@ -101,20 +192,493 @@ export function scheduleBufferBlockPerDay(
 }
 
 /**
- * TODO: Reimplement using ETFO lesson plans
- * Generate a weekly schedule using ETFO lesson plans and unit plans
- * @param opts Schedule generation options
- * @returns Array of scheduled items mapped to ETFO lesson plans
+ * Normalise a date to the Monday (UTC midnight) of its week.
+ */
+export function startOfScheduleWeek(date: Date): Date {
+  const d = new Date(date);
+  d.setUTCHours(0, 0, 0, 0);
+  d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+  return d;
+}
+
+/**
+ * Split multi-day calendar events into one event per day of the week so that
+ * filterAvailableBlocksByCalendar, which matches on weekday, sees every day
+ * an event such as March Break actually covers.
+ */
+export function expandEventsAcrossWeek(events: CalendarEvent[], weekStart: Date): CalendarEvent[] {
+  const expanded: CalendarEvent[] = [];
+  for (const event of events) {
+    const start = new Date(event.start);
+    const end = new Date(event.end);
+    for (let day = 0; day < 7; day++) {
+      const dayStart = new Date(weekStart.getTime() + day * DAY_MS);
+      const dayEnd = new Date(dayStart.getTime() + DAY_MS);
+      if (start >= dayEnd || (end <= dayStart && start < dayStart)) continue;
+
+      const startsToday = start >= dayStart;
+      const endsToday = end < dayEnd;
+      expanded.push({
+        ...event,
+        start: startsToday ? start : dayStart,
+        end: endsToday ? end : new Date(dayEnd.getTime() - 60 * 1000),
+        // A timed event spanning midnight still blocks the whole of the inner days
+        allDay: event.allDay || (!startsToday && !endsToday),
+      });
+    }
+  }
+  return expanded;
+}
+
+function normaliseSubject(value: string | null | undefined): string {
+  return (value ?? '').trim().toLowerCase();
+}
+
+function toDateKey(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function blockDate(weekStart: Date, day: number): Date {
+  return new Date(weekStart.getTime() + day * DAY_MS);
+}
+
+function isUnitActiveOn(unit: SchedulableUnit, date: Date): boolean {
+  const dayStart = date.getTime();
+  const dayEnd = dayStart + DAY_MS;
+  return (
+    new Date(unit.startDate).getTime() < dayEnd && new Date(unit.endDate).getTime() >= dayStart
+  );
+}
+
+/**
+ * Order blocks so that consecutive picks land on different days, spreading a
+ * unit's lessons across the week instead of stacking them on Monday.
+ */
+function interleaveByDay(blocks: DailyBlock[]): DailyBlock[] {
+  const byDay = new Map<number, DailyBlock[]>();
+  for (const block of [...blocks].sort((a, b) => a.day - b.day || a.startMin - b.startMin)) {
+    if (!byDay.has(block.day)) byDay.set(block.day, []);
+    byDay.get(block.day)!.push(block);
+  }
+  const queues = [...byDay.values()];
+  const ordered: DailyBlock[] = [];
+  while (queues.some((q) => q.length > 0)) {
+    for (const queue of queues) {
+      const next = queue.shift();
+      if (next) ordered.push(next);
+    }
+  }
+  return ordered;
+}
+
+/**
+ * Pure scheduling step behind generateWeeklySchedule.
+ *
+ * Each active unit is given a weekly share of its remaining time budget
+ * (estimatedHours minus lessons already planned, spread over the weeks left
+ * before its end date). With the 'strict' strategy units receive exactly that
+ * share and anything that does not fit is reported as behind pace. With
+ * 'relaxed', spare blocks of the same subject are also handed to units that
+ * still have work left so later weeks gain slack. Uncovered expectations are
+ * distributed across the proposed lessons in code order.
+ */
+export function planWeek(input: WeekPlanningInput): WeeklySchedulePreview {
+  const weekStart = startOfScheduleWeek(input.weekStart);
+  const weekEnd = new Date(weekStart.getTime() + 7 * DAY_MS);
+  const defaultLessonMinutes = input.defaultLessonMinutes ?? 60;
+
+  const blocks = [...input.blocks].sort((a, b) => a.day - b.day || a.startMin - b.startMin);
+  // Blocks are keyed by day and slot: a rotation timetable can reuse a slot on several days.
+  const blockKey = (b: { day: number; slotId: number }) => `${b.day}:${b.slotId}`;
+  const occupied = new Set<string>();
+  const slots: ScheduledSlot[] = [];
+
+  const blockMatchesSubject = (block: DailyBlock, subject: string | null): boolean => {
+    if (!block.subjectId) return false;
+    const names = input.subjectNames.get(block.subjectId) ?? [];
+    return names.includes(normaliseSubject(subject));
+  };
+
+  // 1. Place lessons that already exist this week so they keep their blocks.
+  const weekLessons = input.existingLessons.filter((lesson) => {
+    const date = new Date(lesson.date);
+    return date >= weekStart && date < weekEnd;
+  });
+  const minutesThisWeek = new Map<string, number>();
+  for (const lesson of weekLessons) {
+    const date = new Date(lesson.date);
+    const day = (date.getUTCDay() + 6) % 7;
+    const lessonStart = date.getUTCHours() * 60 + date.getUTCMinutes();
+    const hasTime = lessonStart > 0;
+    const block = blocks.find(
+      (b) =>
+        b.day === day &&
+        !occupied.has(blockKey(b)) &&
+        (hasTime
+          ? lessonStart < b.endMin && lessonStart + lesson.duration > b.startMin
+          : blockMatchesSubject(b, lesson.subject)),
+    );
+    if (block) occupied.add(blockKey(block));
+
+    minutesThisWeek.set(
+      lesson.unitPlanId,
+      (minutesThisWeek.get(lesson.unitPlanId) ?? 0) + lesson.duration,
+    );
+    slots.push({
+      kind: 'existing',
+      date: toDateKey(blockDate(weekStart, day)),
+      day,
+      slotId: block?.slotId ?? null,
+      startMin: block?.startMin ?? lessonStart,
+      endMin: block?.endMin ?? lessonStart + lesson.duration,
+      unitPlanId: lesson.unitPlanId,
+      lessonPlanId: lesson.id,
+      title: lesson.title,
+      subject: lesson.subject,
+      expectationIds: [],
+    });
+  }
+
+  // 2. Work out each unit's share of the week.
+  const units = input.units
+    .filter((unit) => new Date(unit.startDate) < weekEnd && new Date(unit.endDate) >= weekStart)
+    .sort((a, b) => {
+      const priorityA = input.unitPriorities?.get(a.id) ?? 0;
+      const priorityB = input.unitPriorities?.get(b.id) ?? 0;
+      if (priorityA !== priorityB) return priorityB - priorityA;
+      return new Date(a.endDate).getTime() - new Date(b.endDate).getTime();
+    });
+
+  const pacing = new Map<
+    string,
+    {
+      remaining: number;
+      target: number;
+      scheduled: number;
+      expectationQueue: string[];
+      perLesson: number;
+      nextLessonNumber: number;
+    }
+  >();
+
+  const averageBlockMinutes =
+    blocks.length > 0
+      ? blocks.reduce((sum, b) => sum + (b.endMin - b.startMin), 0) / blocks.length
+      : defaultLessonMinutes;
+
+  for (const unit of units) {
+    const budget =
+      unit.estimatedHours != null
+        ? unit.estimatedHours * 60
+        : unit.uncoveredExpectationIds.length * defaultLessonMinutes;
+    const remaining = Math.max(0, budget - unit.plannedMinutesBefore);
+    const weeksLeft = Math.max(
+      1,
+      Math.ceil((new Date(unit.endDate).getTime() - weekStart.getTime() + DAY_MS) / (7 * DAY_MS)),
+    );
+    const target = Math.ceil(remaining / weeksLeft);
+    const scheduled = minutesThisWeek.get(unit.id) ?? 0;
+    const remainingLessons = Math.max(1, Math.ceil(remaining / averageBlockMinutes));
+
+    pacing.set(unit.id, {
+      remaining,
+      target,
+      scheduled,
+      expectationQueue: [...unit.uncoveredExpectationIds],
+      perLesson: Math.ceil(unit.uncoveredExpectationIds.length / remainingLessons),
+      nextLessonNumber: unit.lessonCount + 1,
+    });
+  }
+
+  // 3. Fill free blocks unit by unit.
+  const proposals: Array<{ item: ScheduleItem; slot: ScheduledSlot }> = [];
+
+  const assign = (unit: SchedulableUnit, limitMinutes: number) => {
+    const state = pacing.get(unit.id)!;
+    const candidates = interleaveByDay(
+      blocks.filter(
+        (b) =>
+          !occupied.has(blockKey(b)) &&
+          blockMatchesSubject(b, unit.subject) &&
+          isUnitActiveOn(unit, blockDate(weekStart, b.day)),
+      ),
+    );
+    for (const block of candidates) {
+      if (state.scheduled >= limitMinutes) break;
+      occupied.add(blockKey(block));
+      state.scheduled += block.endMin - block.startMin;
+
+      const expectationIds = state.expectationQueue.splice(0, state.perLesson);
+      const lessonKey = `${unit.id}:${block.day}:${block.slotId}`;
+      proposals.push({
+        item: { day: block.day, slotId: block.slotId, lessonKey },
+        slot: {
+          kind: 'proposed',
+          date: toDateKey(blockDate(weekStart, block.day)),
+          day: block.day,
+          slotId: block.slotId,
+          startMin: block.startMin,
+          endMin: block.endMin,
+          unitPlanId: unit.id,
+          lessonPlanId: null,
+          title: `${unit.title} – Lesson ${state.nextLessonNumber++}`,
+          subject: unit.subject,
+          expectationIds,
+        },
+      });
+    }
+  };
+
+  for (const unit of units) {
+    assign(unit, pacing.get(unit.id)!.target);
+  }
+  if (input.pacingStrategy === 'relaxed') {
+    for (const unit of units) {
+      assign(unit, pacing.get(unit.id)!.remaining);
+    }
+  }
+
+  // 4. Keep one buffer block per day when requested. Existing lessons are never
+  // displaced: only proposals and the blocks they could use take part.
+  const bufferBlocks = blocks.filter(
+    (b) => !slots.some((s) => s.kind === 'existing' && s.day === b.day && s.slotId === b.slotId),
+  );
+  const withBuffers = scheduleBufferBlockPerDay(
+    proposals.map((p) => p.item),
+    bufferBlocks,
+    input.preserveBuffer,
+  );
+  const keptKeys = new Set(withBuffers.map((item) => item.lessonKey).filter(Boolean));
+
+  for (const proposal of proposals) {
+    if (keptKeys.has(proposal.item.lessonKey)) {
+      slots.push(proposal.slot);
+      continue;
+    }
+    // Displaced by a buffer block: return its time and expectations to the unit
+    const state = pacing.get(proposal.slot.unitPlanId!)!;
+    state.scheduled -= proposal.slot.endMin - proposal.slot.startMin;
+    state.expectationQueue.unshift(...proposal.slot.expectationIds);
+  }
+
+  for (const item of withBuffers.filter((i) => i.lessonKey === null)) {
+    const block = blocks.find((b) => b.day === item.day && b.slotId === item.slotId)!;
+    slots.push({
+      kind: 'buffer',
+      date: toDateKey(blockDate(weekStart, block.day)),
+      day: block.day,
+      slotId: block.slotId,
+      startMin: block.startMin,
+      endMin: block.endMin,
+      unitPlanId: null,
+      lessonPlanId: null,
+      title: 'Buffer',
+      subject: null,
+      expectationIds: [],
+    });
+  }
+
+  slots.sort((a, b) => a.day - b.day || a.startMin - b.startMin);
+
+  return {
+    weekStart: toDateKey(weekStart),
+    pacingStrategy: input.pacingStrategy,
+    preserveBuffer: input.preserveBuffer,
+    slots,
+    units: units.map((unit) => {
+      const state = pacing.get(unit.id)!;
+      return {
+        unitPlanId: unit.id,
+        title: unit.title,
+        targetMinutes: state.target,
+        scheduledMinutes: state.scheduled,
+        remainingMinutes: Math.max(0, state.remaining - state.scheduled),
+        uncoveredExpectations: state.expectationQueue.length,
+        behindPace: state.scheduled < state.target,
+      };
+    }),
+  };
+}
+
+/**
+ * Generate a weekly schedule preview from the teacher's ETFO unit plans.
+ * Loads active UnitPlans, their lessons and uncovered expectations, plus the
+ * week's CalendarEvents, team assessment dates and UnavailableBlocks, then
+ * delegates to planWeek.
+ * Blocks come from the teacher's class timetable unless slots are passed in.
+ * Nothing is written; pass the proposed slots to acceptWeeklySchedule.
  */
 export async function generateWeeklySchedule(
-  _opts: GenerateScheduleOptions,
-): Promise<ScheduleItem[]> {
-  // TODO: Implement scheduling logic using:
-  // - ETFOLessonPlan model for individual lessons
-  // - UnitPlan model for unit-level scheduling
-  // - DayPlan model for daily organization
-  console.warn('generateWeeklySchedule pending reimplementation with ETFO planning models');
-  return [];
+  opts: GenerateScheduleOptions,
+): Promise<WeeklySchedulePreview> {
+  const weekStart = startOfScheduleWeek(opts.weekStart);
+  const weekEnd = new Date(weekStart.getTime() + 7 * DAY_MS);
+
+  const timetableSlots =
+    opts.slots ??
+    (await getTimetableBlocks(opts.userId, weekStart, 7)).map((block) => ({
+      id: block.slotId,
+      day: block.day,
+      startMin: block.startMin,
+      endMin: block.endMin,
+      subjectId: block.subjectId,
+    }));
+
+  const subjectIds = [
+    ...new Set(timetableSlots.map((s) => s.subjectId).filter((id): id is number => id != null)),
+  ];
+
+  const [unitPlans, calendarEvents, unavailable, subjects, plannerState] = await Promise.all([
+    prisma.unitPlan.findMany({
+      where: {
+        userId: opts.userId,
+        startDate: { lt: weekEnd },
+        endDate: { gte: weekStart },
+      },
+      include: {
+        longRangePlan: { select: { subject: true } },
+        lessonPlans: {
+          select: { id: true, title: true, date: true, duration: true, subject: true },
+        },
+        expectations: {
+          include: {
+            expectation: {
+              select: {
+                id: true,
+                code: true,
+                lessonPlans: {
+                  where: { lessonPlan: { userId: opts.userId } },
+                  select: { lessonPlanId: true },
+                },
+              },
+            },
+          },
+        },
+      },
+    }),
+    prisma.calendarEvent.findMany({
+      where: {
+        start: { lt: weekEnd },
+        end: { gte: weekStart },
+        ...(await calendarEventScope(opts.userId)),
+      },
+    }),
+    prisma.unavailableBlock.findMany({
+      where: { teacherId: opts.userId, date: { gte: weekStart, lt: weekEnd } },
+    }),
+    prisma.subject.findMany({ where: { id: { in: subjectIds } } }),
+    prisma.weeklyPlannerState.findUnique({
+      where: { userId: opts.userId },
+      select: { defaultLessonDuration: true },
+    }),
+  ]);
+
+  // Team assessment dates block time like any other school event
+  const teamAssessments = await getTeamAssessmentBlocks(opts.userId, weekStart, weekEnd);
+  // Provincial holidays and breaks apply whether or not they were imported
+  const closures = schoolClosureEvents(await provinceForUser(opts.userId), weekStart, weekEnd);
+
+  const events = expandEventsAcrossWeek(
+    [...calendarEvents, ...teamAssessments, ...closures],
+    weekStart,
+  );
+  const blocks = filterAvailableBlocksByCalendar(
+    timetableSlots,
+    events.filter((e) => e.eventType !== 'HOLIDAY'),
+    unavailable,
+    events.filter((e) => e.eventType === 'HOLIDAY'),
+  );
+
+  const subjectNames = new Map<number, string[]>(
+    subjects.map((s) => [
+      s.id,
+      [s.name, s.nameEn, s.nameFr].filter(Boolean).map((n) => normaliseSubject(n)),
+    ]),
+  );
+
+  const units: SchedulableUnit[] = unitPlans.map((unit) => ({
+    id: unit.id,
+    title: unit.title,
+    subject: unit.longRangePlan.subject,
+    startDate: unit.startDate,
+    endDate: unit.endDate,
+    estimatedHours: unit.estimatedHours,
+    plannedMinutesBefore: unit.lessonPlans
+      .filter((lp) => lp.date < weekStart)
+      .reduce((sum, lp) => sum + lp.duration, 0),
+    lessonCount: unit.lessonPlans.length,
+    uncoveredExpectationIds: unit.expectations
+      .map((link) => link.expectation)
+      .filter((expectation) => expectation.lessonPlans.length === 0)
+      .sort((a, b) => a.code.localeCompare(b.code, undefined, { numeric: true }))
+      .map((expectation) => expectation.id),
+  }));
+
+  const existingLessons: ExistingLesson[] = unitPlans.flatMap((unit) =>
+    unit.lessonPlans.map((lp) => ({
+      id: lp.id,
+      title: lp.title,
+      unitPlanId: unit.id,
+      date: lp.date,
+      duration: lp.duration,
+      subject: lp.subject ?? unit.longRangePlan.subject,
+    })),
+  );
+
+  return planWeek({
+    weekStart,
+    blocks,
+    subjectNames,
+    units,
+    existingLessons,
+    unitPriorities: opts.unitPriorities,
+    pacingStrategy: opts.pacingStrategy,
+    preserveBuffer: opts.preserveBuffer,
+    defaultLessonMinutes: plannerState?.defaultLessonDuration,
+  });
+}
+
+/**
+ * Turn accepted preview slots into real ETFO lesson plans.
+ * Only 'proposed' slots for unit plans owned by the user are created.
+ */
+export async function acceptWeeklySchedule(userId: number, slots: ScheduledSlot[]) {
+  const proposed = slots.filter((s) => s.kind === 'proposed' && s.unitPlanId);
+  const unitIds = [...new Set(proposed.map((s) => s.unitPlanId!))];
+
+  const unitPlans = await prisma.unitPlan.findMany({
+    where: { id: { in: unitIds }, userId },
+    include: { longRangePlan: { select: { subject: true, grade: true } } },
+  });
+  const unitsById = new Map(unitPlans.map((u) => [u.id, u]));
+
+  const missing = unitIds.filter((id) => !unitsById.has(id));
+  if (missing.length > 0) {
+    throw new Error(`Unit plans not found: ${missing.join(', ')}`);
+  }
+
+  return prisma.$transaction(
+    proposed.map((slot) => {
+      const unit = unitsById.get(slot.unitPlanId!)!;
+      const date = new Date(`${slot.date}T00:00:00.000Z`);
+      date.setUTCMinutes(slot.startMin);
+
+      return prisma.eTFOLessonPlan.create({
+        data: {
+          userId,
+          unitPlanId: unit.id,
+          title: slot.title,
+          date,
+          duration: slot.endMin - slot.startMin,
+          grade: unit.longRangePlan.grade,
+          subject: unit.longRangePlan.subject,
+          expectations: {
+            create: slot.expectationIds.map((expectationId) => ({ expectationId })),
+          },
+        },
+      });
+    }),
+  );
 }
 
 /**
@@ -1,6 +1,6 @@
 import { BaseService } from './base/BaseService';
 import { EmbeddingService } from './embeddingService';
-import { generateContent } from './llmService';
+import { llmGateway } from './llm';
 
 export interface ClassificationResult {
   expectations: Array<{
@@ -183,7 +183,10 @@ export class ReflectionClassifierService extends BaseService {
 
       const prompt = `Student reflection: "${reflectionText}"`;
 
-      const response = await generateContent(prompt, systemMessage);
+      const response = await llmGateway.complete('reflection_classifier', {
+        system: systemMessage,
+        prompt,
+      });
 
       // Parse and validate the response
       const extractedTags = response
@@ -217,7 +220,10 @@ export class ReflectionClassifierService extends BaseService {
       
       Explain why this reflection provides evidence of the expectation:`;
 
-      const rationale = await generateContent(prompt, systemMessage);
+      const rationale = await llmGateway.complete('reflection_classifier', {
+        system: systemMessage,
+        prompt,
+      });
       return rationale.length > 200 ? rationale.substring(0, 200) + '...' : rationale;
     } catch (error) {
       this.logger.error({ error }, 'Failed to generate expectation rationale');
@@ -0,0 +1,223 @@
+import type { ResourceLibraryItem } from '@teaching-engine/database';
+import { Prisma, prisma } from '../prisma';
+import logger from '../logger';
+import { checkPermissions } from './authService';
+import { notificationService } from './notificationService';
+import { getAdminRole, getManagedSchoolIds } from './schoolService';
+
+export const RESOURCE_TYPES = ['lesson', 'worksheet', 'assessment', 'template', 'media'] as const;
+export const FRENCH_LEVELS = ['core', 'extended', 'immersion'] as const;
+
+export interface LibrarySearchFilters {
+  search?: string;
+  subject?: string;
+  grade?: number;
+  curriculumCode?: string;
+  resourceType?: string;
+  language?: string;
+  isFrenchImmersion?: boolean;
+  frenchLevel?: string;
+  sort?: 'recent' | 'rating' | 'popular';
+  page?: number;
+  limit?: number;
+}
+
+const ORDER_BY: Record<
+  NonNullable<LibrarySearchFilters['sort']>,
+  Prisma.ResourceLibraryItemOrderByWithRelationInput[]
+> = {
+  recent: [{ createdAt: 'desc' }],
+  rating: [{ averageRating: 'desc' }, { createdAt: 'desc' }],
+  popular: [{ downloadCount: 'desc' }, { viewCount: 'desc' }],
+};
+
+/**
+ * Contributors whose resources the user may approve or reject: null means
+ * everyone (User.role grants it), otherwise the staff of the schools the user
+ * administers. Both are checked against the shared permission table.
+ */
+export async function getModeratedContributorIds(userId: number): Promise<number[] | null> {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { role: true } });
+  if (!user) return [];
+  if (await checkPermissions({ role: user.role }, 'resources.approve')) return null;
+
+  const adminRole = await getAdminRole(userId);
+  if (!adminRole || !(await checkPermissions({ role: adminRole }, 'resources.approve'))) {
+    return [];
+  }
+  const staff = await prisma.schoolMembership.findMany({
+    where: { schoolId: { in: await getManagedSchoolIds(userId) } },
+    select: { userId: true },
+  });
+  return [...new Set(staff.map((member) => member.userId))];
+}
+
+/**
+ * Whether the user may moderate this resource: a school admin only moderates
+ * what staff of their own schools contributed.
+ */
+export async function canModerateResource(
+  userId: number,
+  resource: Pick<ResourceLibraryItem, 'contributorId'>,
+): Promise<boolean> {
+  const contributorIds = await getModeratedContributorIds(userId);
+  return contributorIds === null || contributorIds.includes(resource.contributorId);
+}
+
+/**
+ * Whether the user may open a resource: approved items are school-wide,
+ * pending ones only for their contributor and moderators.
+ */
+export function canViewResource(
+  resource: Pick<ResourceLibraryItem, 'isApproved' | 'contributorId'>,
+  userId: number,
+  isModerator: boolean,
+): boolean {
+  return resource.isApproved || resource.contributorId === userId || isModerator;
+}
+
+function jsonStrings(value: Prisma.JsonValue | null | undefined): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string')
+    : [];
+}
+
+function hasCurriculumCode(resource: ResourceLibraryItem, code: string): boolean {
+  const wanted = code.toUpperCase();
+  return jsonStrings(resource.curriculumCodes).some((c) => c.toUpperCase() === wanted);
+}
+
+/**
+ * Search the library. Users see approved resources plus their own
+ * contributions; a resource replaced by an approved newer version drops out.
+ * Curriculum codes live in a JSON array, which SQLite cannot filter on, so
+ * that filter runs after the query.
+ */
+export async function searchLibrary(userId: number, filters: LibrarySearchFilters) {
+  const page = filters.page ?? 1;
+  const limit = filters.limit ?? 20;
+
+  const superseded = await prisma.resourceLibraryItem.findMany({
+    where: { isApproved: true, previousVersionId: { not: null } },
+    select: { previousVersionId: true },
+  });
+
+  const where: Prisma.ResourceLibraryItemWhereInput = {
+    AND: [
+      { OR: [{ isApproved: true }, { contributorId: userId }] },
+      { id: { notIn: superseded.map((item) => item.previousVersionId!) } },
+      ...(filters.search
+        ? [
+            {
+              OR: [
+                { title: { contains: filters.search } },
+                { titleFr: { contains: filters.search } },
+                { description: { contains: filters.search } },
+                { descriptionFr: { contains: filters.search } },
+              ],
+            },
+          ]
+        : []),
+    ],
+    ...(filters.subject && { subject: filters.subject }),
+    ...(filters.grade !== undefined && {
+      gradeMin: { lte: filters.grade },
+      gradeMax: { gte: filters.grade },
+    }),
+    ...(filters.resourceType && { resourceType: filters.resourceType }),
+    ...(filters.language && { language: filters.language }),
+    ...(filters.isFrenchImmersion !== undefined && {
+      isFrenchImmersion: filters.isFrenchImmersion,
+    }),
+    ...(filters.frenchLevel && { frenchLevel: filters.frenchLevel }),
+  };
+  const orderBy = ORDER_BY[filters.sort ?? 'recent'];
+  const include = { contributor: { select: { id: true, name: true } } };
+
+  if (filters.curriculumCode) {
+    const matches = (await prisma.resourceLibraryItem.findMany({ where, orderBy, include })).filter(
+      (resource) => hasCurriculumCode(resource, filters.curriculumCode!),
+    );
+    return {
+      resources: matches.slice((page - 1) * limit, page * limit),
+      total: matches.length,
+      page,
+      limit,
+    };
+  }
+
+  const [resources, total] = await Promise.all([
+    prisma.resourceLibraryItem.findMany({
+      where,
+      orderBy,
+      include,
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.resourceLibraryItem.count({ where }),
+  ]);
+  return { resources, total, page, limit };
+}
+
+/**
+ * Recompute ResourceLibraryItem.averageRating from its ratings.
+ */
+export async function refreshAverageRating(resourceId: string): Promise<number> {
+  const { _avg } = await prisma.resourceRating.aggregate({
+    where: { resourceId },
+    _avg: { rating: true },
+  });
+  const averageRating = Math.round((_avg.rating ?? 0) * 10) / 10;
+  await prisma.resourceLibraryItem.update({ where: { id: resourceId }, data: { averageRating } });
+  return averageRating;
+}
+
+/**
+ * The user's bookmarks with their resources, optionally narrowed to one of the
+ * user's own tags. Bookmarks to resources that have since been deleted are
+ * left out.
+ */
+export async function listBookmarks(userId: number, tag?: string) {
+  const bookmarks = await prisma.resourceBookmark.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+  });
+  const tagged = tag
+    ? bookmarks.filter((bookmark) => jsonStrings(bookmark.tags).includes(tag))
+    : bookmarks;
+
+  const resources = await prisma.resourceLibraryItem.findMany({
+    where: { id: { in: tagged.map((bookmark) => bookmark.resourceId) } },
+  });
+  const resourcesById = new Map(resources.map((resource) => [resource.id, resource]));
+
+  return tagged
+    .filter((bookmark) => resourcesById.has(bookmark.resourceId))
+    .map((bookmark) => ({ ...bookmark, resource: resourcesById.get(bookmark.resourceId)! }));
+}
+
+/**
+ * Let the contributor know a moderator has reviewed their resource. Failures
+ * are logged, not thrown.
+ */
+export async function notifyResourceReviewed(resource: ResourceLibraryItem, reason?: string) {
+  try {
+    if (resource.isApproved) {
+      await notificationService.sendTemplatedNotification(
+        resource.contributorId,
+        'resource_approved',
+        { resourceTitle: resource.title },
+        { metadata: { resourceId: resource.id } },
+      );
+    } else {
+      await notificationService.sendTemplatedNotification(
+        resource.contributorId,
+        'resource_rejected',
+        { resourceTitle: resource.title, reason: reason || 'No reason given' },
+        { metadata: { resourceId: resource.id } },
+      );
+    }
+  } catch (err) {
+    logger.error({ err, resourceId: resource.id }, 'Failed to send resource review notification');
+  }
+}
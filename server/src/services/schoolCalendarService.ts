@@ -0,0 +1,621 @@
+/**
+ * Provincial holidays and school years, computed from rules rather than
+ * stored dates: nth-weekday holidays, Easter by the Gregorian computus,
+ * "the Monday before May 25" and so on. Provinces match the curriculum
+ * sources (PE, ON, BC). Breaks, PD days and terms are the usual pattern for
+ * the province; boards publish their exact calendar each year, which teachers
+ * can subscribe to as an ICS feed.
+ */
+
+import type { CalendarEvent } from '@teaching-engine/database';
+import { prisma } from '../prisma';
+
+export const PROVINCES = ['PE', 'ON', 'BC'] as const;
+export type Province = (typeof PROVINCES)[number];
+
+export const DEFAULT_PROVINCE: Province = 'ON';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SUN = 0;
+const MON = 1;
+const THU = 4;
+
+/**
+ * How a date is found in a given calendar year. Months are 1-12 and
+ * weekdays 0-6 from Sunday; offsetDays shifts the result, e.g. the Friday
+ * before a Monday holiday.
+ */
+export type DateRule =
+  | { kind: 'fixed'; month: number; day: number; observed?: boolean }
+  | { kind: 'nthWeekday'; month: number; weekday: number; n: number; offsetDays?: number }
+  | { kind: 'weekdayOnOrAfter'; month: number; day: number; weekday: number; offsetDays?: number }
+  | { kind: 'weekdayBefore'; month: number; day: number; weekday: number }
+  | { kind: 'easter'; offsetDays: number };
+
+interface DayDefinition {
+  key: string;
+  name: string;
+  nameFr: string;
+  rule: DateRule;
+}
+
+type BreakKey = 'winterBreak' | 'springBreak';
+
+interface BreakDefinition {
+  key: BreakKey;
+  name: string;
+  nameFr: string;
+  start: DateRule;
+  weeks: number;
+}
+
+interface TermDefinition {
+  name: string;
+  nameFr: string;
+  /** The term ends on the last school day before this break... */
+  endsBefore?: BreakKey;
+  /** ...or on the last school day of this month. The final term has neither. */
+  endsWithMonth?: number;
+}
+
+interface SchoolYearDefinition {
+  /** First day staff are back; students start on the first school day from it */
+  firstDay: DateRule;
+  /** Last day of classes */
+  lastDay: DateRule;
+  breaks: BreakDefinition[];
+  pdDays: DayDefinition[];
+  terms: TermDefinition[];
+}
+
+/** A term as configured in the teacher's planner settings (YYYY-MM-DD dates) */
+export interface TermDate {
+  name: string;
+  start: string;
+  end: string;
+}
+
+export interface CalendarDay {
+  key: string;
+  name: string;
+  nameFr: string;
+  date: string;
+}
+
+export interface CalendarSpan {
+  key: string;
+  name: string;
+  nameFr: string;
+  start: string;
+  end: string;
+}
+
+export interface SchoolYear {
+  province: Province;
+  /** Matches LongRangePlan.academicYear, e.g. "2025-2026" */
+  academicYear: string;
+  start: string;
+  end: string;
+  /** Holidays on school weekdays between start and end */
+  holidays: CalendarDay[];
+  breaks: CalendarSpan[];
+  pdDays: CalendarDay[];
+  terms: (TermDate & { nameFr: string })[];
+  instructionalDays: number;
+}
+
+const fixed = (month: number, day: number, observed = false): DateRule => ({
+  kind: 'fixed',
+  month,
+  day,
+  observed,
+});
+const nth = (month: number, weekday: number, n: number, offsetDays = 0): DateRule => ({
+  kind: 'nthWeekday',
+  month,
+  weekday,
+  n,
+  offsetDays,
+});
+const easter = (offsetDays: number): DateRule => ({ kind: 'easter', offsetDays });
+
+const NEW_YEAR: DayDefinition = {
+  key: 'new-year',
+  name: "New Year's Day",
+  nameFr: "Jour de l'An",
+  rule: fixed(1, 1, true),
+};
+const FAMILY_DAY: DayDefinition = {
+  key: 'family-day',
+  name: 'Family Day',
+  nameFr: 'Jour de la famille',
+  rule: nth(2, MON, 3),
+};
+const GOOD_FRIDAY: DayDefinition = {
+  key: 'good-friday',
+  name: 'Good Friday',
+  nameFr: 'Vendredi saint',
+  rule: easter(-2),
+};
+// Not a statutory holiday everywhere, but schools close in all three provinces
+const EASTER_MONDAY: DayDefinition = {
+  key: 'easter-monday',
+  name: 'Easter Monday',
+  nameFr: 'Lundi de Pâques',
+  rule: easter(1),
+};
+const VICTORIA_DAY: DayDefinition = {
+  key: 'victoria-day',
+  name: 'Victoria Day',
+  nameFr: 'Fête de la Reine',
+  rule: { kind: 'weekdayBefore', month: 5, day: 25, weekday: MON },
+};
+const CANADA_DAY: DayDefinition = {
+  key: 'canada-day',
+  name: 'Canada Day',
+  nameFr: 'Fête du Canada',
+  rule: fixed(7, 1, true),
+};
+const CIVIC_HOLIDAY: DayDefinition = {
+  key: 'civic-holiday',
+  name: 'Civic Holiday',
+  nameFr: 'Congé civique',
+  rule: nth(8, MON, 1),
+};
+const LABOUR_DAY: DayDefinition = {
+  key: 'labour-day',
+  name: 'Labour Day',
+  nameFr: 'Fête du Travail',
+  rule: nth(9, MON, 1),
+};
+const TRUTH_AND_RECONCILIATION: DayDefinition = {
+  key: 'truth-and-reconciliation',
+  name: 'National Day for Truth and Reconciliation',
+  nameFr: 'Journée nationale de la vérité et de la réconciliation',
+  rule: fixed(9, 30),
+};
+const THANKSGIVING: DayDefinition = {
+  key: 'thanksgiving',
+  name: 'Thanksgiving',
+  nameFr: 'Action de grâce',
+  rule: nth(10, MON, 2),
+};
+const REMEMBRANCE_DAY: DayDefinition = {
+  key: 'remembrance-day',
+  name: 'Remembrance Day',
+  nameFr: 'Jour du Souvenir',
+  rule: fixed(11, 11),
+};
+const CHRISTMAS: DayDefinition = {
+  key: 'christmas',
+  name: 'Christmas Day',
+  nameFr: 'Noël',
+  rule: fixed(12, 25, true),
+};
+const BOXING_DAY: DayDefinition = {
+  key: 'boxing-day',
+  name: 'Boxing Day',
+  nameFr: 'Lendemain de Noël',
+  rule: fixed(12, 26, true),
+};
+
+export const PROVINCIAL_HOLIDAYS: Record<Province, DayDefinition[]> = {
+  PE: [
+    NEW_YEAR,
+    { ...FAMILY_DAY, key: 'islander-day', name: 'Islander Day', nameFr: 'Fête des Insulaires' },
+    GOOD_FRIDAY,
+    EASTER_MONDAY,
+    VICTORIA_DAY,
+    CANADA_DAY,
+    CIVIC_HOLIDAY,
+    LABOUR_DAY,
+    TRUTH_AND_RECONCILIATION,
+    THANKSGIVING,
+    REMEMBRANCE_DAY,
+    CHRISTMAS,
+    BOXING_DAY,
+  ],
+  ON: [
+    NEW_YEAR,
+    FAMILY_DAY,
+    GOOD_FRIDAY,
+    EASTER_MONDAY,
+    VICTORIA_DAY,
+    CANADA_DAY,
+    CIVIC_HOLIDAY,
+    LABOUR_DAY,
+    THANKSGIVING,
+    CHRISTMAS,
+    BOXING_DAY,
+  ],
+  BC: [
+    NEW_YEAR,
+    FAMILY_DAY,
+    GOOD_FRIDAY,
+    EASTER_MONDAY,
+    VICTORIA_DAY,
+    CANADA_DAY,
+    {
+      ...CIVIC_HOLIDAY,
+      key: 'bc-day',
+      name: 'B.C. Day',
+      nameFr: 'Jour de la Colombie-Britannique',
+    },
+    LABOUR_DAY,
+    TRUTH_AND_RECONCILIATION,
+    THANKSGIVING,
+    REMEMBRANCE_DAY,
+    CHRISTMAS,
+    BOXING_DAY,
+  ],
+};
+
+const WINTER_BREAK: BreakDefinition = {
+  key: 'winterBreak',
+  name: 'Winter Break',
+  nameFr: 'Vacances d’hiver',
+  start: { kind: 'weekdayOnOrAfter', month: 12, day: 20, weekday: MON },
+  weeks: 2,
+};
+const MARCH_BREAK: BreakDefinition = {
+  key: 'springBreak',
+  name: 'March Break',
+  nameFr: 'Relâche de mars',
+  start: { kind: 'weekdayOnOrAfter', month: 3, day: 14, weekday: MON },
+  weeks: 1,
+};
+const TUESDAY_AFTER_LABOUR_DAY = nth(9, MON, 1, 1);
+const LAST_THURSDAY_OF_JUNE = nth(6, THU, -1);
+
+export const SCHOOL_YEARS: Record<Province, SchoolYearDefinition> = {
+  // Public Schools Branch pattern: two PD days open the year before students
+  // arrive, with PD before Islander Day and an administration day at year end
+  PE: {
+    firstDay: TUESDAY_AFTER_LABOUR_DAY,
+    lastDay: LAST_THURSDAY_OF_JUNE,
+    breaks: [WINTER_BREAK, MARCH_BREAK],
+    pdDays: [
+      {
+        key: 'opening-pd-1',
+        name: 'PD Day (school opening)',
+        nameFr: 'Journée pédagogique (rentrée)',
+        rule: TUESDAY_AFTER_LABOUR_DAY,
+      },
+      {
+        key: 'opening-pd-2',
+        name: 'PD Day (school opening)',
+        nameFr: 'Journée pédagogique (rentrée)',
+        rule: nth(9, MON, 1, 2),
+      },
+      {
+        key: 'islander-day-pd',
+        name: 'PD Day',
+        nameFr: 'Journée pédagogique',
+        rule: nth(2, MON, 3, -3),
+      },
+      {
+        key: 'year-end-admin',
+        name: 'Administration Day',
+        nameFr: 'Journée administrative',
+        rule: nth(6, THU, -1, 1),
+      },
+    ],
+    terms: [
+      { name: 'Term 1', nameFr: 'Étape 1', endsWithMonth: 11 },
+      { name: 'Term 2', nameFr: 'Étape 2', endsBefore: 'springBreak' },
+      { name: 'Term 3', nameFr: 'Étape 3' },
+    ],
+  },
+  // Boards set their own PA days; subscribe to the board calendar for them
+  ON: {
+    firstDay: TUESDAY_AFTER_LABOUR_DAY,
+    lastDay: LAST_THURSDAY_OF_JUNE,
+    breaks: [
+      WINTER_BREAK,
+      { ...MARCH_BREAK, start: { kind: 'weekdayOnOrAfter', month: 3, day: 11, weekday: MON } },
+    ],
+    pdDays: [],
+    terms: [
+      { name: 'Term 1', nameFr: 'Étape 1', endsWithMonth: 1 },
+      { name: 'Term 2', nameFr: 'Étape 2' },
+    ],
+  },
+  // Districts set their own non-instructional days
+  BC: {
+    firstDay: TUESDAY_AFTER_LABOUR_DAY,
+    lastDay: LAST_THURSDAY_OF_JUNE,
+    breaks: [
+      WINTER_BREAK,
+      { ...MARCH_BREAK, name: 'Spring Break', nameFr: 'Relâche du printemps', weeks: 2 },
+    ],
+    pdDays: [],
+    terms: [
+      { name: 'Term 1', nameFr: 'Étape 1', endsBefore: 'winterBreak' },
+      { name: 'Term 2', nameFr: 'Étape 2', endsBefore: 'springBreak' },
+      { name: 'Term 3', nameFr: 'Étape 3' },
+    ],
+  },
+};
+
+export function isProvince(value: unknown): value is Province {
+  return PROVINCES.includes(value as Province);
+}
+
+const utcDate = (year: number, month: number, day: number) =>
+  new Date(Date.UTC(year, month - 1, day));
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS);
+const isWeekend = (date: Date) => date.getUTCDay() === SUN || date.getUTCDay() === 6;
+
+export function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function fromDateKey(key: string): Date {
+  return new Date(`${key}T00:00:00Z`);
+}
+
+/**
+ * Easter Sunday by the anonymous Gregorian algorithm (Meeus/Jones/Butcher).
+ */
+export function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return utcDate(year, month, day);
+}
+
+/**
+ * The nth given weekday of a month, counting from the end when n is negative
+ * (-1 is the last).
+ */
+export function nthWeekdayOfMonth(year: number, month: number, weekday: number, n: number): Date {
+  if (n > 0) {
+    const first = utcDate(year, month, 1);
+    return addDays(first, ((weekday - first.getUTCDay() + 7) % 7) + (n - 1) * 7);
+  }
+  const last = utcDate(year, month + 1, 0);
+  return addDays(last, -((last.getUTCDay() - weekday + 7) % 7) + (n + 1) * 7);
+}
+
+/** The date a rule gives in a calendar year, before any weekend observance */
+export function resolveRule(rule: DateRule, year: number): Date {
+  switch (rule.kind) {
+    case 'fixed':
+      return utcDate(year, rule.month, rule.day);
+    case 'nthWeekday':
+      return addDays(
+        nthWeekdayOfMonth(year, rule.month, rule.weekday, rule.n),
+        rule.offsetDays ?? 0,
+      );
+    case 'weekdayOnOrAfter': {
+      const from = utcDate(year, rule.month, rule.day);
+      return addDays(from, ((rule.weekday - from.getUTCDay() + 7) % 7) + (rule.offsetDays ?? 0));
+    }
+    case 'weekdayBefore': {
+      const before = utcDate(year, rule.month, rule.day);
+      return addDays(before, -((before.getUTCDay() - rule.weekday + 7) % 7 || 7));
+    }
+    case 'easter':
+      return addDays(easterSunday(year), rule.offsetDays);
+  }
+}
+
+/**
+ * A province's holidays in one calendar year, in date order. Holidays marked
+ * as observed move off the weekend to the next free weekday, so a Saturday
+ * Christmas is observed on Monday and Boxing Day on Tuesday.
+ */
+export function getHolidays(province: Province, year: number): CalendarDay[] {
+  const taken = new Set<string>();
+  const days: CalendarDay[] = [];
+
+  for (const holiday of PROVINCIAL_HOLIDAYS[province]) {
+    let date = resolveRule(holiday.rule, year);
+    if (holiday.rule.kind === 'fixed' && holiday.rule.observed) {
+      while (isWeekend(date) || taken.has(toDateKey(date))) date = addDays(date, 1);
+    }
+    taken.add(toDateKey(date));
+    days.push({
+      key: holiday.key,
+      name: holiday.name,
+      nameFr: holiday.nameFr,
+      date: toDateKey(date),
+    });
+  }
+
+  return days.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Rules for September onward fall in the year the school year starts
+function schoolYearDate(rule: DateRule, startYear: number) {
+  const inFall = rule.kind !== 'easter' && rule.month >= 8;
+  return resolveRule(rule, inFall ? startYear : startYear + 1);
+}
+
+/**
+ * The school year starting in September of startYear: first and last days
+ * of classes, holidays, breaks, PD days and term boundaries.
+ */
+export function getSchoolYear(province: Province, startYear: number): SchoolYear {
+  const definition = SCHOOL_YEARS[province];
+  const firstDay = schoolYearDate(definition.firstDay, startYear);
+  const lastDay = schoolYearDate(definition.lastDay, startYear);
+  const inYear = (key: string) => key >= toDateKey(firstDay) && key <= toDateKey(lastDay);
+
+  const holidays = [
+    ...getHolidays(province, startYear),
+    ...getHolidays(province, startYear + 1),
+  ].filter((holiday) => inYear(holiday.date) && !isWeekend(fromDateKey(holiday.date)));
+
+  const breaks: CalendarSpan[] = definition.breaks.map((definitionBreak) => {
+    const start = schoolYearDate(definitionBreak.start, startYear);
+    return {
+      key: definitionBreak.key,
+      name: definitionBreak.name,
+      nameFr: definitionBreak.nameFr,
+      start: toDateKey(start),
+      end: toDateKey(addDays(start, definitionBreak.weeks * 7 - 3)),
+    };
+  });
+
+  const pdDays: CalendarDay[] = definition.pdDays.map((pdDay) => ({
+    key: pdDay.key,
+    name: pdDay.name,
+    nameFr: pdDay.nameFr,
+    date: toDateKey(schoolYearDate(pdDay.rule, startYear)),
+  }));
+
+  const closed = new Set([...holidays.map((h) => h.date), ...pdDays.map((d) => d.date)]);
+  for (const span of breaks) {
+    for (let d = fromDateKey(span.start); toDateKey(d) <= span.end; d = addDays(d, 1)) {
+      closed.add(toDateKey(d));
+    }
+  }
+  const isSchoolDay = (date: Date) => !isWeekend(date) && !closed.has(toDateKey(date));
+
+  let start = firstDay;
+  while (!isSchoolDay(start)) start = addDays(start, 1);
+  let end = lastDay;
+  while (!isSchoolDay(end)) end = addDays(end, -1);
+
+  let instructionalDays = 0;
+  for (let d = start; d <= end; d = addDays(d, 1)) {
+    if (isSchoolDay(d)) instructionalDays++;
+  }
+
+  const lastSchoolDayBefore = (date: Date) => {
+    let d = addDays(date, -1);
+    while (!isSchoolDay(d)) d = addDays(d, -1);
+    return d;
+  };
+  const nextSchoolDay = (date: Date) => {
+    let d = addDays(date, 1);
+    while (!isSchoolDay(d)) d = addDays(d, 1);
+    return d;
+  };
+
+  const terms: SchoolYear['terms'] = [];
+  let termStart = start;
+  for (const term of definition.terms) {
+    let termEnd = end;
+    if (term.endsBefore) {
+      const boundary = breaks.find((b) => b.key === term.endsBefore);
+      if (boundary) termEnd = lastSchoolDayBefore(fromDateKey(boundary.start));
+    } else if (term.endsWithMonth) {
+      const year = term.endsWithMonth >= 8 ? startYear : startYear + 1;
+      termEnd = lastSchoolDayBefore(utcDate(year, term.endsWithMonth + 1, 1));
+    }
+    terms.push({
+      name: term.name,
+      nameFr: term.nameFr,
+      start: toDateKey(termStart),
+      end: toDateKey(termEnd),
+    });
+    if (termEnd >= end) break;
+    termStart = nextSchoolDay(termEnd);
+  }
+
+  return {
+    province,
+    academicYear: `${startYear}-${startYear + 1}`,
+    start: toDateKey(start),
+    end: toDateKey(end),
+    holidays,
+    breaks,
+    pdDays,
+    terms,
+    instructionalDays,
+  };
+}
+
+/** The school year a date belongs to; from July on, the one about to start */
+export function schoolYearStartFor(date: Date): number {
+  return date.getUTCMonth() >= 6 ? date.getUTCFullYear() : date.getUTCFullYear() - 1;
+}
+
+/** "2025-2026" to 2025, or null for anything else */
+export function parseAcademicYear(academicYear: string): number | null {
+  const match = /^(\d{4})-(\d{4})$/.exec(academicYear);
+  if (!match || Number(match[2]) !== Number(match[1]) + 1) return null;
+  return Number(match[1]);
+}
+
+/**
+ * The province whose calendar applies to a teacher: the one chosen in their
+ * planner settings, else their school board's, else Ontario.
+ */
+export async function provinceForUser(userId: number): Promise<Province> {
+  const [plannerState, membership] = await Promise.all([
+    prisma.weeklyPlannerState.findUnique({ where: { userId }, select: { province: true } }),
+    prisma.schoolMembership.findFirst({
+      where: { userId, school: { board: { isNot: null } } },
+      select: { school: { select: { board: { select: { province: true } } } } },
+    }),
+  ]);
+  const province = plannerState?.province ?? membership?.school.board?.province;
+  return isProvince(province) ? province : DEFAULT_PROVINCE;
+}
+
+/**
+ * Holidays, breaks and PD days overlapping [start, end) as all-day
+ * CalendarEvents, one per closed day, so the scheduler and timetable
+ * rotation skip them even when the teacher never imported them.
+ */
+export function schoolClosureEvents(province: Province, start: Date, end: Date): CalendarEvent[] {
+  const closures: { title: string; date: string; eventType: 'HOLIDAY' | 'PD_DAY' }[] = [];
+  for (let year = schoolYearStartFor(start); year <= schoolYearStartFor(end); year++) {
+    const schoolYear = getSchoolYear(province, year);
+    closures.push(
+      ...schoolYear.holidays.map((h) => ({
+        title: h.name,
+        date: h.date,
+        eventType: 'HOLIDAY' as const,
+      })),
+      ...schoolYear.pdDays.map((d) => ({
+        title: d.name,
+        date: d.date,
+        eventType: 'PD_DAY' as const,
+      })),
+    );
+    for (const span of schoolYear.breaks) {
+      for (let d = fromDateKey(span.start); toDateKey(d) <= span.end; d = addDays(d, 1)) {
+        if (!isWeekend(d))
+          closures.push({ title: span.name, date: toDateKey(d), eventType: 'HOLIDAY' });
+      }
+    }
+  }
+
+  const from = toDateKey(start);
+  const to = toDateKey(addDays(end, -1));
+  const now = new Date();
+  return closures
+    .filter((closure) => closure.date >= from && closure.date <= to)
+    .map((closure, index) => ({
+      // Negative ids keep these apart from real CalendarEvent rows
+      id: -(index + 1),
+      title: closure.title,
+      description: null,
+      start: fromDateKey(closure.date),
+      end: new Date(fromDateKey(closure.date).getTime() + DAY_MS - 1),
+      allDay: true,
+      eventType: closure.eventType,
+      source: 'SYSTEM',
+      teacherId: null,
+      schoolId: null,
+      feedId: null,
+      uid: null,
+      createdAt: now,
+      updatedAt: now,
+    }));
+}
@@ -0,0 +1,352 @@
+import type { CalendarEventType, Prisma, SchoolRole } from '@teaching-engine/database';
+import { addDays } from 'date-fns';
+import { prisma } from '../prisma';
+import { checkPermissions, generateTemporaryPassword, hashPassword } from './authService';
+import { composeBilingualEmail, queueEmail } from './emailService';
+
+/** Days an invitation to join a school's staff stays open */
+export const INVITATION_TTL_DAYS = 7;
+
+export class SchoolInvitationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SchoolInvitationError';
+  }
+}
+
+export type AdminRole = 'SCHOOL_ADMIN' | 'BOARD_ADMIN';
+
+export interface StaffInput {
+  email: string;
+  name: string;
+  role: SchoolRole;
+}
+
+export interface SchoolEventInput {
+  title: string;
+  description?: string;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  eventType: CalendarEventType;
+}
+
+export async function isPlatformAdmin(userId: number): Promise<boolean> {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { role: true } });
+  return user?.role === 'ADMIN';
+}
+
+/**
+ * The user's highest tenancy role, used against the shared permission table.
+ * Board admin outranks school admin.
+ */
+export async function getAdminRole(userId: number): Promise<AdminRole | null> {
+  const boardAdmin = await prisma.boardMembership.findFirst({
+    where: { userId, role: 'BOARD_ADMIN' },
+    select: { id: true },
+  });
+  if (boardAdmin) return 'BOARD_ADMIN';
+
+  const schoolAdmin = await prisma.schoolMembership.findFirst({
+    where: { userId, role: 'SCHOOL_ADMIN' },
+    select: { id: true },
+  });
+  return schoolAdmin ? 'SCHOOL_ADMIN' : null;
+}
+
+/**
+ * Schools the user administers: those where they are a school admin plus
+ * every school on a board they administer.
+ */
+export async function getManagedSchoolIds(userId: number): Promise<number[]> {
+  const schools = await prisma.school.findMany({
+    where: {
+      OR: [
+        { memberships: { some: { userId, role: 'SCHOOL_ADMIN' } } },
+        { board: { memberships: { some: { userId, role: 'BOARD_ADMIN' } } } },
+      ],
+    },
+    select: { id: true },
+  });
+  return schools.map((school) => school.id);
+}
+
+/** Platform admins manage every school; everyone else needs an admin role */
+export async function canManageSchool(userId: number, schoolId: number): Promise<boolean> {
+  if (await isPlatformAdmin(userId)) return true;
+  const role = await getAdminRole(userId);
+  if (!role || !(await checkPermissions({ role }, 'school.manage'))) return false;
+  return (await getManagedSchoolIds(userId)).includes(schoolId);
+}
+
+export async function canManageBoard(userId: number, boardId: number): Promise<boolean> {
+  if (await isPlatformAdmin(userId)) return true;
+  const membership = await prisma.boardMembership.findUnique({
+    where: { boardId_userId: { boardId, userId } },
+    select: { role: true },
+  });
+  return membership?.role === 'BOARD_ADMIN';
+}
+
+export async function canViewSchool(userId: number, schoolId: number): Promise<boolean> {
+  const membership = await prisma.schoolMembership.findUnique({
+    where: { schoolId_userId: { schoolId, userId } },
+    select: { id: true },
+  });
+  return membership !== null || canManageSchool(userId, schoolId);
+}
+
+/**
+ * School fields for a team linked to a school, keeping the free-text
+ * schoolName/schoolBoard in step. Null when the user may not link the team to
+ * that school.
+ */
+export async function getTeamSchoolFields(userId: number, schoolId: number) {
+  if (!(await canViewSchool(userId, schoolId))) return null;
+  const school = await prisma.school.findUnique({
+    where: { id: schoolId },
+    include: { board: { select: { name: true } } },
+  });
+  if (!school) return null;
+  return { schoolId, schoolName: school.name, schoolBoard: school.board?.name ?? null };
+}
+
+/**
+ * Which CalendarEvents the teacher sees: their own, events for everyone
+ * (no teacher, no school) and the published calendars of their schools.
+ */
+export async function calendarEventScope(userId: number): Promise<Prisma.CalendarEventWhereInput> {
+  const memberships = await prisma.schoolMembership.findMany({
+    where: { userId },
+    select: { schoolId: true },
+  });
+  return {
+    OR: [
+      { teacherId: userId },
+      { teacherId: null, schoolId: null },
+      { teacherId: null, schoolId: { in: memberships.map((m) => m.schoolId) } },
+    ],
+  };
+}
+
+export async function listStaff(schoolId: number) {
+  return prisma.schoolMembership.findMany({
+    where: { schoolId },
+    include: {
+      user: { select: { id: true, email: true, name: true, mustChangePassword: true } },
+    },
+    orderBy: [{ role: 'desc' }, { user: { name: 'asc' } }],
+  });
+}
+
+/**
+ * Invite someone to the school's staff. They join only once they accept, so
+ * an admin cannot enrol an existing account or change its role this way.
+ * Unknown emails get a new account with a temporary password, returned once
+ * so the admin can pass it on.
+ */
+export async function inviteStaffMember(schoolId: number, invitedById: number, input: StaffInput) {
+  const email = input.email.toLowerCase();
+  let user = await prisma.user.findUnique({ where: { email } });
+  let temporaryPassword: string | undefined;
+
+  if (user) {
+    const membership = await prisma.schoolMembership.findUnique({
+      where: { schoolId_userId: { schoolId, userId: user.id } },
+      select: { id: true },
+    });
+    if (membership) throw new SchoolInvitationError('This person is already on the staff');
+  } else {
+    temporaryPassword = generateTemporaryPassword();
+    user = await prisma.user.create({
+      data: {
+        email,
+        name: input.name.replace(/<[^>]*>/g, ''),
+        password: await hashPassword(temporaryPassword),
+        mustChangePassword: true,
+      },
+    });
+  }
+
+  const existing = await prisma.schoolInvitation.findUnique({
+    where: { schoolId_email: { schoolId, email } },
+  });
+  if (existing?.status === 'PENDING' && existing.expiresAt > new Date()) {
+    throw new SchoolInvitationError('An invitation is already pending for this email');
+  }
+
+  // Earlier declined or expired invitations are reopened
+  const fields = {
+    invitedById,
+    invitedUserId: user.id,
+    role: input.role,
+    status: 'PENDING' as const,
+    expiresAt: addDays(new Date(), INVITATION_TTL_DAYS),
+    respondedAt: null,
+  };
+  const invitation = await prisma.schoolInvitation.upsert({
+    where: { schoolId_email: { schoolId, email } },
+    create: { schoolId, email, ...fields },
+    update: fields,
+    include: {
+      school: { select: { id: true, name: true } },
+      invitedBy: { select: { id: true, name: true, email: true } },
+    },
+  });
+
+  const inviter = invitation.invitedBy.name || invitation.invitedBy.email;
+  await queueEmail(
+    {
+      to: email,
+      ...composeBilingualEmail({
+        en: {
+          subject: `You're invited to join the staff of ${invitation.school.name}`,
+          text: `${inviter} has invited you to join the staff of ${invitation.school.name} on Teaching Engine.\n\nSign in to accept the invitation. It expires in ${INVITATION_TTL_DAYS} days.`,
+        },
+        fr: {
+          subject: `Invitation à rejoindre le personnel de ${invitation.school.name}`,
+          text: `${inviter} vous invite à rejoindre le personnel de ${invitation.school.name} sur Teaching Engine.\n\nConnectez-vous pour accepter l'invitation. Elle expire dans ${INVITATION_TTL_DAYS} jours.`,
+        },
+      }),
+    },
+    { userId: invitedById, relatedType: 'school_invitation', relatedId: invitation.id },
+  );
+
+  return { invitation, temporaryPassword };
+}
+
+/** Invitations to the school still waiting for an answer */
+export async function listSchoolInvitations(schoolId: number) {
+  return prisma.schoolInvitation.findMany({
+    where: { schoolId, status: 'PENDING', expiresAt: { gt: new Date() } },
+    include: { invitedBy: { select: { id: true, name: true, email: true } } },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/** Returns false when there is no open invitation with that id at the school */
+export async function cancelSchoolInvitation(
+  schoolId: number,
+  invitationId: string,
+): Promise<boolean> {
+  const { count } = await prisma.schoolInvitation.deleteMany({
+    where: { id: invitationId, schoolId, status: 'PENDING' },
+  });
+  return count > 0;
+}
+
+/** Open invitations addressed to the user's account or email */
+export async function listMyInvitations(user: { id: number; email: string }) {
+  return prisma.schoolInvitation.findMany({
+    where: {
+      OR: [{ invitedUserId: user.id }, { email: user.email.toLowerCase() }],
+      status: 'PENDING',
+      expiresAt: { gt: new Date() },
+    },
+    include: {
+      school: { select: { id: true, name: true } },
+      invitedBy: { select: { id: true, name: true, email: true } },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Accept or decline an invitation. Accepting adds the user to the staff with
+ * the invited role. Returns null when the invitation is not the user's.
+ */
+export async function respondToSchoolInvitation(
+  user: { id: number; email: string },
+  invitationId: string,
+  accept: boolean,
+) {
+  const invitation = await prisma.schoolInvitation.findUnique({ where: { id: invitationId } });
+  if (
+    !invitation ||
+    (invitation.invitedUserId !== user.id && invitation.email !== user.email.toLowerCase())
+  ) {
+    return null;
+  }
+  if (invitation.status !== 'PENDING') {
+    throw new SchoolInvitationError('Invitation has already been responded to');
+  }
+  if (invitation.expiresAt <= new Date()) {
+    throw new SchoolInvitationError('Invitation has expired');
+  }
+
+  const respondedAt = new Date();
+  if (!accept) {
+    return prisma.schoolInvitation.update({
+      where: { id: invitation.id },
+      data: { status: 'DECLINED', respondedAt },
+    });
+  }
+
+  const [accepted] = await prisma.$transaction([
+    prisma.schoolInvitation.update({
+      where: { id: invitation.id },
+      data: { status: 'ACCEPTED', respondedAt, invitedUserId: user.id },
+    }),
+    prisma.schoolMembership.upsert({
+      where: { schoolId_userId: { schoolId: invitation.schoolId, userId: user.id } },
+      create: { schoolId: invitation.schoolId, userId: user.id, role: invitation.role },
+      update: {},
+    }),
+  ]);
+  return accepted;
+}
+
+/** Returns null when the user is not on the school's staff */
+export async function updateStaffRole(schoolId: number, userId: number, role: SchoolRole) {
+  const existing = await prisma.schoolMembership.findUnique({
+    where: { schoolId_userId: { schoolId, userId } },
+  });
+  if (!existing) return null;
+
+  return prisma.schoolMembership.update({
+    where: { id: existing.id },
+    data: { role },
+    include: {
+      user: { select: { id: true, email: true, name: true, mustChangePassword: true } },
+    },
+  });
+}
+
+export async function removeStaffMember(schoolId: number, userId: number): Promise<boolean> {
+  const { count } = await prisma.schoolMembership.deleteMany({ where: { schoolId, userId } });
+  return count > 0;
+}
+
+export async function listSchoolEvents(schoolId: number, start?: Date, end?: Date) {
+  return prisma.calendarEvent.findMany({
+    where: {
+      schoolId,
+      teacherId: null,
+      ...(start && { end: { gte: start } }),
+      ...(end && { start: { lte: end } }),
+    },
+    orderBy: { start: 'asc' },
+  });
+}
+
+/**
+ * Publish events to the school calendar. They have no teacher, so they show
+ * up in every staff member's calendar and block time in their planners.
+ */
+export async function publishSchoolEvents(schoolId: number, events: SchoolEventInput[]) {
+  return prisma.$transaction(
+    events.map((event) =>
+      prisma.calendarEvent.create({
+        data: { ...event, schoolId, teacherId: null, source: 'SCHOOL' },
+      }),
+    ),
+  );
+}
+
+/** Returns false when the event is not on this school's calendar */
+export async function deleteSchoolEvent(schoolId: number, eventId: number): Promise<boolean> {
+  const { count } = await prisma.calendarEvent.deleteMany({
+    where: { id: eventId, schoolId, teacherId: null },
+  });
+  return count > 0;
+}
@@ -0,0 +1,264 @@
+/**
+ * Session Service
+ * Signed-in devices with rotating refresh tokens, and revocation
+ */
+
+import crypto from 'crypto';
+import type { Request, Response } from 'express';
+import { PrismaClient } from '@teaching-engine/database';
+import { generateAuthToken } from './authService';
+
+/** Access tokens are short-lived; clients refresh them with the refresh token */
+export const ACCESS_TOKEN_EXPIRY = '15m';
+const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000;
+/** A session ends after this long without a refresh */
+export const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export const REFRESH_COOKIE = 'refreshToken';
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  /** When the access token expires, in ms since the epoch */
+  expiresAt: number;
+}
+
+export interface SessionMeta {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface ActiveSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  current: boolean;
+}
+
+export class SessionError extends Error {
+  constructor(message = 'Invalid or expired session') {
+    super(message);
+    this.name = 'SessionError';
+  }
+}
+
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function generateOpaqueToken(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+export function sessionMeta(req: Request): SessionMeta {
+  return {
+    userAgent: req.get('user-agent')?.slice(0, 255),
+    ipAddress: req.ip,
+  };
+}
+
+async function issueAccessToken(user: { id: number; email: string }, sessionId: string) {
+  const accessToken = await generateAuthToken(
+    user.id.toString(),
+    user.email,
+    sessionId,
+    ACCESS_TOKEN_EXPIRY,
+  );
+  return { accessToken, expiresAt: Date.now() + ACCESS_TOKEN_TTL_MS };
+}
+
+/**
+ * Start a session for a user who has just proven who they are
+ */
+export async function startSession(
+  prisma: PrismaClient,
+  user: { id: number; email: string },
+  meta: SessionMeta = {},
+): Promise<SessionTokens> {
+  const refreshToken = generateOpaqueToken();
+  const session = await prisma.userSession.create({
+    data: {
+      userId: user.id,
+      refreshTokenHash: hashToken(refreshToken),
+      userAgent: meta.userAgent,
+      ipAddress: meta.ipAddress,
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+    },
+  });
+
+  return { ...(await issueAccessToken(user, session.id)), refreshToken };
+}
+
+/**
+ * Exchange a refresh token for a new access token and a new refresh token.
+ * The old refresh token stops working. The swap only succeeds while the
+ * session still holds the presented token, so when two requests race with the
+ * same token, the loser is treated as token reuse and the session is revoked.
+ */
+export async function rotateSession(
+  prisma: PrismaClient,
+  refreshToken: string,
+  meta: SessionMeta = {},
+): Promise<SessionTokens> {
+  const session = await prisma.userSession.findUnique({
+    where: { refreshTokenHash: hashToken(refreshToken) },
+    include: { user: { select: { id: true, email: true } } },
+  });
+  if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+    throw new SessionError();
+  }
+
+  const nextRefreshToken = generateOpaqueToken();
+  const { count } = await prisma.userSession.updateMany({
+    where: { id: session.id, refreshTokenHash: hashToken(refreshToken) },
+    data: {
+      refreshTokenHash: hashToken(nextRefreshToken),
+      lastUsedAt: new Date(),
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+      ...(meta.userAgent && { userAgent: meta.userAgent }),
+      ...(meta.ipAddress && { ipAddress: meta.ipAddress }),
+    },
+  });
+  if (count !== 1) {
+    await prisma.userSession.update({
+      where: { id: session.id },
+      data: { revokedAt: new Date() },
+    });
+    throw new SessionError();
+  }
+
+  return {
+    ...(await issueAccessToken(session.user, session.id)),
+    refreshToken: nextRefreshToken,
+  };
+}
+
+/**
+ * Whether access tokens of the session are still accepted. Also reports
+ * whether the user still has to replace an admin-issued password, and when
+ * the password last changed (tokens issued before then are stale).
+ */
+export async function getSessionStatus(
+  prisma: PrismaClient,
+  sessionId: string,
+): Promise<{ active: boolean; mustChangePassword: boolean; passwordChangedAt: Date | null }> {
+  const session = await prisma.userSession.findUnique({
+    where: { id: sessionId },
+    select: {
+      revokedAt: true,
+      expiresAt: true,
+      user: { select: { mustChangePassword: true, passwordChangedAt: true } },
+    },
+  });
+  return {
+    active: !!session && !session.revokedAt && session.expiresAt > new Date(),
+    mustChangePassword: !!session?.user.mustChangePassword,
+    passwordChangedAt: session?.user.passwordChangedAt ?? null,
+  };
+}
+
+export async function listSessions(
+  prisma: PrismaClient,
+  userId: number,
+  currentSessionId?: string,
+): Promise<ActiveSession[]> {
+  const sessions = await prisma.userSession.findMany({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    orderBy: { lastUsedAt: 'desc' },
+  });
+  return sessions.map((session) => ({
+    id: session.id,
+    userAgent: session.userAgent,
+    ipAddress: session.ipAddress,
+    createdAt: session.createdAt,
+    lastUsedAt: session.lastUsedAt,
+    expiresAt: session.expiresAt,
+    current: session.id === currentSessionId,
+  }));
+}
+
+/**
+ * Revoke one of the user's sessions. Returns false when it is not theirs or
+ * already ended.
+ */
+export async function revokeSession(
+  prisma: PrismaClient,
+  userId: number,
+  sessionId: string,
+): Promise<boolean> {
+  const { count } = await prisma.userSession.updateMany({
+    where: { id: sessionId, userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return count > 0;
+}
+
+/**
+ * Sign the user out everywhere, optionally keeping the current session
+ */
+export async function revokeAllSessions(
+  prisma: PrismaClient,
+  userId: number,
+  exceptSessionId?: string,
+): Promise<number> {
+  const { count } = await prisma.userSession.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId && { id: { not: exceptSessionId } }),
+    },
+    data: { revokedAt: new Date() },
+  });
+  return count;
+}
+
+function cookieBase() {
+  const isProduction = process.env.NODE_ENV === 'production';
+  return {
+    httpOnly: true,
+    secure: isProduction,
+    sameSite: isProduction ? ('strict' as const) : ('lax' as const),
+  };
+}
+
+function setAccessCookie(res: Response, accessToken: string) {
+  res.cookie('authToken', accessToken, {
+    ...cookieBase(),
+    maxAge: ACCESS_TOKEN_TTL_MS,
+    path: '/',
+  });
+}
+
+/**
+ * Set the access token cookie, and the refresh token cookie scoped to the
+ * auth endpoints
+ */
+export function setSessionCookies(res: Response, tokens: SessionTokens) {
+  setAccessCookie(res, tokens.accessToken);
+  res.cookie(REFRESH_COOKIE, tokens.refreshToken, {
+    ...cookieBase(),
+    maxAge: REFRESH_TOKEN_TTL_MS,
+    path: '/api/auth',
+  });
+}
+
+/**
+ * Replace the current session's access token cookie, e.g. after a password
+ * change made every earlier token stale
+ */
+export async function reissueAccessCookie(
+  res: Response,
+  user: { id: number; email: string },
+  sessionId: string,
+) {
+  const { accessToken } = await issueAccessToken(user, sessionId);
+  setAccessCookie(res, accessToken);
+}
+
+export function clearSessionCookies(res: Response) {
+  res.clearCookie('authToken', { ...cookieBase(), path: '/' });
+  res.clearCookie(REFRESH_COOKIE, { ...cookieBase(), path: '/api/auth' });
+}
@@ -1,20 +1,3 @@
-// import { PrismaClient } from '@teaching-engine/database'; // Unused import
-import OpenAI from 'openai';
-
-// const prisma = new PrismaClient(); // Unused
-
-// Lazy initialization of OpenAI to avoid startup errors
-let openai: OpenAI | null = null;
-
-function getOpenAI(): OpenAI {
-  if (!openai) {
-    openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY || 'test-api-key',
-    });
-  }
-  return openai;
-}
-
 export interface SmartMaterial {
   name: string;
   category: 'supplies' | 'technology' | 'books' | 'equipment' | 'printables' | 'other';
@@ -47,28 +30,12 @@ export interface WeeklyMaterialPlan {
 
 export class SmartMaterialExtractor {
   /**
-   * Extract materials from activity text using AI when available,
-   * fallback to pattern matching
+   * Extract materials from activity text by matching material headers and
+   * the list items under them
    */
-  async extractMaterialsFromText(text: string): Promise<SmartMaterial[]> {
+  extractMaterialsFromText(text: string): SmartMaterial[] {
     if (!text?.trim()) return [];
-
-    // First try pattern-based extraction (fast)
-    const patternMaterials = this.extractMaterialsPattern(text);
-
-    // If OpenAI is available and we have meaningful text, enhance with AI
-    if (process.env.OPENAI_API_KEY && text.length > 50) {
-      try {
-        const aiMaterials = await this.extractMaterialsWithAI(text);
-        // Merge AI results with pattern results, preferring AI categorization
-        return this.mergeMaterialLists(patternMaterials, aiMaterials);
-      } catch (error) {
-        console.warn('AI material extraction failed, using pattern matching:', error);
-        return patternMaterials;
-      }
-    }
-
-    return patternMaterials;
+    return this.extractMaterialsPattern(text);
   }
 
   /**
@@ -126,72 +93,6 @@ export class SmartMaterialExtractor {
     return this.deduplicateMaterials(materials);
   }
 
-  /**
-   * AI-powered material extraction with smart categorization
-   */
-  private async extractMaterialsWithAI(text: string): Promise<SmartMaterial[]> {
-    const prompt = `
-Analyze the following activity description and extract all materials, supplies, equipment, and resources needed.
-
-For each item, provide:
-- name: The material name
-- category: One of "supplies", "technology", "books", "equipment", "printables", "other"
-- priority: One of "essential", "helpful", "optional"
-- quantity: If mentioned (e.g., "5 sheets", "1 per student")
-- prepTime: Estimated minutes needed to prepare this item
-
-Return a JSON array of objects with these properties.
-
-Activity text:
-${text}
-
-Example output:
-[
-  {
-    "name": "construction paper",
-    "category": "supplies",
-    "priority": "essential",
-    "quantity": "1 sheet per student",
-    "prepTime": 2
-  }
-]
-`;
-
-    try {
-      const response = await getOpenAI().chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content:
-              'You are a helpful assistant that extracts materials from lesson plans. Return only valid JSON.',
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        temperature: 0.1,
-        max_tokens: 1000,
-      });
-
-      const content = response.choices[0]?.message?.content;
-      if (!content) return [];
-
-      // Extract JSON from response
-      const jsonMatch = content.match(/\[[\s\S]*\]/);
-      if (!jsonMatch) return [];
-
-      const materials = JSON.parse(jsonMatch[0]) as SmartMaterial[];
-
-      // Validate and clean up the results
-      return materials.filter((m) => m.name && m.category && m.priority);
-    } catch (error) {
-      console.error('AI material extraction error:', error);
-      return [];
-    }
-  }
-
   /**
    * Parse individual material items from text
    */
@@ -207,7 +108,8 @@ Example output:
    * Create a basic material object from text
    */
   private createBasicMaterial(text: string): SmartMaterial {
-    const name = text.toLowerCase();
+    const { name: itemName, quantity } = this.splitQuantity(text);
+    const name = itemName.toLowerCase();
 
     // Simple categorization based on keywords
     let category: SmartMaterial['category'] = 'other';
@@ -232,66 +134,40 @@ Example output:
     }
 
     return {
-      name: text,
+      name: itemName,
       category,
       priority,
+      ...(quantity && { quantity }),
       prepTime: this.estimatePrepTime(name, category),
     };
   }
 
   /**
-   * Estimate preparation time for materials
+   * Separate a count from the item, e.g. "24 glue sticks", "glue sticks x 24"
+   * or "rulers (1 per student)". Measurements such as "30 cm ruler" are left
+   * in the name.
    */
-  private estimatePrepTime(name: string, category: SmartMaterial['category']): number {
-    if (category === 'printables') return 5;
-    if (category === 'technology') return 10;
-    if (category === 'equipment') return 3;
-    if (/cut|organize|sort|setup/i.test(name)) return 8;
-    return 2;
-  }
-
-  /**
-   * Merge pattern-based and AI-based material lists
-   */
-  private mergeMaterialLists(pattern: SmartMaterial[], ai: SmartMaterial[]): SmartMaterial[] {
-    const merged = [...ai];
+  private splitQuantity(text: string): { name: string; quantity?: string } {
+    const leading = text.match(/^(\d+)\s+(?!(?:mm|cm|m|ml|l|g|kg|in|inch|inches|ft)\b)(.+)$/i);
+    if (leading) return { name: leading[2].trim(), quantity: leading[1] };
 
-    // Add pattern items that aren't covered by AI
-    for (const patternItem of pattern) {
-      const similar = ai.find((aiItem) => this.areSimilarMaterials(patternItem.name, aiItem.name));
-      if (!similar) {
-        merged.push(patternItem);
-      }
+    const trailing = text.match(/^(.+?)(?:\s+x\s*(\d+)|\s*\((\d+[^)]*|[^)]*\bper\b[^)]*)\))$/i);
+    if (trailing) {
+      return { name: trailing[1].trim(), quantity: (trailing[2] ?? trailing[3]).trim() };
     }
 
-    return this.deduplicateMaterials(merged);
+    return { name: text };
   }
 
   /**
-   * Check if two material names are similar
+   * Estimate preparation time for materials
    */
-  private areSimilarMaterials(name1: string, name2: string): boolean {
-    const n1 = name1.toLowerCase().trim();
-    const n2 = name2.toLowerCase().trim();
-
-    if (n1 === n2) return true;
-    if (n1.includes(n2) || n2.includes(n1)) return true;
-
-    // Check for common synonyms
-    const synonyms = [
-      ['paper', 'sheets'],
-      ['pencil', 'pencils'],
-      ['marker', 'markers'],
-      ['computer', 'laptop', 'device'],
-    ];
-
-    for (const group of synonyms) {
-      if (group.some((s) => n1.includes(s)) && group.some((s) => n2.includes(s))) {
-        return true;
-      }
-    }
-
-    return false;
+  private estimatePrepTime(name: string, category: SmartMaterial['category']): number {
+    if (category === 'printables') return 5;
+    if (category === 'technology') return 10;
+    if (category === 'equipment') return 3;
+    if (/cut|organize|sort|setup/i.test(name)) return 8;
+    return 2;
   }
 
   /**
@@ -0,0 +1,279 @@
+/**
+ * Student roster import, export and year-end archiving. Rosters usually come
+ * from the school office as spreadsheets, so columns are matched by name in
+ * English or French and a class may mix grades.
+ */
+
+import { prisma } from '../prisma';
+import { toCsv } from './analytics/export';
+
+export const DUPLICATE_ACTIONS = ['skip', 'update'] as const;
+export type DuplicateAction = (typeof DUPLICATE_ACTIONS)[number];
+
+export const MAX_ROSTER_ROWS = 500;
+
+export interface RosterRow {
+  /** Line in the file, counting the header as line 1 */
+  line: number;
+  firstName: string;
+  lastName: string;
+  grade: number;
+}
+
+export interface RosterRowError {
+  line: number;
+  error: string;
+}
+
+export interface RosterDuplicate extends RosterRow {
+  studentId: number | null;
+  archived: boolean;
+}
+
+export interface RosterImportResult {
+  created: number;
+  updated: number;
+  skipped: number;
+  duplicates: RosterDuplicate[];
+  errors: RosterRowError[];
+}
+
+export class RosterImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RosterImportError';
+  }
+}
+
+const HEADER_ALIASES: Record<'firstName' | 'lastName' | 'grade', string[]> = {
+  firstName: ['firstname', 'first', 'givenname', 'prenom'],
+  lastName: ['lastname', 'last', 'surname', 'familyname', 'nom', 'nomdefamille'],
+  grade: ['grade', 'annee', 'niveau'],
+};
+
+function foldAccents(text: string) {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+}
+
+function normalizeHeader(header: string) {
+  return foldAccents(header).replace(/[^a-z]/g, '');
+}
+
+function nameKey(firstName: string, lastName: string) {
+  const fold = (name: string) => foldAccents(name).trim().replace(/\s+/g, ' ');
+  return `${fold(lastName)}|${fold(firstName)}`;
+}
+
+/**
+ * Split CSV text into records. Handles quoted fields with commas, doubled
+ * quotes and line breaks, the byte-order mark Excel adds, and the semicolon
+ * separator French-language Excel saves with.
+ */
+export function parseCsv(content: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const text = content.replace(/^\uFEFF/, '');
+  const headerLine = text.split(/\r?\n/, 1)[0];
+  const separator = headerLine.split(';').length > headerLine.split(',').length ? ';' : ',';
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === separator) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records.filter((r) => r.some((value) => value.trim()));
+}
+
+/**
+ * Read roster rows from a CSV file. Rows that cannot be used are reported by
+ * line rather than failing the whole file.
+ */
+export function parseRosterCsv(content: string): { rows: RosterRow[]; errors: RosterRowError[] } {
+  const [header, ...records] = parseCsv(content);
+  if (!header) {
+    throw new RosterImportError('The file is empty');
+  }
+
+  const headers = header.map(normalizeHeader);
+  const column = (field: keyof typeof HEADER_ALIASES) =>
+    headers.findIndex((h) => HEADER_ALIASES[field].includes(h));
+  const firstNameIndex = column('firstName');
+  const lastNameIndex = column('lastName');
+  const gradeIndex = column('grade');
+  if (firstNameIndex === -1 || lastNameIndex === -1 || gradeIndex === -1) {
+    throw new RosterImportError('The file needs "First name", "Last name" and "Grade" columns');
+  }
+  if (records.length > MAX_ROSTER_ROWS) {
+    throw new RosterImportError(`Import at most ${MAX_ROSTER_ROWS} students at a time`);
+  }
+
+  const rows: RosterRow[] = [];
+  const errors: RosterRowError[] = [];
+  records.forEach((record, index) => {
+    const line = index + 2;
+    const firstName = (record[firstNameIndex] ?? '').trim();
+    const lastName = (record[lastNameIndex] ?? '').trim();
+    const gradeText = (record[gradeIndex] ?? '').trim();
+    const grade = Number(gradeText);
+
+    if (!firstName || !lastName) {
+      errors.push({ line, error: 'First and last name are required' });
+    } else if (firstName.length > 100 || lastName.length > 100) {
+      errors.push({ line, error: 'Names must be at most 100 characters' });
+    } else if (!/^\d+$/.test(gradeText) || grade < 1 || grade > 12) {
+      errors.push({ line, error: `"${gradeText}" is not a grade from 1 to 12` });
+    } else {
+      rows.push({ line, firstName, lastName, grade });
+    }
+  });
+
+  return { rows, errors };
+}
+
+/**
+ * Import a roster for a teacher. A row matching a student the teacher
+ * already has (same first and last name, ignoring case and accents) is a
+ * duplicate: it is skipped, or with `update` the student's grade is updated
+ * and an archived student is brought back. Repeated rows within the file are
+ * always skipped. With `dryRun` nothing is written, so the teacher can review
+ * the duplicates first.
+ */
+export async function importRoster(
+  userId: number,
+  content: string,
+  options: { onDuplicate: DuplicateAction; dryRun: boolean },
+): Promise<RosterImportResult> {
+  const { rows, errors } = parseRosterCsv(content);
+
+  const existing = await prisma.student.findMany({
+    where: { userId },
+    select: { id: true, firstName: true, lastName: true, archivedAt: true },
+  });
+  const byName = new Map(existing.map((s) => [nameKey(s.firstName, s.lastName), s]));
+
+  const toCreate: RosterRow[] = [];
+  const toUpdate: { id: number; grade: number }[] = [];
+  const duplicates: RosterDuplicate[] = [];
+  const seenInFile = new Set<string>();
+
+  for (const row of rows) {
+    const key = nameKey(row.firstName, row.lastName);
+    if (seenInFile.has(key)) {
+      duplicates.push({ ...row, studentId: null, archived: false });
+      continue;
+    }
+    seenInFile.add(key);
+
+    const match = byName.get(key);
+    if (!match) {
+      toCreate.push(row);
+      continue;
+    }
+    duplicates.push({ ...row, studentId: match.id, archived: !!match.archivedAt });
+    if (options.onDuplicate === 'update') {
+      toUpdate.push({ id: match.id, grade: row.grade });
+    }
+  }
+
+  if (!options.dryRun && (toCreate.length > 0 || toUpdate.length > 0)) {
+    await prisma.$transaction([
+      ...toCreate.map(({ firstName, lastName, grade }) =>
+        prisma.student.create({ data: { userId, firstName, lastName, grade } }),
+      ),
+      ...toUpdate.map(({ id, grade }) =>
+        prisma.student.update({ where: { id }, data: { grade, archivedAt: null } }),
+      ),
+    ]);
+  }
+
+  return {
+    created: toCreate.length,
+    updated: toUpdate.length,
+    skipped: duplicates.length - toUpdate.length,
+    duplicates,
+    errors,
+  };
+}
+
+/**
+ * The teacher's roster as CSV, in the same columns the import reads
+ */
+export async function exportRosterCsv(userId: number, includeArchived: boolean) {
+  const students = await prisma.student.findMany({
+    where: { userId, ...(includeArchived ? {} : { archivedAt: null }) },
+    orderBy: [{ grade: 'asc' }, { lastName: 'asc' }, { firstName: 'asc' }],
+  });
+
+  const csv = toCsv({
+    title: 'Class list',
+    columns: ['First name', 'Last name', 'Grade', ...(includeArchived ? ['Archived'] : [])],
+    rows: students.map((student) => [
+      student.firstName,
+      student.lastName,
+      student.grade,
+      ...(includeArchived ? [student.archivedAt?.toISOString().slice(0, 10) ?? null] : []),
+    ]),
+  });
+  // BOM so Excel opens accented French names correctly
+  return Buffer.from('\uFEFF' + csv, 'utf8');
+}
+
+/**
+ * Archive students at the end of the year. They leave the class list and
+ * newsletters but keep their goals, reflections and summaries. Without ids,
+ * the whole active class (or one grade of it) is archived.
+ */
+export async function archiveStudents(
+  userId: number,
+  filter: { studentIds?: number[]; grade?: number },
+) {
+  const result = await prisma.student.updateMany({
+    where: {
+      userId,
+      archivedAt: null,
+      ...(filter.studentIds ? { id: { in: filter.studentIds } } : {}),
+      ...(filter.grade !== undefined ? { grade: filter.grade } : {}),
+    },
+    data: { archivedAt: new Date() },
+  });
+  return result.count;
+}
+
+export async function restoreStudent(userId: number, studentId: number) {
+  const result = await prisma.student.updateMany({
+    where: { id: studentId, userId, archivedAt: { not: null } },
+    data: { archivedAt: null },
+  });
+  return result.count > 0;
+}
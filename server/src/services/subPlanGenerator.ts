@@ -4,6 +4,8 @@ import type * as PDFKit from 'pdfkit';
 export interface DaySchedule {
   time: string;
   activity: string;
+  /** Lesson notes for the sub, printed under the activity */
+  details?: string[];
 }
 
 export interface UpcomingOverview {
@@ -59,6 +61,7 @@ export function generateSubPlanPDF(
     d.fontSize(12).text('Today', { underline: true });
     data.today.forEach((item) => {
       d.text(`${item.time} - ${item.activity}`);
+      item.details?.forEach((line) => d.text(line, { indent: 20 }));
     });
     d.moveDown();
 
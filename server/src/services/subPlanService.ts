@@ -1,11 +1,31 @@
 import { prisma, Prisma } from '../prisma';
 import PDFDocument from 'pdfkit';
 import { generateSubPlanPDF } from './subPlanGenerator';
+import { getTimetableBlocks } from './timetableService';
+import { calendarEventScope } from './schoolService';
+
+export interface SubPlanLesson {
+  id: string;
+  title: string;
+  unitTitle: string;
+  subject: string | null;
+  duration: number;
+  mindsOn?: string;
+  action?: string;
+  consolidation?: string;
+  subNotes?: string;
+  materials: string[];
+  resources: Array<{ title: string; type: string; url?: string }>;
+  isSubFriendly: boolean;
+  /** Sub-friendly lesson from the same unit to run instead, when this one is not */
+  replacement?: { id: string; title: string; subNotes?: string };
+}
 
 export interface ScheduleEntry {
   time: string;
   activity?: string;
   note?: string;
+  lesson?: SubPlanLesson;
 }
 
 export interface SubPlanData {
@@ -41,6 +61,44 @@ function minToTime(min: number): string {
   return `${h}:${m}`;
 }
 
+/** Lesson materials are stored as JSON; accept an array of strings or a delimited string. */
+function normaliseMaterials(materials: Prisma.JsonValue | null): string[] {
+  if (Array.isArray(materials)) {
+    return materials.filter((m) => m != null && m !== '').map((m) => String(m));
+  }
+  if (typeof materials === 'string') {
+    return materials
+      .split(/[;,\n]/)
+      .map((m) => m.trim())
+      .filter(Boolean);
+  }
+  return [];
+}
+
+interface ReplacementCandidate {
+  id: string;
+  title: string;
+  unitPlanId: string;
+  date: Date;
+  subNotes: string | null;
+}
+
+/**
+ * Choose a sub-friendly stand-in from the same unit: the next upcoming lesson
+ * that is not already on the day's schedule, otherwise the most recent one.
+ */
+export function pickSubFriendlyReplacement(
+  unitPlanId: string,
+  day: Date,
+  candidates: ReplacementCandidate[],
+  excludeIds: Set<string>,
+): ReplacementCandidate | undefined {
+  const sameUnit = candidates
+    .filter((c) => c.unitPlanId === unitPlanId && !excludeIds.has(c.id))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+  return sameUnit.find((c) => c.date.getTime() >= day.getTime()) ?? sameUnit[sameUnit.length - 1];
+}
+
 export interface SubPlanOptions {
   includeGoals?: boolean;
   includeRoutines?: boolean;
@@ -66,42 +124,131 @@ export async function buildSubPlanData(
     userId = 1,
   } = options;
 
-  const [plan, events, blocks, prefs, routines, studentGoals] = await Promise.all([
-    // DISABLED: Legacy dailyPlan model removed in ETFO migration
-    includePlans ? Promise.resolve(null) : Promise.resolve(null), // Legacy dailyPlan query disabled
-    prisma.calendarEvent.findMany({
-      where: { start: { lte: dayEnd }, end: { gte: dayStart } },
-    }),
-    prisma.unavailableBlock.findMany({ where: { date: dayStart } }),
-    null, // teacherPreferences archived - preferences now in User and ClassRoutine
-    includeRoutines
-      ? prisma.classRoutine.findMany({
-          where: { userId, isActive: true },
-          orderBy: [{ priority: 'desc' }, { category: 'asc' }],
-        })
-      : [],
-    includeGoals
-      ? prisma.studentGoal.findMany({
-          where: {
-            status: 'active',
-            student: { userId },
-          },
-          include: {
-            student: true,
-          },
-          take: 10, // Limit to most relevant goals
-        })
-      : [],
-  ]);
+  const [lessons, timetableBlocks, events, blocks, prefs, routines, studentGoals] =
+    await Promise.all([
+      includePlans
+        ? prisma.eTFOLessonPlan.findMany({
+            where: { userId, date: { gte: dayStart, lt: dayEnd } },
+            include: {
+              unitPlan: { select: { id: true, title: true } },
+              resources: { select: { title: true, type: true, url: true } },
+              expectations: { include: { expectation: true } },
+            },
+            orderBy: { date: 'asc' },
+          })
+        : [],
+      getTimetableBlocks(userId, dayStart, 1),
+      prisma.calendarEvent.findMany({
+        where: {
+          AND: [
+            await calendarEventScope(userId),
+            { start: { lte: dayEnd }, end: { gte: dayStart } },
+          ],
+        },
+      }),
+      prisma.unavailableBlock.findMany({ where: { teacherId: userId, date: dayStart } }),
+      null, // teacherPreferences archived - preferences now in User and ClassRoutine
+      includeRoutines
+        ? prisma.classRoutine.findMany({
+            where: { userId, isActive: true },
+            orderBy: [{ priority: 'desc' }, { category: 'asc' }],
+          })
+        : [],
+      includeGoals
+        ? prisma.studentGoal.findMany({
+            where: {
+              status: 'active',
+              student: { userId },
+            },
+            include: {
+              student: true,
+            },
+            take: 10, // Limit to most relevant goals
+          })
+        : [],
+    ]);
 
   const schedule: ScheduleEntry[] = [];
-  if (plan) {
-    for (const item of plan.items) {
-      const _subjectId = item.slot?.subjectId ?? item.activity?.milestone.subjectId;
-      // DISABLED: Legacy activity model removed in ETFO migration
-      // const act = null; // Legacy activity queries disabled
-      const act = null;
-      schedule.push({ time: minToTime(item.startMin), activity: act?.title ?? '' });
+  const blockEntries = timetableBlocks.map((block) => {
+    const entry: ScheduleEntry = {
+      time: minToTime(block.startMin),
+      activity: block.subjectName ?? block.label ?? '',
+      note: block.room ? `Room ${block.room}` : undefined,
+    };
+    schedule.push(entry);
+    return { block, entry };
+  });
+
+  // Lessons that cannot be left with a sub get a stand-in from the same unit
+  const needsReplacement = lessons.filter((lesson) => !lesson.isSubFriendly);
+  const replacementCandidates = needsReplacement.length
+    ? await prisma.eTFOLessonPlan.findMany({
+        where: {
+          userId,
+          isSubFriendly: true,
+          unitPlanId: { in: [...new Set(needsReplacement.map((l) => l.unitPlanId))] },
+        },
+        select: { id: true, title: true, unitPlanId: true, date: true, subNotes: true },
+      })
+    : [];
+  const todaysLessonIds = new Set(lessons.map((l) => l.id));
+
+  for (const lesson of lessons) {
+    const replacement = lesson.isSubFriendly
+      ? undefined
+      : pickSubFriendlyReplacement(
+          lesson.unitPlanId,
+          dayStart,
+          replacementCandidates,
+          todaysLessonIds,
+        );
+    const subLesson: SubPlanLesson = {
+      id: lesson.id,
+      title: lesson.title,
+      unitTitle: lesson.unitPlan.title,
+      subject: lesson.subject,
+      duration: lesson.duration,
+      mindsOn: lesson.mindsOn || undefined,
+      action: lesson.action || undefined,
+      consolidation: lesson.consolidation || undefined,
+      subNotes: lesson.subNotes || undefined,
+      materials: normaliseMaterials(lesson.materials),
+      resources: lesson.resources.map((r) => ({
+        title: r.title,
+        type: r.type,
+        url: r.url || undefined,
+      })),
+      isSubFriendly: lesson.isSubFriendly,
+      replacement: replacement && {
+        id: replacement.id,
+        title: replacement.title,
+        subNotes: replacement.subNotes || undefined,
+      },
+    };
+
+    // Place the lesson in its timetable block: by start time when the lesson has one,
+    // otherwise the first free block for its subject.
+    const startMin = lesson.date.getUTCHours() * 60 + lesson.date.getUTCMinutes();
+    const subject = lesson.subject?.toLowerCase();
+    const slot =
+      blockEntries.find(
+        ({ block, entry }) =>
+          !entry.lesson && startMin > 0 && startMin >= block.startMin && startMin < block.endMin,
+      ) ??
+      blockEntries.find(
+        ({ block, entry }) =>
+          !entry.lesson && !!subject && block.subjectName?.toLowerCase() === subject,
+      );
+
+    if (slot) {
+      slot.entry.activity = lesson.title;
+      slot.entry.lesson = subLesson;
+    } else {
+      schedule.push({
+        time: startMin > 0 ? minToTime(startMin) : 'Flexible',
+        activity: lesson.title,
+        lesson: subLesson,
+      });
     }
   }
   events.forEach((e) =>
@@ -124,7 +271,7 @@ export async function buildSubPlanData(
     | Record<string, string>
     | undefined;
 
-  // Extract all unique outcomes from activities
+  // Extract all unique outcomes from the day's lessons
   const uniqueOutcomes = new Map<
     string,
     {
@@ -134,18 +281,13 @@ export async function buildSubPlanData(
     }
   >();
 
-  if (plan) {
-    for (const item of plan.items) {
-      if (item.activity?.outcomes) {
-        for (const outcomeRelation of item.activity.outcomes) {
-          const outcome = outcomeRelation.outcome;
-          uniqueOutcomes.set(outcome.id, {
-            code: outcome.code,
-            description: outcome.description,
-            subject: outcome.subject,
-          });
-        }
-      }
+  for (const lesson of lessons) {
+    for (const { expectation } of lesson.expectations) {
+      uniqueOutcomes.set(expectation.id, {
+        code: expectation.code,
+        description: expectation.description,
+        subject: expectation.subject,
+      });
     }
   }
 
@@ -203,11 +345,14 @@ export async function generateSubPlan(
 
     await generateSubPlanPDF(
       {
-        today: data.schedule.map((s) => ({ time: s.time, activity: s.activity ?? s.note ?? '' })),
+        today: data.schedule.map((s) => ({
+          time: s.time,
+          activity: s.activity ?? s.note ?? '',
+          details: s.lesson ? lessonDetails(s.lesson) : undefined,
+        })),
         upcoming: [],
         procedures: data.procedures || '',
-        studentNotes:
-          pullOutsText(data.pullOuts), // Allergies now managed in Student model
+        studentNotes: pullOutsText(data.pullOuts), // Allergies now managed in Student model
         emergencyContacts: formatContacts(data.contacts),
         curriculumOutcomes: data.outcomes,
         goals: data.goals,
@@ -221,6 +366,25 @@ export async function generateSubPlan(
   return new Promise((resolve) => doc.on('end', () => resolve(Buffer.concat(chunks))));
 }
 
+function lessonDetails(lesson: SubPlanLesson): string[] {
+  const lines: string[] = [];
+  if (!lesson.isSubFriendly) {
+    lines.push(
+      lesson.replacement
+        ? `Not sub-friendly - teach "${lesson.replacement.title}" instead`
+        : 'Not sub-friendly - use the fallback plan',
+    );
+    if (lesson.replacement?.subNotes) lines.push(`Sub notes: ${lesson.replacement.subNotes}`);
+  }
+  if (lesson.subNotes) lines.push(`Sub notes: ${lesson.subNotes}`);
+  if (lesson.mindsOn) lines.push(`Minds On: ${lesson.mindsOn}`);
+  if (lesson.action) lines.push(`Action: ${lesson.action}`);
+  if (lesson.consolidation) lines.push(`Consolidation: ${lesson.consolidation}`);
+  if (lesson.materials.length) lines.push(`Materials: ${lesson.materials.join(', ')}`);
+  lesson.resources.forEach((r) => lines.push(`Resource: ${r.title}${r.url ? ` (${r.url})` : ''}`));
+  return lines;
+}
+
 function pullOutsText(pullOuts: { time: string; reason: string }[]): string {
   return pullOuts.map((p) => `${p.time} - ${p.reason}`).join('\n');
 }
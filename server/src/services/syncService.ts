@@ -0,0 +1,484 @@
+import { z } from 'zod';
+import { Prisma, prisma } from '../prisma';
+import { ensurePlanBaseline, snapshotPlan, type PlanType } from './planVersionService';
+
+export const SYNC_ENTITIES = ['unit-plan', 'lesson-plan', 'daybook', 'planner-state'] as const;
+export type SyncEntity = (typeof SYNC_ENTITIES)[number];
+export type SyncChangeType = 'CREATE' | 'UPDATE' | 'DELETE';
+
+type Fields = Record<string, unknown>;
+type Tx = Prisma.TransactionClient;
+type StoredRecord = Fields & { id: string; updatedAt: Date };
+
+/**
+ * One queued offline edit. `baseUpdatedAt` is the server's updatedAt when the
+ * client last saw the record; `base` is the client's copy at that point, which
+ * lets us tell fields the server changed apart from fields it merely lacks.
+ */
+export interface SyncChange {
+  id: string;
+  type: SyncChangeType;
+  entity: SyncEntity;
+  entityId?: string;
+  data: Fields;
+  baseUpdatedAt?: Date;
+  base?: Fields;
+}
+
+export interface SyncApplied {
+  changeId: string;
+  entity: SyncEntity;
+  entityId: string;
+  /** The client's temporary id, for creates */
+  tempId?: string;
+  updatedAt: string | null;
+}
+
+export interface SyncConflict {
+  changeId: string;
+  entity: SyncEntity;
+  entityId: string;
+  reason: 'modified' | 'deleted';
+  fields: string[];
+  local: Fields;
+  remote: Fields | null;
+  serverUpdatedAt: string | null;
+}
+
+export interface SyncResult {
+  applied: SyncApplied[];
+  conflicts: SyncConflict[];
+  /** Changes queued behind a conflict on the same record; resend after resolving it */
+  held: string[];
+  rejected: { changeId: string; error: string }[];
+}
+
+type Outcome =
+  | { kind: 'applied'; entityId: string; updatedAt: Date | null }
+  | { kind: 'conflict'; conflict: Omit<SyncConflict, 'changeId' | 'entity'> }
+  | { kind: 'rejected'; error: string };
+
+const text = (max: number) => z.string().max(max).nullable();
+const noTags = (max: number) =>
+  z
+    .string()
+    .min(1)
+    .max(max)
+    .regex(/^[^<>]*$/, 'Title cannot contain HTML tags');
+// Json columns cannot be set to a bare null, so an emptied list is stored as []
+const list = (max: number) =>
+  z
+    .array(z.string().max(500))
+    .max(max)
+    .nullable()
+    .transform((items) => items ?? []);
+
+interface EntityAdapter {
+  planType?: PlanType;
+  // One row per teacher: the entity id is ignored and it is never deleted
+  singleton?: boolean;
+  fields: z.AnyZodObject;
+  // Fields a create must carry, and the owned record it hangs off
+  required: string[];
+  parentField?: string;
+  find(tx: Tx, userId: number, id: string): Promise<StoredRecord | null>;
+  create(tx: Tx, userId: number, data: Fields): Promise<StoredRecord | string>;
+  update(tx: Tx, userId: number, id: string, data: Fields): Promise<StoredRecord>;
+  remove?(tx: Tx, id: string): Promise<void>;
+}
+
+const ADAPTERS: Record<SyncEntity, EntityAdapter> = {
+  'unit-plan': {
+    planType: 'unit',
+    fields: z.object({
+      title: noTags(255),
+      titleFr: text(255),
+      description: text(2000),
+      descriptionFr: text(2000),
+      bigIdeas: text(2000),
+      bigIdeasFr: text(2000),
+      essentialQuestions: list(20),
+      startDate: z.coerce.date(),
+      endDate: z.coerce.date(),
+      estimatedHours: z.number().int().positive().max(1000).nullable(),
+      assessmentPlan: text(2000),
+      successCriteria: list(20),
+      crossCurricularConnections: text(1000),
+      learningSkills: list(10),
+      culminatingTask: text(1000),
+      keyVocabulary: list(30),
+      priorKnowledge: text(1000),
+      parentCommunicationPlan: text(1000),
+      fieldTripsAndGuestSpeakers: text(1000),
+      differentiationStrategies: z
+        .record(z.array(z.string().max(200)).max(10))
+        .nullable()
+        .transform((value) => value ?? {}),
+      indigenousPerspectives: text(1000),
+      environmentalEducation: text(1000),
+      socialJusticeConnections: text(1000),
+      technologyIntegration: text(1000),
+      communityConnections: text(1000),
+      longRangePlanId: z.string().min(1),
+    }),
+    required: ['title', 'startDate', 'endDate', 'longRangePlanId'],
+    parentField: 'longRangePlanId',
+    find: (tx, userId, id) => tx.unitPlan.findFirst({ where: { id, userId } }),
+    create: async (tx, userId, data) => {
+      const parent = await tx.longRangePlan.findFirst({
+        where: { id: data.longRangePlanId as string, userId },
+      });
+      if (!parent) return 'Long-range plan not found';
+      return tx.unitPlan.create({
+        data: { ...data, userId } as Prisma.UnitPlanUncheckedCreateInput,
+      });
+    },
+    update: (tx, _userId, id, data) =>
+      tx.unitPlan.update({ where: { id }, data: data as Prisma.UnitPlanUncheckedUpdateInput }),
+    remove: async (tx, id) => {
+      await tx.unitPlan.delete({ where: { id } });
+    },
+  },
+  'lesson-plan': {
+    planType: 'lesson',
+    fields: z.object({
+      title: z.string().min(1).max(255),
+      titleFr: text(255),
+      date: z.coerce.date(),
+      duration: z.number().int().positive(),
+      mindsOn: text(10000),
+      mindsOnFr: text(10000),
+      action: text(10000),
+      actionFr: text(10000),
+      consolidation: text(10000),
+      consolidationFr: text(10000),
+      learningGoals: text(5000),
+      learningGoalsFr: text(5000),
+      materials: list(100),
+      grouping: text(100),
+      accommodations: list(50),
+      modifications: list(50),
+      extensions: list(50),
+      assessmentType: z.enum(['diagnostic', 'formative', 'summative']).nullable(),
+      assessmentNotes: text(5000),
+      isSubFriendly: z.boolean(),
+      subNotes: text(5000),
+      unitPlanId: z.string().min(1),
+    }),
+    required: ['title', 'date', 'duration', 'unitPlanId'],
+    parentField: 'unitPlanId',
+    find: (tx, userId, id) => tx.eTFOLessonPlan.findFirst({ where: { id, userId } }),
+    create: async (tx, userId, data) => {
+      const parent = await tx.unitPlan.findFirst({
+        where: { id: data.unitPlanId as string, userId },
+      });
+      if (!parent) return 'Unit plan not found';
+      return tx.eTFOLessonPlan.create({
+        data: { ...data, userId } as Prisma.ETFOLessonPlanUncheckedCreateInput,
+      });
+    },
+    update: (tx, _userId, id, data) =>
+      tx.eTFOLessonPlan.update({
+        where: { id },
+        data: data as Prisma.ETFOLessonPlanUncheckedUpdateInput,
+      }),
+    remove: async (tx, id) => {
+      await tx.eTFOLessonPlan.delete({ where: { id } });
+    },
+  },
+  daybook: {
+    planType: 'daybook',
+    fields: z.object({
+      date: z.coerce.date(),
+      whatWorked: text(5000),
+      whatWorkedFr: text(5000),
+      whatDidntWork: text(5000),
+      whatDidntWorkFr: text(5000),
+      nextSteps: text(5000),
+      nextStepsFr: text(5000),
+      studentEngagement: text(5000),
+      studentChallenges: text(5000),
+      studentSuccesses: text(5000),
+      notes: text(10000),
+      notesFr: text(10000),
+      privateNotes: text(10000),
+      overallRating: z.number().int().min(1).max(5).nullable(),
+      wouldReuseLesson: z.boolean().nullable(),
+      lessonPlanId: z.string().min(1).nullable(),
+    }),
+    required: ['date'],
+    parentField: 'lessonPlanId',
+    find: (tx, userId, id) => tx.daybookEntry.findFirst({ where: { id, userId } }),
+    create: async (tx, userId, data) => {
+      if (data.lessonPlanId) {
+        const lesson = await tx.eTFOLessonPlan.findFirst({
+          where: { id: data.lessonPlanId as string, userId },
+          include: { daybookEntry: { select: { id: true } } },
+        });
+        if (!lesson) return 'Lesson plan not found';
+        if (lesson.daybookEntry) return 'Lesson plan already has a daybook entry';
+      }
+      return tx.daybookEntry.create({
+        data: { ...data, userId } as Prisma.DaybookEntryUncheckedCreateInput,
+      });
+    },
+    update: (tx, _userId, id, data) =>
+      tx.daybookEntry.update({
+        where: { id },
+        data: data as Prisma.DaybookEntryUncheckedUpdateInput,
+      }),
+    remove: async (tx, id) => {
+      await tx.daybookEntry.delete({ where: { id } });
+    },
+  },
+  'planner-state': {
+    singleton: true,
+    fields: z.object({
+      defaultView: z.enum(['week', 'month', 'agenda']),
+      timeSlotDuration: z.number().int().min(15).max(60),
+      showWeekends: z.boolean(),
+      startOfWeek: z.number().int().min(0).max(1),
+      sidebarExpanded: z.boolean(),
+      showMiniCalendar: z.boolean(),
+      showResourcePanel: z.boolean(),
+      compactMode: z.boolean(),
+      theme: z.enum(['light', 'dark', 'system']),
+      autoSave: z.boolean(),
+      autoSaveInterval: z.number().int().min(5).max(300),
+      showUncoveredOutcomes: z.boolean(),
+      defaultLessonDuration: z.number().int().min(15).max(240),
+      currentWeekStart: z.coerce.date(),
+      lastActiveView: z
+        .string()
+        .max(100)
+        .regex(/^[^<>]*$/)
+        .nullable(),
+    }),
+    required: [],
+    find: (tx, userId) => tx.weeklyPlannerState.findUnique({ where: { userId } }),
+    create: (tx, userId, data) =>
+      tx.weeklyPlannerState.create({
+        data: { ...data, userId } as Prisma.WeeklyPlannerStateUncheckedCreateInput,
+      }),
+    update: (tx, userId, _id, data) =>
+      tx.weeklyPlannerState.update({
+        where: { userId },
+        data: { ...data, lastSyncedAt: new Date() },
+      }),
+  },
+};
+
+// Dates become ISO strings so values compare the way the client sends them
+function toJson(value: unknown): unknown {
+  return value === undefined ? null : JSON.parse(JSON.stringify(value));
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(toJson(a)) === JSON.stringify(toJson(b));
+}
+
+function publicFields(record: StoredRecord): Fields {
+  const { userId: _userId, ...fields } = record;
+  return toJson(fields) as Fields;
+}
+
+/**
+ * Fields the client changed that the server also changed since the client's
+ * base. Without a base snapshot every differing field counts, since we cannot
+ * tell which side moved.
+ */
+export function findConflictingFields(
+  local: Fields,
+  remote: Fields,
+  base: Fields | undefined,
+  serverChanged: boolean,
+): string[] {
+  if (!serverChanged) return [];
+  return Object.keys(local).filter((field) => {
+    if (sameValue(local[field], remote[field])) return false;
+    // The server still has what the client started from, so the edit is safe
+    if (base && field in base && sameValue(base[field], remote[field])) return false;
+    return true;
+  });
+}
+
+async function applyChange(
+  tx: Tx,
+  userId: number,
+  change: SyncChange,
+  idMap: Map<string, string>,
+): Promise<Outcome> {
+  const adapter = ADAPTERS[change.entity];
+  const entityId = change.entityId ? (idMap.get(change.entityId) ?? change.entityId) : '';
+  const data = { ...change.data };
+  // Children created offline point at their parent's temporary id
+  if (adapter.parentField && typeof data[adapter.parentField] === 'string') {
+    data[adapter.parentField] =
+      idMap.get(data[adapter.parentField] as string) ?? data[adapter.parentField];
+  }
+
+  if (change.type === 'CREATE' && !adapter.singleton) {
+    const missing = adapter.required.filter((field) => data[field] == null);
+    if (missing.length > 0) {
+      return { kind: 'rejected', error: `Missing ${missing.join(', ')}` };
+    }
+    const created = await adapter.create(tx, userId, data);
+    if (typeof created === 'string') return { kind: 'rejected', error: created };
+    if (change.entityId) idMap.set(change.entityId, created.id);
+    return { kind: 'applied', entityId: created.id, updatedAt: created.updatedAt };
+  }
+
+  const current = await adapter.find(tx, userId, entityId);
+  if (!current) {
+    if (adapter.singleton) {
+      if (change.type === 'DELETE') return { kind: 'rejected', error: 'Cannot be deleted' };
+      const created = await adapter.create(tx, userId, data);
+      if (typeof created === 'string') return { kind: 'rejected', error: created };
+      return { kind: 'applied', entityId: created.id, updatedAt: created.updatedAt };
+    }
+    // Deleting something that is already gone is what the client wanted
+    if (change.type === 'DELETE') return { kind: 'applied', entityId, updatedAt: null };
+    return {
+      kind: 'conflict',
+      conflict: {
+        entityId,
+        reason: 'deleted',
+        fields: Object.keys(data),
+        local: toJson(data) as Fields,
+        remote: null,
+        serverUpdatedAt: null,
+      },
+    };
+  }
+
+  // Records created earlier in this batch cannot have moved on the server
+  const createdInBatch = !!change.entityId && idMap.has(change.entityId);
+  const serverChanged =
+    !createdInBatch &&
+    (!change.baseUpdatedAt || current.updatedAt.getTime() > change.baseUpdatedAt.getTime());
+  const remote = publicFields(current);
+
+  if (change.type === 'DELETE') {
+    if (!adapter.remove) return { kind: 'rejected', error: 'Cannot be deleted' };
+    if (serverChanged) {
+      return {
+        kind: 'conflict',
+        conflict: {
+          entityId: current.id,
+          reason: 'modified',
+          fields: [],
+          local: {},
+          remote,
+          serverUpdatedAt: current.updatedAt.toISOString(),
+        },
+      };
+    }
+    await adapter.remove(tx, current.id);
+    return { kind: 'applied', entityId: current.id, updatedAt: null };
+  }
+
+  // A plan cannot be moved to another parent by a replayed edit
+  if (adapter.parentField) delete data[adapter.parentField];
+  const fields = findConflictingFields(data, remote, change.base, serverChanged);
+  if (fields.length > 0) {
+    return {
+      kind: 'conflict',
+      conflict: {
+        entityId: current.id,
+        reason: 'modified',
+        fields,
+        local: toJson(Object.fromEntries(fields.map((field) => [field, data[field]]))) as Fields,
+        remote,
+        serverUpdatedAt: current.updatedAt.toISOString(),
+      },
+    };
+  }
+
+  const updated = await adapter.update(tx, userId, current.id, data);
+  return { kind: 'applied', entityId: updated.id, updatedAt: updated.updatedAt };
+}
+
+/**
+ * Replay a batch of offline changes in order. Changes that do not conflict
+ * are written in one transaction; a conflicting change is held back whole,
+ * along with any later change to the same record, and reported field by field.
+ */
+export async function applySyncBatch(userId: number, changes: SyncChange[]): Promise<SyncResult> {
+  const result: SyncResult = { applied: [], conflicts: [], held: [], rejected: [] };
+
+  // Validate everything first so one bad change cannot abort the transaction
+  const valid: SyncChange[] = [];
+  for (const change of changes) {
+    const parsed = ADAPTERS[change.entity].fields.partial().safeParse(change.data);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      result.rejected.push({
+        changeId: change.id,
+        error: `${issue.path.join('.') || 'data'}: ${issue.message}`,
+      });
+    } else {
+      valid.push({ ...change, data: parsed.data });
+    }
+  }
+
+  const edited = valid.filter(
+    (change) => change.type !== 'CREATE' && change.entityId && ADAPTERS[change.entity].planType,
+  );
+  for (const change of edited) {
+    // Only the teacher's own plans get a baseline; the rest are rejected below
+    const adapter = ADAPTERS[change.entity];
+    if (await adapter.find(prisma, userId, change.entityId!)) {
+      await ensurePlanBaseline(adapter.planType!, change.entityId!);
+    }
+  }
+
+  const idMap = new Map<string, string>();
+  const blocked = new Set<string>();
+  await prisma.$transaction(async (tx) => {
+    for (const change of valid) {
+      const key = `${change.entity}:${change.entityId ?? change.id}`;
+      if (blocked.has(key)) {
+        result.held.push(change.id);
+        continue;
+      }
+
+      const outcome = await applyChange(tx, userId, change, idMap);
+      if (outcome.kind === 'applied') {
+        result.applied.push({
+          changeId: change.id,
+          entity: change.entity,
+          entityId: outcome.entityId,
+          tempId: change.type === 'CREATE' ? change.entityId : undefined,
+          updatedAt: outcome.updatedAt?.toISOString() ?? null,
+        });
+      } else {
+        blocked.add(key);
+        if (outcome.kind === 'conflict') {
+          result.conflicts.push({
+            changeId: change.id,
+            entity: change.entity,
+            ...outcome.conflict,
+          });
+        } else {
+          result.rejected.push({ changeId: change.id, error: outcome.error });
+        }
+      }
+    }
+  });
+
+  for (const applied of result.applied) {
+    const change = valid.find((c) => c.id === applied.changeId)!;
+    const planType = ADAPTERS[applied.entity].planType;
+    if (planType && change.type !== 'DELETE') {
+      await snapshotPlan(
+        planType,
+        applied.entityId,
+        userId,
+        change.type === 'CREATE' ? 'create' : 'update',
+        'Synced from offline changes',
+      );
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,27 @@
+import { TeamRole } from '@teaching-engine/database';
+import { prisma } from '../prisma';
+
+/**
+ * The user's role on the team. Owners created before TeamMember rows were
+ * written have no membership, so fall back to Team.ownerId.
+ */
+export async function getTeamRole(teamId: string, userId: number): Promise<TeamRole | null> {
+  const member = await prisma.teamMember.findUnique({
+    where: { teamId_userId: { teamId, userId } },
+    select: { role: true },
+  });
+  if (member) return member.role;
+
+  const team = await prisma.team.findUnique({ where: { id: teamId }, select: { ownerId: true } });
+  return team?.ownerId === userId ? TeamRole.OWNER : null;
+}
+
+/** Owners and admins moderate team content */
+export function canModerateTeam(role: TeamRole | null) {
+  return role === TeamRole.OWNER || role === TeamRole.ADMIN;
+}
+
+/** Everyone on the team except viewers may add content */
+export function canContributeToTeam(role: TeamRole | null) {
+  return role !== null && role !== TeamRole.VIEWER;
+}
@@ -0,0 +1,80 @@
+import type { CalendarEvent, TeamCalendarEvent } from '@teaching-engine/database';
+import { TeamRole } from '@teaching-engine/database';
+import { prisma } from '../prisma';
+import { canModerateTeam } from './teamAccessService';
+
+export const TEAM_EVENT_TYPES = [
+  'meeting',
+  'deadline',
+  'field-trip',
+  'assessment',
+  'planning',
+] as const;
+export type TeamEventType = (typeof TEAM_EVENT_TYPES)[number];
+
+/** Everyone but viewers may add events; members edit only their own */
+export function canEditTeamEvent(role: TeamRole | null, event: TeamCalendarEvent, userId: number) {
+  if (canModerateTeam(role)) return true;
+  return role === TeamRole.MEMBER && event.createdByUserId === userId;
+}
+
+/**
+ * Events from every team calendar the user can see that overlap [start, end).
+ */
+export async function getTeamEventsForUser(
+  userId: number,
+  start: Date,
+  end: Date,
+  eventTypes?: TeamEventType[],
+) {
+  return prisma.teamCalendarEvent.findMany({
+    where: {
+      startDate: { lt: end },
+      endDate: { gte: start },
+      ...(eventTypes && { eventType: { in: eventTypes } }),
+      calendar: {
+        team: { OR: [{ ownerId: userId }, { members: { some: { userId } } }] },
+      },
+    },
+    include: {
+      calendar: {
+        select: {
+          id: true,
+          title: true,
+          color: true,
+          team: { select: { id: true, name: true } },
+        },
+      },
+    },
+    orderBy: { startDate: 'asc' },
+  });
+}
+
+/**
+ * Team assessment dates as CalendarEvents so the weekly scheduler treats
+ * them as blocked time, the same as an assembly or field trip.
+ */
+export async function getTeamAssessmentBlocks(
+  userId: number,
+  start: Date,
+  end: Date,
+): Promise<CalendarEvent[]> {
+  const events = await getTeamEventsForUser(userId, start, end, ['assessment']);
+  return events.map((event, index) => ({
+    // Negative ids keep these apart from real CalendarEvent rows
+    id: -(index + 1),
+    title: `${event.calendar.team.name}: ${event.title}`,
+    description: event.description,
+    start: event.startDate,
+    end: event.endDate,
+    allDay: event.allDay,
+    eventType: 'CUSTOM',
+    source: 'MANUAL',
+    teacherId: userId,
+    schoolId: null,
+    feedId: null,
+    uid: null,
+    createdAt: event.createdAt,
+    updatedAt: event.updatedAt,
+  }));
+}
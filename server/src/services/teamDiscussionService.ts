@@ -0,0 +1,85 @@
+import type { DiscussionReply, TeamDiscussion } from '@teaching-engine/database';
+import { prisma } from '../prisma';
+import logger from '../logger';
+import { notificationService } from './notificationService';
+
+export const DISCUSSION_CATEGORIES = ['general', 'planning', 'resources', 'help'] as const;
+
+type Authored = { authorId: number };
+
+/**
+ * Discussions and replies store a bare authorId; look the authors up in one
+ * query and attach them as `author`.
+ */
+export async function withAuthors<T extends Authored>(items: T[]) {
+  const users = await prisma.user.findMany({
+    where: { id: { in: [...new Set(items.map((item) => item.authorId))] } },
+    select: { id: true, name: true, email: true },
+  });
+  const usersById = new Map(users.map((user) => [user.id, user]));
+
+  return items.map((item) => ({ ...item, author: usersById.get(item.authorId) ?? null }));
+}
+
+/**
+ * The SharedPlan a thread may link to: it must have been shared with the team,
+ * otherwise other members could not open it.
+ */
+export async function findTeamSharedPlan(teamId: string, shareCode: string) {
+  const sharedPlan = await prisma.sharedPlan.findUnique({
+    where: { shareCode },
+    select: { shareCode: true, planType: true, planId: true, teamId: true },
+  });
+  return sharedPlan?.teamId === teamId ? sharedPlan : null;
+}
+
+/**
+ * Tell the rest of the team about a new reply. Only members who keep
+ * TeamMember.emailNotifications on are notified; failures are logged, not thrown.
+ */
+export async function notifyDiscussionReply(discussion: TeamDiscussion, reply: DiscussionReply) {
+  try {
+    const [team, author, members] = await Promise.all([
+      prisma.team.findUnique({ where: { id: discussion.teamId }, select: { name: true } }),
+      prisma.user.findUnique({ where: { id: reply.authorId }, select: { name: true } }),
+      prisma.teamMember.findMany({
+        where: {
+          teamId: discussion.teamId,
+          emailNotifications: true,
+          userId: { not: reply.authorId },
+        },
+        select: { userId: true },
+      }),
+    ]);
+
+    const excerpt =
+      reply.content.length > 140 ? `${reply.content.slice(0, 137)}...` : reply.content;
+
+    await Promise.allSettled(
+      members.map((member) =>
+        notificationService.sendTemplatedNotification(
+          member.userId,
+          'discussion_reply',
+          {
+            discussionTitle: discussion.title,
+            authorName: author?.name || 'A team member',
+            teamName: team?.name || 'your team',
+            excerpt,
+          },
+          {
+            metadata: {
+              teamId: discussion.teamId,
+              discussionId: discussion.id,
+              replyId: reply.id,
+            },
+          },
+        ),
+      ),
+    );
+  } catch (err) {
+    logger.error(
+      { err, discussionId: discussion.id },
+      'Failed to send discussion reply notifications',
+    );
+  }
+}
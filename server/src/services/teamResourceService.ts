@@ -0,0 +1,98 @@
+import type { TeamResource } from '@teaching-engine/database';
+import { prisma } from '../prisma';
+
+export const TEAM_RESOURCE_TYPES = ['document', 'template', 'link', 'file'] as const;
+
+export type TeamResourceImportTarget = { unitPlanId: string } | { lessonPlanId: string };
+
+/**
+ * Team resources store a bare contributedById; look the contributors up in
+ * one query and attach them as `contributor`.
+ */
+export async function withContributors<T extends { contributedById: number }>(items: T[]) {
+  const users = await prisma.user.findMany({
+    where: { id: { in: [...new Set(items.map((item) => item.contributedById))] } },
+    select: { id: true, name: true, email: true },
+  });
+  const usersById = new Map(users.map((user) => [user.id, user]));
+
+  return items.map((item) => ({
+    ...item,
+    contributor: usersById.get(item.contributedById) ?? null,
+  }));
+}
+
+/**
+ * The team's categories with how many resources each holds. Resources
+ * without a category are counted under null.
+ */
+export async function listTeamResourceCategories(teamId: string) {
+  const groups = await prisma.teamResource.groupBy({
+    by: ['category'],
+    where: { teamId },
+    _count: { _all: true },
+  });
+
+  return groups
+    .map((group) => ({ category: group.category, count: group._count._all }))
+    .sort((a, b) => (a.category ?? '').localeCompare(b.category ?? ''));
+}
+
+/**
+ * Copy a team resource into one of the user's unit or lesson plans and count
+ * it as a download. Returns null when the plan is not the user's.
+ */
+export async function importTeamResource(
+  resource: TeamResource,
+  userId: number,
+  target: TeamResourceImportTarget,
+) {
+  const countDownload = () =>
+    prisma.teamResource.update({
+      where: { id: resource.id },
+      data: { downloadCount: { increment: 1 } },
+    });
+
+  if ('unitPlanId' in target) {
+    const unitPlan = await prisma.unitPlan.findFirst({
+      where: { id: target.unitPlanId, userId },
+      select: { id: true },
+    });
+    if (!unitPlan) return null;
+
+    // Unit plan resources have notes rather than inline content
+    const [created] = await prisma.$transaction([
+      prisma.unitPlanResource.create({
+        data: {
+          unitPlanId: unitPlan.id,
+          title: resource.title,
+          type: resource.resourceType,
+          url: resource.url,
+          notes: resource.content ?? resource.description,
+        },
+      }),
+      countDownload(),
+    ]);
+    return created;
+  }
+
+  const lessonPlan = await prisma.eTFOLessonPlan.findFirst({
+    where: { id: target.lessonPlanId, userId },
+    select: { id: true },
+  });
+  if (!lessonPlan) return null;
+
+  const [created] = await prisma.$transaction([
+    prisma.eTFOLessonPlanResource.create({
+      data: {
+        lessonPlanId: lessonPlan.id,
+        title: resource.title,
+        type: resource.resourceType,
+        url: resource.url,
+        content: resource.content,
+      },
+    }),
+    countDownload(),
+  ]);
+  return created;
+}
@@ -0,0 +1,179 @@
+import type { CalendarEvent, Subject, TimetableSlot } from '@teaching-engine/database';
+import { prisma } from '../prisma';
+import { calendarEventScope } from './schoolService';
+import { provinceForUser, schoolClosureEvents } from './schoolCalendarService';
+
+export interface TimetableSettings {
+  rotationLength: number | null;
+  rotationStart: Date | null;
+}
+
+export type TimetableSlotWithSubject = TimetableSlot & { subject: Subject | null };
+
+/**
+ * A timetable slot resolved onto a calendar date. `day` is the weekday index
+ * (0 = Monday) and `rotationDay` the cycle day in effect on that date, if any.
+ */
+export interface ResolvedTimetableBlock {
+  slotId: number;
+  date: string;
+  day: number;
+  rotationDay: number | null;
+  startMin: number;
+  endMin: number;
+  subjectId: number | null;
+  subjectName: string | null;
+  label: string | null;
+  room: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function startOfDay(date: Date): Date {
+  const d = new Date(date);
+  d.setUTCHours(0, 0, 0, 0);
+  return d;
+}
+
+function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function weekdayIndex(date: Date): number {
+  return (date.getUTCDay() + 6) % 7;
+}
+
+/**
+ * Dates (YYYY-MM-DD) on which the school is closed: all-day holidays and PD days.
+ * Closed days do not advance the rotation cycle.
+ */
+export function collectClosureDates(events: CalendarEvent[]): Set<string> {
+  const closed = new Set<string>();
+  for (const event of events) {
+    if (!event.allDay || (event.eventType !== 'HOLIDAY' && event.eventType !== 'PD_DAY')) continue;
+    const last = startOfDay(new Date(event.end));
+    for (let d = startOfDay(new Date(event.start)); d <= last; d = new Date(d.getTime() + DAY_MS)) {
+      closed.add(toDateKey(d));
+    }
+  }
+  return closed;
+}
+
+/**
+ * Work out the rotation day (1-based) for a date. The cycle starts at Day 1 on
+ * `rotationStart` and advances once per school day, skipping weekends and
+ * closures. Returns null when no rotation is configured or the date is not a
+ * school day.
+ */
+export function getRotationDay(
+  settings: TimetableSettings,
+  date: Date,
+  closures: Set<string> = new Set(),
+): number | null {
+  if (!settings.rotationLength || !settings.rotationStart) return null;
+  const target = startOfDay(date);
+  const start = startOfDay(settings.rotationStart);
+  if (target < start) return null;
+
+  const isSchoolDay = (d: Date) => weekdayIndex(d) < 5 && !closures.has(toDateKey(d));
+  if (!isSchoolDay(target)) return null;
+
+  let schoolDays = 0;
+  for (let d = start; d < target; d = new Date(d.getTime() + DAY_MS)) {
+    if (isSchoolDay(d)) schoolDays++;
+  }
+  return (schoolDays % settings.rotationLength) + 1;
+}
+
+/**
+ * Pick the slots that apply on a date. Plain weekly slots match on weekday;
+ * rotation slots match on cycle day and, when they also carry a weekday, on both.
+ */
+export function resolveSlotsForDate(
+  settings: TimetableSettings,
+  slots: TimetableSlotWithSubject[],
+  date: Date,
+  closures: Set<string> = new Set(),
+): ResolvedTimetableBlock[] {
+  const day = weekdayIndex(date);
+  const rotationDay = getRotationDay(settings, date, closures);
+
+  return slots
+    .filter((slot) =>
+      slot.rotationDay == null
+        ? slot.day === day
+        : slot.rotationDay === rotationDay && (slot.day == null || slot.day === day),
+    )
+    .sort((a, b) => a.startMin - b.startMin)
+    .map((slot) => ({
+      slotId: slot.id,
+      date: toDateKey(date),
+      day,
+      rotationDay,
+      startMin: slot.startMin,
+      endMin: slot.endMin,
+      subjectId: slot.subjectId,
+      subjectName: slot.subject?.name ?? null,
+      label: slot.label,
+      room: slot.room,
+    }));
+}
+
+export async function getTimetable(userId: number) {
+  return prisma.classTimetable.findUnique({
+    where: { userId },
+    include: {
+      slots: {
+        include: { subject: true },
+        orderBy: [{ day: 'asc' }, { rotationDay: 'asc' }, { startMin: 'asc' }],
+      },
+    },
+  });
+}
+
+/**
+ * Resolve the teacher's timetable onto each date in [from, from + days).
+ * Returns an empty list when the teacher has not set up a timetable.
+ */
+export async function getTimetableBlocks(
+  userId: number,
+  from: Date,
+  days: number,
+): Promise<ResolvedTimetableBlock[]> {
+  const timetable = await getTimetable(userId);
+  if (!timetable || timetable.slots.length === 0) return [];
+
+  const rangeStart = startOfDay(from);
+  const rangeEnd = new Date(rangeStart.getTime() + days * DAY_MS);
+  const cycleStart =
+    timetable.rotationStart && timetable.rotationStart < rangeStart
+      ? startOfDay(timetable.rotationStart)
+      : rangeStart;
+
+  const closureEvents = timetable.rotationLength
+    ? await prisma.calendarEvent.findMany({
+        where: {
+          allDay: true,
+          eventType: { in: ['HOLIDAY', 'PD_DAY'] },
+          start: { lt: rangeEnd },
+          end: { gte: cycleStart },
+          ...(await calendarEventScope(userId)),
+        },
+      })
+    : [];
+  const closures = collectClosureDates(
+    timetable.rotationLength
+      ? [
+          ...closureEvents,
+          ...schoolClosureEvents(await provinceForUser(userId), cycleStart, rangeEnd),
+        ]
+      : closureEvents,
+  );
+
+  const blocks: ResolvedTimetableBlock[] = [];
+  for (let i = 0; i < days; i++) {
+    const date = new Date(rangeStart.getTime() + i * DAY_MS);
+    blocks.push(...resolveSlotsForDate(timetable, timetable.slots, date, closures));
+  }
+  return blocks;
+}
@@ -38,3 +38,31 @@ export async function saveFile(filename: string, buffer: Buffer): Promise<string
   await fs.writeFile(filePath, buffer);
   return `/uploads/${filename}`;
 }
+
+/**
+ * Read back a file stored by {@link saveFile}.
+ * @param url URL returned by saveFile
+ * @returns file contents, or null for URLs saveFile did not produce or files that are gone
+ */
+export async function readStoredFile(url: string): Promise<Buffer | null> {
+  const s3Prefix = bucket ? `https://${bucket}.s3.amazonaws.com/` : null;
+  if (s3Client && s3Prefix && url.startsWith(s3Prefix)) {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const { GetObjectCommand } = require('@aws-sdk/client-s3');
+    try {
+      const result = (await (s3Client as { send: (command: unknown) => Promise<unknown> }).send(
+        new GetObjectCommand({ Bucket: bucket, Key: url.slice(s3Prefix.length) }),
+      )) as { Body: { transformToByteArray: () => Promise<Uint8Array> } };
+      return Buffer.from(await result.Body.transformToByteArray());
+    } catch {
+      return null;
+    }
+  }
+  if (!url.startsWith('/uploads/')) return null;
+  try {
+    // basename keeps "/uploads/../x" inside the uploads directory
+    return await fs.readFile(path.join(localDir, path.basename(url)));
+  } catch {
+    return null;
+  }
+}
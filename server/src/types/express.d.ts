@@ -4,6 +4,13 @@ declare namespace Express {
       id: number;
       userId: string;
       email: string;
+      /** Session the access token belongs to, when it was issued for one */
+      sessionId?: string;
+    };
+    /** Set on guardian portal routes for the signed-in guardian */
+    guardian?: {
+      id: string;
+      email: string;
     };
   }
 }
@@ -3,11 +3,18 @@
  * Prevents SSRF attacks and validates external URLs
  */
 
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net, { type LookupFunction } from 'net';
+
 export interface URLValidationOptions {
   allowedDomains?: string[];
   allowedProtocols?: string[];
   allowPrivateIPs?: boolean;
   maxRedirects?: number;
+  /** Skip the domain allowlist (private IPs and localhost stay blocked) */
+  allowAnyDomain?: boolean;
 }
 
 // Default safe configuration
@@ -24,6 +31,7 @@ const DEFAULT_OPTIONS: Required<URLValidationOptions> = {
   allowedProtocols: ['https:', 'http:'],
   allowPrivateIPs: false,
   maxRedirects: 3,
+  allowAnyDomain: false,
 };
 
 /**
@@ -52,7 +60,7 @@ export function isValidExternalURL(
       return url.hostname === domain || url.hostname.endsWith('.' + domain);
     });
 
-    if (!isAllowedDomain) {
+    if (!isAllowedDomain && !config.allowAnyDomain) {
       return {
         valid: false,
         error: `Domain ${url.hostname} not in allowlist. Only trusted educational domains are permitted.`,
@@ -135,6 +143,190 @@ function isLocalhost(hostname: string): boolean {
   return localhostPatterns.includes(hostname.toLowerCase());
 }
 
+// Addresses a server-side request must never reach: loopback, private,
+// link-local, CGNAT, documentation, multicast and reserved ranges. IPv4-mapped
+// IPv6 addresses are checked against the IPv4 rules by BlockList itself.
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 96],          // unspecified, loopback and IPv4-compatible
+  ['64:ff9b::', 96],   // NAT64
+  ['64:ff9b:1::', 48],
+  ['100::', 64],       // discard
+  ['2001:db8::', 32],  // documentation
+  ['2002::', 16],      // 6to4
+  ['fc00::', 7],       // unique local
+  ['fe80::', 10],      // link-local
+  ['fec0::', 10],      // site-local
+  ['ff00::', 8],       // multicast
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is on the public internet
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  return !BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Resolve a hostname, refusing it when any of its addresses is not public
+ */
+export async function resolvePublicAddress(hostname: string): Promise<dns.LookupAddress> {
+  const host = hostname.replace(/^\[|\]$/g, '');
+  const family = net.isIP(host);
+  const addresses = family
+    ? [{ address: host, family }]
+    : await dns.promises.lookup(host, { all: true, verbatim: true });
+
+  if (addresses.length === 0 || addresses.some(({ address }) => !isPublicAddress(address))) {
+    throw new Error(`${hostname} does not resolve to a public address`);
+  }
+  return addresses[0];
+}
+
+export class ResponseTooLargeError extends Error {
+  constructor(maxBytes: number) {
+    super(`Response is larger than ${maxBytes} bytes`);
+    this.name = 'ResponseTooLargeError';
+  }
+}
+
+export interface PublicFetchOptions {
+  maxBytes: number;
+  headers?: Record<string, string>;
+  maxRedirects?: number;
+  timeoutMs?: number;
+}
+
+export interface PublicFetchResponse {
+  status: number;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+}
+
+/**
+ * GET a URL on any public host. Every hop, redirects included, is resolved
+ * and checked before connecting, and the connection goes to the address that
+ * was checked so DNS cannot point elsewhere in between. The body is streamed
+ * and abandoned once it passes maxBytes.
+ */
+export async function fetchPublicUrl(
+  urlString: string,
+  options: PublicFetchOptions
+): Promise<PublicFetchResponse> {
+  let current = sanitizeURL(urlString);
+  const maxRedirects = options.maxRedirects ?? DEFAULT_OPTIONS.maxRedirects;
+
+  for (let redirects = 0; redirects <= maxRedirects; redirects++) {
+    const validation = isValidExternalURL(current, { allowAnyDomain: true });
+    if (!validation.valid) {
+      throw new Error(`URL validation failed: ${validation.error}`);
+    }
+
+    const url = validation.url!;
+    const response = await requestPinned(url, await resolvePublicAddress(url.hostname), options);
+    const location = response.headers.location;
+    if (response.status >= 300 && response.status < 400 && location) {
+      current = sanitizeURL(new URL(location, url).toString());
+      continue;
+    }
+    return response;
+  }
+  throw new Error('the URL redirects too many times');
+}
+
+function requestPinned(
+  url: URL,
+  pinned: dns.LookupAddress,
+  options: PublicFetchOptions
+): Promise<PublicFetchResponse> {
+  const lookup: LookupFunction = (_hostname, lookupOptions, callback) => {
+    if (lookupOptions.all) {
+      callback(null, [pinned]);
+    } else {
+      callback(null, pinned.address, pinned.family);
+    }
+  };
+  const client = url.protocol === 'https:' ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const fail = (error: Error) => {
+      clearTimeout(timeoutId);
+      reject(error);
+      request.destroy();
+    };
+
+    const request = client.get(
+      url,
+      {
+        headers: {
+          ...options.headers,
+          'User-Agent': 'Teaching Engine 2.0 Educational Bot (+https://teaching-engine.ca/bot)',
+        },
+        lookup,
+      },
+      (response) => {
+        const status = response.statusCode ?? 0;
+        const finish = (body: Buffer) => {
+          clearTimeout(timeoutId);
+          resolve({ status, url: url.toString(), headers: response.headers, body });
+        };
+
+        if (status >= 300 && status < 400) {
+          response.resume();
+          finish(Buffer.alloc(0));
+          return;
+        }
+        if (Number(response.headers['content-length']) > options.maxBytes) {
+          fail(new ResponseTooLargeError(options.maxBytes));
+          return;
+        }
+
+        const chunks: Buffer[] = [];
+        let size = 0;
+        response.on('data', (chunk: Buffer) => {
+          size += chunk.length;
+          if (size > options.maxBytes) {
+            fail(new ResponseTooLargeError(options.maxBytes));
+          } else {
+            chunks.push(chunk);
+          }
+        });
+        response.on('end', () => finish(Buffer.concat(chunks)));
+        response.on('error', fail);
+      }
+    );
+
+    const timeoutId = setTimeout(
+      () => fail(new Error('the request timed out')),
+      options.timeoutMs ?? 30000
+    );
+    request.on('error', fail);
+  });
+}
+
 /**
  * Sanitize URL input by removing dangerous characters
  */
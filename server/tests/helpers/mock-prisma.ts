@@ -1,12 +1,17 @@
 import { jest } from '@jest/globals';
 
+type MockFn = ReturnType<typeof jest.fn<(...args: any[]) => any>>;
+
+/** The global mock client: a jest.fn() for every model method, plus $transaction */
+export type MockedPrisma = Record<string, Record<string, MockFn>> & { $transaction: MockFn };
+
 /**
  * Get the mocked Prisma client from the global setup
  * This ensures we're always using the same mock instance
  */
-export function getMockedPrisma() {
+export function getMockedPrisma(): MockedPrisma {
   const globalForPrisma = globalThis as unknown as {
-    testPrismaClient: ReturnType<typeof import('@jest/globals').jest.fn>;
+    testPrismaClient: MockedPrisma;
   };
 
   return globalForPrisma.testPrismaClient;
@@ -40,7 +45,8 @@ export function resetPrismaMocks() {
       if (typeof fn === 'function') {
         return fn(prisma);
       }
-      return Promise.resolve(fn);
+      // Batched form: $transaction([query, query])
+      return Array.isArray(fn) ? Promise.all(fn) : Promise.resolve(fn);
     });
   }
 }
@@ -170,6 +170,13 @@ export const ImportStatus = {
   CANCELLED: 'CANCELLED',
 };
 
+export const TeamRole = {
+  OWNER: 'OWNER',
+  ADMIN: 'ADMIN',
+  MEMBER: 'MEMBER',
+  VIEWER: 'VIEWER',
+} as const;
+
 export const Prisma = {
   PrismaClientKnownRequestError: class PrismaClientKnownRequestError extends Error {
     code: string;
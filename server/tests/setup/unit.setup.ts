@@ -33,6 +33,22 @@ jest.mock('canvas');
 
 // Mock Prisma Client with comprehensive stubs
 jest.mock('@teaching-engine/database', () => {
+  const mockModel = () => ({
+    findUnique: jest.fn(),
+    findMany: jest.fn().mockResolvedValue([]),
+    findFirst: jest.fn(),
+    create: jest.fn(),
+    createMany: jest.fn().mockResolvedValue({ count: 0 }),
+    update: jest.fn(),
+    updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+    upsert: jest.fn(),
+    delete: jest.fn(),
+    deleteMany: jest.fn().mockResolvedValue({ count: 0 }),
+    count: jest.fn().mockResolvedValue(0),
+    aggregate: jest.fn(),
+    groupBy: jest.fn().mockResolvedValue([]),
+  });
+
   const mockPrismaClient = {
     $connect: jest.fn().mockResolvedValue(undefined),
     $disconnect: jest.fn().mockResolvedValue(undefined),
@@ -176,6 +192,7 @@ jest.mock('@teaching-engine/database', () => {
       createMany: jest.fn().mockResolvedValue({ count: 0 }),
       update: jest.fn(),
       updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+      upsert: jest.fn(),
       delete: jest.fn(),
       deleteMany: jest.fn().mockResolvedValue({ count: 0 }),
       count: jest.fn().mockResolvedValue(0),
@@ -334,6 +351,53 @@ jest.mock('@teaching-engine/database', () => {
       deleteMany: jest.fn().mockResolvedValue({ count: 0 }),
       count: jest.fn().mockResolvedValue(0),
     },
+
+    // Sessions, notifications, email and AI usage
+    userSession: mockModel(),
+    notification: mockModel(),
+    notificationPreference: mockModel(),
+    emailDelivery: mockModel(),
+    llmUsage: mockModel(),
+
+    // Curriculum frameworks, packages and plan links
+    curriculumFramework: mockModel(),
+    curriculumExpectationEmbedding: mockModel(),
+    expectationCluster: mockModel(),
+    longRangePlanExpectation: mockModel(),
+    unitPlanExpectation: mockModel(),
+    eTFOLessonPlanExpectation: mockModel(),
+    daybookEntryExpectation: mockModel(),
+    unitPlanResource: mockModel(),
+    eTFOLessonPlanResource: mockModel(),
+    planVersion: mockModel(),
+    assessment: mockModel(),
+
+    // Teams and sharing
+    team: mockModel(),
+    teamMember: mockModel(),
+    teamCalendarEvent: mockModel(),
+    teamResource: mockModel(),
+    sharedPlan: mockModel(),
+
+    // Schools, boards and the resource library
+    school: mockModel(),
+    schoolMembership: mockModel(),
+    schoolInvitation: mockModel(),
+    boardMembership: mockModel(),
+    resourceLibraryItem: mockModel(),
+    resourceRating: mockModel(),
+    resourceBookmark: mockModel(),
+
+    // Calendar feeds and timetables
+    calendarFeed: mockModel(),
+    classTimetable: mockModel(),
+
+    // Guardian portal
+    portalItem: mockModel(),
+    parentSummary: mockModel(),
+    studentArtifact: mockModel(),
+    guardianAccessToken: mockModel(),
+    guardianAccessLog: mockModel(),
   };
 
   // PrismaClient constructor
@@ -362,6 +426,9 @@ jest.mock('@teaching-engine/database', () => {
     },
   };
 });
+// ESM imports resolve the database package through moduleNameMapper, so the
+// factory above only runs when required; run it so the mock client is global
+jest.requireMock('@teaching-engine/database');
 
 // Mock email service
 jest.mock('../../src/services/emailService', () => ({
@@ -1,8 +1,8 @@
 import request from 'supertest';
 import type { Application } from 'express';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import { getTestPrismaClient } from './jest.setup.js';
+import { startSession } from '../src/services/sessionService';
 
 /**
  * Helper to create a test user and get authentication token
@@ -97,12 +97,10 @@ export async function createTestUser(email?: string) {
 }
 
 /**
- * Create an auth token for a user ID
+ * Create an auth token for a user ID. Tokens are only accepted for an active
+ * session, so this signs the user in.
  */
-export function createAuthToken(userId: number, email: string): string {
-  const secret = process.env.JWT_SECRET;
-  if (!secret) {
-    throw new Error('JWT_SECRET environment variable is required for testing');
-  }
-  return jwt.sign({ userId: userId.toString(), email }, secret, { expiresIn: '24h' });
+export async function createAuthToken(userId: number, email: string): Promise<string> {
+  const { accessToken } = await startSession(getTestPrismaClient(), { id: userId, email });
+  return accessToken;
 }
@@ -0,0 +1,154 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildHeatmap,
+  type HeatmapExpectation,
+} from '../../src/services/analytics/curriculumCoverage';
+import { buildStrandBalance } from '../../src/services/analytics/strandBalance';
+import { buildStudentEngagement } from '../../src/services/analytics/studentEngagement';
+import { toCsv } from '../../src/services/analytics/export';
+import { schoolYearRange } from '../../src/services/analytics/range';
+
+const expectation = (id: string, strand = 'Number'): HeatmapExpectation => ({
+  id,
+  code: id.toUpperCase(),
+  description: `Expectation ${id}`,
+  strand,
+  substrand: null,
+  subject: 'Math',
+  grade: 3,
+});
+
+// Monday September 8 to Sunday September 21, 2025: two weeks
+const range = { from: new Date(2025, 8, 8), to: new Date(2025, 8, 21, 23, 59) };
+
+describe('analytics Unit Tests', () => {
+  describe('schoolYearRange', () => {
+    it('runs from September to June, with August starting the new year', () => {
+      expect(schoolYearRange(new Date(2026, 2, 15)).from).toEqual(new Date(2025, 8, 1));
+      expect(schoolYearRange(new Date(2026, 7, 20)).from).toEqual(new Date(2026, 8, 1));
+      expect(schoolYearRange(new Date(2026, 7, 20)).to.getMonth()).toBe(5);
+    });
+  });
+
+  describe('buildHeatmap', () => {
+    it('counts hits per expectation and week, ignoring out-of-range hits', () => {
+      const heatmap = buildHeatmap(
+        [expectation('a'), expectation('b')],
+        [
+          { expectationId: 'a', date: new Date(2025, 8, 9), coverage: 'introduced' },
+          { expectationId: 'a', date: new Date(2025, 8, 11) },
+          { expectationId: 'a', date: new Date(2025, 8, 16), coverage: 'developing' },
+          { expectationId: 'a', date: new Date(2025, 9, 1) },
+          { expectationId: 'unknown', date: new Date(2025, 8, 9) },
+        ],
+        { ...range, viewMode: 'taught' },
+      );
+
+      expect(heatmap.weeks).toEqual(['2025-09-08', '2025-09-15']);
+      expect(heatmap.grid).toEqual({ a: { '2025-09-08': 2, '2025-09-15': 1 } });
+      expect(heatmap.coverage).toEqual({ a: 'developing' });
+      expect(heatmap.metadata).toMatchObject({
+        viewMode: 'taught',
+        totalOutcomes: 2,
+        coveredOutcomes: 1,
+        coveragePercentage: 50,
+      });
+    });
+  });
+
+  describe('buildStrandBalance', () => {
+    it('splits lesson minutes across strands and tracks unlinked time', () => {
+      const balance = buildStrandBalance(
+        [
+          { date: new Date(2025, 8, 9), duration: 60, strands: ['Number', 'Algebra', 'Number'] },
+          { date: new Date(2025, 8, 10), duration: 40, strands: ['Number'] },
+          { date: new Date(2025, 9, 2), duration: 30, strands: [] },
+        ],
+        'month',
+      );
+
+      expect(balance.periods).toEqual([
+        { period: '2025-09', minutes: { Number: 70, Algebra: 30 } },
+      ]);
+      expect(balance.totals).toEqual([
+        { strand: 'Number', lessons: 2, minutes: 70, percentage: 70 },
+        { strand: 'Algebra', lessons: 1, minutes: 30, percentage: 30 },
+      ]);
+      expect(balance.unlinkedMinutes).toBe(30);
+    });
+  });
+
+  describe('buildStudentEngagement', () => {
+    it('rates students against the class average and flags quiet ones', () => {
+      const now = new Date(2025, 8, 21);
+      const reflection = (day: number, emoji: string | null = null) => ({
+        createdAt: new Date(2025, 8, day),
+        date: null,
+        emoji,
+      });
+      const student = (id: number, reflections: ReturnType<typeof reflection>[]) => ({
+        id,
+        firstName: `Student`,
+        lastName: String(id),
+        grade: 3,
+        reflections,
+        artifacts: [],
+      });
+
+      const engagement = buildStudentEngagement(
+        [
+          student(1, [reflection(9, '😀'), reflection(10, '😀'), reflection(16), reflection(17)]),
+          student(2, [reflection(9), reflection(16)]),
+          student(3, []),
+        ],
+        range,
+        now,
+      );
+
+      expect(engagement.classAveragePerWeek).toBe(1);
+      expect(engagement.students.map((s) => [s.activityPerWeek, s.level])).toEqual([
+        [2, 'high'],
+        [1, 'typical'],
+        [0, 'none'],
+      ]);
+      expect(engagement.students[0].moods).toEqual({ '😀': 2 });
+      expect(engagement.students[0].weekly).toEqual({ '2025-09-08': 2, '2025-09-15': 2 });
+      expect(engagement.students.map((s) => s.needsAttention)).toEqual([false, false, true]);
+    });
+  });
+
+  describe('toCsv', () => {
+    it('quotes text cells and escapes embedded quotes', () => {
+      const csv = toCsv({
+        title: 'Test',
+        columns: ['Name', 'Note', 'Count'],
+        rows: [
+          ['Lee, Sam', 'Said "bonjour"', 3],
+          ['Marie', null, 0],
+        ],
+      });
+
+      expect(csv).toBe(
+        '"Name","Note","Count"\r\n"Lee, Sam","Said ""bonjour""",3\r\n"Marie",,0\r\n',
+      );
+    });
+
+    it('keeps text that looks like a formula from running in spreadsheets', () => {
+      const csv = toCsv({
+        title: 'Test',
+        columns: ['Note', 'Change'],
+        rows: [
+          ['=HYPERLINK("http://example.com")', -2],
+          ['@SUM(A1)', 0],
+          ['+1 day', 1],
+        ],
+      });
+
+      expect(csv.split('\r\n').slice(1, 4)).toEqual([
+        `"'=HYPERLINK(""http://example.com"")",-2`,
+        `"'@SUM(A1)",0`,
+        `"'+1 day",1`,
+      ]);
+    });
+  });
+});
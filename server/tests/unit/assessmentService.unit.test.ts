@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import {
+  AssessmentError,
+  levelValue,
+  saveRecordingSheet,
+  summarizeProgress,
+} from '../../src/services/assessmentService';
+import { getMockedPrisma, resetPrismaMocks } from '../helpers/mock-prisma';
+
+describe('assessmentService Unit Tests', () => {
+  const { eTFOLessonPlan, student, assessment, $transaction: transaction } = getMockedPrisma();
+
+  const lessonDate = new Date('2025-03-04T00:00:00.000Z');
+
+  beforeEach(() => {
+    resetPrismaMocks();
+    eTFOLessonPlan.findFirst.mockResolvedValue({
+      id: 'lesson-1',
+      title: 'Fraction strips',
+      date: lessonDate,
+      grade: 4,
+      subject: 'Mathematics',
+      assessmentType: 'formative',
+      expectations: [{ expectation: { id: 'exp-1', code: 'B1.1', strand: 'Number' } }],
+    });
+    student.findMany.mockResolvedValue([{ id: 7, firstName: 'Ava', grade: 4 }]);
+    assessment.findMany.mockResolvedValue([]);
+    assessment.upsert.mockImplementation(async (args: unknown) => args);
+    assessment.deleteMany.mockImplementation(async (args: unknown) => args);
+  });
+
+  describe('summarizeProgress', () => {
+    const number = { subject: 'Mathematics', strand: 'Number' };
+    const record = (date: string, level: string, evidenceType = 'observation') => ({
+      date: new Date(date),
+      level,
+      evidenceType,
+      expectation: number,
+    });
+
+    it('counts R as below level 1', () => {
+      expect(levelValue('R')).toBe(0);
+      expect(levelValue('3')).toBe(3);
+    });
+
+    it('reports per-strand averages, monthly points and trends', () => {
+      const summary = summarizeProgress([
+        record('2025-03-20', '3', 'product'),
+        record('2025-02-10', 'R'),
+        record('2025-02-24', '2', 'conversation'),
+        record('2025-03-05', '4'),
+        {
+          date: new Date('2025-03-01'),
+          level: '2',
+          evidenceType: 'product',
+          expectation: { subject: 'Language', strand: 'Oral Communication' },
+        },
+      ]);
+
+      expect(summary).toMatchObject({
+        totalAssessments: 5,
+        averageScore: 2.2,
+        assessmentsByType: { observation: 2, conversation: 1, product: 2 },
+      });
+      expect(summary.strands.map((s) => s.subject)).toEqual(['Language', 'Mathematics']);
+      expect(summary.strands[1]).toEqual({
+        subject: 'Mathematics',
+        strand: 'Number',
+        count: 4,
+        average: 2.3,
+        latestLevel: '3',
+        trend: 'improving',
+        points: [
+          { month: '2025-02', average: 1, count: 2 },
+          { month: '2025-03', average: 3.5, count: 2 },
+        ],
+      });
+      expect(summary.strands[0].trend).toBeNull();
+    });
+
+    it('has no average without records', () => {
+      expect(summarizeProgress([])).toEqual({
+        totalAssessments: 0,
+        averageScore: null,
+        assessmentsByType: {},
+        strands: [],
+      });
+    });
+  });
+
+  describe('saveRecordingSheet', () => {
+    it('upserts levels dated with the lesson and clears emptied cells', async () => {
+      await saveRecordingSheet('lesson-1', 1, [
+        { studentId: 7, expectationId: 'exp-1', level: '3', evidenceType: 'observation' },
+        { studentId: 7, expectationId: 'exp-1', level: null, evidenceType: 'observation' },
+      ]);
+
+      const key = { lessonPlanId: 'lesson-1', studentId: 7, expectationId: 'exp-1' };
+      expect(assessment.upsert).toHaveBeenCalledWith({
+        where: { lessonPlanId_studentId_expectationId: key },
+        create: {
+          ...key,
+          level: '3',
+          evidenceType: 'observation',
+          notes: null,
+          date: lessonDate,
+          purpose: 'formative',
+        },
+        update: {
+          level: '3',
+          evidenceType: 'observation',
+          notes: null,
+          date: lessonDate,
+          purpose: 'formative',
+        },
+      });
+      expect(assessment.deleteMany).toHaveBeenCalledWith({ where: key });
+      expect(transaction).toHaveBeenCalledTimes(1);
+    });
+
+    it('refuses students outside the class', async () => {
+      await expect(
+        saveRecordingSheet('lesson-1', 1, [
+          { studentId: 99, expectationId: 'exp-1', level: '2', evidenceType: 'product' },
+        ]),
+      ).rejects.toBeInstanceOf(AssessmentError);
+      expect(transaction).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import type { Request, Response } from 'express';
+import { auditLoggers } from '../../src/middleware/auditLog';
+import { prisma } from '../../src/prisma';
+import { getMockedPrisma, resetPrismaMocks } from '../helpers/mock-prisma';
+
+type LogRow = Record<string, unknown>;
+
+describe('auditLog middleware Unit Tests', () => {
+  const { guardianAccessLog } = getMockedPrisma();
+  let rows: LogRow[];
+
+  // An in-memory table, so the test reads back what the middleware wrote
+  beforeEach(() => {
+    resetPrismaMocks();
+    rows = [];
+    guardianAccessLog.create.mockImplementation(async ({ data }: { data: LogRow }) => {
+      const row = { id: `log-${rows.length + 1}`, ...data };
+      rows.push(row);
+      return row;
+    });
+    guardianAccessLog.findMany.mockImplementation(async ({ where }: { where: LogRow }) =>
+      rows.filter((row) => Object.entries(where).every(([key, value]) => row[key] === value)),
+    );
+  });
+
+  const visit = async (
+    middleware: (req: Request, res: Response, next: () => void) => Promise<void>,
+    req: Partial<Request>,
+    status: number,
+    handler: (req: Request) => void = () => {},
+  ) => {
+    const request = {
+      params: {},
+      headers: { 'user-agent': 'Test browser' },
+      ip: '203.0.113.7',
+      method: 'GET',
+      ...req,
+    } as Request;
+    const res = { statusCode: status, send: jest.fn() } as unknown as Response;
+
+    await middleware(request, res, () => handler(request));
+    res.send('{}');
+    await new Promise((resolve) => setImmediate(resolve));
+  };
+
+  it('records guardian portal views in the access log', async () => {
+    await visit(
+      auditLoggers.guardianPortalView,
+      {
+        params: { studentId: '12' },
+        path: '/students/12',
+        guardian: { id: 'guardian-1', email: 'parent@example.com' },
+      },
+      200,
+    );
+
+    const logged = await prisma.guardianAccessLog.findMany({ where: { guardianId: 'guardian-1' } });
+    expect(logged).toEqual([
+      expect.objectContaining({
+        action: 'GUARDIAN_PORTAL_VIEW',
+        studentId: 12,
+        method: 'GET',
+        path: '/students/12',
+        responseStatus: 200,
+        ipAddress: '203.0.113.7',
+        userAgent: 'Test browser',
+      }),
+    ]);
+  });
+
+  it('records failed sign-ins without a guardian, and the guardian once signed in', async () => {
+    await visit(auditLoggers.guardianPortalSignIn, { method: 'POST', path: '/sign-in' }, 400);
+    await visit(
+      auditLoggers.guardianPortalSignIn,
+      { method: 'POST', path: '/sign-in' },
+      200,
+      (req) => {
+        req.guardian = { id: 'guardian-2', email: 'parent@example.com' };
+      },
+    );
+
+    const failed = await prisma.guardianAccessLog.findMany({ where: { guardianId: null } });
+    const signedIn = await prisma.guardianAccessLog.findMany({
+      where: { guardianId: 'guardian-2' },
+    });
+    expect(failed).toEqual([
+      expect.objectContaining({ action: 'GUARDIAN_PORTAL_SIGN_IN', responseStatus: 400 }),
+    ]);
+    expect(signedIn).toEqual([
+      expect.objectContaining({ action: 'GUARDIAN_PORTAL_SIGN_IN', responseStatus: 200 }),
+    ]);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import jwt from 'jsonwebtoken';
+import type { Request, Response } from 'express';
+import { authenticate } from '../../src/middleware/authenticate';
+import { getMockedPrisma, resetPrismaMocks } from '../helpers/mock-prisma';
+
+describe('authenticate middleware Unit Tests', () => {
+  const { userSession } = getMockedPrisma();
+  const originalSecret = process.env.JWT_SECRET;
+  let res: { status: jest.Mock; json: jest.Mock };
+  let next: jest.Mock;
+
+  const request = (token: string) =>
+    ({
+      cookies: { authToken: token },
+      headers: {},
+      originalUrl: '/api/lesson-plans',
+      url: '/api/lesson-plans',
+    }) as unknown as Request;
+
+  const sign = (payload: object, iat = Math.floor(Date.now() / 1000)) =>
+    jwt.sign({ userId: '7', email: 'teacher@example.com', iat, ...payload }, 'test-secret');
+
+  const activeSession = (passwordChangedAt: Date | null = null) => ({
+    revokedAt: null,
+    expiresAt: new Date(Date.now() + 60_000),
+    user: { mustChangePassword: false, passwordChangedAt },
+  });
+
+  beforeEach(() => {
+    resetPrismaMocks();
+    process.env.JWT_SECRET = 'test-secret';
+    res = { status: jest.fn().mockReturnThis(), json: jest.fn().mockReturnThis() };
+    next = jest.fn();
+  });
+
+  afterEach(() => {
+    process.env.JWT_SECRET = originalSecret;
+  });
+
+  it('accepts a token of an active session', async () => {
+    userSession.findUnique.mockResolvedValue(activeSession());
+    const req = request(sign({ sid: 'session-1' }));
+
+    await authenticate(req, res as unknown as Response, next);
+
+    expect(next).toHaveBeenCalled();
+    expect(req.user).toMatchObject({ id: 7, sessionId: 'session-1' });
+  });
+
+  it('rejects tokens that were not issued for a session', async () => {
+    await authenticate(request(sign({})), res as unknown as Response, next);
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(userSession.findUnique).not.toHaveBeenCalled();
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('rejects tokens issued before the password last changed', async () => {
+    const changedAt = new Date();
+    userSession.findUnique.mockResolvedValue(activeSession(changedAt));
+    const issued = Math.floor(changedAt.getTime() / 1000) - 60;
+
+    await authenticate(
+      request(sign({ sid: 'session-1' }, issued)),
+      res as unknown as Response,
+      next,
+    );
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+});
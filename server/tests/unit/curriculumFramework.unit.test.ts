@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import {
+  canManageFrameworks,
+  compareExpectations,
+  createFramework,
+  migratePlanToFramework,
+} from '../../src/services/curriculumFrameworkService';
+import { getMockedPrisma, resetPrismaMocks } from '../helpers/mock-prisma';
+
+const expectation = (id: string, code: string, description: string, strand = 'Number') => ({
+  id,
+  code,
+  description,
+  strand,
+});
+
+describe('curriculumFrameworkService Unit Tests', () => {
+  it('reports changed, removed and added expectations between versions', () => {
+    const crosswalk = compareExpectations(
+      [
+        expectation('a1', 'B1.1', 'Read and represent whole numbers up to and including 50'),
+        expectation('a2', 'B1.2', 'Compose and decompose whole numbers'),
+        expectation('a3', 'C1.1', 'Identify and describe repeating patterns', 'Algebra'),
+      ],
+      [
+        expectation('b1', 'b1.1', 'Read and represent whole  numbers up to and including 50'),
+        expectation('b2', 'B1.2', 'Compose and decompose whole numbers up to 50'),
+        expectation('b4', 'E1.1', 'Sort and identify two-dimensional shapes', 'Spatial Sense'),
+      ],
+    );
+
+    expect(crosswalk.unchanged).toBe(1);
+    expect(crosswalk.changed).toEqual([
+      expect.objectContaining({
+        code: 'B1.2',
+        from: expect.objectContaining({ id: 'a2' }),
+        to: expect.objectContaining({ id: 'b2' }),
+      }),
+    ]);
+    expect(crosswalk.removed.map((e) => e.code)).toEqual(['C1.1']);
+    expect(crosswalk.added.map((e) => e.code)).toEqual(['E1.1']);
+  });
+
+  describe('migratePlanToFramework', () => {
+    const prisma = getMockedPrisma();
+
+    beforeEach(() => {
+      resetPrismaMocks();
+      for (const model of [
+        'longRangePlanExpectation',
+        'unitPlanExpectation',
+        'eTFOLessonPlanExpectation',
+        'daybookEntryExpectation',
+        'assessment',
+      ]) {
+        prisma[model].findMany.mockResolvedValue([]);
+        prisma[model].update.mockResolvedValue({});
+        prisma[model].delete.mockResolvedValue({});
+      }
+      prisma.longRangePlan.findFirst.mockResolvedValue({
+        id: 'plan-1',
+        frameworkId: 'on-2005',
+        framework: { id: 'on-2005', version: '2005' },
+      });
+      prisma.longRangePlan.update.mockResolvedValue({});
+      prisma.curriculumFramework.findUnique.mockResolvedValue({ id: 'on-2020', version: '2020' });
+
+      prisma.longRangePlanExpectation.findMany.mockResolvedValue([
+        { longRangePlanId: 'plan-1', expectationId: 'old-n1', plannedTerm: 'Term 1' },
+        { longRangePlanId: 'plan-1', expectationId: 'old-p1', plannedTerm: null },
+      ]);
+      // The unit already links the new N1 as well as the old one
+      prisma.unitPlanExpectation.findMany.mockResolvedValue([
+        { unitPlanId: 'unit-1', expectationId: 'old-n1' },
+        { unitPlanId: 'unit-1', expectationId: 'new-n1' },
+      ]);
+      prisma.assessment.findMany.mockResolvedValue([
+        { id: 'as-1', lessonPlanId: 'lesson-1', studentId: 4, expectationId: 'old-n1' },
+      ]);
+      prisma.curriculumExpectation.findMany.mockImplementation(
+        async ({ where }: { where: { frameworkId?: string } }) => {
+          if (where.frameworkId === 'on-2020') {
+            return [expectation('new-n1', 'N1', 'Count to 50 and represent numbers to 50')];
+          }
+          if (where.frameworkId === 'on-2005') {
+            return [
+              expectation('old-n1', 'N1', 'Count to 50 and represent numbers to 20'),
+              expectation('old-p1', 'P1', 'Identify patterns', 'Patterning'),
+            ];
+          }
+          return [
+            { ...expectation('old-n1', 'N1', 'Count to 50'), frameworkId: 'on-2005' },
+            { ...expectation('old-p1', 'P1', 'Identify patterns'), frameworkId: 'on-2005' },
+            { ...expectation('new-n1', 'N1', 'Count to 50'), frameworkId: 'on-2020' },
+          ];
+        },
+      );
+    });
+
+    it('previews the crosswalk and link changes without writing', async () => {
+      const migration = await migratePlanToFramework(1, 'plan-1', 'on-2020', false);
+
+      expect(migration.applied).toBe(false);
+      expect(migration.crosswalk.changed.map((c) => c.code)).toEqual(['N1']);
+      expect(migration.crosswalk.removed.map((e) => e.code)).toEqual(['P1']);
+      expect(migration.unmatched.map((e) => e.code)).toEqual(['P1']);
+      expect(migration.links).toEqual({ moved: 2, merged: 1, kept: 1 });
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('re-points matched links and records the new framework on the plan', async () => {
+      await migratePlanToFramework(1, 'plan-1', 'on-2020', true);
+
+      expect(prisma.longRangePlanExpectation.update).toHaveBeenCalledWith({
+        where: {
+          longRangePlanId_expectationId: { longRangePlanId: 'plan-1', expectationId: 'old-n1' },
+        },
+        data: { expectationId: 'new-n1' },
+      });
+      expect(prisma.unitPlanExpectation.delete).toHaveBeenCalledWith({
+        where: { unitPlanId_expectationId: { unitPlanId: 'unit-1', expectationId: 'old-n1' } },
+      });
+      expect(prisma.unitPlanExpectation.update).not.toHaveBeenCalled();
+      expect(prisma.assessment.update).toHaveBeenCalledWith({
+        where: { id: 'as-1' },
+        data: { expectationId: 'new-n1' },
+      });
+      expect(prisma.longRangePlan.update).toHaveBeenCalledWith({
+        where: { id: 'plan-1' },
+        data: { frameworkId: 'on-2020' },
+      });
+    });
+  });
+
+  describe('createFramework', () => {
+    const { curriculumFramework, user } = getMockedPrisma();
+
+    beforeEach(() => {
+      resetPrismaMocks();
+      curriculumFramework.findUnique.mockResolvedValue(null);
+      curriculumFramework.create.mockImplementation(async ({ data }: { data: object }) => ({
+        id: 'fw-new',
+        ...data,
+      }));
+      user.findUnique.mockImplementation(async ({ where }: { where: { id: number } }) =>
+        where.id === 1 ? { role: 'ADMIN' } : { role: 'teacher' },
+      );
+    });
+
+    it('keeps documents for different grade bands apart', async () => {
+      await createFramework({
+        jurisdiction: 'ON',
+        subject: 'Mathematics',
+        gradeMin: 9,
+        gradeMax: 12,
+        version: '2020',
+        language: 'en',
+        title: 'Mathematics 9-12',
+      });
+
+      expect(curriculumFramework.findUnique).toHaveBeenCalledWith({
+        where: {
+          jurisdiction_subject_gradeMin_gradeMax_version_language: {
+            jurisdiction: 'ON',
+            subject: 'Mathematics',
+            gradeMin: 9,
+            gradeMax: 12,
+            version: '2020',
+            language: 'en',
+          },
+        },
+      });
+      expect(curriculumFramework.create).toHaveBeenCalled();
+    });
+
+    it('only lets administrators manage frameworks', async () => {
+      expect(await canManageFrameworks(1)).toBe(true);
+      expect(await canManageFrameworks(2)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { Readable } from 'stream';
+import unzipper from 'unzipper';
+import {
+  CurriculumPackageError,
+  MAX_PACKAGE_JSON_BYTES,
+  exportCurriculumPackage,
+  importCurriculumPackage,
+  previewCurriculumPackage,
+  readCurriculumPackage,
+  zipCurriculumPackage,
+} from '../../src/services/curriculumPackageService';
+import { getMockedPrisma, resetPrismaMocks } from '../helpers/mock-prisma';
+
+const framework = {
+  id: 'fw-1',
+  jurisdiction: 'ON',
+  subject: 'Mathematics',
+  gradeMin: 1,
+  gradeMax: 8,
+  version: '2020',
+  language: 'en',
+  title: 'Mathematics, Grades 1-8',
+  effectiveFrom: new Date('2020-09-01T00:00:00.000Z'),
+  effectiveTo: null,
+};
+
+const row = (id: string, code: string, description: string, substrand: string | null = null) => ({
+  id,
+  code,
+  description,
+  descriptionFr: `${description} (fr)`,
+  strand: 'Number',
+  strandFr: 'Nombre',
+  substrand,
+  substrandFr: substrand ? 'Nombres naturels' : null,
+  grade: 1,
+  subject: 'Mathematics',
+  importId: 'import-1',
+  embedding: null,
+});
+
+describe('curriculumPackageService Unit Tests', () => {
+  const client = getMockedPrisma();
+
+  beforeEach(() => {
+    resetPrismaMocks();
+    client.curriculumFramework.findUnique.mockResolvedValue(framework);
+    client.curriculumFramework.update.mockResolvedValue(framework);
+    client.curriculumExpectation.findMany.mockResolvedValue([
+      row('e1', 'B1.1', 'Read and represent whole numbers', 'Whole Numbers'),
+      row('e2', 'B1.2', 'Compose and decompose whole numbers'),
+    ]);
+    client.curriculumExpectation.update.mockResolvedValue({});
+    client.curriculumExpectation.create.mockResolvedValue({ id: 'e3' });
+    client.expectationCluster.findMany.mockResolvedValue([
+      {
+        clusterName: 'Counting',
+        clusterType: 'skill',
+        expectationIds: ['e1', 'other-framework'],
+        confidence: 0.8,
+        suggestedTheme: null,
+      },
+    ]);
+    client.expectationCluster.create.mockResolvedValue({});
+    client.curriculumImport.create.mockResolvedValue({ id: 'import-2' });
+    client.curriculumImport.findMany.mockResolvedValue([]);
+    client.curriculumExpectationEmbedding.upsert.mockResolvedValue({});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('exports a checksummed bilingual package that reads back from a ZIP', async () => {
+    const pkg = await exportCurriculumPackage('fw-1', { publishedBy: 'Board curriculum team' });
+
+    expect(pkg.framework).toMatchObject({
+      jurisdiction: 'ON',
+      version: '2020',
+      effectiveFrom: '2020-09-01T00:00:00.000Z',
+    });
+    expect(pkg.strands).toEqual([
+      {
+        name: 'Number',
+        nameFr: 'Nombre',
+        substrands: [{ name: 'Whole Numbers', nameFr: 'Nombres naturels' }],
+      },
+    ]);
+    expect(pkg.expectations[0]).toMatchObject({
+      code: 'B1.1',
+      descriptionFr: 'Read and represent whole numbers (fr)',
+    });
+    expect(pkg.clusters).toEqual([
+      { name: 'Counting', type: 'skill', expectationCodes: ['B1.1'], confidence: 0.8 },
+    ]);
+    expect(pkg.checksum).toMatch(/^[0-9a-f]{64}$/);
+
+    const roundTrip = await readCurriculumPackage(await zipCurriculumPackage(pkg));
+    expect(roundTrip).toEqual(pkg);
+
+    const tampered = { ...pkg, expectations: [{ ...pkg.expectations[0], description: 'Changed' }] };
+    await expect(
+      readCurriculumPackage(Buffer.from(JSON.stringify({ ...tampered, clusters: [] }))),
+    ).rejects.toThrow('do not match its checksum');
+    await expect(
+      readCurriculumPackage(Buffer.from(JSON.stringify({ ...pkg, strands: [] }))),
+    ).rejects.toThrow(CurriculumPackageError);
+  });
+
+  it('previews changes against the installed framework and installs the package', async () => {
+    const pkg = await exportCurriculumPackage('fw-1');
+    const incoming = {
+      ...pkg,
+      checksum: undefined,
+      expectations: [
+        { ...pkg.expectations[0], description: 'Read, represent and compare whole numbers' },
+        { ...pkg.expectations[1], code: 'B1.3', embedding: { model: 'm', vector: [0.1, 0.2] } },
+      ],
+      clusters: [],
+    };
+
+    const preview = await previewCurriculumPackage(incoming);
+    expect(preview.existingFrameworkId).toBe('fw-1');
+    expect(preview.integrityChecked).toBe(false);
+    expect(preview.diff.changed.map((c) => c.code)).toEqual(['B1.1']);
+    expect(preview.diff.removed.map((e) => e.code)).toEqual(['B1.2']);
+    expect(preview.diff.added.map((e) => e.code)).toEqual(['B1.3']);
+
+    const result = await importCurriculumPackage(7, incoming);
+    expect(result).toEqual({
+      frameworkId: 'fw-1',
+      importId: 'import-2',
+      created: 1,
+      updated: 1,
+      retained: 1,
+      clusters: 0,
+      embeddings: 1,
+    });
+    expect(client.curriculumExpectation.update).toHaveBeenCalledWith({
+      where: { id: 'e1' },
+      data: expect.objectContaining({
+        description: 'Read, represent and compare whole numbers',
+        frameworkId: 'fw-1',
+      }),
+    });
+    // Updated rows stay with the import that created them
+    expect(client.curriculumExpectation.update.mock.calls[0][0]).not.toHaveProperty(
+      'data.importId',
+    );
+    expect(client.curriculumExpectation.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ code: 'B1.3', importId: 'import-2' }),
+    });
+    expect(client.curriculumFramework.update).not.toHaveBeenCalled();
+    expect(client.curriculumExpectationEmbedding.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { expectationId: 'e3' } }),
+    );
+  });
+
+  it('reports changes to French text, substrands and grades, not only wording', async () => {
+    const pkg = await exportCurriculumPackage('fw-1');
+    const preview = await previewCurriculumPackage({
+      ...pkg,
+      expectations: [
+        { ...pkg.expectations[0], descriptionFr: 'Lire et représenter les nombres naturels' },
+        { ...pkg.expectations[1], substrand: 'Fractions', grade: 2 },
+      ],
+    });
+
+    expect(preview.diff.unchanged).toBe(0);
+    expect(preview.diff.changed.map((c) => c.code)).toEqual(['B1.1', 'B1.2']);
+  });
+
+  it('refuses ZIP entries that expand past the size limit', async () => {
+    const zip = await zipCurriculumPackage(await exportCurriculumPackage('fw-1'));
+    const chunk = Buffer.alloc(1024 * 1024);
+    const entry = (uncompressedSize: number) => ({
+      path: 'curriculum.json',
+      uncompressedSize,
+      stream: () =>
+        Readable.from(
+          (function* () {
+            for (let i = 0; i <= MAX_PACKAGE_JSON_BYTES / chunk.length; i++) yield chunk;
+          })(),
+        ),
+    });
+    const open = jest.spyOn(unzipper.Open, 'buffer');
+
+    open.mockResolvedValueOnce({ files: [entry(MAX_PACKAGE_JSON_BYTES + 1)] } as never);
+    await expect(readCurriculumPackage(zip)).rejects.toThrow('curriculum.json is larger than');
+
+    // The directory can understate the size; the bytes are counted too
+    open.mockResolvedValueOnce({ files: [entry(10)] } as never);
+    await expect(readCurriculumPackage(zip)).rejects.toThrow('curriculum.json is larger than');
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import type { EmailTransport, OutgoingEmail } from '../../src/services/emailTransport';
+import { PermanentEmailError } from '../../src/services/emailTransport';
+
+import {
+  composeBilingualEmail,
+  processOutbox,
+  retryDelay,
+  setEmailTransport,
+  MAX_DELIVERY_ATTEMPTS,
+} from '../../src/services/emailService';
+import { getMockedPrisma, resetPrismaMocks } from '../helpers/mock-prisma';
+
+describe('EmailService Unit Tests', () => {
+  describe('composeBilingualEmail', () => {
+    const content = {
+      en: { subject: 'Class news', text: 'Hello families' },
+      fr: { subject: 'Nouvelles de la classe', text: 'Bonjour aux familles' },
+    };
+
+    it('puts the preferred language first in every part', () => {
+      const email = composeBilingualEmail(content, 'fr');
+      expect(email.subject).toBe('Nouvelles de la classe / Class news');
+      expect(email.text.indexOf('Bonjour')).toBeLessThan(email.text.indexOf('Hello'));
+      expect(email.html).toMatch(/^<div lang="fr">/);
+    });
+
+    it('builds escaped HTML from the text when none is given', () => {
+      const email = composeBilingualEmail({ en: { subject: 'S', text: 'Fish & chips\n\n<b>' } });
+      expect(email.html).toBe('<p>Fish &amp; chips</p>\n<p>&lt;b&gt;</p>');
+    });
+  });
+
+  describe('retryDelay', () => {
+    it('doubles each attempt and caps at an hour', () => {
+      expect(retryDelay(1)).toBe(60 * 1000);
+      expect(retryDelay(3)).toBe(4 * 60 * 1000);
+      expect(retryDelay(20)).toBe(60 * 60 * 1000);
+    });
+  });
+
+  describe('processOutbox', () => {
+    const { emailDelivery } = getMockedPrisma();
+    const now = new Date('2026-10-19T12:00:00Z');
+    let sent: OutgoingEmail[];
+    let send: jest.Mock<(email: OutgoingEmail) => Promise<{ messageId: string }>>;
+
+    const queued = (overrides: Record<string, unknown> = {}) => ({
+      id: 'd1',
+      to: 'parent@example.com',
+      subject: 'Newsletter',
+      textBody: 'Hello',
+      htmlBody: null,
+      attachments: [{ filename: 'newsletter.pdf', content: Buffer.from('pdf').toString('base64') }],
+      attempts: 0,
+      nextAttemptAt: now,
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      resetPrismaMocks();
+      sent = [];
+      send = jest.fn(async (email: OutgoingEmail) => {
+        sent.push(email);
+        return { messageId: '<m1@test>' };
+      });
+      const transport: EmailTransport = { name: 'test', send };
+      setEmailTransport(transport);
+
+      emailDelivery.update.mockResolvedValue({});
+      emailDelivery.updateMany.mockResolvedValue({ count: 1 });
+    });
+
+    afterEach(() => {
+      setEmailTransport(null);
+    });
+
+    it('sends due deliveries with their attachments and marks them sent', async () => {
+      emailDelivery.findMany.mockResolvedValue([queued()]);
+
+      const result = await processOutbox(20, now);
+
+      expect(result).toEqual({ sent: 1, retrying: 0, failed: 0 });
+      expect(sent[0].attachments?.[0].content.toString()).toBe('pdf');
+      expect(emailDelivery.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ status: 'sent', attempts: 1, transport: 'test' }),
+        }),
+      );
+    });
+
+    it('requeues transient failures with backoff', async () => {
+      emailDelivery.findMany.mockResolvedValue([queued({ attempts: 1 })]);
+      send.mockRejectedValueOnce(new Error('Connection timed out'));
+
+      const result = await processOutbox(20, now);
+
+      expect(result.retrying).toBe(1);
+      expect(emailDelivery.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            status: 'queued',
+            attempts: 2,
+            lastError: 'Connection timed out',
+            nextAttemptAt: new Date(now.getTime() + retryDelay(2)),
+          }),
+        }),
+      );
+    });
+
+    it('fails permanently rejected or exhausted deliveries', async () => {
+      emailDelivery.findMany.mockResolvedValue([
+        queued({ id: 'bounced' }),
+        queued({ id: 'exhausted', attempts: MAX_DELIVERY_ATTEMPTS - 1 }),
+      ]);
+      send
+        .mockRejectedValueOnce(new PermanentEmailError('550 No such user'))
+        .mockRejectedValueOnce(new Error('Connection timed out'));
+
+      const result = await processOutbox(20, now);
+
+      expect(result.failed).toBe(2);
+      const statuses = emailDelivery.update.mock.calls.map(
+        (call) => (call[0] as { data: { status: string } }).data.status,
+      );
+      expect(statuses).toEqual(['failed', 'failed']);
+    });
+
+    it('skips deliveries another run has already claimed', async () => {
+      emailDelivery.findMany.mockResolvedValue([queued()]);
+      emailDelivery.updateMany
+        .mockResolvedValueOnce({ count: 0 })
+        .mockResolvedValueOnce({ count: 0 });
+
+      const result = await processOutbox(20, now);
+
+      expect(result.sent).toBe(0);
+      expect(send).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import {
+  canUsePortal,
+  getPortalEntries,
+  GuardianPortalError,
+  publishPortalItem,
+  signInWithPortalLink,
+} from '../../src/services/guardianPortalService';
+import { getMockedPrisma, resetPrismaMocks } from '../helpers/mock-prisma';
+
+describe('guardianPortalService Unit Tests', () => {
+  const { student, portalItem, parentSummary, newsletter, studentArtifact, guardianAccessToken } =
+    getMockedPrisma();
+
+  beforeEach(() => {
+    resetPrismaMocks();
+    portalItem.findMany.mockResolvedValue([]);
+    portalItem.upsert.mockResolvedValue({ id: 'item-1' });
+    parentSummary.findMany.mockResolvedValue([]);
+    parentSummary.count.mockResolvedValue(0);
+    newsletter.findMany.mockResolvedValue([]);
+    newsletter.findFirst.mockResolvedValue(null);
+    studentArtifact.findMany.mockResolvedValue([]);
+    studentArtifact.count.mockResolvedValue(0);
+    guardianAccessToken.findUnique.mockResolvedValue(null);
+    student.findUnique.mockResolvedValue({ userId: 1 });
+  });
+
+  describe('canUsePortal', () => {
+    it('requires an address and permission to receive communications', () => {
+      expect(canUsePortal({ receivesCommunications: true, email: 'parent@example.com' })).toBe(
+        true,
+      );
+      expect(canUsePortal({ receivesCommunications: false, email: 'parent@example.com' })).toBe(
+        false,
+      );
+      expect(canUsePortal({ receivesCommunications: true, email: '  ' })).toBe(false);
+    });
+  });
+
+  describe('signInWithPortalLink', () => {
+    it('refuses expired and used links', async () => {
+      guardianAccessToken.findUnique.mockResolvedValueOnce({
+        usedAt: null,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+      await expect(signInWithPortalLink('expired')).rejects.toBeInstanceOf(GuardianPortalError);
+
+      guardianAccessToken.findUnique.mockResolvedValueOnce({
+        usedAt: new Date(),
+        expiresAt: new Date(Date.now() + 60_000),
+      });
+      await expect(signInWithPortalLink('used')).rejects.toBeInstanceOf(GuardianPortalError);
+    });
+  });
+
+  describe('getPortalEntries', () => {
+    it('shows published items in the guardian language and skips drafts', async () => {
+      const publishedAt = new Date('2025-03-01');
+      portalItem.findMany.mockResolvedValue([
+        { itemType: 'newsletter', itemId: 'news-1', publishedAt },
+        { itemType: 'parent-summary', itemId: '5', publishedAt },
+        { itemType: 'parent-summary', itemId: '6', publishedAt },
+      ]);
+      newsletter.findMany.mockResolvedValue([
+        {
+          id: 'news-1',
+          title: 'March news',
+          titleFr: 'Nouvelles de mars',
+          dateFrom: publishedAt,
+          dateTo: publishedAt,
+          sections: [
+            {
+              title: 'Math',
+              titleFr: 'Maths',
+              content: 'Fractions',
+              contentFr: 'Fractions',
+              order: 2,
+            },
+            { title: 'Art', titleFr: 'Arts', content: 'Paint', contentFr: 'Peinture', order: 1 },
+          ],
+        },
+      ]);
+      // Summary 6 went back to draft, so the query does not return it
+      parentSummary.findMany.mockResolvedValue([
+        {
+          id: 5,
+          dateFrom: publishedAt,
+          dateTo: publishedAt,
+          contentEn: 'Hello',
+          contentFr: 'Bonjour',
+        },
+      ]);
+
+      const entries = await getPortalEntries(3, 'fr');
+
+      expect(entries).toHaveLength(2);
+      expect(entries[0]).toMatchObject({
+        type: 'newsletter',
+        title: 'Nouvelles de mars',
+        sections: [
+          { title: 'Arts', content: 'Peinture' },
+          { title: 'Maths', content: 'Fractions' },
+        ],
+      });
+      expect(entries[1]).toMatchObject({ type: 'parent-summary', content: 'Bonjour' });
+      expect(parentSummary.findMany).toHaveBeenCalledWith({
+        where: { id: { in: [5, 6] }, studentId: 3, isDraft: false },
+      });
+    });
+  });
+
+  describe('publishPortalItem', () => {
+    it('only publishes newsletters that include the student', async () => {
+      newsletter.findFirst.mockResolvedValue({ studentIds: [4, 5] });
+      await expect(
+        publishPortalItem({ id: 3, userId: 1 }, 'newsletter', 'news-1'),
+      ).resolves.toBeNull();
+
+      newsletter.findFirst.mockResolvedValue({ studentIds: [3, 4] });
+      await expect(
+        publishPortalItem({ id: 3, userId: 1 }, 'newsletter', 'news-1'),
+      ).resolves.toEqual({ id: 'item-1' });
+      expect(portalItem.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          create: { studentId: 3, itemType: 'newsletter', itemId: 'news-1' },
+        }),
+      );
+    });
+
+    it('refuses draft summaries', async () => {
+      await expect(
+        publishPortalItem({ id: 3, userId: 1 }, 'parent-summary', '5'),
+      ).resolves.toBeNull();
+      expect(parentSummary.count).toHaveBeenCalledWith({
+        where: { id: 5, studentId: 3, isDraft: false },
+      });
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from '@jest/globals';
+import type { Guardian } from '@teaching-engine/database';
+import { planGuardianDelivery } from '../../src/services/guardianService';
+
+const guardian = (overrides: Partial<Guardian>): Guardian =>
+  ({
+    id: 'g-1',
+    studentId: 1,
+    name: 'Marie Tremblay',
+    relationship: 'mother',
+    email: 'marie@example.com',
+    phone: null,
+    preferredLanguage: 'fr',
+    contactMethod: 'email',
+    isPrimary: true,
+    receivesCommunications: true,
+    restrictionNotes: null,
+    ...overrides,
+  }) as Guardian;
+
+describe('guardianService Unit Tests', () => {
+  describe('planGuardianDelivery', () => {
+    it('emails each guardian in their preferred language', () => {
+      const { recipients, skipped } = planGuardianDelivery([
+        guardian({}),
+        guardian({
+          id: 'g-2',
+          name: 'Sam Lee',
+          email: 'Sam@Example.com ',
+          preferredLanguage: 'en',
+        }),
+      ]);
+
+      expect(recipients.map(({ email, language }) => ({ email, language }))).toEqual([
+        { email: 'marie@example.com', language: 'fr' },
+        { email: 'sam@example.com', language: 'en' },
+      ]);
+      expect(skipped).toEqual([]);
+    });
+
+    it('skips restricted, phone, paper and address-less guardians with a reason', () => {
+      const { recipients, skipped } = planGuardianDelivery([
+        guardian({ id: 'g-1', receivesCommunications: false }),
+        guardian({ id: 'g-2', contactMethod: 'phone' }),
+        guardian({ id: 'g-3', contactMethod: 'paper' }),
+        guardian({ id: 'g-4', email: null }),
+      ]);
+
+      expect(recipients).toEqual([]);
+      expect(skipped.map(({ guardian, reason }) => [guardian.id, reason])).toEqual([
+        ['g-1', 'restricted'],
+        ['g-2', 'contact_by_phone'],
+        ['g-3', 'contact_by_paper'],
+        ['g-4', 'no_email'],
+      ]);
+    });
+
+    it('emails an address shared across siblings once', () => {
+      const { recipients } = planGuardianDelivery([
+        guardian({ id: 'g-1', studentId: 1 }),
+        guardian({ id: 'g-2', studentId: 2, preferredLanguage: 'en' }),
+      ]);
+
+      expect(recipients).toHaveLength(1);
+      expect(recipients[0].guardian.id).toBe('g-1');
+      expect(recipients[0].language).toBe('fr');
+    });
+  });
+});
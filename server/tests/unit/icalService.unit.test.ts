@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import {
+  buildIcs,
+  CalendarFeedError,
+  eventTypeFor,
+  parseIcs,
+  syncFeedEvents,
+} from '../../src/services/icalService';
+import { getMockedPrisma, resetPrismaMocks } from '../helpers/mock-prisma';
+
+const ics = (...events: string[][]) =>
+  ['BEGIN:VCALENDAR', 'VERSION:2.0', ...events.flat(), 'END:VCALENDAR'].join('\r\n');
+
+const boardCalendar = ics(
+  [
+    'BEGIN:VEVENT',
+    'UID:pd-1@board',
+    'SUMMARY:Journée pédagogique',
+    'CATEGORIES:PD Day',
+    'DTSTART;VALUE=DATE:20251010',
+    'DTEND;VALUE=DATE:20251011',
+    'END:VEVENT',
+  ],
+  [
+    'BEGIN:VEVENT',
+    'UID:break-1@board',
+    'SUMMARY:Winter Break',
+    'DTSTART;VALUE=DATE:20251222',
+    'DTEND;VALUE=DATE:20260103',
+    'END:VEVENT',
+  ],
+  [
+    'BEGIN:VEVENT',
+    'UID:assembly@board',
+    'SUMMARY:Morning assembly',
+    'DESCRIPTION:Gym\\, all classes',
+    'DTSTART;TZID=America/Toronto:20250905T090000',
+    'DTEND;TZID=America/Toronto:20250905T093000',
+    'RRULE:FREQ=WEEKLY;COUNT=3',
+    'EXDATE;TZID=America/Toronto:20250912T090000',
+    'END:VEVENT',
+  ],
+  [
+    'BEGIN:VEVENT',
+    'UID:cancelled@board',
+    'SUMMARY:Cancelled concert',
+    'STATUS:CANCELLED',
+    'DTSTART:20251120T180000Z',
+    'END:VEVENT',
+  ],
+);
+
+describe('icalService Unit Tests', () => {
+  const now = new Date('2025-09-01T12:00:00.000Z');
+
+  describe('parseIcs', () => {
+    it('imports events with their types, all-day spans and recurrences', () => {
+      const events = parseIcs(boardCalendar, now);
+
+      expect(events.map((e) => e.uid)).toEqual([
+        'assembly@board/2025-09-05T13:00:00.000Z',
+        'assembly@board/2025-09-19T13:00:00.000Z',
+        'pd-1@board',
+        'break-1@board',
+      ]);
+      expect(events[0]).toMatchObject({
+        title: 'Morning assembly',
+        description: 'Gym, all classes',
+        start: new Date('2025-09-05T13:00:00.000Z'),
+        end: new Date('2025-09-05T13:30:00.000Z'),
+        allDay: false,
+        eventType: 'ASSEMBLY',
+      });
+      expect(events[2]).toMatchObject({ allDay: true, eventType: 'PD_DAY' });
+      // The exclusive DTEND becomes the end of the last day
+      expect(events[3].end.getTime() - events[3].start.getTime()).toBe(12 * 86400000 - 1);
+      expect(events[3].eventType).toBe('HOLIDAY');
+    });
+
+    it('rejects files that are not calendars', () => {
+      expect(() => parseIcs('name,date\nFun fair,2025-06-01', now)).toThrow(CalendarFeedError);
+    });
+  });
+
+  it('maps categories before titles', () => {
+    expect(eventTypeFor(['Field Trip'], 'Science centre')).toBe('TRIP');
+    expect(eventTypeFor(['School'], 'Report cards go home')).toBe('REPORT_DEADLINE');
+    expect(eventTypeFor([], 'Pizza lunch')).toBe('CUSTOM');
+  });
+
+  describe('buildIcs', () => {
+    it('escapes text, folds long lines and writes exclusive all-day ends', () => {
+      const text = buildIcs(
+        'Ms. Tremblay',
+        [
+          {
+            uid: 'unit-1@teaching-engine',
+            title: 'Unit: Fractions; parts, wholes',
+            start: new Date(2025, 9, 6),
+            end: new Date(2025, 9, 17),
+            allDay: true,
+          },
+          {
+            uid: 'lesson-1@teaching-engine',
+            title: 'Mathematics: ' + 'Comparing fractions with number lines '.repeat(3),
+            start: new Date('2025-10-07T13:00:00.000Z'),
+            end: new Date('2025-10-07T14:00:00.000Z'),
+            allDay: false,
+            categories: ['Lesson'],
+          },
+        ],
+        now,
+      );
+      const lines = text.split('\r\n');
+
+      expect(text.endsWith('END:VCALENDAR\r\n')).toBe(true);
+      expect(lines).toContain('SUMMARY:Unit: Fractions\\; parts\\, wholes');
+      expect(lines).toContain('DTSTART;VALUE=DATE:20251006');
+      expect(lines).toContain('DTEND;VALUE=DATE:20251018');
+      expect(lines).toContain('DTSTART:20251007T130000Z');
+      expect(lines.every((line) => Buffer.byteLength(line) <= 75)).toBe(true);
+      expect(lines.some((line) => line.startsWith(' '))).toBe(true);
+    });
+
+    it('round-trips through the parser', () => {
+      const text = buildIcs(
+        'Class',
+        [
+          {
+            uid: 'event-4@teaching-engine',
+            title: 'Terry Fox Run',
+            description: 'Line 1\nLine 2',
+            start: new Date('2025-09-26T17:00:00.000Z'),
+            end: new Date('2025-09-26T18:30:00.000Z'),
+            allDay: false,
+            categories: ['Trip'],
+          },
+        ],
+        now,
+      );
+
+      expect(parseIcs(text, now)).toEqual([
+        {
+          uid: 'event-4@teaching-engine',
+          title: 'Terry Fox Run',
+          description: 'Line 1\nLine 2',
+          start: new Date('2025-09-26T17:00:00.000Z'),
+          end: new Date('2025-09-26T18:30:00.000Z'),
+          allDay: false,
+          eventType: 'TRIP',
+        },
+      ]);
+    });
+  });
+
+  describe('syncFeedEvents', () => {
+    const { calendarEvent, calendarFeed, $transaction: transaction } = getMockedPrisma();
+
+    beforeEach(() => {
+      resetPrismaMocks();
+      calendarEvent.upsert.mockImplementation(async (args: unknown) => args);
+      calendarEvent.deleteMany.mockImplementation(async (args: unknown) => args);
+      calendarFeed.update.mockImplementation(async (args: unknown) => args);
+    });
+
+    it('upserts by UID and removes events gone from the feed', async () => {
+      const result = await syncFeedEvents({ id: 3, teacherId: 9 }, boardCalendar, now);
+
+      expect(result).toEqual({ imported: 4 });
+      expect(calendarEvent.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { feedId_uid: { feedId: 3, uid: 'pd-1@board' } },
+          create: expect.objectContaining({
+            feedId: 3,
+            teacherId: 9,
+            source: 'ICAL_FEED',
+            eventType: 'PD_DAY',
+          }),
+        }),
+      );
+      expect(calendarEvent.deleteMany).toHaveBeenCalledWith({
+        where: {
+          feedId: 3,
+          uid: {
+            notIn: expect.arrayContaining(['pd-1@board', 'break-1@board']),
+          },
+        },
+      });
+      expect(transaction).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { countUnplannedLessons, runProgressCheck } from '../../src/jobs/progressCheck';
+import { termMidpoints } from '../../src/jobs/newsletterTrigger';
+import { notificationService } from '../../src/services/notificationService';
+import { getMockedPrisma, resetPrismaMocks } from '../helpers/mock-prisma';
+
+describe('Background job helpers', () => {
+  describe('countUnplannedLessons', () => {
+    it('counts the lessons needed to fill the remaining hour budget', () => {
+      // 10 hours budgeted, 4.5 hours planned, 60-minute lessons
+      expect(countUnplannedLessons(10, 270, 60)).toBe(6);
+    });
+
+    it('returns zero once the budget is met', () => {
+      expect(countUnplannedLessons(5, 300, 60)).toBe(0);
+      expect(countUnplannedLessons(5, 360, 60)).toBe(0);
+    });
+
+    it('has no target for units without an hour estimate', () => {
+      expect(countUnplannedLessons(null, 0, 60)).toBe(0);
+    });
+  });
+
+  describe('termMidpoints', () => {
+    it('finds the midpoint day of each configured term', () => {
+      const result = termMidpoints([
+        { name: 'Term 1', start: '2026-09-02', end: '2027-01-29' },
+        { name: 'Term 2', start: '2027-02-01', end: '2027-06-25' },
+      ]);
+      expect(result.map((m) => [m.term, m.date.toISOString().slice(0, 10)])).toEqual([
+        ['Term 1', '2026-11-15'],
+        ['Term 2', '2027-04-14'],
+      ]);
+    });
+
+    it('skips terms with invalid or reversed dates', () => {
+      expect(
+        termMidpoints([
+          { name: 'Broken', start: 'not-a-date', end: '2027-01-29' },
+          { name: 'Reversed', start: '2027-01-29', end: '2026-09-02' },
+        ]),
+      ).toEqual([]);
+    });
+  });
+
+  describe('runProgressCheck', () => {
+    const { unitPlan } = getMockedPrisma();
+    const unit = (id: string, endDate: string) => ({
+      id,
+      userId: 1,
+      title: `Unit ${id}`,
+      endDate: new Date(endDate),
+      estimatedHours: 10,
+      lessonPlans: [],
+      expectations: [],
+      user: { weeklyPlannerState: null },
+    });
+
+    beforeEach(() => {
+      resetPrismaMocks();
+      unitPlan.findMany.mockResolvedValue([
+        unit('a', '2026-03-09T20:00:00.000Z'),
+        unit('b', '2026-03-07T00:00:00.000Z'),
+        unit('c', '2026-03-05T12:00:00.000Z'),
+      ]);
+    });
+
+    it('reminds only on the reminder days, counted in UTC', async () => {
+      const send = jest
+        .spyOn(notificationService, 'sendTemplatedNotification')
+        .mockResolvedValue('notification-id');
+
+      await runProgressCheck(new Date('2026-03-02T23:30:00.000Z'));
+
+      expect(unitPlan.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            endDate: {
+              gte: new Date('2026-03-02T00:00:00.000Z'),
+              lt: new Date('2026-03-10T00:00:00.000Z'),
+            },
+          },
+        }),
+      );
+      expect(send.mock.calls.map(([, , , options]) => options?.metadata)).toEqual([
+        { unitPlanId: 'a' },
+        { unitPlanId: 'c' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { z } from 'zod';
+import {
+  LLMGateway,
+  FixtureProvider,
+  LLMOutputError,
+  LLMUnavailableError,
+  extractJSON,
+} from '../../src/services/llm';
+import { getMockedPrisma, resetPrismaMocks } from '../helpers/mock-prisma';
+
+describe('LLMGateway Unit Tests', () => {
+  const { llmUsage } = getMockedPrisma();
+  const envKeys = ['LLM_PROVIDER', 'LLM_AI_DRAFT_PROVIDER', 'LLM_AI_DRAFT_MODEL'];
+  const previousEnv = Object.fromEntries(envKeys.map((key) => [key, process.env[key]]));
+
+  let gateway: LLMGateway;
+  let fixtures: FixtureProvider;
+
+  beforeEach(() => {
+    envKeys.forEach((key) => delete process.env[key]);
+    resetPrismaMocks();
+    llmUsage.create.mockResolvedValue({});
+
+    fixtures = new FixtureProvider(8);
+    gateway = new LLMGateway();
+    gateway.setProvider('fixture', fixtures);
+  });
+
+  afterEach(() => {
+    envKeys.forEach((key) => {
+      if (previousEnv[key] === undefined) delete process.env[key];
+      else process.env[key] = previousEnv[key];
+    });
+  });
+
+  describe('extractJSON', () => {
+    it('strips code fences and surrounding prose', () => {
+      expect(extractJSON('```json\n{"a":1}\n```')).toEqual({ a: 1 });
+      expect(extractJSON('Here you go: [1, 2] Hope that helps')).toEqual([1, 2]);
+    });
+
+    it('throws when there is no JSON', () => {
+      expect(() => extractJSON('no json here')).toThrow('Reply does not contain JSON');
+    });
+  });
+
+  describe('getFeatureConfig', () => {
+    it('uses the fixture provider under test and honours per-feature env overrides', () => {
+      expect(gateway.getFeatureConfig('general').provider).toBe('fixture');
+
+      process.env.LLM_PROVIDER = 'openai';
+      process.env.LLM_AI_DRAFT_PROVIDER = 'local';
+      process.env.LLM_AI_DRAFT_MODEL = 'qwen2.5';
+
+      expect(gateway.getFeatureConfig('general')).toMatchObject({
+        provider: 'openai',
+        model: 'gpt-4o-mini',
+      });
+      expect(gateway.getFeatureConfig('ai_draft')).toMatchObject({
+        provider: 'local',
+        model: 'qwen2.5',
+      });
+    });
+
+    it('reports a feature as unavailable when its provider has no embeddings', () => {
+      gateway.configureFeature('embedding', { provider: null });
+      expect(gateway.isAvailable('embedding')).toBe(false);
+      return expect(gateway.embed(['text'])).rejects.toBeInstanceOf(LLMUnavailableError);
+    });
+  });
+
+  describe('complete', () => {
+    it('returns the newest matching fixture for the feature', async () => {
+      fixtures.addFixture({ feature: 'reflection_classifier', response: 'empathy' });
+      fixtures.addFixture({
+        feature: 'reflection_classifier',
+        match: 'shared',
+        response: 'empathy, cooperation',
+      });
+
+      await expect(
+        gateway.complete('reflection_classifier', { prompt: 'I shared my snack' }),
+      ).resolves.toBe('empathy, cooperation');
+      await expect(
+        gateway.complete('reflection_classifier', { prompt: 'I tried again' }),
+      ).resolves.toBe('empathy');
+      await expect(gateway.complete('general', { prompt: 'Hello' })).resolves.toBe(
+        '[fixture] Hello',
+      );
+    });
+
+    it('records token usage against the given user', async () => {
+      await gateway.complete('newsletter', { prompt: 'Write a newsletter', userId: 7 });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(llmUsage.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 7,
+          feature: 'newsletter',
+          provider: 'fixture',
+          success: true,
+        }),
+      });
+      const { data } = llmUsage.create.mock.calls[0][0] as { data: { totalTokens: number } };
+      expect(data.totalTokens).toBeGreaterThan(0);
+    });
+
+    it('does not fail the request when usage cannot be recorded', async () => {
+      llmUsage.create.mockRejectedValue(new Error('database is down'));
+      await expect(gateway.complete('general', { prompt: 'Hi' })).resolves.toBe('[fixture] Hi');
+    });
+  });
+
+  describe('completeJSON', () => {
+    const schema = z.object({ french: z.string(), english: z.string() });
+
+    it('retries with the validation errors until the reply matches the schema', async () => {
+      const complete = jest.spyOn(fixtures, 'complete');
+      fixtures.addFixture({ feature: 'parent_summary', response: '{"french": "Bonjour"}' });
+      fixtures.addFixture({
+        feature: 'parent_summary',
+        match: 'english: Required',
+        response: '```json\n{"french": "Bonjour", "english": "Hello"}\n```',
+      });
+
+      await expect(
+        gateway.completeJSON('parent_summary', { prompt: 'Summarise', schema }),
+      ).resolves.toEqual({ french: 'Bonjour', english: 'Hello' });
+
+      expect(complete).toHaveBeenCalledTimes(2);
+      const retry = complete.mock.calls[1][0];
+      expect(retry.jsonMode).toBe(true);
+      expect(retry.messages.map((m) => m.role)).toEqual(['user', 'assistant', 'user']);
+    });
+
+    it('throws LLMOutputError with the last reply once retries run out', async () => {
+      fixtures.addFixture({ feature: 'parent_summary', response: 'not json' });
+
+      const error = await gateway
+        .completeJSON('parent_summary', { prompt: 'Summarise', schema, retries: 1 })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(LLMOutputError);
+      expect((error as LLMOutputError).raw).toBe('not json');
+    });
+  });
+
+  describe('embed', () => {
+    it('returns deterministic unit vectors from the fixture provider', async () => {
+      const { vectors, model } = await gateway.embed(['fractions', 'fractions', 'poetry']);
+
+      expect(model).toBe('fixture-embedding');
+      expect(vectors[0]).toHaveLength(8);
+      expect(vectors[0]).toEqual(vectors[1]);
+      expect(vectors[0]).not.toEqual(vectors[2]);
+      const norm = Math.sqrt(vectors[2].reduce((sum, v) => sum + v * v, 0));
+      expect(norm).toBeCloseTo(1, 10);
+    });
+  });
+});
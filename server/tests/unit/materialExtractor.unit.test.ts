@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { extractWeeklyMaterials } from '../../src/services/materialExtractor';
+import { getMockedPrisma, resetPrismaMocks } from '../helpers/mock-prisma';
+
+const lesson = (overrides: Record<string, unknown>) => ({
+  id: 'lesson-1',
+  title: 'Fractions on a number line',
+  unitPlanId: 'unit-1',
+  date: new Date('2025-10-06T00:00:00.000Z'),
+  duration: 45,
+  materials: [],
+  resources: [],
+  unitPlan: { id: 'unit-1', title: 'Fractions', resources: [] },
+  ...overrides,
+});
+
+describe('materialExtractor Unit Tests', () => {
+  const { findMany } = getMockedPrisma().eTFOLessonPlan;
+
+  beforeEach(() => {
+    resetPrismaMocks();
+  });
+
+  it('builds a de-duplicated checklist for each day with quantities and prep time', async () => {
+    findMany.mockResolvedValue([
+      lesson({
+        materials: ['24 glue sticks', 'fraction strips (1 per student)', 'Chart paper'],
+        resources: [
+          {
+            id: 'r1',
+            title: 'Number line worksheet',
+            type: 'handout',
+            url: '/uploads/number-line.pdf',
+            content: null,
+          },
+        ],
+        unitPlan: {
+          id: 'unit-1',
+          title: 'Fractions',
+          resources: [
+            {
+              id: 'u1',
+              title: 'Fraction video',
+              type: 'video',
+              url: 'https://example.org/fractions',
+              notes: null,
+            },
+          ],
+        },
+      }),
+      lesson({
+        id: 'lesson-2',
+        title: 'Leaf collage',
+        materials: 'glue stick x 30; construction paper',
+      }),
+      lesson({
+        id: 'lesson-3',
+        title: 'Comparing fractions',
+        date: new Date('2025-10-07T00:00:00.000Z'),
+        materials: [],
+      }),
+    ]);
+
+    const week = await extractWeeklyMaterials('2025-10-06', 5, 9);
+
+    expect(findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          userId: 9,
+          date: {
+            gte: new Date('2025-10-06T00:00:00.000Z'),
+            lt: new Date('2025-10-11T00:00:00.000Z'),
+          },
+        },
+      }),
+    );
+    expect(week.map((d) => d.date)).toEqual([
+      '2025-10-06',
+      '2025-10-07',
+      '2025-10-08',
+      '2025-10-09',
+      '2025-10-10',
+    ]);
+
+    const monday = week[0].materials;
+    const glue = monday.byCategory.supplies.find((m) => m.name === 'glue sticks');
+    expect(glue).toMatchObject({
+      quantity: '30',
+      lessons: ['Fractions on a number line', 'Leaf collage'],
+    });
+    expect(monday.byCategory.supplies.filter((m) => /glue/.test(m.name))).toHaveLength(1);
+    expect(monday.byCategory.printable).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          name: 'Number line worksheet',
+          location: 'Printables bundle',
+          preparation: 'Print copies',
+          prepTime: 5,
+        }),
+      ]),
+    );
+    expect(monday.byCategory.digital).toEqual([
+      expect.objectContaining({
+        name: 'Fraction video',
+        location: 'https://example.org/fractions',
+      }),
+    ]);
+    expect(monday.byTimeSlot[0].materials.find((m) => m.name === 'fraction strips')?.quantity).toBe(
+      '1 per student',
+    );
+    expect(monday.summary.prepTime).toBeGreaterThan(0);
+
+    // Unit resources are listed once, on the first day of the unit
+    const tuesday = week[1].materials;
+    expect(tuesday.byCategory.digital).toEqual([]);
+    expect(tuesday.summary.missingItems).toEqual(['Comparing fractions has no materials listed']);
+    expect(week[2].materials.summary.totalItems).toBe(0);
+  });
+});
@@ -1,5 +1,10 @@
-import { describe, it, expect } from '@jest/globals';
-import { extractMaterials } from '../../src/services/materialGenerator';
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import {
+  extractMaterials,
+  generateMaterialList,
+  zipWeeklyPrintables,
+} from '../../src/services/materialGenerator';
+import { getMockedPrisma, resetPrismaMocks } from '../helpers/mock-prisma';
 
 describe('MaterialGenerator Unit Tests', () => {
   describe('extractMaterials', () => {
@@ -259,4 +264,74 @@ describe('MaterialGenerator Unit Tests', () => {
       // This test documents the current behavior
     });
   });
+
+  describe('weekly lists and printables', () => {
+    const { eTFOLessonPlan } = getMockedPrisma();
+    const unitPlan = {
+      id: 'unit-1',
+      title: 'Habitats',
+      resources: [
+        {
+          id: 'u1',
+          title: 'Habitat slideshow',
+          type: 'website',
+          url: 'https://example.org/habitats',
+        },
+      ],
+    };
+    const lessons = [
+      {
+        id: 'lesson-1',
+        title: 'Pond habitats',
+        unitPlanId: 'unit-1',
+        date: new Date('2025-10-06T00:00:00.000Z'),
+        duration: 50,
+        materials: ['hand lenses (1 per pair)', 'clipboards'],
+        resources: [
+          {
+            id: 'r1',
+            title: 'Pond: field sheet',
+            type: 'handout',
+            url: null,
+            content: 'Name: ____',
+          },
+        ],
+        unitPlan,
+      },
+      {
+        id: 'lesson-2',
+        title: 'Forest habitats',
+        unitPlanId: 'unit-1',
+        date: new Date('2025-10-07T00:00:00.000Z'),
+        duration: 50,
+        materials: ['Clipboards'],
+        resources: [],
+        unitPlan,
+      },
+    ];
+
+    beforeEach(() => {
+      resetPrismaMocks();
+      eTFOLessonPlan.findMany.mockResolvedValue(lessons);
+    });
+
+    it('lists each material once for the week', async () => {
+      const items = await generateMaterialList('2025-10-06', 1);
+
+      expect(items).toEqual(
+        expect.arrayContaining(['hand lenses (1 per pair)', 'clipboards', 'Pond: field sheet']),
+      );
+      expect(items.filter((item) => /clipboard/i.test(item))).toHaveLength(1);
+    });
+
+    it('zips inline handouts and lists online resources', async () => {
+      const zip = await zipWeeklyPrintables('2025-10-06', 1);
+      const listing = zip.toString('latin1');
+
+      expect(zip.subarray(0, 2).toString()).toBe('PK');
+      expect(listing).toContain('2025-10-06 Pond habitats/Pond- field sheet.txt');
+      expect(listing).toContain('links.txt');
+      expect(listing).not.toContain('Unit - Habitats/');
+    });
+  });
 });
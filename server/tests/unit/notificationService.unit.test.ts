@@ -0,0 +1,147 @@
+import { describe, it, expect, afterAll, afterEach, beforeEach, jest } from '@jest/globals';
+import { emailService } from '../../src/services/emailService';
+import { NotificationService } from '../../src/services/notificationService';
+import type { NotificationPreferences } from '../../src/services/notificationService';
+import { getMockedPrisma, resetPrismaMocks } from '../helpers/mock-prisma';
+
+describe('NotificationService Unit Tests', () => {
+  const service = new NotificationService();
+
+  afterAll(() => {
+    service.destroy();
+  });
+
+  const preferences: NotificationPreferences = {
+    userId: 1,
+    emailEnabled: true,
+    pushEnabled: false,
+    quietHours: { start: '22:00', end: '07:00', timeZone: 'America/Toronto' },
+    categories: {
+      milestone: { enabled: true, channels: ['in_app', 'email'] },
+      reminder: { enabled: true, channels: ['in_app'] },
+      activity: { enabled: false, channels: ['in_app'] },
+    },
+  };
+
+  // 12:00 and 23:30 in Toronto (UTC-4 in October)
+  const midday = new Date('2025-10-15T16:00:00.000Z');
+  const lateEvening = new Date('2025-10-16T03:30:00.000Z');
+
+  describe('filterChannelsByPreferences', () => {
+    it('drops channels the user has switched off globally', () => {
+      const result = service.filterChannelsByPreferences(
+        ['in_app', 'email', 'push'],
+        preferences,
+        'milestone',
+      );
+      expect(result).toEqual(['in_app', 'email']);
+    });
+
+    it('limits delivery to the channels chosen for the category', () => {
+      const result = service.filterChannelsByPreferences(
+        ['in_app', 'email'],
+        preferences,
+        'reminder',
+      );
+      expect(result).toEqual(['in_app']);
+    });
+
+    it('suppresses every channel for a disabled category', () => {
+      const result = service.filterChannelsByPreferences(
+        ['in_app', 'email'],
+        preferences,
+        'activity',
+      );
+      expect(result).toEqual([]);
+    });
+
+    it('keeps email during quiet hours, to be sent once they end', () => {
+      const result = service.filterChannelsByPreferences(
+        ['in_app', 'email'],
+        preferences,
+        'milestone',
+      );
+      expect(result).toEqual(['in_app', 'email']);
+    });
+  });
+
+  describe('quietHoursEnd', () => {
+    it('is null outside quiet hours', () => {
+      expect(service.quietHoursEnd(preferences.quietHours, midday)).toBeNull();
+    });
+
+    it("returns the end of quiet hours in the user's time zone", () => {
+      expect(service.quietHoursEnd(preferences.quietHours, lateEvening)).toEqual(
+        new Date('2025-10-16T11:00:00.000Z'),
+      );
+      // The same instant is 12:30 in Tokyo, so no quiet hours there
+      expect(
+        service.quietHoursEnd({ ...preferences.quietHours, timeZone: 'Asia/Tokyo' }, lateEvening),
+      ).toBeNull();
+    });
+
+    it('treats equal start and end as switched off', () => {
+      expect(
+        service.quietHoursEnd({ ...preferences.quietHours, start: '07:00' }, lateEvening),
+      ).toBeNull();
+    });
+  });
+
+  describe('sendNotification', () => {
+    const { notification, notificationPreference, user } = getMockedPrisma();
+    let sendEmail: ReturnType<typeof jest.spyOn>;
+
+    beforeEach(() => {
+      resetPrismaMocks();
+      jest.useFakeTimers({ now: lateEvening, doNotFake: ['setImmediate', 'nextTick'] });
+      notificationPreference.findUnique.mockResolvedValue(null);
+      notification.create.mockImplementation(async ({ data }: { data: object }) => ({
+        id: 'notification-1',
+        createdAt: lateEvening,
+        read: false,
+        readAt: null,
+        ...data,
+      }));
+      user.findUnique.mockResolvedValue({ email: 'teacher@example.com', name: 'Sam' });
+      sendEmail = jest.spyOn(emailService, 'sendEmail').mockResolvedValue(undefined);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    const send = (priority: 'medium' | 'urgent') =>
+      service.sendNotification(1, {
+        type: 'info',
+        title: 'Unit ends soon',
+        message: 'Plan the last lessons',
+        priority,
+        channels: ['in_app', 'email'],
+        category: 'milestone',
+      });
+
+    it('holds email back until quiet hours end instead of dropping it', async () => {
+      await send('medium');
+
+      expect(sendEmail).toHaveBeenCalledWith(
+        'teacher@example.com',
+        expect.any(String),
+        expect.any(String),
+        expect.any(String),
+        expect.objectContaining({ sendAfter: new Date('2025-10-16T11:00:00.000Z') }),
+      );
+    });
+
+    it('sends urgent email right away', async () => {
+      await send('urgent');
+
+      expect(sendEmail).toHaveBeenCalledWith(
+        'teacher@example.com',
+        expect.any(String),
+        expect.any(String),
+        expect.any(String),
+        expect.objectContaining({ sendAfter: undefined }),
+      );
+    });
+  });
+});
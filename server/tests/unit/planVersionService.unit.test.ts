@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import {
+  diffSnapshots,
+  getPlanAccess,
+  recordPlanVersion,
+} from '../../src/services/planVersionService';
+import { getMockedPrisma, resetPrismaMocks } from '../helpers/mock-prisma';
+
+describe('planVersionService Unit Tests', () => {
+  const { unitPlan, planVersion, sharedPlan, teamMember } = getMockedPrisma();
+
+  const unit = {
+    id: 'unit-1',
+    userId: 1,
+    title: 'Fractions',
+    bigIdeas: '<p>Parts of a whole</p>',
+    startDate: new Date('2025-01-06T00:00:00.000Z'),
+    createdAt: new Date('2025-01-01T00:00:00.000Z'),
+    updatedAt: new Date('2025-01-02T00:00:00.000Z'),
+    expectations: [
+      { unitPlanId: 'unit-1', expectationId: 'exp-b' },
+      { unitPlanId: 'unit-1', expectationId: 'exp-a' },
+    ],
+  };
+
+  beforeEach(() => {
+    resetPrismaMocks();
+    unitPlan.findUnique.mockResolvedValue(unit);
+    planVersion.findFirst.mockResolvedValue(null);
+    planVersion.create.mockImplementation(async (args: { data: unknown }) => args.data);
+    sharedPlan.findMany.mockResolvedValue([]);
+    teamMember.findMany.mockResolvedValue([{ teamId: 'team-1' }]);
+  });
+
+  describe('diffSnapshots', () => {
+    it('lists only the fields that changed', () => {
+      const changes = diffSnapshots(
+        { title: 'Fractions', bigIdeas: null, expectations: [{ expectationId: 'a' }] },
+        { title: 'Fractions', bigIdeas: 'Wholes', expectations: [] },
+      );
+
+      expect(changes).toEqual([
+        { field: 'bigIdeas', before: null, after: 'Wholes' },
+        { field: 'expectations', before: [{ expectationId: 'a' }], after: [] },
+      ]);
+    });
+  });
+
+  describe('recordPlanVersion', () => {
+    it('stores the plan content without bookkeeping fields', async () => {
+      await recordPlanVersion('unit', 'unit-1', 1, 'create');
+
+      const { data } = planVersion.create.mock.calls[0][0] as {
+        data: { versionNumber: number; content: Record<string, unknown> };
+      };
+      expect(data.versionNumber).toBe(1);
+      expect(data.content).toEqual({
+        title: 'Fractions',
+        bigIdeas: '<p>Parts of a whole</p>',
+        startDate: '2025-01-06T00:00:00.000Z',
+        expectations: [{ expectationId: 'exp-a' }, { expectationId: 'exp-b' }],
+      });
+    });
+
+    it('skips the write when nothing changed since the latest version', async () => {
+      await recordPlanVersion('unit', 'unit-1', 1, 'create');
+      const { data } = planVersion.create.mock.calls[0][0] as { data: unknown };
+      planVersion.findFirst.mockResolvedValue(data);
+
+      await recordPlanVersion('unit', 'unit-1', 1, 'update');
+      expect(planVersion.create).toHaveBeenCalledTimes(1);
+
+      await recordPlanVersion('unit', 'unit-1', 1, 'revert');
+      expect(planVersion.create).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('getPlanAccess', () => {
+    it('gives owners full access', async () => {
+      await expect(getPlanAccess('unit', 'unit-1', 1)).resolves.toEqual({
+        exists: true,
+        canView: true,
+        canEdit: true,
+      });
+      expect(sharedPlan.findMany).not.toHaveBeenCalled();
+    });
+
+    it('lets colleagues view shared plans and edit only with canEdit', async () => {
+      await expect(getPlanAccess('unit', 'unit-1', 2)).resolves.toMatchObject({ canView: false });
+
+      sharedPlan.findMany.mockResolvedValue([{ canEdit: false }]);
+      await expect(getPlanAccess('unit', 'unit-1', 2)).resolves.toMatchObject({
+        canView: true,
+        canEdit: false,
+      });
+
+      sharedPlan.findMany.mockResolvedValue([{ canEdit: false }, { canEdit: true }]);
+      await expect(getPlanAccess('unit', 'unit-1', 2)).resolves.toMatchObject({ canEdit: true });
+    });
+  });
+});
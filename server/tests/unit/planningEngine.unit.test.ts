@@ -1,5 +1,14 @@
 import { describe, it, expect } from '@jest/globals';
-import { filterAvailableBlocksByCalendar } from '../../src/services/planningEngine';
+import {
+  filterAvailableBlocksByCalendar,
+  planWeek,
+  expandEventsAcrossWeek,
+} from '../../src/services/planningEngine';
+import type {
+  DailyBlock,
+  SchedulableUnit,
+  WeekPlanningInput,
+} from '../../src/services/planningEngine';
 import type { TimetableSlot, CalendarEvent } from '@teaching-engine/database';
 
 describe('PlanningEngine Unit Tests', () => {
@@ -201,4 +210,166 @@ describe('PlanningEngine Unit Tests', () => {
       expect(result).toHaveLength(0);
     });
   });
+
+  describe('planWeek', () => {
+    // Week of Monday 2024-01-08
+    const weekStart = new Date('2024-01-08T00:00:00.000Z');
+
+    const block = (slotId: number, day: number, startMin = 540, subjectId = 1): DailyBlock => ({
+      slotId,
+      day,
+      startMin,
+      endMin: startMin + 60,
+      subjectId,
+    });
+
+    const unit = (overrides: Partial<SchedulableUnit> = {}): SchedulableUnit => ({
+      id: 'unit-1',
+      title: 'Fractions',
+      subject: 'Math',
+      startDate: new Date('2024-01-01T00:00:00.000Z'),
+      endDate: new Date('2024-01-26T00:00:00.000Z'),
+      estimatedHours: 9,
+      plannedMinutesBefore: 180,
+      lessonCount: 3,
+      uncoveredExpectationIds: ['exp-1', 'exp-2', 'exp-3'],
+      ...overrides,
+    });
+
+    const input = (overrides: Partial<WeekPlanningInput> = {}): WeekPlanningInput => ({
+      weekStart,
+      blocks: [block(1, 0), block(2, 1), block(3, 2), block(4, 3), block(5, 4)],
+      subjectNames: new Map([[1, ['math', 'mathematics']]]),
+      units: [unit()],
+      existingLessons: [],
+      pacingStrategy: 'strict',
+      preserveBuffer: false,
+      ...overrides,
+    });
+
+    it('should schedule a unit to its weekly share under strict pacing', () => {
+      // 540 budget - 180 planned = 360 minutes over 3 weeks -> 120 this week
+      const preview = planWeek(input());
+
+      const proposed = preview.slots.filter((s) => s.kind === 'proposed');
+      expect(proposed).toHaveLength(2);
+      expect(new Set(proposed.map((s) => s.day)).size).toBe(2);
+      expect(proposed[0].title).toBe('Fractions – Lesson 4');
+      expect(preview.units[0]).toMatchObject({ targetMinutes: 120, scheduledMinutes: 120 });
+      expect(preview.units[0].behindPace).toBe(false);
+    });
+
+    it('should fill spare matching blocks under relaxed pacing', () => {
+      const preview = planWeek(input({ pacingStrategy: 'relaxed' }));
+
+      expect(preview.slots.filter((s) => s.kind === 'proposed')).toHaveLength(5);
+      expect(preview.units[0].remainingMinutes).toBe(60);
+    });
+
+    it('should distribute uncovered expectations across proposed lessons', () => {
+      const preview = planWeek(input({ pacingStrategy: 'relaxed' }));
+      const assigned = preview.slots.flatMap((s) => s.expectationIds);
+
+      expect(assigned).toEqual(['exp-1', 'exp-2', 'exp-3']);
+      expect(preview.units[0].uncoveredExpectations).toBe(0);
+    });
+
+    it('should ignore blocks whose subject does not match the unit', () => {
+      const preview = planWeek(
+        input({
+          blocks: [block(1, 0, 540, 2), block(2, 1)],
+          subjectNames: new Map([
+            [1, ['math']],
+            [2, ['science']],
+          ]),
+        }),
+      );
+
+      const proposed = preview.slots.filter((s) => s.kind === 'proposed');
+      expect(proposed).toHaveLength(1);
+      expect(proposed[0].slotId).toBe(2);
+      expect(preview.units[0].behindPace).toBe(true);
+    });
+
+    it('should keep existing lessons in place and count them toward the target', () => {
+      const preview = planWeek(
+        input({
+          existingLessons: [
+            {
+              id: 'lesson-1',
+              title: 'Comparing fractions',
+              unitPlanId: 'unit-1',
+              date: new Date('2024-01-08T09:00:00.000Z'),
+              duration: 60,
+              subject: 'Math',
+            },
+          ],
+        }),
+      );
+
+      const existing = preview.slots.filter((s) => s.kind === 'existing');
+      expect(existing).toHaveLength(1);
+      expect(existing[0].slotId).toBe(1);
+      expect(preview.slots.filter((s) => s.kind === 'proposed')).toHaveLength(1);
+    });
+
+    it('should reserve one buffer block per day when preserveBuffer is set', () => {
+      const preview = planWeek(
+        input({
+          blocks: [block(1, 0), block(2, 0, 600)],
+          pacingStrategy: 'relaxed',
+          preserveBuffer: true,
+        }),
+      );
+
+      expect(preview.slots.filter((s) => s.kind === 'buffer')).toHaveLength(1);
+      expect(preview.slots.filter((s) => s.kind === 'proposed')).toHaveLength(1);
+    });
+
+    it('should not schedule a unit outside its date range', () => {
+      const preview = planWeek(
+        input({ units: [unit({ startDate: new Date('2024-01-10T00:00:00.000Z') })] }),
+      );
+
+      const days = preview.slots.filter((s) => s.kind === 'proposed').map((s) => s.day);
+      expect(days.every((day) => day >= 2)).toBe(true);
+    });
+
+    it('should schedule higher priority units first', () => {
+      const preview = planWeek(
+        input({
+          blocks: [block(1, 0)],
+          units: [unit(), unit({ id: 'unit-2', title: 'Geometry' })],
+          unitPriorities: new Map([['unit-2', 5]]),
+        }),
+      );
+
+      expect(preview.slots[0].unitPlanId).toBe('unit-2');
+    });
+  });
+
+  describe('expandEventsAcrossWeek', () => {
+    it('should split a multi-day event into one event per covered day', () => {
+      const weekStart = new Date('2024-03-11T00:00:00.000Z');
+      const marchBreak = {
+        id: 1,
+        title: 'March Break',
+        description: null,
+        start: new Date('2024-03-11T00:00:00.000Z'),
+        end: new Date('2024-03-15T23:59:00.000Z'),
+        allDay: true,
+        eventType: 'HOLIDAY',
+        source: 'MANUAL',
+        teacherId: null,
+        schoolId: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      } as CalendarEvent;
+
+      const expanded = expandEventsAcrossWeek([marchBreak], weekStart);
+
+      expect(expanded).toHaveLength(5);
+      expect(expanded.map((e) => (new Date(e.start).getUTCDay() + 6) % 7)).toEqual([0, 1, 2, 3, 4]);
+    });
+  });
 });
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import {
+  canModerateResource,
+  listBookmarks,
+  refreshAverageRating,
+  searchLibrary,
+} from '../../src/services/resourceLibraryService';
+import { getMockedPrisma, resetPrismaMocks } from '../helpers/mock-prisma';
+
+describe('resourceLibraryService Unit Tests', () => {
+  const {
+    resourceLibraryItem,
+    resourceRating,
+    resourceBookmark,
+    user,
+    schoolMembership,
+    boardMembership,
+    school,
+  } = getMockedPrisma();
+
+  beforeEach(() => {
+    resetPrismaMocks();
+    resourceLibraryItem.findMany.mockResolvedValue([]);
+    resourceLibraryItem.count.mockResolvedValue(0);
+    resourceLibraryItem.update.mockResolvedValue({});
+    resourceBookmark.findMany.mockResolvedValue([]);
+    user.findUnique.mockResolvedValue({ role: 'teacher' });
+    schoolMembership.findFirst.mockResolvedValue(null);
+    schoolMembership.findMany.mockResolvedValue([]);
+    boardMembership.findFirst.mockResolvedValue(null);
+    school.findMany.mockResolvedValue([{ id: 3 }]);
+  });
+
+  describe('searchLibrary', () => {
+    it('shows approved and own resources, hides superseded versions, and filters by grade', async () => {
+      resourceLibraryItem.findMany.mockResolvedValueOnce([{ previousVersionId: 'old-1' }]);
+
+      await searchLibrary(7, { grade: 4, frenchLevel: 'immersion', page: 2, limit: 10 });
+
+      const args = resourceLibraryItem.findMany.mock.calls[1][0] as Record<string, unknown>;
+      expect(args.where).toMatchObject({
+        AND: [{ OR: [{ isApproved: true }, { contributorId: 7 }] }, { id: { notIn: ['old-1'] } }],
+        gradeMin: { lte: 4 },
+        gradeMax: { gte: 4 },
+        frenchLevel: 'immersion',
+      });
+      expect(args).toMatchObject({ skip: 10, take: 10 });
+    });
+
+    it('matches curriculum codes case-insensitively and paginates the matches', async () => {
+      resourceLibraryItem.findMany.mockResolvedValueOnce([]).mockResolvedValueOnce([
+        { id: 'a', curriculumCodes: ['B2.1', 'B2.2'] },
+        { id: 'b', curriculumCodes: ['C1.1'] },
+        { id: 'c', curriculumCodes: ['b2.1'] },
+      ]);
+
+      const result = await searchLibrary(7, { curriculumCode: 'B2.1', limit: 1 });
+
+      expect(result.total).toBe(2);
+      expect(result.resources.map((resource) => resource.id)).toEqual(['a']);
+      expect(resourceLibraryItem.count).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refreshAverageRating', () => {
+    it('stores the average rounded to one decimal, or 0 without ratings', async () => {
+      resourceRating.aggregate.mockResolvedValueOnce({ _avg: { rating: 3.666 } });
+      await expect(refreshAverageRating('res-1')).resolves.toBe(3.7);
+      expect(resourceLibraryItem.update).toHaveBeenCalledWith({
+        where: { id: 'res-1' },
+        data: { averageRating: 3.7 },
+      });
+
+      resourceRating.aggregate.mockResolvedValueOnce({ _avg: { rating: null } });
+      await expect(refreshAverageRating('res-1')).resolves.toBe(0);
+    });
+  });
+
+  describe('listBookmarks', () => {
+    it('filters by tag and drops bookmarks whose resource is gone', async () => {
+      resourceBookmark.findMany.mockResolvedValue([
+        { id: 'bm-1', resourceId: 'res-1', tags: ['fractions'] },
+        { id: 'bm-2', resourceId: 'res-2', tags: ['fractions', 'term-2'] },
+        { id: 'bm-3', resourceId: 'res-3', tags: null },
+      ]);
+      resourceLibraryItem.findMany.mockResolvedValue([{ id: 'res-2', title: 'Fraction strips' }]);
+
+      const result = await listBookmarks(7, 'fractions');
+
+      expect(resourceLibraryItem.findMany).toHaveBeenCalledWith({
+        where: { id: { in: ['res-1', 'res-2'] } },
+      });
+      expect(result).toHaveLength(1);
+      expect(result[0]).toMatchObject({ id: 'bm-2', resource: { title: 'Fraction strips' } });
+    });
+  });
+
+  describe('canModerateResource', () => {
+    const resource = { contributorId: 12 };
+
+    it('allows moderators and admins only', async () => {
+      await expect(canModerateResource(7, resource)).resolves.toBe(false);
+
+      user.findUnique.mockResolvedValue({ role: 'MODERATOR' });
+      await expect(canModerateResource(7, resource)).resolves.toBe(true);
+
+      user.findUnique.mockResolvedValue({ role: 'ADMIN' });
+      await expect(canModerateResource(7, resource)).resolves.toBe(true);
+
+      user.findUnique.mockResolvedValue(null);
+      await expect(canModerateResource(7, resource)).resolves.toBe(false);
+    });
+
+    it('allows school admins for contributions from their own staff only', async () => {
+      schoolMembership.findFirst.mockResolvedValue({ id: 'membership-1' });
+      schoolMembership.findMany.mockResolvedValue([{ userId: 12 }, { userId: 7 }]);
+
+      await expect(canModerateResource(7, resource)).resolves.toBe(true);
+      await expect(canModerateResource(7, { contributorId: 40 })).resolves.toBe(false);
+      expect(schoolMembership.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { schoolId: { in: [3] } } }),
+      );
+    });
+  });
+});
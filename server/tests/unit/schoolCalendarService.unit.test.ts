@@ -0,0 +1,120 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  easterSunday,
+  getHolidays,
+  getSchoolYear,
+  parseAcademicYear,
+  schoolClosureEvents,
+  schoolYearStartFor,
+} from '../../src/services/schoolCalendarService';
+
+const dateOf = (holidays: { key: string; date: string }[], key: string) =>
+  holidays.find((h) => h.key === key)?.date;
+
+describe('schoolCalendarService Unit Tests', () => {
+  it('computes Easter Sunday', () => {
+    expect(easterSunday(2024).toISOString().slice(0, 10)).toBe('2024-03-31');
+    expect(easterSunday(2025).toISOString().slice(0, 10)).toBe('2025-04-20');
+    expect(easterSunday(2038).toISOString().slice(0, 10)).toBe('2038-04-25');
+  });
+
+  it('places rule-based holidays on the right dates', () => {
+    const on2025 = getHolidays('ON', 2025);
+    expect(dateOf(on2025, 'thanksgiving')).toBe('2025-10-13');
+    expect(dateOf(on2025, 'family-day')).toBe('2025-02-17');
+    expect(dateOf(on2025, 'good-friday')).toBe('2025-04-18');
+    expect(dateOf(on2025, 'victoria-day')).toBe('2025-05-19');
+    // May 25, 2026 is a Monday, so Victoria Day is the week before
+    expect(dateOf(getHolidays('ON', 2026), 'victoria-day')).toBe('2026-05-18');
+
+    const pe2026 = getHolidays('PE', 2026);
+    expect(dateOf(pe2026, 'islander-day')).toBe('2026-02-16');
+    expect(dateOf(pe2026, 'truth-and-reconciliation')).toBe('2026-09-30');
+    expect(dateOf(getHolidays('ON', 2026), 'truth-and-reconciliation')).toBeUndefined();
+  });
+
+  it('moves observed weekend holidays to the next free weekday', () => {
+    const holidays = getHolidays('BC', 2027);
+    expect(dateOf(holidays, 'christmas')).toBe('2027-12-27');
+    expect(dateOf(holidays, 'boxing-day')).toBe('2027-12-28');
+  });
+
+  it('builds an Ontario school year with two terms', () => {
+    const year = getSchoolYear('ON', 2025);
+
+    expect(year).toMatchObject({
+      academicYear: '2025-2026',
+      start: '2025-09-02',
+      end: '2026-06-25',
+    });
+    expect(year.breaks).toEqual([
+      expect.objectContaining({ key: 'winterBreak', start: '2025-12-22', end: '2026-01-02' }),
+      expect.objectContaining({ key: 'springBreak', start: '2026-03-16', end: '2026-03-20' }),
+    ]);
+    expect(year.terms).toEqual([
+      { name: 'Term 1', nameFr: 'Étape 1', start: '2025-09-02', end: '2026-01-30' },
+      { name: 'Term 2', nameFr: 'Étape 2', start: '2026-02-02', end: '2026-06-25' },
+    ]);
+    // Weekday holidays within the year, including those over the break
+    expect(year.holidays.map((h) => h.key)).toEqual([
+      'thanksgiving',
+      'christmas',
+      'boxing-day',
+      'new-year',
+      'family-day',
+      'good-friday',
+      'easter-monday',
+      'victoria-day',
+    ]);
+  });
+
+  it('opens the PEI year with PD days and ends term 2 at March Break', () => {
+    const year = getSchoolYear('PE', 2025);
+
+    expect(year.start).toBe('2025-09-04');
+    expect(year.pdDays.map((d) => d.date)).toEqual([
+      '2025-09-02',
+      '2025-09-03',
+      '2026-02-13',
+      '2026-06-26',
+    ]);
+    expect(year.terms.map((t) => [t.start, t.end])).toEqual([
+      ['2025-09-04', '2025-11-28'],
+      ['2025-12-01', '2026-03-13'],
+      ['2026-03-23', '2026-06-25'],
+    ]);
+  });
+
+  it('splits BC terms at winter and spring break', () => {
+    const year = getSchoolYear('BC', 2025);
+
+    expect(year.breaks[1]).toMatchObject({ start: '2026-03-16', end: '2026-03-27' });
+    expect(year.terms.map((t) => [t.start, t.end])).toEqual([
+      ['2025-09-02', '2025-12-19'],
+      ['2026-01-05', '2026-03-13'],
+      ['2026-03-30', '2026-06-25'],
+    ]);
+    expect(year.instructionalDays).toBeGreaterThan(180);
+  });
+
+  it('lists closed school days in a week as all-day events', () => {
+    const events = schoolClosureEvents(
+      'ON',
+      new Date('2026-03-30T00:00:00Z'),
+      new Date('2026-04-13T00:00:00Z'),
+    );
+
+    expect(events.map((e) => [e.title, e.start.toISOString().slice(0, 10)])).toEqual([
+      ['Good Friday', '2026-04-03'],
+      ['Easter Monday', '2026-04-06'],
+    ]);
+    expect(events.every((e) => e.allDay && e.eventType === 'HOLIDAY' && e.id < 0)).toBe(true);
+  });
+
+  it('maps dates and academic year labels to school years', () => {
+    expect(schoolYearStartFor(new Date('2026-03-01T00:00:00Z'))).toBe(2025);
+    expect(schoolYearStartFor(new Date('2026-07-15T00:00:00Z'))).toBe(2026);
+    expect(parseAcademicYear('2025-2026')).toBe(2025);
+    expect(parseAcademicYear('2025-2027')).toBeNull();
+  });
+});
@@ -0,0 +1,224 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import {
+  calendarEventScope,
+  canManageSchool,
+  getAdminRole,
+  inviteStaffMember,
+  respondToSchoolInvitation,
+} from '../../src/services/schoolService';
+import { buildSchoolCoverage } from '../../src/services/analytics/schoolCoverage';
+import { getMockedPrisma, resetPrismaMocks } from '../helpers/mock-prisma';
+
+describe('schoolService Unit Tests', () => {
+  const { user, school, schoolMembership, boardMembership, schoolInvitation, emailDelivery } =
+    getMockedPrisma();
+
+  beforeEach(() => {
+    resetPrismaMocks();
+    user.findUnique.mockResolvedValue({ role: 'teacher' });
+    user.create.mockResolvedValue({ id: 42 });
+    school.findMany.mockResolvedValue([]);
+    schoolMembership.findFirst.mockResolvedValue(null);
+    schoolMembership.findUnique.mockResolvedValue(null);
+    schoolMembership.findMany.mockResolvedValue([]);
+    schoolMembership.upsert.mockResolvedValue({ id: 'membership-1' });
+    boardMembership.findFirst.mockResolvedValue(null);
+    schoolInvitation.findUnique.mockResolvedValue(null);
+    schoolInvitation.upsert.mockResolvedValue({
+      id: 'invitation-1',
+      school: { id: 1, name: 'Maple PS' },
+      invitedBy: { id: 3, name: 'Principal', email: 'principal@example.com' },
+    });
+    schoolInvitation.update.mockResolvedValue({ id: 'invitation-1' });
+    emailDelivery.create.mockResolvedValue({ id: 'email-1', status: 'queued' });
+    emailDelivery.updateMany.mockResolvedValue({ count: 0 });
+    emailDelivery.findMany.mockResolvedValue([]);
+  });
+
+  describe('getAdminRole', () => {
+    it('prefers the board admin role', async () => {
+      await expect(getAdminRole(7)).resolves.toBeNull();
+
+      schoolMembership.findFirst.mockResolvedValue({ id: 'membership-1' });
+      await expect(getAdminRole(7)).resolves.toBe('SCHOOL_ADMIN');
+
+      boardMembership.findFirst.mockResolvedValue({ id: 'membership-2' });
+      await expect(getAdminRole(7)).resolves.toBe('BOARD_ADMIN');
+    });
+  });
+
+  describe('canManageSchool', () => {
+    it('limits school admins to the schools they administer', async () => {
+      schoolMembership.findFirst.mockResolvedValue({ id: 'membership-1' });
+      school.findMany.mockResolvedValue([{ id: 1 }]);
+
+      await expect(canManageSchool(7, 1)).resolves.toBe(true);
+      await expect(canManageSchool(7, 2)).resolves.toBe(false);
+    });
+
+    it('refuses teachers and lets platform admins through', async () => {
+      await expect(canManageSchool(7, 1)).resolves.toBe(false);
+
+      user.findUnique.mockResolvedValue({ role: 'ADMIN' });
+      await expect(canManageSchool(7, 1)).resolves.toBe(true);
+    });
+  });
+
+  describe('calendarEventScope', () => {
+    it('includes only the calendars of schools the teacher belongs to', async () => {
+      schoolMembership.findMany.mockResolvedValue([{ schoolId: 3 }]);
+
+      await expect(calendarEventScope(7)).resolves.toEqual({
+        OR: [
+          { teacherId: 7 },
+          { teacherId: null, schoolId: null },
+          { teacherId: null, schoolId: { in: [3] } },
+        ],
+      });
+    });
+  });
+
+  describe('inviteStaffMember', () => {
+    it('creates an account with a temporary password for new staff', async () => {
+      user.findUnique.mockResolvedValue(null);
+
+      const result = await inviteStaffMember(1, 3, {
+        email: 'New.Teacher@example.com',
+        name: 'New Teacher',
+        role: 'TEACHER',
+      });
+
+      expect(result.temporaryPassword).toEqual(expect.any(String));
+      expect(user.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          email: 'new.teacher@example.com',
+          mustChangePassword: true,
+        }),
+      });
+      expect(schoolInvitation.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          create: expect.objectContaining({
+            schoolId: 1,
+            email: 'new.teacher@example.com',
+            invitedUserId: 42,
+            role: 'TEACHER',
+            status: 'PENDING',
+          }),
+        }),
+      );
+      expect(schoolMembership.upsert).not.toHaveBeenCalled();
+      expect(emailDelivery.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ to: 'new.teacher@example.com' }),
+      });
+    });
+
+    it('invites existing accounts without adding them or touching their password', async () => {
+      user.findUnique.mockResolvedValue({ id: 9 });
+
+      const result = await inviteStaffMember(1, 3, {
+        email: 'teacher@example.com',
+        name: 'Teacher',
+        role: 'SCHOOL_ADMIN',
+      });
+
+      expect(result.temporaryPassword).toBeUndefined();
+      expect(user.create).not.toHaveBeenCalled();
+      expect(schoolMembership.upsert).not.toHaveBeenCalled();
+    });
+
+    it('refuses to change the role of someone already on the staff', async () => {
+      user.findUnique.mockResolvedValue({ id: 9 });
+      schoolMembership.findUnique.mockResolvedValue({ id: 'membership-1' });
+
+      await expect(
+        inviteStaffMember(1, 3, {
+          email: 'teacher@example.com',
+          name: 'Teacher',
+          role: 'SCHOOL_ADMIN',
+        }),
+      ).rejects.toThrow('already on the staff');
+      expect(schoolInvitation.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('respondToSchoolInvitation', () => {
+    const invitation = {
+      id: 'invitation-1',
+      schoolId: 1,
+      email: 'teacher@example.com',
+      invitedUserId: 9,
+      role: 'TEACHER',
+      status: 'PENDING',
+      expiresAt: new Date(Date.now() + 60_000),
+    };
+    const invitee = { id: 9, email: 'Teacher@example.com' };
+
+    it('adds the user to the staff only when they accept', async () => {
+      schoolInvitation.findUnique.mockResolvedValue(invitation);
+
+      await respondToSchoolInvitation(invitee, 'invitation-1', false);
+      expect(schoolMembership.upsert).not.toHaveBeenCalled();
+
+      await respondToSchoolInvitation(invitee, 'invitation-1', true);
+      expect(schoolMembership.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ create: { schoolId: 1, userId: 9, role: 'TEACHER' } }),
+      );
+    });
+
+    it("ignores other people's invitations and answered ones", async () => {
+      schoolInvitation.findUnique.mockResolvedValue(invitation);
+      await expect(
+        respondToSchoolInvitation({ id: 5, email: 'other@example.com' }, 'invitation-1', true),
+      ).resolves.toBeNull();
+
+      schoolInvitation.findUnique.mockResolvedValue({ ...invitation, status: 'DECLINED' });
+      await expect(respondToSchoolInvitation(invitee, 'invitation-1', true)).rejects.toThrow(
+        'already been responded to',
+      );
+      expect(schoolMembership.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('buildSchoolCoverage', () => {
+    it('counts teachers per expectation without naming them', () => {
+      const expectation = (id: string) => ({
+        id,
+        code: id,
+        description: '',
+        strand: 'A',
+        substrand: null,
+        subject: 'Math',
+        grade: 3,
+      });
+      const date = new Date('2024-10-01');
+
+      const coverage = buildSchoolCoverage(
+        [expectation('A1'), expectation('A2')],
+        [
+          [
+            { expectationId: 'A1', date },
+            { expectationId: 'A1', date },
+          ],
+          [{ expectationId: 'A1', date }],
+          [],
+        ],
+        {
+          from: new Date('2024-09-01'),
+          to: new Date('2024-12-31'),
+          viewMode: 'planned',
+        },
+      );
+
+      expect(coverage.outcomes.map((o) => [o.id, o.teacherCount])).toEqual([
+        ['A1', 2],
+        ['A2', 0],
+      ]);
+      expect(coverage.metadata).toMatchObject({
+        teacherCount: 3,
+        activeTeacherCount: 2,
+        coveredOutcomes: 1,
+        coveragePercentage: 50,
+      });
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import jwt from 'jsonwebtoken';
+import type { PrismaClient } from '@teaching-engine/database';
+import {
+  SessionError,
+  hashToken,
+  revokeAllSessions,
+  rotateSession,
+  startSession,
+} from '../../src/services/sessionService';
+
+type MockFn = jest.Mock<(...args: unknown[]) => Promise<unknown>>;
+
+describe('sessionService Unit Tests', () => {
+  const originalSecret = process.env.JWT_SECRET;
+  let userSession: { create: MockFn; findUnique: MockFn; update: MockFn; updateMany: MockFn };
+  let prisma: PrismaClient;
+
+  beforeEach(() => {
+    process.env.JWT_SECRET = 'test-secret';
+    userSession = {
+      create: jest.fn(async () => ({ id: 'session-1' })),
+      findUnique: jest.fn(),
+      update: jest.fn(async () => ({})),
+      updateMany: jest.fn(async () => ({ count: 2 })),
+    };
+    prisma = { userSession } as unknown as PrismaClient;
+  });
+
+  afterEach(() => {
+    process.env.JWT_SECRET = originalSecret;
+    jest.restoreAllMocks();
+  });
+
+  describe('startSession', () => {
+    it('stores only the hash of the refresh token and ties the access token to the session', async () => {
+      const sign = jest.spyOn(jwt, 'sign');
+      const tokens = await startSession(prisma, { id: 7, email: 'teacher@example.com' });
+
+      const { data } = userSession.create.mock.calls[0][0] as {
+        data: { userId: number; refreshTokenHash: string };
+      };
+      expect(data.userId).toBe(7);
+      expect(data.refreshTokenHash).toBe(hashToken(tokens.refreshToken));
+      expect(data.refreshTokenHash).not.toBe(tokens.refreshToken);
+
+      expect(sign).toHaveBeenCalledWith(
+        { userId: '7', email: 'teacher@example.com', sid: 'session-1' },
+        'test-secret',
+        { expiresIn: '15m' },
+      );
+      expect(tokens.expiresAt).toBeGreaterThan(Date.now());
+    });
+  });
+
+  describe('rotateSession', () => {
+    const activeSession = {
+      id: 'session-1',
+      revokedAt: null,
+      expiresAt: new Date(Date.now() + 60_000),
+      user: { id: 7, email: 'teacher@example.com' },
+    };
+
+    it('replaces the refresh token on every refresh', async () => {
+      userSession.findUnique.mockResolvedValue(activeSession);
+      userSession.updateMany.mockResolvedValue({ count: 1 });
+
+      const tokens = await rotateSession(prisma, 'old-token');
+
+      expect(userSession.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { refreshTokenHash: hashToken('old-token') } }),
+      );
+      const { where, data } = userSession.updateMany.mock.calls[0][0] as {
+        where: { id: string; refreshTokenHash: string };
+        data: { refreshTokenHash: string };
+      };
+      expect(where).toEqual({ id: 'session-1', refreshTokenHash: hashToken('old-token') });
+      expect(tokens.refreshToken).not.toBe('old-token');
+      expect(data.refreshTokenHash).toBe(hashToken(tokens.refreshToken));
+      expect(userSession.update).not.toHaveBeenCalled();
+    });
+
+    it('revokes the session when a refresh token is replayed', async () => {
+      // Both requests found the session; the other one rotated the token first
+      userSession.findUnique.mockResolvedValue(activeSession);
+      userSession.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(rotateSession(prisma, 'old-token')).rejects.toBeInstanceOf(SessionError);
+
+      expect(userSession.update).toHaveBeenCalledWith({
+        where: { id: 'session-1' },
+        data: { revokedAt: expect.any(Date) },
+      });
+    });
+
+    it('rejects unknown, revoked and expired sessions', async () => {
+      userSession.findUnique.mockResolvedValueOnce(null);
+      await expect(rotateSession(prisma, 'unknown')).rejects.toBeInstanceOf(SessionError);
+
+      userSession.findUnique.mockResolvedValueOnce({ ...activeSession, revokedAt: new Date() });
+      await expect(rotateSession(prisma, 'revoked')).rejects.toBeInstanceOf(SessionError);
+
+      userSession.findUnique.mockResolvedValueOnce({
+        ...activeSession,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+      await expect(rotateSession(prisma, 'expired')).rejects.toBeInstanceOf(SessionError);
+
+      expect(userSession.updateMany).not.toHaveBeenCalled();
+      expect(userSession.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeAllSessions', () => {
+    it('can keep the current session signed in', async () => {
+      const count = await revokeAllSessions(prisma, 7, 'session-1');
+
+      expect(count).toBe(2);
+      expect(userSession.updateMany).toHaveBeenCalledWith({
+        where: { userId: 7, revokedAt: null, id: { not: 'session-1' } },
+        data: { revokedAt: expect.any(Date) },
+      });
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import {
+  importRoster,
+  parseCsv,
+  parseRosterCsv,
+  RosterImportError,
+} from '../../src/services/studentRosterService';
+import { getMockedPrisma, resetPrismaMocks } from '../helpers/mock-prisma';
+
+describe('studentRosterService Unit Tests', () => {
+  const { student, $transaction: transaction } = getMockedPrisma();
+
+  beforeEach(() => {
+    resetPrismaMocks();
+    student.findMany.mockResolvedValue([
+      { id: 1, firstName: 'Zoé', lastName: 'Tremblay', archivedAt: null },
+      { id: 2, firstName: 'Liam', lastName: 'Nguyen', archivedAt: new Date('2025-06-27') },
+    ]);
+    student.create.mockImplementation(async (args: unknown) => args);
+    student.update.mockImplementation(async (args: unknown) => args);
+  });
+
+  describe('parseCsv', () => {
+    it('handles quotes, embedded commas and Excel byte-order marks', () => {
+      expect(parseCsv('\uFEFFa,b\r\n"Smith, Jr.","say ""hi"""\n')).toEqual([
+        ['a', 'b'],
+        ['Smith, Jr.', 'say "hi"'],
+      ]);
+    });
+
+    it('reads semicolon-separated files', () => {
+      expect(parseCsv('Prénom;Nom;Année\nZoé;Tremblay;3')).toEqual([
+        ['Prénom', 'Nom', 'Année'],
+        ['Zoé', 'Tremblay', '3'],
+      ]);
+    });
+  });
+
+  describe('parseRosterCsv', () => {
+    it('matches French headers and reports bad rows by line', () => {
+      const { rows, errors } = parseRosterCsv(
+        'Prénom,Nom,Année\nZoé,Tremblay,3\nNoah,,4\nAva,Roy,K',
+      );
+
+      expect(rows).toEqual([{ line: 2, firstName: 'Zoé', lastName: 'Tremblay', grade: 3 }]);
+      expect(errors).toEqual([
+        { line: 3, error: 'First and last name are required' },
+        { line: 4, error: '"K" is not a grade from 1 to 12' },
+      ]);
+    });
+
+    it('rejects files without the required columns', () => {
+      expect(() => parseRosterCsv('Name,Grade\nZoé Tremblay,3')).toThrow(RosterImportError);
+    });
+  });
+
+  describe('importRoster', () => {
+    const csv = [
+      'First name,Last name,Grade',
+      'ZOE,tremblay,4',
+      'Liam,Nguyen,5',
+      'Maya,Singh,4',
+      'Maya,Singh,4',
+    ].join('\n');
+
+    it('reports duplicates without writing on a dry run', async () => {
+      const result = await importRoster(1, csv, { onDuplicate: 'skip', dryRun: true });
+
+      expect(result).toMatchObject({ created: 1, updated: 0, skipped: 3 });
+      expect(result.duplicates).toEqual([
+        expect.objectContaining({ line: 2, studentId: 1, archived: false }),
+        expect.objectContaining({ line: 3, studentId: 2, archived: true }),
+        expect.objectContaining({ line: 5, studentId: null }),
+      ]);
+      expect(transaction).not.toHaveBeenCalled();
+    });
+
+    it('updates grades and brings back archived students when asked', async () => {
+      const result = await importRoster(1, csv, { onDuplicate: 'update', dryRun: false });
+
+      expect(result).toMatchObject({ created: 1, updated: 2, skipped: 1 });
+      expect(student.create).toHaveBeenCalledWith({
+        data: { userId: 1, firstName: 'Maya', lastName: 'Singh', grade: 4 },
+      });
+      expect(student.update).toHaveBeenCalledWith({
+        where: { id: 2 },
+        data: { grade: 5, archivedAt: null },
+      });
+      expect(transaction).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { buildSubPlanData, pickSubFriendlyReplacement } from '../../src/services/subPlanService';
+import { getMockedPrisma, resetPrismaMocks } from '../helpers/mock-prisma';
+
+type Row = Record<string, unknown>;
+type Where = Record<string, unknown>;
+
+// Just enough of Prisma's filtering to run the service's queries against rows
+const matches = (row: Row, where: Where): boolean =>
+  Object.entries(where).every(([key, condition]) => {
+    if (key === 'AND') return (condition as Where[]).every((w) => matches(row, w));
+    if (key === 'OR') return (condition as Where[]).some((w) => matches(row, w));
+    const value = row[key] as number | Date | null;
+    if (condition instanceof Date) return (value as Date).getTime() === condition.getTime();
+    if (condition && typeof condition === 'object') {
+      const { in: within, lte, gte } = condition as { in?: unknown[]; lte?: Date; gte?: Date };
+      return (
+        (!within || within.includes(value)) &&
+        (!lte || (value as Date) <= lte) &&
+        (!gte || (value as Date) >= gte)
+      );
+    }
+    return value === condition;
+  });
+
+describe('SubPlanService Unit Tests', () => {
+  describe('pickSubFriendlyReplacement', () => {
+    const day = new Date('2025-10-15T00:00:00Z');
+    const candidates = [
+      { id: 'a', title: 'Review', unitPlanId: 'u1', date: new Date('2025-10-01'), subNotes: null },
+      { id: 'b', title: 'Centres', unitPlanId: 'u1', date: new Date('2025-10-20'), subNotes: null },
+      { id: 'c', title: 'Quiz', unitPlanId: 'u1', date: new Date('2025-10-22'), subNotes: null },
+      { id: 'd', title: 'Other', unitPlanId: 'u2', date: new Date('2025-10-16'), subNotes: null },
+    ];
+
+    it('prefers the next upcoming sub-friendly lesson in the same unit', () => {
+      const result = pickSubFriendlyReplacement('u1', day, candidates, new Set());
+      expect(result?.id).toBe('b');
+    });
+
+    it('skips lessons already on the schedule for the day', () => {
+      const result = pickSubFriendlyReplacement('u1', day, candidates, new Set(['b']));
+      expect(result?.id).toBe('c');
+    });
+
+    it('falls back to the most recent lesson when none are upcoming', () => {
+      const result = pickSubFriendlyReplacement('u1', day, candidates, new Set(['b', 'c']));
+      expect(result?.id).toBe('a');
+    });
+
+    it('returns undefined when the unit has no sub-friendly lessons', () => {
+      expect(pickSubFriendlyReplacement('u3', day, candidates, new Set())).toBeUndefined();
+    });
+  });
+
+  describe('buildSubPlanData', () => {
+    const { calendarEvent, unavailableBlock, schoolMembership } = getMockedPrisma();
+    const day = new Date('2025-10-15T00:00:00.000Z');
+    const at = (hour: number) => new Date(Date.UTC(2025, 9, 15, hour));
+
+    const events: Row[] = [
+      { teacherId: 1, schoolId: null, title: 'Parent call', start: at(12), end: at(13) },
+      { teacherId: 2, schoolId: null, title: 'Dentist (teacher 2)', start: at(9), end: at(10) },
+      { teacherId: null, schoolId: 10, title: 'Fire drill', start: at(10), end: at(11) },
+      { teacherId: null, schoolId: 20, title: 'Other school concert', start: at(13), end: at(14) },
+    ];
+    const blocks: Row[] = [
+      { teacherId: 1, date: day, blockType: 'STUDENT_PULL_OUT', startMin: 600, reason: 'Reading' },
+      {
+        teacherId: 2,
+        date: day,
+        blockType: 'STUDENT_PULL_OUT',
+        startMin: 660,
+        reason: 'Speech (teacher 2)',
+      },
+      { teacherId: 2, date: day, blockType: 'TEACHER_ABSENCE', startMin: 540, reason: 'Away' },
+    ];
+
+    beforeEach(() => {
+      resetPrismaMocks();
+      schoolMembership.findMany.mockResolvedValue([{ schoolId: 10 }]);
+      calendarEvent.findMany.mockImplementation(async ({ where }: { where: Where }) =>
+        events.filter((row) => matches(row, where)),
+      );
+      unavailableBlock.findMany.mockImplementation(async ({ where }: { where: Where }) =>
+        blocks.filter((row) => matches(row, where)),
+      );
+    });
+
+    it("leaves another teacher's events and blocks out of the plan", async () => {
+      const plan = await buildSubPlanData('2025-10-15', {
+        userId: 1,
+        includeGoals: false,
+        includeRoutines: false,
+        includePlans: false,
+      });
+
+      expect(plan.schedule.map((entry) => entry.note)).toEqual(['Fire drill', 'Parent call']);
+      expect(plan.pullOuts).toEqual([{ time: '10:00', reason: 'Reading' }]);
+    });
+  });
+});
@@ -0,0 +1,217 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { applySyncBatch, findConflictingFields } from '../../src/services/syncService';
+import { getMockedPrisma, resetPrismaMocks } from '../helpers/mock-prisma';
+
+describe('syncService Unit Tests', () => {
+  const { unitPlan, eTFOLessonPlan, planVersion, longRangePlan } = getMockedPrisma();
+
+  const serverUnit = {
+    id: 'unit-1',
+    userId: 1,
+    title: 'Fractions',
+    bigIdeas: 'Parts of a whole',
+    longRangePlanId: 'lrp-1',
+    updatedAt: new Date('2025-01-10T00:00:00.000Z'),
+  };
+
+  beforeEach(() => {
+    resetPrismaMocks();
+    unitPlan.findFirst.mockResolvedValue(serverUnit);
+    unitPlan.findUnique.mockResolvedValue(null);
+    unitPlan.update.mockImplementation(async (args: { where: { id: string } }) => ({
+      id: args.where.id,
+      updatedAt: new Date('2025-01-11T00:00:00.000Z'),
+    }));
+    unitPlan.delete.mockResolvedValue(serverUnit);
+    eTFOLessonPlan.findFirst.mockResolvedValue(null);
+    eTFOLessonPlan.findUnique.mockResolvedValue(null);
+    eTFOLessonPlan.create.mockResolvedValue({
+      id: 'lesson-1',
+      updatedAt: new Date('2025-01-11T00:00:00.000Z'),
+    });
+    planVersion.count.mockResolvedValue(1);
+  });
+
+  describe('findConflictingFields', () => {
+    it('only flags fields both sides changed', () => {
+      const fields = findConflictingFields(
+        { title: 'Fractions!', bigIdeas: 'Local ideas' },
+        { title: 'Fractions', bigIdeas: 'Server ideas' },
+        { title: 'Fractions', bigIdeas: 'Old ideas' },
+        true,
+      );
+
+      expect(fields).toEqual(['bigIdeas']);
+    });
+
+    it('treats every differing field as a conflict without a base snapshot', () => {
+      expect(
+        findConflictingFields({ title: 'A', bigIdeas: 'B' }, { title: 'A' }, undefined, true),
+      ).toEqual(['bigIdeas']);
+      expect(findConflictingFields({ title: 'B' }, { title: 'A' }, undefined, false)).toEqual([]);
+    });
+  });
+
+  describe('applySyncBatch', () => {
+    it('applies an update when the server has not changed since the base', async () => {
+      const result = await applySyncBatch(1, [
+        {
+          id: 'change-1',
+          type: 'UPDATE',
+          entity: 'unit-plan',
+          entityId: 'unit-1',
+          data: { title: 'Fractions and decimals', id: 'unit-1', grade: '4' },
+          baseUpdatedAt: new Date('2025-01-10T00:00:00.000Z'),
+        },
+      ]);
+
+      expect(result.conflicts).toEqual([]);
+      expect(result.applied).toEqual([
+        expect.objectContaining({ changeId: 'change-1', entityId: 'unit-1' }),
+      ]);
+      // Fields the server does not sync are dropped rather than written
+      expect(unitPlan.update).toHaveBeenCalledWith({
+        where: { id: 'unit-1' },
+        data: { title: 'Fractions and decimals' },
+      });
+    });
+
+    it('returns field-level conflicts and holds later edits to the same record', async () => {
+      const result = await applySyncBatch(1, [
+        {
+          id: 'change-1',
+          type: 'UPDATE',
+          entity: 'unit-plan',
+          entityId: 'unit-1',
+          data: { title: 'Fractions', bigIdeas: 'Local ideas' },
+          baseUpdatedAt: new Date('2025-01-05T00:00:00.000Z'),
+          base: { title: 'Fractions', bigIdeas: 'Old ideas' },
+        },
+        {
+          id: 'change-2',
+          type: 'DELETE',
+          entity: 'unit-plan',
+          entityId: 'unit-1',
+          data: {},
+        },
+      ]);
+
+      expect(result.conflicts).toEqual([
+        expect.objectContaining({
+          changeId: 'change-1',
+          reason: 'modified',
+          fields: ['bigIdeas'],
+          local: { bigIdeas: 'Local ideas' },
+          remote: expect.objectContaining({ bigIdeas: 'Parts of a whole' }),
+          serverUpdatedAt: '2025-01-10T00:00:00.000Z',
+        }),
+      ]);
+      expect(result.held).toEqual(['change-2']);
+      expect(unitPlan.update).not.toHaveBeenCalled();
+      expect(unitPlan.delete).not.toHaveBeenCalled();
+    });
+
+    it('reports edits to records deleted on the server', async () => {
+      unitPlan.findFirst.mockResolvedValue(null);
+
+      const result = await applySyncBatch(1, [
+        {
+          id: 'change-1',
+          type: 'UPDATE',
+          entity: 'unit-plan',
+          entityId: 'unit-1',
+          data: { title: 'Fractions' },
+          baseUpdatedAt: new Date('2025-01-10T00:00:00.000Z'),
+        },
+      ]);
+
+      expect(result.conflicts[0]).toMatchObject({ reason: 'deleted', remote: null });
+    });
+
+    it("does not record a baseline for another teacher's plan", async () => {
+      unitPlan.findFirst.mockResolvedValue(null);
+
+      await applySyncBatch(2, [
+        {
+          id: 'change-1',
+          type: 'UPDATE',
+          entity: 'unit-plan',
+          entityId: 'unit-1',
+          data: { title: 'Mine now' },
+          baseUpdatedAt: new Date('2025-01-10T00:00:00.000Z'),
+        },
+      ]);
+
+      expect(unitPlan.findFirst).toHaveBeenCalledWith({ where: { id: 'unit-1', userId: 2 } });
+      expect(planVersion.count).not.toHaveBeenCalled();
+      expect(unitPlan.update).not.toHaveBeenCalled();
+    });
+
+    it('resolves temporary parent ids from creates earlier in the batch', async () => {
+      unitPlan.create.mockResolvedValue({ id: 'unit-2', updatedAt: new Date() });
+      unitPlan.findFirst.mockResolvedValue({ id: 'unit-2' });
+      longRangePlan.findFirst.mockResolvedValue({ id: 'lrp-1' });
+
+      const result = await applySyncBatch(1, [
+        {
+          id: 'change-1',
+          type: 'CREATE',
+          entity: 'unit-plan',
+          entityId: 'temp-unit',
+          data: {
+            title: 'Measurement',
+            startDate: '2025-02-03T00:00:00.000Z',
+            endDate: '2025-02-28T00:00:00.000Z',
+            longRangePlanId: 'lrp-1',
+          },
+        },
+        {
+          id: 'change-2',
+          type: 'CREATE',
+          entity: 'lesson-plan',
+          entityId: 'temp-lesson',
+          data: {
+            title: 'Measuring the classroom',
+            date: '2025-02-04T00:00:00.000Z',
+            duration: 60,
+            unitPlanId: 'temp-unit',
+          },
+        },
+      ]);
+
+      expect(result.applied.map((a) => [a.tempId, a.entityId])).toEqual([
+        ['temp-unit', 'unit-2'],
+        ['temp-lesson', 'lesson-1'],
+      ]);
+      expect(eTFOLessonPlan.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ unitPlanId: 'unit-2', userId: 1 }),
+      });
+    });
+
+    it('rejects invalid changes without touching the rest of the batch', async () => {
+      const result = await applySyncBatch(1, [
+        {
+          id: 'change-1',
+          type: 'UPDATE',
+          entity: 'unit-plan',
+          entityId: 'unit-1',
+          data: { title: '<script>' },
+          baseUpdatedAt: new Date('2025-01-10T00:00:00.000Z'),
+        },
+        {
+          id: 'change-2',
+          type: 'UPDATE',
+          entity: 'unit-plan',
+          entityId: 'unit-1',
+          data: { bigIdeas: 'Wholes' },
+          baseUpdatedAt: new Date('2025-01-10T00:00:00.000Z'),
+        },
+      ]);
+
+      expect(result.rejected).toEqual([
+        { changeId: 'change-1', error: 'title: Title cannot contain HTML tags' },
+      ]);
+      expect(result.applied.map((a) => a.changeId)).toEqual(['change-2']);
+    });
+  });
+});
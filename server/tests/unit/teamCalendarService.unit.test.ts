@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { TeamRole } from '@teaching-engine/database';
+import type { TeamCalendarEvent } from '@teaching-engine/database';
+import { canEditTeamEvent, getTeamAssessmentBlocks } from '../../src/services/teamCalendarService';
+import { getTeamRole } from '../../src/services/teamAccessService';
+import { getMockedPrisma, resetPrismaMocks } from '../helpers/mock-prisma';
+
+describe('teamCalendarService Unit Tests', () => {
+  const { teamMember, team, teamCalendarEvent } = getMockedPrisma();
+
+  beforeEach(() => {
+    resetPrismaMocks();
+    teamMember.findUnique.mockResolvedValue(null);
+    team.findUnique.mockResolvedValue({ ownerId: 1 });
+    teamCalendarEvent.findMany.mockResolvedValue([]);
+  });
+
+  describe('getTeamRole', () => {
+    it('uses the membership role, falling back to team ownership', async () => {
+      teamMember.findUnique.mockResolvedValueOnce({ role: TeamRole.VIEWER });
+      await expect(getTeamRole('team-1', 2)).resolves.toBe(TeamRole.VIEWER);
+
+      await expect(getTeamRole('team-1', 1)).resolves.toBe(TeamRole.OWNER);
+      await expect(getTeamRole('team-1', 3)).resolves.toBeNull();
+    });
+  });
+
+  describe('canEditTeamEvent', () => {
+    const event = { createdByUserId: 2 } as TeamCalendarEvent;
+
+    it('lets members edit their own events and admins edit any', () => {
+      expect(canEditTeamEvent(TeamRole.MEMBER, event, 2)).toBe(true);
+      expect(canEditTeamEvent(TeamRole.MEMBER, event, 3)).toBe(false);
+      expect(canEditTeamEvent(TeamRole.ADMIN, event, 3)).toBe(true);
+      expect(canEditTeamEvent(TeamRole.VIEWER, event, 2)).toBe(false);
+    });
+  });
+
+  describe('getTeamAssessmentBlocks', () => {
+    it('turns team assessments into calendar events for the scheduler', async () => {
+      const startDate = new Date('2025-03-04T13:00:00.000Z');
+      const endDate = new Date('2025-03-04T14:00:00.000Z');
+      teamCalendarEvent.findMany.mockResolvedValue([
+        {
+          id: 'evt-1',
+          title: 'Common math assessment',
+          description: null,
+          startDate,
+          endDate,
+          allDay: false,
+          createdAt: startDate,
+          updatedAt: startDate,
+          calendar: { team: { name: 'Grade 3 Team' } },
+        },
+      ]);
+
+      const blocks = await getTeamAssessmentBlocks(
+        5,
+        new Date('2025-03-03'),
+        new Date('2025-03-10'),
+      );
+
+      const { where } = teamCalendarEvent.findMany.mock.calls[0][0] as {
+        where: { eventType: unknown };
+      };
+      expect(where.eventType).toEqual({ in: ['assessment'] });
+      expect(blocks).toEqual([
+        expect.objectContaining({
+          title: 'Grade 3 Team: Common math assessment',
+          start: startDate,
+          end: endDate,
+          allDay: false,
+          teacherId: 5,
+        }),
+      ]);
+      expect(blocks[0].id).toBeLessThan(0);
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import type { DiscussionReply, TeamDiscussion } from '@teaching-engine/database';
+import { notificationService } from '../../src/services/notificationService';
+import {
+  findTeamSharedPlan,
+  notifyDiscussionReply,
+  withAuthors,
+} from '../../src/services/teamDiscussionService';
+import { getMockedPrisma, resetPrismaMocks } from '../helpers/mock-prisma';
+
+describe('teamDiscussionService Unit Tests', () => {
+  const { team, user, teamMember, sharedPlan } = getMockedPrisma();
+  let sendTemplated: ReturnType<typeof jest.spyOn>;
+
+  const discussion = {
+    id: 'disc-1',
+    teamId: 'team-1',
+    title: 'Fractions pacing',
+  } as TeamDiscussion;
+  const reply = {
+    id: 'reply-1',
+    discussionId: 'disc-1',
+    authorId: 2,
+    content: 'We are starting next week.',
+  } as DiscussionReply;
+
+  beforeEach(() => {
+    resetPrismaMocks();
+    teamMember.findMany.mockResolvedValue([{ userId: 3 }, { userId: 4 }]);
+    sharedPlan.findUnique.mockResolvedValue(null);
+    team.findUnique.mockResolvedValue({ name: 'Grade 3 Team' });
+    user.findUnique.mockResolvedValue({ name: 'Sam' });
+    user.findMany.mockResolvedValue([{ id: 2, name: 'Sam', email: 'sam@example.com' }]);
+    sendTemplated = jest
+      .spyOn(notificationService, 'sendTemplatedNotification')
+      .mockResolvedValue('notification-id');
+  });
+
+  afterEach(() => {
+    sendTemplated.mockRestore();
+  });
+
+  describe('notifyDiscussionReply', () => {
+    it('notifies opted-in members other than the reply author', async () => {
+      await notifyDiscussionReply(discussion, reply);
+
+      expect(teamMember.findMany).toHaveBeenCalledWith({
+        where: { teamId: 'team-1', emailNotifications: true, userId: { not: 2 } },
+        select: { userId: true },
+      });
+      expect(sendTemplated).toHaveBeenCalledTimes(2);
+      expect(sendTemplated).toHaveBeenCalledWith(
+        3,
+        'discussion_reply',
+        {
+          discussionTitle: 'Fractions pacing',
+          authorName: 'Sam',
+          teamName: 'Grade 3 Team',
+          excerpt: 'We are starting next week.',
+        },
+        { metadata: { teamId: 'team-1', discussionId: 'disc-1', replyId: 'reply-1' } },
+      );
+    });
+
+    it('does not throw when notifications fail', async () => {
+      sendTemplated.mockRejectedValue(new Error('smtp down'));
+      teamMember.findMany.mockRejectedValue(new Error('database is down'));
+
+      await expect(notifyDiscussionReply(discussion, reply)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('findTeamSharedPlan', () => {
+    it('only returns plans shared with the same team', async () => {
+      sharedPlan.findUnique.mockResolvedValue({ shareCode: 'abc', teamId: 'team-2' });
+      await expect(findTeamSharedPlan('team-1', 'abc')).resolves.toBeNull();
+
+      sharedPlan.findUnique.mockResolvedValue({ shareCode: 'abc', teamId: 'team-1' });
+      await expect(findTeamSharedPlan('team-1', 'abc')).resolves.toMatchObject({
+        shareCode: 'abc',
+      });
+    });
+  });
+
+  describe('withAuthors', () => {
+    it('attaches the author, or null when the user is gone', async () => {
+      const result = await withAuthors([
+        { id: 'a', authorId: 2 },
+        { id: 'b', authorId: 9 },
+      ]);
+
+      expect(result[0].author).toEqual({ id: 2, name: 'Sam', email: 'sam@example.com' });
+      expect(result[1].author).toBeNull();
+    });
+  });
+});
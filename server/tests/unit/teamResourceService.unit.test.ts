@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import type { TeamResource } from '@teaching-engine/database';
+import {
+  importTeamResource,
+  listTeamResourceCategories,
+} from '../../src/services/teamResourceService';
+import { getMockedPrisma, resetPrismaMocks } from '../helpers/mock-prisma';
+
+describe('teamResourceService Unit Tests', () => {
+  const { unitPlan, eTFOLessonPlan, unitPlanResource, eTFOLessonPlanResource, teamResource } =
+    getMockedPrisma();
+
+  const resource = {
+    id: 'res-1',
+    teamId: 'team-1',
+    title: 'Fraction strips',
+    description: 'Printable strips for halves to twelfths',
+    resourceType: 'document',
+    url: null,
+    content: 'Cut along the dotted lines.',
+  } as TeamResource;
+
+  beforeEach(() => {
+    resetPrismaMocks();
+    unitPlan.findFirst.mockResolvedValue({ id: 'unit-1' });
+    eTFOLessonPlan.findFirst.mockResolvedValue({ id: 'lesson-1' });
+    unitPlanResource.create.mockImplementation(async (args: unknown) => args);
+    eTFOLessonPlanResource.create.mockImplementation(async (args: unknown) => args);
+    teamResource.update.mockResolvedValue({});
+  });
+
+  describe('importTeamResource', () => {
+    it('copies the resource into the lesson plan and counts a download', async () => {
+      await importTeamResource(resource, 5, { lessonPlanId: 'lesson-1' });
+
+      expect(eTFOLessonPlan.findFirst).toHaveBeenCalledWith({
+        where: { id: 'lesson-1', userId: 5 },
+        select: { id: true },
+      });
+      expect(eTFOLessonPlanResource.create).toHaveBeenCalledWith({
+        data: {
+          lessonPlanId: 'lesson-1',
+          title: 'Fraction strips',
+          type: 'document',
+          url: null,
+          content: 'Cut along the dotted lines.',
+        },
+      });
+      expect(teamResource.update).toHaveBeenCalledWith({
+        where: { id: 'res-1' },
+        data: { downloadCount: { increment: 1 } },
+      });
+    });
+
+    it('puts inline content in the unit plan resource notes', async () => {
+      await importTeamResource(resource, 5, { unitPlanId: 'unit-1' });
+
+      expect(unitPlanResource.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          unitPlanId: 'unit-1',
+          notes: 'Cut along the dotted lines.',
+        }),
+      });
+    });
+
+    it("returns null for someone else's plan without counting a download", async () => {
+      unitPlan.findFirst.mockResolvedValue(null);
+
+      await expect(importTeamResource(resource, 5, { unitPlanId: 'unit-9' })).resolves.toBeNull();
+      expect(unitPlanResource.create).not.toHaveBeenCalled();
+      expect(teamResource.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listTeamResourceCategories', () => {
+    it('returns counts sorted by category with uncategorised first', async () => {
+      teamResource.groupBy.mockResolvedValue([
+        { category: 'Math', _count: { _all: 3 } },
+        { category: null, _count: { _all: 1 } },
+        { category: 'Art', _count: { _all: 2 } },
+      ]);
+
+      await expect(listTeamResourceCategories('team-1')).resolves.toEqual([
+        { category: null, count: 1 },
+        { category: 'Art', count: 2 },
+        { category: 'Math', count: 3 },
+      ]);
+    });
+  });
+});
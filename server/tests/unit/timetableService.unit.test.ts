@@ -0,0 +1,97 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  collectClosureDates,
+  getRotationDay,
+  resolveSlotsForDate,
+} from '../../src/services/timetableService';
+import type { TimetableSlotWithSubject } from '../../src/services/timetableService';
+import type { CalendarEvent } from '@teaching-engine/database';
+
+describe('TimetableService Unit Tests', () => {
+  // Monday 2025-09-08
+  const rotation = { rotationLength: 6, rotationStart: new Date('2025-09-08T00:00:00Z') };
+
+  const createSlot = (
+    id: number,
+    day: number | null,
+    rotationDay: number | null,
+    startMin = 540,
+  ): TimetableSlotWithSubject => ({
+    id,
+    timetableId: 1,
+    day,
+    rotationDay,
+    startMin,
+    endMin: startMin + 60,
+    subjectId: id,
+    subject: {
+      id,
+      name: `Subject ${id}`,
+      nameEn: null,
+      nameFr: null,
+      userId: 1,
+      createdAt: new Date(),
+    },
+    label: null,
+    room: '12',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  describe('getRotationDay', () => {
+    it('returns null without rotation settings', () => {
+      const result = getRotationDay(
+        { rotationLength: null, rotationStart: null },
+        new Date('2025-09-10T00:00:00Z'),
+      );
+      expect(result).toBeNull();
+    });
+
+    it('advances one cycle day per school day and skips weekends', () => {
+      expect(getRotationDay(rotation, new Date('2025-09-08T00:00:00Z'))).toBe(1);
+      expect(getRotationDay(rotation, new Date('2025-09-12T00:00:00Z'))).toBe(5);
+      expect(getRotationDay(rotation, new Date('2025-09-13T00:00:00Z'))).toBeNull();
+      expect(getRotationDay(rotation, new Date('2025-09-15T00:00:00Z'))).toBe(6);
+      expect(getRotationDay(rotation, new Date('2025-09-16T00:00:00Z'))).toBe(1);
+    });
+
+    it('does not advance the cycle on holidays and PD days', () => {
+      const closures = collectClosureDates([
+        {
+          id: 1,
+          title: 'PD Day',
+          start: new Date('2025-09-10T00:00:00Z'),
+          end: new Date('2025-09-10T23:59:59Z'),
+          allDay: true,
+          eventType: 'PD_DAY',
+        } as CalendarEvent,
+      ]);
+
+      expect(getRotationDay(rotation, new Date('2025-09-10T00:00:00Z'), closures)).toBeNull();
+      expect(getRotationDay(rotation, new Date('2025-09-11T00:00:00Z'), closures)).toBe(3);
+    });
+  });
+
+  describe('resolveSlotsForDate', () => {
+    it('combines weekly slots with the slots for the current rotation day', () => {
+      const slots = [
+        createSlot(1, 2, null, 600), // every Wednesday
+        createSlot(2, null, 3, 540), // Day 3
+        createSlot(3, null, 4, 540), // Day 4
+        createSlot(4, 1, 3, 660), // Day 3, only when it falls on a Tuesday
+      ];
+
+      // Wednesday 2025-09-10 is Day 3
+      const blocks = resolveSlotsForDate(rotation, slots, new Date('2025-09-10T00:00:00Z'));
+
+      expect(blocks.map((b) => b.slotId)).toEqual([2, 1]);
+      expect(blocks[0]).toMatchObject({
+        date: '2025-09-10',
+        day: 2,
+        rotationDay: 3,
+        subjectName: 'Subject 2',
+        room: '12',
+      });
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, afterEach, jest } from '@jest/globals';
+import dns from 'dns';
+import {
+  fetchPublicUrl,
+  isPublicAddress,
+  resolvePublicAddress,
+} from '../../src/utils/urlValidator';
+
+type Lookup = (hostname: string, options: object) => Promise<dns.LookupAddress[]>;
+
+describe('urlValidator Unit Tests', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const resolvesTo = (...addresses: string[]) =>
+    jest.spyOn(dns.promises, 'lookup').mockImplementation((async () =>
+      addresses.map((address) => ({
+        address,
+        family: address.includes(':') ? 6 : 4,
+      }))) as Lookup as typeof dns.promises.lookup);
+
+  describe('isPublicAddress', () => {
+    it('refuses loopback, private, link-local, CGNAT and mapped addresses', () => {
+      for (const address of [
+        '127.0.0.1',
+        '0.0.0.0',
+        '10.1.2.3',
+        '172.20.0.1',
+        '192.168.1.10',
+        '169.254.169.254',
+        '100.64.0.1',
+        '::1',
+        '::',
+        'fd00::1',
+        'fe80::1',
+        '::ffff:127.0.0.1',
+        '::ffff:169.254.169.254',
+        '64:ff9b::a9fe:a9fe',
+        'not-an-ip',
+      ]) {
+        expect([address, isPublicAddress(address)]).toEqual([address, false]);
+      }
+    });
+
+    it('accepts public addresses', () => {
+      expect(isPublicAddress('8.8.8.8')).toBe(true);
+      expect(isPublicAddress('2606:4700:4700::1111')).toBe(true);
+      expect(isPublicAddress('::ffff:8.8.8.8')).toBe(true);
+    });
+  });
+
+  describe('resolvePublicAddress', () => {
+    it('refuses hostnames with any non-public address', async () => {
+      resolvesTo('93.184.216.34', '10.0.0.8');
+      await expect(resolvePublicAddress('calendar.example.com')).rejects.toThrow(
+        'does not resolve to a public address',
+      );
+    });
+
+    it('returns the address that was checked', async () => {
+      resolvesTo('93.184.216.34');
+      await expect(resolvePublicAddress('calendar.example.com')).resolves.toEqual({
+        address: '93.184.216.34',
+        family: 4,
+      });
+    });
+  });
+
+  describe('fetchPublicUrl', () => {
+    it('does not connect to hosts that resolve to internal addresses', async () => {
+      resolvesTo('169.254.169.254');
+      await expect(
+        fetchPublicUrl('http://metadata.example.com/latest', { maxBytes: 1024 }),
+      ).rejects.toThrow('does not resolve to a public address');
+    });
+
+    it('refuses IP literals in private ranges', async () => {
+      await expect(fetchPublicUrl('http://100.64.0.1/', { maxBytes: 1024 })).rejects.toThrow(
+        'does not resolve to a public address',
+      );
+      await expect(fetchPublicUrl('http://[::ffff:7f00:1]/', { maxBytes: 1024 })).rejects.toThrow(
+        'does not resolve to a public address',
+      );
+    });
+  });
+});